@@ -9,8 +9,10 @@
 // =============================================================================
 
 using System.Diagnostics;
+using System.Xml;
 using Ando.Server.Data;
 using Ando.Server.Models;
+using Ando.Server.Services;
 
 namespace Ando.Server.BuildExecution;
 
@@ -299,21 +301,42 @@ public partial class BuildOrchestrator
         {
             var retentionDays = _storageSettings.ArtifactRetentionDays;
             var expiresAt = DateTime.UtcNow.AddDays(retentionDays);
+            var artifacts = new List<BuildArtifact>();
 
             foreach (var file in Directory.GetFiles(artifactDir, "*", SearchOption.AllDirectories))
             {
                 var info = new FileInfo(file);
                 var relativePath = Path.GetRelativePath(artifactDir, file);
 
-                db.BuildArtifacts.Add(new BuildArtifact
+                var artifact = new BuildArtifact
                 {
                     BuildId = build.Id,
                     Name = Path.GetFileName(file),
                     StoragePath = $"{build.ProjectId}/{build.Id}/{relativePath}",
                     SizeBytes = info.Length,
+                    Sha256 = await ArtifactChecksum.ComputeSha256Async(file, cancellationToken),
                     CreatedAt = DateTime.UtcNow,
                     ExpiresAt = expiresAt
-                });
+                };
+                db.BuildArtifacts.Add(artifact);
+                artifacts.Add(artifact);
+            }
+
+            // Overall coverage is kept on the build for the project trend, which
+            // must outlive the artifacts. A report that cannot be read must not
+            // keep the artifacts from being recorded.
+            try
+            {
+                var coverage = await Coverage.CollectAsync(artifacts, _storageSettings.ArtifactsPath, cancellationToken);
+                if (coverage.Reports.Count > 0)
+                {
+                    build.LineCoverage = coverage.LineRate;
+                    build.BranchCoverage = coverage.BranchRate;
+                }
+            }
+            catch (Exception ex) when (ex is IOException or UnauthorizedAccessException or InvalidDataException or XmlException or FormatException)
+            {
+                _logger.LogWarning(ex, "Failed to read coverage reports for build {BuildId}", build.Id);
             }
 
             await db.SaveChangesAsync(cancellationToken);
@@ -119,9 +119,11 @@ public partial class BuildOrchestrator
     /// <summary>
     /// Prepares the repository by cloning or fetching.
     /// </summary>
+    /// <param name="secrets">Encrypted secret values for this build, by name.</param>
     private async Task<bool> PrepareRepositoryAsync(
         Project project,
         Build build,
+        IReadOnlyDictionary<string, string> secrets,
         string repoPath,
         CancellationToken cancellationToken)
     {
@@ -141,11 +143,9 @@ public partial class BuildOrchestrator
         string? gitTokenOverride = null;
         try
         {
-            var gitHubTokenSecret = project.Secrets.FirstOrDefault(s =>
-                string.Equals(s.Name, "GITHUB_TOKEN", StringComparison.OrdinalIgnoreCase));
-            if (gitHubTokenSecret != null)
+            if (secrets.TryGetValue("GITHUB_TOKEN", out var gitHubTokenSecret))
             {
-                gitTokenOverride = _encryption.Decrypt(gitHubTokenSecret.EncryptedValue);
+                gitTokenOverride = _encryption.Decrypt(gitHubTokenSecret);
             }
         }
         catch (Exception ex)
@@ -250,11 +250,15 @@ public partial class BuildOrchestrator
 
     /// <summary>
     /// Creates a Docker container for the build.
+    /// Environment overrides from a manual trigger replace secrets of the same name.
     /// </summary>
+    /// <param name="secrets">Encrypted secret values for this build, by name.</param>
     private async Task<string?> CreateBuildContainerAsync(
         Project project,
+        IReadOnlyDictionary<string, string> secrets,
         string repoPath,
         string? githubToken,
+        IReadOnlyDictionary<string, string> environmentOverrides,
         CancellationToken cancellationToken)
     {
         _logger.LogInformation("CreateBuildContainer: Starting for repo path {RepoPath}", repoPath);
@@ -290,12 +294,28 @@ public partial class BuildOrchestrator
 
         // Add environment variables from secrets (decrypted)
         var hasGitHubTokenSecret = false;
-        foreach (var secret in project.Secrets)
+        foreach (var (name, encryptedValue) in secrets)
+        {
+            if (environmentOverrides.ContainsKey(name))
+            {
+                continue;
+            }
+
+            var decryptedValue = _encryption.Decrypt(encryptedValue);
+            startInfo.ArgumentList.Add("-e");
+            startInfo.ArgumentList.Add($"{name}={decryptedValue}");
+            if (string.Equals(name, "GITHUB_TOKEN", StringComparison.OrdinalIgnoreCase))
+            {
+                hasGitHubTokenSecret = true;
+            }
+        }
+
+        // Add one-off environment overrides from the build trigger
+        foreach (var (name, value) in environmentOverrides)
         {
-            var decryptedValue = _encryption.Decrypt(secret.EncryptedValue);
             startInfo.ArgumentList.Add("-e");
-            startInfo.ArgumentList.Add($"{secret.Name}={decryptedValue}");
-            if (string.Equals(secret.Name, "GITHUB_TOKEN", StringComparison.OrdinalIgnoreCase))
+            startInfo.ArgumentList.Add($"{name}={value}");
+            if (string.Equals(name, "GITHUB_TOKEN", StringComparison.OrdinalIgnoreCase))
             {
                 hasGitHubTokenSecret = true;
             }
@@ -86,6 +86,8 @@ public partial class BuildOrchestrator : IBuildOrchestrator
         var build = await db.Builds
             .Include(b => b.Project)
             .ThenInclude(p => p.Secrets)
+            .Include(b => b.Project.SharedSecretLinks)
+            .ThenInclude(l => l.SharedSecret)
             .Include(b => b.Project.Owner)
             .FirstOrDefaultAsync(b => b.Id == buildId, cancellationToken);
 
@@ -202,9 +204,29 @@ public partial class BuildOrchestrator : IBuildOrchestrator
             buildLogger.Info($"Repo path (server): {repoPathServer}");
             buildLogger.Info($"Repo path (host): {repoPathHost}");
 
+            // Pick the secret value for this build's profile and branch
+            var secrets = SecretScopes.Resolve(project.Secrets, build.Profile, build.Branch);
+            var scopedSecrets = secrets.Where(s => s.Scope != SecretScopes.All).ToList();
+            if (scopedSecrets.Count > 0)
+            {
+                buildLogger.Info($"Scoped secrets: {string.Join(", ", scopedSecrets.Select(s => $"{s.Name} ({s.Scope})"))}");
+            }
+
+            // Linked shared secrets fill in names the project has no value for
+            var sharedSecrets = SecretScopes.Inherit(project.SharedSecretLinks.Select(l => l.SharedSecret), secrets);
+            if (sharedSecrets.Count > 0)
+            {
+                buildLogger.Info($"Shared secrets: {string.Join(", ", sharedSecrets.Select(s => $"{s.Name} (version {s.Version})"))}");
+            }
+
+            var encryptedSecrets = secrets
+                .Select(s => (s.Name, s.EncryptedValue))
+                .Concat(sharedSecrets.Select(s => (s.Name, s.EncryptedValue)))
+                .ToDictionary(s => s.Name, s => s.EncryptedValue, StringComparer.OrdinalIgnoreCase);
+
             // Step 1: Clone or fetch repository (uses server-internal path)
             buildLogger.Info("Preparing repository...");
-            var repoReady = await PrepareRepositoryAsync(project, build, repoPathServer, linkedCts.Token);
+            var repoReady = await PrepareRepositoryAsync(project, build, encryptedSecrets, repoPathServer, linkedCts.Token);
             if (!repoReady)
             {
                 throw new Exception("Failed to prepare repository");
@@ -212,7 +234,16 @@ public partial class BuildOrchestrator : IBuildOrchestrator
 
             // Step 2: Create build container (uses host path for Docker volume mount)
             buildLogger.Info("Creating build container...");
-            containerId = await CreateBuildContainerAsync(project, repoPathHost, githubTokenForBuild, linkedCts.Token);
+            var environmentOverrides = build.EncryptedEnvironmentOverrides != null
+                ? BuildEnvironmentOverrides.Deserialize(_encryption.Decrypt(build.EncryptedEnvironmentOverrides))
+                : new Dictionary<string, string>();
+            if (environmentOverrides.Count > 0)
+            {
+                // Names only; override values may be sensitive.
+                buildLogger.Info($"Environment overrides: {string.Join(", ", environmentOverrides.Keys)}");
+            }
+            containerId = await CreateBuildContainerAsync(
+                project, encryptedSecrets, repoPathHost, githubTokenForBuild, environmentOverrides, linkedCts.Token);
             if (string.IsNullOrEmpty(containerId))
             {
                 throw new Exception("Failed to create build container");
@@ -220,6 +251,13 @@ public partial class BuildOrchestrator : IBuildOrchestrator
 
             buildLogger.Info($"Container created: {containerId[..12]}");
 
+            // Secrets overridden for this build were not passed to it.
+            var projectService = scope.ServiceProvider.GetRequiredService<IProjectService>();
+            await projectService.RecordSecretUseAsync(
+                project.Id,
+                build.Id,
+                secrets.Where(s => !environmentOverrides.ContainsKey(s.Name)));
+
             // Step 3: Execute build
             buildLogger.Info("Executing build script...");
             if (!string.IsNullOrWhiteSpace(build.Profile))
@@ -255,9 +293,15 @@ public partial class BuildOrchestrator : IBuildOrchestrator
         }
         catch (OperationCanceledException)
         {
+            // The reason is written by whoever cancelled the build, after this context loaded it.
+            var reason = await db.Builds
+                .Where(b => b.Id == buildId)
+                .Select(b => b.CancellationReason)
+                .FirstOrDefaultAsync(CancellationToken.None);
+
             build.Status = BuildStatus.Cancelled;
-            build.ErrorMessage = "Build was cancelled";
-            buildLogger.Info(build.ErrorMessage);
+            build.ErrorMessage = reason ?? "Build was cancelled";
+            buildLogger.Info(reason != null ? $"Build was cancelled: {reason}" : build.ErrorMessage);
         }
         catch (Exception ex)
         {
@@ -334,6 +378,10 @@ public partial class BuildOrchestrator : IBuildOrchestrator
 
     private async Task PublishBuildStatusChangedAsync(Build build, int ownerId, CancellationToken ct)
     {
+        await _hubContext.Clients
+            .Group(BuildLogHub.GetAdminQueueGroupName())
+            .SendAsync("BuildQueueChanged", new { }, ct);
+
         await _hubContext.Clients
             .Group(BuildLogHub.GetUserGroupName(ownerId))
             .SendAsync("BuildStatusChanged", new
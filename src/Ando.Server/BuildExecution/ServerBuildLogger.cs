@@ -174,6 +174,7 @@ public class ServerBuildLogger : IBuildLogger
                 .SendAsync("LogEntry", new
                 {
                     id = entry.Id,
+                    buildId = entry.BuildId,
                     sequence = entry.Sequence,
                     type = entry.Type.ToString(),
                     message = entry.Message,
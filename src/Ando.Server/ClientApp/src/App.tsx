@@ -8,6 +8,7 @@ import { BrowserRouter, Routes, Route, Navigate, useLocation } from 'react-route
 import { QueryProvider } from '@/context/QueryProvider';
 import { AuthProvider, useAuth } from '@/context/AuthContext';
 import { ThemeProvider } from '@/context/ThemeContext';
+import { HubConnectionProvider } from '@/context/HubConnectionContext';
 import { Layout } from '@/components/layout/Layout';
 import { Loading } from '@/components/ui/Loading';
 
@@ -24,11 +25,16 @@ import { ProjectList } from '@/pages/projects/ProjectList';
 import { ProjectDetails } from '@/pages/projects/ProjectDetails';
 import { ProjectCreate } from '@/pages/projects/ProjectCreate';
 import { ProjectSettings } from '@/pages/projects/ProjectSettings';
+import { ProjectBuilds } from '@/pages/projects/ProjectBuilds';
+import { BuildFeed } from '@/pages/builds/BuildFeed';
 import { BuildDetails } from '@/pages/builds/BuildDetails';
+import { BuildCompare } from '@/pages/builds/BuildCompare';
 import { AdminDashboard } from '@/pages/admin/AdminDashboard';
 import { UserManagement } from '@/pages/admin/UserManagement';
 import { UserDetails } from '@/pages/admin/UserDetails';
+import { BuildQueue } from '@/pages/admin/BuildQueue';
 import { ApiTokens } from '@/pages/settings/ApiTokens';
+import { SharedSecrets } from '@/pages/settings/SharedSecrets';
 import { NotFound } from '@/pages/NotFound';
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
@@ -127,8 +133,12 @@ function AppRoutes() {
         <Route path="projects/create" element={<ProjectCreate />} />
         <Route path="projects/:id" element={<ProjectDetails />} />
         <Route path="projects/:id/settings" element={<ProjectSettings />} />
+        <Route path="projects/:id/builds" element={<ProjectBuilds />} />
+        <Route path="builds" element={<BuildFeed />} />
         <Route path="builds/:id" element={<BuildDetails />} />
+        <Route path="builds/:id/compare/:otherId" element={<BuildCompare />} />
         <Route path="settings/api-tokens" element={<ApiTokens />} />
+        <Route path="settings/shared-secrets" element={<SharedSecrets />} />
 
         {/* Admin routes */}
         <Route
@@ -155,6 +165,14 @@ function AppRoutes() {
             </AdminRoute>
           }
         />
+        <Route
+          path="admin/queue"
+          element={
+            <AdminRoute>
+              <BuildQueue />
+            </AdminRoute>
+          }
+        />
       </Route>
 
       {/* 404 */}
@@ -169,7 +187,9 @@ export function App() {
       <ThemeProvider>
         <QueryProvider>
           <AuthProvider>
-            <AppRoutes />
+            <HubConnectionProvider>
+              <AppRoutes />
+            </HubConnectionProvider>
           </AuthProvider>
         </QueryProvider>
       </ThemeProvider>
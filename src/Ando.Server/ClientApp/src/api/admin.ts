@@ -13,6 +13,7 @@ import type {
   SystemUpdateStatusResponse,
   TriggerSystemUpdateResponse,
   SystemHealthResponse,
+  BuildQueueResponse,
 } from '@/types';
 
 export async function getAdminDashboard(): Promise<{ dashboard: AdminDashboardDto }> {
@@ -117,3 +118,27 @@ export async function getSystemHealth(): Promise<SystemHealthResponse> {
   const response = await api.get('/admin/system-health');
   return response.data;
 }
+
+export async function getBuildQueue(): Promise<BuildQueueResponse> {
+  const response = await api.get('/admin/queue');
+  return response.data;
+}
+
+export async function reorderBuildQueue(
+  buildIds: number[]
+): Promise<{ success: boolean; error?: string }> {
+  const response = await api.post('/admin/queue/reorder', { buildIds });
+  return response.data;
+}
+
+export async function cancelBuilds(buildIds: number[]): Promise<{ cancelledCount: number }> {
+  const response = await api.post('/admin/queue/cancel', { buildIds });
+  return response.data;
+}
+
+export async function setBuildQueuePaused(
+  isPaused: boolean
+): Promise<{ isPaused: boolean; pausedAt: string | null }> {
+  const response = await api.post('/admin/queue/pause', { isPaused });
+  return response.data;
+}
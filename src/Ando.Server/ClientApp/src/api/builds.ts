@@ -5,7 +5,30 @@
 // =============================================================================
 
 import api from './client';
-import type { BuildDetailsDto, LogEntry } from '@/types';
+import type {
+  ArtifactContentsResponse,
+  BuildCoverageResponse,
+  BuildDetailsDto,
+  BuildFeedItemDto,
+  BuildHistoryFilters,
+  BuildHistoryPage,
+  BuildLogFormat,
+  BuildTestResultsResponse,
+  LogEntry,
+} from '@/types';
+
+export async function getBuildFeed(
+  filters: BuildHistoryFilters = {},
+  cursor?: string | null
+): Promise<BuildHistoryPage<BuildFeedItemDto>> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.append(key, value);
+  }
+  if (cursor) params.append('cursor', cursor);
+  const response = await api.get(`/builds?${params}`);
+  return response.data;
+}
 
 export async function getBuild(id: number): Promise<{ build: BuildDetailsDto }> {
   const response = await api.get(`/builds/${id}`);
@@ -20,6 +43,16 @@ export async function getBuildLogs(
   return response.data;
 }
 
+export async function getBuildTestResults(id: number): Promise<BuildTestResultsResponse> {
+  const response = await api.get(`/builds/${id}/tests`);
+  return response.data;
+}
+
+export async function getBuildCoverage(id: number): Promise<BuildCoverageResponse> {
+  const response = await api.get(`/builds/${id}/coverage`);
+  return response.data;
+}
+
 export async function cancelBuild(id: number): Promise<{ success: boolean; error?: string }> {
   const response = await api.post(`/builds/${id}/cancel`);
   return response.data;
@@ -33,3 +66,26 @@ export async function retryBuild(id: number): Promise<{ success: boolean; buildI
 export function getArtifactDownloadUrl(buildId: number, artifactId: number): string {
   return `/api/builds/${buildId}/artifacts/${artifactId}`;
 }
+
+export async function getArtifactContents(buildId: number, artifactId: number): Promise<ArtifactContentsResponse> {
+  const response = await api.get(`/builds/${buildId}/artifacts/${artifactId}/contents`);
+  return response.data;
+}
+
+export function getArtifactPreviewUrl(buildId: number, artifactId: number, entry?: string): string {
+  const url = `/api/builds/${buildId}/artifacts/${artifactId}/preview`;
+  return entry ? `${url}?entry=${encodeURIComponent(entry)}` : url;
+}
+
+export async function getArtifactPreviewText(buildId: number, artifactId: number, entry?: string): Promise<string> {
+  const response = await api.get(`/builds/${buildId}/artifacts/${artifactId}/preview`, {
+    params: entry ? { entry } : undefined,
+    responseType: 'text',
+    transformResponse: (data) => data,
+  });
+  return response.data;
+}
+
+export function getBuildLogDownloadUrl(buildId: number, format: BuildLogFormat = 'text'): string {
+  return `/api/builds/${buildId}/logs/download?format=${format}`;
+}
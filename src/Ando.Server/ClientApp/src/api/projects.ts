@@ -6,11 +6,25 @@
 
 import api from './client';
 import type {
+  BulkImportSecretsResponse,
+  BulkSecretValue,
+  PreviewBulkSecretsResponse,
   ProjectListItemDto,
   ProjectDetailsDto,
+  BuildHistoryFilters,
+  BuildHistoryPage,
+  ProjectAnalyticsDto,
+  ProjectBranchesResponse,
+  ProjectCoverageResponse,
+  ProjectPullRequestsResponse,
   ProjectSettingsDto,
   ProjectStatusDto,
+  RepositoryBranchDto,
+  SecretEventDto,
+  SecretResponse,
   CreateProjectResponse,
+  TriggerBuildRequest,
+  TriggerBuildResponse,
   UpdateProjectSettingsRequest,
 } from '@/types';
 
@@ -35,6 +49,46 @@ export async function getProject(id: number): Promise<{ project: ProjectDetailsD
   return response.data;
 }
 
+export async function getProjectBuilds(
+  id: number,
+  filters: BuildHistoryFilters = {},
+  cursor?: string | null
+): Promise<BuildHistoryPage> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.append(key, value);
+  }
+  if (cursor) params.append('cursor', cursor);
+  const response = await api.get(`/projects/${id}/builds?${params}`);
+  return response.data;
+}
+
+export async function getProjectAnalytics(
+  id: number,
+  days: number = 90
+): Promise<{ analytics: ProjectAnalyticsDto }> {
+  const response = await api.get(`/projects/${id}/analytics?days=${days}`);
+  return response.data;
+}
+
+export async function getProjectCoverage(id: number): Promise<ProjectCoverageResponse> {
+  const response = await api.get(`/projects/${id}/coverage`);
+  return response.data;
+}
+
+export async function getProjectBranches(
+  id: number,
+  abandonedDays: number = 30
+): Promise<ProjectBranchesResponse> {
+  const response = await api.get(`/projects/${id}/branches?abandonedDays=${abandonedDays}`);
+  return response.data;
+}
+
+export async function getProjectPullRequests(id: number): Promise<ProjectPullRequestsResponse> {
+  const response = await api.get(`/projects/${id}/pull-requests`);
+  return response.data;
+}
+
 export async function getProjectSettings(id: number): Promise<{ settings: ProjectSettingsDto }> {
   const response = await api.get(`/projects/${id}/settings`);
   return response.data;
@@ -58,36 +112,90 @@ export async function deleteProject(id: number): Promise<{ success: boolean; err
   return response.data;
 }
 
+export async function getRepositoryBranches(
+  id: number
+): Promise<{ branches: RepositoryBranchDto[]; defaultBranch: string }> {
+  const response = await api.get(`/projects/${id}/repository/branches`);
+  return response.data;
+}
+
 export async function triggerBuild(
   id: number,
-  branch?: string
-): Promise<{ success: boolean; buildId?: number; error?: string }> {
-  const response = await api.post(`/projects/${id}/build`, { branch });
+  options: TriggerBuildRequest = {}
+): Promise<TriggerBuildResponse> {
+  const response = await api.post(`/projects/${id}/build`, options);
   return response.data;
 }
 
+// scope is '' (all builds), 'profile:<name>' or 'branch:<pattern>'.
 export async function setSecret(
   projectId: number,
   name: string,
-  value: string
-): Promise<{ success: boolean; error?: string }> {
-  const response = await api.post(`/projects/${projectId}/secrets`, { name, value });
+  value: string,
+  scope = ''
+): Promise<SecretResponse> {
+  const response = await api.post(`/projects/${projectId}/secrets`, { name, value, scope });
   return response.data;
 }
 
 export async function deleteSecret(
   projectId: number,
-  name: string
-): Promise<{ success: boolean; error?: string }> {
-  const response = await api.delete(`/projects/${projectId}/secrets/${encodeURIComponent(name)}`);
+  name: string,
+  scope = ''
+): Promise<SecretResponse> {
+  const params = new URLSearchParams();
+  if (scope) params.append('scope', scope);
+  const response = await api.delete(`/projects/${projectId}/secrets/${encodeURIComponent(name)}?${params}`);
+  return response.data;
+}
+
+// rotateBy is a yyyy-MM-dd date, or null to clear the deadline.
+export async function setSecretRotation(
+  projectId: number,
+  name: string,
+  rotateBy: string | null,
+  scope = ''
+): Promise<SecretResponse> {
+  const response = await api.put(`/projects/${projectId}/secrets/${encodeURIComponent(name)}/rotation`, {
+    rotateBy,
+    scope,
+  });
+  return response.data;
+}
+
+export async function getSecretHistory(
+  projectId: number,
+  name?: string
+): Promise<{ events: SecretEventDto[] }> {
+  const params = new URLSearchParams();
+  if (name) params.append('name', name);
+  const response = await api.get(`/projects/${projectId}/secrets/history?${params}`);
   return response.data;
 }
 
 export async function bulkImportSecrets(
   projectId: number,
-  content: string
-): Promise<{ success: boolean; importedCount: number; errors?: string[] }> {
-  const response = await api.post(`/projects/${projectId}/secrets/bulk`, { content });
+  secrets: BulkSecretValue[]
+): Promise<BulkImportSecretsResponse> {
+  const response = await api.post(`/projects/${projectId}/secrets/bulk`, { secrets });
+  return response.data;
+}
+
+export async function previewBulkSecrets(
+  projectId: number,
+  secrets: BulkSecretValue[]
+): Promise<PreviewBulkSecretsResponse> {
+  const response = await api.post(`/projects/${projectId}/secrets/bulk/preview`, { secrets });
+  return response.data;
+}
+
+export async function linkSharedSecret(projectId: number, sharedSecretId: number): Promise<SecretResponse> {
+  const response = await api.put(`/projects/${projectId}/shared-secrets/${sharedSecretId}`);
+  return response.data;
+}
+
+export async function unlinkSharedSecret(projectId: number, sharedSecretId: number): Promise<SecretResponse> {
+  const response = await api.delete(`/projects/${projectId}/shared-secrets/${sharedSecretId}`);
   return response.data;
 }
 
@@ -0,0 +1,24 @@
+// =============================================================================
+// api/sharedSecrets.ts
+//
+// Shared secrets API functions. Shared secrets are owned by the current user
+// and linked to projects from the project settings page.
+// =============================================================================
+
+import api from './client';
+import type { SetSharedSecretResponse, SharedSecretDto } from '@/types';
+
+export async function getSharedSecrets(): Promise<{ sharedSecrets: SharedSecretDto[] }> {
+  const response = await api.get('/shared-secrets');
+  return response.data;
+}
+
+export async function setSharedSecret(name: string, value: string): Promise<SetSharedSecretResponse> {
+  const response = await api.post('/shared-secrets', { name, value });
+  return response.data;
+}
+
+export async function deleteSharedSecret(id: number): Promise<SetSharedSecretResponse> {
+  const response = await api.delete(`/shared-secrets/${id}`);
+  return response.data;
+}
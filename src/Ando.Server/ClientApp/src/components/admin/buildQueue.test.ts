@@ -0,0 +1,38 @@
+// =============================================================================
+// components/admin/buildQueue.test.ts
+//
+// Tests for admin build queue helpers.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { formatWait, moveInQueue } from './buildQueue';
+
+describe('moveInQueue', () => {
+  it('moves a build up, down or to the top', () => {
+    expect(moveInQueue([1, 2, 3], 3, 'up')).toEqual([1, 3, 2]);
+    expect(moveInQueue([1, 2, 3], 1, 'down')).toEqual([2, 1, 3]);
+    expect(moveInQueue([1, 2, 3], 3, 'top')).toEqual([3, 1, 2]);
+  });
+
+  it('returns null when the build cannot move', () => {
+    expect(moveInQueue([1, 2, 3], 1, 'up')).toBeNull();
+    expect(moveInQueue([1, 2, 3], 1, 'top')).toBeNull();
+    expect(moveInQueue([1, 2, 3], 3, 'down')).toBeNull();
+    expect(moveInQueue([1, 2, 3], 9, 'up')).toBeNull();
+  });
+});
+
+describe('formatWait', () => {
+  const since = '2026-01-01T12:00:00Z';
+  const at = (seconds: number) => new Date(since).getTime() + seconds * 1000;
+
+  it('formats seconds, minutes and hours', () => {
+    expect(formatWait(since, at(42))).toBe('42s');
+    expect(formatWait(since, at(125))).toBe('2m 5s');
+    expect(formatWait(since, at(3 * 3600 + 7 * 60))).toBe('3h 7m');
+  });
+
+  it('never goes negative', () => {
+    expect(formatWait(since, at(-5))).toBe('0s');
+  });
+});
@@ -0,0 +1,33 @@
+// =============================================================================
+// components/admin/buildQueue.ts
+//
+// Helpers for the admin build queue page: moving a build within the queue
+// order and formatting how long a build has been waiting.
+// =============================================================================
+
+export type QueueMove = 'top' | 'up' | 'down';
+
+// Returns the queue order after moving one build, or null when it cannot move.
+export function moveInQueue(buildIds: number[], buildId: number, move: QueueMove): number[] | null {
+  const index = buildIds.indexOf(buildId);
+  if (index === -1) return null;
+
+  const target = move === 'top' ? 0 : move === 'up' ? index - 1 : index + 1;
+  if (target < 0 || target >= buildIds.length || target === index) return null;
+
+  const next = [...buildIds];
+  next.splice(index, 1);
+  next.splice(target, 0, buildId);
+  return next;
+}
+
+export function formatWait(since: string, now: number): string {
+  const seconds = Math.max(0, Math.floor((now - new Date(since).getTime()) / 1000));
+  if (seconds < 60) return `${seconds}s`;
+
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+
+  const hours = Math.floor(minutes / 60);
+  return `${hours}h ${minutes % 60}m`;
+}
@@ -0,0 +1,232 @@
+// =============================================================================
+// components/analytics/ProjectAnalytics.tsx
+//
+// Analytics tab for ProjectDetails: duration percentiles, weekly success rate,
+// queue wait and the steps that fail or flip most often. The period is kept
+// in the URL alongside the active tab.
+// =============================================================================
+
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useSearchParams } from 'react-router-dom';
+import { getProjectAnalytics } from '@/api/projects';
+import { Loading } from '@/components/ui/Loading';
+import { Alert } from '@/components/ui/Alert';
+import type { StepReliabilityDto } from '@/types';
+import { TrendChart } from './TrendChart';
+import { formatPercent, formatSeconds } from './chartScale';
+
+interface ProjectAnalyticsProps {
+  projectId: number;
+}
+
+const PERIODS = [30, 90, 180, 365];
+const DEFAULT_PERIOD = 90;
+
+type StepSort = 'failures' | 'flips';
+
+export function ProjectAnalytics({ projectId }: ProjectAnalyticsProps) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [stepSort, setStepSort] = useState<StepSort>('failures');
+  const requestedDays = Number(searchParams.get('days'));
+  const days = PERIODS.includes(requestedDays) ? requestedDays : DEFAULT_PERIOD;
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['projectAnalytics', projectId, days],
+    queryFn: () => getProjectAnalytics(projectId, days),
+  });
+
+  const analytics = data?.analytics;
+
+  const steps = useMemo(() => {
+    const ranked = [...(analytics?.steps ?? [])];
+    return stepSort === 'flips'
+      ? ranked.sort((a, b) => b.flips - a.flips || b.failures - a.failures)
+      : ranked;
+  }, [analytics, stepSort]);
+
+  const setDays = (value: number) => {
+    const next = new URLSearchParams(searchParams);
+    next.set('days', String(value));
+    setSearchParams(next, { replace: true });
+  };
+
+  const labels = analytics?.weeks.map((week) => formatWeek(week.weekStart)) ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        <label className="flex items-center gap-2 text-sm text-gray-500 dark:text-slate-400">
+          Period
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="rounded-lg px-3 py-1.5 text-sm bg-white border border-gray-200 text-gray-900 dark:bg-slate-800 dark:border-slate-700 dark:text-slate-100"
+          >
+            {PERIODS.map((period) => (
+              <option key={period} value={period}>Last {period} days</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {isLoading ? (
+        <Loading size="lg" className="py-12" text="Loading analytics..." />
+      ) : error || !analytics ? (
+        <Alert variant="error">Failed to load analytics</Alert>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <SummaryCard title="Builds" value={String(analytics.totalBuilds)} />
+            <SummaryCard
+              title="Success Rate"
+              value={analytics.successRate !== null ? formatPercent(analytics.successRate) : 'N/A'}
+            />
+            <SummaryCard
+              title="Duration p50 / p95"
+              value={formatPair(analytics.durationP50Seconds, analytics.durationP95Seconds)}
+            />
+            <SummaryCard
+              title="Queue Wait p50 / p95"
+              value={formatPair(analytics.queueWaitP50Seconds, analytics.queueWaitP95Seconds)}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <TrendChart
+              title="Build duration"
+              labels={labels}
+              formatValue={formatSeconds}
+              series={[
+                { name: 'p50', type: 'line', colorClassName: 'text-primary-500', values: analytics.weeks.map((w) => w.durationP50Seconds) },
+                { name: 'p95', type: 'line', colorClassName: 'text-warning-500', values: analytics.weeks.map((w) => w.durationP95Seconds) },
+              ]}
+            />
+            <TrendChart
+              title="Success rate per week"
+              labels={labels}
+              formatValue={formatPercent}
+              max={1}
+              series={[
+                { name: 'Success rate', type: 'bar', colorClassName: 'text-success-500', values: analytics.weeks.map((w) => w.successRate) },
+              ]}
+            />
+            <TrendChart
+              title="Queue wait"
+              labels={labels}
+              formatValue={formatSeconds}
+              series={[
+                { name: 'p50', type: 'line', colorClassName: 'text-primary-500', values: analytics.weeks.map((w) => w.queueWaitP50Seconds) },
+                { name: 'p95', type: 'line', colorClassName: 'text-warning-500', values: analytics.weeks.map((w) => w.queueWaitP95Seconds) },
+              ]}
+            />
+            <TrendChart
+              title="Builds per week"
+              labels={labels}
+              formatValue={(value) => String(Math.round(value))}
+              series={[
+                { name: 'Succeeded', type: 'bar', colorClassName: 'text-success-500', values: analytics.weeks.map((w) => w.succeeded) },
+                { name: 'Failed', type: 'bar', colorClassName: 'text-error-500', values: analytics.weeks.map((w) => w.failed) },
+              ]}
+            />
+          </div>
+
+          <StepReliabilityTable steps={steps} sort={stepSort} onSortChange={setStepSort} />
+        </>
+      )}
+    </div>
+  );
+}
+
+function StepReliabilityTable({
+  steps,
+  sort,
+  onSortChange,
+}: {
+  steps: StepReliabilityDto[];
+  sort: StepSort;
+  onSortChange: (sort: StepSort) => void;
+}) {
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl overflow-hidden dark:bg-slate-900 dark:border-slate-800">
+      <div className="px-5 py-4 border-b border-gray-100 dark:border-slate-800 flex justify-between items-center">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-slate-100">Unreliable steps</h3>
+        <div className="flex gap-1 rounded-lg bg-gray-100 p-1 dark:bg-slate-800" role="group" aria-label="Sort steps">
+          {(['failures', 'flips'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              aria-pressed={sort === option}
+              onClick={() => onSortChange(option)}
+              className={`px-2.5 py-0.5 text-xs rounded-md transition-colors ${
+                sort === option
+                  ? 'bg-white text-gray-900 shadow-sm dark:bg-slate-900 dark:text-slate-100'
+                  : 'text-gray-500 hover:text-gray-700 dark:text-slate-400 dark:hover:text-slate-200'
+              }`}
+            >
+              {option === 'failures' ? 'Most failures' : 'Most flaky'}
+            </button>
+          ))}
+        </div>
+      </div>
+      {steps.length === 0 ? (
+        <div className="px-5 py-10 text-center text-gray-400 dark:text-slate-500 text-sm">
+          No step failures in this period.
+        </div>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs font-medium text-gray-400 dark:text-slate-500 uppercase tracking-wider">
+              <th className="px-5 py-2.5">Step</th>
+              <th className="px-5 py-2.5 text-right">Failures</th>
+              <th className="px-5 py-2.5 text-right">Failure rate</th>
+              <th className="px-5 py-2.5 text-right" title="Times the outcome changed from the previous run">Flips</th>
+              <th className="px-5 py-2.5 text-right">Last failed</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-slate-800/50">
+            {steps.map((step) => (
+              <tr key={step.stepName}>
+                <td className="px-5 py-2.5 font-mono text-gray-900 dark:text-slate-100">{step.stepName}</td>
+                <td className="px-5 py-2.5 text-right tabular-nums text-error-600 dark:text-error-400">
+                  {step.failures}
+                  <span className="text-gray-400 dark:text-slate-500"> / {step.runs}</span>
+                </td>
+                <td className="px-5 py-2.5 text-right tabular-nums text-gray-600 dark:text-slate-300">
+                  {formatPercent(step.failureRate)}
+                </td>
+                <td className="px-5 py-2.5 text-right tabular-nums text-gray-600 dark:text-slate-300">{step.flips}</td>
+                <td className="px-5 py-2.5 text-right text-gray-400 dark:text-slate-500">
+                  {step.lastFailedAt ? new Date(step.lastFailedAt).toLocaleDateString() : '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+function SummaryCard({ title, value }: { title: string; value: string }) {
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl px-5 py-5 dark:bg-slate-900 dark:border-slate-800">
+      <dt className="text-xs font-medium text-gray-400 dark:text-slate-500 uppercase tracking-wider">{title}</dt>
+      <dd className="mt-2 text-2xl font-light text-gray-900 dark:text-slate-100">{value}</dd>
+    </div>
+  );
+}
+
+function formatPair(p50: number | null, p95: number | null): string {
+  if (p50 === null || p95 === null) return 'N/A';
+  return `${formatSeconds(p50)} / ${formatSeconds(p95)}`;
+}
+
+function formatWeek(weekStart: string): string {
+  // weekStart is a date-only string; parse as UTC so it doesn't shift a day.
+  return new Date(`${weekStart}T00:00:00Z`).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
@@ -0,0 +1,141 @@
+// =============================================================================
+// components/analytics/TrendChart.tsx
+//
+// Small dependency-free SVG chart for weekly trends. Bars and lines share one
+// y axis that starts at zero; hovering a week shows its exact values.
+// =============================================================================
+
+import { linePath, niceCeiling, slotCenter, valueY } from './chartScale';
+
+export interface ChartSeries {
+  name: string;
+  values: (number | null)[];
+  type: 'line' | 'bar';
+  // Tailwind text colour class; shapes draw with currentColor.
+  colorClassName: string;
+}
+
+interface TrendChartProps {
+  title: string;
+  labels: string[];
+  series: ChartSeries[];
+  formatValue: (value: number) => string;
+  // Fixed axis maximum (e.g. 1 for rates); otherwise derived from the data.
+  max?: number;
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+
+export function TrendChart({ title, labels, series, formatValue, max }: TrendChartProps) {
+  const dataMax = Math.max(0, ...series.flatMap((s) => s.values.filter((v): v is number => v !== null)));
+  const axisMax = max ?? niceCeiling(dataMax);
+  const hasData = series.some((s) => s.values.some((v) => v !== null));
+  const barSeries = series.filter((s) => s.type === 'bar');
+  const slotWidth = WIDTH / Math.max(labels.length, 1);
+  const barWidth = (slotWidth * 0.6) / Math.max(barSeries.length, 1);
+  const formatOptional = (value: number | null) => (value === null ? '—' : formatValue(value));
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl px-5 py-4 dark:bg-slate-900 dark:border-slate-800">
+      <div className="flex justify-between items-baseline mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-slate-100">{title}</h3>
+        <div className="flex gap-3">
+          {series.map((s) => (
+            <span key={s.name} className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-slate-400">
+              <span className={`w-2.5 h-2.5 rounded-sm bg-current ${s.colorClassName}`} />
+              {s.name}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {!hasData ? (
+        <div className="h-40 flex items-center justify-center text-sm text-gray-400 dark:text-slate-500">
+          No data for this period
+        </div>
+      ) : (
+        <div className="flex gap-2">
+          <div className="flex flex-col justify-between h-40 text-[10px] text-right text-gray-400 dark:text-slate-500 tabular-nums">
+            <span>{formatValue(axisMax)}</span>
+            <span>{formatValue(axisMax / 2)}</span>
+            <span>{formatValue(0)}</span>
+          </div>
+          <div className="flex-1 min-w-0">
+            <svg
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              preserveAspectRatio="none"
+              className="w-full h-40 overflow-visible"
+              role="img"
+              aria-label={title}
+            >
+              {[0, 0.5, 1].map((fraction) => (
+                <line
+                  key={fraction}
+                  x1={0}
+                  x2={WIDTH}
+                  y1={HEIGHT * fraction}
+                  y2={HEIGHT * fraction}
+                  className="stroke-gray-100 dark:stroke-slate-800"
+                  vectorEffect="non-scaling-stroke"
+                />
+              ))}
+
+              {barSeries.map((s, seriesIndex) =>
+                s.values.map((value, index) => {
+                  if (value === null) return null;
+                  const x = slotCenter(index, labels.length, WIDTH) - (barWidth * barSeries.length) / 2 + seriesIndex * barWidth;
+                  const y = valueY(value, axisMax, HEIGHT);
+                  return (
+                    <rect
+                      key={`${s.name}-${index}`}
+                      x={x}
+                      y={y}
+                      width={barWidth}
+                      height={HEIGHT - y}
+                      className={`fill-current opacity-80 ${s.colorClassName}`}
+                    />
+                  );
+                })
+              )}
+
+              {series.filter((s) => s.type === 'line').map((s) => (
+                <g key={s.name} className={s.colorClassName}>
+                  <path
+                    d={linePath(s.values, WIDTH, HEIGHT, axisMax)}
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth={2}
+                    strokeLinejoin="round"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                </g>
+              ))}
+
+              {/* Hover targets: one column per week listing every series. */}
+              {labels.map((label, index) => (
+                <rect
+                  key={label}
+                  x={index * slotWidth}
+                  y={0}
+                  width={slotWidth}
+                  height={HEIGHT}
+                  fill="transparent"
+                >
+                  <title>
+                    {[label, ...series.map((s) => `${s.name}: ${formatOptional(s.values[index])}`)].join('\n')}
+                  </title>
+                </rect>
+              ))}
+            </svg>
+            <div className="flex justify-between mt-1.5 text-[10px] text-gray-400 dark:text-slate-500">
+              <span>{labels[0]}</span>
+              {labels.length > 2 && <span>{labels[Math.floor(labels.length / 2)]}</span>}
+              {labels.length > 1 && <span>{labels[labels.length - 1]}</span>}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
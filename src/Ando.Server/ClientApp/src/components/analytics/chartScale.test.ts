@@ -0,0 +1,36 @@
+// =============================================================================
+// components/analytics/chartScale.test.ts
+//
+// Tests for trend chart geometry and value formatting.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { formatSeconds, linePath, niceCeiling } from './chartScale';
+
+describe('niceCeiling', () => {
+  it('rounds up to 1, 2 or 5 times a power of ten', () => {
+    expect(niceCeiling(73)).toBe(100);
+    expect(niceCeiling(140)).toBe(200);
+    expect(niceCeiling(5)).toBe(5);
+    expect(niceCeiling(0.42)).toBeCloseTo(0.5);
+    expect(niceCeiling(0)).toBe(1);
+  });
+});
+
+describe('linePath', () => {
+  it('places points at slot centres and scales to the max', () => {
+    expect(linePath([0, 50, 100], 300, 100, 100)).toBe('M50.00 100.00 L150.00 50.00 L250.00 0.00');
+  });
+
+  it('breaks the line at missing values', () => {
+    expect(linePath([10, null, 10, 10], 400, 100, 10)).toBe('M50.00 0.00 M250.00 0.00 L350.00 0.00');
+  });
+});
+
+describe('formatSeconds', () => {
+  it('uses the largest sensible units', () => {
+    expect(formatSeconds(42.4)).toBe('42s');
+    expect(formatSeconds(125)).toBe('2m 5s');
+    expect(formatSeconds(3720)).toBe('1h 2m');
+  });
+});
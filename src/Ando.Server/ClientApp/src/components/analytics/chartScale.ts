@@ -0,0 +1,52 @@
+// =============================================================================
+// components/analytics/chartScale.ts
+//
+// Geometry for the small SVG trend charts: a "nice" axis maximum and line
+// paths that break at missing values instead of dropping to zero.
+// =============================================================================
+
+// Rounds up to 1, 2 or 5 times a power of ten (e.g. 73 -> 100, 0.42 -> 0.5).
+export function niceCeiling(value: number): number {
+  if (!(value > 0)) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 5, 10].find((factor) => factor * magnitude >= value)!;
+  return step * magnitude;
+}
+
+// X of the centre of slot `index` when `count` slots share `width`.
+export function slotCenter(index: number, count: number, width: number): number {
+  return ((index + 0.5) / count) * width;
+}
+
+export function valueY(value: number, max: number, height: number): number {
+  return height - (Math.min(value, max) / max) * height;
+}
+
+export function linePath(values: (number | null)[], width: number, height: number, max: number): string {
+  const commands: string[] = [];
+  let penDown = false;
+
+  values.forEach((value, index) => {
+    if (value === null) {
+      penDown = false;
+      return;
+    }
+    const x = slotCenter(index, values.length, width).toFixed(2);
+    const y = valueY(value, max, height).toFixed(2);
+    commands.push(`${penDown ? 'L' : 'M'}${x} ${y}`);
+    penDown = true;
+  });
+
+  return commands.join(' ');
+}
+
+export function formatSeconds(seconds: number): string {
+  if (seconds < 60) return `${Math.round(seconds)}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${Math.round(seconds % 60)}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export function formatPercent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
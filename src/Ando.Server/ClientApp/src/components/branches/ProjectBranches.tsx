@@ -0,0 +1,204 @@
+// =============================================================================
+// components/branches/ProjectBranches.tsx
+//
+// Branches tab for ProjectDetails: every branch that has been built with its
+// latest build, version tag, last author and ahead/behind counts, plus a
+// one-click rebuild. Branches without builds for the chosen period are marked
+// abandoned; the period is kept in the URL alongside the active tab.
+// =============================================================================
+
+import { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { getProjectBranches, triggerBuild } from '@/api/projects';
+import { Loading } from '@/components/ui/Loading';
+import { Alert } from '@/components/ui/Alert';
+import { Badge, getBuildStatusVariant } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import type { ProjectBranchDto } from '@/types';
+import { ABANDONED_PERIODS, DEFAULT_ABANDONED_PERIOD, filterBranches, formatAheadBehind } from './branchOverview';
+
+interface ProjectBranchesProps {
+  projectId: number;
+}
+
+export function ProjectBranches({ projectId }: ProjectBranchesProps) {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [search, setSearch] = useState('');
+  const [hideAbandoned, setHideAbandoned] = useState(false);
+  const requestedDays = Number(searchParams.get('abandoned'));
+  const abandonedDays = ABANDONED_PERIODS.includes(requestedDays) ? requestedDays : DEFAULT_ABANDONED_PERIOD;
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['projectBranches', projectId, abandonedDays],
+    queryFn: () => getProjectBranches(projectId, abandonedDays),
+  });
+
+  const rebuildMutation = useMutation({
+    mutationFn: (branch: string) => triggerBuild(projectId, { branch }),
+    onSuccess: (result) => {
+      if (result.success && result.buildId) {
+        queryClient.invalidateQueries({ queryKey: ['project', String(projectId)] });
+        navigate(`/builds/${result.buildId}`);
+      }
+    },
+  });
+
+  const setAbandonedDays = (value: number) => {
+    const next = new URLSearchParams(searchParams);
+    next.set('abandoned', String(value));
+    setSearchParams(next, { replace: true });
+  };
+
+  const branches = filterBranches(data?.branches ?? [], search, !hideAbandoned);
+  const abandonedCount = data?.branches.filter((branch) => branch.isAbandoned).length ?? 0;
+  const rebuildError = rebuildMutation.data && !rebuildMutation.data.success
+    ? rebuildMutation.data.error ?? 'Failed to trigger build'
+    : rebuildMutation.isError ? 'Failed to trigger build' : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <input
+          type="search"
+          aria-label="Filter branches"
+          placeholder="Filter branches..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="w-full sm:w-64 rounded-lg px-3 py-1.5 text-sm bg-white border border-gray-200 text-gray-900 placeholder-gray-400 dark:bg-slate-800 dark:border-slate-700 dark:text-slate-100 dark:placeholder-slate-500"
+        />
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500 dark:text-slate-400">
+          <label className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={hideAbandoned}
+              onChange={(e) => setHideAbandoned(e.target.checked)}
+              className="rounded border-gray-300 text-primary-600 dark:border-slate-600 dark:bg-slate-800"
+            />
+            Hide abandoned{abandonedCount > 0 && ` (${abandonedCount})`}
+          </label>
+          <label className="flex items-center gap-2">
+            Abandoned after
+            <select
+              value={abandonedDays}
+              onChange={(e) => setAbandonedDays(Number(e.target.value))}
+              className="rounded-lg px-3 py-1.5 text-sm bg-white border border-gray-200 text-gray-900 dark:bg-slate-800 dark:border-slate-700 dark:text-slate-100"
+            >
+              {ABANDONED_PERIODS.map((period) => (
+                <option key={period} value={period}>{period} days</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {rebuildError && <Alert variant="error">{rebuildError}</Alert>}
+
+      {isLoading ? (
+        <Loading size="lg" className="py-12" text="Loading branches..." />
+      ) : error || !data ? (
+        <Alert variant="error">Failed to load branches</Alert>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-xl overflow-hidden dark:bg-slate-900 dark:border-slate-800">
+          {branches.length === 0 ? (
+            <div className="px-5 py-10 text-center text-gray-400 dark:text-slate-500 text-sm">
+              {data.branches.length === 0 ? 'No branches have been built yet.' : 'No branches match the filter.'}
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-100 dark:divide-slate-800/50">
+              {branches.map((branch) => (
+                <BranchRow
+                  key={branch.name}
+                  projectId={projectId}
+                  branch={branch}
+                  isRebuilding={rebuildMutation.isPending && rebuildMutation.variables === branch.name}
+                  onRebuild={() => rebuildMutation.mutate(branch.name)}
+                  rebuildDisabled={rebuildMutation.isPending}
+                />
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function BranchRow({
+  projectId,
+  branch,
+  isRebuilding,
+  rebuildDisabled,
+  onRebuild,
+}: {
+  projectId: number;
+  branch: ProjectBranchDto;
+  isRebuilding: boolean;
+  rebuildDisabled: boolean;
+  onRebuild: () => void;
+}) {
+  const build = branch.latestBuild;
+  const aheadBehind = formatAheadBehind(branch);
+
+  return (
+    <li className={`flex flex-wrap items-center gap-4 px-5 py-3.5 ${branch.isAbandoned ? 'opacity-60' : ''}`} data-branch={branch.name}>
+      <div className="flex-1 min-w-[12rem]">
+        <div className="flex items-center gap-2">
+          <Link
+            to={`/projects/${projectId}/builds?branch=${encodeURIComponent(branch.name)}`}
+            className="text-sm font-semibold font-mono text-gray-900 hover:text-primary-600 dark:text-slate-100 dark:hover:text-primary-400 truncate"
+            title="View builds of this branch"
+          >
+            {branch.name}
+          </Link>
+          {branch.isDefault && <Badge variant="primary">default</Badge>}
+          {branch.isAbandoned && <Badge variant="default">abandoned</Badge>}
+        </div>
+        <p className="text-xs text-gray-400 dark:text-slate-500 mt-0.5">
+          {build.commitAuthor ?? 'Unknown author'}
+          {' · '}
+          {formatDate(build.queuedAt)}
+          {' · '}
+          {branch.totalBuilds} {branch.totalBuilds === 1 ? 'build' : 'builds'}
+          {aheadBehind && <span title="Compared with the default branch"> · {aheadBehind}</span>}
+        </p>
+      </div>
+      <span className="text-xs font-mono text-primary-600 dark:text-primary-400 min-w-[5rem]">
+        {branch.latestVersionTag ?? '—'}
+      </span>
+      <Link to={`/builds/${build.id}`} title={`Build #${build.id}`}>
+        <Badge variant={getBuildStatusVariant(build.status)}>{build.status}</Badge>
+      </Link>
+      <Button
+        variant="secondary"
+        size="sm"
+        onClick={onRebuild}
+        isLoading={isRebuilding}
+        disabled={rebuildDisabled}
+        aria-label={`Rebuild ${branch.name}`}
+      >
+        Rebuild
+      </Button>
+    </li>
+  );
+}
+
+function formatDate(dateStr: string): string {
+  const date = new Date(dateStr);
+  const now = new Date();
+  const diffMs = now.getTime() - date.getTime();
+  const diffMins = Math.floor(diffMs / 60000);
+
+  if (diffMins < 1) return 'just now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+
+  const diffHours = Math.floor(diffMins / 60);
+  if (diffHours < 24) return `${diffHours}h ago`;
+
+  const diffDays = Math.floor(diffHours / 24);
+  if (diffDays < 7) return `${diffDays}d ago`;
+
+  return date.toLocaleDateString();
+}
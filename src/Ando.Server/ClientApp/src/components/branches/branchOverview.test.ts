@@ -0,0 +1,66 @@
+// =============================================================================
+// components/branches/branchOverview.test.ts
+//
+// Tests for branch tab display helpers.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { filterBranches, formatAheadBehind } from './branchOverview';
+import type { ProjectBranchDto } from '@/types';
+
+function branch(name: string, isAbandoned = false): ProjectBranchDto {
+  return {
+    name,
+    isDefault: name === 'main',
+    totalBuilds: 1,
+    latestBuild: {
+      id: 1,
+      commitSha: 'abcdef1234567890',
+      shortCommitSha: 'abcdef12',
+      gitVersionTag: null,
+      branch: name,
+      commitMessage: null,
+      commitAuthor: null,
+      status: 'Success',
+      trigger: 'Push',
+      queuedAt: '2026-01-01T12:00:00Z',
+      startedAt: null,
+      finishedAt: null,
+      duration: null,
+      pullRequestNumber: null,
+    },
+    latestVersionTag: null,
+    isAbandoned,
+    aheadBy: null,
+    behindBy: null,
+  };
+}
+
+describe('formatAheadBehind', () => {
+  it('returns null when the comparison is unknown', () => {
+    expect(formatAheadBehind({ aheadBy: null, behindBy: null })).toBeNull();
+  });
+
+  it('reports branches level with the default branch', () => {
+    expect(formatAheadBehind({ aheadBy: 0, behindBy: 0 })).toBe('Up to date');
+  });
+
+  it('lists only the non-zero sides', () => {
+    expect(formatAheadBehind({ aheadBy: 3, behindBy: 0 })).toBe('3 ahead');
+    expect(formatAheadBehind({ aheadBy: 0, behindBy: 2 })).toBe('2 behind');
+    expect(formatAheadBehind({ aheadBy: 3, behindBy: 2 })).toBe('3 ahead · 2 behind');
+  });
+});
+
+describe('filterBranches', () => {
+  const branches = [branch('main'), branch('feature/login'), branch('old-spike', true)];
+
+  it('hides abandoned branches unless asked', () => {
+    expect(filterBranches(branches, '', false).map((b) => b.name)).toEqual(['main', 'feature/login']);
+    expect(filterBranches(branches, '', true)).toHaveLength(3);
+  });
+
+  it('matches names case-insensitively', () => {
+    expect(filterBranches(branches, ' LOGIN ', true).map((b) => b.name)).toEqual(['feature/login']);
+  });
+});
@@ -0,0 +1,27 @@
+// =============================================================================
+// components/branches/branchOverview.ts
+//
+// Display helpers for the project branches tab.
+// =============================================================================
+
+import type { ProjectBranchDto } from '@/types';
+
+export const ABANDONED_PERIODS = [7, 14, 30, 60, 90];
+export const DEFAULT_ABANDONED_PERIOD = 30;
+
+// "3 ahead · 1 behind", "Up to date", or null when GitHub gave no answer.
+export function formatAheadBehind(branch: Pick<ProjectBranchDto, 'aheadBy' | 'behindBy'>): string | null {
+  if (branch.aheadBy === null || branch.behindBy === null) return null;
+  if (branch.aheadBy === 0 && branch.behindBy === 0) return 'Up to date';
+
+  const parts: string[] = [];
+  if (branch.aheadBy > 0) parts.push(`${branch.aheadBy} ahead`);
+  if (branch.behindBy > 0) parts.push(`${branch.behindBy} behind`);
+  return parts.join(' · ');
+}
+
+export function filterBranches(branches: ProjectBranchDto[], search: string, showAbandoned: boolean): ProjectBranchDto[] {
+  const term = search.trim().toLowerCase();
+  return branches.filter((branch) =>
+    (showAbandoned || !branch.isAbandoned) && (!term || branch.name.toLowerCase().includes(term)));
+}
@@ -0,0 +1,294 @@
+// =============================================================================
+// components/builds/ArtifactBrowser.tsx
+//
+// Artifacts card for BuildDetails: each artifact with its size, SHA-256
+// checksum and expiry, a download link, a file list for zip/tar/nupkg archives
+// and inline previews of text, JSON, images and HTML. HTML previews render in
+// a sandboxed iframe.
+// =============================================================================
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getArtifactContents, getArtifactDownloadUrl, getArtifactPreviewText, getArtifactPreviewUrl } from '@/api/builds';
+import { Loading } from '@/components/ui/Loading';
+import { Alert } from '@/components/ui/Alert';
+import { Badge } from '@/components/ui/Badge';
+import type { ArtifactDto } from '@/types';
+import {
+  formatFileSize,
+  formatJsonPreview,
+  getArtifactName,
+  getArtifactSize,
+  getExpiryState,
+  getPreviewKind,
+  type PreviewKind,
+} from './artifactBrowser';
+
+interface ArtifactBrowserProps {
+  buildId: number;
+  artifacts: ArtifactDto[];
+}
+
+interface PreviewTarget {
+  artifactId: number;
+  entry?: string;
+  name: string;
+}
+
+const linkButtonClass =
+  'text-primary-600 hover:text-primary-500 text-sm font-medium dark:text-primary-400 dark:hover:text-primary-300';
+
+export function ArtifactBrowser({ buildId, artifacts }: ArtifactBrowserProps) {
+  const [browsingId, setBrowsingId] = useState<number | null>(null);
+  const [preview, setPreview] = useState<PreviewTarget | null>(null);
+
+  const toggleBrowse = (artifactId: number) => {
+    setBrowsingId((current) => (current === artifactId ? null : artifactId));
+    setPreview(null);
+  };
+
+  const togglePreview = (target: PreviewTarget) => {
+    setPreview((current) =>
+      current?.artifactId === target.artifactId && current.entry === target.entry ? null : target
+    );
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl dark:bg-slate-900 dark:border-slate-800">
+      <div className="px-4 py-5 sm:px-6 border-b border-gray-200 dark:border-slate-800">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-slate-100">Artifacts</h2>
+      </div>
+      <div className="divide-y divide-gray-100 dark:divide-slate-800">
+        {artifacts.map((artifact) => {
+          const name = getArtifactName(artifact);
+          const isPreviewable = artifact.isPreviewable ?? getPreviewKind(name) !== null;
+          const expiry = artifact.expiresAt ? getExpiryState(artifact.expiresAt) : null;
+          const isPreviewOpen = preview?.artifactId === artifact.id && preview.entry === undefined;
+
+          return (
+            <div key={artifact.id} className="px-4 py-3">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-slate-100">{name}</p>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-slate-400">
+                    <span>{formatFileSize(getArtifactSize(artifact))}</span>
+                    {artifact.archiveFormat && <span>· {artifact.archiveFormat}</span>}
+                    {expiry && (
+                      <Badge
+                        size="sm"
+                        variant={expiry.isExpired ? 'error' : expiry.isExpiringSoon ? 'warning' : 'default'}
+                        className="ml-1"
+                      >
+                        <span title={new Date(artifact.expiresAt!).toLocaleString()}>{expiry.label}</span>
+                      </Badge>
+                    )}
+                  </div>
+                  {artifact.sha256 && <Checksum value={artifact.sha256} />}
+                </div>
+                <div className="flex items-center gap-4">
+                  {artifact.archiveFormat && (
+                    <button
+                      type="button"
+                      className={linkButtonClass}
+                      aria-expanded={browsingId === artifact.id}
+                      onClick={() => toggleBrowse(artifact.id)}
+                    >
+                      {browsingId === artifact.id ? 'Hide files' : 'Browse files'}
+                    </button>
+                  )}
+                  {isPreviewable && (
+                    <button
+                      type="button"
+                      className={linkButtonClass}
+                      aria-expanded={isPreviewOpen}
+                      onClick={() => togglePreview({ artifactId: artifact.id, name })}
+                    >
+                      {isPreviewOpen ? 'Close preview' : 'Preview'}
+                    </button>
+                  )}
+                  <a href={getArtifactDownloadUrl(buildId, artifact.id)} className={linkButtonClass} download>
+                    Download
+                  </a>
+                </div>
+              </div>
+
+              {isPreviewOpen && preview && <ArtifactPreviewPanel buildId={buildId} target={preview} />}
+
+              {browsingId === artifact.id && (
+                <ArtifactContents
+                  buildId={buildId}
+                  artifactId={artifact.id}
+                  preview={preview}
+                  onPreview={(entry) => togglePreview({ artifactId: artifact.id, entry, name: entry })}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function Checksum({ value }: { value: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div className="mt-1 flex items-center gap-2 text-xs text-gray-400 dark:text-slate-500">
+      <span>SHA-256</span>
+      <code className="font-mono truncate max-w-[16rem] sm:max-w-none" title={value}>
+        {value}
+      </code>
+      <button
+        type="button"
+        onClick={copy}
+        className="text-gray-500 hover:text-gray-900 dark:text-slate-400 dark:hover:text-slate-100"
+        aria-label="Copy SHA-256 checksum"
+      >
+        {copied ? 'Copied' : 'Copy'}
+      </button>
+    </div>
+  );
+}
+
+function ArtifactContents({
+  buildId,
+  artifactId,
+  preview,
+  onPreview,
+}: {
+  buildId: number;
+  artifactId: number;
+  preview: PreviewTarget | null;
+  onPreview: (entry: string) => void;
+}) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['artifactContents', buildId, artifactId],
+    queryFn: () => getArtifactContents(buildId, artifactId),
+  });
+
+  if (isLoading) {
+    return <Loading size="sm" className="py-4" text="Reading archive..." />;
+  }
+
+  if (error || !data) {
+    return (
+      <div className="mt-3">
+        <Alert variant="error">Failed to read the archive contents</Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 rounded-lg border border-gray-100 dark:border-slate-800">
+      {data.entries.length === 0 ? (
+        <div className="px-3 py-4 text-center text-xs text-gray-400 dark:text-slate-500">The archive is empty.</div>
+      ) : (
+        <ul className="max-h-80 overflow-y-auto divide-y divide-gray-50 dark:divide-slate-800/50" aria-label="Archive files">
+          {data.entries.map((entry) => {
+            const isOpen = preview?.artifactId === artifactId && preview.entry === entry.path;
+
+            return (
+              <li key={entry.path}>
+                <div className="flex items-center gap-3 px-3 py-1.5 text-xs">
+                  <span
+                    className={`flex-1 truncate font-mono ${
+                      entry.isDirectory ? 'text-gray-400 dark:text-slate-500' : 'text-gray-700 dark:text-slate-300'
+                    }`}
+                    title={entry.path}
+                  >
+                    {entry.path}
+                  </span>
+                  {!entry.isDirectory && (
+                    <span className="text-gray-400 dark:text-slate-500 tabular-nums">{formatFileSize(entry.sizeBytes)}</span>
+                  )}
+                  {entry.isPreviewable && (
+                    <button
+                      type="button"
+                      className="font-medium text-primary-600 hover:text-primary-500 dark:text-primary-400 dark:hover:text-primary-300"
+                      aria-expanded={isOpen}
+                      onClick={() => onPreview(entry.path)}
+                    >
+                      {isOpen ? 'Close' : 'Preview'}
+                    </button>
+                  )}
+                </div>
+                {isOpen && preview && (
+                  <div className="px-3 pb-3">
+                    <ArtifactPreviewPanel buildId={buildId} target={preview} />
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {data.isTruncated && (
+        <p className="px-3 py-2 text-xs text-gray-400 dark:text-slate-500 border-t border-gray-100 dark:border-slate-800">
+          Showing the first {data.entries.length} files. Download the artifact to see the rest.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ArtifactPreviewPanel({ buildId, target }: { buildId: number; target: PreviewTarget }) {
+  const kind = getPreviewKind(target.name);
+  const url = getArtifactPreviewUrl(buildId, target.artifactId, target.entry);
+
+  if (kind === 'image') {
+    return (
+      <div className="mt-3 rounded-lg border border-gray-100 bg-gray-50 p-3 text-center dark:border-slate-800 dark:bg-slate-950">
+        <img src={url} alt={target.name} className="mx-auto max-h-[32rem] max-w-full" />
+      </div>
+    );
+  }
+
+  if (kind === 'html') {
+    return (
+      <iframe
+        src={url}
+        title={`Preview of ${target.name}`}
+        sandbox="allow-scripts"
+        className="mt-3 h-[32rem] w-full rounded-lg border border-gray-100 bg-white dark:border-slate-800"
+      />
+    );
+  }
+
+  return <TextPreview buildId={buildId} target={target} kind={kind ?? 'text'} />;
+}
+
+function TextPreview({ buildId, target, kind }: { buildId: number; target: PreviewTarget; kind: PreviewKind }) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['artifactPreview', buildId, target.artifactId, target.entry ?? null],
+    queryFn: () => getArtifactPreviewText(buildId, target.artifactId, target.entry),
+  });
+
+  if (isLoading) {
+    return <Loading size="sm" className="py-4" text="Loading preview..." />;
+  }
+
+  if (error || data === undefined) {
+    return (
+      <div className="mt-3">
+        <Alert variant="error">This file could not be previewed. Download it instead.</Alert>
+      </div>
+    );
+  }
+
+  return (
+    <pre className="mt-3 max-h-[32rem] overflow-auto rounded-lg bg-gray-900 p-3 font-mono text-xs text-gray-100 whitespace-pre">
+      {kind === 'json' ? formatJsonPreview(data) : data}
+    </pre>
+  );
+}
@@ -0,0 +1,114 @@
+// =============================================================================
+// components/builds/BuildFilterBar.tsx
+//
+// Filter form for build history lists. Edits are kept as a draft until the
+// form is applied, so typing in a text field doesn't refetch on every key.
+// =============================================================================
+
+import { useState, type FormEvent } from 'react';
+import type { BuildHistoryFilters, BuildStatus, BuildTrigger } from '@/types';
+import { Input } from '@/components/ui/Input';
+import { Button } from '@/components/ui/Button';
+import { BUILD_STATUSES, BUILD_TRIGGERS, countActiveFilters, formatTriggerLabel } from './buildFilters';
+
+interface BuildFilterBarProps {
+  filters: BuildHistoryFilters;
+  onChange: (filters: BuildHistoryFilters) => void;
+}
+
+const selectClassName = `
+  block w-full rounded-lg px-3 py-2 text-sm
+  bg-white border border-gray-200 text-gray-900
+  focus:border-primary-500 focus:ring-1 focus:ring-primary-500
+  dark:bg-slate-800 dark:border-slate-700 dark:text-slate-100
+  dark:focus:border-primary-400 dark:focus:ring-primary-400
+`;
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1.5';
+
+// Callers should pass key={JSON.stringify(filters)} so the draft resets when
+// the applied filters change from outside (e.g. browser back).
+export function BuildFilterBar({ filters, onChange }: BuildFilterBarProps) {
+  const [draft, setDraft] = useState<BuildHistoryFilters>(filters);
+
+  const update = (changes: BuildHistoryFilters) => setDraft((current) => ({ ...current, ...changes }));
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    onChange(draft);
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      aria-label="Filter builds"
+      className="grid grid-cols-1 gap-3 sm:grid-cols-3 lg:grid-cols-7 items-end"
+    >
+      <Input
+        id="filter-branch"
+        label="Branch"
+        placeholder="main"
+        value={draft.branch ?? ''}
+        onChange={(e) => update({ branch: e.target.value })}
+      />
+      <div>
+        <label htmlFor="filter-status" className={labelClassName}>Status</label>
+        <select
+          id="filter-status"
+          className={selectClassName}
+          value={draft.status ?? ''}
+          onChange={(e) => update({ status: (e.target.value || undefined) as BuildStatus | undefined })}
+        >
+          <option value="">Any</option>
+          {BUILD_STATUSES.map((status) => (
+            <option key={status} value={status}>{status}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label htmlFor="filter-trigger" className={labelClassName}>Trigger</label>
+        <select
+          id="filter-trigger"
+          className={selectClassName}
+          value={draft.trigger ?? ''}
+          onChange={(e) => update({ trigger: (e.target.value || undefined) as BuildTrigger | undefined })}
+        >
+          <option value="">Any</option>
+          {BUILD_TRIGGERS.map((trigger) => (
+            <option key={trigger} value={trigger}>{formatTriggerLabel(trigger)}</option>
+          ))}
+        </select>
+      </div>
+      <Input
+        id="filter-author"
+        label="Author"
+        value={draft.author ?? ''}
+        onChange={(e) => update({ author: e.target.value })}
+      />
+      <Input
+        id="filter-from"
+        label="From"
+        type="date"
+        value={draft.from ?? ''}
+        max={draft.to}
+        onChange={(e) => update({ from: e.target.value })}
+      />
+      <Input
+        id="filter-to"
+        label="To"
+        type="date"
+        value={draft.to ?? ''}
+        min={draft.from}
+        onChange={(e) => update({ to: e.target.value })}
+      />
+      <div className="flex gap-2">
+        <Button type="submit" size="sm">Apply</Button>
+        {countActiveFilters(filters) > 0 && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange({})}>
+            Clear
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,249 @@
+// =============================================================================
+// components/builds/BuildTestResults.tsx
+//
+// Tests tab for BuildDetails: pass/fail/skip counts parsed from the build's
+// TRX and JUnit report artifacts, failing tests with message and stack trace,
+// per-test durations, and new failures / fixed tests compared with the
+// previous build on the branch.
+// =============================================================================
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { getBuildTestResults } from '@/api/builds';
+import { Loading } from '@/components/ui/Loading';
+import { Alert } from '@/components/ui/Alert';
+import { Badge } from '@/components/ui/Badge';
+import type { TestCaseDto } from '@/types';
+import {
+  filterTests,
+  formatTestDuration,
+  getTestKey,
+  sortTests,
+  type TestFilter,
+  type TestSort,
+} from './testResults';
+
+interface BuildTestResultsProps {
+  buildId: number;
+  isInProgress: boolean;
+}
+
+// Rendering thousands of rows at once makes the tab sluggish.
+const MAX_VISIBLE_TESTS = 500;
+
+const FILTERS: { id: TestFilter; label: string }[] = [
+  { id: 'all', label: 'All' },
+  { id: 'failed', label: 'Failed' },
+  { id: 'changed', label: 'Changed' },
+  { id: 'passed', label: 'Passed' },
+  { id: 'skipped', label: 'Skipped' },
+];
+
+export function BuildTestResults({ buildId, isInProgress }: BuildTestResultsProps) {
+  const [filter, setFilter] = useState<TestFilter | null>(null);
+  const [sort, setSort] = useState<TestSort>('default');
+  const [query, setQuery] = useState('');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['buildTests', buildId],
+    queryFn: () => getBuildTestResults(buildId),
+  });
+
+  if (isLoading) {
+    return <Loading size="lg" className="py-12" text="Reading test reports..." />;
+  }
+
+  if (error || !data) {
+    return <Alert variant="error">Failed to load test results</Alert>;
+  }
+
+  if (data.reports.length === 0) {
+    return (
+      <div className="bg-white border border-gray-200 rounded-xl px-5 py-10 text-center dark:bg-slate-900 dark:border-slate-800">
+        <p className="text-sm text-gray-500 dark:text-slate-400">
+          {isInProgress ? 'Test results appear once the build has uploaded its artifacts.' : 'No test reports found.'}
+        </p>
+        <p className="mt-1 text-xs text-gray-400 dark:text-slate-500">
+          Upload TRX (<code>dotnet test --logger trx</code>) or JUnit XML reports as build artifacts to see them here.
+        </p>
+      </div>
+    );
+  }
+
+  const { summary } = data;
+  // Start on failures when there are any.
+  const activeFilter = filter ?? (summary.failed > 0 ? 'failed' : 'all');
+  const visible = sortTests(filterTests(data.tests, activeFilter, query), sort);
+
+  const toggle = (key: string) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        <SummaryCard title="Total" value={summary.total} />
+        <SummaryCard title="Passed" value={summary.passed} className="text-success-600 dark:text-success-400" />
+        <SummaryCard title="Failed" value={summary.failed} className={summary.failed > 0 ? 'text-error-600 dark:text-error-400' : undefined} />
+        <SummaryCard title="Skipped" value={summary.skipped} />
+        <SummaryCard title="Duration" value={formatTestDuration(summary.durationMs) || '—'} />
+      </div>
+
+      {data.previousBuildId ? (
+        <p className="text-sm text-gray-500 dark:text-slate-400">
+          Compared with{' '}
+          <Link to={`/builds/${data.previousBuildId}`} className="text-primary-600 hover:underline dark:text-primary-400">
+            build #{data.previousBuildId}
+          </Link>
+          {': '}
+          <span className={summary.newFailures > 0 ? 'font-medium text-error-600 dark:text-error-400' : undefined}>
+            {summary.newFailures} new {summary.newFailures === 1 ? 'failure' : 'failures'}
+          </span>
+          {', '}
+          <span className={summary.fixed > 0 ? 'font-medium text-success-600 dark:text-success-400' : undefined}>
+            {summary.fixed} fixed
+          </span>
+        </p>
+      ) : (
+        <p className="text-sm text-gray-400 dark:text-slate-500">No earlier build on this branch has test reports to compare with.</p>
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-xl dark:bg-slate-900 dark:border-slate-800">
+        <div className="flex flex-wrap items-center gap-3 px-5 py-3 border-b border-gray-100 dark:border-slate-800">
+          <div className="flex gap-1" role="group" aria-label="Filter tests">
+            {FILTERS.map((item) => (
+              <button
+                key={item.id}
+                type="button"
+                aria-pressed={activeFilter === item.id}
+                onClick={() => setFilter(item.id)}
+                className={`rounded-md px-2.5 py-1 text-xs font-medium ${
+                  activeFilter === item.id
+                    ? 'bg-gray-100 text-gray-900 dark:bg-slate-800 dark:text-slate-100'
+                    : 'text-gray-500 hover:text-gray-900 dark:text-slate-400 dark:hover:text-slate-100'
+                }`}
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search tests"
+            aria-label="Search tests"
+            className="flex-1 min-w-[10rem] rounded-md border border-gray-200 bg-white px-2.5 py-1 text-sm dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+          />
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as TestSort)}
+            aria-label="Sort tests"
+            className="rounded-md border border-gray-200 bg-white px-2 py-1 text-sm dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+          >
+            <option value="default">Failures first</option>
+            <option value="slowest">Slowest first</option>
+          </select>
+        </div>
+
+        {visible.length === 0 ? (
+          <div className="px-5 py-8 text-center text-sm text-gray-400 dark:text-slate-500">No tests match.</div>
+        ) : (
+          <ul className="divide-y divide-gray-100 dark:divide-slate-800/50" aria-label="Tests">
+            {visible.slice(0, MAX_VISIBLE_TESTS).map((test, index) => {
+              // Tests can repeat across reports (e.g. one per target framework).
+              const rowKey = `${getTestKey(test)}#${index}`;
+              return (
+                <TestRow
+                  key={rowKey}
+                  test={test}
+                  isExpanded={expanded.has(rowKey)}
+                  onToggle={() => toggle(rowKey)}
+                />
+              );
+            })}
+          </ul>
+        )}
+        {visible.length > MAX_VISIBLE_TESTS && (
+          <p className="px-5 py-2 text-xs text-gray-400 dark:text-slate-500 border-t border-gray-100 dark:border-slate-800">
+            Showing {MAX_VISIBLE_TESTS} of {visible.length} tests. Narrow the list with a filter or search.
+          </p>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-400 dark:text-slate-500">From {data.reports.join(', ')}</p>
+    </div>
+  );
+}
+
+function TestRow({ test, isExpanded, onToggle }: { test: TestCaseDto; isExpanded: boolean; onToggle: () => void }) {
+  const hasDetails = !!(test.message || test.stackTrace);
+
+  return (
+    <li>
+      <div className="flex items-center gap-3 px-5 py-2.5">
+        <OutcomeDot outcome={test.outcome} />
+        <div className="flex-1 min-w-0">
+          {hasDetails ? (
+            <button
+              type="button"
+              onClick={onToggle}
+              aria-expanded={isExpanded}
+              className="text-left text-sm text-gray-900 hover:text-primary-600 dark:text-slate-100 dark:hover:text-primary-400 break-all"
+            >
+              {test.name}
+            </button>
+          ) : (
+            <span className="text-sm text-gray-900 dark:text-slate-100 break-all">{test.name}</span>
+          )}
+          {test.className && (
+            <p className="text-xs font-mono text-gray-400 dark:text-slate-500 truncate" title={test.className}>
+              {test.className}
+            </p>
+          )}
+        </div>
+        {test.isNewFailure && <Badge variant="error" size="sm">new failure</Badge>}
+        {test.isFixed && <Badge variant="success" size="sm">fixed</Badge>}
+        <span className="text-xs text-gray-400 dark:text-slate-500 min-w-[4.5rem] text-right tabular-nums">
+          {formatTestDuration(test.durationMs)}
+        </span>
+      </div>
+      {isExpanded && hasDetails && (
+        <div className="px-5 pb-3 pl-10 space-y-2">
+          {test.message && (
+            <p className="text-sm text-error-700 whitespace-pre-wrap break-words dark:text-error-400">{test.message}</p>
+          )}
+          {test.stackTrace && (
+            <pre className="max-h-80 overflow-auto rounded-lg bg-gray-900 p-3 font-mono text-xs text-gray-100 whitespace-pre">
+              {test.stackTrace}
+            </pre>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+function OutcomeDot({ outcome }: { outcome: TestCaseDto['outcome'] }) {
+  const color = outcome === 'Passed'
+    ? 'bg-success-500'
+    : outcome === 'Failed' ? 'bg-error-500' : 'bg-gray-300 dark:bg-slate-600';
+
+  return <span className={`w-2 h-2 shrink-0 rounded-full ${color}`} title={outcome} aria-label={outcome} role="img" />;
+}
+
+function SummaryCard({ title, value, className }: { title: string; value: number | string; className?: string }) {
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-4 dark:bg-slate-900 dark:border-slate-800">
+      <p className="text-sm text-gray-500 dark:text-slate-400">{title}</p>
+      <p className={`text-lg font-semibold ${className ?? 'text-gray-900 dark:text-slate-100'}`}>{value}</p>
+    </div>
+  );
+}
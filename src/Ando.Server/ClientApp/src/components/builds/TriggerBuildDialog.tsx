@@ -0,0 +1,243 @@
+// =============================================================================
+// components/builds/TriggerBuildDialog.tsx
+//
+// Modal for starting a manual build. Lets the user pick a branch from the
+// repository, pin a commit, choose a build profile and add one-off
+// environment overrides for this build only.
+// =============================================================================
+
+import { useEffect, useRef, useState, type FormEvent } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { getProjectSettings, getRepositoryBranches, triggerBuild } from '@/api/projects';
+import { Alert } from '@/components/ui/Alert';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import {
+  MAX_ENVIRONMENT_OVERRIDES,
+  createTriggerBuildForm,
+  toTriggerBuildRequest,
+  validateTriggerBuildForm,
+  type EnvironmentOverrideRow,
+  type TriggerBuildForm,
+} from './triggerBuildForm';
+
+interface TriggerBuildDialogProps {
+  projectId: number;
+  defaultBranch: string;
+  onClose: () => void;
+  onTriggered: (buildId: number) => void;
+}
+
+const selectClassName = `
+  block w-full rounded-lg px-3 py-2 text-sm
+  bg-white border border-gray-200 text-gray-900
+  focus:border-primary-500 focus:ring-1 focus:ring-primary-500
+  dark:bg-slate-800 dark:border-slate-700 dark:text-slate-100
+  dark:focus:border-primary-400 dark:focus:ring-primary-400
+`;
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1.5';
+
+export function TriggerBuildDialog({ projectId, defaultBranch, onClose, onTriggered }: TriggerBuildDialogProps) {
+  const [form, setForm] = useState<TriggerBuildForm>(() => createTriggerBuildForm(defaultBranch));
+  const [showErrors, setShowErrors] = useState(false);
+  const nextRowId = useRef(1);
+
+  const { data: branchData, isLoading: branchesLoading } = useQuery({
+    queryKey: ['repositoryBranches', projectId],
+    queryFn: () => getRepositoryBranches(projectId),
+  });
+
+  const { data: settingsData } = useQuery({
+    queryKey: ['project-settings', String(projectId)],
+    queryFn: () => getProjectSettings(projectId),
+  });
+
+  const triggerMutation = useMutation({
+    mutationFn: () => triggerBuild(projectId, toTriggerBuildRequest(form)),
+    onSuccess: (result) => {
+      if (result.success && result.buildId) {
+        onTriggered(result.buildId);
+      }
+    },
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const errors = validateTriggerBuildForm(form);
+  const visibleErrors = showErrors ? errors : {};
+  const branches = branchData?.branches ?? [];
+  const selectedBranch = branches.find((branch) => branch.name === form.branch.trim());
+  const settings = settingsData?.settings;
+
+  const update = (changes: Partial<TriggerBuildForm>) => setForm((current) => ({ ...current, ...changes }));
+
+  const updateRow = (id: number, changes: Partial<EnvironmentOverrideRow>) =>
+    update({ overrides: form.overrides.map((row) => (row.id === id ? { ...row, ...changes } : row)) });
+
+  const addRow = () => update({ overrides: [...form.overrides, { id: nextRowId.current++, name: '', value: '' }] });
+
+  const removeRow = (id: number) => update({ overrides: form.overrides.filter((row) => row.id !== id) });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    setShowErrors(true);
+    if (Object.keys(errors).length === 0) {
+      triggerMutation.mutate();
+    }
+  };
+
+  const serverError = triggerMutation.data && !triggerMutation.data.success
+    ? triggerMutation.data.error ?? 'Failed to trigger build'
+    : triggerMutation.isError ? 'Failed to trigger build' : null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center overflow-y-auto bg-slate-950/60 backdrop-blur-sm px-4 py-12"
+      onMouseDown={(event) => {
+        if (event.target === event.currentTarget) onClose();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="trigger-build-title"
+        className="w-full max-w-xl rounded-xl border border-gray-200 bg-white shadow-xl dark:bg-slate-900 dark:border-slate-800"
+      >
+        <form onSubmit={handleSubmit} noValidate>
+          <div className="px-6 py-4 border-b border-gray-100 dark:border-slate-800">
+            <h2 id="trigger-build-title" className="text-lg font-semibold text-gray-900 dark:text-slate-100">
+              Trigger build
+            </h2>
+          </div>
+
+          <div className="px-6 py-5 space-y-4">
+            {serverError && <Alert variant="error">{serverError}</Alert>}
+
+            <Input
+              id="trigger-branch"
+              label="Branch"
+              list="trigger-branch-options"
+              autoComplete="off"
+              value={form.branch}
+              onChange={(e) => update({ branch: e.target.value })}
+              error={visibleErrors.branch}
+              helperText={branchesLoading
+                ? 'Loading branches...'
+                : selectedBranch ? `Head ${selectedBranch.headSha.slice(0, 8)}` : undefined}
+            />
+            <datalist id="trigger-branch-options">
+              {branches.map((branch) => (
+                <option key={branch.name} value={branch.name}>
+                  {branch.isProtected ? 'protected' : undefined}
+                </option>
+              ))}
+            </datalist>
+
+            <Input
+              id="trigger-commit"
+              label="Commit SHA"
+              placeholder="Latest commit on the branch"
+              className="font-mono"
+              autoComplete="off"
+              value={form.commitSha}
+              onChange={(e) => update({ commitSha: e.target.value })}
+              error={visibleErrors.commitSha}
+              helperText="Optional. The full SHA of a commit on the selected branch."
+            />
+
+            <div>
+              <label htmlFor="trigger-profile" className={labelClassName}>Profile</label>
+              <select
+                id="trigger-profile"
+                className={selectClassName}
+                value={form.profile}
+                onChange={(e) => update({ profile: e.target.value })}
+              >
+                <option value="">
+                  {settings?.profile ? `Project default (${settings.profile})` : 'Project default'}
+                </option>
+                {settings?.availableProfiles.map((profile) => (
+                  <option key={profile} value={profile}>{profile}</option>
+                ))}
+              </select>
+            </div>
+
+            <fieldset>
+              <legend className={labelClassName}>Environment overrides</legend>
+              <p className="text-xs text-gray-400 dark:text-slate-500 mb-2">
+                Applied to this build only. Overrides replace project secrets with the same name.
+              </p>
+              <div className="space-y-2">
+                {form.overrides.map((row, index) => (
+                  <div key={row.id} data-override-row>
+                    <div className="flex gap-2 items-start">
+                      <input
+                        aria-label={`Override ${index + 1} name`}
+                        placeholder="NAME"
+                        autoComplete="off"
+                        className={`${selectClassName} font-mono`}
+                        value={row.name}
+                        onChange={(e) => updateRow(row.id, { name: e.target.value })}
+                      />
+                      <input
+                        aria-label={`Override ${index + 1} value`}
+                        placeholder="value"
+                        autoComplete="off"
+                        className={`${selectClassName} font-mono`}
+                        value={row.value}
+                        onChange={(e) => updateRow(row.id, { value: e.target.value })}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        aria-label={`Remove override ${index + 1}`}
+                        onClick={() => removeRow(row.id)}
+                      >
+                        ✕
+                      </Button>
+                    </div>
+                    {visibleErrors[`override-${row.id}`] && (
+                      <p className="mt-1 text-xs text-error-600 dark:text-error-400">
+                        {visibleErrors[`override-${row.id}`]}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {visibleErrors.overrides && (
+                <p className="mt-1 text-xs text-error-600 dark:text-error-400">{visibleErrors.overrides}</p>
+              )}
+              <Button
+                type="button"
+                variant="secondary"
+                size="sm"
+                className="mt-2"
+                onClick={addRow}
+                disabled={form.overrides.length >= MAX_ENVIRONMENT_OVERRIDES}
+              >
+                Add variable
+              </Button>
+            </fieldset>
+          </div>
+
+          <div className="px-6 py-4 border-t border-gray-100 dark:border-slate-800 flex justify-end gap-2">
+            <Button type="button" variant="secondary" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" isLoading={triggerMutation.isPending}>
+              Start build
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
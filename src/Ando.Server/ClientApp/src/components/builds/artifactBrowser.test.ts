@@ -0,0 +1,84 @@
+// =============================================================================
+// components/builds/artifactBrowser.test.ts
+//
+// Tests for artifact browser helpers.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatFileSize,
+  formatJsonPreview,
+  getArtifactName,
+  getArtifactSize,
+  getExpiryState,
+  getPreviewKind,
+} from './artifactBrowser';
+import type { ArtifactDto } from '@/types';
+
+const NOW = Date.parse('2026-01-10T12:00:00Z');
+
+describe('getArtifactName / getArtifactSize', () => {
+  it('reads the client field names', () => {
+    const artifact = { id: 1, fileName: 'app.zip', fileSize: 2048 } as ArtifactDto;
+    expect(getArtifactName(artifact)).toBe('app.zip');
+    expect(getArtifactSize(artifact)).toBe(2048);
+  });
+
+  it('falls back to the server field names', () => {
+    const artifact = { id: 2, name: 'site.tar.gz', sizeBytes: 512 } as unknown as ArtifactDto;
+    expect(getArtifactName(artifact)).toBe('site.tar.gz');
+    expect(getArtifactSize(artifact)).toBe(512);
+  });
+
+  it('never returns a blank name or NaN size', () => {
+    const artifact = { id: 3 } as ArtifactDto;
+    expect(getArtifactName(artifact)).toBe('Artifact 3');
+    expect(getArtifactSize(artifact)).toBe(0);
+  });
+});
+
+describe('formatFileSize', () => {
+  it('uses the largest fitting unit', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(1536)).toBe('1.5 KB');
+    expect(formatFileSize(5 * 1024 * 1024)).toBe('5.0 MB');
+  });
+});
+
+describe('getPreviewKind', () => {
+  it('detects previewable files by extension', () => {
+    expect(getPreviewKind('screenshots/home.PNG')).toBe('image');
+    expect(getPreviewKind('coverage/index.html')).toBe('html');
+    expect(getPreviewKind('summary.json')).toBe('json');
+    expect(getPreviewKind('build.log')).toBe('text');
+  });
+
+  it('returns null for download-only files', () => {
+    expect(getPreviewKind('app.zip')).toBeNull();
+    expect(getPreviewKind('Makefile')).toBeNull();
+    expect(getPreviewKind('dir.json/README')).toBeNull();
+  });
+});
+
+describe('formatJsonPreview', () => {
+  it('pretty-prints valid JSON and leaves other text alone', () => {
+    expect(formatJsonPreview('{"a":1}')).toBe('{\n  "a": 1\n}');
+    expect(formatJsonPreview('{not json')).toBe('{not json');
+  });
+});
+
+describe('getExpiryState', () => {
+  it('reports expired artifacts', () => {
+    expect(getExpiryState('2026-01-10T11:00:00Z', NOW)).toEqual({
+      label: 'Expired',
+      isExpired: true,
+      isExpiringSoon: false,
+    });
+  });
+
+  it('flags artifacts expiring within the warning window', () => {
+    expect(getExpiryState('2026-01-10T17:00:00Z', NOW)).toMatchObject({ label: 'Expires in 5h', isExpiringSoon: true });
+    expect(getExpiryState('2026-01-11T13:00:00Z', NOW)).toMatchObject({ label: 'Expires in 1 day', isExpiringSoon: true });
+    expect(getExpiryState('2026-01-30T12:00:00Z', NOW)).toMatchObject({ label: 'Expires in 20 days', isExpiringSoon: false });
+  });
+});
@@ -0,0 +1,103 @@
+// =============================================================================
+// components/builds/artifactBrowser.ts
+//
+// Helpers for the artifact browser: artifact name and size normalization,
+// preview kinds by file extension and expiry labels.
+// =============================================================================
+
+import type { ArtifactDto } from '@/types';
+
+export type PreviewKind = 'image' | 'html' | 'json' | 'text';
+
+// The server sends name/sizeBytes; older clients and fixtures use fileName/fileSize.
+type ArtifactLike = ArtifactDto & { name?: string; sizeBytes?: number };
+
+// Artifacts expiring within this many days are flagged in the list.
+export const EXPIRY_WARNING_DAYS = 3;
+
+const PREVIEW_KINDS: Record<string, PreviewKind> = {
+  png: 'image',
+  jpg: 'image',
+  jpeg: 'image',
+  gif: 'image',
+  webp: 'image',
+  ico: 'image',
+  svg: 'image',
+  html: 'html',
+  htm: 'html',
+  json: 'json',
+  txt: 'text',
+  log: 'text',
+  md: 'text',
+  csv: 'text',
+  yml: 'text',
+  yaml: 'text',
+  xml: 'text',
+  trx: 'text',
+  nuspec: 'text',
+  props: 'text',
+  targets: 'text',
+  csproj: 'text',
+  cs: 'text',
+  ts: 'text',
+  js: 'text',
+  css: 'text',
+  sh: 'text',
+  ps1: 'text',
+  ini: 'text',
+};
+
+export function getArtifactName(artifact: ArtifactDto): string {
+  const artifactLike = artifact as ArtifactLike;
+  return artifact.fileName || artifactLike.name || `Artifact ${artifact.id}`;
+}
+
+export function getArtifactSize(artifact: ArtifactDto): number {
+  const artifactLike = artifact as ArtifactLike;
+  if (typeof artifact.fileSize === 'number') return artifact.fileSize;
+  return typeof artifactLike.sizeBytes === 'number' ? artifactLike.sizeBytes : 0;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+// Mirrors the server's ArtifactPreview list; null means download-only.
+export function getPreviewKind(fileName: string): PreviewKind | null {
+  const baseName = fileName.split('/').pop() ?? '';
+  const dot = baseName.lastIndexOf('.');
+  if (dot < 0) return null;
+  return PREVIEW_KINDS[baseName.slice(dot + 1).toLowerCase()] ?? null;
+}
+
+export function formatJsonPreview(text: string): string {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+}
+
+export interface ExpiryState {
+  label: string;
+  isExpired: boolean;
+  isExpiringSoon: boolean;
+}
+
+export function getExpiryState(expiresAt: string, now: number = Date.now()): ExpiryState {
+  const remainingMs = new Date(expiresAt).getTime() - now;
+  if (remainingMs <= 0) {
+    return { label: 'Expired', isExpired: true, isExpiringSoon: false };
+  }
+
+  const hours = Math.floor(remainingMs / 3_600_000);
+  const days = Math.floor(hours / 24);
+  const label = days >= 1
+    ? `Expires in ${days} ${days === 1 ? 'day' : 'days'}`
+    : `Expires in ${Math.max(hours, 1)}h`;
+
+  return { label, isExpired: false, isExpiringSoon: days < EXPIRY_WARNING_DAYS };
+}
@@ -0,0 +1,75 @@
+// =============================================================================
+// components/builds/buildFeed.test.ts
+//
+// Tests for applying live build status events to cached build pages.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { applyBuildStatusChange, formatTimeSpan } from './buildFeed';
+import type { BuildListItemDto, BuildStatusChangedEvent } from '@/types';
+
+function build(id: number): BuildListItemDto {
+  return {
+    id,
+    commitSha: 'abcdef1234567890',
+    shortCommitSha: 'abcdef12',
+    gitVersionTag: null,
+    branch: 'main',
+    commitMessage: null,
+    commitAuthor: null,
+    status: 'Running',
+    trigger: 'Push',
+    queuedAt: '2026-01-01T12:00:00Z',
+    startedAt: '2026-01-01T12:00:05Z',
+    finishedAt: null,
+    duration: null,
+    pullRequestNumber: null,
+  };
+}
+
+const event: BuildStatusChangedEvent = {
+  buildId: 3,
+  projectId: 1,
+  status: 'Success',
+  queuedAt: '2026-01-01T12:00:00Z',
+  startedAt: '2026-01-01T12:00:05Z',
+  finishedAt: '2026-01-01T12:01:10Z',
+  durationSeconds: 65,
+  gitVersionTag: 'v1.2.0',
+  errorMessage: null,
+};
+
+describe('applyBuildStatusChange', () => {
+  it('updates the matching build on any loaded page', () => {
+    const data = {
+      pages: [
+        { builds: [build(5), build(4)], nextCursor: 'a' },
+        { builds: [build(3)], nextCursor: null },
+      ],
+      pageParams: [null, 'a'],
+    };
+
+    const next = applyBuildStatusChange(data, event);
+
+    expect(next!.pages[1].builds[0]).toMatchObject({
+      status: 'Success',
+      finishedAt: '2026-01-01T12:01:10Z',
+      duration: '00:01:05',
+      gitVersionTag: 'v1.2.0',
+    });
+    expect(next!.pages[0].builds[0]).toBe(data.pages[0].builds[0]);
+  });
+
+  it('returns the same data when the build is not loaded', () => {
+    const data = { pages: [{ builds: [build(9)], nextCursor: null }], pageParams: [null] };
+
+    expect(applyBuildStatusChange(data, event)).toBe(data);
+  });
+});
+
+describe('formatTimeSpan', () => {
+  it('matches the .NET TimeSpan format', () => {
+    expect(formatTimeSpan(3725.25)).toBe('01:02:05.250');
+    expect(formatTimeSpan(7)).toBe('00:00:07');
+  });
+});
@@ -0,0 +1,56 @@
+// =============================================================================
+// components/builds/buildFeed.ts
+//
+// Applies BuildStatusChanged hub events to cached build list pages, so rows
+// update in place without refetching every loaded page.
+// =============================================================================
+
+import type { InfiniteData } from '@tanstack/react-query';
+import type { BuildHistoryPage, BuildListItemDto, BuildStatusChangedEvent } from '@/types';
+
+type BuildPages<T> = InfiniteData<BuildHistoryPage<T>, string | null>;
+
+// Formats seconds like a serialized .NET TimeSpan ("hh:mm:ss.fff").
+export function formatTimeSpan(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(Math.floor(value)).padStart(2, '0');
+  const fraction = Math.round((seconds % 1) * 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${fraction > 0 ? `.${String(fraction).padStart(3, '0')}` : ''}`;
+}
+
+export function findBuild<T extends BuildListItemDto>(data: BuildPages<T> | undefined, buildId: number): T | undefined {
+  for (const page of data?.pages ?? []) {
+    const build = page.builds.find((item) => item.id === buildId);
+    if (build) return build;
+  }
+  return undefined;
+}
+
+// Returns updated pages, or the same object when the build isn't loaded.
+export function applyBuildStatusChange<T extends BuildListItemDto>(
+  data: BuildPages<T> | undefined,
+  event: BuildStatusChangedEvent,
+): BuildPages<T> | undefined {
+  if (!data || !findBuild(data, event.buildId)) return data;
+
+  return {
+    ...data,
+    pages: data.pages.map((page) => ({
+      ...page,
+      builds: page.builds.map((build) =>
+        build.id === event.buildId
+          ? {
+              ...build,
+              status: event.status,
+              startedAt: event.startedAt,
+              finishedAt: event.finishedAt,
+              duration: event.durationSeconds !== null ? formatTimeSpan(event.durationSeconds) : build.duration,
+              gitVersionTag: event.gitVersionTag ?? build.gitVersionTag,
+            }
+          : build
+      ),
+    })),
+  };
+}
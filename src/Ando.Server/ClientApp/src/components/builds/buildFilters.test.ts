@@ -0,0 +1,49 @@
+// =============================================================================
+// components/builds/buildFilters.test.ts
+//
+// Tests for build history filter URL state.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { countActiveFilters, parseBuildFilters, writeBuildFilters } from './buildFilters';
+
+describe('parseBuildFilters', () => {
+  it('reads known filters from the URL', () => {
+    const params = new URLSearchParams(
+      'branch=main&status=Failed&trigger=PullRequest&author=jane&from=2026-01-01&to=2026-01-31'
+    );
+
+    expect(parseBuildFilters(params)).toEqual({
+      branch: 'main',
+      status: 'Failed',
+      trigger: 'PullRequest',
+      author: 'jane',
+      from: '2026-01-01',
+      to: '2026-01-31',
+    });
+  });
+
+  it('drops unknown values and blank text', () => {
+    const params = new URLSearchParams('branch=%20%20&status=Exploded&trigger=push&from=01/02/2026&to=2026-02-01');
+
+    expect(parseBuildFilters(params)).toEqual({ to: '2026-02-01' });
+  });
+});
+
+describe('writeBuildFilters', () => {
+  it('replaces filter params and keeps unrelated ones', () => {
+    const params = new URLSearchParams('tab=history&branch=old&status=Failed');
+
+    const next = writeBuildFilters(params, { branch: ' feature/x ', author: 'sam' });
+
+    expect(next.toString()).toBe('tab=history&branch=feature%2Fx&author=sam');
+    expect(params.get('branch')).toBe('old');
+  });
+
+  it('round-trips through parse', () => {
+    const filters = { status: 'Success' as const, from: '2026-03-01' };
+
+    expect(parseBuildFilters(writeBuildFilters(new URLSearchParams(), filters))).toEqual(filters);
+    expect(countActiveFilters(filters)).toBe(2);
+  });
+});
@@ -0,0 +1,68 @@
+// =============================================================================
+// components/builds/buildFilters.ts
+//
+// Reads and writes build history filters as URL search params, so filtered
+// views can be bookmarked and shared. Unknown or malformed values are dropped
+// rather than sent to the server.
+// =============================================================================
+
+import type { BuildHistoryFilters, BuildStatus, BuildTrigger } from '@/types';
+
+export const BUILD_STATUSES: BuildStatus[] = ['Queued', 'Running', 'Success', 'Failed', 'Cancelled', 'TimedOut'];
+export const BUILD_TRIGGERS: BuildTrigger[] = ['Push', 'PullRequest', 'Manual'];
+
+export const BUILD_FILTER_KEYS = ['branch', 'status', 'trigger', 'author', 'from', 'to'] as const;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function pick<T extends string>(value: string | null, allowed: readonly T[]): T | undefined {
+  return allowed.find((option) => option === value);
+}
+
+function text(value: string | null): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function date(value: string | null): string | undefined {
+  return value && DATE_PATTERN.test(value) ? value : undefined;
+}
+
+export function parseBuildFilters(params: URLSearchParams): BuildHistoryFilters {
+  const filters: BuildHistoryFilters = {
+    branch: text(params.get('branch')),
+    status: pick(params.get('status'), BUILD_STATUSES),
+    trigger: pick(params.get('trigger'), BUILD_TRIGGERS),
+    author: text(params.get('author')),
+    from: date(params.get('from')),
+    to: date(params.get('to')),
+  };
+
+  // Drop unset keys so the object is stable for query keys and comparisons.
+  for (const key of BUILD_FILTER_KEYS) {
+    if (filters[key] === undefined) delete filters[key];
+  }
+  return filters;
+}
+
+// Returns a copy of `params` with the filter keys replaced; other params are kept.
+export function writeBuildFilters(params: URLSearchParams, filters: BuildHistoryFilters): URLSearchParams {
+  const next = new URLSearchParams(params);
+  for (const key of BUILD_FILTER_KEYS) {
+    const value = filters[key]?.trim();
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+  }
+  return next;
+}
+
+export function countActiveFilters(filters: BuildHistoryFilters): number {
+  return BUILD_FILTER_KEYS.filter((key) => filters[key]).length;
+}
+
+export function formatTriggerLabel(trigger: BuildTrigger): string {
+  return trigger === 'PullRequest' ? 'Pull request' : trigger;
+}
@@ -0,0 +1,70 @@
+// =============================================================================
+// components/builds/testResults.test.ts
+//
+// Tests for build tests tab helpers.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { filterTests, formatTestDuration, getTestKey, sortTests } from './testResults';
+import type { TestCaseDto } from '@/types';
+
+function testCase(name: string, overrides: Partial<TestCaseDto> = {}): TestCaseDto {
+  return {
+    name,
+    className: 'Api.Tests',
+    outcome: 'Passed',
+    durationMs: null,
+    message: null,
+    stackTrace: null,
+    isNewFailure: false,
+    isFixed: false,
+    ...overrides,
+  };
+}
+
+const TESTS = [
+  testCase('Deletes', { outcome: 'Failed', isNewFailure: true, durationMs: 40 }),
+  testCase('Updates', { outcome: 'Failed', durationMs: 1200 }),
+  testCase('Creates', { isFixed: true, durationMs: 5 }),
+  testCase('Lists', { outcome: 'Skipped' }),
+];
+
+describe('getTestKey', () => {
+  it('qualifies the name with the class when present', () => {
+    expect(getTestKey(TESTS[0])).toBe('Api.Tests.Deletes');
+    expect(getTestKey(testCase('standalone', { className: null }))).toBe('standalone');
+  });
+});
+
+describe('filterTests', () => {
+  it('filters by outcome', () => {
+    expect(filterTests(TESTS, 'failed').map((t) => t.name)).toEqual(['Deletes', 'Updates']);
+    expect(filterTests(TESTS, 'skipped').map((t) => t.name)).toEqual(['Lists']);
+    expect(filterTests(TESTS, 'all')).toHaveLength(4);
+  });
+
+  it('keeps new failures and fixed tests for the changed filter', () => {
+    expect(filterTests(TESTS, 'changed').map((t) => t.name)).toEqual(['Deletes', 'Creates']);
+  });
+
+  it('matches the query against the qualified name', () => {
+    expect(filterTests(TESTS, 'all', 'api.tests.up').map((t) => t.name)).toEqual(['Updates']);
+  });
+});
+
+describe('sortTests', () => {
+  it('orders by duration for slowest and keeps server order by default', () => {
+    expect(sortTests(TESTS, 'slowest').map((t) => t.name)).toEqual(['Updates', 'Deletes', 'Creates', 'Lists']);
+    expect(sortTests(TESTS, 'default')).toBe(TESTS);
+  });
+});
+
+describe('formatTestDuration', () => {
+  it('picks a readable unit', () => {
+    expect(formatTestDuration(null)).toBe('');
+    expect(formatTestDuration(0.4)).toBe('<1 ms');
+    expect(formatTestDuration(250)).toBe('250 ms');
+    expect(formatTestDuration(1500)).toBe('1.50 s');
+    expect(formatTestDuration(125_000)).toBe('2m 5s');
+  });
+});
@@ -0,0 +1,44 @@
+// =============================================================================
+// components/builds/testResults.ts
+//
+// Helpers for the build tests tab: filtering and sorting test cases and
+// formatting test durations.
+// =============================================================================
+
+import type { TestCaseDto } from '@/types';
+
+export type TestFilter = 'all' | 'failed' | 'changed' | 'passed' | 'skipped';
+export type TestSort = 'default' | 'slowest';
+
+export function getTestKey(test: TestCaseDto): string {
+  return test.className ? `${test.className}.${test.name}` : test.name;
+}
+
+export function filterTests(tests: TestCaseDto[], filter: TestFilter, query: string = ''): TestCaseDto[] {
+  const needle = query.trim().toLowerCase();
+
+  return tests.filter((test) => {
+    if (filter === 'failed' && test.outcome !== 'Failed') return false;
+    if (filter === 'passed' && test.outcome !== 'Passed') return false;
+    if (filter === 'skipped' && test.outcome !== 'Skipped') return false;
+    if (filter === 'changed' && !test.isNewFailure && !test.isFixed) return false;
+    return !needle || getTestKey(test).toLowerCase().includes(needle);
+  });
+}
+
+// Default keeps the server order (failures first, then by name).
+export function sortTests(tests: TestCaseDto[], sort: TestSort): TestCaseDto[] {
+  if (sort === 'default') return tests;
+  return [...tests].sort((a, b) => (b.durationMs ?? -1) - (a.durationMs ?? -1));
+}
+
+export function formatTestDuration(ms: number | null): string {
+  if (ms === null) return '';
+  if (ms < 1) return '<1 ms';
+  if (ms < 1000) return `${Math.round(ms)} ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(2)} s`;
+
+  const minutes = Math.floor(ms / 60_000);
+  const seconds = Math.round((ms % 60_000) / 1000);
+  return `${minutes}m ${seconds}s`;
+}
@@ -0,0 +1,80 @@
+// =============================================================================
+// components/builds/triggerBuildForm.test.ts
+//
+// Tests for trigger build dialog validation and request mapping.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import {
+  createTriggerBuildForm,
+  toTriggerBuildRequest,
+  validateTriggerBuildForm,
+  type TriggerBuildForm,
+} from './triggerBuildForm';
+
+const SHA = '0123456789abcdef0123456789abcdef01234567';
+
+function form(changes: Partial<TriggerBuildForm> = {}): TriggerBuildForm {
+  return { ...createTriggerBuildForm('main'), ...changes };
+}
+
+describe('validateTriggerBuildForm', () => {
+  it('accepts the defaults', () => {
+    expect(validateTriggerBuildForm(form())).toEqual({});
+  });
+
+  it('requires a branch', () => {
+    expect(validateTriggerBuildForm(form({ branch: '  ' })).branch).toBeDefined();
+  });
+
+  it('only accepts full commit SHAs', () => {
+    expect(validateTriggerBuildForm(form({ commitSha: 'abc1234' })).commitSha).toBeDefined();
+    expect(validateTriggerBuildForm(form({ commitSha: SHA })).commitSha).toBeUndefined();
+  });
+
+  it('flags invalid, reserved and duplicate override names', () => {
+    const errors = validateTriggerBuildForm(form({
+      overrides: [
+        { id: 1, name: '1BAD', value: 'x' },
+        { id: 2, name: 'ando_host_root', value: 'x' },
+        { id: 3, name: 'DEPLOY', value: 'x' },
+        { id: 4, name: 'DEPLOY', value: 'y' },
+        { id: 5, name: '', value: 'orphan' },
+      ],
+    }));
+
+    expect(errors['override-1']).toMatch(/letters/);
+    expect(errors['override-2']).toMatch(/set by the server/);
+    expect(errors['override-3']).toBeUndefined();
+    expect(errors['override-4']).toMatch(/listed twice/);
+    expect(errors['override-5']).toMatch(/required/);
+  });
+
+  it('ignores blank override rows', () => {
+    expect(validateTriggerBuildForm(form({ overrides: [{ id: 1, name: '', value: '' }] }))).toEqual({});
+  });
+});
+
+describe('toTriggerBuildRequest', () => {
+  it('sends only the branch by default', () => {
+    expect(toTriggerBuildRequest(form({ branch: ' feature/x ' }))).toEqual({ branch: 'feature/x' });
+  });
+
+  it('includes the commit, profile and named overrides', () => {
+    const request = toTriggerBuildRequest(form({
+      commitSha: SHA,
+      profile: 'release',
+      overrides: [
+        { id: 1, name: ' VERSION ', value: '1.2.3' },
+        { id: 2, name: '', value: '' },
+      ],
+    }));
+
+    expect(request).toEqual({
+      branch: 'main',
+      commitSha: SHA,
+      profile: 'release',
+      environmentOverrides: { VERSION: '1.2.3' },
+    });
+  });
+});
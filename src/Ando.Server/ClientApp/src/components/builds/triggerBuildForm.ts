@@ -0,0 +1,86 @@
+// =============================================================================
+// components/builds/triggerBuildForm.ts
+//
+// Form state for the trigger build dialog. Mirrors the server's checks
+// (BuildEnvironmentOverrides, TriggerBuildEndpoint) so mistakes show inline
+// before the request is sent; the server remains the authority.
+// =============================================================================
+
+import type { TriggerBuildRequest } from '@/types';
+
+export interface EnvironmentOverrideRow {
+  id: number;
+  name: string;
+  value: string;
+}
+
+export interface TriggerBuildForm {
+  branch: string;
+  commitSha: string;
+  // Empty uses the project's configured profile.
+  profile: string;
+  overrides: EnvironmentOverrideRow[];
+}
+
+export const MAX_ENVIRONMENT_OVERRIDES = 50;
+export const MAX_OVERRIDE_VALUE_LENGTH = 4096;
+
+const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const FULL_SHA_PATTERN = /^[0-9a-fA-F]{40}$/;
+const RESERVED_NAMES = ['ANDO_HOST_ROOT'];
+
+export function createTriggerBuildForm(defaultBranch: string): TriggerBuildForm {
+  return { branch: defaultBranch, commitSha: '', profile: '', overrides: [] };
+}
+
+// Returns an error per field; rows that are entirely blank are ignored.
+export function validateTriggerBuildForm(form: TriggerBuildForm): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  if (!form.branch.trim()) {
+    errors.branch = 'Branch is required.';
+  }
+
+  const sha = form.commitSha.trim();
+  if (sha && !FULL_SHA_PATTERN.test(sha)) {
+    errors.commitSha = 'Use the full 40-character commit SHA.';
+  }
+
+  const seen = new Set<string>();
+  const rows = form.overrides.filter((row) => row.name.trim() || row.value);
+  if (rows.length > MAX_ENVIRONMENT_OVERRIDES) {
+    errors.overrides = `At most ${MAX_ENVIRONMENT_OVERRIDES} environment overrides are allowed.`;
+  }
+
+  for (const row of rows) {
+    const name = row.name.trim();
+    const key = `override-${row.id}`;
+    if (!ENV_NAME_PATTERN.test(name)) {
+      errors[key] = name ? 'Use letters, digits and underscores.' : 'Name is required.';
+    } else if (RESERVED_NAMES.some((reserved) => reserved.toUpperCase() === name.toUpperCase())) {
+      errors[key] = `${name} is set by the server.`;
+    } else if (seen.has(name)) {
+      errors[key] = `${name} is listed twice.`;
+    } else if (row.value.length > MAX_OVERRIDE_VALUE_LENGTH) {
+      errors[key] = `Value exceeds ${MAX_OVERRIDE_VALUE_LENGTH} characters.`;
+    }
+    seen.add(name);
+  }
+
+  return errors;
+}
+
+export function toTriggerBuildRequest(form: TriggerBuildForm): TriggerBuildRequest {
+  const request: TriggerBuildRequest = { branch: form.branch.trim() };
+
+  const sha = form.commitSha.trim();
+  if (sha) request.commitSha = sha;
+  if (form.profile) request.profile = form.profile;
+
+  const rows = form.overrides.filter((row) => row.name.trim());
+  if (rows.length > 0) {
+    request.environmentOverrides = Object.fromEntries(rows.map((row) => [row.name.trim(), row.value]));
+  }
+
+  return request;
+}
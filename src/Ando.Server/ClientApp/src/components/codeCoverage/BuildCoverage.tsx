@@ -0,0 +1,212 @@
+// =============================================================================
+// components/codeCoverage/BuildCoverage.tsx
+//
+// Coverage tab for BuildDetails: overall line and branch coverage parsed from
+// the build's Cobertura and lcov report artifacts, the change against the
+// latest successful default-branch build, and a file tree with per-file
+// percentages.
+// =============================================================================
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { getBuildCoverage } from '@/api/builds';
+import { Loading } from '@/components/ui/Loading';
+import { Alert } from '@/components/ui/Alert';
+import {
+  buildCoverageTree,
+  formatDelta,
+  formatPercent,
+  getDeltaDirection,
+  getRate,
+  type CoverageTreeNode,
+} from './coverageTree';
+
+interface BuildCoverageProps {
+  buildId: number;
+  isInProgress: boolean;
+}
+
+export function BuildCoverage({ buildId, isInProgress }: BuildCoverageProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['buildCoverage', buildId],
+    queryFn: () => getBuildCoverage(buildId),
+  });
+
+  if (isLoading) {
+    return <Loading size="lg" className="py-12" text="Reading coverage reports..." />;
+  }
+
+  if (error || !data) {
+    return <Alert variant="error">Failed to load coverage</Alert>;
+  }
+
+  if (data.reports.length === 0) {
+    return (
+      <div className="bg-white border border-gray-200 rounded-xl px-5 py-10 text-center dark:bg-slate-900 dark:border-slate-800">
+        <p className="text-sm text-gray-500 dark:text-slate-400">
+          {isInProgress ? 'Coverage appears once the build has uploaded its artifacts.' : 'No coverage reports found.'}
+        </p>
+        <p className="mt-1 text-xs text-gray-400 dark:text-slate-500">
+          Upload Cobertura XML or lcov reports as build artifacts to see them here.
+        </p>
+      </div>
+    );
+  }
+
+  const { summary, baseline } = data;
+  const tree = buildCoverageTree(data.files);
+
+  const toggle = (path: string) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <SummaryCard
+          title="Line coverage"
+          rate={summary.lineRate}
+          detail={`${summary.linesCovered} of ${summary.linesValid} lines`}
+          delta={baseline?.lineRateDelta ?? null}
+        />
+        <SummaryCard
+          title="Branch coverage"
+          rate={summary.branchRate}
+          detail={summary.branchesValid > 0 ? `${summary.branchesCovered} of ${summary.branchesValid} branches` : 'No branch data'}
+          delta={baseline?.branchRateDelta ?? null}
+        />
+      </div>
+
+      {baseline ? (
+        <p className="text-sm text-gray-500 dark:text-slate-400">
+          Compared with{' '}
+          <Link to={`/builds/${baseline.buildId}`} className="text-primary-600 hover:underline dark:text-primary-400">
+            build #{baseline.buildId}
+          </Link>{' '}
+          on <span className="font-mono">{baseline.branch}</span> ({formatPercent(baseline.lineRate)} lines)
+          {!baseline.hasFileDetails && '. Its reports have expired, so per-file changes are not shown.'}
+        </p>
+      ) : (
+        <p className="text-sm text-gray-400 dark:text-slate-500">
+          No successful build on the default branch has coverage to compare with.
+        </p>
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-xl dark:bg-slate-900 dark:border-slate-800">
+        <div className="flex items-center gap-3 px-5 py-3 border-b border-gray-100 dark:border-slate-800 text-xs font-medium text-gray-400 dark:text-slate-500 uppercase tracking-wider">
+          <span className="flex-1">Files</span>
+          <span className="w-20 text-right">Lines</span>
+          <span className="w-20 text-right">Branches</span>
+          <span className="w-16 text-right">Change</span>
+        </div>
+        {tree.children.length === 0 ? (
+          <div className="px-5 py-8 text-center text-sm text-gray-400 dark:text-slate-500">The reports list no files.</div>
+        ) : (
+          <ul role="tree" aria-label="Coverage by file" className="py-1">
+            {tree.children.map((node) => (
+              <TreeRow key={node.path} node={node} depth={0} expanded={expanded} onToggle={toggle} />
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-400 dark:text-slate-500">From {data.reports.join(', ')}</p>
+    </div>
+  );
+}
+
+interface TreeRowProps {
+  node: CoverageTreeNode;
+  depth: number;
+  expanded: Set<string>;
+  onToggle: (path: string) => void;
+}
+
+function TreeRow({ node, depth, expanded, onToggle }: TreeRowProps) {
+  const isOpen = expanded.has(node.path);
+  const lineRate = getRate(node.linesCovered, node.linesValid);
+
+  return (
+    <li role="treeitem" aria-expanded={node.isFile ? undefined : isOpen}>
+      <div className="flex items-center gap-3 px-5 py-1.5 hover:bg-gray-50 dark:hover:bg-slate-800/50">
+        <div className="flex-1 min-w-0" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+          {node.isFile ? (
+            <span className="block truncate text-sm font-mono text-gray-700 dark:text-slate-300" title={node.path}>
+              {node.name}
+            </span>
+          ) : (
+            <button
+              type="button"
+              onClick={() => onToggle(node.path)}
+              className="flex items-center gap-1.5 max-w-full text-left text-sm font-mono text-gray-900 hover:text-primary-600 dark:text-slate-100 dark:hover:text-primary-400"
+            >
+              <span className="w-3 shrink-0 text-gray-400 dark:text-slate-500">{isOpen ? '▾' : '▸'}</span>
+              <span className="truncate">{node.name}/</span>
+            </button>
+          )}
+        </div>
+        <span className="w-20 flex items-center justify-end gap-2">
+          <CoverageBar rate={lineRate} />
+          <span className="text-xs tabular-nums text-gray-700 dark:text-slate-300">{formatPercent(lineRate)}</span>
+        </span>
+        <span className="w-20 text-right text-xs tabular-nums text-gray-500 dark:text-slate-400">
+          {formatPercent(getRate(node.branchesCovered, node.branchesValid))}
+        </span>
+        <span className="w-16 text-right">
+          <Delta delta={node.lineRateDelta} />
+        </span>
+      </div>
+      {!node.isFile && isOpen && (
+        <ul role="group">
+          {node.children.map((child) => (
+            <TreeRow key={child.path} node={child} depth={depth + 1} expanded={expanded} onToggle={onToggle} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+function CoverageBar({ rate }: { rate: number | null }) {
+  if (rate === null) return null;
+
+  const color = rate >= 0.8 ? 'bg-success-500' : rate >= 0.5 ? 'bg-warning-500' : 'bg-error-500';
+  return (
+    <span className="hidden sm:block w-8 h-1.5 rounded-full bg-gray-100 dark:bg-slate-800 overflow-hidden" aria-hidden="true">
+      <span className={`block h-full ${color}`} style={{ width: `${Math.round(rate * 100)}%` }} />
+    </span>
+  );
+}
+
+function Delta({ delta }: { delta: number | null }) {
+  const text = formatDelta(delta);
+  if (text === null) return null;
+
+  const direction = getDeltaDirection(delta);
+  const color = direction === 'up'
+    ? 'text-success-600 dark:text-success-400'
+    : direction === 'down' ? 'text-error-600 dark:text-error-400' : 'text-gray-400 dark:text-slate-500';
+
+  return <span className={`text-xs tabular-nums ${color}`}>{text}</span>;
+}
+
+function SummaryCard({ title, rate, detail, delta }: { title: string; rate: number | null; detail: string; delta: number | null }) {
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-4 dark:bg-slate-900 dark:border-slate-800">
+      <p className="text-sm text-gray-500 dark:text-slate-400">{title}</p>
+      <p className="flex items-baseline gap-2">
+        <span className="text-lg font-semibold text-gray-900 dark:text-slate-100">{formatPercent(rate)}</span>
+        <Delta delta={delta} />
+      </p>
+      <p className="text-xs text-gray-400 dark:text-slate-500">{detail}</p>
+    </div>
+  );
+}
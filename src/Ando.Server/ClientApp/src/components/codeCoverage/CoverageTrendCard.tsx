@@ -0,0 +1,40 @@
+// =============================================================================
+// components/codeCoverage/CoverageTrendCard.tsx
+//
+// Line and branch coverage of recent successful builds on a project's default
+// branch. Renders nothing until a build has reported coverage.
+// =============================================================================
+
+import { useQuery } from '@tanstack/react-query';
+import { getProjectCoverage } from '@/api/projects';
+import { TrendChart } from '@/components/analytics/TrendChart';
+import { formatPercent } from './coverageTree';
+
+export function CoverageTrendCard({ projectId }: { projectId: number }) {
+  const { data } = useQuery({
+    queryKey: ['projectCoverage', projectId],
+    queryFn: () => getProjectCoverage(projectId),
+  });
+
+  if (!data || data.points.length === 0) {
+    return null;
+  }
+
+  const { points } = data;
+  const hasBranches = points.some((point) => point.branchRate !== null);
+
+  return (
+    <TrendChart
+      title={`Coverage on ${data.branch}`}
+      labels={points.map((point) => `#${point.buildId}`)}
+      formatValue={formatPercent}
+      max={1}
+      series={[
+        { name: 'Lines', type: 'line', colorClassName: 'text-primary-500', values: points.map((point) => point.lineRate) },
+        ...(hasBranches
+          ? [{ name: 'Branches', type: 'line' as const, colorClassName: 'text-warning-500', values: points.map((point) => point.branchRate) }]
+          : []),
+      ]}
+    />
+  );
+}
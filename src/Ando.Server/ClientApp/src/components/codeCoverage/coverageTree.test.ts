@@ -0,0 +1,78 @@
+// =============================================================================
+// components/codeCoverage/coverageTree.test.ts
+//
+// Tests for coverage tree and formatting helpers.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { buildCoverageTree, commonDirectory, formatDelta, formatPercent, getDeltaDirection } from './coverageTree';
+import type { FileCoverageDto } from '@/types';
+
+function file(path: string, linesCovered: number, linesValid: number, lineRateDelta: number | null = null): FileCoverageDto {
+  return {
+    path,
+    lineRate: linesValid > 0 ? linesCovered / linesValid : null,
+    linesCovered,
+    linesValid,
+    branchRate: null,
+    branchesCovered: 0,
+    branchesValid: 0,
+    lineRateDelta,
+  };
+}
+
+describe('commonDirectory', () => {
+  it('finds the directory shared by all paths', () => {
+    expect(commonDirectory(['/workspace/src/a.ts', '/workspace/test/b.ts'])).toBe('/workspace/');
+    expect(commonDirectory(['src/a.ts', 'lib/b.ts'])).toBe('');
+    expect(commonDirectory(['src/app/a.ts'])).toBe('src/app/');
+    expect(commonDirectory([])).toBe('');
+  });
+});
+
+describe('buildCoverageTree', () => {
+  const tree = buildCoverageTree([
+    file('/workspace/src/Ando/Api/Client.cs', 8, 10, 0.1),
+    file('/workspace/src/Ando/Api/Server.cs', 2, 10),
+    file('/workspace/src/Ando/Program.cs', 5, 5),
+    file('/workspace/tests/Ando.Tests/ClientTests.cs', 0, 0),
+  ]);
+
+  it('sums counts into directories', () => {
+    expect(tree.linesCovered).toBe(0);
+    const src = tree.children[0];
+    expect(src.name).toBe('src/Ando');
+    expect(src.linesCovered).toBe(15);
+    expect(src.linesValid).toBe(25);
+  });
+
+  it('merges single-child directory chains and sorts directories first', () => {
+    expect(tree.children.map((child) => child.name)).toEqual(['src/Ando', 'tests/Ando.Tests']);
+    expect(tree.children[0].children.map((child) => child.name)).toEqual(['Api', 'Program.cs']);
+  });
+
+  it('keeps full paths and deltas on files', () => {
+    const client = tree.children[0].children[0].children[0];
+    expect(client.isFile).toBe(true);
+    expect(client.path).toBe('/workspace/src/Ando/Api/Client.cs');
+    expect(client.lineRateDelta).toBe(0.1);
+  });
+});
+
+describe('formatting', () => {
+  it('formats rates and deltas in percentage points', () => {
+    expect(formatPercent(0.8123)).toBe('81.2%');
+    expect(formatPercent(null)).toBe('—');
+    expect(formatDelta(0.025)).toBe('+2.5');
+    expect(formatDelta(-0.1)).toBe('−10.0');
+    expect(formatDelta(0.0001)).toBe('±0.0');
+    expect(formatDelta(null)).toBeNull();
+  });
+
+  it('reports the delta direction', () => {
+    expect(getDeltaDirection(0.02)).toBe('up');
+    expect(getDeltaDirection(-0.02)).toBe('down');
+    expect(getDeltaDirection(0)).toBe('none');
+    expect(getDeltaDirection(null)).toBe('none');
+  });
+});
@@ -0,0 +1,130 @@
+// =============================================================================
+// components/codeCoverage/coverageTree.ts
+//
+// Helpers for the coverage views: a directory tree with aggregated counts
+// built from per-file coverage, and percentage/delta formatting.
+// =============================================================================
+
+import type { FileCoverageDto } from '@/types';
+
+export interface CoverageTreeNode {
+  name: string;
+  path: string;
+  isFile: boolean;
+  linesCovered: number;
+  linesValid: number;
+  branchesCovered: number;
+  branchesValid: number;
+  // Files only; directories have no baseline figure.
+  lineRateDelta: number | null;
+  children: CoverageTreeNode[];
+}
+
+// Deltas smaller than this (0.05 percentage points) are shown as unchanged.
+const DELTA_EPSILON = 0.0005;
+
+export function getRate(covered: number, valid: number): number | null {
+  return valid > 0 ? covered / valid : null;
+}
+
+export function formatPercent(rate: number | null): string {
+  return rate === null ? '—' : `${(rate * 100).toFixed(1)}%`;
+}
+
+export function formatDelta(delta: number | null): string | null {
+  if (delta === null) return null;
+  if (Math.abs(delta) < DELTA_EPSILON) return '±0.0';
+  return `${delta > 0 ? '+' : '−'}${Math.abs(delta * 100).toFixed(1)}`;
+}
+
+export function getDeltaDirection(delta: number | null): 'up' | 'down' | 'none' {
+  if (delta === null || Math.abs(delta) < DELTA_EPSILON) return 'none';
+  return delta > 0 ? 'up' : 'down';
+}
+
+// Directory shared by every path (e.g. "/workspace/"), so the tree starts
+// where the paths differ.
+export function commonDirectory(paths: string[]): string {
+  if (paths.length === 0) return '';
+  const split = paths.map((path) => path.split('/').slice(0, -1));
+  const first = split[0];
+  let length = 0;
+  while (length < first.length && split.every((segments) => segments[length] === first[length])) {
+    length++;
+  }
+  return length === 0 ? '' : `${first.slice(0, length).join('/')}/`;
+}
+
+export function buildCoverageTree(files: FileCoverageDto[]): CoverageTreeNode {
+  const prefix = commonDirectory(files.map((file) => file.path));
+  const root = createNode('', '', false);
+
+  for (const file of files) {
+    const segments = file.path.slice(prefix.length).split('/').filter(Boolean);
+    let node = root;
+    segments.slice(0, -1).forEach((segment, index) => {
+      let child = node.children.find((c) => !c.isFile && c.name === segment);
+      if (!child) {
+        child = createNode(segment, prefix + segments.slice(0, index + 1).join('/'), false);
+        node.children.push(child);
+      }
+      node = child;
+    });
+
+    const leaf = createNode(segments[segments.length - 1] ?? file.path, file.path, true);
+    leaf.linesCovered = file.linesCovered;
+    leaf.linesValid = file.linesValid;
+    leaf.branchesCovered = file.branchesCovered;
+    leaf.branchesValid = file.branchesValid;
+    leaf.lineRateDelta = file.lineRateDelta;
+    node.children.push(leaf);
+  }
+
+  finalize(root);
+  return root;
+}
+
+function createNode(name: string, path: string, isFile: boolean): CoverageTreeNode {
+  return {
+    name,
+    path,
+    isFile,
+    linesCovered: 0,
+    linesValid: 0,
+    branchesCovered: 0,
+    branchesValid: 0,
+    lineRateDelta: null,
+    children: [],
+  };
+}
+
+// Sums counts into directories, merges single-child directory chains
+// ("src" > "app" becomes "src/app") and sorts directories before files.
+function finalize(node: CoverageTreeNode) {
+  node.children = node.children.map((child) => {
+    let current = child;
+    while (!current.isFile && current.children.length === 1 && !current.children[0].isFile) {
+      const only = current.children[0];
+      current = { ...only, name: `${current.name}/${only.name}` };
+    }
+    return current;
+  });
+
+  for (const child of node.children) {
+    if (!child.isFile) {
+      finalize(child);
+      child.linesCovered = sum(child.children, 'linesCovered');
+      child.linesValid = sum(child.children, 'linesValid');
+      child.branchesCovered = sum(child.children, 'branchesCovered');
+      child.branchesValid = sum(child.children, 'branchesValid');
+    }
+  }
+
+  node.children.sort((a, b) =>
+    a.isFile === b.isFile ? a.name.localeCompare(b.name) : a.isFile ? 1 : -1
+  );
+}
+
+function sum(nodes: CoverageTreeNode[], key: 'linesCovered' | 'linesValid' | 'branchesCovered' | 'branchesValid') {
+  return nodes.reduce((total, node) => total + node[key], 0);
+}
@@ -97,6 +97,8 @@ export function Layout() {
   const navLinks = [
     { to: '/', label: 'Dashboard', exact: true },
     { to: '/projects', label: 'Projects' },
+    { to: '/builds', label: 'Builds' },
+    { to: '/settings/shared-secrets', label: 'Shared Secrets' },
     { to: '/settings/api-tokens', label: 'API Tokens' },
     ...(user?.isAdmin ? [{ to: '/admin', label: 'Admin' }] : []),
   ];
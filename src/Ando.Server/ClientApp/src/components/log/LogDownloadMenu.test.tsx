@@ -0,0 +1,45 @@
+// =============================================================================
+// components/log/LogDownloadMenu.test.tsx
+//
+// Tests for the build log download dropdown.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { LogDownloadMenu } from './LogDownloadMenu';
+
+describe('LogDownloadMenu', () => {
+  it('lists a download link for each format', () => {
+    render(<LogDownloadMenu buildId={42} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /download/i }));
+
+    const links = screen.getAllByRole('menuitem');
+    expect(links.map((link) => link.getAttribute('href'))).toEqual([
+      '/api/builds/42/logs/download?format=text',
+      '/api/builds/42/logs/download?format=ansi',
+      '/api/builds/42/logs/download?format=json',
+      '/api/builds/42/logs/download?format=html',
+    ]);
+    links.forEach((link) => expect(link).toHaveAttribute('download'));
+  });
+
+  it('closes on Escape and outside clicks', () => {
+    render(<LogDownloadMenu buildId={42} />);
+    const toggle = screen.getByRole('button', { name: /download/i });
+
+    fireEvent.click(toggle);
+    fireEvent.keyDown(document, { key: 'Escape' });
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+
+    fireEvent.click(toggle);
+    fireEvent.pointerDown(document.body);
+    expect(screen.queryByRole('menu')).not.toBeInTheDocument();
+  });
+
+  it('is disabled when there are no logs', () => {
+    render(<LogDownloadMenu buildId={42} disabled />);
+
+    expect(screen.getByRole('button', { name: /download/i })).toBeDisabled();
+  });
+});
@@ -0,0 +1,88 @@
+// =============================================================================
+// components/log/LogDownloadMenu.tsx
+//
+// "Download" dropdown in the build log header offering each export format
+// served by the log download endpoint.
+// =============================================================================
+
+import { useEffect, useRef, useState } from 'react';
+import { getBuildLogDownloadUrl } from '@/api/builds';
+import type { BuildLogFormat } from '@/types';
+
+const FORMATS: { format: BuildLogFormat; label: string; description: string }[] = [
+  { format: 'text', label: 'Plain text', description: '.txt without colors' },
+  { format: 'ansi', label: 'Raw log', description: '.log with ANSI colors' },
+  { format: 'json', label: 'JSON', description: 'Log entry array' },
+  { format: 'html', label: 'HTML', description: 'Self-contained page' },
+];
+
+export function LogDownloadMenu({ buildId, disabled }: { buildId: number; disabled?: boolean }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('pointerdown', handlePointerDown);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      document.removeEventListener('pointerdown', handlePointerDown);
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={disabled}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className="
+          inline-flex items-center justify-center font-medium rounded-lg px-3 py-1.5 text-xs
+          bg-white text-gray-700 border border-gray-200 hover:bg-gray-50 hover:border-gray-300
+          focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500
+          disabled:opacity-50 disabled:cursor-not-allowed
+          dark:bg-slate-800 dark:text-slate-200 dark:border-slate-700 dark:hover:bg-slate-700 dark:hover:border-slate-600 dark:focus:ring-offset-slate-900
+        "
+      >
+        Download
+        <svg className="ml-1 h-3 w-3" viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
+          <path fillRule="evenodd" d="M5.23 7.21a.75.75 0 011.06.02L10 11.168l3.71-3.938a.75.75 0 111.08 1.04l-4.25 4.5a.75.75 0 01-1.08 0l-4.25-4.5a.75.75 0 01.02-1.06z" clipRule="evenodd" />
+        </svg>
+      </button>
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute right-0 z-10 mt-2 w-52 rounded-lg border border-gray-200 bg-white py-1 shadow-lg dark:border-slate-700 dark:bg-slate-800"
+        >
+          {FORMATS.map(({ format, label, description }) => (
+            <a
+              key={format}
+              role="menuitem"
+              href={getBuildLogDownloadUrl(buildId, format)}
+              download
+              onClick={() => setIsOpen(false)}
+              className="block px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 dark:text-slate-200 dark:hover:bg-slate-700"
+            >
+              <span className="font-medium">{label}</span>
+              <span className="block text-xs text-gray-500 dark:text-slate-400">{description}</span>
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+// =============================================================================
+// components/log/LogSearchBar.tsx
+//
+// Search toolbar for the build log pane: query, regex/case toggles, match
+// navigation and Error/Warning level filters.
+// =============================================================================
+
+import type { KeyboardEvent, ReactNode } from 'react';
+import type { LogSearchState } from '@/hooks/useLogSearch';
+import { MAX_LOG_MATCHES } from './logSearch';
+
+export function LogSearchBar({ search }: { search: LogSearchState }) {
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      if (event.shiftKey) {
+        search.previous();
+      } else {
+        search.next();
+      }
+    } else if (event.key === 'Escape') {
+      search.setQuery('');
+    }
+  };
+
+  const counter = search.query.length === 0
+    ? null
+    : search.matches.length === 0
+      ? 'No matches'
+      : `${search.activeIndex + 1} of ${search.matches.length.toLocaleString()}${search.matches.length >= MAX_LOG_MATCHES ? '+' : ''}`;
+
+  return (
+    <div className="px-4 py-2 sm:px-6 border-b border-gray-200 dark:border-slate-800 flex flex-wrap items-center gap-2">
+      <div className="relative flex-1 min-w-[200px]">
+        <input
+          type="search"
+          value={search.query}
+          onChange={(e) => search.setQuery(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Search logs"
+          aria-label="Search logs"
+          aria-invalid={!!search.error}
+          title={search.error ?? undefined}
+          className={`
+            block w-full rounded-lg pl-3 pr-24 py-1.5 text-sm font-mono
+            bg-white border border-gray-200 text-gray-900 placeholder-gray-400
+            focus:border-primary-500 focus:ring-1 focus:ring-primary-500
+            dark:bg-slate-800 dark:border-slate-700 dark:text-slate-100 dark:placeholder-slate-500
+            ${search.error ? 'border-error-500 focus:border-error-500 focus:ring-error-500 dark:border-error-500' : ''}
+          `}
+        />
+        {counter && (
+          <span
+            className="absolute inset-y-0 right-3 flex items-center text-xs text-gray-400 dark:text-slate-500"
+            aria-live="polite"
+          >
+            {counter}
+          </span>
+        )}
+      </div>
+      <ToggleButton pressed={search.isRegex} onClick={() => search.setIsRegex(!search.isRegex)} title="Regular expression">
+        .*
+      </ToggleButton>
+      <ToggleButton pressed={search.caseSensitive} onClick={() => search.setCaseSensitive(!search.caseSensitive)} title="Match case">
+        Aa
+      </ToggleButton>
+      <ToggleButton onClick={search.previous} disabled={search.matches.length === 0} title="Previous match (Shift+Enter)">
+        ↑
+      </ToggleButton>
+      <ToggleButton onClick={search.next} disabled={search.matches.length === 0} title="Next match (Enter)">
+        ↓
+      </ToggleButton>
+      <span className="mx-1 h-5 w-px bg-gray-200 dark:bg-slate-700" aria-hidden="true" />
+      <ToggleButton pressed={search.levels.includes('Error')} onClick={() => search.toggleLevel('Error')} title="Only show errors">
+        Errors
+      </ToggleButton>
+      <ToggleButton pressed={search.levels.includes('Warning')} onClick={() => search.toggleLevel('Warning')} title="Only show warnings">
+        Warnings
+      </ToggleButton>
+      {search.error && (
+        <p className="w-full text-xs text-error-600 dark:text-error-400">{search.error}</p>
+      )}
+    </div>
+  );
+}
+
+function ToggleButton({
+  pressed,
+  onClick,
+  disabled,
+  title,
+  children,
+}: {
+  pressed?: boolean;
+  onClick: () => void;
+  disabled?: boolean;
+  title: string;
+  children: ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      title={title}
+      aria-label={title}
+      aria-pressed={pressed}
+      className={`
+        px-2 py-1 rounded-md text-xs font-mono font-medium border transition-colors
+        disabled:opacity-50 disabled:cursor-not-allowed
+        ${pressed
+          ? 'bg-primary-50 border-primary-300 text-primary-700 dark:bg-primary-500/10 dark:border-primary-500/40 dark:text-primary-300'
+          : 'bg-white border-gray-200 text-gray-600 hover:bg-gray-50 dark:bg-slate-800 dark:border-slate-700 dark:text-slate-300 dark:hover:bg-slate-700'}
+      `}
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,147 @@
+// =============================================================================
+// components/log/LogViewer.test.tsx
+//
+// Tests for the virtualized build log pane.
+// =============================================================================
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { LogViewer } from './LogViewer';
+import type { LogEntry } from '@/types';
+
+function makeEntries(count: number): LogEntry[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: index + 1,
+    sequence: index + 1,
+    level: 'Output',
+    message: `line ${index + 1}`,
+    stepName: null,
+    timestamp: '2026-01-01T12:00:00Z',
+  }));
+}
+
+describe('LogViewer', () => {
+  it('shows the empty message when there are no entries', () => {
+    render(
+      <LogViewer entries={[]} followTail onFollowTailChange={vi.fn()} emptyMessage="Waiting for logs..." />
+    );
+    expect(screen.getByText('Waiting for logs...')).toBeInTheDocument();
+  });
+
+  it('mounts only a window of rows for large logs', () => {
+    const { container } = render(
+      <LogViewer entries={makeEntries(10_000)} followTail onFollowTailChange={vi.fn()} emptyMessage="" />
+    );
+
+    const rows = container.querySelectorAll('[data-log-sequence]');
+    expect(rows.length).toBeGreaterThan(0);
+    expect(rows.length).toBeLessThan(200);
+    expect(screen.getByText('line 10000')).toBeInTheDocument();
+    expect(screen.queryByText('line 1')).not.toBeInTheDocument();
+  });
+
+  it('starts at the top when not following the tail', () => {
+    render(
+      <LogViewer entries={makeEntries(10_000)} followTail={false} onFollowTailChange={vi.fn()} emptyMessage="" />
+    );
+
+    expect(screen.getByText('line 1')).toBeInTheDocument();
+    expect(screen.queryByText('line 10000')).not.toBeInTheDocument();
+  });
+
+  it('splits multi-line messages into separate rows', () => {
+    const entries = makeEntries(1);
+    entries[0].message = 'first\nsecond';
+
+    const { container } = render(
+      <LogViewer entries={entries} followTail onFollowTailChange={vi.fn()} emptyMessage="" />
+    );
+
+    expect(container.querySelectorAll('[data-log-sequence="1"]')).toHaveLength(2);
+    expect(screen.getByText('second')).toBeInTheDocument();
+  });
+
+  it('reports dropped lines', () => {
+    render(
+      <LogViewer entries={makeEntries(5)} droppedCount={1200} followTail onFollowTailChange={vi.fn()} emptyMessage="" />
+    );
+
+    expect(screen.getByText(/1,200 earlier lines/)).toBeInTheDocument();
+  });
+
+  it('collapses successful steps until their header is clicked', () => {
+    const entries = makeEntries(3);
+    entries[0] = { ...entries[0], level: 'StepStarted', message: 'build', stepName: 'build' };
+    entries[1] = { ...entries[1], message: 'Compiling...' };
+    entries[2] = { ...entries[2], level: 'StepCompleted', message: 'build completed in 1.0s', stepName: 'build' };
+
+    render(<LogViewer entries={entries} followTail onFollowTailChange={vi.fn()} emptyMessage="" />);
+
+    const header = screen.getByRole('button', { name: /build/ });
+    expect(header).toHaveAttribute('aria-expanded', 'false');
+    expect(header).toHaveTextContent('2 lines');
+    expect(screen.queryByText('Compiling...')).not.toBeInTheDocument();
+
+    fireEvent.click(header);
+
+    expect(header).toHaveAttribute('aria-expanded', 'true');
+    expect(screen.getByText('Compiling...')).toBeInTheDocument();
+  });
+
+  it('highlights search matches and hides lines filtered out by level', () => {
+    const entries = makeEntries(3);
+    entries[1] = { ...entries[1], level: 'Error', message: 'error CS1002: ; expected' };
+
+    const { container } = render(
+      <LogViewer
+        entries={entries}
+        followTail
+        onFollowTailChange={vi.fn()}
+        emptyMessage=""
+        levels={['Error']}
+        matches={[{ entryId: 2, sequence: 2, lineIndex: 0, start: 6, end: 12 }]}
+        activeMatchIndex={0}
+      />
+    );
+
+    expect(container.querySelectorAll('[data-log-sequence]')).toHaveLength(1);
+    const mark = container.querySelector('mark');
+    expect(mark).toHaveTextContent('CS1002');
+    expect(mark).toHaveAttribute('data-active-match', 'true');
+  });
+
+  it('selects line ranges from the gutter', () => {
+    const onSelectRange = vi.fn();
+    render(
+      <LogViewer
+        entries={makeEntries(5)}
+        followTail
+        onFollowTailChange={vi.fn()}
+        emptyMessage=""
+        selectedRange={{ start: 2, end: 2 }}
+        onSelectRange={onSelectRange}
+      />
+    );
+
+    fireEvent.click(screen.getByRole('link', { name: 'Line 4' }), { shiftKey: true });
+    expect(onSelectRange).toHaveBeenCalledWith({ start: 2, end: 4 });
+  });
+
+  it('scrolls to linked lines once they arrive', () => {
+    const onFollowTailChange = vi.fn();
+    const props = {
+      followTail: true,
+      onFollowTailChange,
+      emptyMessage: '',
+      selectedRange: { start: 8, end: 8 },
+    };
+    const { rerender, container } = render(<LogViewer entries={makeEntries(5)} {...props} />);
+
+    expect(onFollowTailChange).not.toHaveBeenCalled();
+
+    rerender(<LogViewer entries={makeEntries(10)} {...props} />);
+
+    expect(onFollowTailChange).toHaveBeenCalledWith(false);
+    expect(container.querySelector('#L8')).toHaveClass('bg-primary-500/15');
+  });
+});
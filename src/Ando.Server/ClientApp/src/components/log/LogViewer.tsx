@@ -0,0 +1,427 @@
+// =============================================================================
+// components/log/LogViewer.tsx
+//
+// Virtualized build log pane. Only the rows inside the scroll viewport (plus a
+// small overscan) are mounted, so 100k+ line logs stay responsive. Rows have a
+// fixed height; multi-line messages are split into continuation rows, and each
+// build step renders as a collapsible header row followed by its lines. Level
+// filters hide non-matching lines, and steps containing search matches are
+// expanded so every highlight is reachable. The gutter shows each entry's
+// sequence number; clicking it selects a line range for permalinks.
+// =============================================================================
+
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { LogEntry } from '@/types';
+import { getLogColor, renderAnsiLogMessage } from './ansi';
+import {
+  formatStepDuration,
+  getSectionDurationMs,
+  groupLogSections,
+  isSectionExpandedByDefault,
+  splitLogLines,
+  type LogSection,
+} from './logSections';
+import {
+  getMatchLineKey,
+  matchesLevelFilter,
+  type LogHighlight,
+  type LogLevelFilter,
+  type LogMatch,
+} from './logSearch';
+import { extendLineRange, formatLineHash, isInLineRange, type LogLineRange } from './logPermalink';
+
+const ROW_HEIGHT = 20;
+const OVERSCAN_ROWS = 30;
+const MAX_VIEWPORT_HEIGHT = 600;
+// The scroll container's p-4, above and below the rows.
+const VIEWPORT_PADDING = 16;
+
+type LogRow =
+  | {
+    kind: 'section';
+    key: string;
+    section: LogSection;
+    expanded: boolean;
+    lineCount: number;
+    matchCount: number;
+  }
+  | {
+    kind: 'line';
+    key: string;
+    entry: LogEntry;
+    text: string;
+    lineIndex: number;
+    highlights: LogHighlight[];
+  };
+
+interface LogRowOptions {
+  expandedOverrides: Record<string, boolean>;
+  selectedRange: LogLineRange | null;
+  levels: LogLevelFilter[];
+  matches: LogMatch[];
+  activeMatch: LogMatch | null;
+}
+
+interface LogViewerProps {
+  entries: LogEntry[];
+  followTail: boolean;
+  onFollowTailChange: (followTail: boolean) => void;
+  emptyMessage: string;
+  droppedCount?: number;
+  // Steps still marked running are shown as interrupted once the build ends.
+  isLive?: boolean;
+  levels?: LogLevelFilter[];
+  matches?: LogMatch[];
+  activeMatchIndex?: number;
+  selectedRange?: LogLineRange | null;
+  onSelectRange?: (range: LogLineRange) => void;
+}
+
+const NO_LEVELS: LogLevelFilter[] = [];
+const NO_MATCHES: LogMatch[] = [];
+const NO_HIGHLIGHTS: LogHighlight[] = [];
+
+export function LogViewer({
+  entries,
+  followTail,
+  onFollowTailChange,
+  emptyMessage,
+  droppedCount = 0,
+  isLive = false,
+  levels = NO_LEVELS,
+  matches = NO_MATCHES,
+  activeMatchIndex = -1,
+  selectedRange = null,
+  onSelectRange,
+}: LogViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  // The range most recently scrolled into view; linked lines may only arrive
+  // later through the live stream, so this is retried as rows change.
+  const scrolledRangeRef = useRef<string | null>(null);
+  // The search match most recently centered, so new rows don't re-center it.
+  const scrolledMatchRef = useRef<string | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(MAX_VIEWPORT_HEIGHT);
+  const [expandedOverrides, setExpandedOverrides] = useState<Record<string, boolean>>({});
+
+  const activeMatch = matches[activeMatchIndex] ?? null;
+  const sections = useMemo(() => groupLogSections(entries), [entries]);
+  const rows = useMemo(
+    () => buildLogRows(sections, { expandedOverrides, selectedRange, levels, matches, activeMatch }),
+    [sections, expandedOverrides, selectedRange, levels, matches, activeMatch],
+  );
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(() => {
+      setViewportHeight(container.clientHeight || MAX_VIEWPORT_HEIGHT);
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Keep the newest line in view while following the tail.
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (followTail && container) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [rows, followTail]);
+
+  // Center the active search match and stop following the tail.
+  const activeMatchKey = activeMatch
+    ? `${getMatchLineKey(activeMatch.entryId, activeMatch.lineIndex)}:${activeMatch.start}`
+    : null;
+  const activeRowIndex = activeMatch
+    ? rows.findIndex((row) => row.kind === 'line'
+      && row.entry.id === activeMatch.entryId
+      && row.lineIndex === activeMatch.lineIndex)
+    : -1;
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (activeMatchKey === null) {
+      scrolledMatchRef.current = null;
+      return;
+    }
+    // Only re-center when the user moves to a different match.
+    if (!container || activeRowIndex < 0 || scrolledMatchRef.current === activeMatchKey) return;
+
+    scrolledMatchRef.current = activeMatchKey;
+    container.scrollTop = Math.max(0, activeRowIndex * ROW_HEIGHT - container.clientHeight / 2);
+    onFollowTailChange(false);
+  }, [activeMatchKey, activeRowIndex, onFollowTailChange]);
+
+  const selectedRangeKey = selectedRange ? formatLineHash(selectedRange) : null;
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container || !selectedRange || scrolledRangeRef.current === selectedRangeKey) return;
+
+    const rowIndex = rows.findIndex((row) => row.kind === 'line'
+      && isInLineRange(selectedRange, row.entry.sequence));
+    if (rowIndex < 0) return;
+
+    scrolledRangeRef.current = selectedRangeKey;
+    container.scrollIntoView?.({ block: 'nearest' });
+    container.scrollTop = Math.max(0, (rowIndex - 3) * ROW_HEIGHT);
+    onFollowTailChange(false);
+  }, [rows, selectedRange, selectedRangeKey, onFollowTailChange]);
+
+  const handleLineNumberClick = (sequence: number, extend: boolean) => {
+    const range = extendLineRange(selectedRange, sequence, extend);
+    // Clicked lines are already on screen; don't jump.
+    scrolledRangeRef.current = formatLineHash(range);
+    onSelectRange?.(range);
+  };
+
+  const handleScroll = () => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    setScrollTop(container.scrollTop);
+
+    const distanceFromBottom = container.scrollHeight - container.scrollTop - container.clientHeight;
+    const isAtBottom = distanceFromBottom <= ROW_HEIGHT;
+    if (isAtBottom !== followTail) {
+      onFollowTailChange(isAtBottom);
+    }
+  };
+
+  const toggleSection = (section: LogSection, expanded: boolean) => {
+    setExpandedOverrides((prev) => ({ ...prev, [section.id]: !expanded }));
+  };
+
+  // While following, the window is pinned to the end so freshly appended rows
+  // render before the scroll event for the programmatic jump arrives.
+  const totalHeight = rows.length * ROW_HEIGHT + 2 * VIEWPORT_PADDING;
+  const effectiveScrollTop = followTail ? Math.max(0, totalHeight - viewportHeight) : scrollTop;
+  const rowsScrollTop = Math.max(0, effectiveScrollTop - VIEWPORT_PADDING);
+  const firstIndex = Math.max(0, Math.floor(rowsScrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastIndex = Math.min(
+    rows.length,
+    Math.ceil((rowsScrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS,
+  );
+  const visibleRows = rows.slice(firstIndex, lastIndex);
+  const gutterWidth = `calc(${String(entries[entries.length - 1]?.sequence ?? 0).length}ch + 0.75rem)`;
+
+  return (
+    <div>
+      {droppedCount > 0 && (
+        <div className="px-4 py-2 text-xs text-gray-400 bg-gray-800 dark:bg-slate-900 dark:text-slate-400">
+          Showing the most recent {entries.length.toLocaleString()} lines.{' '}
+          {droppedCount.toLocaleString()} earlier lines are not kept in the browser.
+        </div>
+      )}
+      <div
+        ref={containerRef}
+        onScroll={handleScroll}
+        className="bg-gray-900 text-gray-100 font-mono text-sm p-4 overflow-auto dark:bg-slate-950"
+        style={{ maxHeight: `${MAX_VIEWPORT_HEIGHT}px` }}
+      >
+        {rows.length === 0 ? (
+          <div className="text-gray-500 italic dark:text-slate-1000">{emptyMessage}</div>
+        ) : (
+          <div
+            className="min-w-full w-max"
+            style={{
+              paddingTop: firstIndex * ROW_HEIGHT,
+              paddingBottom: (rows.length - lastIndex) * ROW_HEIGHT,
+            }}
+          >
+            {visibleRows.map((row) => row.kind === 'section' ? (
+              <SectionHeader
+                key={row.key}
+                section={row.section}
+                expanded={row.expanded}
+                lineCount={row.lineCount}
+                matchCount={row.matchCount}
+                isLive={isLive}
+                onToggle={() => toggleSection(row.section, row.expanded)}
+              />
+            ) : (
+              <div
+                key={row.key}
+                id={row.lineIndex === 0 ? `L${row.entry.sequence}` : undefined}
+                data-log-sequence={row.entry.sequence}
+                className={`whitespace-pre leading-5 ${
+                  isInLineRange(selectedRange, row.entry.sequence) ? 'bg-primary-500/15' : ''
+                }`}
+                style={{ height: ROW_HEIGHT }}
+              >
+                {row.lineIndex === 0 ? (
+                  <a
+                    href={`#L${row.entry.sequence}`}
+                    onClick={(e) => {
+                      e.preventDefault();
+                      handleLineNumberClick(row.entry.sequence, e.shiftKey);
+                    }}
+                    className="inline-block pr-3 text-right text-gray-600 select-none hover:text-gray-300 hover:underline dark:text-slate-600 dark:hover:text-slate-300"
+                    style={{ width: gutterWidth }}
+                    aria-label={`Line ${row.entry.sequence}`}
+                  >
+                    {row.entry.sequence}
+                  </a>
+                ) : (
+                  <span className="inline-block pr-3" style={{ width: gutterWidth }} />
+                )}
+                <span
+                  className={`text-gray-500 select-none dark:text-slate-1000 ${row.lineIndex > 0 ? 'invisible' : ''}`}
+                >
+                  [{formatTime(row.entry.timestamp)}]
+                </span>{' '}
+                {renderAnsiLogMessage(row.text, getLogColor(row.entry.level), row.highlights)}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SectionHeader({
+  section,
+  expanded,
+  lineCount,
+  matchCount,
+  isLive,
+  onToggle,
+}: {
+  section: LogSection;
+  expanded: boolean;
+  lineCount: number;
+  matchCount: number;
+  isLive: boolean;
+  onToggle: () => void;
+}) {
+  const durationMs = getSectionDurationMs(section);
+
+  return (
+    <button
+      type="button"
+      onClick={onToggle}
+      aria-expanded={expanded}
+      data-log-section={section.stepName ?? ''}
+      className={`flex w-full items-center gap-2 text-left leading-5 select-none hover:bg-gray-800 dark:hover:bg-slate-900 ${
+        section.status === 'failed' ? 'text-error-400' : 'text-gray-200'
+      }`}
+      style={{ height: ROW_HEIGHT }}
+    >
+      <svg
+        className={`w-3 h-3 shrink-0 text-gray-500 transition-transform ${expanded ? 'rotate-90' : ''}`}
+        viewBox="0 0 20 20"
+        fill="currentColor"
+        aria-hidden="true"
+      >
+        <path fillRule="evenodd" d="M7.21 14.77a.75.75 0 01.02-1.06L11.168 10 7.23 6.29a.75.75 0 111.04-1.08l4.5 4.25a.75.75 0 010 1.08l-4.5 4.25a.75.75 0 01-1.06-.02z" clipRule="evenodd" />
+      </svg>
+      <StepStatusIcon status={section.status} isLive={isLive} />
+      <span className="font-semibold truncate">{section.stepName}</span>
+      {matchCount > 0 && (
+        <span className="shrink-0 rounded-full px-1.5 text-[10px] font-semibold bg-warning-400 text-gray-900">
+          {matchCount.toLocaleString()} {matchCount === 1 ? 'match' : 'matches'}
+        </span>
+      )}
+      <span className="ml-auto shrink-0 text-xs text-gray-500 dark:text-slate-500">
+        {lineCount.toLocaleString()} {lineCount === 1 ? 'line' : 'lines'}
+        {durationMs !== null && ` · ${formatStepDuration(durationMs)}`}
+      </span>
+    </button>
+  );
+}
+
+function StepStatusIcon({ status, isLive }: { status: LogSection['status']; isLive: boolean }) {
+  switch (status) {
+    case 'success':
+      return (
+        <svg className="w-3.5 h-3.5 shrink-0 text-success-400" viewBox="0 0 20 20" fill="currentColor" aria-label="Succeeded">
+          <path fillRule="evenodd" d="M16.704 4.153a.75.75 0 01.143 1.052l-8 10.5a.75.75 0 01-1.127.075l-4.5-4.5a.75.75 0 011.06-1.06l3.894 3.893 7.48-9.817a.75.75 0 011.05-.143z" clipRule="evenodd" />
+        </svg>
+      );
+    case 'failed':
+      return (
+        <svg className="w-3.5 h-3.5 shrink-0 text-error-400" viewBox="0 0 20 20" fill="currentColor" aria-label="Failed">
+          <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+        </svg>
+      );
+    case 'running':
+      return isLive ? (
+        <span className="w-2 h-2 mx-[3px] shrink-0 rounded-full bg-primary-400 animate-pulse" aria-label="Running" />
+      ) : (
+        <span className="w-2 h-2 mx-[3px] shrink-0 rounded-full bg-gray-500" aria-label="Interrupted" />
+      );
+    default:
+      return (
+        <span className="w-2 h-2 mx-[3px] shrink-0 rounded-full border border-gray-500" aria-label="Skipped" />
+      );
+  }
+}
+
+function buildLogRows(sections: LogSection[], options: LogRowOptions): LogRow[] {
+  const { expandedOverrides, selectedRange, levels, matches, activeMatch } = options;
+  const isFiltering = levels.length > 0;
+
+  const highlightsByLine = new Map<string, LogHighlight[]>();
+  const matchCountByEntry = new Map<number, number>();
+  for (const match of matches) {
+    const key = getMatchLineKey(match.entryId, match.lineIndex);
+    const lineHighlights = highlightsByLine.get(key) ?? [];
+    lineHighlights.push({ start: match.start, end: match.end, isActive: match === activeMatch });
+    highlightsByLine.set(key, lineHighlights);
+    matchCountByEntry.set(match.entryId, (matchCountByEntry.get(match.entryId) ?? 0) + 1);
+  }
+
+  const rows: LogRow[] = [];
+
+  for (const section of sections) {
+    const entries = isFiltering
+      ? section.entries.filter((entry) => matchesLevelFilter(entry, levels))
+      : section.entries;
+
+    if (isFiltering && entries.length === 0) continue;
+
+    let expanded = true;
+    if (section.stepName !== null) {
+      const matchCount = entries.reduce((sum, entry) => sum + (matchCountByEntry.get(entry.id) ?? 0), 0);
+      const containsActiveMatch = !!activeMatch && entries.some((entry) => entry.id === activeMatch.entryId);
+      const containsSelection = entries.some((entry) => isInLineRange(selectedRange, entry.sequence));
+
+      // Filtered, matching or linked steps open by default but can still be
+      // collapsed, except the one holding the active match.
+      expanded = containsActiveMatch || (expandedOverrides[section.id]
+        ?? (isFiltering || matchCount > 0 || containsSelection || isSectionExpandedByDefault(section)));
+      rows.push({
+        kind: 'section',
+        key: section.id,
+        section,
+        expanded,
+        lineCount: entries.length,
+        matchCount,
+      });
+    }
+
+    if (!expanded) continue;
+
+    for (const entry of entries) {
+      splitLogLines(entry.message).forEach((text, lineIndex) => {
+        rows.push({
+          kind: 'line',
+          key: lineIndex === 0 ? `${entry.id}` : `${entry.id}:${lineIndex}`,
+          entry,
+          text,
+          lineIndex,
+          highlights: highlightsByLine.get(getMatchLineKey(entry.id, lineIndex)) ?? NO_HIGHLIGHTS,
+        });
+      });
+    }
+  }
+
+  return rows;
+}
+
+function formatTime(dateStr: string): string {
+  return new Date(dateStr).toLocaleTimeString();
+}
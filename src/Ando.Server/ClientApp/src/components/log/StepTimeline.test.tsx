@@ -0,0 +1,76 @@
+// =============================================================================
+// components/log/StepTimeline.test.tsx
+//
+// Tests for the BuildDetails step progress bar and timeline.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { StepTimeline } from './StepTimeline';
+import type { LogEntry } from '@/types';
+
+function entry(sequence: number, level: string, message: string, stepName: string | null, second: number): LogEntry {
+  return {
+    id: sequence,
+    sequence,
+    level,
+    message,
+    stepName,
+    timestamp: new Date(Date.UTC(2026, 0, 1, 12, 0, second)).toISOString(),
+  };
+}
+
+const entries = [
+  entry(1, 'Info', 'Starting build: main (4 steps)', null, 0),
+  entry(2, 'StepStarted', 'restore', 'restore', 0),
+  entry(3, 'StepCompleted', 'restore completed', 'restore', 4),
+  entry(4, 'StepStarted', 'test', 'test', 4),
+];
+
+describe('StepTimeline', () => {
+  it('shows progress from the log while the server counts are unset', () => {
+    render(
+      <StepTimeline
+        entries={entries}
+        startedAt={entries[0].timestamp}
+        finishedAt={null}
+        isLive
+        stepsTotal={0}
+        stepsCompleted={0}
+        stepsFailed={0}
+      />
+    );
+
+    const progress = screen.getByRole('progressbar', { name: 'Steps completed' });
+    expect(progress).toHaveAttribute('aria-valuenow', '1');
+    expect(progress).toHaveAttribute('aria-valuemax', '4');
+    expect(screen.getByText(/1 of 4 steps/)).toBeInTheDocument();
+  });
+
+  it('draws a bar per step', () => {
+    render(
+      <StepTimeline
+        entries={entries}
+        startedAt={entries[0].timestamp}
+        finishedAt={new Date(Date.UTC(2026, 0, 1, 12, 0, 8)).toISOString()}
+        isLive={false}
+        stepsTotal={2}
+        stepsCompleted={1}
+        stepsFailed={1}
+      />
+    );
+
+    const rows = screen.getAllByRole('listitem');
+    expect(rows.map((row) => row.getAttribute('data-timeline-step'))).toEqual(['restore', 'test']);
+    expect(screen.getByText(/2 of 2 steps/)).toBeInTheDocument();
+    expect(screen.getByText(/1 failed/)).toBeInTheDocument();
+  });
+
+  it('renders nothing before any step information exists', () => {
+    const { container } = render(
+      <StepTimeline entries={[]} startedAt={null} finishedAt={null} isLive stepsTotal={0} stepsCompleted={0} stepsFailed={0} />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
@@ -0,0 +1,130 @@
+// =============================================================================
+// components/log/StepTimeline.tsx
+//
+// Step progress bar and Gantt-style timeline for BuildDetails, derived from
+// the step markers in the log. While the build runs the running step's bar
+// grows once a second.
+// =============================================================================
+
+import { useEffect, useMemo, useState } from 'react';
+import type { LogEntry } from '@/types';
+import { formatStepDuration, type LogSectionStatus } from './logSections';
+import { layoutStepTimeline } from './stepTimeline';
+
+interface StepTimelineProps {
+  entries: LogEntry[];
+  startedAt: string | null;
+  finishedAt: string | null;
+  isLive: boolean;
+  // Final counts from the server; zero until the build finishes.
+  stepsTotal: number;
+  stepsCompleted: number;
+  stepsFailed: number;
+}
+
+const TICK_INTERVAL_MS = 1000;
+
+const BAR_STYLES: Record<LogSectionStatus, string> = {
+  success: 'bg-success-500',
+  failed: 'bg-error-500',
+  running: 'bg-primary-500',
+  skipped: 'bg-gray-300 dark:bg-slate-600',
+};
+
+function useNow(isLive: boolean): number {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!isLive) return;
+    const timer = window.setInterval(() => setNow(Date.now()), TICK_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [isLive]);
+
+  return now;
+}
+
+export function StepTimeline({
+  entries,
+  startedAt,
+  finishedAt,
+  isLive,
+  stepsTotal,
+  stepsCompleted,
+  stepsFailed,
+}: StepTimelineProps) {
+  const now = useNow(isLive);
+  const layout = useMemo(
+    () => layoutStepTimeline(entries, { startedAt, finishedAt, now }),
+    [entries, startedAt, finishedAt, now],
+  );
+
+  // Prefer the server's final counts; fall back to what the log shows so far.
+  const total = stepsTotal || layout.plannedStepCount || layout.steps.length;
+  const completed = stepsTotal ? stepsCompleted + stepsFailed : layout.finishedCount;
+  const failed = stepsTotal ? stepsFailed : layout.failedCount;
+  const percent = total > 0 ? Math.min(100, Math.round((completed / total) * 100)) : 0;
+  const failedPercent = total > 0 ? Math.min(percent, (failed / total) * 100) : 0;
+
+  if (total === 0 && layout.steps.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl dark:bg-slate-900 dark:border-slate-800">
+      <div className="px-4 py-5 sm:px-6 border-b border-gray-200 dark:border-slate-800">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-medium text-gray-900 dark:text-slate-100">Steps</h2>
+          <span className="text-sm text-gray-500 dark:text-slate-400">
+            {completed} of {total} {total === 1 ? 'step' : 'steps'}
+            {failed > 0 && <span className="text-error-600 dark:text-error-400"> · {failed} failed</span>}
+            {layout.totalMs > 0 && ` · ${formatStepDuration(layout.totalMs)}`}
+          </span>
+        </div>
+        <div
+          className="mt-3 h-2 rounded-full bg-gray-100 overflow-hidden flex dark:bg-slate-800"
+          role="progressbar"
+          aria-label="Steps completed"
+          aria-valuemin={0}
+          aria-valuemax={total}
+          aria-valuenow={completed}
+        >
+          <div className="h-full bg-error-500" style={{ width: `${failedPercent}%` }} />
+          <div
+            className={`h-full bg-success-500 transition-[width] duration-500 ${isLive ? 'animate-pulse' : ''}`}
+            style={{ width: `${percent - failedPercent}%` }}
+          />
+        </div>
+      </div>
+
+      {layout.steps.length > 0 && (
+        <ol className="px-4 py-4 sm:px-6 space-y-1.5" aria-label="Step timeline">
+          {layout.steps.map((step) => (
+            <li
+              key={step.id}
+              className="grid grid-cols-[minmax(6rem,12rem)_minmax(0,1fr)_4.5rem] items-center gap-3 text-sm"
+              data-timeline-step={step.stepName}
+            >
+              <span className="truncate text-gray-700 dark:text-slate-300" title={step.stepName}>
+                {step.stepName}
+              </span>
+              <div className="relative h-4 rounded bg-gray-50 dark:bg-slate-800/60">
+                <div
+                  className={`absolute inset-y-0 rounded ${BAR_STYLES[step.status]} ${step.status === 'running' && isLive ? 'animate-pulse' : ''}`}
+                  style={{
+                    left: `${step.offsetPercent}%`,
+                    // Keep instant steps visible as a sliver.
+                    width: `max(${step.widthPercent}%, 2px)`,
+                  }}
+                  title={`${step.stepName}: ${formatStepDuration(step.durationMs)}`}
+                />
+              </div>
+              <span className="text-right text-xs tabular-nums text-gray-500 dark:text-slate-400">
+                {step.status === 'skipped' ? 'skipped' : formatStepDuration(step.durationMs)}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+// =============================================================================
+// components/log/ansi.test.tsx
+//
+// Tests for ANSI escape parsing and rendering of build log lines.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { render } from '@testing-library/react';
+import {
+  applySgr,
+  getAnsiBackgroundClass,
+  getAnsiColorClass,
+  parseAnsiLine,
+  renderAnsiLogMessage,
+  stripAnsi,
+  xterm256ToRgb,
+  type AnsiStyle,
+} from './ansi';
+
+const ESC = '\u001b';
+
+const PLAIN: AnsiStyle = {
+  bold: false,
+  dim: false,
+  italic: false,
+  underline: false,
+  inverse: false,
+  strikethrough: false,
+  fg: null,
+  bg: null,
+};
+
+function renderLine(message: string, fallbackClass = 'text-gray-100') {
+  return render(<div>{renderAnsiLogMessage(message, fallbackClass)}</div>).container.firstElementChild!;
+}
+
+describe('applySgr', () => {
+  it('toggles text attributes', () => {
+    const style = applySgr(PLAIN, '1;3;4;7;9');
+    expect(style).toMatchObject({ bold: true, italic: true, underline: true, inverse: true, strikethrough: true });
+
+    expect(applySgr(style, '22;23;24;27;29')).toEqual(PLAIN);
+  });
+
+  it('resets on 0 and on an empty parameter list', () => {
+    const style = applySgr(PLAIN, '1;31;42');
+    expect(applySgr(style, '0')).toEqual(PLAIN);
+    expect(applySgr(style, '')).toEqual(PLAIN);
+  });
+
+  it('parses basic, bright, 256 and truecolor values', () => {
+    expect(applySgr(PLAIN, '31').fg).toEqual({ kind: 'palette', index: 1 });
+    expect(applySgr(PLAIN, '96').fg).toEqual({ kind: 'palette', index: 14 });
+    expect(applySgr(PLAIN, '44').bg).toEqual({ kind: 'palette', index: 4 });
+    expect(applySgr(PLAIN, '103').bg).toEqual({ kind: 'palette', index: 11 });
+    expect(applySgr(PLAIN, '38;5;208').fg).toEqual({ kind: 'palette', index: 208 });
+    expect(applySgr(PLAIN, '48;2;10;20;30').bg).toEqual({ kind: 'rgb', r: 10, g: 20, b: 30 });
+  });
+
+  it('accepts colon-separated extended colors', () => {
+    expect(applySgr(PLAIN, '38:5:33').fg).toEqual({ kind: 'palette', index: 33 });
+    expect(applySgr(PLAIN, '38:2::1:2:3').fg).toEqual({ kind: 'rgb', r: 1, g: 2, b: 3 });
+    expect(applySgr(PLAIN, '48:2:4:5:6;1')).toMatchObject({ bold: true, bg: { kind: 'rgb', r: 4, g: 5, b: 6 } });
+  });
+
+  it('continues after an extended color', () => {
+    const style = applySgr(PLAIN, '38;5;1;4');
+    expect(style.fg).toEqual({ kind: 'palette', index: 1 });
+    expect(style.underline).toBe(true);
+  });
+
+  it('clears colors with 39 and 49', () => {
+    const style = applySgr(PLAIN, '31;41');
+    expect(applySgr(style, '39;49')).toEqual(PLAIN);
+  });
+});
+
+describe('parseAnsiLine', () => {
+  it('keeps only the final frame of carriage-return progress output', () => {
+    const runs = parseAnsiLine('Downloading  10%\rDownloading  55%\rDownloading 100%');
+    expect(runs.map((r) => r.text).join('')).toBe('Downloading 100%');
+  });
+
+  it('overwrites in place when the new frame is shorter', () => {
+    expect(stripAnsi('abcdef\rxy')).toBe('xycdef');
+    expect(stripAnsi(`abcdef\r${ESC}[Kxy`)).toBe('xy');
+  });
+
+  it('ignores a trailing carriage return', () => {
+    expect(stripAnsi('done\r')).toBe('done');
+  });
+
+  it('drops non-SGR control sequences', () => {
+    expect(stripAnsi(`${ESC}[?25l${ESC}[2Jready${ESC}(B`)).toBe('ready');
+  });
+
+  it('extracts OSC 8 hyperlinks', () => {
+    const runs = parseAnsiLine(`see ${ESC}]8;;https://example.com/run/1${ESC}\\the report${ESC}]8;;${ESC}\\ now`);
+    expect(runs.map((r) => [r.text, r.href])).toEqual([
+      ['see ', null],
+      ['the report', 'https://example.com/run/1'],
+      [' now', null],
+    ]);
+  });
+
+  it('rejects non-http hyperlink targets', () => {
+    const runs = parseAnsiLine(`${ESC}]8;;javascript:alert(1)\u0007click${ESC}]8;;\u0007`);
+    expect(runs).toEqual([{ text: 'click', style: PLAIN, href: null }]);
+  });
+});
+
+describe('stripAnsi', () => {
+  it('removes styling but keeps line breaks', () => {
+    expect(stripAnsi(`${ESC}[1;32mPassed!${ESC}[0m\n${ESC}[38;5;244m12 tests${ESC}[m`)).toBe('Passed!\n12 tests');
+  });
+});
+
+describe('color helpers', () => {
+  it('maps basic codes to theme classes', () => {
+    expect(getAnsiColorClass(31)).toBe('text-error-400');
+    expect(getAnsiColorClass(97)).toBe('text-white');
+    expect(getAnsiColorClass(38)).toBeNull();
+    expect(getAnsiBackgroundClass(41)).toBe('bg-error-600');
+    expect(getAnsiBackgroundClass(107)).toBe('bg-white');
+  });
+
+  it('converts the xterm 256-color palette', () => {
+    expect(xterm256ToRgb(16)).toEqual({ r: 0, g: 0, b: 0 });
+    expect(xterm256ToRgb(196)).toEqual({ r: 255, g: 0, b: 0 });
+    expect(xterm256ToRgb(244)).toEqual({ r: 128, g: 128, b: 128 });
+  });
+});
+
+describe('renderAnsiLogMessage', () => {
+  it('uses the fallback class for unstyled text', () => {
+    const line = renderLine('plain', 'text-warning-400');
+    expect(line.querySelector('span')).toHaveClass('text-warning-400');
+    expect(line).toHaveTextContent('plain');
+  });
+
+  it('renders nothing for lines with no visible text', () => {
+    for (const message of [`50%\r${ESC}[K`, `${ESC}[0m`]) {
+      const line = renderLine(message, 'text-gray-100');
+      expect(line.querySelector('span')).toHaveClass('text-gray-100');
+      expect(line.textContent).toBe('');
+    }
+  });
+
+  it('renders bold, underline and background styles', () => {
+    const line = renderLine(`${ESC}[1;4;37;41mFAIL${ESC}[0m rest`);
+    const fail = line.querySelector('span');
+    expect(fail).toHaveTextContent('FAIL');
+    expect(fail).toHaveClass('font-bold', 'underline', 'text-gray-100', 'bg-error-600');
+  });
+
+  it('renders 256-color and truecolor values inline', () => {
+    const line = renderLine(`${ESC}[38;5;208mwarn${ESC}[48;2;0;128;255m!`);
+    const [warn, bang] = Array.from(line.querySelectorAll('span'));
+    expect(warn).toHaveStyle({ color: 'rgb(255, 135, 0)' });
+    expect(bang).toHaveStyle({ backgroundColor: 'rgb(0, 128, 255)' });
+  });
+
+  it('swaps colors for inverse video', () => {
+    const line = renderLine(`${ESC}[7m inverted ${ESC}[27m`);
+    expect(line.querySelector('span')).toHaveClass('text-gray-900', 'bg-gray-100');
+  });
+
+  it('renders hyperlinks that open in a new tab', () => {
+    const line = renderLine(`${ESC}]8;;https://example.com${ESC}\\docs${ESC}]8;;${ESC}\\`);
+    const link = line.querySelector('a');
+    expect(link).toHaveAttribute('href', 'https://example.com');
+    expect(link).toHaveAttribute('rel', 'noopener noreferrer');
+    expect(link).toHaveTextContent('docs');
+  });
+
+  it('highlights across style boundaries', () => {
+    const { container } = render(
+      <div>
+        {renderAnsiLogMessage(`ab${ESC}[31mcd${ESC}[0mef`, 'text-gray-100', [{ start: 1, end: 5, isActive: true }])}
+      </div>
+    );
+    const marks = Array.from(container.querySelectorAll('mark')).map((m) => m.textContent);
+    expect(marks).toEqual(['b', 'cd', 'e']);
+  });
+});
@@ -0,0 +1,618 @@
+// =============================================================================
+// components/log/ansi.tsx
+//
+// ANSI escape handling for build log lines. Each line is fed through a small
+// terminal emulator: SGR sequences update the current style (bold, dim,
+// italic, underline, inverse, strikethrough, 16/256/truecolor foreground and
+// background), carriage returns and erase-line sequences overwrite earlier
+// cells so progress bars collapse to their final state, and OSC 8 sequences
+// attach hyperlinks. Everything else is dropped.
+// =============================================================================
+
+import type { CSSProperties, ReactNode } from 'react';
+import type { LogHighlight } from './logSearch';
+
+const ESC = '\u001b';
+const BEL = '\u0007';
+
+// Upper bound for cursor positioning so a stray "ESC[99999C" can't allocate.
+const MAX_COLUMNS = 10_000;
+
+export type AnsiColor =
+  | { kind: 'palette'; index: number }
+  | { kind: 'rgb'; r: number; g: number; b: number };
+
+export interface AnsiStyle {
+  bold: boolean;
+  dim: boolean;
+  italic: boolean;
+  underline: boolean;
+  inverse: boolean;
+  strikethrough: boolean;
+  fg: AnsiColor | null;
+  bg: AnsiColor | null;
+}
+
+export interface AnsiRun {
+  text: string;
+  style: AnsiStyle;
+  href: string | null;
+}
+
+const DEFAULT_STYLE: AnsiStyle = {
+  bold: false,
+  dim: false,
+  italic: false,
+  underline: false,
+  inverse: false,
+  strikethrough: false,
+  fg: null,
+  bg: null,
+};
+
+// Palette entries 0-15 map to theme classes so logs follow the app palette;
+// 256-color and RGB values fall back to inline styles.
+const FOREGROUND_CLASSES = [
+  'text-gray-500',
+  'text-error-400',
+  'text-success-400',
+  'text-warning-400',
+  'text-blue-400',
+  'text-fuchsia-400',
+  'text-cyan-400',
+  'text-gray-100',
+  'text-gray-400',
+  'text-red-300',
+  'text-green-300',
+  'text-yellow-300',
+  'text-blue-300',
+  'text-fuchsia-300',
+  'text-cyan-300',
+  'text-white',
+];
+
+const BACKGROUND_CLASSES = [
+  'bg-gray-800',
+  'bg-error-600',
+  'bg-success-600',
+  'bg-warning-600',
+  'bg-blue-600',
+  'bg-fuchsia-600',
+  'bg-cyan-600',
+  'bg-gray-300',
+  'bg-gray-600',
+  'bg-red-500',
+  'bg-green-500',
+  'bg-yellow-500',
+  'bg-blue-500',
+  'bg-fuchsia-500',
+  'bg-cyan-500',
+  'bg-white',
+];
+
+// Used when inverse video swaps a default color onto the other side.
+const INVERSE_DEFAULT_FOREGROUND = 'text-gray-900';
+const INVERSE_DEFAULT_BACKGROUND = 'bg-gray-100';
+
+export function getLogColor(level?: string): string {
+  switch (level?.toLowerCase()) {
+    case 'error':
+    case 'stepfailed':
+      return 'text-error-400';
+    case 'warning':
+      return 'text-warning-400';
+    case 'success':
+      return 'text-success-400';
+    default:
+      return 'text-gray-100';
+  }
+}
+
+/**
+ * Returns the theme class for a basic SGR foreground code (30-37, 90-97).
+ */
+export function getAnsiColorClass(code: number): string | null {
+  if (code >= 30 && code <= 37) return FOREGROUND_CLASSES[code - 30];
+  if (code >= 90 && code <= 97) return FOREGROUND_CLASSES[code - 90 + 8];
+  return null;
+}
+
+/**
+ * Returns the theme class for a basic SGR background code (40-47, 100-107).
+ */
+export function getAnsiBackgroundClass(code: number): string | null {
+  if (code >= 40 && code <= 47) return BACKGROUND_CLASSES[code - 40];
+  if (code >= 100 && code <= 107) return BACKGROUND_CLASSES[code - 100 + 8];
+  return null;
+}
+
+/**
+ * Converts an xterm 256-color palette index to RGB.
+ */
+export function xterm256ToRgb(index: number): { r: number; g: number; b: number } {
+  if (index < 16) {
+    const basic = [
+      [0, 0, 0], [205, 0, 0], [0, 205, 0], [205, 205, 0],
+      [0, 0, 238], [205, 0, 205], [0, 205, 205], [229, 229, 229],
+      [127, 127, 127], [255, 0, 0], [0, 255, 0], [255, 255, 0],
+      [92, 92, 255], [255, 0, 255], [0, 255, 255], [255, 255, 255],
+    ][index];
+    return { r: basic[0], g: basic[1], b: basic[2] };
+  }
+
+  if (index < 232) {
+    const cube = index - 16;
+    const level = (value: number) => (value === 0 ? 0 : 55 + value * 40);
+    return {
+      r: level(Math.floor(cube / 36)),
+      g: level(Math.floor(cube / 6) % 6),
+      b: level(cube % 6),
+    };
+  }
+
+  const gray = 8 + (index - 232) * 10;
+  return { r: gray, g: gray, b: gray };
+}
+
+// -----------------------------------------------------------------------------
+// Parsing
+// -----------------------------------------------------------------------------
+
+/**
+ * Parses one log line into styled runs of visible text.
+ */
+export function parseAnsiLine(line: string): AnsiRun[] {
+  // Fast path: the vast majority of build output is plain text.
+  if (!line.includes(ESC) && !line.includes('\r') && !line.includes('\b')) {
+    return line.length > 0 ? [{ text: line, style: DEFAULT_STYLE, href: null }] : [];
+  }
+
+  const chars: string[] = [];
+  const styles: AnsiStyle[] = [];
+  const links: (string | null)[] = [];
+  let cursor = 0;
+  let style = DEFAULT_STYLE;
+  let href: string | null = null;
+
+  const put = (char: string) => {
+    while (chars.length < cursor) {
+      chars.push(' ');
+      styles.push(DEFAULT_STYLE);
+      links.push(null);
+    }
+    chars[cursor] = char;
+    styles[cursor] = style;
+    links[cursor] = href;
+    cursor++;
+  };
+
+  const eraseRange = (from: number, to: number) => {
+    for (let i = from; i < Math.min(to, chars.length); i++) {
+      chars[i] = ' ';
+      styles[i] = DEFAULT_STYLE;
+      links[i] = null;
+    }
+  };
+
+  let i = 0;
+  while (i < line.length) {
+    const char = line[i];
+
+    if (char === '\r') {
+      cursor = 0;
+      i++;
+      continue;
+    }
+
+    if (char === '\b') {
+      cursor = Math.max(0, cursor - 1);
+      i++;
+      continue;
+    }
+
+    if (char !== ESC) {
+      put(char);
+      i++;
+      continue;
+    }
+
+    const next = line[i + 1];
+
+    // CSI: ESC [ parameters intermediates final
+    if (next === '[') {
+      let end = i + 2;
+      while (end < line.length && !isCsiFinalByte(line.charCodeAt(end))) {
+        end++;
+      }
+      if (end >= line.length) break;
+
+      const params = line.slice(i + 2, end);
+      const final = line[end];
+      i = end + 1;
+
+      switch (final) {
+        case 'm':
+          style = applySgr(style, params);
+          break;
+        case 'K': {
+          const mode = toInt(params, 0);
+          if (mode === 0) {
+            chars.length = Math.min(chars.length, cursor);
+            styles.length = chars.length;
+            links.length = chars.length;
+          } else if (mode === 1) {
+            eraseRange(0, cursor + 1);
+          } else if (mode === 2) {
+            eraseRange(0, chars.length);
+          }
+          break;
+        }
+        case 'G':
+          cursor = Math.min(MAX_COLUMNS, Math.max(0, toInt(params, 1) - 1));
+          break;
+        case 'C':
+          cursor = Math.min(MAX_COLUMNS, cursor + Math.max(1, toInt(params, 1)));
+          break;
+        case 'D':
+          cursor = Math.max(0, cursor - Math.max(1, toInt(params, 1)));
+          break;
+        default:
+          // Cursor movement across lines, scrolling, etc. have no meaning here.
+          break;
+      }
+      continue;
+    }
+
+    // OSC: ESC ] ... terminated by BEL or ESC \
+    if (next === ']') {
+      let end = i + 2;
+      let terminatorLength = 0;
+      while (end < line.length) {
+        if (line[end] === BEL) {
+          terminatorLength = 1;
+          break;
+        }
+        if (line[end] === ESC && line[end + 1] === '\\') {
+          terminatorLength = 2;
+          break;
+        }
+        end++;
+      }
+      if (terminatorLength === 0) break;
+
+      const payload = line.slice(i + 2, end);
+      i = end + terminatorLength;
+
+      // OSC 8 ; params ; URI  - an empty URI closes the link.
+      if (payload.startsWith('8;')) {
+        const uri = payload.slice(payload.indexOf(';', 2) + 1);
+        href = sanitizeHref(uri);
+      }
+      continue;
+    }
+
+    // Charset selection (ESC ( B) and other two-byte escapes.
+    i += next === '(' || next === ')' ? 3 : 2;
+  }
+
+  return collapseCells(chars, styles, links);
+}
+
+/**
+ * Removes escape sequences and resolves carriage returns, yielding the text
+ * exactly as renderAnsiLogMessage displays it.
+ */
+export function stripAnsi(value: string): string {
+  if (!value.includes(ESC) && !value.includes('\r') && !value.includes('\b')) {
+    return value;
+  }
+
+  return value
+    .split('\n')
+    .map((line) => parseAnsiLine(line).map((run) => run.text).join(''))
+    .join('\n');
+}
+
+function isCsiFinalByte(code: number): boolean {
+  return code >= 0x40 && code <= 0x7e;
+}
+
+function sanitizeHref(uri: string): string | null {
+  if (uri.length === 0) return null;
+  return /^(https?:\/\/|mailto:)/i.test(uri) ? uri : null;
+}
+
+function collapseCells(chars: string[], styles: AnsiStyle[], links: (string | null)[]): AnsiRun[] {
+  const runs: AnsiRun[] = [];
+
+  for (let i = 0; i < chars.length; i++) {
+    const last = runs[runs.length - 1];
+    if (last && last.style === styles[i] && last.href === links[i]) {
+      last.text += chars[i];
+    } else {
+      runs.push({ text: chars[i], style: styles[i], href: links[i] });
+    }
+  }
+
+  return runs;
+}
+
+/**
+ * Applies an SGR parameter string (the part between "ESC [" and "m").
+ * Extended colors may use ";" (38;5;n) or ":" (38:5:n, 38:2::r:g:b) separators.
+ */
+export function applySgr(current: AnsiStyle, params: string): AnsiStyle {
+  const groups = params.length === 0 ? [['0']] : params.split(';').map((group) => group.split(':'));
+  let style = { ...current };
+
+  for (let i = 0; i < groups.length; i++) {
+    const [head, ...subParams] = groups[i];
+    const code = toInt(head);
+
+    if (code === 38 || code === 48) {
+      let color: AnsiColor | null;
+      if (subParams.length > 0) {
+        color = readColonColor(subParams);
+      } else {
+        const [semicolonColor, consumed] = readSemicolonColor(groups.slice(i + 1).map((group) => toInt(group[0])));
+        color = semicolonColor;
+        i += consumed;
+      }
+
+      if (color) {
+        if (code === 38) style.fg = color;
+        else style.bg = color;
+      }
+      continue;
+    }
+
+    switch (code) {
+      case 0:
+        style = { ...DEFAULT_STYLE };
+        break;
+      case 1:
+        style.bold = true;
+        break;
+      case 2:
+        style.dim = true;
+        break;
+      case 3:
+        style.italic = true;
+        break;
+      case 4:
+      case 21:
+        style.underline = true;
+        break;
+      case 7:
+        style.inverse = true;
+        break;
+      case 9:
+        style.strikethrough = true;
+        break;
+      case 22:
+        style.bold = false;
+        style.dim = false;
+        break;
+      case 23:
+        style.italic = false;
+        break;
+      case 24:
+        style.underline = false;
+        break;
+      case 27:
+        style.inverse = false;
+        break;
+      case 29:
+        style.strikethrough = false;
+        break;
+      case 39:
+        style.fg = null;
+        break;
+      case 49:
+        style.bg = null;
+        break;
+      default:
+        if (code >= 30 && code <= 37) style.fg = { kind: 'palette', index: code - 30 };
+        else if (code >= 90 && code <= 97) style.fg = { kind: 'palette', index: code - 90 + 8 };
+        else if (code >= 40 && code <= 47) style.bg = { kind: 'palette', index: code - 40 };
+        else if (code >= 100 && code <= 107) style.bg = { kind: 'palette', index: code - 100 + 8 };
+        break;
+    }
+  }
+
+  return style;
+}
+
+function toInt(value: string | undefined, fallback: number = 0): number {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+// "5;n" or "2;r;g;b" following a 38/48; returns the color and how many
+// parameters it consumed.
+function readSemicolonColor(rest: number[]): [AnsiColor | null, number] {
+  if (rest[0] === 5) {
+    return rest.length >= 2 ? [paletteColor(rest[1]), 2] : [null, rest.length];
+  }
+
+  if (rest[0] === 2) {
+    return rest.length >= 4 ? [rgbColor(rest[1], rest[2], rest[3]), 4] : [null, rest.length];
+  }
+
+  return [null, 0];
+}
+
+// "5:n", "2:r:g:b" or "2:colorspace:r:g:b" sub-parameters of a 38/48.
+function readColonColor(subParams: string[]): AnsiColor | null {
+  const mode = toInt(subParams[0]);
+
+  if (mode === 5 && subParams.length >= 2) {
+    return paletteColor(toInt(subParams[1]));
+  }
+
+  if (mode === 2) {
+    const values = subParams.slice(1);
+    const channels = values.length >= 4 ? values.slice(1) : values;
+    if (channels.length < 3) return null;
+    return rgbColor(toInt(channels[0]), toInt(channels[1]), toInt(channels[2]));
+  }
+
+  return null;
+}
+
+function paletteColor(index: number): AnsiColor | null {
+  return index >= 0 && index <= 255 ? { kind: 'palette', index } : null;
+}
+
+function rgbColor(r: number, g: number, b: number): AnsiColor {
+  return { kind: 'rgb', r: clampByte(r), g: clampByte(g), b: clampByte(b) };
+}
+
+function clampByte(value: number): number {
+  return Math.max(0, Math.min(255, value));
+}
+
+// -----------------------------------------------------------------------------
+// Rendering
+// -----------------------------------------------------------------------------
+
+interface ResolvedStyle {
+  className: string;
+  style: CSSProperties | undefined;
+}
+
+function resolveStyle(ansi: AnsiStyle, fallbackClass: string): ResolvedStyle {
+  const classes: string[] = [];
+  const css: CSSProperties = {};
+
+  const fg = ansi.inverse ? ansi.bg : ansi.fg;
+  const bg = ansi.inverse ? ansi.fg : ansi.bg;
+
+  if (fg) {
+    applyColor(fg, 'fg', classes, css);
+  } else {
+    classes.push(ansi.inverse ? INVERSE_DEFAULT_FOREGROUND : fallbackClass);
+  }
+
+  if (bg) {
+    applyColor(bg, 'bg', classes, css);
+  } else if (ansi.inverse) {
+    classes.push(INVERSE_DEFAULT_BACKGROUND);
+  }
+
+  if (ansi.bold) classes.push('font-bold');
+  if (ansi.dim) classes.push('opacity-60');
+  if (ansi.italic) classes.push('italic');
+  if (ansi.underline && ansi.strikethrough) {
+    css.textDecorationLine = 'underline line-through';
+  } else if (ansi.underline) {
+    classes.push('underline');
+  } else if (ansi.strikethrough) {
+    classes.push('line-through');
+  }
+
+  return {
+    className: classes.join(' '),
+    style: Object.keys(css).length > 0 ? css : undefined,
+  };
+}
+
+function applyColor(color: AnsiColor, target: 'fg' | 'bg', classes: string[], css: CSSProperties) {
+  if (color.kind === 'palette' && color.index < 16) {
+    classes.push(target === 'fg' ? FOREGROUND_CLASSES[color.index] : BACKGROUND_CLASSES[color.index]);
+    return;
+  }
+
+  const { r, g, b } = color.kind === 'rgb' ? color : xterm256ToRgb(color.index);
+  if (target === 'fg') {
+    css.color = `rgb(${r}, ${g}, ${b})`;
+  } else {
+    css.backgroundColor = `rgb(${r}, ${g}, ${b})`;
+  }
+}
+
+export function renderAnsiLogMessage(
+  message: string,
+  fallbackClass: string,
+  highlights: LogHighlight[] = [],
+) {
+  const runs = parseAnsiLine(message);
+  if (runs.length === 0) {
+    // Nothing visible, e.g. a bare reset or a line cleared after a carriage return.
+    return <span className={fallbackClass} />;
+  }
+
+  const segments: ReactNode[] = [];
+  // Offset into the visible text, which is what highlights refer to.
+  let offset = 0;
+
+  for (const run of runs) {
+    const resolved = resolveStyle(run.style, fallbackClass);
+    const content = renderHighlightedText(run.text, offset, highlights);
+
+    if (run.href) {
+      segments.push(
+        <a
+          key={offset}
+          href={run.href}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={`${resolved.className} underline decoration-dotted hover:decoration-solid`}
+          style={resolved.style}
+        >
+          {content}
+        </a>,
+      );
+    } else {
+      segments.push(
+        <span key={offset} className={resolved.className} style={resolved.style}>
+          {content}
+        </span>,
+      );
+    }
+
+    offset += run.text.length;
+  }
+
+  return segments;
+}
+
+// Splits one styled run at highlight boundaries, wrapping the highlighted
+// parts in <mark>. Keys are offsets into the visible text.
+function renderHighlightedText(text: string, offset: number, highlights: LogHighlight[]): ReactNode {
+  const end = offset + text.length;
+  const overlapping = highlights.filter((h) => h.start < end && h.end > offset);
+
+  if (overlapping.length === 0) {
+    return text;
+  }
+
+  const nodes: ReactNode[] = [];
+  let cursor = offset;
+
+  for (const highlight of overlapping) {
+    const start = Math.max(highlight.start, offset);
+    const stop = Math.min(highlight.end, end);
+
+    if (start > cursor) {
+      nodes.push(text.slice(cursor - offset, start - offset));
+    }
+
+    nodes.push(
+      <mark
+        key={start}
+        data-active-match={highlight.isActive || undefined}
+        className={`rounded-sm text-gray-900 ${highlight.isActive ? 'bg-warning-400' : 'bg-warning-200/70'}`}
+      >
+        {text.slice(start - offset, stop - offset)}
+      </mark>,
+    );
+    cursor = stop;
+  }
+
+  if (cursor < end) {
+    nodes.push(text.slice(cursor - offset));
+  }
+
+  return nodes;
+}
@@ -0,0 +1,65 @@
+// =============================================================================
+// components/log/logDiff.test.ts
+//
+// Tests for the line diff used by the build comparison view.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { collapseUnchanged, diffLines, diffSequences, MAX_DIFF_CELLS } from './logDiff';
+
+function render(base: string[], head: string[]) {
+  return diffLines(base, head)!.map((line) => `${{ equal: ' ', removed: '-', added: '+' }[line.op]}${line.text}`);
+}
+
+describe('diffLines', () => {
+  it('marks identical logs as unchanged', () => {
+    expect(render(['a', 'b'], ['a', 'b'])).toEqual([' a', ' b']);
+  });
+
+  it('shows a changed line as a removal followed by an addition', () => {
+    expect(render(['restore', 'Passed: 12', 'done'], ['restore', 'Failed: 1', 'done'])).toEqual([
+      ' restore',
+      '-Passed: 12',
+      '+Failed: 1',
+      ' done',
+    ]);
+  });
+
+  it('handles insertions and deletions in the middle', () => {
+    expect(render(['a', 'b', 'c', 'd'], ['a', 'x', 'c', 'd', 'e'])).toEqual([
+      ' a',
+      '-b',
+      '+x',
+      ' c',
+      ' d',
+      '+e',
+    ]);
+  });
+
+  it('keeps line indexes for both sides', () => {
+    const diff = diffLines(['a', 'b'], ['b'])!;
+    expect(diff.map((l) => [l.op, l.baseIndex, l.headIndex])).toEqual([
+      ['removed', 0, null],
+      ['equal', 1, 0],
+    ]);
+  });
+
+  it('gives up on inputs that are too large', () => {
+    const size = Math.ceil(Math.sqrt(MAX_DIFF_CELLS)) + 1;
+    const base = Array.from({ length: size }, (_, i) => `a${i}`);
+    const head = Array.from({ length: size }, (_, i) => `b${i}`);
+    expect(diffSequences(base, head)).toBeNull();
+  });
+});
+
+describe('collapseUnchanged', () => {
+  it('folds long unchanged runs outside the context window', () => {
+    const base = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+    const head = [...base];
+    head[10] = 'changed';
+
+    const hunks = collapseUnchanged(diffLines(base, head)!, 2);
+
+    expect(hunks.map((h) => (h.kind === 'collapsed' ? h.count : h.lines.length))).toEqual([8, 6, 7]);
+  });
+});
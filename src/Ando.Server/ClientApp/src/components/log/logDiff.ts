@@ -0,0 +1,133 @@
+// =============================================================================
+// components/log/logDiff.ts
+//
+// Line diff for comparing build logs. Uses a longest-common-subsequence table
+// after trimming the common prefix and suffix, which keeps typical step logs
+// (mostly identical, a few changed lines) cheap. Inputs whose remaining middle
+// would exceed MAX_DIFF_CELLS are reported as too large instead of diffed.
+// =============================================================================
+
+export type DiffOp = 'equal' | 'removed' | 'added';
+
+export interface DiffEdit {
+  op: DiffOp;
+  // Index into the base sequence (null for additions).
+  baseIndex: number | null;
+  // Index into the head sequence (null for removals).
+  headIndex: number | null;
+}
+
+export interface DiffLine extends DiffEdit {
+  text: string;
+}
+
+export type DiffHunk =
+  | { kind: 'lines'; lines: DiffLine[] }
+  | { kind: 'collapsed'; count: number };
+
+export const MAX_DIFF_CELLS = 4_000_000;
+
+export function diffSequences<T>(
+  base: T[],
+  head: T[],
+  equals: (a: T, b: T) => boolean = Object.is,
+): DiffEdit[] | null {
+  let prefix = 0;
+  while (prefix < base.length && prefix < head.length && equals(base[prefix], head[prefix])) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < base.length - prefix &&
+    suffix < head.length - prefix &&
+    equals(base[base.length - 1 - suffix], head[head.length - 1 - suffix])
+  ) {
+    suffix++;
+  }
+
+  const n = base.length - prefix - suffix;
+  const m = head.length - prefix - suffix;
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    return null;
+  }
+
+  const edits: DiffEdit[] = [];
+  for (let i = 0; i < prefix; i++) {
+    edits.push({ op: 'equal', baseIndex: i, headIndex: i });
+  }
+
+  // lcs[i * (m + 1) + j] = LCS length of base[prefix + i..] and head[prefix + j..].
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = equals(base[prefix + i], head[prefix + j])
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && equals(base[prefix + i], head[prefix + j])) {
+      edits.push({ op: 'equal', baseIndex: prefix + i, headIndex: prefix + j });
+      i++;
+      j++;
+    } else if (i < n && (j === m || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      // Prefer removals first so a changed line reads as "- old" then "+ new".
+      edits.push({ op: 'removed', baseIndex: prefix + i, headIndex: null });
+      i++;
+    } else {
+      edits.push({ op: 'added', baseIndex: null, headIndex: prefix + j });
+      j++;
+    }
+  }
+
+  for (let k = 0; k < suffix; k++) {
+    edits.push({
+      op: 'equal',
+      baseIndex: base.length - suffix + k,
+      headIndex: head.length - suffix + k,
+    });
+  }
+
+  return edits;
+}
+
+export function diffLines(base: string[], head: string[]): DiffLine[] | null {
+  const edits = diffSequences(base, head);
+  if (!edits) return null;
+
+  return edits.map((edit) => ({
+    ...edit,
+    text: edit.headIndex !== null ? head[edit.headIndex] : base[edit.baseIndex!],
+  }));
+}
+
+// Keeps `context` unchanged lines around each change and folds the rest.
+export function collapseUnchanged(lines: DiffLine[], context: number = 3): DiffHunk[] {
+  const keep = new Array<boolean>(lines.length).fill(false);
+  lines.forEach((line, index) => {
+    if (line.op === 'equal') return;
+    for (let k = Math.max(0, index - context); k <= Math.min(lines.length - 1, index + context); k++) {
+      keep[k] = true;
+    }
+  });
+
+  const hunks: DiffHunk[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    const start = index;
+    if (keep[index]) {
+      while (index < lines.length && keep[index]) index++;
+      hunks.push({ kind: 'lines', lines: lines.slice(start, index) });
+    } else {
+      while (index < lines.length && !keep[index]) index++;
+      hunks.push({ kind: 'collapsed', count: index - start });
+    }
+  }
+
+  return hunks;
+}
@@ -0,0 +1,36 @@
+// =============================================================================
+// components/log/logPermalink.test.ts
+//
+// Tests for build log line permalinks.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { extendLineRange, formatLineHash, parseLineHash } from './logPermalink';
+
+describe('parseLineHash', () => {
+  it('parses single lines and ranges', () => {
+    expect(parseLineHash('#L120')).toEqual({ start: 120, end: 120 });
+    expect(parseLineHash('#L120-L140')).toEqual({ start: 120, end: 140 });
+    expect(parseLineHash('#L140-L120')).toEqual({ start: 120, end: 140 });
+  });
+
+  it('ignores unrelated hashes', () => {
+    expect(parseLineHash('')).toBeNull();
+    expect(parseLineHash('#artifacts')).toBeNull();
+  });
+});
+
+describe('formatLineHash', () => {
+  it('round-trips with parseLineHash', () => {
+    expect(formatLineHash({ start: 7, end: 7 })).toBe('#L7');
+    expect(formatLineHash({ start: 7, end: 9 })).toBe('#L7-L9');
+  });
+});
+
+describe('extendLineRange', () => {
+  it('extends from the current start when shift-clicking', () => {
+    expect(extendLineRange({ start: 10, end: 10 }, 4, true)).toEqual({ start: 4, end: 10 });
+    expect(extendLineRange({ start: 10, end: 12 }, 20, true)).toEqual({ start: 10, end: 20 });
+    expect(extendLineRange({ start: 10, end: 12 }, 20, false)).toEqual({ start: 20, end: 20 });
+  });
+});
@@ -0,0 +1,43 @@
+// =============================================================================
+// components/log/logPermalink.ts
+//
+// URL hash format for linking to build log lines: #L120 or #L120-L140, where
+// the numbers are LogEntry.sequence values.
+// =============================================================================
+
+export interface LogLineRange {
+  start: number;
+  end: number;
+}
+
+const LINE_HASH_PATTERN = /^#?L(\d+)(?:-L?(\d+))?$/;
+
+export function parseLineHash(hash: string): LogLineRange | null {
+  const match = LINE_HASH_PATTERN.exec(hash);
+  if (!match) return null;
+
+  const first = parseInt(match[1], 10);
+  const second = match[2] ? parseInt(match[2], 10) : first;
+
+  return { start: Math.min(first, second), end: Math.max(first, second) };
+}
+
+export function formatLineHash(range: LogLineRange): string {
+  return range.start === range.end ? `#L${range.start}` : `#L${range.start}-L${range.end}`;
+}
+
+// Shift-click extends from the current selection's start, like GitHub.
+export function extendLineRange(current: LogLineRange | null, sequence: number, extend: boolean): LogLineRange {
+  if (!extend || !current) {
+    return { start: sequence, end: sequence };
+  }
+
+  return {
+    start: Math.min(current.start, sequence),
+    end: Math.max(current.start, sequence),
+  };
+}
+
+export function isInLineRange(range: LogLineRange | null, sequence: number): boolean {
+  return !!range && sequence >= range.start && sequence <= range.end;
+}
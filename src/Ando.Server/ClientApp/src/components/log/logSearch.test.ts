@@ -0,0 +1,68 @@
+// =============================================================================
+// components/log/logSearch.test.ts
+//
+// Tests for build log search and level filtering.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { compileSearchPattern, findLogMatches, matchesLevelFilter } from './logSearch';
+import type { LogEntry } from '@/types';
+
+function entry(id: number, level: string, message: string): LogEntry {
+  return { id, sequence: id, level, message, stepName: null, timestamp: '2026-01-01T12:00:00Z' };
+}
+
+describe('compileSearchPattern', () => {
+  it('escapes plain-text queries', () => {
+    const { pattern } = compileSearchPattern('a.b', { isRegex: false, caseSensitive: false });
+    expect(pattern?.test('a.b')).toBe(true);
+    expect(pattern?.test('axb')).toBe(false);
+  });
+
+  it('reports invalid regular expressions', () => {
+    const { pattern, error } = compileSearchPattern('(', { isRegex: true, caseSensitive: false });
+    expect(pattern).toBeNull();
+    expect(error).toBeTruthy();
+  });
+});
+
+describe('findLogMatches', () => {
+  const entries = [
+    entry(1, 'Output', '\u001b[31merror\u001b[0m CS1002: ; expected'),
+    entry(2, 'Error', 'Build FAILED\nerror: see above'),
+    entry(3, 'Warning', 'warning NU1603: Error-prone dependency'),
+  ];
+
+  it('matches against ANSI-stripped text per display line', () => {
+    const { pattern } = compileSearchPattern('error', { isRegex: false, caseSensitive: true });
+    const matches = findLogMatches(entries, pattern, []);
+
+    expect(matches.map((m) => [m.entryId, m.lineIndex, m.start, m.end])).toEqual([
+      [1, 0, 0, 5],
+      [2, 1, 0, 5],
+    ]);
+  });
+
+  it('supports regular expressions and case-insensitive search', () => {
+    const { pattern } = compileSearchPattern('(CS|NU)\\d{4}', { isRegex: true, caseSensitive: false });
+    expect(findLogMatches(entries, pattern, []).map((m) => m.entryId)).toEqual([1, 3]);
+  });
+
+  it('only searches lines that pass the level filter', () => {
+    const { pattern } = compileSearchPattern('error', { isRegex: false, caseSensitive: false });
+    expect(findLogMatches(entries, pattern, ['Warning']).map((m) => m.entryId)).toEqual([3]);
+  });
+
+  it('ignores zero-length regex matches', () => {
+    const { pattern } = compileSearchPattern('^', { isRegex: true, caseSensitive: false });
+    expect(findLogMatches(entries, pattern, [])).toEqual([]);
+  });
+});
+
+describe('matchesLevelFilter', () => {
+  it('treats failed steps as errors', () => {
+    expect(matchesLevelFilter(entry(1, 'StepFailed', 'x'), ['Error'])).toBe(true);
+    expect(matchesLevelFilter(entry(1, 'Output', 'x'), ['Error', 'Warning'])).toBe(false);
+    expect(matchesLevelFilter(entry(1, 'Output', 'x'), [])).toBe(true);
+  });
+});
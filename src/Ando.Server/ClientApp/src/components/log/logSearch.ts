@@ -0,0 +1,115 @@
+// =============================================================================
+// components/log/logSearch.ts
+//
+// Search and level filtering over build log entries. Matching runs against the
+// ANSI-stripped text of each display line, so offsets line up with what the
+// viewer renders.
+// =============================================================================
+
+import type { LogEntry } from '@/types';
+import { stripAnsi } from './ansi';
+import { splitLogLines } from './logSections';
+
+export type LogLevelFilter = 'Error' | 'Warning';
+
+export interface LogSearchOptions {
+  isRegex: boolean;
+  caseSensitive: boolean;
+}
+
+export interface LogMatch {
+  entryId: number;
+  sequence: number;
+  lineIndex: number;
+  start: number;
+  end: number;
+}
+
+export interface LogHighlight {
+  start: number;
+  end: number;
+  isActive: boolean;
+}
+
+// Guards against runaway result sets (e.g. searching for "e" in 50k lines).
+export const MAX_LOG_MATCHES = 10_000;
+
+export function compileSearchPattern(
+  query: string,
+  options: LogSearchOptions,
+): { pattern: RegExp | null; error: string | null } {
+  if (query.length === 0) {
+    return { pattern: null, error: null };
+  }
+
+  const source = options.isRegex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const flags = options.caseSensitive ? 'g' : 'gi';
+
+  try {
+    return { pattern: new RegExp(source, flags), error: null };
+  } catch (err) {
+    return { pattern: null, error: err instanceof Error ? err.message : 'Invalid regular expression' };
+  }
+}
+
+export function matchesLevelFilter(entry: LogEntry, levels: LogLevelFilter[]): boolean {
+  if (levels.length === 0) return true;
+
+  switch (entry.level) {
+    case 'Error':
+    case 'StepFailed':
+      return levels.includes('Error');
+    case 'Warning':
+      return levels.includes('Warning');
+    default:
+      return false;
+  }
+}
+
+export function findLogMatches(
+  entries: LogEntry[],
+  pattern: RegExp | null,
+  levels: LogLevelFilter[],
+): LogMatch[] {
+  if (!pattern) return [];
+
+  const matches: LogMatch[] = [];
+  const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+
+  for (const entry of entries) {
+    if (!matchesLevelFilter(entry, levels)) continue;
+
+    const lines = splitLogLines(stripAnsi(entry.message));
+    for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+      const line = lines[lineIndex];
+      regex.lastIndex = 0;
+
+      let match: RegExpExecArray | null;
+      while ((match = regex.exec(line)) !== null) {
+        // Zero-length matches (e.g. /^/) would otherwise loop forever.
+        if (match[0].length === 0) {
+          regex.lastIndex++;
+          continue;
+        }
+
+        matches.push({
+          entryId: entry.id,
+          sequence: entry.sequence,
+          lineIndex,
+          start: match.index,
+          end: match.index + match[0].length,
+        });
+
+        if (matches.length >= MAX_LOG_MATCHES) {
+          return matches;
+        }
+      }
+    }
+  }
+
+  return matches;
+}
+
+export function getMatchLineKey(entryId: number, lineIndex: number): string {
+  return `${entryId}:${lineIndex}`;
+}
@@ -0,0 +1,89 @@
+// =============================================================================
+// components/log/logSections.test.ts
+//
+// Tests for grouping build log entries into step sections.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { formatStepDuration, groupLogSections, isSectionExpandedByDefault } from './logSections';
+import type { LogEntry } from '@/types';
+
+let nextSequence = 1;
+
+function entry(level: string, message: string, stepName: string | null = null, second = 0): LogEntry {
+  const sequence = nextSequence++;
+  return {
+    id: sequence,
+    sequence,
+    level,
+    message,
+    stepName,
+    timestamp: new Date(Date.UTC(2026, 0, 1, 12, 0, second)).toISOString(),
+  };
+}
+
+describe('groupLogSections', () => {
+  it('assigns unnamed output to the enclosing step', () => {
+    const sections = groupLogSections([
+      entry('Info', 'Starting build: main (2 steps)'),
+      entry('StepStarted', 'restore', 'restore', 0),
+      entry('Output', 'Restored 12 packages'),
+      entry('StepCompleted', 'restore completed in 3.0s', 'restore', 3),
+      entry('StepStarted', 'test', 'test', 3),
+      entry('Output', 'Failed OrderTests'),
+      entry('StepFailed', 'test failed after 5.0s', 'test', 8),
+      entry('Info', 'Build failed: 2 steps completed, 1 failed'),
+    ]);
+
+    expect(sections.map((s) => [s.stepName, s.status, s.entries.length])).toEqual([
+      [null, null, 1],
+      ['restore', 'success', 2],
+      ['test', 'failed', 2],
+      [null, null, 1],
+    ]);
+  });
+
+  it('expands failed and running steps but not successful ones', () => {
+    const [restore, test, publish] = groupLogSections([
+      entry('StepStarted', 'restore', 'restore'),
+      entry('StepCompleted', 'restore completed in 1.0s', 'restore'),
+      entry('StepStarted', 'test', 'test'),
+      entry('StepFailed', 'test failed after 1.0s', 'test'),
+      entry('StepStarted', 'publish', 'publish'),
+      entry('Output', 'Packing...'),
+    ]);
+
+    expect(isSectionExpandedByDefault(restore)).toBe(false);
+    expect(isSectionExpandedByDefault(test)).toBe(true);
+    expect(publish.status).toBe('running');
+    expect(isSectionExpandedByDefault(publish)).toBe(true);
+  });
+
+  it('recognizes skipped steps', () => {
+    const [skipped] = groupLogSections([entry('Info', 'deploy skipped: not on main', 'deploy')]);
+
+    expect(skipped.stepName).toBe('deploy');
+    expect(skipped.status).toBe('skipped');
+    expect(isSectionExpandedByDefault(skipped)).toBe(false);
+  });
+
+  it('opens a section when the start marker was trimmed away', () => {
+    const [section] = groupLogSections([
+      entry('Warning', 'Deprecated API', 'build'),
+      entry('StepCompleted', 'build completed in 9.0s', 'build'),
+    ]);
+
+    expect(section.stepName).toBe('build');
+    expect(section.status).toBe('success');
+    expect(section.entries).toHaveLength(2);
+  });
+});
+
+describe('formatStepDuration', () => {
+  it('formats short and long durations', () => {
+    expect(formatStepDuration(450)).toBe('450ms');
+    expect(formatStepDuration(3_200)).toBe('3.2s');
+    expect(formatStepDuration(125_000)).toBe('2m 5s');
+    expect(formatStepDuration(3_900_000)).toBe('1h 5m');
+  });
+});
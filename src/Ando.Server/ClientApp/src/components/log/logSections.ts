@@ -0,0 +1,119 @@
+// =============================================================================
+// components/log/logSections.ts
+//
+// Groups a flat build log into per-step sections using the StepStarted /
+// StepCompleted / StepFailed markers emitted by ServerBuildLogger. Command
+// output inside a step carries no stepName, so membership is positional:
+// everything between a step's start and end marker belongs to that step.
+// =============================================================================
+
+import type { LogEntry } from '@/types';
+
+export type LogSectionStatus = 'running' | 'success' | 'failed' | 'skipped';
+
+export interface LogSection {
+  id: string;
+  // Null for lines logged outside of any step (setup, summary).
+  stepName: string | null;
+  status: LogSectionStatus | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  // Lines shown inside the section; the StepStarted marker is the header.
+  entries: LogEntry[];
+}
+
+// Each line of a multi-line message is rendered (and searched) as its own row.
+export function splitLogLines(message: string): string[] {
+  return message.includes('\n') ? message.split(/\r?\n/) : [message];
+}
+
+export function groupLogSections(entries: LogEntry[]): LogSection[] {
+  const sections: LogSection[] = [];
+  let open: LogSection | null = null;
+
+  const startStep = (entry: LogEntry): LogSection => {
+    const section: LogSection = {
+      id: `step-${entry.sequence}`,
+      stepName: entry.stepName,
+      status: 'running',
+      startedAt: entry.timestamp,
+      finishedAt: null,
+      entries: [],
+    };
+    sections.push(section);
+    return section;
+  };
+
+  for (const entry of entries) {
+    if (entry.level === 'StepStarted') {
+      open = startStep(entry);
+      continue;
+    }
+
+    // Skipped steps are logged as a single Info line with the step name.
+    if (entry.stepName && entry.message.startsWith(`${entry.stepName} skipped`)) {
+      const skipped = startStep(entry);
+      skipped.status = 'skipped';
+      skipped.finishedAt = entry.timestamp;
+      skipped.entries.push(entry);
+      open = null;
+      continue;
+    }
+
+    // The start marker may have been trimmed from the buffer; open the
+    // section from the first line that names a different step.
+    if (entry.stepName && open?.stepName !== entry.stepName) {
+      open = startStep(entry);
+    }
+
+    if (open) {
+      open.entries.push(entry);
+
+      if (entry.level === 'StepCompleted' || entry.level === 'StepFailed') {
+        open.status = entry.level === 'StepFailed' ? 'failed' : 'success';
+        open.finishedAt = entry.timestamp;
+        open = null;
+      }
+      continue;
+    }
+
+    const last = sections[sections.length - 1];
+    if (last && last.stepName === null) {
+      last.entries.push(entry);
+    } else {
+      sections.push({
+        id: `output-${entry.sequence}`,
+        stepName: null,
+        status: null,
+        startedAt: entry.timestamp,
+        finishedAt: null,
+        entries: [entry],
+      });
+    }
+  }
+
+  return sections;
+}
+
+// Failed and running steps start expanded, successful and skipped ones collapsed.
+export function isSectionExpandedByDefault(section: LogSection): boolean {
+  return section.status !== 'success' && section.status !== 'skipped';
+}
+
+export function getSectionDurationMs(section: LogSection): number | null {
+  if (!section.startedAt || !section.finishedAt) return null;
+  return new Date(section.finishedAt).getTime() - new Date(section.startedAt).getTime();
+}
+
+export function formatStepDuration(ms: number): string {
+  if (ms < 1000) return `${Math.max(0, Math.round(ms))}ms`;
+
+  const totalSeconds = ms / 1000;
+  if (totalSeconds < 60) return `${totalSeconds.toFixed(1)}s`;
+
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = Math.floor(totalSeconds % 60);
+  if (minutes < 60) return `${minutes}m ${seconds}s`;
+
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
@@ -0,0 +1,78 @@
+// =============================================================================
+// components/log/stepComparison.test.ts
+//
+// Tests for aligning two builds' steps by name.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { compareBuildSteps, diffStepLogs } from './stepComparison';
+import type { LogEntry } from '@/types';
+
+let nextSequence = 1;
+
+function entry(level: string, message: string, stepName: string | null = null, second = 0): LogEntry {
+  const sequence = nextSequence++;
+  return {
+    id: sequence,
+    sequence,
+    level,
+    message,
+    stepName,
+    timestamp: new Date(Date.UTC(2026, 0, 1, 12, 0, second)).toISOString(),
+  };
+}
+
+function step(name: string, start: number, end: number, output: string[], failed = false): LogEntry[] {
+  return [
+    entry('StepStarted', name, name, start),
+    ...output.map((line) => entry('Output', line)),
+    entry(failed ? 'StepFailed' : 'StepCompleted', `${name} done`, name, end),
+  ];
+}
+
+describe('compareBuildSteps', () => {
+  it('matches steps by name and reports status and duration changes', () => {
+    const base = [...step('restore', 0, 3, ['ok']), ...step('test', 3, 8, ['Passed: 12'])];
+    const head = [...step('restore', 0, 2, ['ok']), ...step('test', 2, 20, ['Failed: 1'], true)];
+
+    const steps = compareBuildSteps(base, head);
+
+    expect(steps.map((s) => [s.stepName, s.base?.status, s.head?.status, s.durationDeltaMs, s.statusChanged])).toEqual([
+      ['restore', 'success', 'success', -1000, false],
+      ['test', 'success', 'failed', 13000, true],
+    ]);
+  });
+
+  it('lines up added and removed steps', () => {
+    const base = [...step('restore', 0, 1, []), ...step('lint', 1, 2, []), ...step('test', 2, 3, [])];
+    const head = [...step('restore', 0, 1, []), ...step('test', 1, 2, []), ...step('publish', 2, 3, [])];
+
+    const steps = compareBuildSteps(base, head);
+
+    expect(steps.map((s) => [s.key, !!s.base, !!s.head])).toEqual([
+      ['restore', true, true],
+      ['lint', true, false],
+      ['test', true, true],
+      ['publish', false, true],
+    ]);
+  });
+
+  it('keys repeated steps by occurrence', () => {
+    const build = [...step('pack', 0, 1, []), ...step('pack', 1, 2, [])];
+
+    expect(compareBuildSteps(build, build).map((s) => s.key)).toEqual(['pack', 'pack#2']);
+  });
+
+  it('diffs step output with ANSI codes removed', () => {
+    const [comparison] = compareBuildSteps(
+      step('test', 0, 1, ['\u001b[32mPassed: 12\u001b[0m']),
+      step('test', 0, 1, ['\u001b[31mFailed: 1\u001b[0m'], true),
+    );
+
+    expect(diffStepLogs(comparison)!.map((l) => [l.op, l.text])).toEqual([
+      ['removed', 'Passed: 12'],
+      ['added', 'Failed: 1'],
+      ['equal', 'test done'],
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+// =============================================================================
+// components/log/stepComparison.ts
+//
+// Aligns the steps of two builds by name for the comparison view. Steps are
+// keyed by name plus occurrence (a pipeline may run the same step twice), then
+// matched in order so added, removed and reordered steps line up sensibly.
+// =============================================================================
+
+import type { LogEntry } from '@/types';
+import { stripAnsi } from './ansi';
+import { diffLines, diffSequences, type DiffLine } from './logDiff';
+import { getSectionDurationMs, groupLogSections, splitLogLines, type LogSection } from './logSections';
+
+export interface StepComparison {
+  key: string;
+  stepName: string | null;
+  base: LogSection | null;
+  head: LogSection | null;
+  baseDurationMs: number | null;
+  headDurationMs: number | null;
+  // head - base; null unless both steps finished.
+  durationDeltaMs: number | null;
+  statusChanged: boolean;
+}
+
+function keySections(sections: LogSection[]): { key: string; section: LogSection }[] {
+  const occurrences = new Map<string, number>();
+
+  return sections.map((section) => {
+    const name = section.stepName ?? '(output)';
+    const occurrence = (occurrences.get(name) ?? 0) + 1;
+    occurrences.set(name, occurrence);
+    return { key: occurrence > 1 ? `${name}#${occurrence}` : name, section };
+  });
+}
+
+export function compareBuildSteps(baseEntries: LogEntry[], headEntries: LogEntry[]): StepComparison[] {
+  const base = keySections(groupLogSections(baseEntries));
+  const head = keySections(groupLogSections(headEntries));
+  const edits = diffSequences(base, head, (a, b) => a.key === b.key) ?? [];
+
+  return edits.map((edit) => {
+    const baseStep = edit.baseIndex !== null ? base[edit.baseIndex] : null;
+    const headStep = edit.headIndex !== null ? head[edit.headIndex] : null;
+    const baseSection = baseStep?.section ?? null;
+    const headSection = headStep?.section ?? null;
+    const baseDurationMs = baseSection ? getSectionDurationMs(baseSection) : null;
+    const headDurationMs = headSection ? getSectionDurationMs(headSection) : null;
+
+    return {
+      key: (headStep ?? baseStep)!.key,
+      stepName: (headSection ?? baseSection)!.stepName,
+      base: baseSection,
+      head: headSection,
+      baseDurationMs,
+      headDurationMs,
+      durationDeltaMs: baseDurationMs !== null && headDurationMs !== null ? headDurationMs - baseDurationMs : null,
+      statusChanged: (baseSection?.status ?? null) !== (headSection?.status ?? null),
+    };
+  });
+}
+
+export function getSectionLines(section: LogSection | null): string[] {
+  if (!section) return [];
+  return section.entries.flatMap((entry) => splitLogLines(stripAnsi(entry.message)));
+}
+
+export function diffStepLogs(step: StepComparison): DiffLine[] | null {
+  return diffLines(getSectionLines(step.base), getSectionLines(step.head));
+}
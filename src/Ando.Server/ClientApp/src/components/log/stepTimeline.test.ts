@@ -0,0 +1,61 @@
+// =============================================================================
+// components/log/stepTimeline.test.ts
+//
+// Tests for laying out build steps on the timeline axis.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { layoutStepTimeline } from './stepTimeline';
+import type { LogEntry } from '@/types';
+
+let nextSequence = 1;
+
+function at(second: number): string {
+  return new Date(Date.UTC(2026, 0, 1, 12, 0, second)).toISOString();
+}
+
+function entry(level: string, message: string, stepName: string | null = null, second = 0): LogEntry {
+  const sequence = nextSequence++;
+  return { id: sequence, sequence, level, message, stepName, timestamp: at(second) };
+}
+
+describe('layoutStepTimeline', () => {
+  const entries = [
+    entry('Info', 'Starting build: main (3 steps)', null, 0),
+    entry('StepStarted', 'restore', 'restore', 0),
+    entry('StepCompleted', 'restore completed', 'restore', 5),
+    entry('StepStarted', 'test', 'test', 5),
+    entry('StepFailed', 'test failed', 'test', 15),
+  ];
+
+  it('positions finished steps relative to the build start', () => {
+    const layout = layoutStepTimeline(entries, { startedAt: at(0), finishedAt: at(20), now: 0 });
+
+    expect(layout.totalMs).toBe(20_000);
+    expect(layout.steps.map((s) => [s.stepName, s.status, s.offsetPercent, s.widthPercent])).toEqual([
+      ['restore', 'success', 0, 25],
+      ['test', 'failed', 25, 50],
+    ]);
+    expect(layout.finishedCount).toBe(2);
+    expect(layout.failedCount).toBe(1);
+    expect(layout.plannedStepCount).toBe(3);
+  });
+
+  it('extends a running step until now', () => {
+    const running = [...entries.slice(0, 4)];
+    const now = new Date(at(10)).getTime();
+
+    const layout = layoutStepTimeline(running, { startedAt: at(0), finishedAt: null, now });
+
+    expect(layout.totalMs).toBe(10_000);
+    expect(layout.steps[1]).toMatchObject({ status: 'running', durationMs: 5000, offsetPercent: 50, widthPercent: 50 });
+    expect(layout.finishedCount).toBe(1);
+  });
+
+  it('has no planned count before the workflow start line', () => {
+    const layout = layoutStepTimeline([], { startedAt: null, finishedAt: null, now: 0 });
+
+    expect(layout.steps).toEqual([]);
+    expect(layout.plannedStepCount).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+// =============================================================================
+// components/log/stepTimeline.ts
+//
+// Lays out build steps on a shared time axis for the step timeline. Positions
+// are percentages of the build's span so the chart needs no measuring; running
+// steps extend to `now`.
+// =============================================================================
+
+import { groupLogSections, type LogSectionStatus } from './logSections';
+import type { LogEntry } from '@/types';
+
+export interface TimelineStep {
+  id: string;
+  stepName: string;
+  status: LogSectionStatus;
+  startMs: number;
+  durationMs: number;
+  // Position and size on the axis, 0-100.
+  offsetPercent: number;
+  widthPercent: number;
+}
+
+export interface StepTimelineLayout {
+  steps: TimelineStep[];
+  totalMs: number;
+  finishedCount: number;
+  failedCount: number;
+  // From the "Starting build: name (N steps)" line; null until it is logged.
+  plannedStepCount: number | null;
+}
+
+const WORKFLOW_STARTED_PATTERN = /^Starting build: .* \((\d+) steps?\)$/;
+
+interface TimelineBounds {
+  startedAt: string | null;
+  finishedAt: string | null;
+  now: number;
+}
+
+export function layoutStepTimeline(entries: LogEntry[], bounds: TimelineBounds): StepTimelineLayout {
+  const sections = groupLogSections(entries).filter((section) => section.stepName !== null && section.startedAt);
+  const firstStart = sections.length > 0 ? new Date(sections[0].startedAt!).getTime() : bounds.now;
+  const origin = bounds.startedAt ? Math.min(new Date(bounds.startedAt).getTime(), firstStart) : firstStart;
+
+  const spans = sections.map((section) => {
+    const start = new Date(section.startedAt!).getTime();
+    // Running (or interrupted) steps run until the build ends or until now.
+    const end = section.finishedAt
+      ? new Date(section.finishedAt).getTime()
+      : bounds.finishedAt ? new Date(bounds.finishedAt).getTime() : bounds.now;
+    return { section, start, end: Math.max(start, end) };
+  });
+
+  const lastEnd = spans.reduce((max, span) => Math.max(max, span.end), origin);
+  const buildEnd = bounds.finishedAt ? new Date(bounds.finishedAt).getTime() : bounds.now;
+  const totalMs = Math.max(lastEnd, buildEnd) - origin;
+
+  const steps = spans.map(({ section, start, end }): TimelineStep => ({
+    id: section.id,
+    stepName: section.stepName!,
+    status: section.status ?? 'running',
+    startMs: start - origin,
+    durationMs: end - start,
+    offsetPercent: totalMs > 0 ? ((start - origin) / totalMs) * 100 : 0,
+    widthPercent: totalMs > 0 ? ((end - start) / totalMs) * 100 : 0,
+  }));
+
+  return {
+    steps,
+    totalMs,
+    finishedCount: steps.filter((step) => step.status !== 'running').length,
+    failedCount: steps.filter((step) => step.status === 'failed').length,
+    plannedStepCount: findPlannedStepCount(entries),
+  };
+}
+
+function findPlannedStepCount(entries: LogEntry[]): number | null {
+  for (const entry of entries) {
+    if (entry.level !== 'Info') continue;
+    const match = WORKFLOW_STARTED_PATTERN.exec(entry.message);
+    if (match) return parseInt(match[1], 10);
+  }
+  return null;
+}
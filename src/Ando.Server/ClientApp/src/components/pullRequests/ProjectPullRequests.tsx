@@ -0,0 +1,224 @@
+// =============================================================================
+// components/pullRequests/ProjectPullRequests.tsx
+//
+// Pull requests tab for ProjectDetails: open pull requests with their title,
+// author, head commit and latest build, and an expandable build history per
+// pull request. Builds of commits the pull request has moved past are marked
+// superseded.
+// =============================================================================
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { getProjectPullRequests } from '@/api/projects';
+import { Loading } from '@/components/ui/Loading';
+import { Alert } from '@/components/ui/Alert';
+import { Badge, getBuildStatusVariant } from '@/components/ui/Badge';
+import type { PullRequestBuildDto, PullRequestDto } from '@/types';
+import { countSuperseded, getHeadBuildState } from './pullRequests';
+
+interface ProjectPullRequestsProps {
+  projectId: number;
+  enablePrBuilds: boolean;
+}
+
+export function ProjectPullRequests({ projectId, enablePrBuilds }: ProjectPullRequestsProps) {
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['projectPullRequests', projectId],
+    queryFn: () => getProjectPullRequests(projectId),
+  });
+
+  const toggle = (number: number) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(number)) next.delete(number);
+      else next.add(number);
+      return next;
+    });
+  };
+
+  if (isLoading) {
+    return <Loading size="lg" className="py-12" text="Loading pull requests..." />;
+  }
+
+  if (error || !data) {
+    return <Alert variant="error">Failed to load pull requests</Alert>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {!enablePrBuilds && (
+        <Alert variant="info">
+          Pull request builds are disabled for this project.{' '}
+          <Link to={`/projects/${projectId}/settings`} className="underline">
+            Enable them in settings
+          </Link>
+        </Alert>
+      )}
+      {!data.isLive && (
+        <Alert variant="warning">
+          Could not load open pull requests from GitHub. Showing pull requests from recent builds instead.
+        </Alert>
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-xl overflow-hidden dark:bg-slate-900 dark:border-slate-800">
+        {data.pullRequests.length === 0 ? (
+          <div className="px-5 py-10 text-center text-gray-400 dark:text-slate-500 text-sm">
+            {data.isLive ? 'No open pull requests.' : 'No pull request builds yet.'}
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-100 dark:divide-slate-800/50">
+            {data.pullRequests.map((pr) => (
+              <PullRequestRow
+                key={pr.number}
+                pr={pr}
+                isExpanded={expanded.has(pr.number)}
+                onToggle={() => toggle(pr.number)}
+              />
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function PullRequestRow({
+  pr,
+  isExpanded,
+  onToggle,
+}: {
+  pr: PullRequestDto;
+  isExpanded: boolean;
+  onToggle: () => void;
+}) {
+  const latest = pr.builds[0]?.build;
+  const headState = getHeadBuildState(pr);
+  const superseded = countSuperseded(pr);
+
+  return (
+    <li data-pull-request={pr.number}>
+      <div className="flex flex-wrap items-center gap-4 px-5 py-3.5">
+        <div className="flex-1 min-w-[14rem]">
+          <div className="flex items-center gap-2">
+            <a
+              href={pr.htmlUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm font-semibold text-gray-900 hover:text-primary-600 dark:text-slate-100 dark:hover:text-primary-400 truncate"
+            >
+              #{pr.number} {pr.title ?? 'Pull request'}
+            </a>
+            {pr.isDraft && <Badge variant="default">draft</Badge>}
+          </div>
+          <p className="text-xs text-gray-400 dark:text-slate-500 mt-0.5">
+            {pr.author ?? 'Unknown author'}
+            {pr.headBranch && (
+              <span className="font-mono">
+                {' · '}
+                {pr.headBranch}
+                {pr.baseBranch && ` → ${pr.baseBranch}`}
+              </span>
+            )}
+            {pr.headSha && (
+              <span className="font-mono" title={pr.headSha}>
+                {' · '}
+                {pr.headSha.slice(0, 8)}
+              </span>
+            )}
+            {pr.updatedAt && <span> · updated {formatDate(pr.updatedAt)}</span>}
+          </p>
+        </div>
+
+        {headState === 'not-built' && (
+          <span className="text-xs text-warning-600 dark:text-warning-400" title="The head commit has no build yet">
+            Head not built
+          </span>
+        )}
+
+        {latest ? (
+          <Link to={`/builds/${latest.id}`} title={`Build #${latest.id}`}>
+            <Badge variant={getBuildStatusVariant(latest.status)}>{latest.status}</Badge>
+          </Link>
+        ) : (
+          <span className="text-xs text-gray-400 dark:text-slate-500">No builds</span>
+        )}
+
+        {pr.totalBuilds > 0 && (
+          <button
+            type="button"
+            onClick={onToggle}
+            aria-expanded={isExpanded}
+            className="text-xs font-medium text-primary-600 hover:text-primary-500 dark:text-primary-400 dark:hover:text-primary-300"
+          >
+            {isExpanded ? 'Hide builds' : `${pr.totalBuilds} ${pr.totalBuilds === 1 ? 'build' : 'builds'}`}
+            {!isExpanded && superseded > 0 && ` (${superseded} superseded)`}
+          </button>
+        )}
+      </div>
+
+      {isExpanded && (
+        <ol className="px-5 pb-3.5 space-y-1" aria-label={`Builds of pull request #${pr.number}`}>
+          {pr.builds.map((entry) => (
+            <PullRequestBuildRow key={entry.build.id} entry={entry} />
+          ))}
+          {pr.totalBuilds > pr.builds.length && (
+            <li className="text-xs text-gray-400 dark:text-slate-500 pl-3">
+              {pr.totalBuilds - pr.builds.length} older builds not shown
+            </li>
+          )}
+        </ol>
+      )}
+    </li>
+  );
+}
+
+function PullRequestBuildRow({ entry }: { entry: PullRequestBuildDto }) {
+  const { build, isSuperseded } = entry;
+
+  return (
+    <li>
+      <Link
+        to={`/builds/${build.id}`}
+        className={`flex items-center gap-3 rounded-lg px-3 py-2 text-sm hover:bg-gray-50 dark:hover:bg-slate-800/50 ${
+          isSuperseded ? 'opacity-60' : ''
+        }`}
+      >
+        <span className={`font-medium text-gray-900 dark:text-slate-100 ${isSuperseded ? 'line-through' : ''}`}>
+          Build #{build.id}
+        </span>
+        <span className="font-mono text-xs text-gray-400 dark:text-slate-500">{build.shortCommitSha}</span>
+        {isSuperseded && (
+          <span className="text-xs text-gray-400 dark:text-slate-500" title="A newer commit was pushed to this pull request">
+            superseded
+          </span>
+        )}
+        <span className="flex-1" />
+        <Badge variant={getBuildStatusVariant(build.status)} size="sm">{build.status}</Badge>
+        <span className="text-xs text-gray-400 dark:text-slate-500 min-w-[60px] text-right">
+          {formatDate(build.queuedAt)}
+        </span>
+      </Link>
+    </li>
+  );
+}
+
+function formatDate(dateStr: string): string {
+  const date = new Date(dateStr);
+  const now = new Date();
+  const diffMs = now.getTime() - date.getTime();
+  const diffMins = Math.floor(diffMs / 60000);
+
+  if (diffMins < 1) return 'just now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+
+  const diffHours = Math.floor(diffMins / 60);
+  if (diffHours < 24) return `${diffHours}h ago`;
+
+  const diffDays = Math.floor(diffHours / 24);
+  if (diffDays < 7) return `${diffDays}d ago`;
+
+  return date.toLocaleDateString();
+}
@@ -0,0 +1,69 @@
+// =============================================================================
+// components/pullRequests/pullRequests.test.ts
+//
+// Tests for pull request tab helpers.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { countSuperseded, getHeadBuildState } from './pullRequests';
+import type { PullRequestBuildDto, PullRequestDto } from '@/types';
+
+const SHA_A = 'a'.repeat(40);
+const SHA_B = 'b'.repeat(40);
+
+function entry(id: number, commitSha: string, isSuperseded: boolean): PullRequestBuildDto {
+  return {
+    build: {
+      id,
+      commitSha,
+      shortCommitSha: commitSha.slice(0, 8),
+      gitVersionTag: null,
+      branch: 'feature/x',
+      commitMessage: null,
+      commitAuthor: null,
+      status: 'Success',
+      trigger: 'PullRequest',
+      queuedAt: '2026-01-01T12:00:00Z',
+      startedAt: null,
+      finishedAt: null,
+      duration: null,
+      pullRequestNumber: 7,
+    },
+    isSuperseded,
+  };
+}
+
+function pullRequest(headSha: string | null, builds: PullRequestBuildDto[]): PullRequestDto {
+  return {
+    number: 7,
+    title: 'Add feature',
+    author: 'octocat',
+    headSha,
+    headBranch: 'feature/x',
+    baseBranch: 'main',
+    htmlUrl: 'https://github.com/owner/repo/pull/7',
+    isDraft: false,
+    updatedAt: null,
+    totalBuilds: builds.length,
+    builds,
+  };
+}
+
+describe('getHeadBuildState', () => {
+  it('is unknown without a head SHA', () => {
+    expect(getHeadBuildState(pullRequest(null, [entry(1, SHA_A, false)]))).toBe('unknown');
+  });
+
+  it('reports whether the head commit has a build', () => {
+    expect(getHeadBuildState(pullRequest(SHA_A, [entry(1, SHA_A, false)]))).toBe('built');
+    expect(getHeadBuildState(pullRequest(SHA_B.toUpperCase(), [entry(1, SHA_B, false)]))).toBe('built');
+    expect(getHeadBuildState(pullRequest(SHA_B, [entry(1, SHA_A, true)]))).toBe('not-built');
+    expect(getHeadBuildState(pullRequest(SHA_B, []))).toBe('not-built');
+  });
+});
+
+describe('countSuperseded', () => {
+  it('counts superseded builds', () => {
+    expect(countSuperseded(pullRequest(SHA_B, [entry(2, SHA_B, false), entry(1, SHA_A, true)]))).toBe(1);
+  });
+});
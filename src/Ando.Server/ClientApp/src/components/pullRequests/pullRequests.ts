@@ -0,0 +1,21 @@
+// =============================================================================
+// components/pullRequests/pullRequests.ts
+//
+// Helpers for the project pull requests tab.
+// =============================================================================
+
+import type { PullRequestDto } from '@/types';
+
+export type HeadBuildState = 'built' | 'not-built' | 'unknown';
+
+// Whether the pull request's current head commit has a build yet.
+export function getHeadBuildState(pr: PullRequestDto): HeadBuildState {
+  if (!pr.headSha) return 'unknown';
+  return pr.builds.some((entry) => entry.build.commitSha.toLowerCase() === pr.headSha!.toLowerCase())
+    ? 'built'
+    : 'not-built';
+}
+
+export function countSuperseded(pr: PullRequestDto): number {
+  return pr.builds.filter((entry) => entry.isSuperseded).length;
+}
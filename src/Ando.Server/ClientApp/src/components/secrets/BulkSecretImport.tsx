@@ -0,0 +1,229 @@
+// =============================================================================
+// components/secrets/BulkSecretImport.tsx
+//
+// Bulk import for ProjectSettings. Pasted or dropped .env content is parsed
+// in the browser and previewed per key as new, overwrite or unchanged before
+// anything is stored; only the ticked keys are imported.
+// =============================================================================
+
+import { useState, type DragEvent } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { bulkImportSecrets, previewBulkSecrets } from '@/api/projects';
+import { Alert } from '@/components/ui/Alert';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import type { BulkImportSecretsResponse, SecretDto } from '@/types';
+import { getBulkSecretStatus, parseDotenv, type BulkSecretStatus, type ParsedDotenv } from './dotenv';
+
+interface BulkSecretImportProps {
+  projectId: number;
+  allSecrets: SecretDto[];
+  // Called after an import so the page can reload its settings and report
+  // the counts and any rejected keys.
+  onImported: (result: BulkImportSecretsResponse) => void;
+}
+
+const statusBadges: Record<BulkSecretStatus, { label: string; variant: 'info' | 'warning' | 'default' }> = {
+  new: { label: 'New', variant: 'info' },
+  overwrite: { label: 'Overwrite', variant: 'warning' },
+  unchanged: { label: 'Unchanged', variant: 'default' },
+};
+
+export function BulkSecretImport({ projectId, allSecrets, onImported }: BulkSecretImportProps) {
+  const [content, setContent] = useState('');
+  const [parsed, setParsed] = useState<ParsedDotenv | null>(null);
+  const [unchangedNames, setUnchangedNames] = useState<ReadonlySet<string>>(new Set());
+  const [selected, setSelected] = useState<ReadonlySet<string>>(new Set());
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState('');
+
+  const previewMutation = useMutation({
+    mutationFn: (preview: ParsedDotenv) => previewBulkSecrets(projectId, preview.entries),
+    onSuccess: (result, preview) => showPreview(preview, new Set(result.unchangedNames)),
+    onError: (_, preview) => {
+      // Without the comparison every existing key is shown as an overwrite.
+      setError('Could not compare with the stored values');
+      showPreview(preview, new Set());
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () =>
+      bulkImportSecrets(
+        projectId,
+        (parsed?.entries ?? []).filter((entry) => selected.has(entry.name))
+      ),
+    onSuccess: (result) => {
+      setContent('');
+      setParsed(null);
+      onImported(result);
+    },
+    onError: () => setError('Failed to import secrets'),
+  });
+
+  function showPreview(preview: ParsedDotenv, unchanged: ReadonlySet<string>) {
+    setParsed(preview);
+    setUnchangedNames(unchanged);
+    // Unchanged keys would be a no-op, so they start unticked.
+    setSelected(new Set(preview.entries.filter((entry) => !unchanged.has(entry.name)).map((entry) => entry.name)));
+  }
+
+  function preview(text: string) {
+    setError('');
+    const result = parseDotenv(text);
+    if (result.entries.length === 0) {
+      showPreview(result, new Set());
+      return;
+    }
+    previewMutation.mutate(result);
+  }
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return;
+    const text = await file.text();
+    setContent(text);
+    preview(text);
+  }
+
+  function handleDrop(e: DragEvent<HTMLTextAreaElement>) {
+    e.preventDefault();
+    setIsDragging(false);
+    void handleFile(e.dataTransfer.files[0]);
+  }
+
+  function toggle(name: string) {
+    const next = new Set(selected);
+    if (next.has(name)) {
+      next.delete(name);
+    } else {
+      next.add(name);
+    }
+    setSelected(next);
+  }
+
+  return (
+    <div className="mt-6 pt-6 border-t border-gray-200 dark:border-slate-800">
+      <h3 className="text-sm font-medium text-gray-900 mb-2 dark:text-slate-100">Bulk Import</h3>
+      <p className="text-sm text-gray-500 mb-4 dark:text-slate-400">
+        Paste environment variables in KEY=value format or drop a .env file. Quoted values may span several lines.
+      </p>
+
+      {error && (
+        <div className="mb-4">
+          <Alert variant="error" onClose={() => setError('')}>{error}</Alert>
+        </div>
+      )}
+
+      <textarea
+        className={`w-full h-32 px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 font-mono text-sm dark:bg-slate-800 dark:text-slate-100 dark:placeholder-slate-400 ${
+          isDragging ? 'border-primary-500 dark:border-primary-400' : 'border-gray-300 dark:border-slate-600'
+        }`}
+        placeholder="SECRET_KEY=value&#10;ANOTHER_SECRET=another_value"
+        aria-label="Secrets in .env format"
+        value={content}
+        onChange={(e) => {
+          setContent(e.target.value);
+          // An edited paste needs a fresh preview.
+          setParsed(null);
+        }}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      />
+
+      <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+        <label className="text-sm text-primary-600 hover:underline cursor-pointer dark:text-primary-400">
+          Choose .env file
+          <input
+            type="file"
+            accept=".env,text/plain"
+            className="sr-only"
+            onChange={(e) => {
+              void handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <Button
+          variant="secondary"
+          onClick={() => preview(content)}
+          disabled={!content.trim()}
+          isLoading={previewMutation.isPending}
+        >
+          Preview
+        </Button>
+      </div>
+
+      {parsed && (
+        <div className="mt-4 space-y-4">
+          {(parsed.errors.length > 0 || parsed.warnings.length > 0) && (
+            <ul className="space-y-1 text-sm" aria-label="Import problems">
+              {parsed.errors.map((issue) => (
+                <li key={`error-${issue.line}`} className="text-error-600 dark:text-error-400">
+                  Line {issue.line}: {issue.message} (skipped)
+                </li>
+              ))}
+              {parsed.warnings.map((issue) => (
+                <li key={`warning-${issue.line}`} className="text-warning-600 dark:text-warning-500">
+                  Line {issue.line}: {issue.message}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {parsed.entries.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-slate-400">No secrets found to import.</p>
+          ) : (
+            <>
+              <table className="min-w-full text-sm" aria-label="Secrets to import">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-400 dark:text-slate-500 uppercase tracking-wider">
+                    <th className="py-2 pr-3 w-8"><span className="sr-only">Import</span></th>
+                    <th className="py-2 pr-3">Key</th>
+                    <th className="py-2 pr-3">Status</th>
+                    <th className="py-2 text-right">Line</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100 dark:divide-slate-800/50">
+                  {parsed.entries.map((entry) => {
+                    const badge = statusBadges[getBulkSecretStatus(entry.name, allSecrets, unchangedNames)];
+                    return (
+                      <tr key={entry.name}>
+                        <td className="py-2 pr-3">
+                          <input
+                            type="checkbox"
+                            checked={selected.has(entry.name)}
+                            onChange={() => toggle(entry.name)}
+                            aria-label={`Import ${entry.name}`}
+                            className="rounded border-gray-300 text-primary-600 dark:border-slate-600 dark:bg-slate-800"
+                          />
+                        </td>
+                        <td className="py-2 pr-3 font-mono text-gray-900 dark:text-slate-100">{entry.name}</td>
+                        <td className="py-2 pr-3">
+                          <Badge variant={badge.variant} size="sm">{badge.label}</Badge>
+                        </td>
+                        <td className="py-2 text-right tabular-nums text-gray-500 dark:text-slate-400">{entry.line}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+              <div className="flex justify-end">
+                <Button
+                  onClick={() => importMutation.mutate()}
+                  disabled={selected.size === 0}
+                  isLoading={importMutation.isPending}
+                >
+                  Import {selected.size} {selected.size === 1 ? 'Secret' : 'Secrets'}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+// =============================================================================
+// components/secrets/LinkedSharedSecrets.tsx
+//
+// Shared secrets card for ProjectSettings: the user's shared secrets this
+// project inherits, whether the project overrides each one with its own
+// value, and a picker to link more. Values are never shown.
+// =============================================================================
+
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { linkSharedSecret, unlinkSharedSecret } from '@/api/projects';
+import { getSharedSecrets } from '@/api/sharedSecrets';
+import { Alert } from '@/components/ui/Alert';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import type { LinkedSharedSecretDto } from '@/types';
+import { describeOverride } from './sharedSecrets';
+
+interface LinkedSharedSecretsProps {
+  projectId: number;
+  linked: LinkedSharedSecretDto[];
+  // Called after a link or unlink so the page can reload its settings.
+  onChanged: () => void;
+}
+
+export function LinkedSharedSecrets({ projectId, linked, onChanged }: LinkedSharedSecretsProps) {
+  const [selected, setSelected] = useState('');
+  const [error, setError] = useState('');
+
+  const { data } = useQuery({
+    queryKey: ['shared-secrets'],
+    queryFn: getSharedSecrets,
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: (sharedSecretId: number) => linkSharedSecret(projectId, sharedSecretId),
+    onSuccess: (result) => {
+      if (!result.success) {
+        setError(result.error || 'Failed to link shared secret');
+        return;
+      }
+      setError('');
+      setSelected('');
+      onChanged();
+    },
+    onError: () => setError('Failed to link shared secret'),
+  });
+
+  const unlinkMutation = useMutation({
+    mutationFn: (sharedSecretId: number) => unlinkSharedSecret(projectId, sharedSecretId),
+    onSuccess: () => {
+      setError('');
+      onChanged();
+    },
+    onError: () => setError('Failed to unlink shared secret'),
+  });
+
+  const linkedIds = new Set(linked.map((secret) => secret.id));
+  const available = (data?.sharedSecrets ?? []).filter((secret) => !linkedIds.has(secret.id));
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl dark:bg-slate-900 dark:border-slate-800">
+      <div className="px-5 py-4 border-b border-gray-100 flex justify-between items-center gap-4 dark:border-slate-800">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900 dark:text-slate-100">Shared Secrets</h2>
+          <p className="text-sm text-gray-500 dark:text-slate-400">
+            Inherited from your shared secrets. A project secret of the same name overrides the shared value.
+          </p>
+        </div>
+        <Link to="/settings/shared-secrets" className="text-sm text-primary-600 hover:underline shrink-0 dark:text-primary-400">
+          Manage shared secrets
+        </Link>
+      </div>
+
+      {error && (
+        <div className="px-5 pt-4">
+          <Alert variant="error">{error}</Alert>
+        </div>
+      )}
+
+      {linked.length === 0 ? (
+        <div className="px-4 py-6 text-center text-sm text-gray-500 dark:text-slate-400">
+          This project does not inherit any shared secrets.
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-slate-800/50" aria-label="Inherited shared secrets">
+          {linked.map((secret) => {
+            const override = describeOverride(secret.overriddenScopes);
+            return (
+              <li key={secret.id} className="px-5 py-3 flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-mono text-gray-900 dark:text-slate-100">{secret.name}</span>
+                    <Badge variant={override ? 'default' : 'info'} size="sm">{override ?? 'Inherited'}</Badge>
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-slate-400">
+                    Shared version {secret.version} · Last updated: {new Date(secret.updatedAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    if (confirm(`Stop inheriting shared secret "${secret.name}"?`)) {
+                      unlinkMutation.mutate(secret.id);
+                    }
+                  }}
+                >
+                  Unlink
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {available.length > 0 && (
+        <form
+          className="px-5 py-3 flex flex-wrap items-center gap-3 border-t border-gray-100 dark:border-slate-800"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (selected) linkMutation.mutate(Number(selected));
+          }}
+        >
+          <select
+            value={selected}
+            onChange={(e) => setSelected(e.target.value)}
+            aria-label="Shared secret to link"
+            className="rounded-md border border-gray-200 bg-white px-2 py-1 text-sm dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+          >
+            <option value="">Choose a shared secret</option>
+            {available.map((secret) => (
+              <option key={secret.id} value={secret.id}>{secret.name}</option>
+            ))}
+          </select>
+          <Button type="submit" size="sm" variant="secondary" disabled={!selected} isLoading={linkMutation.isPending}>
+            Link
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+// =============================================================================
+// components/secrets/SecretAuditLog.tsx
+//
+// Secret audit log for ProjectSettings: who created, changed or deleted each
+// secret and when, rotation deadline changes, and the first build that ran
+// with each new value. Values are never shown; the server does not return them.
+// =============================================================================
+
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { getSecretHistory } from '@/api/projects';
+import { Loading } from '@/components/ui/Loading';
+import { Alert } from '@/components/ui/Alert';
+import { Badge } from '@/components/ui/Badge';
+import { describeSecretEvent, isValueEvent } from './secretHistory';
+import { formatScope } from './secretScopes';
+
+interface SecretAuditLogProps {
+  projectId: number;
+  // Names offered in the filter; deleted secrets still appear in "All secrets".
+  secretNames: string[];
+  secretName: string;
+  onSecretNameChange: (name: string) => void;
+}
+
+export function SecretAuditLog({ projectId, secretNames, secretName, onSecretNameChange }: SecretAuditLogProps) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['secret-history', projectId, secretName],
+    queryFn: () => getSecretHistory(projectId, secretName || undefined),
+  });
+
+  const options = secretName && !secretNames.includes(secretName) ? [...secretNames, secretName] : secretNames;
+
+  return (
+    <div id="secret-audit-log" className="bg-white border border-gray-200 rounded-xl dark:bg-slate-900 dark:border-slate-800">
+      <div className="px-5 py-4 border-b border-gray-100 flex justify-between items-center gap-4 dark:border-slate-800">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-slate-100">Secret Audit Log</h2>
+        <select
+          value={secretName}
+          onChange={(e) => onSecretNameChange(e.target.value)}
+          aria-label="Filter audit log by secret"
+          className="rounded-md border border-gray-200 bg-white px-2 py-1 text-sm dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100"
+        >
+          <option value="">All secrets</option>
+          {options.map((name) => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+      </div>
+
+      {isLoading ? (
+        <Loading className="py-8" text="Loading audit log..." />
+      ) : error || !data ? (
+        <div className="p-4">
+          <Alert variant="error">Failed to load the secret audit log</Alert>
+        </div>
+      ) : data.events.length === 0 ? (
+        <div className="px-4 py-8 text-center text-gray-500 dark:text-slate-400">
+          No secret changes recorded yet.
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-slate-800/50" aria-label="Secret changes">
+          {data.events.map((event) => (
+            <li key={event.id} className="px-5 py-3 flex flex-wrap items-baseline gap-x-4 gap-y-1">
+              <span className="text-sm font-mono text-gray-900 dark:text-slate-100">{event.secretName}</span>
+              {event.scope && <Badge size="sm">{formatScope(event.scope)}</Badge>}
+              <span className="text-sm text-gray-700 dark:text-slate-300">{describeSecretEvent(event)}</span>
+              <span className="text-xs text-gray-500 dark:text-slate-400">by {event.actorName ?? 'unknown'}</span>
+              {isValueEvent(event) && (
+                <span className="text-xs text-gray-500 dark:text-slate-400">
+                  {event.firstUsedByBuildId ? (
+                    <>
+                      First used in{' '}
+                      <Link to={`/builds/${event.firstUsedByBuildId}`} className="text-primary-600 hover:underline dark:text-primary-400">
+                        build #{event.firstUsedByBuildId}
+                      </Link>
+                    </>
+                  ) : (
+                    'Not used by a build yet'
+                  )}
+                </span>
+              )}
+              <span className="ml-auto text-xs text-gray-400 dark:text-slate-500">
+                {new Date(event.occurredAt).toLocaleString()}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+// =============================================================================
+// components/secrets/SecretResolutionPreview.tsx
+//
+// "Which value does this build get?" card for ProjectSettings. Pick a profile
+// and branch to see, per secret, whether the build gets a profile-scoped,
+// branch-scoped or unscoped value, the value of a linked shared secret, or
+// none at all.
+// =============================================================================
+
+import { useState } from 'react';
+import type { LinkedSharedSecretDto, SecretDto } from '@/types';
+import { formatScope, resolveSecrets } from './secretScopes';
+
+interface SecretResolutionPreviewProps {
+  secrets: SecretDto[];
+  sharedSecrets: LinkedSharedSecretDto[];
+  // Required secrets are listed even when no value exists.
+  requiredNames: string[];
+  availableProfiles: string[];
+  defaultProfile: string | null;
+}
+
+const fieldClass =
+  'rounded-md border border-gray-200 bg-white px-2 py-1 text-sm dark:border-slate-700 dark:bg-slate-900 dark:text-slate-100';
+
+export function SecretResolutionPreview({
+  secrets,
+  sharedSecrets,
+  requiredNames,
+  availableProfiles,
+  defaultProfile,
+}: SecretResolutionPreviewProps) {
+  const [profile, setProfile] = useState(defaultProfile ?? '');
+  const [branch, setBranch] = useState('');
+
+  const resolved = resolveSecrets(secrets, profile, branch.trim());
+  const names = [
+    ...new Set([...requiredNames, ...secrets.map((s) => s.name), ...sharedSecrets.map((s) => s.name)]),
+  ].sort();
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl dark:bg-slate-900 dark:border-slate-800">
+      <div className="px-5 py-4 border-b border-gray-100 dark:border-slate-800">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-slate-100">Secret Resolution</h2>
+        <p className="text-sm text-gray-500 dark:text-slate-400">
+          A build gets the value for its profile, then for the most specific matching branch pattern, then the
+          unscoped value, then a linked shared secret.
+        </p>
+      </div>
+      <div className="px-5 py-3 flex flex-wrap items-center gap-3 border-b border-gray-100 dark:border-slate-800">
+        <select
+          value={profile}
+          onChange={(e) => setProfile(e.target.value)}
+          aria-label="Build profile"
+          className={fieldClass}
+        >
+          <option value="">No profile</option>
+          {availableProfiles.map((name) => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={branch}
+          onChange={(e) => setBranch(e.target.value)}
+          placeholder="Branch, e.g. main"
+          aria-label="Build branch"
+          className={`${fieldClass} flex-1 min-w-[10rem]`}
+        />
+      </div>
+      {names.length === 0 ? (
+        <div className="px-4 py-6 text-center text-sm text-gray-500 dark:text-slate-400">No secrets to resolve.</div>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-slate-800/50" aria-label="Resolved secrets">
+          {names.map((name) => {
+            const secret = resolved.get(name);
+            const shared = sharedSecrets.find((s) => s.name === name);
+            return (
+              <li key={name} className="px-5 py-2.5 flex items-center justify-between gap-4">
+                <span className="text-sm font-mono text-gray-900 dark:text-slate-100">{name}</span>
+                {secret ? (
+                  <span className="text-sm text-gray-600 dark:text-slate-300">
+                    {secret.scope ? formatScope(secret.scope) : 'Unscoped'} value (version {secret.version})
+                  </span>
+                ) : shared ? (
+                  <span className="text-sm text-gray-600 dark:text-slate-300">
+                    Shared value (version {shared.version})
+                  </span>
+                ) : (
+                  <span className="text-sm text-error-600 dark:text-error-400">Not set for this build</span>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
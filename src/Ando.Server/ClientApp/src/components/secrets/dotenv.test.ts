@@ -0,0 +1,93 @@
+// =============================================================================
+// components/secrets/dotenv.test.ts
+//
+// Tests for .env parsing and bulk import status.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { getBulkSecretStatus, parseDotenv } from './dotenv';
+import type { SecretDto } from '@/types';
+
+function secret(name: string, scope = ''): SecretDto {
+  return {
+    name,
+    scope,
+    createdAt: '2026-10-01T00:00:00Z',
+    updatedAt: '2026-10-01T00:00:00Z',
+    version: 1,
+    updatedBy: null,
+    firstUsedByBuildId: null,
+    rotateBy: null,
+  };
+}
+
+describe('parseDotenv', () => {
+  it('skips comments and blank lines and strips export prefixes', () => {
+    const result = parseDotenv('# comment\n\nexport API_KEY=abc\n  DB_HOST = localhost  \n');
+    expect(result.entries).toEqual([
+      { name: 'API_KEY', value: 'abc', line: 3 },
+      { name: 'DB_HOST', value: 'localhost', line: 4 },
+    ]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('normalizes names like the server', () => {
+    expect(parseDotenv('my-token=x').entries[0].name).toBe('MY_TOKEN');
+  });
+
+  it('removes inline comments from unquoted values only', () => {
+    const result = parseDotenv('A=one # note\nB="two # kept"\nC=three#four');
+    expect(result.entries.map((e) => e.value)).toEqual(['one', 'two # kept', 'three#four']);
+  });
+
+  it('unescapes double-quoted values and keeps single-quoted ones literal', () => {
+    const result = parseDotenv('A="line\\nnext \\"quoted\\""\nB=\'raw\\n\'');
+    expect(result.entries.map((e) => e.value)).toEqual(['line\nnext "quoted"', 'raw\\n']);
+  });
+
+  it('reads quoted values over several lines', () => {
+    const result = parseDotenv('KEY="-----BEGIN-----\nabc\n-----END-----"\nNEXT=1');
+    expect(result.entries).toEqual([
+      { name: 'KEY', value: '-----BEGIN-----\nabc\n-----END-----', line: 1 },
+      { name: 'NEXT', value: '1', line: 4 },
+    ]);
+  });
+
+  it('reports invalid lines, names, empty and unterminated values', () => {
+    const result = parseDotenv('no equals\n1BAD=x\nEMPTY=\nOPEN="never closed\nmore');
+    expect(result.entries).toEqual([]);
+    expect(result.errors.map((e) => e.line)).toEqual([1, 2, 3, 4, 5]);
+    expect(result.errors[3].message).toBe('Unterminated quoted value for OPEN');
+  });
+
+  it('resumes at the next line after an unterminated quote', () => {
+    const result = parseDotenv('A="x\nB=y');
+    expect(result.entries).toEqual([{ name: 'B', value: 'y', line: 2 }]);
+    expect(result.errors).toEqual([{ line: 1, message: 'Unterminated quoted value for A' }]);
+  });
+
+  it('uses the last definition of a duplicate key and warns', () => {
+    const result = parseDotenv('A=1\nB=2\nA=3');
+    expect(result.entries).toEqual([
+      { name: 'B', value: '2', line: 2 },
+      { name: 'A', value: '3', line: 3 },
+    ]);
+    expect(result.warnings).toEqual([{ line: 3, message: 'A is also defined on line 1; line 3 is used' }]);
+  });
+
+  it('handles Windows line endings', () => {
+    expect(parseDotenv('A=1\r\nB=2\r\n').entries.map((e) => e.value)).toEqual(['1', '2']);
+  });
+});
+
+describe('getBulkSecretStatus', () => {
+  const allSecrets = [secret('API_KEY'), secret('DB_PASSWORD'), secret('DEPLOY_KEY', 'profile:production')];
+  const unchanged = new Set(['DB_PASSWORD']);
+
+  it('compares against unscoped values', () => {
+    expect(getBulkSecretStatus('API_KEY', allSecrets, unchanged)).toBe('overwrite');
+    expect(getBulkSecretStatus('DB_PASSWORD', allSecrets, unchanged)).toBe('unchanged');
+    expect(getBulkSecretStatus('DEPLOY_KEY', allSecrets, unchanged)).toBe('new');
+    expect(getBulkSecretStatus('OTHER', allSecrets, unchanged)).toBe('new');
+  });
+});
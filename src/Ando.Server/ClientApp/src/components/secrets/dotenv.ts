@@ -0,0 +1,133 @@
+// =============================================================================
+// components/secrets/dotenv.ts
+//
+// .env parsing for the bulk secret import, shared by the paste box and file
+// drag-and-drop. Names are normalized like the server does (uppercase, '-'
+// becomes '_'). Handles comments, `export` prefixes, quoted and multiline
+// values and duplicate keys, where the last definition wins.
+// =============================================================================
+
+import type { SecretDto } from '@/types';
+
+export interface DotenvEntry {
+  name: string;
+  value: string;
+  // 1-based line the definition starts on.
+  line: number;
+}
+
+export interface DotenvIssue {
+  line: number;
+  message: string;
+}
+
+export interface ParsedDotenv {
+  entries: DotenvEntry[];
+  // Lines that were skipped.
+  errors: DotenvIssue[];
+  // Keys defined more than once.
+  warnings: DotenvIssue[];
+}
+
+export type BulkSecretStatus = 'new' | 'overwrite' | 'unchanged';
+
+const NAME_PATTERN = /^[A-Z_][A-Z0-9_]*$/;
+
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t' };
+
+// Index of the closing quote in text, skipping backslash escapes inside
+// double quotes; -1 when the value is not closed.
+function findClosingQuote(text: string, quote: string, from: number): number {
+  for (let i = from; i < text.length; i++) {
+    if (quote === '"' && text[i] === '\\') {
+      i++;
+    } else if (text[i] === quote) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function unescapeDoubleQuoted(value: string): string {
+  return value.replace(/\\(.)/g, (_, char: string) => DOUBLE_QUOTE_ESCAPES[char] ?? char);
+}
+
+export function parseDotenv(content: string): ParsedDotenv {
+  const lines = content.split(/\r?\n/);
+  const entries = new Map<string, DotenvEntry>();
+  const errors: DotenvIssue[] = [];
+  const warnings: DotenvIssue[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const lineNumber = i + 1;
+    const trimmed = lines[i].trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    const definition = trimmed.replace(/^export\s+/, '');
+    const equalsIndex = definition.indexOf('=');
+    if (equalsIndex <= 0) {
+      errors.push({ line: lineNumber, message: 'Expected KEY=value' });
+      continue;
+    }
+
+    const name = definition.slice(0, equalsIndex).trim().toUpperCase().replace(/-/g, '_');
+    let rest = definition.slice(equalsIndex + 1).trimStart();
+    let value: string;
+
+    const quote = rest[0];
+    if (quote === '"' || quote === "'" || quote === '`') {
+      // Quoted values may continue over the following lines.
+      const startLine = i;
+      let end = findClosingQuote(rest, quote, 1);
+      while (end < 0 && i + 1 < lines.length) {
+        i++;
+        rest += `\n${lines[i]}`;
+        end = findClosingQuote(rest, quote, 1);
+      }
+      if (end < 0) {
+        errors.push({ line: lineNumber, message: `Unterminated quoted value for ${name}` });
+        // Resume after the opening line rather than dropping the rest of the file.
+        i = startLine;
+        continue;
+      }
+      value = rest.slice(1, end);
+      if (quote === '"') value = unescapeDoubleQuoted(value);
+    } else {
+      // Unquoted values end at an inline comment.
+      value = rest.replace(/\s+#.*$/, '').trim();
+    }
+
+    if (!NAME_PATTERN.test(name)) {
+      errors.push({ line: lineNumber, message: `Invalid name: ${name}` });
+      continue;
+    }
+    if (!value) {
+      errors.push({ line: lineNumber, message: `Empty value for ${name}` });
+      continue;
+    }
+
+    const previous = entries.get(name);
+    if (previous) {
+      warnings.push({
+        line: lineNumber,
+        message: `${name} is also defined on line ${previous.line}; line ${lineNumber} is used`,
+      });
+      entries.delete(name);
+    }
+    entries.set(name, { name, value, line: lineNumber });
+  }
+
+  return { entries: [...entries.values()].sort((a, b) => a.line - b.line), errors, warnings };
+}
+
+// The import sets unscoped values, so only those count as existing.
+// unchangedNames comes from the server, which alone can compare values.
+export function getBulkSecretStatus(
+  name: string,
+  allSecrets: SecretDto[],
+  unchangedNames: ReadonlySet<string>
+): BulkSecretStatus {
+  const exists = allSecrets.some((secret) => secret.name === name && secret.scope === '');
+  if (!exists) return 'new';
+  return unchangedNames.has(name) ? 'unchanged' : 'overwrite';
+}
@@ -0,0 +1,67 @@
+// =============================================================================
+// components/secrets/secretHistory.test.ts
+//
+// Tests for secret rotation and audit log helpers.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { describeSecretEvent, getRotationState, isValueEvent, toDateInputValue } from './secretHistory';
+import type { SecretEventDto } from '@/types';
+
+const NOW = Date.parse('2026-10-19T15:30:00Z');
+
+function event(overrides: Partial<SecretEventDto>): SecretEventDto {
+  return {
+    id: 1,
+    secretName: 'API_KEY',
+    scope: '',
+    type: 'Created',
+    version: 1,
+    actorName: null,
+    occurredAt: '2026-10-19T10:00:00Z',
+    rotateBy: null,
+    firstUsedByBuildId: null,
+    ...overrides,
+  };
+}
+
+describe('getRotationState', () => {
+  it('returns null without a deadline', () => {
+    expect(getRotationState(null, NOW)).toBeNull();
+  });
+
+  it('counts the deadline day as on time', () => {
+    expect(getRotationState('2026-10-19T00:00:00Z', NOW)).toEqual({ label: 'Rotate today', variant: 'warning' });
+    expect(getRotationState('2026-10-18T00:00:00Z', NOW)).toEqual({ label: 'Rotation overdue', variant: 'error' });
+  });
+
+  it('warns within the warning window', () => {
+    expect(getRotationState('2026-10-20T00:00:00Z', NOW)?.label).toBe('Rotate in 1 day');
+    expect(getRotationState('2026-11-02T00:00:00Z', NOW)).toEqual({ label: 'Rotate in 14 days', variant: 'warning' });
+  });
+
+  it('is neutral for distant deadlines', () => {
+    expect(getRotationState('2027-01-31T00:00:00Z', NOW)?.variant).toBe('default');
+  });
+});
+
+describe('toDateInputValue', () => {
+  it('keeps the date part', () => {
+    expect(toDateInputValue('2027-01-31T00:00:00Z')).toBe('2027-01-31');
+    expect(toDateInputValue(null)).toBe('');
+  });
+});
+
+describe('describeSecretEvent', () => {
+  it('describes value changes without values', () => {
+    expect(describeSecretEvent(event({ type: 'Created' }))).toBe('Created');
+    expect(describeSecretEvent(event({ type: 'Updated', version: 3 }))).toBe('Value changed (version 3)');
+    expect(describeSecretEvent(event({ type: 'Deleted' }))).toBe('Deleted');
+    expect(describeSecretEvent(event({ type: 'RotationDeadlineCleared' }))).toBe('Rotation deadline cleared');
+  });
+
+  it('marks value events', () => {
+    expect(isValueEvent(event({ type: 'Updated' }))).toBe(true);
+    expect(isValueEvent(event({ type: 'RotationDeadlineSet' }))).toBe(false);
+  });
+});
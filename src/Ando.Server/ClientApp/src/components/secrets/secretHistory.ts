@@ -0,0 +1,66 @@
+// =============================================================================
+// components/secrets/secretHistory.ts
+//
+// Helpers for secret rotation reminders and the secret audit log.
+// =============================================================================
+
+import type { SecretEventDto } from '@/types';
+
+// Deadlines closer than this are highlighted.
+export const ROTATION_WARNING_DAYS = 14;
+
+const DAY_MS = 86_400_000;
+
+export interface RotationState {
+  label: string;
+  variant: 'error' | 'warning' | 'default';
+}
+
+// Rotation deadlines are dates (midnight UTC); the deadline day itself still
+// counts as on time.
+export function getRotationState(rotateBy: string | null, now: number = Date.now()): RotationState | null {
+  if (!rotateBy) return null;
+
+  const deadline = Date.parse(rotateBy.slice(0, 10));
+  const today = Math.floor(now / DAY_MS) * DAY_MS;
+  const daysLeft = Math.round((deadline - today) / DAY_MS);
+
+  if (daysLeft < 0) {
+    return { label: 'Rotation overdue', variant: 'error' };
+  }
+  if (daysLeft === 0) {
+    return { label: 'Rotate today', variant: 'warning' };
+  }
+  if (daysLeft <= ROTATION_WARNING_DAYS) {
+    return { label: `Rotate in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}`, variant: 'warning' };
+  }
+  return { label: `Rotate by ${formatDeadline(rotateBy)}`, variant: 'default' };
+}
+
+export function formatDeadline(rotateBy: string): string {
+  return new Date(rotateBy.slice(0, 10)).toLocaleDateString(undefined, { timeZone: 'UTC' });
+}
+
+// yyyy-MM-dd for <input type="date">.
+export function toDateInputValue(rotateBy: string | null): string {
+  return rotateBy ? rotateBy.slice(0, 10) : '';
+}
+
+export function describeSecretEvent(event: SecretEventDto): string {
+  switch (event.type) {
+    case 'Created':
+      return event.version > 1 ? `Created (version ${event.version})` : 'Created';
+    case 'Updated':
+      return `Value changed (version ${event.version})`;
+    case 'Deleted':
+      return 'Deleted';
+    case 'RotationDeadlineSet':
+      return event.rotateBy ? `Rotation deadline set to ${formatDeadline(event.rotateBy)}` : 'Rotation deadline set';
+    case 'RotationDeadlineCleared':
+      return 'Rotation deadline cleared';
+  }
+}
+
+export function isValueEvent(event: SecretEventDto): boolean {
+  return event.type === 'Created' || event.type === 'Updated';
+}
@@ -0,0 +1,83 @@
+// =============================================================================
+// components/secrets/secretScopes.test.ts
+//
+// Tests for secret scope parsing and build resolution.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { formatScope, matchesBranch, parseScope, resolveSecrets, toScope } from './secretScopes';
+import type { SecretDto } from '@/types';
+
+function secret(name: string, scope: string): SecretDto {
+  return {
+    name,
+    scope,
+    createdAt: '2026-10-01T00:00:00Z',
+    updatedAt: '2026-10-01T00:00:00Z',
+    version: 1,
+    updatedBy: null,
+    firstUsedByBuildId: null,
+    rotateBy: null,
+  };
+}
+
+describe('parseScope', () => {
+  it('parses profile and branch scopes', () => {
+    expect(parseScope('profile:production')).toEqual({ kind: 'profile', value: 'production' });
+    expect(parseScope('branch:release/*')).toEqual({ kind: 'branch', value: 'release/*' });
+    expect(parseScope('')).toEqual({ kind: 'all', value: '' });
+  });
+
+  it('round-trips through toScope', () => {
+    expect(toScope('profile', ' staging ')).toBe('profile:staging');
+    expect(toScope('branch', '')).toBe('');
+    expect(toScope('all', 'ignored')).toBe('');
+  });
+});
+
+describe('formatScope', () => {
+  it('describes each kind', () => {
+    expect(formatScope('')).toBe('All builds');
+    expect(formatScope('profile:production')).toBe('Profile production');
+    expect(formatScope('branch:release/*')).toBe('Branch release/*');
+  });
+});
+
+describe('matchesBranch', () => {
+  it('matches exact names case-insensitively', () => {
+    expect(matchesBranch('main', 'Main')).toBe(true);
+    expect(matchesBranch('main', 'main-2')).toBe(false);
+  });
+
+  it('matches wildcards across slashes', () => {
+    expect(matchesBranch('release/*', 'release/1.2/hotfix')).toBe(true);
+    expect(matchesBranch('release/*', 'releases/1.2')).toBe(false);
+    expect(matchesBranch('feature.x', 'featureAx')).toBe(false);
+  });
+});
+
+describe('resolveSecrets', () => {
+  const secrets = [
+    secret('API_KEY', ''),
+    secret('API_KEY', 'branch:release/*'),
+    secret('API_KEY', 'profile:production'),
+    secret('DEPLOY_KEY', 'branch:release/*'),
+    secret('DEPLOY_KEY', 'branch:release/1.0'),
+  ];
+
+  it('prefers the profile, then the most specific branch, then the unscoped value', () => {
+    const production = resolveSecrets(secrets, 'production', 'release/1.0');
+    expect(production.get('API_KEY')?.scope).toBe('profile:production');
+    expect(production.get('DEPLOY_KEY')?.scope).toBe('branch:release/1.0');
+
+    const release = resolveSecrets(secrets, '', 'release/2.0');
+    expect(release.get('API_KEY')?.scope).toBe('branch:release/*');
+    expect(release.get('DEPLOY_KEY')?.scope).toBe('branch:release/*');
+  });
+
+  it('leaves out secrets with no matching or unscoped value', () => {
+    const main = resolveSecrets(secrets, 'staging', 'main');
+    expect(main.get('API_KEY')?.scope).toBe('');
+    expect(main.has('DEPLOY_KEY')).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+// =============================================================================
+// components/secrets/secretScopes.ts
+//
+// Helpers for profile- and branch-scoped secrets. A scope is '' (all builds),
+// 'profile:<name>' or 'branch:<pattern>'. resolveSecrets mirrors the server's
+// SecretScopes.Resolve so the settings page can show which value a build gets.
+// =============================================================================
+
+import type { SecretDto } from '@/types';
+
+export type SecretScopeKind = 'all' | 'profile' | 'branch';
+
+export interface ParsedScope {
+  kind: SecretScopeKind;
+  value: string;
+}
+
+export function parseScope(scope: string): ParsedScope {
+  const separator = scope.indexOf(':');
+  const prefix = separator < 0 ? '' : scope.slice(0, separator).toLowerCase();
+  if (prefix === 'profile' || prefix === 'branch') {
+    return { kind: prefix, value: scope.slice(separator + 1) };
+  }
+  return { kind: 'all', value: '' };
+}
+
+export function toScope(kind: SecretScopeKind, value: string): string {
+  const trimmed = value.trim();
+  return kind === 'all' || !trimmed ? '' : `${kind}:${trimmed}`;
+}
+
+export function formatScope(scope: string): string {
+  const { kind, value } = parseScope(scope);
+  if (kind === 'profile') return `Profile ${value}`;
+  if (kind === 'branch') return `Branch ${value}`;
+  return 'All builds';
+}
+
+// '*' matches any characters, including '/'. Case-insensitive like the
+// project's branch filter.
+export function matchesBranch(pattern: string, branch: string): boolean {
+  if (!pattern.includes('*')) {
+    return pattern.toLowerCase() === branch.toLowerCase();
+  }
+  const source = pattern
+    .split('*')
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i').test(branch);
+}
+
+// Higher ranks win; -1 means the scope does not apply to the build.
+function rank(scope: string, profile: string, branch: string): number {
+  const { kind, value } = parseScope(scope);
+  if (kind === 'all') return 0;
+  if (kind === 'profile') {
+    return profile && value.toLowerCase() === profile.toLowerCase() ? Number.MAX_SAFE_INTEGER : -1;
+  }
+  if (!branch || !matchesBranch(value, branch)) return -1;
+  // Exact names beat patterns; longer patterns are more specific.
+  return value.includes('*') ? 1 + value.length : 1000 + value.length;
+}
+
+// The value of each secret a build with this profile and branch gets, by name.
+export function resolveSecrets(secrets: SecretDto[], profile: string, branch: string): Map<string, SecretDto> {
+  const resolved = new Map<string, { secret: SecretDto; rank: number }>();
+  for (const secret of secrets) {
+    const secretRank = rank(secret.scope, profile, branch);
+    const current = resolved.get(secret.name);
+    if (secretRank >= 0 && (!current || secretRank > current.rank)) {
+      resolved.set(secret.name, { secret, rank: secretRank });
+    }
+  }
+  return new Map([...resolved].map(([name, { secret }]) => [name, secret]));
+}
@@ -0,0 +1,29 @@
+// =============================================================================
+// components/secrets/sharedSecrets.test.ts
+//
+// Tests for shared secret override helpers.
+// =============================================================================
+
+import { describe, it, expect } from 'vitest';
+import { describeOverride, receivesSharedValue } from './sharedSecrets';
+
+describe('receivesSharedValue', () => {
+  it('is false only when the project has its own unscoped value', () => {
+    expect(receivesSharedValue([])).toBe(true);
+    expect(receivesSharedValue(['profile:production'])).toBe(true);
+    expect(receivesSharedValue(['', 'profile:production'])).toBe(false);
+  });
+});
+
+describe('describeOverride', () => {
+  it('returns null for inherited secrets', () => {
+    expect(describeOverride([])).toBeNull();
+  });
+
+  it('describes full and scoped overrides', () => {
+    expect(describeOverride(['', 'branch:release/*'])).toBe('Overridden');
+    expect(describeOverride(['branch:release/*', 'profile:production'])).toBe(
+      'Overridden for Branch release/*, Profile production'
+    );
+  });
+});
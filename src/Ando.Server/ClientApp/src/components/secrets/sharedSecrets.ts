@@ -0,0 +1,22 @@
+// =============================================================================
+// components/secrets/sharedSecrets.ts
+//
+// Helpers for shared secrets. A project linked to a shared secret inherits its
+// value unless the project sets its own value of the same name; overrides are
+// reported as the scopes of those values ('' for all builds).
+// =============================================================================
+
+import { formatScope } from './secretScopes';
+
+// A project with its own unscoped value never gets the shared value; one with
+// only scoped values still gets it for the remaining builds.
+export function receivesSharedValue(overriddenScopes: string[]): boolean {
+  return !overriddenScopes.includes('');
+}
+
+// Null when the project inherits the shared value for every build.
+export function describeOverride(overriddenScopes: string[]): string | null {
+  if (overriddenScopes.length === 0) return null;
+  if (!receivesSharedValue(overriddenScopes)) return 'Overridden';
+  return `Overridden for ${overriddenScopes.map(formatScope).join(', ')}`;
+}
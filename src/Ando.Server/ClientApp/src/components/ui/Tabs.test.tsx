@@ -0,0 +1,43 @@
+// =============================================================================
+// components/ui/Tabs.test.tsx
+//
+// Tests for the Tabs component.
+// =============================================================================
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { Tabs } from './Tabs';
+
+const tabs = [
+  { id: 'overview', label: 'Overview' },
+  { id: 'analytics', label: 'Analytics' },
+  { id: 'branches', label: 'Branches', count: 4 },
+];
+
+describe('Tabs', () => {
+  it('marks the active tab as selected', () => {
+    render(<Tabs tabs={tabs} activeTab="analytics" onChange={() => {}} label="Project" />);
+
+    expect(screen.getByRole('tab', { name: 'Analytics' })).toHaveAttribute('aria-selected', 'true');
+    expect(screen.getByRole('tab', { name: 'Overview' })).toHaveAttribute('aria-selected', 'false');
+    expect(screen.getByRole('tab', { name: /Branches\s*4/ })).toBeInTheDocument();
+  });
+
+  it('calls onChange when a tab is clicked', () => {
+    const onChange = vi.fn();
+    render(<Tabs tabs={tabs} activeTab="overview" onChange={onChange} label="Project" />);
+
+    fireEvent.click(screen.getByRole('tab', { name: 'Analytics' }));
+
+    expect(onChange).toHaveBeenCalledWith('analytics');
+  });
+
+  it('moves between tabs with the arrow keys', () => {
+    const onChange = vi.fn();
+    render(<Tabs tabs={tabs} activeTab="overview" onChange={onChange} label="Project" />);
+
+    fireEvent.keyDown(screen.getByRole('tab', { name: 'Overview' }), { key: 'ArrowLeft' });
+
+    expect(onChange).toHaveBeenCalledWith('branches');
+  });
+});
@@ -0,0 +1,70 @@
+// =============================================================================
+// components/ui/Tabs.tsx
+//
+// Phosphor underline tabs. Controlled: the page owns the active tab (usually
+// in the URL) and renders the matching panel itself.
+// =============================================================================
+
+import type { KeyboardEvent } from 'react';
+
+export interface TabItem {
+  id: string;
+  label: string;
+  count?: number;
+}
+
+interface TabsProps {
+  tabs: TabItem[];
+  activeTab: string;
+  onChange: (id: string) => void;
+  label: string;
+  className?: string;
+}
+
+export function Tabs({ tabs, activeTab, onChange, label, className = '' }: TabsProps) {
+  const handleKeyDown = (event: KeyboardEvent<HTMLButtonElement>, index: number) => {
+    const offset = event.key === 'ArrowRight' ? 1 : event.key === 'ArrowLeft' ? -1 : 0;
+    if (offset === 0) return;
+
+    event.preventDefault();
+    const next = tabs[(index + offset + tabs.length) % tabs.length];
+    onChange(next.id);
+    document.getElementById(`tab-${next.id}`)?.focus();
+  };
+
+  return (
+    <div
+      role="tablist"
+      aria-label={label}
+      className={`flex gap-6 border-b border-gray-200 dark:border-slate-800 ${className}`}
+    >
+      {tabs.map((tab, index) => {
+        const isActive = tab.id === activeTab;
+        return (
+          <button
+            key={tab.id}
+            id={`tab-${tab.id}`}
+            type="button"
+            role="tab"
+            aria-selected={isActive}
+            tabIndex={isActive ? 0 : -1}
+            onClick={() => onChange(tab.id)}
+            onKeyDown={(event) => handleKeyDown(event, index)}
+            className={`
+              -mb-px pb-3 text-sm font-medium border-b-2 transition-colors
+              ${isActive
+                ? 'border-primary-500 text-gray-900 dark:text-slate-100'
+                : 'border-transparent text-gray-400 hover:text-gray-600 dark:text-slate-500 dark:hover:text-slate-300'
+              }
+            `}
+          >
+            {tab.label}
+            {tab.count !== undefined && (
+              <span className="ml-1.5 text-[11px] text-gray-400 dark:text-slate-500">{tab.count}</span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+// =============================================================================
+// context/HubConnectionContext.tsx
+//
+// Provides the app-wide SignalR connection manager. The hub adds user and admin
+// groups on connect, so the connection restarts when the signed-in user changes.
+// =============================================================================
+
+import { useEffect, useRef, useState, type ReactNode } from 'react';
+import { useAuth } from '@/context/AuthContext';
+import { HubConnectionContext, HubConnectionManager } from './hubConnectionManager';
+
+export function HubConnectionProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [manager] = useState(() => new HubConnectionManager('/hubs/build-logs'));
+  const previousUserIdRef = useRef(userId);
+
+  useEffect(() => {
+    if (previousUserIdRef.current === userId) return;
+    previousUserIdRef.current = userId;
+    void manager.restart();
+  }, [manager, userId]);
+
+  useEffect(() => () => manager.dispose(), [manager]);
+
+  return (
+    <HubConnectionContext.Provider value={manager}>
+      {children}
+    </HubConnectionContext.Provider>
+  );
+}
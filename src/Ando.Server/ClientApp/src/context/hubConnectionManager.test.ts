@@ -0,0 +1,170 @@
+// =============================================================================
+// context/hubConnectionManager.test.ts
+//
+// Tests for the shared SignalR connection manager: lifecycle, ref-counted
+// group joins and re-joining after reconnects.
+// =============================================================================
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { HubConnectionState, type HubConnection } from '@microsoft/signalr';
+import { adminQueueGroup, buildLogGroup, HubConnectionManager } from './hubConnectionManager';
+
+function createFakeConnection() {
+  const callbacks = {
+    reconnecting: [] as (() => void)[],
+    reconnected: [] as (() => void)[],
+    close: [] as (() => void)[],
+  };
+
+  const fake = {
+    state: HubConnectionState.Disconnected,
+    start: vi.fn(async () => {
+      fake.state = HubConnectionState.Connected;
+    }),
+    stop: vi.fn(async () => {
+      fake.state = HubConnectionState.Disconnected;
+      callbacks.close.forEach((cb) => cb());
+    }),
+    invoke: vi.fn(async () => undefined),
+    on: vi.fn(),
+    off: vi.fn(),
+    onreconnecting: (cb: () => void) => callbacks.reconnecting.push(cb),
+    onreconnected: (cb: () => void) => callbacks.reconnected.push(cb),
+    onclose: (cb: () => void) => callbacks.close.push(cb),
+    simulateReconnect() {
+      fake.state = HubConnectionState.Reconnecting;
+      callbacks.reconnecting.forEach((cb) => cb());
+      fake.state = HubConnectionState.Connected;
+      callbacks.reconnected.forEach((cb) => cb());
+    },
+  };
+
+  return fake;
+}
+
+describe('HubConnectionManager', () => {
+  let fake: ReturnType<typeof createFakeConnection>;
+  let manager: HubConnectionManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fake = createFakeConnection();
+    manager = new HubConnectionManager('/hubs/test', () => fake as unknown as HubConnection);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('starts on first retain and stops after the last release', async () => {
+    const releaseA = manager.retain();
+    const releaseB = manager.retain();
+    await vi.runAllTimersAsync();
+
+    expect(fake.start).toHaveBeenCalledTimes(1);
+    expect(manager.getStatus()).toBe('connected');
+
+    releaseA();
+    await vi.runAllTimersAsync();
+    expect(fake.stop).not.toHaveBeenCalled();
+
+    releaseB();
+    await vi.runAllTimersAsync();
+    expect(fake.stop).toHaveBeenCalledTimes(1);
+    expect(manager.getStatus()).toBe('disconnected');
+  });
+
+  it('keeps the connection when re-retained within the idle delay', async () => {
+    manager.retain()();
+    manager.retain();
+    await vi.runAllTimersAsync();
+
+    expect(fake.stop).not.toHaveBeenCalled();
+    expect(manager.getStatus()).toBe('connected');
+  });
+
+  it('ref-counts group joins', async () => {
+    manager.retain();
+    await vi.runAllTimersAsync();
+
+    const leaveA = manager.joinGroup(buildLogGroup(5));
+    const leaveB = manager.joinGroup(buildLogGroup(5));
+    await vi.runAllTimersAsync();
+    expect(fake.invoke).toHaveBeenCalledTimes(1);
+    expect(fake.invoke).toHaveBeenCalledWith('JoinBuildLog', 5);
+
+    leaveA();
+    expect(fake.invoke).not.toHaveBeenCalledWith('LeaveBuildLog', 5);
+
+    leaveB();
+    expect(fake.invoke).toHaveBeenCalledWith('LeaveBuildLog', 5);
+  });
+
+  it('joins and leaves groups without an id with no arguments', async () => {
+    manager.retain();
+    await vi.runAllTimersAsync();
+
+    const leave = manager.joinGroup(adminQueueGroup());
+    await vi.runAllTimersAsync();
+    expect(fake.invoke).toHaveBeenCalledWith('JoinAdminQueue');
+
+    leave();
+    expect(fake.invoke).toHaveBeenCalledWith('LeaveAdminQueue');
+  });
+
+  it('notifies a later joiner only once the in-flight join completes', async () => {
+    manager.retain();
+    await vi.runAllTimersAsync();
+
+    let completeJoin = () => {};
+    fake.invoke.mockImplementationOnce(() => new Promise((resolve) => {
+      completeJoin = () => resolve(undefined);
+    }));
+    const onJoinedA = vi.fn();
+    const onJoinedB = vi.fn();
+    manager.joinGroup(buildLogGroup(7), onJoinedA);
+    manager.joinGroup(buildLogGroup(7), onJoinedB);
+    await vi.runAllTimersAsync();
+
+    expect(onJoinedB).not.toHaveBeenCalled();
+
+    completeJoin();
+    await vi.runAllTimersAsync();
+
+    expect(fake.invoke).toHaveBeenCalledTimes(1);
+    expect(onJoinedA).toHaveBeenCalledExactlyOnceWith(false);
+    expect(onJoinedB).toHaveBeenCalledExactlyOnceWith(false);
+  });
+
+  it('joins pending groups once connected and re-joins after reconnecting', async () => {
+    const onJoined = vi.fn();
+    manager.joinGroup(buildLogGroup(9), onJoined);
+    manager.retain();
+    await vi.runAllTimersAsync();
+
+    expect(fake.invoke).toHaveBeenCalledWith('JoinBuildLog', 9);
+    expect(onJoined).toHaveBeenLastCalledWith(false);
+
+    const statuses: string[] = [];
+    manager.subscribeStatus(() => statuses.push(manager.getStatus()));
+    fake.simulateReconnect();
+    await vi.runAllTimersAsync();
+
+    expect(statuses).toEqual(['reconnecting', 'connected']);
+    expect(fake.invoke).toHaveBeenCalledTimes(2);
+    expect(onJoined).toHaveBeenLastCalledWith(true);
+  });
+
+  it('retries a failed start while retained', async () => {
+    fake.start.mockRejectedValueOnce(new Error('offline'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    manager.retain();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(manager.getStatus()).toBe('disconnected');
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(fake.start).toHaveBeenCalledTimes(2);
+    expect(manager.getStatus()).toBe('connected');
+  });
+});
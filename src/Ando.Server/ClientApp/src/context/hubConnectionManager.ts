@@ -0,0 +1,275 @@
+// =============================================================================
+// context/hubConnectionManager.ts
+//
+// Single shared SignalR connection to /hubs/build-logs for the whole SPA.
+// Consumers retain the connection while mounted (it starts on first retain and
+// stops shortly after the last release), subscribe to hub events, and join
+// groups through ref-counted handles so two views watching the same build
+// share one JoinBuildLog. Joined groups are re-joined after every reconnect,
+// since the server assigns a new connection id.
+// =============================================================================
+
+import { createContext } from 'react';
+import { HubConnectionBuilder, HubConnectionState, LogLevel, type HubConnection } from '@microsoft/signalr';
+
+export type HubStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface HubGroup {
+  join: string;
+  leave: string;
+  // Null for groups the hub joins without an argument.
+  id: number | null;
+}
+
+export function buildLogGroup(buildId: number): HubGroup {
+  return { join: 'JoinBuildLog', leave: 'LeaveBuildLog', id: buildId };
+}
+
+export function adminQueueGroup(): HubGroup {
+  return { join: 'JoinAdminQueue', leave: 'LeaveAdminQueue', id: null };
+}
+
+function groupArgs(group: HubGroup): number[] {
+  return group.id === null ? [] : [group.id];
+}
+
+interface GroupMembership {
+  group: HubGroup;
+  count: number;
+  // Called after each successful join; `rejoined` is true after a reconnect.
+  listeners: Set<(rejoined: boolean) => void>;
+  // The JoinGroup invoke still in flight, resolving to whether it succeeded.
+  // Later joiners wait for it instead of assuming the server added them.
+  joining: Promise<boolean> | null;
+}
+
+// Quick retries first, then settle at 30s; never give up while retained.
+const RECONNECT_DELAYS_MS = [0, 2000, 5000, 10000, 30000];
+// Delay before stopping an unused connection, so remounts and route changes
+// (and StrictMode's double effects) don't tear the socket down.
+const IDLE_STOP_DELAY_MS = 2000;
+
+function createDefaultConnection(url: string): HubConnection {
+  return new HubConnectionBuilder()
+    .withUrl(url)
+    .withAutomaticReconnect({
+      nextRetryDelayInMilliseconds: ({ previousRetryCount }) =>
+        RECONNECT_DELAYS_MS[Math.min(previousRetryCount, RECONNECT_DELAYS_MS.length - 1)],
+    })
+    .configureLogging(LogLevel.Warning)
+    .build();
+}
+
+export class HubConnectionManager {
+  private readonly connection: HubConnection;
+  private status: HubStatus = 'disconnected';
+  private retainCount = 0;
+  private stopTimer: number | null = null;
+  private restartTimer: number | null = null;
+  private startPromise: Promise<void> | null = null;
+  private readonly statusListeners = new Set<() => void>();
+  private readonly groups = new Map<string, GroupMembership>();
+
+  constructor(url: string, createConnection: (url: string) => HubConnection = createDefaultConnection) {
+    this.connection = createConnection(url);
+
+    this.connection.onreconnecting(() => this.setStatus('reconnecting'));
+    this.connection.onreconnected(() => {
+      this.setStatus('connected');
+      this.joinAll(true);
+    });
+    this.connection.onclose(() => {
+      this.setStatus('disconnected');
+      this.scheduleRestart();
+    });
+  }
+
+  getStatus = (): HubStatus => this.status;
+
+  subscribeStatus = (listener: () => void): (() => void) => {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  };
+
+  // Keeps the connection open until the returned release function is called.
+  retain(): () => void {
+    this.retainCount += 1;
+    this.clearTimer('stopTimer');
+    void this.ensureStarted();
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.retainCount -= 1;
+      if (this.retainCount === 0) {
+        this.stopTimer = window.setTimeout(() => {
+          this.stopTimer = null;
+          void this.stop();
+        }, IDLE_STOP_DELAY_MS);
+      }
+    };
+  }
+
+  on<T>(event: string, handler: (payload: T) => void): () => void {
+    this.connection.on(event, handler);
+    return () => this.connection.off(event, handler);
+  }
+
+  // Ref-counted group join. Leaves the group when the last handle is released.
+  joinGroup(group: HubGroup, onJoined?: (rejoined: boolean) => void): () => void {
+    const key = `${group.join}:${group.id}`;
+    let membership = this.groups.get(key);
+
+    if (!membership) {
+      membership = { group, count: 0, listeners: new Set(), joining: null };
+      this.groups.set(key, membership);
+    }
+
+    membership.count += 1;
+    const listener = onJoined ? (rejoined: boolean) => onJoined(rejoined) : null;
+    if (listener) membership.listeners.add(listener);
+
+    if (this.connection.state === HubConnectionState.Connected) {
+      if (membership.count === 1) {
+        this.invokeJoin(membership, false);
+      } else if (listener && membership.joining) {
+        const current = membership;
+        void membership.joining.then((joined) => {
+          if (joined && current.listeners.has(listener)) listener(false);
+        });
+      } else {
+        listener?.(false);
+      }
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const current = this.groups.get(key);
+      if (!current) return;
+
+      if (listener) current.listeners.delete(listener);
+      current.count -= 1;
+      if (current.count === 0) {
+        this.groups.delete(key);
+        if (this.connection.state === HubConnectionState.Connected) {
+          this.connection.invoke(group.leave, ...groupArgs(group)).catch(() => {});
+        }
+      }
+    };
+  }
+
+  // Reconnects so the server re-evaluates the user's groups (e.g. after login).
+  async restart(): Promise<void> {
+    if (this.status === 'disconnected' && this.retainCount === 0) return;
+    await this.stop();
+  }
+
+  dispose(): void {
+    this.clearTimer('stopTimer');
+    this.clearTimer('restartTimer');
+    this.retainCount = 0;
+    void this.stop();
+  }
+
+  private async ensureStarted(): Promise<void> {
+    if (this.connection.state !== HubConnectionState.Disconnected) return;
+    if (this.startPromise) return this.startPromise;
+
+    this.clearTimer('restartTimer');
+    this.setStatus('connecting');
+    this.startPromise = this.connection
+      .start()
+      .then(
+        () => {
+          this.setStatus('connected');
+          this.joinAll(false);
+        },
+        (err) => {
+          console.error('SignalR connection error:', err);
+          this.setStatus('disconnected');
+          this.scheduleRestart();
+        },
+      )
+      .finally(() => {
+        this.startPromise = null;
+      });
+
+    return this.startPromise;
+  }
+
+  private async stop(): Promise<void> {
+    this.clearTimer('restartTimer');
+    if (this.startPromise) {
+      await this.startPromise;
+    }
+    await this.connection.stop().catch(() => {});
+    this.setStatus('disconnected');
+
+    // Retained again while stopping; start right away instead of waiting for a retry.
+    if (this.retainCount > 0) {
+      await this.ensureStarted();
+    }
+  }
+
+  private scheduleRestart() {
+    if (this.retainCount === 0 || this.restartTimer !== null) return;
+    this.restartTimer = window.setTimeout(() => {
+      this.restartTimer = null;
+      void this.ensureStarted();
+    }, RECONNECT_DELAYS_MS[RECONNECT_DELAYS_MS.length - 1]);
+  }
+
+  private joinAll(rejoined: boolean) {
+    for (const membership of this.groups.values()) {
+      this.invokeJoin(membership, rejoined);
+    }
+  }
+
+  private invokeJoin(membership: GroupMembership, rejoined: boolean) {
+    const { group } = membership;
+    // Listeners added while the invoke is in flight wait on `joining` themselves.
+    const listeners = [...membership.listeners];
+    const joining = this.connection
+      .invoke(group.join, ...groupArgs(group))
+      .then(
+        () => {
+          for (const listener of listeners) {
+            if (membership.listeners.has(listener)) listener(rejoined);
+          }
+          return true;
+        },
+        (err) => {
+          console.error(`SignalR ${group.join} error:`, err);
+          return false;
+        },
+      );
+
+    membership.joining = joining;
+    void joining.then(() => {
+      if (membership.joining === joining) membership.joining = null;
+    });
+  }
+
+  private setStatus(status: HubStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    for (const listener of this.statusListeners) {
+      listener();
+    }
+  }
+
+  private clearTimer(name: 'stopTimer' | 'restartTimer') {
+    const timer = this[name];
+    if (timer !== null) {
+      window.clearTimeout(timer);
+      this[name] = null;
+    }
+  }
+}
+
+export const HubConnectionContext = createContext<HubConnectionManager | null>(null);
@@ -0,0 +1,69 @@
+// =============================================================================
+// hooks/useHub.ts
+//
+// Hooks over the shared SignalR connection (see context/hubConnectionManager).
+// Each hook retains the connection while its component is mounted.
+// =============================================================================
+
+import { useContext, useEffect, useRef, useSyncExternalStore } from 'react';
+import { HubConnectionContext, type HubGroup, type HubStatus } from '@/context/hubConnectionManager';
+
+export function useHubConnection() {
+  const manager = useContext(HubConnectionContext);
+  if (!manager) {
+    throw new Error('useHubConnection must be used within a HubConnectionProvider');
+  }
+  return manager;
+}
+
+export function useHubStatus(): HubStatus {
+  const manager = useHubConnection();
+  return useSyncExternalStore(manager.subscribeStatus, manager.getStatus);
+}
+
+// Subscribes to a hub event. The latest handler is always called, so callers
+// don't need to memoize it.
+export function useHubEvent<T>(event: string, handler: (payload: T) => void, enabled: boolean = true) {
+  const manager = useHubConnection();
+  const handlerRef = useRef(handler);
+
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const release = manager.retain();
+    const unsubscribe = manager.on<T>(event, (payload) => handlerRef.current(payload));
+    return () => {
+      unsubscribe();
+      release();
+    };
+  }, [manager, event, enabled]);
+}
+
+// Joins a hub group while mounted (pass null to skip). `onJoined` runs after
+// every successful join, including re-joins after a reconnect.
+export function useHubGroup(group: HubGroup | null, onJoined?: (rejoined: boolean) => void) {
+  const manager = useHubConnection();
+  const onJoinedRef = useRef(onJoined);
+  const join = group?.join;
+  const leave = group?.leave;
+  const id = group?.id;
+
+  useEffect(() => {
+    onJoinedRef.current = onJoined;
+  });
+
+  useEffect(() => {
+    if (join === undefined || leave === undefined || id === undefined) return;
+
+    const release = manager.retain();
+    const leaveGroup = manager.joinGroup({ join, leave, id }, (rejoined) => onJoinedRef.current?.(rejoined));
+    return () => {
+      leaveGroup();
+      release();
+    };
+  }, [manager, join, leave, id]);
+}
@@ -0,0 +1,99 @@
+// =============================================================================
+// hooks/useLogBuffer.ts
+//
+// Bounded, batched in-memory buffer for build log entries.
+// Streamed entries are queued and flushed on a short interval so a chatty build
+// causes a handful of renders per second instead of one per line, and only the
+// newest MAX_BUFFERED_LOG_LINES entries are retained.
+// =============================================================================
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { LogEntry } from '@/types';
+
+export const MAX_BUFFERED_LOG_LINES = 50_000;
+
+const FLUSH_INTERVAL_MS = 100;
+
+interface LogBufferState {
+  entries: LogEntry[];
+  droppedCount: number;
+}
+
+// The server serializes the entry kind as `type`; the SPA reads `level`.
+export function normalizeLogEntry(entry: LogEntry & { type?: string }): LogEntry {
+  return {
+    ...entry,
+    level: entry.level || entry.type || 'Output',
+  };
+}
+
+function trimToLimit(entries: LogEntry[], droppedCount: number, maxLines: number): LogBufferState {
+  if (entries.length <= maxLines) {
+    return { entries, droppedCount };
+  }
+
+  const overflow = entries.length - maxLines;
+  return {
+    entries: entries.slice(overflow),
+    droppedCount: droppedCount + overflow,
+  };
+}
+
+export function useLogBuffer(maxLines: number = MAX_BUFFERED_LOG_LINES) {
+  const [state, setState] = useState<LogBufferState>({ entries: [], droppedCount: 0 });
+  const pendingRef = useRef<LogEntry[]>([]);
+  const pendingDroppedRef = useRef(0);
+  const timerRef = useRef<number | null>(null);
+
+  const cancelFlush = useCallback(() => {
+    if (timerRef.current !== null) {
+      window.clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  }, []);
+
+  const flush = useCallback(() => {
+    timerRef.current = null;
+    const pending = pendingRef.current;
+    if (pending.length === 0) return;
+
+    const pendingDropped = pendingDroppedRef.current;
+    pendingRef.current = [];
+    pendingDroppedRef.current = 0;
+    setState((prev) => trimToLimit(
+      prev.entries.concat(pending),
+      prev.droppedCount + pendingDropped,
+      maxLines,
+    ));
+  }, [maxLines]);
+
+  const append = useCallback((entry: LogEntry) => {
+    pendingRef.current.push(entry);
+
+    // Hidden tabs throttle timers; keep the queue itself bounded meanwhile.
+    if (pendingRef.current.length > maxLines * 2) {
+      pendingDroppedRef.current += pendingRef.current.length - maxLines;
+      pendingRef.current = pendingRef.current.slice(-maxLines);
+    }
+
+    if (timerRef.current === null) {
+      timerRef.current = window.setTimeout(flush, FLUSH_INTERVAL_MS);
+    }
+  }, [flush, maxLines]);
+
+  const reset = useCallback((entries: LogEntry[]) => {
+    cancelFlush();
+    pendingRef.current = [];
+    pendingDroppedRef.current = 0;
+    setState(trimToLimit(entries, 0, maxLines));
+  }, [cancelFlush, maxLines]);
+
+  useEffect(() => cancelFlush, [cancelFlush]);
+
+  return {
+    entries: state.entries,
+    droppedCount: state.droppedCount,
+    append,
+    reset,
+  };
+}
@@ -0,0 +1,90 @@
+// =============================================================================
+// hooks/useLogSearch.ts
+//
+// Search and level-filter state for the build log pane. Matches are derived
+// from the current entries, so lines that stream in later are searched too.
+// =============================================================================
+
+import { useCallback, useDeferredValue, useMemo, useState } from 'react';
+import type { LogEntry } from '@/types';
+import {
+  compileSearchPattern,
+  findLogMatches,
+  type LogLevelFilter,
+  type LogMatch,
+} from '@/components/log/logSearch';
+
+export interface LogSearchState {
+  query: string;
+  setQuery: (query: string) => void;
+  isRegex: boolean;
+  setIsRegex: (isRegex: boolean) => void;
+  caseSensitive: boolean;
+  setCaseSensitive: (caseSensitive: boolean) => void;
+  levels: LogLevelFilter[];
+  toggleLevel: (level: LogLevelFilter) => void;
+  error: string | null;
+  matches: LogMatch[];
+  activeIndex: number;
+  next: () => void;
+  previous: () => void;
+}
+
+export function useLogSearch(entries: LogEntry[]): LogSearchState {
+  const [query, setQueryState] = useState('');
+  const [isRegex, setIsRegex] = useState(false);
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [levels, setLevels] = useState<LogLevelFilter[]>([]);
+  const [requestedIndex, setRequestedIndex] = useState(0);
+
+  // Keep typing responsive on very large logs.
+  const deferredQuery = useDeferredValue(query);
+
+  const { pattern, error } = useMemo(
+    () => compileSearchPattern(deferredQuery, { isRegex, caseSensitive }),
+    [deferredQuery, isRegex, caseSensitive],
+  );
+
+  const matches = useMemo(
+    () => findLogMatches(entries, pattern, levels),
+    [entries, pattern, levels],
+  );
+
+  const activeIndex = matches.length === 0 ? -1 : Math.min(requestedIndex, matches.length - 1);
+
+  const setQuery = useCallback((value: string) => {
+    setQueryState(value);
+    setRequestedIndex(0);
+  }, []);
+
+  const toggleLevel = useCallback((level: LogLevelFilter) => {
+    setLevels((prev) => (prev.includes(level) ? prev.filter((l) => l !== level) : [...prev, level]));
+    setRequestedIndex(0);
+  }, []);
+
+  const next = useCallback(() => {
+    if (matches.length === 0) return;
+    setRequestedIndex((activeIndex + 1) % matches.length);
+  }, [activeIndex, matches.length]);
+
+  const previous = useCallback(() => {
+    if (matches.length === 0) return;
+    setRequestedIndex((activeIndex - 1 + matches.length) % matches.length);
+  }, [activeIndex, matches.length]);
+
+  return {
+    query,
+    setQuery,
+    isRegex,
+    setIsRegex,
+    caseSensitive,
+    setCaseSensitive,
+    levels,
+    toggleLevel,
+    error,
+    matches,
+    activeIndex,
+    next,
+    previous,
+  };
+}
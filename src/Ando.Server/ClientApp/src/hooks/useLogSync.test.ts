@@ -0,0 +1,116 @@
+// =============================================================================
+// hooks/useLogSync.test.ts
+//
+// Tests for gap-free build log synchronization between HTTP and SignalR.
+// =============================================================================
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import type { LogEntry } from '@/types';
+import { useLogSync } from './useLogSync';
+
+type LogsResponse = { logs: LogEntry[]; status: string; isComplete: boolean };
+
+const { getBuildLogsMock } = vi.hoisted(() => ({
+  getBuildLogsMock: vi.fn<(id: number, afterSequence?: number) => Promise<LogsResponse>>(),
+}));
+
+vi.mock('@/api/builds', () => ({
+  getBuildLogs: getBuildLogsMock,
+}));
+
+function entry(sequence: number): LogEntry & { type: string } {
+  return {
+    id: sequence * 10,
+    sequence,
+    level: '',
+    type: 'Output',
+    message: `line ${sequence}`,
+    stepName: null,
+    timestamp: '2026-01-01T00:00:00Z',
+  };
+}
+
+function respond(sequences: number[]): LogsResponse {
+  return { logs: sequences.map(entry), status: 'Running', isComplete: false };
+}
+
+function sequencesOf(entries: LogEntry[]) {
+  return entries.map((e) => e.sequence);
+}
+
+describe('useLogSync', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('loads history and ignores streamed duplicates', async () => {
+    getBuildLogsMock.mockResolvedValueOnce(respond([1, 2]));
+    const { result } = renderHook(() => useLogSync(7));
+
+    await waitFor(() => expect(sequencesOf(result.current.entries)).toEqual([1, 2]));
+    expect(getBuildLogsMock).toHaveBeenCalledWith(7, 0);
+    expect(result.current.status).toBe('synced');
+
+    act(() => {
+      result.current.receive(entry(2));
+      result.current.receive(entry(3));
+    });
+
+    await waitFor(() => expect(sequencesOf(result.current.entries)).toEqual([1, 2, 3]));
+  });
+
+  it('holds streamed entries until the initial load completes', async () => {
+    let resolveHistory: (value: LogsResponse) => void = () => {};
+    getBuildLogsMock.mockReturnValueOnce(new Promise((resolve) => { resolveHistory = resolve; }));
+    const { result } = renderHook(() => useLogSync(7));
+
+    act(() => {
+      result.current.receive(entry(3));
+    });
+    await act(async () => {
+      resolveHistory(respond([1, 2, 3]));
+    });
+
+    await waitFor(() => expect(sequencesOf(result.current.entries)).toEqual([1, 2, 3]));
+  });
+
+  it('backfills when a streamed entry skips a sequence', async () => {
+    getBuildLogsMock
+      .mockResolvedValueOnce(respond([1]))
+      .mockResolvedValueOnce(respond([2, 3]));
+    const { result } = renderHook(() => useLogSync(7));
+    await waitFor(() => expect(result.current.status).toBe('synced'));
+
+    act(() => {
+      result.current.receive(entry(4));
+    });
+
+    await waitFor(() => expect(sequencesOf(result.current.entries)).toEqual([1, 2, 3, 4]));
+    expect(getBuildLogsMock).toHaveBeenLastCalledWith(7, 1);
+  });
+
+  it('reports resyncing and resynced around a reconnect', async () => {
+    getBuildLogsMock
+      .mockResolvedValueOnce(respond([1, 2]))
+      .mockResolvedValueOnce(respond([3]));
+    const { result } = renderHook(() => useLogSync(7));
+    await waitFor(() => expect(result.current.status).toBe('synced'));
+
+    act(() => {
+      result.current.resync(true);
+    });
+    expect(result.current.status).toBe('resyncing');
+
+    await waitFor(() => expect(result.current.status).toBe('resynced'));
+    expect(getBuildLogsMock).toHaveBeenLastCalledWith(7, 2);
+    await waitFor(() => expect(sequencesOf(result.current.entries)).toEqual([1, 2, 3]));
+  });
+
+  it('reports an error when a backfill fails', async () => {
+    getBuildLogsMock.mockRejectedValueOnce(new Error('offline'));
+    const { result } = renderHook(() => useLogSync(7));
+
+    await waitFor(() => expect(result.current.status).toBe('error'));
+  });
+});
@@ -0,0 +1,145 @@
+// =============================================================================
+// hooks/useLogSync.ts
+//
+// Keeps the build log buffer gap-free across the initial HTTP load and the
+// SignalR stream. Tracks the highest sequence seen, dedupes entries by id and
+// backfills from getBuildLogs(afterSequence) whenever the hub (re)joins or a
+// streamed entry skips ahead. Entries that arrive while a backfill is in flight
+// are held and merged in sequence order once it completes.
+// =============================================================================
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getBuildLogs } from '@/api/builds';
+import { normalizeLogEntry, useLogBuffer } from './useLogBuffer';
+import type { LogEntry } from '@/types';
+
+export type LogSyncStatus = 'loading' | 'synced' | 'resyncing' | 'resynced' | 'error';
+
+const RESYNCED_DISPLAY_MS = 3000;
+
+export function useLogSync(buildId: number) {
+  const { entries, droppedCount, append, reset } = useLogBuffer();
+  const [status, setStatus] = useState<LogSyncStatus>('loading');
+  const statusRef = useRef<LogSyncStatus>('loading');
+  const seenIdsRef = useRef(new Set<number>());
+  const highestSequenceRef = useRef(0);
+  const heldRef = useRef<LogEntry[] | null>(null);
+  const backfillAgainRef = useRef(false);
+  const generationRef = useRef(0);
+  const statusTimerRef = useRef<number | null>(null);
+
+  const updateStatus = useCallback((next: LogSyncStatus) => {
+    if (statusTimerRef.current !== null) {
+      window.clearTimeout(statusTimerRef.current);
+      statusTimerRef.current = null;
+    }
+    statusRef.current = next;
+    setStatus(next);
+  }, []);
+
+  const commit = useCallback((incoming: LogEntry[]) => {
+    const ordered = [...incoming].sort((a, b) => a.sequence - b.sequence);
+
+    for (const entry of ordered) {
+      if (seenIdsRef.current.has(entry.id)) continue;
+      seenIdsRef.current.add(entry.id);
+      highestSequenceRef.current = Math.max(highestSequenceRef.current, entry.sequence);
+      append(entry);
+    }
+  }, [append]);
+
+  const backfill = useCallback(() => {
+    // One request at a time; triggers during a request re-run it once settled.
+    if (heldRef.current !== null) {
+      backfillAgainRef.current = true;
+      return;
+    }
+
+    const generation = generationRef.current;
+
+    const settle = (logs: LogEntry[], failed: boolean) => {
+      if (generation !== generationRef.current) return;
+
+      commit(logs.concat(heldRef.current ?? []));
+      heldRef.current = null;
+
+      if (!failed && backfillAgainRef.current) {
+        run();
+        return;
+      }
+
+      if (failed) {
+        updateStatus('error');
+      } else if (statusRef.current === 'resyncing') {
+        updateStatus('resynced');
+        statusTimerRef.current = window.setTimeout(() => updateStatus('synced'), RESYNCED_DISPLAY_MS);
+      } else {
+        updateStatus('synced');
+      }
+    };
+
+    const run = () => {
+      backfillAgainRef.current = false;
+      heldRef.current = [];
+      getBuildLogs(buildId, highestSequenceRef.current).then(
+        (result) => settle(result.logs.map(normalizeLogEntry), false),
+        () => settle([], true),
+      );
+    };
+
+    run();
+  }, [buildId, commit, updateStatus]);
+
+  // Load the full history whenever the build changes.
+  useEffect(() => {
+    generationRef.current += 1;
+    seenIdsRef.current = new Set();
+    highestSequenceRef.current = 0;
+    heldRef.current = null;
+    backfillAgainRef.current = false;
+    statusRef.current = 'loading';
+    reset([]);
+    backfill();
+
+    return () => {
+      generationRef.current += 1;
+      if (statusTimerRef.current !== null) {
+        window.clearTimeout(statusTimerRef.current);
+        statusTimerRef.current = null;
+      }
+    };
+  }, [backfill, reset]);
+
+  // Handler for streamed hub LogEntry events.
+  const receive = useCallback((entry: LogEntry & { type?: string }) => {
+    const normalized = normalizeLogEntry(entry);
+
+    if (heldRef.current === null && normalized.sequence > highestSequenceRef.current + 1) {
+      backfill();
+    }
+
+    if (heldRef.current !== null) {
+      heldRef.current.push(normalized);
+      return;
+    }
+
+    commit([normalized]);
+  }, [backfill, commit]);
+
+  // Call after JoinBuildLog succeeds (pass true after a reconnect) and when the
+  // build completes, to pick up anything the stream missed.
+  const resync = useCallback((afterReconnect: boolean = false) => {
+    if (afterReconnect) {
+      updateStatus('resyncing');
+    }
+    backfill();
+  }, [backfill, updateStatus]);
+
+  return {
+    entries,
+    droppedCount,
+    status,
+    receive,
+    resync,
+  };
+}
@@ -107,9 +107,17 @@ export function Home() {
             <div className="px-5 py-4 border-b border-gray-100 dark:border-slate-800 flex items-center justify-between">
               <h2 className="text-sm font-semibold text-gray-900 dark:text-slate-100">Recent Builds</h2>
               {dashboard?.recentBuilds && dashboard.recentBuilds.length > 0 && (
-                <span className="text-[11px] font-medium text-primary-600 bg-primary-50 dark:text-primary-400 dark:bg-primary-500/10 px-2.5 py-0.5 rounded-full">
-                  {dashboard.recentBuilds.length} builds
-                </span>
+                <div className="flex items-center gap-3">
+                  <span className="text-[11px] font-medium text-primary-600 bg-primary-50 dark:text-primary-400 dark:bg-primary-500/10 px-2.5 py-0.5 rounded-full">
+                    {dashboard.recentBuilds.length} builds
+                  </span>
+                  <Link
+                    to="/builds"
+                    className="text-xs font-medium text-primary-600 hover:text-primary-500 dark:text-primary-400 dark:hover:text-primary-300"
+                  >
+                    View all →
+                  </Link>
+                </div>
               )}
             </div>
             <div className="divide-y divide-gray-100 dark:divide-slate-800/50">
@@ -139,11 +139,13 @@ export function AdminDashboard() {
         <StatCard title="Total Users" value={dashboard?.totalUsers || 0} />
         <StatCard title="Total Projects" value={dashboard?.totalProjects || 0} />
         <StatCard title="Total Builds" value={dashboard?.totalBuilds || 0} />
-        <StatCard
-          title="Active Builds"
-          value={dashboard?.activeBuilds || 0}
-          className={dashboard?.activeBuilds ? 'text-success-600 dark:text-success-400' : ''}
-        />
+        <Link to="/admin/queue" title="Open the build queue">
+          <StatCard
+            title="Active Builds"
+            value={dashboard?.activeBuilds || 0}
+            className={dashboard?.activeBuilds ? 'text-success-600 dark:text-success-400' : ''}
+          />
+        </Link>
       </div>
 
       {/* Quick Links */}
@@ -161,6 +163,19 @@ export function AdminDashboard() {
           </div>
         </Link>
 
+        <Link
+          to="/admin/queue"
+          className="bg-white border border-gray-200 rounded-xl p-6 hover:shadow-md transition-shadow dark:bg-slate-900 dark:hover:shadow-slate-800/50"
+        >
+          <h2 className="text-lg font-medium text-gray-900 dark:text-slate-100">Build Queue</h2>
+          <p className="text-gray-500 mt-1 dark:text-slate-400">
+            Reorder, cancel and pause queued builds across all users
+          </p>
+          <div className="mt-4 text-primary-600 font-medium dark:text-primary-400">
+            View build queue &rarr;
+          </div>
+        </Link>
+
         <div className="bg-white border border-gray-200 rounded-xl p-6 dark:bg-slate-900 dark:border-slate-800">
           <h2 className="text-lg font-medium text-gray-900 dark:text-slate-100">System Health</h2>
           {systemHealthLoading ? (
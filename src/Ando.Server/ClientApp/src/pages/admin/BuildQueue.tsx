@@ -0,0 +1,293 @@
+// =============================================================================
+// pages/admin/BuildQueue.tsx
+//
+// Admin build queue: running and queued builds across all users with queue
+// position and wait time. Admins can reorder queued builds, cancel builds in
+// bulk and pause or resume the queue. Updates live through the admin queue
+// hub group, which is told about every queue change across all users.
+// =============================================================================
+
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import { cancelBuilds, getBuildQueue, reorderBuildQueue, setBuildQueuePaused } from '@/api/admin';
+import { Loading } from '@/components/ui/Loading';
+import { Alert } from '@/components/ui/Alert';
+import { Badge, getBuildStatusVariant } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { formatWait, moveInQueue, type QueueMove } from '@/components/admin/buildQueue';
+import { adminQueueGroup } from '@/context/hubConnectionManager';
+import { useHubEvent, useHubGroup } from '@/hooks/useHub';
+import type { QueuedBuildDto } from '@/types';
+
+export function BuildQueue() {
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+
+  // Changes missed while disconnected are picked up on re-join.
+  useHubGroup(adminQueueGroup(), (rejoined) => {
+    if (rejoined) queryClient.invalidateQueries({ queryKey: ['admin-build-queue'] });
+  });
+  useHubEvent('BuildQueueChanged', () => {
+    queryClient.invalidateQueries({ queryKey: ['admin-build-queue'] });
+  });
+
+  // Ticks wait and run times between refreshes.
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const { data, isLoading, error: loadError } = useQuery({
+    queryKey: ['admin-build-queue'],
+    queryFn: getBuildQueue,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['admin-build-queue'] });
+
+  const reorderMutation = useMutation({
+    mutationFn: reorderBuildQueue,
+    onSuccess: (result) => {
+      if (!result.success) setError(result.error ?? 'Failed to reorder the queue');
+      refresh();
+    },
+    onError: () => setError('Failed to reorder the queue'),
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: cancelBuilds,
+    onSuccess: (result) => {
+      setSelected(new Set());
+      setSuccess(`Cancelled ${result.cancelledCount} ${result.cancelledCount === 1 ? 'build' : 'builds'}`);
+      setTimeout(() => setSuccess(''), 3000);
+      refresh();
+    },
+    onError: () => setError('Failed to cancel builds'),
+  });
+
+  const pauseMutation = useMutation({
+    mutationFn: setBuildQueuePaused,
+    onSuccess: refresh,
+    onError: () => setError('Failed to update the queue'),
+  });
+
+  if (isLoading) {
+    return <Loading size="lg" className="py-12" text="Loading build queue..." />;
+  }
+
+  if (loadError || !data) {
+    return <Alert variant="error">Failed to load build queue</Alert>;
+  }
+
+  const activeIds = new Set([...data.running, ...data.queued].map((build) => build.id));
+  const selectedIds = [...selected].filter((id) => activeIds.has(id));
+  const queuedIds = data.queued.map((build) => build.id);
+
+  const toggle = (id: number) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const move = (id: number, direction: QueueMove) => {
+    const order = moveInQueue(queuedIds, id, direction);
+    if (order) {
+      setError('');
+      reorderMutation.mutate(order);
+    }
+  };
+
+  const cancelSelected = () => {
+    if (confirm(`Cancel ${selectedIds.length} selected ${selectedIds.length === 1 ? 'build' : 'builds'}?`)) {
+      setError('');
+      cancelMutation.mutate(selectedIds);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-slate-100">Build Queue</h1>
+          <p className="text-gray-500 dark:text-slate-400">
+            {data.running.length} of {data.workerCount} workers busy · {data.queued.length} queued
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {selectedIds.length > 0 && (
+            <Button variant="danger" onClick={cancelSelected} isLoading={cancelMutation.isPending}>
+              Cancel {selectedIds.length} selected
+            </Button>
+          )}
+          <Button
+            variant={data.isPaused ? 'primary' : 'secondary'}
+            onClick={() => pauseMutation.mutate(!data.isPaused)}
+            isLoading={pauseMutation.isPending}
+          >
+            {data.isPaused ? 'Resume queue' : 'Pause queue'}
+          </Button>
+          <Link to="/admin">
+            <Button variant="secondary">Back to Admin</Button>
+          </Link>
+        </div>
+      </div>
+
+      {data.isPaused && (
+        <Alert variant="warning">
+          The build queue is paused{data.pausedAt && ` since ${new Date(data.pausedAt).toLocaleString()}`}.
+          Queued builds will not start until it is resumed; running builds continue.
+        </Alert>
+      )}
+      {error && <Alert variant="error">{error}</Alert>}
+      {success && <Alert variant="success">{success}</Alert>}
+
+      <QueueSection
+        title="Running"
+        emptyText="No builds are running."
+        builds={data.running}
+        selected={selected}
+        onToggle={toggle}
+        renderTime={(build) => (build.startedAt ? `running ${formatWait(build.startedAt, now)}` : 'starting')}
+      />
+
+      <QueueSection
+        title="Queued"
+        emptyText="The queue is empty."
+        builds={data.queued}
+        selected={selected}
+        onToggle={toggle}
+        renderTime={(build) => `waiting ${formatWait(build.queuedAt, now)}`}
+        renderActions={(build, index) => (
+          <div className="flex items-center gap-1">
+            <MoveButton label="Move to top" disabled={index === 0 || reorderMutation.isPending} onClick={() => move(build.id, 'top')}>
+              ⤒
+            </MoveButton>
+            <MoveButton label="Move up" disabled={index === 0 || reorderMutation.isPending} onClick={() => move(build.id, 'up')}>
+              ↑
+            </MoveButton>
+            <MoveButton
+              label="Move down"
+              disabled={index === data.queued.length - 1 || reorderMutation.isPending}
+              onClick={() => move(build.id, 'down')}
+            >
+              ↓
+            </MoveButton>
+          </div>
+        )}
+      />
+    </div>
+  );
+}
+
+function QueueSection({
+  title,
+  emptyText,
+  builds,
+  selected,
+  onToggle,
+  renderTime,
+  renderActions,
+}: {
+  title: string;
+  emptyText: string;
+  builds: QueuedBuildDto[];
+  selected: Set<number>;
+  onToggle: (id: number) => void;
+  renderTime: (build: QueuedBuildDto) => string;
+  renderActions?: (build: QueuedBuildDto, index: number) => React.ReactNode;
+}) {
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl dark:bg-slate-900 dark:border-slate-800">
+      <div className="px-5 py-4 border-b border-gray-100 dark:border-slate-800">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-slate-100">
+          {title} <span className="text-sm font-normal text-gray-400 dark:text-slate-500">({builds.length})</span>
+        </h2>
+      </div>
+      {builds.length === 0 ? (
+        <div className="px-5 py-8 text-center text-sm text-gray-400 dark:text-slate-500">{emptyText}</div>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-slate-800/50" aria-label={`${title} builds`}>
+          {builds.map((build, index) => (
+            <li key={build.id} data-build-id={build.id} className="flex flex-wrap items-center gap-4 px-5 py-3">
+              <input
+                type="checkbox"
+                aria-label={`Select build #${build.id}`}
+                className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500 dark:border-slate-600 dark:bg-slate-800"
+                checked={selected.has(build.id)}
+                onChange={() => onToggle(build.id)}
+              />
+              <span className="w-8 text-sm font-semibold text-gray-400 dark:text-slate-500">
+                {build.position ?? ''}
+              </span>
+              <div className="flex-1 min-w-[14rem]">
+                <Link
+                  to={`/builds/${build.id}`}
+                  className="text-sm font-medium text-gray-900 hover:text-primary-600 dark:text-slate-100 dark:hover:text-primary-400"
+                >
+                  Build #{build.id}
+                </Link>
+                <span className="text-sm text-gray-500 dark:text-slate-400">
+                  {' · '}
+                  <Link to={`/projects/${build.projectId}`} className="hover:underline">
+                    {build.projectName}
+                  </Link>
+                </span>
+                <p className="text-xs text-gray-400 dark:text-slate-500">
+                  <span className="font-mono">
+                    {build.branch} · {build.shortCommitSha}
+                  </span>
+                  {' · '}
+                  {build.trigger}
+                  {build.ownerEmail && ` · ${build.ownerEmail}`}
+                </p>
+              </div>
+              {build.priority > 0 && (
+                <Badge variant="info" size="sm">
+                  priority {build.priority}
+                </Badge>
+              )}
+              <Badge variant={getBuildStatusVariant(build.status)} size="sm">
+                {build.status}
+              </Badge>
+              <span className="text-xs text-gray-400 dark:text-slate-500 min-w-[7rem] text-right tabular-nums">
+                {renderTime(build)}
+              </span>
+              {renderActions?.(build, index)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function MoveButton({
+  label,
+  disabled,
+  onClick,
+  children,
+}: {
+  label: string;
+  disabled: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      title={label}
+      aria-label={label}
+      disabled={disabled}
+      onClick={onClick}
+      className="h-7 w-7 rounded-md text-sm text-gray-500 hover:bg-gray-100 hover:text-gray-900 disabled:opacity-30 disabled:hover:bg-transparent dark:text-slate-400 dark:hover:bg-slate-800 dark:hover:text-slate-100"
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,329 @@
+// =============================================================================
+// pages/builds/BuildCompare.tsx
+//
+// Side-by-side comparison of two builds: commit range, per-step status and
+// duration changes, and a log diff aligned by step name. The route's :id is
+// the build under investigation, :otherId the baseline it is compared with.
+// =============================================================================
+
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link, useParams } from 'react-router-dom';
+import { getBuild } from '@/api/builds';
+import { Loading } from '@/components/ui/Loading';
+import { Alert } from '@/components/ui/Alert';
+import { Badge, getBuildStatusVariant } from '@/components/ui/Badge';
+import { collapseUnchanged, type DiffLine } from '@/components/log/logDiff';
+import { formatStepDuration, type LogSection } from '@/components/log/logSections';
+import { compareBuildSteps, diffStepLogs, type StepComparison } from '@/components/log/stepComparison';
+import { normalizeLogEntry } from '@/hooks/useLogBuffer';
+import type { BuildDetailsDto } from '@/types';
+
+export function BuildCompare() {
+  const { id, otherId } = useParams<{ id: string; otherId: string }>();
+
+  const headQuery = useQuery({
+    queryKey: ['build', id],
+    queryFn: () => getBuild(Number(id)),
+    enabled: !!id,
+  });
+
+  const baseQuery = useQuery({
+    queryKey: ['build', otherId],
+    queryFn: () => getBuild(Number(otherId)),
+    enabled: !!otherId,
+  });
+
+  const head = headQuery.data?.build;
+  const base = baseQuery.data?.build;
+
+  const steps = useMemo(() => {
+    if (!head || !base) return [];
+    return compareBuildSteps(
+      (base.logEntries ?? []).map(normalizeLogEntry),
+      (head.logEntries ?? []).map(normalizeLogEntry),
+    );
+  }, [head, base]);
+
+  if (headQuery.isLoading || baseQuery.isLoading) {
+    return <Loading size="lg" className="py-12" text="Loading builds..." />;
+  }
+
+  if (headQuery.error || baseQuery.error) {
+    return <Alert variant="error">Failed to load builds</Alert>;
+  }
+
+  if (!head || !base) {
+    return <Alert variant="error">Build not found</Alert>;
+  }
+
+  const changedSteps = steps.filter((step) => step.statusChanged).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-slate-100 tracking-tight">
+          Compare builds
+        </h1>
+        <p className="text-gray-500 dark:text-slate-400">
+          <Link to={`/projects/${head.projectId}`} className="text-primary-600 hover:underline dark:text-primary-400">
+            {head.projectName}
+          </Link>
+          {' · '}
+          <Link to={`/builds/${base.id}`} className="hover:underline">#{base.id}</Link>
+          {' → '}
+          <Link to={`/builds/${head.id}`} className="hover:underline">#{head.id}</Link>
+          {' · '}
+          <Link to={`/builds/${base.id}/compare/${head.id}`} className="text-primary-600 hover:underline dark:text-primary-400">
+            Swap
+          </Link>
+        </p>
+      </div>
+
+      {head.projectId !== base.projectId && (
+        <Alert variant="warning">These builds belong to different projects; steps may not line up.</Alert>
+      )}
+
+      {/* Build summaries */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <BuildSummaryCard label="Baseline" build={base} />
+        <BuildSummaryCard label="Compared" build={head} />
+      </div>
+
+      <CommitRange base={base} head={head} />
+
+      {/* Steps */}
+      <div className="bg-white border border-gray-200 rounded-xl dark:bg-slate-900 dark:border-slate-800">
+        <div className="px-4 py-5 sm:px-6 border-b border-gray-200 dark:border-slate-800 flex justify-between items-center">
+          <h2 className="text-lg font-medium text-gray-900 dark:text-slate-100">Steps</h2>
+          <span className="text-sm text-gray-500 dark:text-slate-400">
+            {changedSteps === 0 ? 'No status changes' : `${changedSteps} ${changedSteps === 1 ? 'step' : 'steps'} changed status`}
+          </span>
+        </div>
+        {steps.length === 0 ? (
+          <p className="px-4 py-6 sm:px-6 text-sm text-gray-500 dark:text-slate-400">Neither build has logged any steps.</p>
+        ) : (
+          <div className="divide-y divide-gray-100 dark:divide-slate-800">
+            <div className="hidden md:grid grid-cols-[minmax(0,1fr)_7rem_7rem_6rem_6rem_6rem_1.5rem] gap-3 px-4 sm:px-6 py-2 text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-slate-400">
+              <span>Step</span>
+              <span>Baseline</span>
+              <span>Compared</span>
+              <span className="text-right">Baseline</span>
+              <span className="text-right">Compared</span>
+              <span className="text-right">Change</span>
+              <span />
+            </div>
+            {steps.map((step) => (
+              <StepComparisonRow key={step.key} step={step} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function BuildSummaryCard({ label, build }: { label: string; build: BuildDetailsDto }) {
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl px-4 py-4 dark:bg-slate-900 dark:border-slate-800">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-500 dark:text-slate-400">{label}</span>
+        <Badge variant={getBuildStatusVariant(build.status)}>{build.status}</Badge>
+      </div>
+      <Link
+        to={`/builds/${build.id}`}
+        className="mt-1 block text-lg font-semibold text-gray-900 hover:underline dark:text-slate-100"
+      >
+        Build #{build.id}
+      </Link>
+      <p className="text-sm text-gray-600 dark:text-slate-300">
+        {build.branch} · <span className="font-mono">{build.shortCommitSha}</span>
+        {build.duration && ` · ${formatDuration(build.duration)}`}
+      </p>
+      {build.commitMessage && (
+        <p className="mt-1 text-sm text-gray-500 truncate dark:text-slate-400">{build.commitMessage}</p>
+      )}
+    </div>
+  );
+}
+
+function CommitRange({ base, head }: { base: BuildDetailsDto; head: BuildDetailsDto }) {
+  const sameCommit = base.commitSha === head.commitSha;
+  const compareUrl = !sameCommit && base.projectUrl?.startsWith('https://github.com/')
+    ? `${base.projectUrl.replace(/\/$/, '')}/compare/${base.commitSha}...${head.commitSha}`
+    : null;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl px-4 py-4 sm:px-6 dark:bg-slate-900 dark:border-slate-800 flex flex-wrap items-center justify-between gap-2">
+      <div>
+        <h2 className="text-sm font-medium text-gray-500 dark:text-slate-400">Commit range</h2>
+        <p className="mt-1 font-mono text-sm text-gray-900 dark:text-slate-100">
+          {sameCommit ? (
+            <>{head.shortCommitSha} <span className="font-sans text-gray-500 dark:text-slate-400">(same commit)</span></>
+          ) : (
+            <>{base.shortCommitSha}...{head.shortCommitSha}</>
+          )}
+        </p>
+      </div>
+      {compareUrl && (
+        <a
+          href={compareUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-primary-600 hover:text-primary-500 text-sm font-medium dark:text-primary-400 dark:hover:text-primary-300"
+        >
+          View changes on GitHub
+        </a>
+      )}
+    </div>
+  );
+}
+
+function StepComparisonRow({ step }: { step: StepComparison }) {
+  const [isExpanded, setIsExpanded] = useState(step.statusChanged);
+
+  return (
+    <div className={step.statusChanged ? 'bg-error-50/40 dark:bg-error-500/5' : undefined}>
+      <button
+        type="button"
+        onClick={() => setIsExpanded((expanded) => !expanded)}
+        aria-expanded={isExpanded}
+        data-compare-step={step.stepName ?? ''}
+        className="w-full grid grid-cols-2 md:grid-cols-[minmax(0,1fr)_7rem_7rem_6rem_6rem_6rem_1.5rem] gap-3 items-center px-4 sm:px-6 py-3 text-left text-sm hover:bg-gray-50 dark:hover:bg-slate-800/50"
+      >
+        <span className="col-span-2 md:col-span-1 font-medium text-gray-900 truncate dark:text-slate-100">
+          {step.stepName ?? <span className="italic text-gray-500 dark:text-slate-400">Output outside steps</span>}
+        </span>
+        <StepStatusBadge section={step.base} />
+        <StepStatusBadge section={step.head} />
+        <span className="text-right text-gray-600 dark:text-slate-300">
+          {step.baseDurationMs !== null ? formatStepDuration(step.baseDurationMs) : '—'}
+        </span>
+        <span className="text-right text-gray-600 dark:text-slate-300">
+          {step.headDurationMs !== null ? formatStepDuration(step.headDurationMs) : '—'}
+        </span>
+        <DurationDelta deltaMs={step.durationDeltaMs} baseMs={step.baseDurationMs} />
+        <svg
+          className={`hidden md:block w-4 h-4 text-gray-400 transition-transform ${isExpanded ? 'rotate-90' : ''}`}
+          viewBox="0 0 20 20"
+          fill="currentColor"
+          aria-hidden="true"
+        >
+          <path fillRule="evenodd" d="M7.21 14.77a.75.75 0 01.02-1.06L11.168 10 7.23 6.29a.75.75 0 111.04-1.08l4.5 4.25a.75.75 0 010 1.08l-4.5 4.25a.75.75 0 01-1.06-.02z" clipRule="evenodd" />
+        </svg>
+      </button>
+      {isExpanded && <StepLogDiff step={step} />}
+    </div>
+  );
+}
+
+const SECTION_STATUS_LABELS: Record<NonNullable<LogSection['status']>, { label: string; variant: 'success' | 'error' | 'info' | 'default' }> = {
+  success: { label: 'Passed', variant: 'success' },
+  failed: { label: 'Failed', variant: 'error' },
+  running: { label: 'Running', variant: 'info' },
+  skipped: { label: 'Skipped', variant: 'default' },
+};
+
+function StepStatusBadge({ section }: { section: LogSection | null }) {
+  if (!section) {
+    return <span className="text-sm text-gray-400 dark:text-slate-500">Not run</span>;
+  }
+  if (!section.status) {
+    return <span className="text-sm text-gray-400 dark:text-slate-500">—</span>;
+  }
+
+  const { label, variant } = SECTION_STATUS_LABELS[section.status];
+  return (
+    <span>
+      <Badge variant={variant} size="sm">{label}</Badge>
+    </span>
+  );
+}
+
+// Changes under a second or 10% are shown neutral to avoid flagging noise.
+function DurationDelta({ deltaMs, baseMs }: { deltaMs: number | null; baseMs: number | null }) {
+  if (deltaMs === null) {
+    return <span className="text-right text-gray-400 dark:text-slate-500">—</span>;
+  }
+
+  const significant = Math.abs(deltaMs) >= 1000 && (!baseMs || Math.abs(deltaMs) / baseMs >= 0.1);
+  const color = !significant
+    ? 'text-gray-500 dark:text-slate-400'
+    : deltaMs > 0 ? 'text-error-600 dark:text-error-400' : 'text-success-600 dark:text-success-400';
+
+  return (
+    <span className={`text-right font-medium ${color}`}>
+      {deltaMs > 0 ? '+' : deltaMs < 0 ? '−' : '±'}{formatStepDuration(Math.abs(deltaMs))}
+    </span>
+  );
+}
+
+function StepLogDiff({ step }: { step: StepComparison }) {
+  const diff = useMemo(() => diffStepLogs(step), [step]);
+
+  if (!diff) {
+    return (
+      <p className="px-4 sm:px-6 pb-4 text-sm text-gray-500 dark:text-slate-400">
+        These logs are too large to diff in the browser. Open the builds to compare them directly.
+      </p>
+    );
+  }
+
+  if (diff.length === 0) {
+    return <p className="px-4 sm:px-6 pb-4 text-sm text-gray-500 dark:text-slate-400">No log output.</p>;
+  }
+
+  const hunks = collapseUnchanged(diff);
+  const hasChanges = diff.some((line) => line.op !== 'equal');
+
+  return (
+    <div className="px-4 sm:px-6 pb-4">
+      {!hasChanges && (
+        <p className="mb-2 text-sm text-gray-500 dark:text-slate-400">Log output is identical.</p>
+      )}
+      <div className="bg-gray-900 text-gray-100 font-mono text-sm rounded-lg overflow-auto max-h-[480px] py-2 dark:bg-slate-950">
+        {hunks.map((hunk, index) => hunk.kind === 'collapsed' ? (
+          <div key={index} className="px-4 py-0.5 text-xs text-gray-500 italic">
+            ⋯ {hunk.count.toLocaleString()} unchanged {hunk.count === 1 ? 'line' : 'lines'}
+          </div>
+        ) : (
+          hunk.lines.map((line) => <DiffLineRow key={`${line.baseIndex}-${line.headIndex}`} line={line} />)
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const DIFF_LINE_STYLES: Record<DiffLine['op'], { marker: string; className: string }> = {
+  equal: { marker: ' ', className: 'text-gray-300' },
+  removed: { marker: '-', className: 'bg-error-500/15 text-error-300' },
+  added: { marker: '+', className: 'bg-success-500/15 text-success-300' },
+};
+
+function DiffLineRow({ line }: { line: DiffLine }) {
+  const { marker, className } = DIFF_LINE_STYLES[line.op];
+
+  return (
+    <div className={`flex whitespace-pre leading-5 ${className}`} data-diff-op={line.op}>
+      <span className="w-12 shrink-0 pr-2 text-right text-gray-500 select-none">{line.baseIndex !== null ? line.baseIndex + 1 : ''}</span>
+      <span className="w-12 shrink-0 pr-2 text-right text-gray-500 select-none">{line.headIndex !== null ? line.headIndex + 1 : ''}</span>
+      <span className="w-4 shrink-0 select-none">{marker}</span>
+      <span>{line.text}</span>
+    </div>
+  );
+}
+
+function formatDuration(duration: string): string {
+  const parts = duration.split(':');
+  if (parts.length === 3) {
+    const hours = parseInt(parts[0]);
+    const minutes = parseInt(parts[1]);
+    const seconds = parseInt(parts[2].split('.')[0]);
+
+    if (hours > 0) return `${hours}h ${minutes}m ${seconds}s`;
+    if (minutes > 0) return `${minutes}m ${seconds}s`;
+    return `${seconds}s`;
+  }
+  return duration;
+}
@@ -4,26 +4,58 @@
 // Build details page with real-time log streaming via SignalR.
 // =============================================================================
 
-import { useState, useEffect, useRef, type ReactNode } from 'react';
+import { useState, useMemo, type FormEvent } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useParams, Link } from 'react-router-dom';
-import { HubConnectionBuilder, HubConnection, LogLevel } from '@microsoft/signalr';
-import { getBuild, getBuildLogs, cancelBuild, retryBuild } from '@/api/builds';
+import { useParams, Link, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { getBuild, cancelBuild, retryBuild } from '@/api/builds';
 import { Loading } from '@/components/ui/Loading';
 import { Alert } from '@/components/ui/Alert';
 import { Badge, getBuildStatusVariant } from '@/components/ui/Badge';
 import { Button } from '@/components/ui/Button';
+import { Tabs } from '@/components/ui/Tabs';
+import { LogViewer } from '@/components/log/LogViewer';
+import { LogSearchBar } from '@/components/log/LogSearchBar';
+import { LogDownloadMenu } from '@/components/log/LogDownloadMenu';
+import { StepTimeline } from '@/components/log/StepTimeline';
+import { ArtifactBrowser } from '@/components/builds/ArtifactBrowser';
+import { BuildTestResults } from '@/components/builds/BuildTestResults';
+import { BuildCoverage } from '@/components/codeCoverage/BuildCoverage';
+import { formatLineHash, parseLineHash, type LogLineRange } from '@/components/log/logPermalink';
+import { stripAnsi } from '@/components/log/ansi';
+import { useLogSync, type LogSyncStatus } from '@/hooks/useLogSync';
+import { useHubEvent, useHubGroup, useHubStatus } from '@/hooks/useHub';
+import { buildLogGroup, type HubStatus } from '@/context/hubConnectionManager';
 import type { LogEntry } from '@/types';
+import { useLogSearch } from '@/hooks/useLogSearch';
+
+const BUILD_TABS = [
+  { id: 'overview', label: 'Overview' },
+  { id: 'tests', label: 'Tests' },
+  { id: 'coverage', label: 'Coverage' },
+];
 
 export function BuildDetails() {
   const { id } = useParams<{ id: string }>();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const activeTab = BUILD_TABS.some((tab) => tab.id === searchParams.get('tab'))
+    ? searchParams.get('tab')!
+    : 'overview';
   const queryClient = useQueryClient();
-  const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [isStreaming, setIsStreaming] = useState(false);
+  const buildId = Number(id);
+  const selectedLines = useMemo(() => parseLineHash(location.hash), [location.hash]);
+  const {
+    entries: logs,
+    droppedCount,
+    status: syncStatus,
+    receive: receiveLog,
+    resync: resyncLogs,
+  } = useLogSync(buildId);
+  const logSearch = useLogSearch(logs);
+  const hubStatus = useHubStatus();
   const [autoScroll, setAutoScroll] = useState(true);
   const [copyStatus, setCopyStatus] = useState<'idle' | 'success' | 'error'>('idle');
-  const logsContainerRef = useRef<HTMLDivElement>(null);
-  const connectionRef = useRef<HubConnection | null>(null);
 
   const { data, isLoading, error } = useQuery({
     queryKey: ['build', id],
@@ -36,69 +68,23 @@ export function BuildDetails() {
     },
   });
 
-  const { data: logsData } = useQuery({
-    queryKey: ['build-logs', id],
-    queryFn: () => getBuildLogs(Number(id)),
-    enabled: !!id,
-  });
+  // Stream logs over the shared hub connection while the build is in progress.
+  // Every (re)join backfills from the highest sequence seen.
+  const isWatching = data?.build?.status === 'Running' || data?.build?.status === 'Pending';
 
-  // Initialize logs from API
-  useEffect(() => {
-    if (logsData?.logs) {
-      setLogs(logsData.logs);
-    }
-  }, [logsData]);
+  useHubGroup(isWatching ? buildLogGroup(buildId) : null, resyncLogs);
 
-  // SignalR connection for real-time logs
-  useEffect(() => {
-    const build = data?.build;
-    if (!build || (build.status !== 'Running' && build.status !== 'Pending')) {
-      return;
+  useHubEvent<LogEntry & { type?: string; buildId?: number }>('LogEntry', (logEntry) => {
+    if (logEntry.buildId === undefined || logEntry.buildId === buildId) {
+      receiveLog(logEntry);
     }
+  }, isWatching);
 
-    const connection = new HubConnectionBuilder()
-      .withUrl('/hubs/build-logs')
-      .withAutomaticReconnect()
-      .configureLogging(LogLevel.Warning)
-      .build();
-
-    connectionRef.current = connection;
-
-    connection.on('LogEntry', (logEntry: LogEntry & { type?: string }) => {
-      const normalized: LogEntry = {
-        ...logEntry,
-        level: logEntry.level || logEntry.type || 'Output',
-      };
-      setLogs((prev) => [...prev, normalized]);
-    });
-
-    connection.on('BuildCompleted', () => {
-      setIsStreaming(false);
-      queryClient.invalidateQueries({ queryKey: ['build', id] });
-    });
-
-    connection
-      .start()
-      .then(() => {
-        setIsStreaming(true);
-        return connection.invoke('JoinBuildLog', Number(id));
-      })
-      .catch((err) => {
-        console.error('SignalR connection error:', err);
-      });
-
-    return () => {
-      connection.stop();
-      connectionRef.current = null;
-    };
-  }, [data?.build?.status, id, queryClient]);
-
-  // Auto-scroll logs
-  useEffect(() => {
-    if (autoScroll && logsContainerRef.current) {
-      logsContainerRef.current.scrollTop = logsContainerRef.current.scrollHeight;
-    }
-  }, [logs, autoScroll]);
+  useHubEvent<{ buildId: number }>('BuildCompleted', (event) => {
+    if (event.buildId !== buildId) return;
+    resyncLogs();
+    queryClient.invalidateQueries({ queryKey: ['build', id] });
+  }, isWatching);
 
   const cancelMutation = useMutation({
     mutationFn: () => cancelBuild(Number(id)),
@@ -132,6 +118,10 @@ export function BuildDetails() {
 
   const isInProgress = build.status === 'Running' || build.status === 'Pending';
 
+  const handleSelectLines = (range: LogLineRange) => {
+    navigate({ hash: formatLineHash(range) }, { replace: true });
+  };
+
   const handleCopyLogs = async () => {
     const payload = logs
       .map((log) => `[${new Date(log.timestamp).toISOString()}] ${stripAnsi(log.message)}`)
@@ -154,9 +144,11 @@ export function BuildDetails() {
         <div>
           <div className="flex items-center space-x-3">
             <h1 className="text-2xl font-bold text-gray-900 dark:text-slate-100 tracking-tight">Build #{build.id}</h1>
-            <Badge variant={getBuildStatusVariant(build.status)} size="lg">
-              {build.status}
-            </Badge>
+            <span title={build.cancellationReason ?? undefined}>
+              <Badge variant={getBuildStatusVariant(build.status)} size="lg">
+                {build.status}
+              </Badge>
+            </span>
           </div>
           <p className="text-gray-500 dark:text-slate-400">
             <Link to={`/projects/${build.projectId}`} className="text-primary-600 hover:underline dark:text-primary-400">
@@ -169,6 +161,7 @@ export function BuildDetails() {
           )}
         </div>
         <div className="flex space-x-3">
+          <CompareWithForm buildId={build.id} />
           {isInProgress && (
             <Button
               variant="danger"
@@ -189,6 +182,20 @@ export function BuildDetails() {
         </div>
       </div>
 
+      {build.status === 'Cancelled' && build.cancellationReason && (
+        <Alert variant="info">
+          {build.cancellationReason}
+          {build.supersededByBuildId && (
+            <>
+              {' · '}
+              <Link to={`/builds/${build.supersededByBuildId}`} className="underline">
+                View build #{build.supersededByBuildId}
+              </Link>
+            </>
+          )}
+        </Alert>
+      )}
+
       {/* Build Info */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <InfoCard title="Started" value={build.startedAt ? formatDateTime(build.startedAt) : 'Pending'} />
@@ -197,232 +204,159 @@ export function BuildDetails() {
         <InfoCard title="Triggered By" value={build.triggeredBy || 'Webhook'} />
       </div>
 
-      {/* Artifacts */}
-      {build.artifacts && build.artifacts.length > 0 && (
-        <div className="bg-white border border-gray-200 rounded-xl dark:bg-slate-900 dark:border-slate-800">
-          <div className="px-4 py-5 sm:px-6 border-b border-gray-200 dark:border-slate-800">
-            <h2 className="text-lg font-medium text-gray-900 dark:text-slate-100">Artifacts</h2>
-          </div>
-          <div className="divide-y divide-gray-100 dark:divide-slate-800">
-            {build.artifacts.map((artifact) => (
-              <div key={artifact.id} className="px-4 py-3 flex items-center justify-between">
-                {/*
-                  Test fixtures may provide legacy artifact field names (name/sizeBytes).
-                  Normalize to avoid blank names and NaN sizes in the UI.
-                */}
-                {(() => {
-                  const artifactLike = artifact as typeof artifact & { name?: string; sizeBytes?: number };
-                  const displayName = artifact.fileName || artifactLike.name || `Artifact ${artifact.id}`;
-                  const displaySize = typeof artifact.fileSize === 'number'
-                    ? artifact.fileSize
-                    : (typeof artifactLike.sizeBytes === 'number' ? artifactLike.sizeBytes : 0);
-
-                  return (
-                <div>
-                      <p className="text-sm font-medium text-gray-900 dark:text-slate-100">{displayName}</p>
-                      <p className="text-xs text-gray-500 dark:text-slate-400">{formatFileSize(displaySize)}</p>
-                </div>
-                  );
-                })()}
-                <a
-                  href={`/api/builds/${build.id}/artifacts/${artifact.id}`}
-                  className="text-primary-600 hover:text-primary-500 text-sm font-medium dark:text-primary-400 dark:hover:text-primary-300"
-                  download
+      <Tabs
+        tabs={BUILD_TABS}
+        activeTab={activeTab}
+        onChange={(tab) => setSearchParams(tab === 'overview' ? {} : { tab })}
+        label="Build sections"
+      />
+
+      {activeTab === 'tests' && <BuildTestResults buildId={build.id} isInProgress={isInProgress} />}
+
+      {activeTab === 'coverage' && <BuildCoverage buildId={build.id} isInProgress={isInProgress} />}
+
+      {activeTab === 'overview' && (
+        <>
+          <StepTimeline
+            entries={logs}
+            startedAt={build.startedAt}
+            finishedAt={build.finishedAt}
+            isLive={isInProgress}
+            stepsTotal={build.stepsTotal}
+            stepsCompleted={build.stepsCompleted}
+            stepsFailed={build.stepsFailed}
+          />
+
+          {/* Artifacts */}
+          {build.artifacts && build.artifacts.length > 0 && (
+            <ArtifactBrowser buildId={build.id} artifacts={build.artifacts} />
+          )}
+
+          {/* Build Logs */}
+          <div className="bg-white border border-gray-200 rounded-xl dark:bg-slate-900 dark:border-slate-800">
+            <div className="px-4 py-5 sm:px-6 border-b border-gray-200 dark:border-slate-800 flex justify-between items-center">
+              <div className="flex items-center space-x-3">
+                <h2 className="text-lg font-medium text-gray-900 dark:text-slate-100">Build Logs</h2>
+                <LogSyncIndicator status={syncStatus} hubStatus={hubStatus} isLive={isInProgress} />
+              </div>
+              <div className="flex items-center gap-3">
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="sm"
+                  onClick={handleCopyLogs}
+                  disabled={logs.length === 0}
                 >
-                  Download
-                </a>
+                  {copyStatus === 'success' ? 'Copied' : (copyStatus === 'error' ? 'Copy failed' : 'Copy logs')}
+                </Button>
+                <LogDownloadMenu buildId={build.id} disabled={logs.length === 0} />
+                <label className="flex items-center text-sm text-gray-600 dark:text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={autoScroll}
+                    onChange={(e) => setAutoScroll(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Auto-scroll
+                </label>
               </div>
-            ))}
+            </div>
+            <LogSearchBar search={logSearch} />
+            <LogViewer
+              entries={logs}
+              droppedCount={droppedCount}
+              followTail={autoScroll}
+              onFollowTailChange={setAutoScroll}
+              isLive={isInProgress}
+              levels={logSearch.levels}
+              matches={logSearch.matches}
+              activeMatchIndex={logSearch.activeIndex}
+              selectedRange={selectedLines}
+              onSelectRange={handleSelectLines}
+              emptyMessage={logs.length > 0
+                ? 'No log lines match the selected levels'
+                : (isInProgress ? 'Waiting for logs...' : 'No logs available')}
+            />
           </div>
-        </div>
+        </>
       )}
-
-      {/* Build Logs */}
-      <div className="bg-white border border-gray-200 rounded-xl dark:bg-slate-900 dark:border-slate-800">
-        <div className="px-4 py-5 sm:px-6 border-b border-gray-200 dark:border-slate-800 flex justify-between items-center">
-          <div className="flex items-center space-x-3">
-            <h2 className="text-lg font-medium text-gray-900 dark:text-slate-100">Build Logs</h2>
-            {isStreaming && (
-              <span className="flex items-center text-sm text-success-600 dark:text-success-400">
-                <span className="w-2 h-2 bg-success-500 rounded-full mr-2 animate-pulse"></span>
-                Live
-              </span>
-            )}
-          </div>
-          <div className="flex items-center gap-3">
-            <Button
-              type="button"
-              variant="secondary"
-              size="sm"
-              onClick={handleCopyLogs}
-              disabled={logs.length === 0}
-            >
-              {copyStatus === 'success' ? 'Copied' : (copyStatus === 'error' ? 'Copy failed' : 'Copy logs')}
-            </Button>
-            <label className="flex items-center text-sm text-gray-600 dark:text-slate-300">
-              <input
-                type="checkbox"
-                checked={autoScroll}
-                onChange={(e) => setAutoScroll(e.target.checked)}
-                className="mr-2"
-              />
-              Auto-scroll
-            </label>
-          </div>
-        </div>
-        <div
-          ref={logsContainerRef}
-          className="bg-gray-900 text-gray-100 font-mono text-sm p-4 overflow-auto dark:bg-slate-950"
-          style={{ maxHeight: '600px' }}
-        >
-          {logs.length === 0 ? (
-            <div className="text-gray-500 italic dark:text-slate-1000">
-              {isInProgress ? 'Waiting for logs...' : 'No logs available'}
-            </div>
-          ) : (
-            logs.map((log) => (
-              <div
-                key={log.id}
-                className="whitespace-pre-wrap"
-              >
-                <span className="text-gray-500 select-none dark:text-slate-1000">
-                  [{formatTime(log.timestamp)}]
-                </span>{' '}
-                {renderAnsiLogMessage(log.message, getLogColor(log.level))}
-              </div>
-            ))
-          )}
-        </div>
-      </div>
-    </div>
-  );
-}
-
-function InfoCard({ title, value }: { title: string; value: string }) {
-  return (
-    <div className="bg-white border border-gray-200 rounded-xl px-4 py-4 dark:bg-slate-900 dark:border-slate-800">
-      <dt className="text-sm font-medium text-gray-500 dark:text-slate-400">{title}</dt>
-      <dd className="mt-1 text-sm text-gray-900 dark:text-slate-100">{value}</dd>
     </div>
   );
 }
 
-function getLogColor(level?: string): string {
-  switch (level?.toLowerCase()) {
-    case 'error':
-      return 'text-error-400';
-    case 'warning':
-      return 'text-warning-400';
-    case 'success':
-      return 'text-success-400';
-    default:
-      return 'text-gray-100';
+function LogSyncIndicator({ status, hubStatus, isLive }: { status: LogSyncStatus; hubStatus: HubStatus; isLive: boolean }) {
+  if (isLive && (hubStatus === 'reconnecting' || status === 'resyncing')) {
+    return (
+      <span className="flex items-center text-sm text-warning-600 dark:text-warning-400" role="status">
+        <span className="w-2 h-2 bg-warning-500 rounded-full mr-2 animate-pulse"></span>
+        {hubStatus === 'reconnecting' ? 'Reconnecting…' : 'Resyncing…'}
+      </span>
+    );
   }
-}
-
-function stripAnsi(value: string): string {
-  return value.replace(/\u001b\[[0-9;]*m/g, '');
-}
 
-function renderAnsiLogMessage(message: string, fallbackClass: string) {
-  const ansiPattern = /\u001b\[([0-9;]*)m/g;
-  const segments: ReactNode[] = [];
-  let currentClass = fallbackClass;
-  let lastIndex = 0;
-  let match: RegExpExecArray | null;
-
-  while ((match = ansiPattern.exec(message)) !== null) {
-    if (match.index > lastIndex) {
-      const text = message.slice(lastIndex, match.index);
-      segments.push(
-        <span key={`${lastIndex}-${match.index}`} className={currentClass}>
-          {text}
-        </span>,
-      );
-    }
+  if (status === 'error') {
+    return (
+      <span className="text-sm text-error-600 dark:text-error-400" role="status">
+        Some log lines could not be loaded
+      </span>
+    );
+  }
 
-    const codes = match[1]
-      .split(';')
-      .filter((part) => part.length > 0)
-      .map((part) => parseInt(part, 10));
+  if (!isLive || hubStatus !== 'connected') {
+    return null;
+  }
 
-    if (codes.length === 0) {
-      currentClass = fallbackClass;
-    }
+  return (
+    <span className="flex items-center text-sm text-success-600 dark:text-success-400" role="status">
+      <span className="w-2 h-2 bg-success-500 rounded-full mr-2 animate-pulse"></span>
+      {status === 'resynced' ? 'Resynced' : 'Live'}
+    </span>
+  );
+}
 
-    for (const code of codes) {
-      if (code === 0 || code === 39) {
-        currentClass = fallbackClass;
-        continue;
-      }
+function CompareWithForm({ buildId }: { buildId: number }) {
+  const navigate = useNavigate();
+  const [otherId, setOtherId] = useState('');
 
-      const mappedClass = getAnsiColorClass(code);
-      if (mappedClass) {
-        currentClass = mappedClass;
-      }
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const other = parseInt(otherId.replace(/^#/, ''), 10);
+    if (other > 0 && other !== buildId) {
+      navigate(`/builds/${buildId}/compare/${other}`);
     }
+  };
 
-    lastIndex = ansiPattern.lastIndex;
-  }
-
-  if (lastIndex < message.length) {
-    segments.push(
-      <span key={`${lastIndex}-${message.length}`} className={currentClass}>
-        {message.slice(lastIndex)}
-      </span>,
-    );
-  }
-
-  return segments.length > 0 ? segments : <span className={fallbackClass}>{message}</span>;
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center gap-2">
+      <input
+        type="text"
+        inputMode="numeric"
+        value={otherId}
+        onChange={(e) => setOtherId(e.target.value)}
+        placeholder="Build #"
+        aria-label="Build number to compare with"
+        className="w-24 rounded-lg px-3 py-2 text-sm bg-white border border-gray-200 text-gray-900 placeholder-gray-400 focus:border-primary-500 focus:ring-1 focus:ring-primary-500 dark:bg-slate-800 dark:border-slate-700 dark:text-slate-100 dark:placeholder-slate-500"
+      />
+      <Button type="submit" variant="secondary" disabled={!otherId.trim()}>
+        Compare
+      </Button>
+    </form>
+  );
 }
 
-function getAnsiColorClass(code: number): string | null {
-  switch (code) {
-    case 30:
-      return 'text-gray-500';
-    case 31:
-      return 'text-error-400';
-    case 32:
-      return 'text-success-400';
-    case 33:
-      return 'text-warning-400';
-    case 34:
-      return 'text-blue-400';
-    case 35:
-      return 'text-fuchsia-400';
-    case 36:
-      return 'text-cyan-400';
-    case 37:
-      return 'text-gray-100';
-    case 90:
-      return 'text-gray-400';
-    case 91:
-      return 'text-red-300';
-    case 92:
-      return 'text-green-300';
-    case 93:
-      return 'text-yellow-300';
-    case 94:
-      return 'text-blue-300';
-    case 95:
-      return 'text-fuchsia-300';
-    case 96:
-      return 'text-cyan-300';
-    case 97:
-      return 'text-white';
-    default:
-      return null;
-  }
+function InfoCard({ title, value }: { title: string; value: string }) {
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl px-4 py-4 dark:bg-slate-900 dark:border-slate-800">
+      <dt className="text-sm font-medium text-gray-500 dark:text-slate-400">{title}</dt>
+      <dd className="mt-1 text-sm text-gray-900 dark:text-slate-100">{value}</dd>
+    </div>
+  );
 }
 
 function formatDateTime(dateStr: string): string {
   return new Date(dateStr).toLocaleString();
 }
 
-function formatTime(dateStr: string): string {
-  return new Date(dateStr).toLocaleTimeString();
-}
-
 function formatDuration(duration: string): string {
   const parts = duration.split(':');
   if (parts.length === 3) {
@@ -436,10 +370,3 @@ function formatDuration(duration: string): string {
   }
   return duration;
 }
-
-function formatFileSize(bytes: number): string {
-  if (bytes < 1024) return `${bytes} B`;
-  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
-  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
-}
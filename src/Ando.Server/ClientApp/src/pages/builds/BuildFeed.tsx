@@ -0,0 +1,211 @@
+// =============================================================================
+// pages/builds/BuildFeed.tsx
+//
+// Builds across all of the user's projects, newest first. Rows update in place
+// from BuildStatusChanged hub events; newly queued builds trigger a refetch.
+// Filters and the running/failed quick views live in the URL.
+// =============================================================================
+
+import { useMemo } from 'react';
+import { useInfiniteQuery, useQueryClient, type InfiniteData } from '@tanstack/react-query';
+import { Link, useSearchParams } from 'react-router-dom';
+import { getBuildFeed } from '@/api/builds';
+import { Loading } from '@/components/ui/Loading';
+import { Alert } from '@/components/ui/Alert';
+import { Badge, getBuildStatusVariant } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { BuildFilterBar } from '@/components/builds/BuildFilterBar';
+import { countActiveFilters, formatTriggerLabel, parseBuildFilters, writeBuildFilters } from '@/components/builds/buildFilters';
+import { applyBuildStatusChange, findBuild } from '@/components/builds/buildFeed';
+import { useHubEvent } from '@/hooks/useHub';
+import type {
+  BuildFeedItemDto,
+  BuildHistoryFilters,
+  BuildHistoryPage,
+  BuildStatus,
+  BuildStatusChangedEvent,
+} from '@/types';
+
+type FeedData = InfiniteData<BuildHistoryPage<BuildFeedItemDto>, string | null>;
+
+const QUICK_VIEWS: { label: string; status: BuildStatus | undefined }[] = [
+  { label: 'All builds', status: undefined },
+  { label: 'Running', status: 'Running' },
+  { label: 'Failed', status: 'Failed' },
+];
+
+export function BuildFeed() {
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseBuildFilters(searchParams), [searchParams]);
+  const queryKey = ['buildFeed', filters];
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey,
+    queryFn: ({ pageParam }) => getBuildFeed(filters, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const refetchFeed = () => {
+    queryClient.invalidateQueries({ queryKey: ['buildFeed'] });
+  };
+
+  useHubEvent('BuildQueued', refetchFeed);
+  useHubEvent<BuildStatusChangedEvent>('BuildStatusChanged', (event) => {
+    const cached = queryClient.getQueryData<FeedData>(queryKey);
+    // A status filter may now include or exclude the build; refetch instead of patching.
+    if (filters.status || !findBuild(cached, event.buildId)) {
+      refetchFeed();
+      return;
+    }
+    queryClient.setQueryData<FeedData>(queryKey, (current) => applyBuildStatusChange(current, event));
+  });
+
+  const applyFilters = (next: BuildHistoryFilters) => {
+    setSearchParams(writeBuildFilters(searchParams, next));
+  };
+
+  const builds = data?.pages.flatMap((page) => page.builds) ?? [];
+  const hasFilters = countActiveFilters(filters) > 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-slate-100 tracking-tight">Builds</h1>
+        <div className="flex gap-1 rounded-lg bg-gray-100 p-1 dark:bg-slate-800" role="group" aria-label="Quick views">
+          {QUICK_VIEWS.map((view) => {
+            const isActive = filters.status === view.status;
+            return (
+              <button
+                key={view.label}
+                type="button"
+                aria-pressed={isActive}
+                onClick={() => applyFilters({ ...filters, status: view.status })}
+                className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                  isActive
+                    ? 'bg-white text-gray-900 shadow-sm dark:bg-slate-900 dark:text-slate-100'
+                    : 'text-gray-500 hover:text-gray-700 dark:text-slate-400 dark:hover:text-slate-200'
+                }`}
+              >
+                {view.label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white border border-gray-200 rounded-xl px-5 py-4 dark:bg-slate-900 dark:border-slate-800">
+        <BuildFilterBar key={JSON.stringify(filters)} filters={filters} onChange={applyFilters} />
+      </div>
+
+      {/* Builds */}
+      {isLoading ? (
+        <Loading size="lg" className="py-12" text="Loading builds..." />
+      ) : error ? (
+        <Alert variant="error">Failed to load builds</Alert>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-xl overflow-hidden dark:bg-slate-900 dark:border-slate-800">
+          <div className="divide-y divide-gray-100 dark:divide-slate-800/50">
+            {builds.length === 0 ? (
+              <div className="px-5 py-10 text-center text-gray-400 dark:text-slate-500 text-sm">
+                {hasFilters ? 'No builds match these filters.' : 'No builds yet.'}
+              </div>
+            ) : (
+              builds.map((build) => (
+                <Link
+                  key={build.id}
+                  to={`/builds/${build.id}`}
+                  className="flex items-center gap-4 px-5 py-3.5 hover:bg-gray-50 dark:hover:bg-slate-800/50 transition-colors"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-semibold text-gray-900 dark:text-slate-100 truncate">
+                      {build.projectName}
+                      <span className="ml-2 font-normal text-gray-400 dark:text-slate-500">#{build.id}</span>
+                    </p>
+                    <p className="text-xs text-gray-400 dark:text-slate-500 font-mono mt-0.5 truncate">
+                      {build.branch}@{build.shortCommitSha}
+                      {build.commitMessage && <span className="font-sans"> · {build.commitMessage}</span>}
+                    </p>
+                  </div>
+                  <span className="hidden md:block text-xs text-gray-500 dark:text-slate-400 min-w-[96px] truncate">
+                    {build.commitAuthor ?? '—'}
+                  </span>
+                  <span className="hidden sm:block text-xs text-gray-500 dark:text-slate-400 min-w-[84px]">
+                    {formatTriggerLabel(build.trigger)}
+                    {build.pullRequestNumber !== null && ` #${build.pullRequestNumber}`}
+                  </span>
+                  <Badge variant={getBuildStatusVariant(build.status)}>
+                    {build.status}
+                  </Badge>
+                  <span className="text-xs font-mono text-gray-400 dark:text-slate-500 min-w-[56px] text-right">
+                    {build.duration ? formatDuration(build.duration) : ''}
+                  </span>
+                  <span
+                    className="text-xs text-gray-400 dark:text-slate-500 min-w-[60px] text-right"
+                    title={new Date(build.queuedAt).toLocaleString()}
+                  >
+                    {formatDate(build.queuedAt)}
+                  </span>
+                </Link>
+              ))
+            )}
+          </div>
+          {hasNextPage && (
+            <div className="px-5 py-3 border-t border-gray-100 text-center dark:border-slate-800">
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => fetchNextPage()}
+                isLoading={isFetchingNextPage}
+              >
+                Load more
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatDuration(duration: string): string {
+  const parts = duration.split(':');
+  if (parts.length === 3) {
+    const hours = parseInt(parts[0]);
+    const minutes = parseInt(parts[1]);
+    const seconds = parseInt(parts[2].split('.')[0]);
+
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    if (minutes > 0) return `${minutes}m ${seconds}s`;
+    return `${seconds}s`;
+  }
+  return duration;
+}
+
+function formatDate(dateStr: string): string {
+  const date = new Date(dateStr);
+  const now = new Date();
+  const diffMs = now.getTime() - date.getTime();
+  const diffMins = Math.floor(diffMs / 60000);
+
+  if (diffMins < 1) return 'just now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+
+  const diffHours = Math.floor(diffMins / 60);
+  if (diffHours < 24) return `${diffHours}h ago`;
+
+  const diffDays = Math.floor(diffHours / 24);
+  if (diffDays < 7) return `${diffDays}d ago`;
+
+  return date.toLocaleDateString();
+}
@@ -4,18 +4,37 @@
 // Project details page showing project info and build history.
 // =============================================================================
 
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useParams, Link, useNavigate } from 'react-router-dom';
-import { getProject, triggerBuild } from '@/api/projects';
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useParams, Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { getProject } from '@/api/projects';
 import { Loading } from '@/components/ui/Loading';
 import { Alert } from '@/components/ui/Alert';
 import { Badge, getBuildStatusVariant } from '@/components/ui/Badge';
 import { Button } from '@/components/ui/Button';
+import { Tabs } from '@/components/ui/Tabs';
+import { ProjectAnalytics } from '@/components/analytics/ProjectAnalytics';
+import { ProjectBranches } from '@/components/branches/ProjectBranches';
+import { ProjectPullRequests } from '@/components/pullRequests/ProjectPullRequests';
+import { CoverageTrendCard } from '@/components/codeCoverage/CoverageTrendCard';
+import { TriggerBuildDialog } from '@/components/builds/TriggerBuildDialog';
+
+const PROJECT_TABS = [
+  { id: 'overview', label: 'Overview' },
+  { id: 'branches', label: 'Branches' },
+  { id: 'pull-requests', label: 'Pull Requests' },
+  { id: 'analytics', label: 'Analytics' },
+];
 
 export function ProjectDetails() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [isTriggerDialogOpen, setTriggerDialogOpen] = useState(false);
+  const activeTab = PROJECT_TABS.some((tab) => tab.id === searchParams.get('tab'))
+    ? searchParams.get('tab')!
+    : 'overview';
 
   const { data, isLoading, error } = useQuery({
     queryKey: ['project', id],
@@ -23,15 +42,10 @@ export function ProjectDetails() {
     enabled: !!id,
   });
 
-  const triggerMutation = useMutation({
-    mutationFn: () => triggerBuild(Number(id)),
-    onSuccess: (result) => {
-      if (result.buildId) {
-        navigate(`/builds/${result.buildId}`);
-      }
-      queryClient.invalidateQueries({ queryKey: ['project', id] });
-    },
-  });
+  const handleTriggered = (buildId: number) => {
+    queryClient.invalidateQueries({ queryKey: ['project', id] });
+    navigate(`/builds/${buildId}`);
+  };
 
   if (isLoading) {
     return <Loading size="lg" className="py-12" text="Loading project..." />;
@@ -67,15 +81,21 @@ export function ProjectDetails() {
           <Link to={`/projects/${id}/settings`}>
             <Button variant="secondary">Settings</Button>
           </Link>
-          <Button
-            onClick={() => triggerMutation.mutate()}
-            isLoading={triggerMutation.isPending}
-          >
+          <Button onClick={() => setTriggerDialogOpen(true)}>
             Trigger Build
           </Button>
         </div>
       </div>
 
+      {isTriggerDialogOpen && (
+        <TriggerBuildDialog
+          projectId={project.id}
+          defaultBranch={project.defaultBranch}
+          onClose={() => setTriggerDialogOpen(false)}
+          onTriggered={handleTriggered}
+        />
+      )}
+
       {/* Configuration Warning */}
       {!project.isConfigured && (
         <Alert variant="warning">
@@ -86,62 +106,91 @@ export function ProjectDetails() {
         </Alert>
       )}
 
-      {/* Stats */}
-      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-        <StatCard title="Total Builds" value={project.totalBuilds} />
-        <StatCard title="Successful" value={project.successfulBuilds} valueClass="text-success-600 dark:text-success-400" />
-        <StatCard title="Failed" value={project.failedBuilds} valueClass="text-error-600 dark:text-error-400" />
-        <StatCard
-          title="Success Rate"
-          value={project.totalBuilds > 0
-            ? `${Math.round((project.successfulBuilds / project.totalBuilds) * 100)}%`
-            : 'N/A'
-          }
-        />
-      </div>
+      <Tabs
+        tabs={PROJECT_TABS}
+        activeTab={activeTab}
+        onChange={(tab) => setSearchParams(tab === 'overview' ? {} : { tab })}
+        label="Project sections"
+      />
 
-      {/* Recent Builds */}
-      <div className="bg-white border border-gray-200 rounded-xl overflow-hidden dark:bg-slate-900 dark:border-slate-800">
-        <div className="px-5 py-4 border-b border-gray-100 dark:border-slate-800">
-          <h2 className="text-sm font-semibold text-gray-900 dark:text-slate-100">Recent Builds</h2>
-        </div>
-        <div className="divide-y divide-gray-100 dark:divide-slate-800/50">
-          {project.recentBuilds.length === 0 ? (
-            <div className="px-5 py-10 text-center text-gray-400 dark:text-slate-500 text-sm">
-              No builds yet. Trigger a build to get started.
+      {activeTab === 'branches' && <ProjectBranches projectId={project.id} />}
+
+      {activeTab === 'pull-requests' && (
+        <ProjectPullRequests projectId={project.id} enablePrBuilds={project.enablePrBuilds} />
+      )}
+
+      {activeTab === 'analytics' && <ProjectAnalytics projectId={project.id} />}
+
+      {activeTab === 'overview' && (
+        <>
+          {/* Stats */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <StatCard title="Total Builds" value={project.totalBuilds} />
+            <StatCard title="Successful" value={project.successfulBuilds} valueClass="text-success-600 dark:text-success-400" />
+            <StatCard title="Failed" value={project.failedBuilds} valueClass="text-error-600 dark:text-error-400" />
+            <StatCard
+              title="Success Rate"
+              value={project.totalBuilds > 0
+                ? `${Math.round((project.successfulBuilds / project.totalBuilds) * 100)}%`
+                : 'N/A'
+              }
+            />
+          </div>
+
+          <CoverageTrendCard projectId={project.id} />
+
+          {/* Recent Builds */}
+          <div className="bg-white border border-gray-200 rounded-xl overflow-hidden dark:bg-slate-900 dark:border-slate-800">
+            <div className="px-5 py-4 border-b border-gray-100 dark:border-slate-800 flex justify-between items-center">
+              <h2 className="text-sm font-semibold text-gray-900 dark:text-slate-100">Recent Builds</h2>
+              {project.totalBuilds > 0 && (
+                <Link
+                  to={`/projects/${id}/builds`}
+                  className="text-xs font-medium text-primary-600 hover:text-primary-500 dark:text-primary-400 dark:hover:text-primary-300"
+                >
+                  View all builds →
+                </Link>
+              )}
             </div>
-          ) : (
-            project.recentBuilds.map((build) => (
-              <Link
-                key={build.id}
-                to={`/builds/${build.id}`}
-                className="flex items-center gap-4 px-5 py-3.5 hover:bg-gray-50 dark:hover:bg-slate-800/50 transition-colors"
-              >
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm font-semibold text-gray-900 dark:text-slate-100">
-                    Build #{build.id}
-                  </p>
-                  <p className="text-xs text-gray-400 dark:text-slate-500 font-mono mt-0.5">
-                    {build.branch}@{build.shortCommitSha}
-                    {build.commitMessage && <span className="text-gray-400 dark:text-slate-500 font-sans"> · {build.commitMessage}</span>}
-                  </p>
+            <div className="divide-y divide-gray-100 dark:divide-slate-800/50">
+              {project.recentBuilds.length === 0 ? (
+                <div className="px-5 py-10 text-center text-gray-400 dark:text-slate-500 text-sm">
+                  No builds yet. Trigger a build to get started.
                 </div>
-                <Badge variant={getBuildStatusVariant(build.status)}>
-                  {build.status}
-                </Badge>
-                {build.duration && (
-                  <span className="text-xs font-mono text-gray-400 dark:text-slate-500 min-w-[56px] text-right">
-                    {formatDuration(build.duration)}
-                  </span>
-                )}
-                <span className="text-xs text-gray-400 dark:text-slate-500 min-w-[60px] text-right">
-                  {formatDate(build.queuedAt)}
-                </span>
-              </Link>
-            ))
-          )}
-        </div>
-      </div>
+              ) : (
+                project.recentBuilds.map((build) => (
+                  <Link
+                    key={build.id}
+                    to={`/builds/${build.id}`}
+                    className="flex items-center gap-4 px-5 py-3.5 hover:bg-gray-50 dark:hover:bg-slate-800/50 transition-colors"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-semibold text-gray-900 dark:text-slate-100">
+                        Build #{build.id}
+                      </p>
+                      <p className="text-xs text-gray-400 dark:text-slate-500 font-mono mt-0.5">
+                        {build.branch}@{build.shortCommitSha}
+                        {build.commitMessage && <span className="text-gray-400 dark:text-slate-500 font-sans"> · {build.commitMessage}</span>}
+                      </p>
+                    </div>
+                    <Badge variant={getBuildStatusVariant(build.status)}>
+                      {build.status}
+                    </Badge>
+                    {build.duration && (
+                      <span className="text-xs font-mono text-gray-400 dark:text-slate-500 min-w-[56px] text-right">
+                        {formatDuration(build.duration)}
+                      </span>
+                    )}
+                    <span className="text-xs text-gray-400 dark:text-slate-500 min-w-[60px] text-right">
+                      {formatDate(build.queuedAt)}
+                    </span>
+                  </Link>
+                ))
+              )}
+            </div>
+          </div>
+        </>
+      )}
     </div>
   );
 }
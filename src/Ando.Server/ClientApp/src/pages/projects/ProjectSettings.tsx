@@ -1,7 +1,11 @@
 // =============================================================================
 // pages/projects/ProjectSettings.tsx
 //
-// Project settings page for managing secrets and configuration.
+// Project settings page for managing secrets and configuration. Secrets are
+// write-only; the page shows their versions, rotation deadlines and audit log.
+// A secret can have one value per profile or branch pattern scope on top of
+// its unscoped value, and linked shared secrets fill in names the project has
+// no value for.
 // =============================================================================
 
 import { useState } from 'react';
@@ -11,14 +15,36 @@ import {
   getProjectSettings,
   setSecret,
   deleteSecret,
-  bulkImportSecrets,
+  setSecretRotation,
   refreshSecrets,
   deleteProject,
+  updateProjectSettings,
 } from '@/api/projects';
 import { Loading } from '@/components/ui/Loading';
 import { Alert } from '@/components/ui/Alert';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import { Badge } from '@/components/ui/Badge';
+import { BulkSecretImport } from '@/components/secrets/BulkSecretImport';
+import { LinkedSharedSecrets } from '@/components/secrets/LinkedSharedSecrets';
+import { SecretAuditLog } from '@/components/secrets/SecretAuditLog';
+import { SecretResolutionPreview } from '@/components/secrets/SecretResolutionPreview';
+import { getRotationState, toDateInputValue } from '@/components/secrets/secretHistory';
+import { formatScope, toScope, type SecretScopeKind } from '@/components/secrets/secretScopes';
+import type { BulkImportSecretsResponse, SecretDto } from '@/types';
+
+const selectClassName = `
+  block w-full rounded-lg px-3 py-2 text-sm
+  bg-white border border-gray-200 text-gray-900
+  focus:border-primary-500 focus:ring-1 focus:ring-primary-500
+  dark:bg-slate-800 dark:border-slate-700 dark:text-slate-100
+  dark:focus:border-primary-400 dark:focus:ring-primary-400
+`;
+
+const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-slate-300 mb-1.5';
+
+// Identifies one secret value; a name can have a value per scope.
+const secretKey = (secret: Pick<SecretDto, 'name' | 'scope'>) => `${secret.name}|${secret.scope}`;
 
 export function ProjectSettings() {
   const { id } = useParams<{ id: string }>();
@@ -26,11 +52,15 @@ export function ProjectSettings() {
   const queryClient = useQueryClient();
   const [newSecretName, setNewSecretName] = useState('');
   const [newSecretValue, setNewSecretValue] = useState('');
-  const [bulkSecrets, setBulkSecrets] = useState('');
+  const [newSecretScopeKind, setNewSecretScopeKind] = useState<SecretScopeKind>('all');
+  const [newSecretScopeValue, setNewSecretScopeValue] = useState('');
   const [showBulkImport, setShowBulkImport] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
+  const [historySecret, setHistorySecret] = useState('');
+  const [editingRotation, setEditingRotation] = useState<string | null>(null);
+  const [rotationDate, setRotationDate] = useState('');
 
   const { data, isLoading, error: loadError } = useQuery({
     queryKey: ['project-settings', id],
@@ -39,40 +69,64 @@ export function ProjectSettings() {
   });
 
   const setSecretMutation = useMutation({
-    mutationFn: ({ name, value }: { name: string; value: string }) =>
-      setSecret(Number(id), name, value),
-    onSuccess: () => {
+    mutationFn: ({ name, value, scope }: { name: string; value: string; scope: string }) =>
+      setSecret(Number(id), name, value, scope),
+    onSuccess: (result) => {
+      if (!result.success) {
+        setError(result.error || 'Failed to save secret');
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ['project-settings', id] });
+      queryClient.invalidateQueries({ queryKey: ['secret-history', Number(id)] });
       setNewSecretName('');
       setNewSecretValue('');
-      setSuccess('Secret saved successfully');
+      setSuccess(result.unchanged ? 'Secret unchanged: it already has this value' : 'Secret saved successfully');
       setTimeout(() => setSuccess(''), 3000);
     },
     onError: () => setError('Failed to save secret'),
   });
 
   const deleteSecretMutation = useMutation({
-    mutationFn: (name: string) => deleteSecret(Number(id), name),
+    mutationFn: ({ name, scope }: { name: string; scope: string }) => deleteSecret(Number(id), name, scope),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['project-settings', id] });
+      queryClient.invalidateQueries({ queryKey: ['secret-history', Number(id)] });
       setSuccess('Secret deleted');
       setTimeout(() => setSuccess(''), 3000);
     },
     onError: () => setError('Failed to delete secret'),
   });
 
-  const bulkImportMutation = useMutation({
-    mutationFn: () => bulkImportSecrets(Number(id), bulkSecrets),
+  const rotationMutation = useMutation({
+    mutationFn: ({ name, scope, rotateBy }: { name: string; scope: string; rotateBy: string | null }) =>
+      setSecretRotation(Number(id), name, rotateBy, scope),
     onSuccess: (result) => {
+      if (!result.success) {
+        setError(result.error || 'Failed to save rotation deadline');
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ['project-settings', id] });
-      setBulkSecrets('');
-      setShowBulkImport(false);
-      setSuccess(`Imported ${result.importedCount} secrets`);
+      queryClient.invalidateQueries({ queryKey: ['secret-history', Number(id)] });
+      setEditingRotation(null);
+      setSuccess('Rotation deadline saved');
       setTimeout(() => setSuccess(''), 3000);
     },
-    onError: () => setError('Failed to import secrets'),
+    onError: () => setError('Failed to save rotation deadline'),
   });
 
+  const handleBulkImported = (result: BulkImportSecretsResponse) => {
+    queryClient.invalidateQueries({ queryKey: ['project-settings', id] });
+    queryClient.invalidateQueries({ queryKey: ['secret-history', Number(id)] });
+    if (result.errors?.length) {
+      setError(result.errors.join('; '));
+    } else {
+      setShowBulkImport(false);
+    }
+    const unchanged = result.unchangedCount ? `, ${result.unchangedCount} unchanged` : '';
+    setSuccess(`Imported ${result.importedCount} secrets${unchanged}`);
+    setTimeout(() => setSuccess(''), 3000);
+  };
+
   const refreshMutation = useMutation({
     mutationFn: () => refreshSecrets(Number(id)),
     onSuccess: () => {
@@ -83,6 +137,28 @@ export function ProjectSettings() {
     onError: () => setError('Failed to refresh secrets'),
   });
 
+  const cancelSupersededMutation = useMutation({
+    mutationFn: (cancelSupersededBuilds: boolean) => {
+      const current = data!.settings;
+      return updateProjectSettings(Number(id), {
+        branchFilter: current.branchFilter,
+        enablePrBuilds: current.enablePrBuilds,
+        cancelSupersededBuilds,
+        timeoutMinutes: current.timeoutMinutes,
+        dockerImage: current.dockerImage,
+        profile: current.profile,
+        notifyOnFailure: current.notifyOnFailure,
+        notificationEmail: current.notificationEmail,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['project-settings', id] });
+      setSuccess('Build settings saved');
+      setTimeout(() => setSuccess(''), 3000);
+    },
+    onError: () => setError('Failed to save build settings'),
+  });
+
   const deleteMutation = useMutation({
     mutationFn: () => deleteProject(Number(id)),
     onSuccess: () => {
@@ -108,6 +184,7 @@ export function ProjectSettings() {
 
   const requiredSecrets = settings.requiredSecrets ?? [];
   const allSecrets = settings.allSecrets ?? [];
+  const sharedSecrets = settings.sharedSecrets ?? [];
 
   const handleAddSecret = (e: React.FormEvent) => {
     e.preventDefault();
@@ -116,7 +193,25 @@ export function ProjectSettings() {
       setError('Both name and value are required');
       return;
     }
-    setSecretMutation.mutate({ name: newSecretName, value: newSecretValue });
+    if (newSecretScopeKind !== 'all' && !newSecretScopeValue.trim()) {
+      setError(newSecretScopeKind === 'profile' ? 'Choose a profile' : 'Enter a branch pattern');
+      return;
+    }
+    setSecretMutation.mutate({
+      name: newSecretName,
+      value: newSecretValue,
+      scope: toScope(newSecretScopeKind, newSecretScopeValue),
+    });
+  };
+
+  const startEditingRotation = (secret: SecretDto) => {
+    setEditingRotation(secretKey(secret));
+    setRotationDate(toDateInputValue(secret.rotateBy));
+  };
+
+  const showHistory = (name: string) => {
+    setHistorySecret(name);
+    document.getElementById('secret-audit-log')?.scrollIntoView({ behavior: 'smooth' });
   };
 
   return (
@@ -135,6 +230,28 @@ export function ProjectSettings() {
       {error && <Alert variant="error">{error}</Alert>}
       {success && <Alert variant="success">{success}</Alert>}
 
+      {/* Build Concurrency */}
+      <div className="bg-white border border-gray-200 rounded-xl p-6 dark:bg-slate-900 dark:border-slate-800">
+        <h2 className="text-lg font-medium text-gray-900 mb-4 dark:text-slate-100">Build Concurrency</h2>
+        <label className="flex items-start gap-3">
+          <input
+            type="checkbox"
+            className="mt-1 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500 dark:border-slate-600 dark:bg-slate-800"
+            checked={settings.cancelSupersededBuilds}
+            disabled={cancelSupersededMutation.isPending}
+            onChange={(e) => cancelSupersededMutation.mutate(e.target.checked)}
+          />
+          <span>
+            <span className="block text-sm font-medium text-gray-900 dark:text-slate-100">
+              Cancel superseded builds
+            </span>
+            <span className="block text-sm text-gray-500 dark:text-slate-400">
+              When a new commit is pushed, cancel queued and running builds of the same branch or pull request.
+            </span>
+          </span>
+        </label>
+      </div>
+
       {/* Required Secrets */}
       <div className="bg-white border border-gray-200 rounded-xl dark:bg-slate-900 dark:border-slate-800">
         <div className="px-5 py-4 border-b border-gray-100 flex justify-between items-center dark:border-slate-800">
@@ -154,21 +271,48 @@ export function ProjectSettings() {
               No secrets required. The build script doesn't use any secret variables.
             </div>
           ) : (
-            requiredSecrets.map((secret) => (
+            requiredSecrets.map((secret) => {
+              const rotation = secret.isSet ? getRotationState(secret.rotateBy) : null;
+              return (
               <div key={secret.name} className="px-4 py-4 flex items-center justify-between">
                 <div>
                   <p className="text-sm font-medium text-gray-900 dark:text-slate-100">{secret.name}</p>
-                  <p className={`text-sm ${secret.isSet ? 'text-success-600 dark:text-success-400' : 'text-error-600 dark:text-error-400'}`}>
-                    {secret.isSet ? 'Configured' : 'Not configured'}
+                  <p className="flex items-center gap-2">
+                    <span className={`text-sm ${secret.isSet ? 'text-success-600 dark:text-success-400' : 'text-error-600 dark:text-error-400'}`}>
+                      {secret.isInherited ? 'Inherited from shared secret' : secret.isSet ? 'Configured' : 'Not configured'}
+                    </span>
+                    {rotation && rotation.variant !== 'default' && (
+                      <Badge variant={rotation.variant} size="sm">{rotation.label}</Badge>
+                    )}
                   </p>
+                  {secret.scopes.length > 1 && (
+                    <div className="mt-1 flex flex-wrap gap-1" aria-label={`${secret.name} by scope`}>
+                      {secret.scopes.filter((status) => status.scope).map((status) => (
+                        <Badge
+                          key={status.scope}
+                          size="sm"
+                          variant={!status.isSet ? 'error' : status.isInherited ? 'info' : status.resolvedScope ? 'success' : 'default'}
+                        >
+                          {formatScope(status.scope)}:{' '}
+                          {!status.isSet
+                            ? 'not set'
+                            : status.isInherited
+                              ? 'inherited'
+                              : status.resolvedScope
+                                ? 'own value'
+                                : 'unscoped value'}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
                 </div>
-                {secret.isSet && (
+                {secret.isSet && !secret.isInherited && (
                   <Button
                     variant="ghost"
                     size="sm"
                     onClick={() => {
                       if (confirm(`Delete secret "${secret.name}"?`)) {
-                        deleteSecretMutation.mutate(secret.name);
+                        deleteSecretMutation.mutate({ name: secret.name, scope: '' });
                       }
                     }}
                   >
@@ -176,7 +320,8 @@ export function ProjectSettings() {
                   </Button>
                 )}
               </div>
-            ))
+              );
+            })
           )}
         </div>
       </div>
@@ -199,6 +344,47 @@ export function ProjectSettings() {
               value={newSecretValue}
               onChange={(e) => setNewSecretValue(e.target.value)}
             />
+            <div>
+              <label htmlFor="secret-scope" className={labelClassName}>Applies To</label>
+              <select
+                id="secret-scope"
+                className={selectClassName}
+                value={newSecretScopeKind}
+                onChange={(e) => {
+                  setNewSecretScopeKind(e.target.value as SecretScopeKind);
+                  setNewSecretScopeValue('');
+                }}
+              >
+                <option value="all">All builds</option>
+                <option value="profile">A profile</option>
+                <option value="branch">A branch pattern</option>
+              </select>
+            </div>
+            {newSecretScopeKind === 'profile' && (
+              <div>
+                <label htmlFor="secret-scope-profile" className={labelClassName}>Profile</label>
+                <select
+                  id="secret-scope-profile"
+                  className={selectClassName}
+                  value={newSecretScopeValue}
+                  onChange={(e) => setNewSecretScopeValue(e.target.value)}
+                >
+                  <option value="">Choose a profile</option>
+                  {settings.availableProfiles.map((profile) => (
+                    <option key={profile} value={profile}>{profile}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {newSecretScopeKind === 'branch' && (
+              <Input
+                label="Branch Pattern"
+                placeholder="release/*"
+                value={newSecretScopeValue}
+                onChange={(e) => setNewSecretScopeValue(e.target.value)}
+                helperText="* matches any characters, including /"
+              />
+            )}
           </div>
           <div className="flex justify-between">
             <Button
@@ -216,26 +402,7 @@ export function ProjectSettings() {
 
         {/* Bulk Import */}
         {showBulkImport && (
-          <div className="mt-6 pt-6 border-t border-gray-200 dark:border-slate-800">
-            <h3 className="text-sm font-medium text-gray-900 mb-2 dark:text-slate-100">Bulk Import</h3>
-            <p className="text-sm text-gray-500 mb-4 dark:text-slate-400">
-              Paste environment variables in KEY=value format, one per line.
-            </p>
-            <textarea
-              className="w-full h-32 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 font-mono text-sm dark:bg-slate-800 dark:border-slate-600 dark:text-slate-100 dark:placeholder-slate-400"
-              placeholder="SECRET_KEY=value&#10;ANOTHER_SECRET=another_value"
-              value={bulkSecrets}
-              onChange={(e) => setBulkSecrets(e.target.value)}
-            />
-            <div className="mt-4 flex justify-end">
-              <Button
-                onClick={() => bulkImportMutation.mutate()}
-                isLoading={bulkImportMutation.isPending}
-              >
-                Import Secrets
-              </Button>
-            </div>
-          </div>
+          <BulkSecretImport projectId={Number(id)} allSecrets={allSecrets} onImported={handleBulkImported} />
         )}
       </div>
 
@@ -250,31 +417,120 @@ export function ProjectSettings() {
               No secrets configured yet.
             </div>
           ) : (
-            allSecrets.map((secret) => (
-              <div key={secret.name} className="px-4 py-4 flex items-center justify-between">
-                <div>
-                  <p className="text-sm font-medium text-gray-900 dark:text-slate-100">{secret.name}</p>
-                  <p className="text-xs text-gray-500 dark:text-slate-400">
-                    Last updated: {new Date(secret.updatedAt).toLocaleDateString()}
-                  </p>
+            allSecrets.map((secret) => {
+              const rotation = getRotationState(secret.rotateBy);
+              return (
+              <div key={secretKey(secret)} className="px-4 py-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium text-gray-900 dark:text-slate-100">{secret.name}</p>
+                      {secret.scope && <Badge variant="info" size="sm">{formatScope(secret.scope)}</Badge>}
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-slate-400">
+                      Version {secret.version} · Last updated: {new Date(secret.updatedAt).toLocaleDateString()}
+                      {secret.updatedBy && <> by {secret.updatedBy}</>}
+                      {' · '}
+                      {secret.firstUsedByBuildId ? (
+                        <>
+                          first used in{' '}
+                          <Link to={`/builds/${secret.firstUsedByBuildId}`} className="text-primary-600 hover:underline dark:text-primary-400">
+                            build #{secret.firstUsedByBuildId}
+                          </Link>
+                        </>
+                      ) : (
+                        'not used by a build yet'
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    {rotation && <Badge variant={rotation.variant} size="sm">{rotation.label}</Badge>}
+                    <Button variant="ghost" size="sm" onClick={() => startEditingRotation(secret)}>
+                      Rotation
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => showHistory(secret.name)}>
+                      History
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        const label = secret.scope ? `${secret.name}" (${formatScope(secret.scope)})` : `${secret.name}"`;
+                        if (confirm(`Delete secret "${label}?`)) {
+                          deleteSecretMutation.mutate({ name: secret.name, scope: secret.scope });
+                        }
+                      }}
+                    >
+                      Delete
+                    </Button>
+                  </div>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => {
-                    if (confirm(`Delete secret "${secret.name}"?`)) {
-                      deleteSecretMutation.mutate(secret.name);
-                    }
-                  }}
-                >
-                  Delete
-                </Button>
+                {editingRotation === secretKey(secret) && (
+                  <form
+                    className="mt-3 flex flex-wrap items-end gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      if (rotationDate) rotationMutation.mutate({ name: secret.name, scope: secret.scope, rotateBy: rotationDate });
+                    }}
+                  >
+                    <Input
+                      label="Rotate by"
+                      type="date"
+                      value={rotationDate}
+                      onChange={(e) => setRotationDate(e.target.value)}
+                    />
+                    <Button type="submit" size="sm" disabled={!rotationDate} isLoading={rotationMutation.isPending}>
+                      Save
+                    </Button>
+                    {secret.rotateBy && (
+                      <Button
+                        type="button"
+                        variant="secondary"
+                        size="sm"
+                        onClick={() => rotationMutation.mutate({ name: secret.name, scope: secret.scope, rotateBy: null })}
+                      >
+                        Clear deadline
+                      </Button>
+                    )}
+                    <Button type="button" variant="ghost" size="sm" onClick={() => setEditingRotation(null)}>
+                      Cancel
+                    </Button>
+                    <p className="w-full text-xs text-gray-400 dark:text-slate-500">
+                      Setting a new value clears the deadline.
+                    </p>
+                  </form>
+                )}
               </div>
-            ))
+              );
+            })
           )}
         </div>
       </div>
 
+      {/* Shared Secrets */}
+      <LinkedSharedSecrets
+        projectId={Number(id)}
+        linked={sharedSecrets}
+        onChanged={() => queryClient.invalidateQueries({ queryKey: ['project-settings', id] })}
+      />
+
+      {/* Secret Resolution */}
+      <SecretResolutionPreview
+        secrets={allSecrets}
+        sharedSecrets={sharedSecrets}
+        requiredNames={requiredSecrets.map((secret) => secret.name)}
+        availableProfiles={settings.availableProfiles}
+        defaultProfile={settings.profile}
+      />
+
+      {/* Secret Audit Log */}
+      <SecretAuditLog
+        projectId={Number(id)}
+        secretNames={[...new Set(allSecrets.map((secret) => secret.name))]}
+        secretName={historySecret}
+        onSecretNameChange={setHistorySecret}
+      />
+
       {/* Danger Zone */}
       <div className="bg-white border border-gray-200 rounded-xl border border-error-200 dark:bg-slate-900 dark:border-error-500/30">
         <div className="px-4 py-5 sm:px-6 border-b border-error-200 dark:border-error-500/30">
@@ -0,0 +1,216 @@
+// =============================================================================
+// pages/settings/SharedSecrets.tsx
+//
+// Shared secret management page. Shared secrets are set once and inherited by
+// every project that links them in its settings; after a value changes the
+// page lists the projects that receive it.
+// =============================================================================
+
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { deleteSharedSecret, getSharedSecrets, setSharedSecret } from '@/api/sharedSecrets';
+import { describeOverride, receivesSharedValue } from '@/components/secrets/sharedSecrets';
+import { Alert } from '@/components/ui/Alert';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Loading } from '@/components/ui/Loading';
+import type { SharedSecretProjectDto } from '@/types';
+
+interface SavedSharedSecret {
+  name: string;
+  unchanged: boolean;
+  projects: SharedSecretProjectDto[];
+}
+
+export function SharedSecrets() {
+  const [name, setName] = useState('');
+  const [value, setValue] = useState('');
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState<SavedSharedSecret | null>(null);
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error: loadError } = useQuery({
+    queryKey: ['shared-secrets'],
+    queryFn: getSharedSecrets,
+  });
+
+  const setMutation = useMutation({
+    mutationFn: () => setSharedSecret(name.trim(), value),
+    onSuccess: (result) => {
+      if (!result.success) {
+        setError(result.error || 'Failed to save shared secret');
+        return;
+      }
+      setError('');
+      setSaved({ name: name.trim(), unchanged: !!result.unchanged, projects: result.projects ?? [] });
+      setName('');
+      setValue('');
+      queryClient.invalidateQueries({ queryKey: ['shared-secrets'] });
+    },
+    onError: () => setError('Failed to save shared secret'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (sharedSecretId: number) => deleteSharedSecret(sharedSecretId),
+    onSuccess: () => {
+      setSaved(null);
+      queryClient.invalidateQueries({ queryKey: ['shared-secrets'] });
+    },
+    onError: () => setError('Failed to delete shared secret'),
+  });
+
+  const sharedSecrets = data?.sharedSecrets ?? [];
+
+  if (isLoading) {
+    return <Loading size="lg" className="py-12" text="Loading shared secrets..." />;
+  }
+
+  if (loadError) {
+    return <Alert variant="error">Failed to load shared secrets</Alert>;
+  }
+
+  const receiving = saved?.projects.filter((p) => receivesSharedValue(p.overriddenScopes)) ?? [];
+  const keepingOwnValue = saved?.projects.filter((p) => !receivesSharedValue(p.overriddenScopes)) ?? [];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-slate-100">Shared Secrets</h1>
+        <p className="mt-1 text-gray-500 dark:text-slate-400">
+          Set a secret once and link it from each project's settings. A project's own value of the same name
+          overrides the shared one.
+        </p>
+      </div>
+
+      {error && <Alert variant="error">{error}</Alert>}
+
+      {saved && (
+        <Alert
+          variant={saved.unchanged ? 'info' : 'success'}
+          title={saved.unchanged ? `${saved.name} unchanged: it already has this value` : `${saved.name} saved`}
+          onClose={() => setSaved(null)}
+        >
+          {saved.projects.length === 0 ? (
+            <p>No projects are linked to this secret yet.</p>
+          ) : (
+            <>
+              {receiving.length > 0 && (
+                <>
+                  <p>{saved.unchanged ? 'Projects using this value:' : 'Projects receiving the new value:'}</p>
+                  <ul className="mt-1 list-disc pl-5" aria-label="Projects receiving the value">
+                    {receiving.map((project) => (
+                      <li key={project.id}>
+                        <Link to={`/projects/${project.id}/settings`} className="underline">
+                          {project.repoFullName}
+                        </Link>
+                        {project.overriddenScopes.length > 0 && <> ({describeOverride(project.overriddenScopes)})</>}
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+              {keepingOwnValue.length > 0 && (
+                <p className="mt-2">
+                  Keeping their own value: {keepingOwnValue.map((project) => project.repoFullName).join(', ')}
+                </p>
+              )}
+            </>
+          )}
+        </Alert>
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-xl p-6 dark:bg-slate-900 dark:border-slate-800">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-slate-100 mb-4">Set Shared Secret</h2>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setError('');
+            if (!name.trim() || !value.trim()) {
+              setError('Both name and value are required');
+              return;
+            }
+            setMutation.mutate();
+          }}
+        >
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Input
+              label="Shared Secret Name"
+              placeholder="NUGET_API_KEY"
+              value={name}
+              onChange={(e) => setName(e.target.value.toUpperCase())}
+              helperText="Setting an existing name rotates its value in every linked project"
+            />
+            <Input
+              label="Shared Secret Value"
+              type="password"
+              placeholder="Value"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+            />
+          </div>
+          <Button type="submit" isLoading={setMutation.isPending}>
+            Save Shared Secret
+          </Button>
+        </form>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-xl dark:bg-slate-900 dark:border-slate-800">
+        <div className="px-4 py-5 sm:px-6 border-b border-gray-200 dark:border-slate-800">
+          <h2 className="text-lg font-medium text-gray-900 dark:text-slate-100">Your Shared Secrets</h2>
+        </div>
+        <div className="divide-y divide-gray-100 dark:divide-slate-800">
+          {sharedSecrets.length === 0 ? (
+            <div className="px-4 py-8 text-center text-gray-500 dark:text-slate-400">No shared secrets yet.</div>
+          ) : (
+            sharedSecrets.map((secret) => (
+              <div key={secret.id} className="px-4 py-4 flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-slate-100">{secret.name}</p>
+                  <p className="text-xs text-gray-500 dark:text-slate-400">
+                    Version {secret.version} · Last updated: {new Date(secret.updatedAt).toLocaleDateString()}
+                  </p>
+                  {secret.projects.length === 0 ? (
+                    <p className="mt-1 text-xs text-gray-500 dark:text-slate-400">Not linked to any project</p>
+                  ) : (
+                    <div className="mt-1 flex flex-wrap gap-1" aria-label={`Projects using ${secret.name}`}>
+                      {secret.projects.map((project) => {
+                        const override = describeOverride(project.overriddenScopes);
+                        return (
+                          <Link key={project.id} to={`/projects/${project.id}/settings`}>
+                            <Badge size="sm" variant={override ? 'default' : 'info'}>
+                              {project.repoFullName}
+                              {override && `: ${override.toLowerCase()}`}
+                            </Badge>
+                          </Link>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+                <Button
+                  variant="danger"
+                  size="sm"
+                  onClick={() => {
+                    const linked = secret.projects.length;
+                    const message = linked
+                      ? `Delete shared secret "${secret.name}"? It is unlinked from ${linked} project(s).`
+                      : `Delete shared secret "${secret.name}"?`;
+                    if (confirm(message)) {
+                      deleteMutation.mutate(secret.id);
+                    }
+                  }}
+                  isLoading={deleteMutation.isPending && deleteMutation.variables === secret.id}
+                >
+                  Delete
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
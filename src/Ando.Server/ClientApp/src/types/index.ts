@@ -88,6 +88,7 @@ export interface ProjectSettingsDto {
   repoFullName: string;
   branchFilter: string;
   enablePrBuilds: boolean;
+  cancelSupersededBuilds: boolean;
   timeoutMinutes: number;
   dockerImage: string | null;
   profile: string | null;
@@ -98,16 +99,137 @@ export interface ProjectSettingsDto {
   requiredSecrets: SecretStatusDto[];
   allSecrets: SecretDto[];
   missingSecrets: string[];
+  sharedSecrets: LinkedSharedSecretDto[];
 }
 
+// isSet and rotateBy describe the value the default build (selected profile,
+// default branch) gets; scopes break that down per profile/branch scope.
+// isInherited means the value comes from a linked shared secret.
 export interface SecretStatusDto {
   name: string;
   isSet: boolean;
+  rotateBy: string | null;
+  scopes: SecretScopeStatusDto[];
+  isInherited: boolean;
 }
 
+// scope is '' for builds no scoped value applies to; resolvedScope is the
+// scope of the project value those builds get ('' when it falls back to the
+// unscoped value, null when missing or inherited from a shared secret).
+export interface SecretScopeStatusDto {
+  scope: string;
+  isSet: boolean;
+  resolvedScope: string | null;
+  isInherited: boolean;
+}
+
+// Secrets are write-only: these carry names and history, never values.
+// scope is '', 'profile:<name>' or 'branch:<pattern>'.
 export interface SecretDto {
   name: string;
+  scope: string;
+  createdAt: string;
+  updatedAt: string;
+  version: number;
+  updatedBy: string | null;
+  firstUsedByBuildId: number | null;
+  rotateBy: string | null;
+}
+
+export type SecretEventType =
+  | 'Created'
+  | 'Updated'
+  | 'Deleted'
+  | 'RotationDeadlineSet'
+  | 'RotationDeadlineCleared';
+
+export interface SecretEventDto {
+  id: number;
+  secretName: string;
+  scope: string;
+  type: SecretEventType;
+  version: number;
+  actorName: string | null;
+  occurredAt: string;
+  rotateBy: string | null;
+  firstUsedByBuildId: number | null;
+}
+
+// A shared secret linked to a project. overriddenScopes lists the scopes in
+// which the project sets its own value ('' for all builds).
+export interface LinkedSharedSecretDto {
+  id: number;
+  name: string;
+  updatedAt: string;
+  version: number;
+  overriddenScopes: string[];
+}
+
+// Shared secrets belong to a user and are write-only like project secrets.
+export interface SharedSecretDto {
+  id: number;
+  name: string;
+  createdAt: string;
   updatedAt: string;
+  version: number;
+  projects: SharedSecretProjectDto[];
+}
+
+export interface SharedSecretProjectDto {
+  id: number;
+  repoFullName: string;
+  overriddenScopes: string[];
+}
+
+// projects lists the projects that receive the value after a set.
+export interface SetSharedSecretResponse {
+  success: boolean;
+  error?: string;
+  unchanged?: boolean;
+  projects?: SharedSecretProjectDto[];
+}
+
+export interface SecretResponse {
+  success: boolean;
+  error?: string;
+  unchanged?: boolean;
+}
+
+export interface BulkSecretValue {
+  name: string;
+  value: string;
+}
+
+export interface BulkImportSecretsResponse {
+  success: boolean;
+  importedCount: number;
+  errors?: string[];
+  // Secrets that already had the imported value.
+  unchangedCount?: number;
+}
+
+export interface PreviewBulkSecretsResponse {
+  unchangedNames: string[];
+}
+
+export interface RepositoryBranchDto {
+  name: string;
+  headSha: string;
+  isProtected: boolean;
+}
+
+export interface TriggerBuildRequest {
+  branch?: string;
+  // Full 40-character SHA; omitted to build the branch head.
+  commitSha?: string;
+  profile?: string;
+  environmentOverrides?: Record<string, string>;
+}
+
+export interface TriggerBuildResponse {
+  success: boolean;
+  buildId?: number;
+  error?: string;
 }
 
 export interface ProjectStatusDto {
@@ -138,6 +260,7 @@ export interface CreateProjectResponse {
 export interface UpdateProjectSettingsRequest {
   branchFilter: string;
   enablePrBuilds: boolean;
+  cancelSupersededBuilds: boolean;
   timeoutMinutes: number;
   dockerImage: string | null;
   profile: string | null;
@@ -185,6 +308,8 @@ export interface BuildDetailsDto {
   stepsCompleted: number;
   stepsFailed: number;
   errorMessage: string | null;
+  cancellationReason: string | null;
+  supersededByBuildId: number | null;
   canCancel: boolean;
   canRetry: boolean;
   isLive: boolean;
@@ -210,10 +335,221 @@ export interface ArtifactDto {
   fileSize: number;
   formattedSize: string;
   createdAt: string;
+  expiresAt?: string;
+  sha256?: string | null;
+  archiveFormat?: string | null;
+  isPreviewable?: boolean;
+}
+
+export interface ArtifactEntryDto {
+  path: string;
+  sizeBytes: number;
+  isDirectory: boolean;
+  isPreviewable: boolean;
+}
+
+export interface ArtifactContentsResponse {
+  archiveFormat: string | null;
+  entries: ArtifactEntryDto[];
+  isTruncated: boolean;
+  sha256: string | null;
+}
+
+export type TestOutcome = 'Passed' | 'Failed' | 'Skipped';
+
+export interface TestCaseDto {
+  name: string;
+  className: string | null;
+  outcome: TestOutcome;
+  durationMs: number | null;
+  message: string | null;
+  stackTrace: string | null;
+  isNewFailure: boolean;
+  isFixed: boolean;
+}
+
+export interface TestSummaryDto {
+  total: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  durationMs: number;
+  newFailures: number;
+  fixed: number;
+}
+
+export interface BuildTestResultsResponse {
+  reports: string[];
+  summary: TestSummaryDto;
+  tests: TestCaseDto[];
+  previousBuildId: number | null;
+}
+
+// Coverage types. Rates and deltas are 0..1 fractions; null when not measurable.
+export interface CoverageSummaryDto {
+  lineRate: number | null;
+  linesCovered: number;
+  linesValid: number;
+  branchRate: number | null;
+  branchesCovered: number;
+  branchesValid: number;
+}
+
+export interface FileCoverageDto {
+  path: string;
+  lineRate: number | null;
+  linesCovered: number;
+  linesValid: number;
+  branchRate: number | null;
+  branchesCovered: number;
+  branchesValid: number;
+  lineRateDelta: number | null;
+}
+
+export interface CoverageBaselineDto {
+  buildId: number;
+  branch: string;
+  lineRate: number | null;
+  branchRate: number | null;
+  lineRateDelta: number | null;
+  branchRateDelta: number | null;
+  hasFileDetails: boolean;
+}
+
+export interface BuildCoverageResponse {
+  reports: string[];
+  summary: CoverageSummaryDto;
+  files: FileCoverageDto[];
+  baseline: CoverageBaselineDto | null;
+}
+
+export interface CoverageTrendPointDto {
+  buildId: number;
+  shortCommitSha: string;
+  finishedAt: string | null;
+  lineRate: number;
+  branchRate: number | null;
+}
+
+export interface ProjectCoverageResponse {
+  branch: string;
+  points: CoverageTrendPointDto[];
 }
 
 export type BuildStatus = 'Queued' | 'Running' | 'Success' | 'Failed' | 'Cancelled' | 'TimedOut';
 export type BuildTrigger = 'Push' | 'PullRequest' | 'Manual';
+export type BuildLogFormat = 'text' | 'ansi' | 'json' | 'html';
+
+// Build history filters; dates are yyyy-MM-dd and inclusive.
+export interface BuildHistoryFilters {
+  branch?: string;
+  status?: BuildStatus;
+  trigger?: BuildTrigger;
+  author?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface BuildHistoryPage<T = BuildListItemDto> {
+  builds: T[];
+  nextCursor: string | null;
+}
+
+export interface BuildFeedItemDto extends BuildListItemDto {
+  projectId: number;
+  projectName: string;
+}
+
+// Payload of the BuildStatusChanged hub event.
+export interface BuildStatusChangedEvent {
+  buildId: number;
+  projectId: number;
+  status: BuildStatus;
+  queuedAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  durationSeconds: number | null;
+  gitVersionTag: string | null;
+  errorMessage: string | null;
+}
+
+// Analytics types. Durations and waits are in seconds; rates are 0..1.
+export interface ProjectAnalyticsDto {
+  days: number;
+  totalBuilds: number;
+  successRate: number | null;
+  durationP50Seconds: number | null;
+  durationP95Seconds: number | null;
+  queueWaitP50Seconds: number | null;
+  queueWaitP95Seconds: number | null;
+  weeks: AnalyticsWeekDto[];
+  steps: StepReliabilityDto[];
+}
+
+export interface AnalyticsWeekDto {
+  weekStart: string;
+  builds: number;
+  succeeded: number;
+  failed: number;
+  successRate: number | null;
+  durationP50Seconds: number | null;
+  durationP95Seconds: number | null;
+  queueWaitP50Seconds: number | null;
+  queueWaitP95Seconds: number | null;
+}
+
+export interface StepReliabilityDto {
+  stepName: string;
+  runs: number;
+  failures: number;
+  failureRate: number;
+  flips: number;
+  lastFailedAt: string | null;
+}
+
+// Branch overview types. aheadBy/behindBy are relative to the default branch.
+export interface ProjectBranchDto {
+  name: string;
+  isDefault: boolean;
+  totalBuilds: number;
+  latestBuild: BuildListItemDto;
+  latestVersionTag: string | null;
+  isAbandoned: boolean;
+  aheadBy: number | null;
+  behindBy: number | null;
+}
+
+export interface ProjectBranchesResponse {
+  branches: ProjectBranchDto[];
+  defaultBranch: string;
+  abandonedAfterDays: number;
+}
+
+// Pull request types. Metadata is null when the list was rebuilt from builds
+// because GitHub was unavailable (isLive = false).
+export interface PullRequestDto {
+  number: number;
+  title: string | null;
+  author: string | null;
+  headSha: string | null;
+  headBranch: string | null;
+  baseBranch: string | null;
+  htmlUrl: string;
+  isDraft: boolean;
+  updatedAt: string | null;
+  totalBuilds: number;
+  builds: PullRequestBuildDto[];
+}
+
+export interface PullRequestBuildDto {
+  build: BuildListItemDto;
+  isSuperseded: boolean;
+}
+
+export interface ProjectPullRequestsResponse {
+  pullRequests: PullRequestDto[];
+  isLive: boolean;
+}
 
 // Dashboard types
 export interface DashboardDto {
@@ -339,6 +675,29 @@ export interface SystemHealthResponse {
   checkedAtUtc: string;
 }
 
+export interface QueuedBuildDto {
+  id: number;
+  position: number | null;
+  projectId: number;
+  projectName: string;
+  ownerEmail: string;
+  branch: string;
+  shortCommitSha: string;
+  status: string;
+  trigger: BuildTrigger;
+  priority: number;
+  queuedAt: string;
+  startedAt: string | null;
+}
+
+export interface BuildQueueResponse {
+  isPaused: boolean;
+  pausedAt: string | null;
+  workerCount: number;
+  running: QueuedBuildDto[];
+  queued: QueuedBuildDto[];
+}
+
 // API token types
 export interface ApiTokenDto {
   id: number;
@@ -4,7 +4,7 @@
 // Summary: Request and response DTOs for admin-only API endpoints.
 //
 // These contracts define the data exchanged for admin dashboard, user management,
-// project overview, and impersonation features. All endpoints require admin role.
+// project overview, build queue and impersonation features. All endpoints require admin role.
 //
 // Design Decisions:
 // - Pagination support for user and project lists
@@ -29,6 +29,7 @@ namespace Ando.Server.Contracts.Admin;
 /// <param name="AdminUsers">Number of users with admin role.</param>
 /// <param name="TotalProjects">Total number of projects across all users.</param>
 /// <param name="TotalBuilds">Total number of builds ever created.</param>
+/// <param name="ActiveBuilds">Number of queued and running builds.</param>
 /// <param name="RecentBuilds">Number of builds in the last 24 hours.</param>
 /// <param name="RecentUsers">List of recently registered users.</param>
 /// <param name="RecentBuilds24h">List of builds in the last 24 hours.</param>
@@ -39,6 +40,7 @@ public record AdminDashboardDto(
     int AdminUsers,
     int TotalProjects,
     int TotalBuilds,
+    int ActiveBuilds,
     int RecentBuilds,
     IReadOnlyList<RecentUserDto> RecentUsers,
     IReadOnlyList<RecentBuildDto> RecentBuilds24h
@@ -416,3 +418,116 @@ public record SystemHealthCheckDto(
     string Status,
     string Message
 );
+
+// =============================================================================
+// Build Queue
+// =============================================================================
+
+/// <summary>
+/// The build queue across all users.
+/// </summary>
+/// <param name="IsPaused">Whether the queue is paused (queued builds do not start).</param>
+/// <param name="PausedAt">When the queue was paused.</param>
+/// <param name="WorkerCount">Number of builds that can run at the same time.</param>
+/// <param name="Running">Builds currently running.</param>
+/// <param name="Queued">Queued builds in the order they will start.</param>
+public record GetBuildQueueResponse(
+    bool IsPaused,
+    DateTime? PausedAt,
+    int WorkerCount,
+    IReadOnlyList<QueuedBuildDto> Running,
+    IReadOnlyList<QueuedBuildDto> Queued
+);
+
+/// <summary>
+/// A queued or running build in the admin queue.
+/// </summary>
+/// <param name="Id">Build's unique identifier.</param>
+/// <param name="Position">1-based queue position, null for running builds.</param>
+/// <param name="ProjectId">Project's unique identifier.</param>
+/// <param name="ProjectName">Repository full name of the project.</param>
+/// <param name="OwnerEmail">Email of the project owner.</param>
+/// <param name="Branch">Git branch being built.</param>
+/// <param name="ShortCommitSha">First 8 characters of the commit SHA.</param>
+/// <param name="Status">Current build status.</param>
+/// <param name="Trigger">What triggered this build.</param>
+/// <param name="Priority">Queue priority; higher starts first.</param>
+/// <param name="QueuedAt">When the build was queued.</param>
+/// <param name="StartedAt">When the build started executing.</param>
+public record QueuedBuildDto(
+    int Id,
+    int? Position,
+    int ProjectId,
+    string ProjectName,
+    string OwnerEmail,
+    string Branch,
+    string ShortCommitSha,
+    string Status,
+    string Trigger,
+    int Priority,
+    DateTime QueuedAt,
+    DateTime? StartedAt
+);
+
+/// <summary>
+/// Request to reorder the build queue.
+/// </summary>
+public class ReorderBuildQueueRequest
+{
+    /// <summary>
+    /// Queued build IDs in the order they should start.
+    /// </summary>
+    [Required]
+    public List<int> BuildIds { get; set; } = [];
+}
+
+/// <summary>
+/// Response from reordering the build queue.
+/// </summary>
+/// <param name="Success">Whether the operation succeeded.</param>
+/// <param name="Error">Error message if the operation failed.</param>
+public record ReorderBuildQueueResponse(
+    bool Success,
+    string? Error = null
+);
+
+/// <summary>
+/// Request to cancel several queued or running builds.
+/// </summary>
+public class CancelQueuedBuildsRequest
+{
+    /// <summary>
+    /// IDs of the builds to cancel.
+    /// </summary>
+    [Required]
+    public List<int> BuildIds { get; set; } = [];
+}
+
+/// <summary>
+/// Response from a bulk cancel.
+/// </summary>
+/// <param name="CancelledCount">Number of builds that were cancelled.</param>
+public record CancelQueuedBuildsResponse(
+    int CancelledCount
+);
+
+/// <summary>
+/// Request to pause or resume the build queue.
+/// </summary>
+public class SetBuildQueuePausedRequest
+{
+    /// <summary>
+    /// Whether the queue should be paused.
+    /// </summary>
+    public bool IsPaused { get; set; }
+}
+
+/// <summary>
+/// Response from pausing or resuming the build queue.
+/// </summary>
+/// <param name="IsPaused">Whether the queue is now paused.</param>
+/// <param name="PausedAt">When the queue was paused.</param>
+public record SetBuildQueuePausedResponse(
+    bool IsPaused,
+    DateTime? PausedAt
+);
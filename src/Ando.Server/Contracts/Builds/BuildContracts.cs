@@ -41,6 +41,8 @@ namespace Ando.Server.Contracts.Builds;
 /// <param name="StepsCompleted">Number of completed steps.</param>
 /// <param name="StepsFailed">Number of failed steps.</param>
 /// <param name="ErrorMessage">Error message if the build failed.</param>
+/// <param name="CancellationReason">Why the build was cancelled, if it was.</param>
+/// <param name="SupersededByBuildId">Newer build that superseded this one, if any.</param>
 /// <param name="CanCancel">Whether the build can be cancelled.</param>
 /// <param name="CanRetry">Whether the build can be retried.</param>
 /// <param name="IsLive">Whether the build is currently running.</param>
@@ -68,6 +70,8 @@ public record BuildDetailsDto(
     int StepsCompleted,
     int StepsFailed,
     string? ErrorMessage,
+    string? CancellationReason,
+    int? SupersededByBuildId,
     bool CanCancel,
     bool CanRetry,
     bool IsLive,
@@ -101,12 +105,48 @@ public record LogEntryDto(
 /// <param name="FormattedSize">Human-readable file size.</param>
 /// <param name="SizeBytes">File size in bytes.</param>
 /// <param name="CreatedAt">When the artifact was created.</param>
+/// <param name="ExpiresAt">When the artifact will be deleted by the retention policy.</param>
+/// <param name="Sha256">SHA-256 checksum, if recorded.</param>
+/// <param name="ArchiveFormat">Archive format (zip, tar, tar.gz) when the contents can be listed.</param>
+/// <param name="IsPreviewable">Whether the file can be previewed in the browser.</param>
 public record ArtifactDto(
     int Id,
     string Name,
     string FormattedSize,
     long SizeBytes,
-    DateTime CreatedAt
+    DateTime CreatedAt,
+    DateTime ExpiresAt,
+    string? Sha256,
+    string? ArchiveFormat,
+    bool IsPreviewable
+);
+
+/// <summary>
+/// Contents of an archive artifact.
+/// </summary>
+/// <param name="ArchiveFormat">Archive format (zip, tar, tar.gz), or null when the artifact is not an archive.</param>
+/// <param name="Entries">Files and directories in the archive.</param>
+/// <param name="IsTruncated">Whether the archive has more entries than listed.</param>
+/// <param name="Sha256">SHA-256 checksum of the artifact.</param>
+public record ArtifactContentsResponse(
+    string? ArchiveFormat,
+    IReadOnlyList<ArtifactEntryDto> Entries,
+    bool IsTruncated,
+    string? Sha256
+);
+
+/// <summary>
+/// A file or directory inside an archive artifact.
+/// </summary>
+/// <param name="Path">Path within the archive, using forward slashes.</param>
+/// <param name="SizeBytes">Uncompressed size in bytes (0 for directories).</param>
+/// <param name="IsDirectory">Whether the entry is a directory.</param>
+/// <param name="IsPreviewable">Whether the entry can be previewed in the browser.</param>
+public record ArtifactEntryDto(
+    string Path,
+    long SizeBytes,
+    bool IsDirectory,
+    bool IsPreviewable
 );
 
 // =============================================================================
@@ -121,6 +161,58 @@ public record GetBuildResponse(
     BuildDetailsDto Build
 );
 
+// =============================================================================
+// Builds Feed
+// =============================================================================
+
+/// <summary>
+/// Build row in the cross-project builds feed.
+/// </summary>
+/// <param name="Id">Build's unique identifier.</param>
+/// <param name="ProjectId">ID of the project this build belongs to.</param>
+/// <param name="ProjectName">Name of the project (owner/repo).</param>
+/// <param name="CommitSha">Full Git commit SHA.</param>
+/// <param name="ShortCommitSha">Shortened commit SHA for display.</param>
+/// <param name="GitVersionTag">Version tag produced by the build, if any.</param>
+/// <param name="Branch">Git branch that triggered the build.</param>
+/// <param name="CommitMessage">Git commit message.</param>
+/// <param name="CommitAuthor">Author of the Git commit.</param>
+/// <param name="Status">Current build status.</param>
+/// <param name="Trigger">What triggered this build.</param>
+/// <param name="QueuedAt">When the build was queued.</param>
+/// <param name="StartedAt">When the build started executing.</param>
+/// <param name="FinishedAt">When the build finished.</param>
+/// <param name="Duration">Total build duration.</param>
+/// <param name="PullRequestNumber">PR number if this was a PR build.</param>
+public record BuildFeedItemDto(
+    int Id,
+    int ProjectId,
+    string ProjectName,
+    string CommitSha,
+    string ShortCommitSha,
+    string? GitVersionTag,
+    string Branch,
+    string? CommitMessage,
+    string? CommitAuthor,
+    string Status,
+    string Trigger,
+    DateTime QueuedAt,
+    DateTime? StartedAt,
+    DateTime? FinishedAt,
+    TimeSpan? Duration,
+    int? PullRequestNumber
+);
+
+/// <summary>
+/// Response containing one page of the builds feed.
+/// </summary>
+/// <param name="Builds">Builds on this page, newest first.</param>
+/// <param name="NextCursor">Cursor for the following page, or null on the last page.</param>
+public record GetBuildFeedResponse(
+    IReadOnlyList<BuildFeedItemDto> Builds,
+    string? NextCursor
+);
+
 // =============================================================================
 // Get Build Logs (for SignalR catch-up)
 // =============================================================================
@@ -166,3 +258,142 @@ public record RetryBuildResponse(
     int? NewBuildId = null,
     string? Error = null
 );
+
+// =============================================================================
+// Test Results
+// =============================================================================
+
+/// <summary>
+/// Test results parsed from a build's TRX and JUnit report artifacts.
+/// </summary>
+/// <param name="Reports">Report files that were read.</param>
+/// <param name="Summary">Counts across all reports.</param>
+/// <param name="Tests">Test cases, failures first.</param>
+/// <param name="PreviousBuildId">Earlier build on the same branch the results are compared with.</param>
+public record GetBuildTestResultsResponse(
+    IReadOnlyList<string> Reports,
+    TestSummaryDto Summary,
+    IReadOnlyList<TestCaseDto> Tests,
+    int? PreviousBuildId
+);
+
+/// <summary>
+/// Test counts for a build.
+/// </summary>
+/// <param name="Total">Number of test cases.</param>
+/// <param name="Passed">Passed test cases.</param>
+/// <param name="Failed">Failed test cases.</param>
+/// <param name="Skipped">Skipped or not executed test cases.</param>
+/// <param name="DurationMs">Sum of test durations in milliseconds.</param>
+/// <param name="NewFailures">Failures that did not fail in the previous build.</param>
+/// <param name="Fixed">Tests that failed in the previous build and pass now.</param>
+public record TestSummaryDto(
+    int Total,
+    int Passed,
+    int Failed,
+    int Skipped,
+    double DurationMs,
+    int NewFailures,
+    int Fixed
+);
+
+/// <summary>
+/// A single test case result.
+/// </summary>
+/// <param name="Name">Test name.</param>
+/// <param name="ClassName">Class or suite the test belongs to.</param>
+/// <param name="Outcome">Passed, Failed or Skipped.</param>
+/// <param name="DurationMs">Duration in milliseconds, if reported.</param>
+/// <param name="Message">Failure message.</param>
+/// <param name="StackTrace">Failure stack trace.</param>
+/// <param name="IsNewFailure">Whether the test fails now but did not in the previous build.</param>
+/// <param name="IsFixed">Whether the test failed in the previous build and passes now.</param>
+public record TestCaseDto(
+    string Name,
+    string? ClassName,
+    string Outcome,
+    double? DurationMs,
+    string? Message,
+    string? StackTrace,
+    bool IsNewFailure,
+    bool IsFixed
+);
+
+// =============================================================================
+// Coverage
+// =============================================================================
+
+/// <summary>
+/// Code coverage parsed from a build's Cobertura and lcov report artifacts.
+/// Rates are fractions in 0..1 and null when there is nothing to measure.
+/// </summary>
+/// <param name="Reports">Report files that were read.</param>
+/// <param name="Summary">Overall coverage across all reports.</param>
+/// <param name="Files">Per-file coverage, ordered by path.</param>
+/// <param name="Baseline">Latest earlier default branch build with coverage, if any.</param>
+public record GetBuildCoverageResponse(
+    IReadOnlyList<string> Reports,
+    CoverageSummaryDto Summary,
+    IReadOnlyList<FileCoverageDto> Files,
+    CoverageBaselineDto? Baseline
+);
+
+/// <summary>
+/// Overall coverage for a build.
+/// </summary>
+/// <param name="LineRate">Covered share of lines.</param>
+/// <param name="LinesCovered">Lines hit at least once.</param>
+/// <param name="LinesValid">Coverable lines.</param>
+/// <param name="BranchRate">Covered share of branches.</param>
+/// <param name="BranchesCovered">Branches taken at least once.</param>
+/// <param name="BranchesValid">Branches.</param>
+public record CoverageSummaryDto(
+    double? LineRate,
+    int LinesCovered,
+    int LinesValid,
+    double? BranchRate,
+    int BranchesCovered,
+    int BranchesValid
+);
+
+/// <summary>
+/// Coverage for one source file.
+/// </summary>
+/// <param name="Path">Source path as written in the report.</param>
+/// <param name="LineRate">Covered share of lines.</param>
+/// <param name="LinesCovered">Lines hit at least once.</param>
+/// <param name="LinesValid">Coverable lines.</param>
+/// <param name="BranchRate">Covered share of branches.</param>
+/// <param name="BranchesCovered">Branches taken at least once.</param>
+/// <param name="BranchesValid">Branches.</param>
+/// <param name="LineRateDelta">Change in line rate from the baseline build, when the file is in both.</param>
+public record FileCoverageDto(
+    string Path,
+    double? LineRate,
+    int LinesCovered,
+    int LinesValid,
+    double? BranchRate,
+    int BranchesCovered,
+    int BranchesValid,
+    double? LineRateDelta
+);
+
+/// <summary>
+/// The default branch build coverage is compared with.
+/// </summary>
+/// <param name="BuildId">Baseline build ID.</param>
+/// <param name="Branch">Default branch name.</param>
+/// <param name="LineRate">Baseline line coverage.</param>
+/// <param name="BranchRate">Baseline branch coverage.</param>
+/// <param name="LineRateDelta">This build's line rate minus the baseline's.</param>
+/// <param name="BranchRateDelta">This build's branch rate minus the baseline's.</param>
+/// <param name="HasFileDetails">Whether per-file deltas are available (false once the baseline's artifacts expired).</param>
+public record CoverageBaselineDto(
+    int BuildId,
+    string Branch,
+    double? LineRate,
+    double? BranchRate,
+    double? LineRateDelta,
+    double? BranchRateDelta,
+    bool HasFileDetails
+);
@@ -0,0 +1,84 @@
+// =============================================================================
+// ProjectAnalyticsContracts.cs
+//
+// Summary: Response contracts for the project analytics endpoint.
+//
+// Durations and waits are in seconds so the client can chart them directly.
+// Rates are fractions in 0..1 and null when there is nothing to measure.
+// =============================================================================
+
+namespace Ando.Server.Contracts.Projects;
+
+/// <summary>
+/// Response containing build analytics for a project.
+/// </summary>
+/// <param name="Analytics">Analytics over the requested window.</param>
+public record GetProjectAnalyticsResponse(
+    ProjectAnalyticsDto Analytics
+);
+
+/// <summary>
+/// Build analytics for a project over a window of days.
+/// </summary>
+/// <param name="Days">Size of the window in days, ending now.</param>
+/// <param name="TotalBuilds">Builds queued in the window.</param>
+/// <param name="SuccessRate">Successful share of finished builds (cancelled builds excluded).</param>
+/// <param name="DurationP50Seconds">Median duration of builds that ran to completion.</param>
+/// <param name="DurationP95Seconds">95th percentile duration of builds that ran to completion.</param>
+/// <param name="QueueWaitP50Seconds">Median time between queueing and starting.</param>
+/// <param name="QueueWaitP95Seconds">95th percentile time between queueing and starting.</param>
+/// <param name="Weeks">Per-week figures, oldest first, including empty weeks.</param>
+/// <param name="Steps">Steps that failed or changed outcome in the window.</param>
+public record ProjectAnalyticsDto(
+    int Days,
+    int TotalBuilds,
+    double? SuccessRate,
+    double? DurationP50Seconds,
+    double? DurationP95Seconds,
+    double? QueueWaitP50Seconds,
+    double? QueueWaitP95Seconds,
+    IReadOnlyList<AnalyticsWeekDto> Weeks,
+    IReadOnlyList<StepReliabilityDto> Steps
+);
+
+/// <summary>
+/// Build figures for one week (Monday-based, UTC).
+/// </summary>
+/// <param name="WeekStart">Monday the week starts on.</param>
+/// <param name="Builds">Builds queued in the week.</param>
+/// <param name="Succeeded">Successful builds.</param>
+/// <param name="Failed">Failed or timed out builds.</param>
+/// <param name="SuccessRate">Succeeded / (Succeeded + Failed), or null.</param>
+/// <param name="DurationP50Seconds">Median build duration.</param>
+/// <param name="DurationP95Seconds">95th percentile build duration.</param>
+/// <param name="QueueWaitP50Seconds">Median queue wait.</param>
+/// <param name="QueueWaitP95Seconds">95th percentile queue wait.</param>
+public record AnalyticsWeekDto(
+    DateOnly WeekStart,
+    int Builds,
+    int Succeeded,
+    int Failed,
+    double? SuccessRate,
+    double? DurationP50Seconds,
+    double? DurationP95Seconds,
+    double? QueueWaitP50Seconds,
+    double? QueueWaitP95Seconds
+);
+
+/// <summary>
+/// How reliably a build step passes.
+/// </summary>
+/// <param name="StepName">Name of the step.</param>
+/// <param name="Runs">Times the step finished (passed or failed).</param>
+/// <param name="Failures">Times the step failed.</param>
+/// <param name="FailureRate">Failures / Runs.</param>
+/// <param name="Flips">Times the outcome changed from the previous run.</param>
+/// <param name="LastFailedAt">When the most recent failing build was queued.</param>
+public record StepReliabilityDto(
+    string StepName,
+    int Runs,
+    int Failures,
+    double FailureRate,
+    int Flips,
+    DateTime? LastFailedAt
+);
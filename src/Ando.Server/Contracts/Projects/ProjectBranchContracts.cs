@@ -0,0 +1,44 @@
+// =============================================================================
+// ProjectBranchContracts.cs
+//
+// Summary: Response contracts for the project branches endpoint.
+//
+// Lists every branch that has been built with its latest build, so the SPA
+// can show branch health at a glance.
+// =============================================================================
+
+namespace Ando.Server.Contracts.Projects;
+
+/// <summary>
+/// Response containing the built branches of a project.
+/// </summary>
+/// <param name="Branches">Built branches, default branch first, then most recently built.</param>
+/// <param name="DefaultBranch">The project's default branch.</param>
+/// <param name="AbandonedAfterDays">Days without a build after which a branch counts as abandoned.</param>
+public record GetProjectBranchesResponse(
+    IReadOnlyList<ProjectBranchDto> Branches,
+    string DefaultBranch,
+    int AbandonedAfterDays
+);
+
+/// <summary>
+/// Build health of a single branch.
+/// </summary>
+/// <param name="Name">Branch name.</param>
+/// <param name="IsDefault">Whether this is the project's default branch.</param>
+/// <param name="TotalBuilds">Number of builds of this branch.</param>
+/// <param name="LatestBuild">Most recent build of this branch.</param>
+/// <param name="LatestVersionTag">Version tag of the most recent build that produced one.</param>
+/// <param name="IsAbandoned">Whether the branch has not been built within the abandoned window.</param>
+/// <param name="AheadBy">Commits on the branch that are not on the default branch (null if unknown).</param>
+/// <param name="BehindBy">Commits on the default branch that are not on the branch (null if unknown).</param>
+public record ProjectBranchDto(
+    string Name,
+    bool IsDefault,
+    int TotalBuilds,
+    BuildListItemDto LatestBuild,
+    string? LatestVersionTag,
+    bool IsAbandoned,
+    int? AheadBy,
+    int? BehindBy
+);
@@ -0,0 +1,36 @@
+// =============================================================================
+// ProjectCoverageContracts.cs
+//
+// Summary: Response contracts for the project coverage trend endpoint.
+//
+// Rates are fractions in 0..1; branch coverage is null for reports without
+// branch data.
+// =============================================================================
+
+namespace Ando.Server.Contracts.Projects;
+
+/// <summary>
+/// Coverage of recent successful builds on the project's default branch.
+/// </summary>
+/// <param name="Branch">Default branch the trend is for.</param>
+/// <param name="Points">One point per build, oldest first.</param>
+public record GetProjectCoverageResponse(
+    string Branch,
+    IReadOnlyList<CoverageTrendPointDto> Points
+);
+
+/// <summary>
+/// Coverage of one build.
+/// </summary>
+/// <param name="BuildId">Build ID.</param>
+/// <param name="ShortCommitSha">First 8 characters of the commit SHA.</param>
+/// <param name="FinishedAt">When the build finished.</param>
+/// <param name="LineRate">Line coverage.</param>
+/// <param name="BranchRate">Branch coverage, if reported.</param>
+public record CoverageTrendPointDto(
+    int BuildId,
+    string ShortCommitSha,
+    DateTime? FinishedAt,
+    double LineRate,
+    double? BranchRate
+);
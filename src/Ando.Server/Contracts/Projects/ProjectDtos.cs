@@ -74,31 +74,103 @@ public record ProjectDetailsDto(
 /// <param name="RepoFullName">Full repository name (owner/repo).</param>
 /// <param name="BranchFilter">Branch filter pattern for builds.</param>
 /// <param name="EnablePrBuilds">Whether PR builds are enabled.</param>
+/// <param name="CancelSupersededBuilds">Whether new builds cancel older builds of the same branch or PR.</param>
 /// <param name="TimeoutMinutes">Build timeout in minutes.</param>
 /// <param name="DockerImage">Custom Docker image for builds.</param>
 /// <param name="Profile">Selected build profile name.</param>
 /// <param name="AvailableProfiles">Available build profiles from repository.</param>
 /// <param name="IsProfileValid">Whether selected profile exists.</param>
-/// <param name="RequiredSecrets">Comma-separated list of required secret names.</param>
 /// <param name="NotifyOnFailure">Whether to send failure notifications.</param>
 /// <param name="NotificationEmail">Email for failure notifications.</param>
-/// <param name="SecretNames">Names of configured secrets.</param>
-/// <param name="MissingSecrets">Names of missing required secrets.</param>
+/// <param name="RequiredSecrets">Secrets the build script uses and whether each is set, overall and per scope.</param>
+/// <param name="AllSecrets">Configured secrets (names and history, never values).</param>
+/// <param name="MissingSecrets">Required secrets the default build (selected profile, default branch) would not get.</param>
+/// <param name="SharedSecrets">Shared secrets the project inherits (names only, never values).</param>
 public record ProjectSettingsDto(
     int Id,
     string RepoFullName,
     string BranchFilter,
     bool EnablePrBuilds,
+    bool CancelSupersededBuilds,
     int TimeoutMinutes,
     string? DockerImage,
     string? Profile,
     IReadOnlyList<string> AvailableProfiles,
     bool IsProfileValid,
-    string? RequiredSecrets,
     bool NotifyOnFailure,
     string? NotificationEmail,
-    IReadOnlyList<string> SecretNames,
-    IReadOnlyList<string> MissingSecrets
+    IReadOnlyList<SecretStatusDto> RequiredSecrets,
+    IReadOnlyList<SecretDto> AllSecrets,
+    IReadOnlyList<string> MissingSecrets,
+    IReadOnlyList<LinkedSharedSecretDto> SharedSecrets
+);
+
+/// <summary>
+/// A secret required by the build script.
+/// </summary>
+/// <param name="Name">Secret name.</param>
+/// <param name="IsSet">Whether the default build (selected profile, default branch) gets a value.</param>
+/// <param name="RotateBy">Date by which that value should be rotated, if set.</param>
+/// <param name="Scopes">Whether each scope in use gets a value, and from where.</param>
+/// <param name="IsInherited">Whether the default build gets the value of a linked shared secret.</param>
+public record SecretStatusDto(
+    string Name,
+    bool IsSet,
+    DateTime? RotateBy,
+    IReadOnlyList<SecretScopeStatusDto> Scopes,
+    bool IsInherited
+);
+
+/// <summary>
+/// Whether builds in one scope get a value for a required secret.
+/// </summary>
+/// <param name="Scope">The scope (empty for builds no scoped value applies to).</param>
+/// <param name="IsSet">Whether builds in the scope get a value.</param>
+/// <param name="ResolvedScope">Scope of the project value they get: the scope itself, or empty when it falls back to the unscoped value. Null when the value is missing or inherited.</param>
+/// <param name="IsInherited">Whether builds in the scope get the value of a linked shared secret.</param>
+public record SecretScopeStatusDto(
+    string Scope,
+    bool IsSet,
+    string? ResolvedScope,
+    bool IsInherited
+);
+
+/// <summary>
+/// A configured secret. Values are write-only and never included.
+/// </summary>
+/// <param name="Name">Secret name.</param>
+/// <param name="Scope">Builds the value applies to: empty for all, "profile:name" or "branch:pattern".</param>
+/// <param name="CreatedAt">When the secret was first set.</param>
+/// <param name="UpdatedAt">When the value last changed (creation time if never).</param>
+/// <param name="Version">Number of values the secret has had.</param>
+/// <param name="UpdatedBy">Who set the current value, if known.</param>
+/// <param name="FirstUsedByBuildId">First build that ran with the current value.</param>
+/// <param name="RotateBy">Date by which the value should be rotated, if set.</param>
+public record SecretDto(
+    string Name,
+    string Scope,
+    DateTime CreatedAt,
+    DateTime UpdatedAt,
+    int Version,
+    string? UpdatedBy,
+    int? FirstUsedByBuildId,
+    DateTime? RotateBy
+);
+
+/// <summary>
+/// A shared secret linked to the project. Values are never included.
+/// </summary>
+/// <param name="Id">Shared secret's unique identifier.</param>
+/// <param name="Name">Secret name.</param>
+/// <param name="UpdatedAt">When the shared value last changed (creation time if never).</param>
+/// <param name="Version">Number of values the shared secret has had.</param>
+/// <param name="OverriddenScopes">Scopes in which the project sets its own value (empty scope for all builds).</param>
+public record LinkedSharedSecretDto(
+    int Id,
+    string Name,
+    DateTime UpdatedAt,
+    int Version,
+    IReadOnlyList<string> OverriddenScopes
 );
 
 /// <summary>
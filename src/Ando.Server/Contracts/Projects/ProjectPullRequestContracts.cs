@@ -0,0 +1,58 @@
+// =============================================================================
+// ProjectPullRequestContracts.cs
+//
+// Summary: Response contracts for the project pull requests endpoint.
+//
+// Pull request metadata comes from GitHub; when GitHub is unavailable the
+// list is rebuilt from PR builds and the metadata fields are null.
+// =============================================================================
+
+namespace Ando.Server.Contracts.Projects;
+
+/// <summary>
+/// Response containing a project's pull requests and their builds.
+/// </summary>
+/// <param name="PullRequests">Pull requests, most recently updated first.</param>
+/// <param name="IsLive">Whether the list of open pull requests came from GitHub.</param>
+public record GetProjectPullRequestsResponse(
+    IReadOnlyList<PullRequestDto> PullRequests,
+    bool IsLive
+);
+
+/// <summary>
+/// A pull request with its build history.
+/// </summary>
+/// <param name="Number">Pull request number.</param>
+/// <param name="Title">Pull request title.</param>
+/// <param name="Author">GitHub login of the author.</param>
+/// <param name="HeadSha">Current head commit SHA (null if unknown).</param>
+/// <param name="HeadBranch">Source branch.</param>
+/// <param name="BaseBranch">Target branch (null if unknown).</param>
+/// <param name="HtmlUrl">URL to the pull request on GitHub.</param>
+/// <param name="IsDraft">Whether the pull request is a draft.</param>
+/// <param name="UpdatedAt">When the pull request was last updated (null if unknown).</param>
+/// <param name="TotalBuilds">Number of builds of this pull request.</param>
+/// <param name="Builds">Most recent builds of this pull request, newest first.</param>
+public record PullRequestDto(
+    int Number,
+    string? Title,
+    string? Author,
+    string? HeadSha,
+    string? HeadBranch,
+    string? BaseBranch,
+    string HtmlUrl,
+    bool IsDraft,
+    DateTime? UpdatedAt,
+    int TotalBuilds,
+    IReadOnlyList<PullRequestBuildDto> Builds
+);
+
+/// <summary>
+/// A build of a pull request.
+/// </summary>
+/// <param name="Build">The build.</param>
+/// <param name="IsSuperseded">Whether a newer commit on the pull request replaced this build's commit.</param>
+public record PullRequestBuildDto(
+    BuildListItemDto Build,
+    bool IsSuperseded
+);
@@ -41,3 +41,35 @@ public record GetProjectResponse(
 public record GetProjectSettingsResponse(
     ProjectSettingsDto Settings
 );
+
+/// <summary>
+/// Response containing one page of a project's build history.
+/// </summary>
+/// <param name="Builds">Builds on this page, newest first.</param>
+/// <param name="NextCursor">Cursor for the following page, or null on the last page.</param>
+public record GetProjectBuildsResponse(
+    IReadOnlyList<BuildListItemDto> Builds,
+    string? NextCursor
+);
+
+/// <summary>
+/// Response containing the repository's branches for the trigger dialog.
+/// </summary>
+/// <param name="Branches">Branches from GitHub, default branch first.</param>
+/// <param name="DefaultBranch">The project's default branch.</param>
+public record GetRepositoryBranchesResponse(
+    IReadOnlyList<RepositoryBranchDto> Branches,
+    string DefaultBranch
+);
+
+/// <summary>
+/// A branch in the project's repository.
+/// </summary>
+/// <param name="Name">Branch name.</param>
+/// <param name="HeadSha">SHA of the branch's head commit.</param>
+/// <param name="IsProtected">Whether the branch is protected on GitHub.</param>
+public record RepositoryBranchDto(
+    string Name,
+    string HeadSha,
+    bool IsProtected
+);
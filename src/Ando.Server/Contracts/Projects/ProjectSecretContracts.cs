@@ -26,6 +26,12 @@ public class SetSecretRequest
     /// </summary>
     [Required(ErrorMessage = "Secret value is required")]
     public string Value { get; set; } = "";
+
+    /// <summary>
+    /// Builds the value applies to: empty for all builds, "profile:name" or
+    /// "branch:pattern".
+    /// </summary>
+    public string? Scope { get; set; }
 }
 
 /// <summary>
@@ -33,33 +39,118 @@ public class SetSecretRequest
 /// </summary>
 /// <param name="Success">Whether the operation succeeded.</param>
 /// <param name="Error">Error message if operation failed.</param>
+/// <param name="Unchanged">True when the secret already had the submitted value.</param>
 public record SecretResponse(
     bool Success,
-    string? Error = null
+    string? Error = null,
+    bool Unchanged = false
+);
+
+/// <summary>
+/// Request to set or clear a secret's rotation deadline.
+/// </summary>
+public class SetSecretRotationRequest
+{
+    /// <summary>
+    /// Date by which the secret should be rotated, or null to clear it.
+    /// </summary>
+    public DateTime? RotateBy { get; set; }
+
+    /// <summary>
+    /// Scope of the value to update (empty for the unscoped value).
+    /// </summary>
+    public string? Scope { get; set; }
+}
+
+/// <summary>
+/// Response containing the secret audit trail.
+/// </summary>
+/// <param name="Events">Events, most recent first.</param>
+public record GetSecretHistoryResponse(
+    IReadOnlyList<SecretEventDto> Events
+);
+
+/// <summary>
+/// One secret audit trail entry. Never includes values.
+/// </summary>
+/// <param name="Id">Event identifier.</param>
+/// <param name="SecretName">Secret the event applies to.</param>
+/// <param name="Scope">Scope of the value (empty for the unscoped value).</param>
+/// <param name="Type">Created, Updated, Deleted, RotationDeadlineSet or RotationDeadlineCleared.</param>
+/// <param name="Version">Value version after the event.</param>
+/// <param name="ActorName">Who made the change, if known.</param>
+/// <param name="OccurredAt">When the change was made.</param>
+/// <param name="RotateBy">New rotation deadline (RotationDeadlineSet only).</param>
+/// <param name="FirstUsedByBuildId">First build that ran with the value (value changes only).</param>
+public record SecretEventDto(
+    long Id,
+    string SecretName,
+    string Scope,
+    string Type,
+    int Version,
+    string? ActorName,
+    DateTime OccurredAt,
+    DateTime? RotateBy,
+    int? FirstUsedByBuildId
 );
 
 /// <summary>
-/// Request to bulk import secrets from .env format.
+/// Request to bulk import secrets, either as .env content or as name/value
+/// pairs already parsed by the client.
 /// </summary>
 public class BulkImportSecretsRequest
 {
     /// <summary>
-    /// Content in .env format (KEY=value, one per line).
+    /// Content in .env format (KEY=value, one per line). Ignored when
+    /// Secrets is given.
     /// </summary>
-    [Required(ErrorMessage = "Content is required")]
     public string Content { get; set; } = "";
+
+    /// <summary>
+    /// Parsed secrets to import.
+    /// </summary>
+    public List<BulkSecretValue>? Secrets { get; set; }
+}
+
+/// <summary>
+/// A secret name and value in a bulk import or preview.
+/// </summary>
+public class BulkSecretValue
+{
+    public string Name { get; set; } = "";
+
+    public string Value { get; set; } = "";
 }
 
 /// <summary>
 /// Response from bulk import operation.
 /// </summary>
 /// <param name="Success">Whether import succeeded.</param>
-/// <param name="ImportedCount">Number of secrets imported.</param>
+/// <param name="ImportedCount">Number of secrets created or changed.</param>
 /// <param name="Errors">List of import errors, if any.</param>
+/// <param name="UnchangedCount">Number of secrets that already had the imported value.</param>
 public record BulkImportSecretsResponse(
     bool Success,
     int ImportedCount,
-    IReadOnlyList<string>? Errors = null
+    IReadOnlyList<string>? Errors = null,
+    int UnchangedCount = 0
+);
+
+/// <summary>
+/// Request to compare parsed secrets with the stored values before importing.
+/// </summary>
+public class PreviewBulkSecretsRequest
+{
+    [Required(ErrorMessage = "Secrets are required")]
+    public List<BulkSecretValue> Secrets { get; set; } = [];
+}
+
+/// <summary>
+/// Response from comparing parsed secrets with the stored values.
+/// </summary>
+/// <param name="UnchangedNames">Secrets whose unscoped value already equals the submitted value.</param>
+public record PreviewBulkSecretsResponse(
+    IReadOnlyList<string> UnchangedNames
 );
 
 /// <summary>
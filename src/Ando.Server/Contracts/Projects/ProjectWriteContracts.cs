@@ -52,6 +52,11 @@ public class UpdateProjectSettingsRequest
     /// </summary>
     public bool EnablePrBuilds { get; set; }
 
+    /// <summary>
+    /// Whether a new build cancels queued or running builds of the same branch or PR.
+    /// </summary>
+    public bool CancelSupersededBuilds { get; set; }
+
     /// <summary>
     /// Build timeout in minutes.
     /// </summary>
@@ -107,6 +112,23 @@ public class TriggerBuildRequest
     /// Branch to build (defaults to repository's default branch).
     /// </summary>
     public string? Branch { get; set; }
+
+    /// <summary>
+    /// Specific commit to build (defaults to the branch head).
+    /// </summary>
+    public string? CommitSha { get; set; }
+
+    /// <summary>
+    /// Profile to build with (defaults to the project's selected profile).
+    /// Must be one of the project's available profiles.
+    /// </summary>
+    public string? Profile { get; set; }
+
+    /// <summary>
+    /// One-off environment variables for this build only. These override
+    /// project secrets with the same name.
+    /// </summary>
+    public Dictionary<string, string>? EnvironmentOverrides { get; set; }
 }
 
 /// <summary>
@@ -0,0 +1,80 @@
+// =============================================================================
+// SharedSecretContracts.cs
+//
+// Summary: Request/response contracts for shared secret endpoints.
+// =============================================================================
+
+using System.ComponentModel.DataAnnotations;
+
+namespace Ando.Server.Contracts.SharedSecrets;
+
+/// <summary>
+/// A shared secret. Values are write-only and never included.
+/// </summary>
+/// <param name="Id">Shared secret's unique identifier.</param>
+/// <param name="Name">Secret name.</param>
+/// <param name="CreatedAt">When the secret was first set.</param>
+/// <param name="UpdatedAt">When the value last changed (creation time if never).</param>
+/// <param name="Version">Number of values the secret has had.</param>
+/// <param name="Projects">Projects linked to the secret.</param>
+public record SharedSecretDto(
+    int Id,
+    string Name,
+    DateTime CreatedAt,
+    DateTime UpdatedAt,
+    int Version,
+    IReadOnlyList<SharedSecretProjectDto> Projects
+);
+
+/// <summary>
+/// A project linked to a shared secret.
+/// </summary>
+/// <param name="Id">Project's unique identifier.</param>
+/// <param name="RepoFullName">Full repository name (owner/repo).</param>
+/// <param name="OverriddenScopes">Scopes in which the project sets its own value (empty scope for all builds).</param>
+public record SharedSecretProjectDto(
+    int Id,
+    string RepoFullName,
+    IReadOnlyList<string> OverriddenScopes
+);
+
+/// <summary>
+/// Response containing the user's shared secrets.
+/// </summary>
+public record GetSharedSecretsResponse(
+    IReadOnlyList<SharedSecretDto> SharedSecrets
+);
+
+/// <summary>
+/// Request to add or update a shared secret.
+/// </summary>
+public class SetSharedSecretRequest
+{
+    /// <summary>
+    /// Secret name (uppercase with underscores, e.g., NUGET_API_KEY).
+    /// </summary>
+    [Required(ErrorMessage = "Secret name is required")]
+    [RegularExpression(@"^[A-Z_][A-Z0-9_]*$",
+        ErrorMessage = "Secret name must be uppercase with underscores only (e.g., MY_SECRET)")]
+    public string Name { get; set; } = "";
+
+    /// <summary>
+    /// Secret value to store.
+    /// </summary>
+    [Required(ErrorMessage = "Secret value is required")]
+    public string Value { get; set; } = "";
+}
+
+/// <summary>
+/// Response from a shared secret operation.
+/// </summary>
+/// <param name="Success">Whether the operation succeeded.</param>
+/// <param name="Error">Error message if operation failed.</param>
+/// <param name="Unchanged">True when the secret already had the submitted value.</param>
+/// <param name="Projects">Projects linked to the secret, which receive the new value.</param>
+public record SetSharedSecretResponse(
+    bool Success,
+    string? Error = null,
+    bool Unchanged = false,
+    IReadOnlyList<SharedSecretProjectDto>? Projects = null
+);
@@ -33,6 +33,9 @@ public class AndoDbContext : IdentityDbContext<ApplicationUser, ApplicationRole,
     // Note: Users DbSet is provided by IdentityDbContext as base.Users
     public DbSet<Project> Projects => Set<Project>();
     public DbSet<ProjectSecret> ProjectSecrets => Set<ProjectSecret>();
+    public DbSet<ProjectSecretEvent> ProjectSecretEvents => Set<ProjectSecretEvent>();
+    public DbSet<SharedSecret> SharedSecrets => Set<SharedSecret>();
+    public DbSet<ProjectSharedSecret> ProjectSharedSecrets => Set<ProjectSharedSecret>();
     public DbSet<Build> Builds => Set<Build>();
     public DbSet<BuildLogEntry> BuildLogEntries => Set<BuildLogEntry>();
     public DbSet<BuildArtifact> BuildArtifacts => Set<BuildArtifact>();
@@ -47,6 +50,9 @@ public class AndoDbContext : IdentityDbContext<ApplicationUser, ApplicationRole,
         ConfigureApiToken(modelBuilder);
         ConfigureProject(modelBuilder);
         ConfigureProjectSecret(modelBuilder);
+        ConfigureProjectSecretEvent(modelBuilder);
+        ConfigureSharedSecret(modelBuilder);
+        ConfigureProjectSharedSecret(modelBuilder);
         ConfigureBuild(modelBuilder);
         ConfigureBuildLogEntry(modelBuilder);
         ConfigureBuildArtifact(modelBuilder);
@@ -179,6 +185,11 @@ public class AndoDbContext : IdentityDbContext<ApplicationUser, ApplicationRole,
                 .WithOne(s => s.Project)
                 .HasForeignKey(s => s.ProjectId)
                 .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasMany(e => e.SecretEvents)
+                .WithOne(s => s.Project)
+                .HasForeignKey(s => s.ProjectId)
+                .OnDelete(DeleteBehavior.Cascade);
         });
     }
 
@@ -199,12 +210,112 @@ public class AndoDbContext : IdentityDbContext<ApplicationUser, ApplicationRole,
                 .IsRequired()
                 .HasMaxLength(2000);
 
-            // Unique constraint: one secret per name per project
-            entity.HasIndex(e => new { e.ProjectId, e.Name })
+            entity.Property(e => e.Scope)
+                .IsRequired()
+                .HasMaxLength(200)
+                .HasDefaultValue("");
+
+            entity.Property(e => e.Version)
+                .HasDefaultValue(1);
+
+            // Unique constraint: one value per name and scope per project
+            entity.HasIndex(e => new { e.ProjectId, e.Name, e.Scope })
                 .IsUnique();
         });
     }
 
+    // -------------------------------------------------------------------------
+    // ProjectSecretEvent Configuration
+    // -------------------------------------------------------------------------
+    private static void ConfigureProjectSecretEvent(ModelBuilder modelBuilder)
+    {
+        modelBuilder.Entity<ProjectSecretEvent>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.SecretName)
+                .IsRequired()
+                .HasMaxLength(100);
+
+            entity.Property(e => e.Scope)
+                .IsRequired()
+                .HasMaxLength(200)
+                .HasDefaultValue("");
+
+            entity.Property(e => e.Type)
+                .IsRequired()
+                .HasConversion<string>()
+                .HasMaxLength(30);
+
+            entity.Property(e => e.ActorName)
+                .HasMaxLength(256);
+
+            // Index for listing a project's trail (most recent first)
+            entity.HasIndex(e => new { e.ProjectId, e.OccurredAt })
+                .IsDescending(false, true);
+
+            // Index for finding a secret's history
+            entity.HasIndex(e => new { e.ProjectId, e.SecretName });
+        });
+    }
+
+    // -------------------------------------------------------------------------
+    // SharedSecret Configuration
+    // -------------------------------------------------------------------------
+    private static void ConfigureSharedSecret(ModelBuilder modelBuilder)
+    {
+        modelBuilder.Entity<SharedSecret>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+
+            entity.Property(e => e.Name)
+                .IsRequired()
+                .HasMaxLength(100);
+
+            entity.Property(e => e.EncryptedValue)
+                .IsRequired()
+                .HasMaxLength(2000);
+
+            entity.Property(e => e.Version)
+                .HasDefaultValue(1);
+
+            // Unique constraint: one shared secret per name per owner
+            entity.HasIndex(e => new { e.OwnerId, e.Name })
+                .IsUnique();
+
+            entity.HasOne(e => e.Owner)
+                .WithMany(u => u.SharedSecrets)
+                .HasForeignKey(e => e.OwnerId)
+                .OnDelete(DeleteBehavior.Cascade);
+        });
+    }
+
+    // -------------------------------------------------------------------------
+    // ProjectSharedSecret Configuration
+    // -------------------------------------------------------------------------
+    private static void ConfigureProjectSharedSecret(ModelBuilder modelBuilder)
+    {
+        modelBuilder.Entity<ProjectSharedSecret>(entity =>
+        {
+            entity.HasKey(e => new { e.ProjectId, e.SharedSecretId });
+
+            entity.HasIndex(e => e.SharedSecretId);
+
+            entity.HasOne(e => e.Project)
+                .WithMany(p => p.SharedSecretLinks)
+                .HasForeignKey(e => e.ProjectId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // Deleting a user cascades through both projects and shared secrets,
+            // which SQL Server rejects as multiple cascade paths. Links to a
+            // deleted shared secret are removed by EF instead.
+            entity.HasOne(e => e.SharedSecret)
+                .WithMany(s => s.ProjectLinks)
+                .HasForeignKey(e => e.SharedSecretId)
+                .OnDelete(DeleteBehavior.ClientCascade);
+        });
+    }
+
     // -------------------------------------------------------------------------
     // Build Configuration
     // -------------------------------------------------------------------------
@@ -244,6 +355,9 @@ public class AndoDbContext : IdentityDbContext<ApplicationUser, ApplicationRole,
             entity.Property(e => e.ErrorMessage)
                 .HasMaxLength(2000);
 
+            entity.Property(e => e.CancellationReason)
+                .HasMaxLength(500);
+
             entity.Property(e => e.HangfireJobId)
                 .HasMaxLength(100);
 
@@ -309,6 +423,9 @@ public class AndoDbContext : IdentityDbContext<ApplicationUser, ApplicationRole,
                 .IsRequired()
                 .HasMaxLength(500);
 
+            entity.Property(e => e.Sha256)
+                .HasMaxLength(64);
+
             // Index for cleanup job to find expired artifacts
             entity.HasIndex(e => e.ExpiresAt);
 
@@ -0,0 +1,71 @@
+// =============================================================================
+// CancelQueuedBuildsEndpoint.cs
+//
+// Summary: FastEndpoint for cancelling several builds at once (admin only).
+//
+// Cancels queued or running builds of any user through the build service, so
+// each cancellation behaves like the per-build cancel button.
+//
+// Design Decisions:
+// - Requires Admin role
+// - Builds that already finished are skipped, not reported as errors
+// - The cancellation reason names the admin
+// - Audit logged
+// =============================================================================
+
+using System.Security.Claims;
+using Ando.Server.Contracts.Admin;
+using Ando.Server.Models;
+using Ando.Server.Services;
+using FastEndpoints;
+
+namespace Ando.Server.Endpoints.Admin;
+
+/// <summary>
+/// POST /api/admin/queue/cancel - Cancel several builds.
+/// </summary>
+public class CancelQueuedBuildsEndpoint : Endpoint<CancelQueuedBuildsRequest, CancelQueuedBuildsResponse>
+{
+    private readonly IBuildService _buildService;
+    private readonly IAuditLogger _auditLogger;
+
+    public CancelQueuedBuildsEndpoint(IBuildService buildService, IAuditLogger auditLogger)
+    {
+        _buildService = buildService;
+        _auditLogger = auditLogger;
+    }
+
+    public override void Configure()
+    {
+        Post("/admin/queue/cancel");
+        Roles(UserRoles.Admin);
+    }
+
+    public override async Task HandleAsync(CancelQueuedBuildsRequest req, CancellationToken ct)
+    {
+        var adminId = int.Parse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "0");
+        var adminEmail = User.FindFirst(ClaimTypes.Email)?.Value;
+        var reason = $"Cancelled by administrator {User.Identity?.Name ?? adminEmail ?? "admin"}";
+
+        var cancelledIds = new List<int>();
+        foreach (var buildId in req.BuildIds.Distinct())
+        {
+            if (await _buildService.CancelBuildAsync(buildId, reason))
+            {
+                cancelledIds.Add(buildId);
+            }
+        }
+
+        _auditLogger.LogAdminAction(
+            "BuildsCancelled",
+            $"Cancelled {cancelledIds.Count} builds from the build queue",
+            adminId,
+            adminEmail,
+            metadata: new Dictionary<string, object>
+            {
+                ["buildIds"] = string.Join(",", cancelledIds)
+            });
+
+        await SendAsync(new CancelQueuedBuildsResponse(cancelledIds.Count), cancellation: ct);
+    }
+}
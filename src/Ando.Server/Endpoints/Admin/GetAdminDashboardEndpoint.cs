@@ -53,6 +53,8 @@ public class GetAdminDashboardEndpoint : EndpointWithoutRequest<AdminDashboardDt
         var totalProjects = await _db.Projects.CountAsync(ct);
         var totalBuilds = await _db.Builds.CountAsync(ct);
         var recentBuilds = await _db.Builds.CountAsync(b => b.QueuedAt >= yesterday, ct);
+        var activeBuilds = await _db.Builds.CountAsync(
+            b => b.Status == BuildStatus.Queued || b.Status == BuildStatus.Running, ct);
 
         var recentUsersList = await _userManager.Users
             .OrderByDescending(u => u.CreatedAt)
@@ -87,6 +89,7 @@ public class GetAdminDashboardEndpoint : EndpointWithoutRequest<AdminDashboardDt
             adminUsers,
             totalProjects,
             totalBuilds,
+            activeBuilds,
             recentBuilds,
             recentUsersList,
             recentBuildsList
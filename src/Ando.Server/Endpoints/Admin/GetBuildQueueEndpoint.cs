@@ -0,0 +1,90 @@
+// =============================================================================
+// GetBuildQueueEndpoint.cs
+//
+// Summary: FastEndpoint for the build queue across all users (admin only).
+//
+// Returns running builds and queued builds in the order they will start,
+// together with whether the queue is paused.
+//
+// Design Decisions:
+// - Requires Admin role
+// - Queue order comes from BuildQueue, the same rules the build job applies
+// - Wait times are derived from QueuedAt on the client so they tick live
+// =============================================================================
+
+using Ando.Server.Configuration;
+using Ando.Server.Contracts.Admin;
+using Ando.Server.Data;
+using Ando.Server.Models;
+using Ando.Server.Services;
+using FastEndpoints;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Options;
+
+namespace Ando.Server.Endpoints.Admin;
+
+/// <summary>
+/// GET /api/admin/queue - Get the build queue.
+/// </summary>
+public class GetBuildQueueEndpoint : EndpointWithoutRequest<GetBuildQueueResponse>
+{
+    private readonly AndoDbContext _db;
+    private readonly BuildSettings _buildSettings;
+
+    public GetBuildQueueEndpoint(AndoDbContext db, IOptions<BuildSettings> buildSettings)
+    {
+        _db = db;
+        _buildSettings = buildSettings.Value;
+    }
+
+    public override void Configure()
+    {
+        Get("/admin/queue");
+        Roles(UserRoles.Admin);
+    }
+
+    public override async Task HandleAsync(CancellationToken ct)
+    {
+        var settings = await _db.SystemSettings
+            .AsNoTracking()
+            .FirstOrDefaultAsync(ct);
+
+        var activeBuilds = await _db.Builds
+            .AsNoTracking()
+            .Include(b => b.Project)
+            .ThenInclude(p => p.Owner)
+            .Where(b => b.Status == BuildStatus.Queued || b.Status == BuildStatus.Running)
+            .ToListAsync(ct);
+
+        var running = activeBuilds
+            .Where(b => b.Status == BuildStatus.Running)
+            .OrderBy(b => b.StartedAt)
+            .Select(b => ToDto(b, position: null))
+            .ToList();
+
+        var queued = BuildQueue.Order(activeBuilds.Where(b => b.Status == BuildStatus.Queued))
+            .Select((b, index) => ToDto(b, index + 1))
+            .ToList();
+
+        await SendAsync(new GetBuildQueueResponse(
+            settings?.IsBuildQueuePaused ?? false,
+            settings?.BuildQueuePausedAt,
+            _buildSettings.WorkerCount,
+            running,
+            queued), cancellation: ct);
+    }
+
+    private static QueuedBuildDto ToDto(Build build, int? position) => new(
+        build.Id,
+        position,
+        build.ProjectId,
+        build.Project.RepoFullName,
+        build.Project.Owner.Email ?? "",
+        build.Branch,
+        build.CommitSha.Length >= 8 ? build.CommitSha[..8] : build.CommitSha,
+        build.Status.ToString(),
+        build.Trigger.ToString(),
+        build.QueuePriority,
+        build.QueuedAt,
+        build.StartedAt);
+}
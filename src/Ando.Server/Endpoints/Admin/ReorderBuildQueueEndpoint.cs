@@ -0,0 +1,97 @@
+// =============================================================================
+// ReorderBuildQueueEndpoint.cs
+//
+// Summary: FastEndpoint for reordering the build queue (admin only).
+//
+// Takes queued build IDs in the order they should start and assigns
+// descending priorities so the build job starts them in that order.
+//
+// Design Decisions:
+// - Requires Admin role
+// - Only queued builds are reordered; other IDs are rejected
+// - Audit logged
+// =============================================================================
+
+using System.Security.Claims;
+using Ando.Server.Contracts.Admin;
+using Ando.Server.Data;
+using Ando.Server.Hubs;
+using Ando.Server.Models;
+using Ando.Server.Services;
+using FastEndpoints;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
+
+namespace Ando.Server.Endpoints.Admin;
+
+/// <summary>
+/// POST /api/admin/queue/reorder - Set the order of queued builds.
+/// </summary>
+public class ReorderBuildQueueEndpoint : Endpoint<ReorderBuildQueueRequest, ReorderBuildQueueResponse>
+{
+    private readonly AndoDbContext _db;
+    private readonly IHubContext<BuildLogHub> _hubContext;
+    private readonly IAuditLogger _auditLogger;
+
+    public ReorderBuildQueueEndpoint(
+        AndoDbContext db,
+        IHubContext<BuildLogHub> hubContext,
+        IAuditLogger auditLogger)
+    {
+        _db = db;
+        _hubContext = hubContext;
+        _auditLogger = auditLogger;
+    }
+
+    public override void Configure()
+    {
+        Post("/admin/queue/reorder");
+        Roles(UserRoles.Admin);
+    }
+
+    public override async Task HandleAsync(ReorderBuildQueueRequest req, CancellationToken ct)
+    {
+        var buildIds = req.BuildIds.Distinct().ToList();
+        if (buildIds.Count == 0)
+        {
+            await SendAsync(new ReorderBuildQueueResponse(false, "No builds to reorder."), cancellation: ct);
+            return;
+        }
+
+        var builds = await _db.Builds
+            .Where(b => buildIds.Contains(b.Id) && b.Status == BuildStatus.Queued)
+            .ToListAsync(ct);
+
+        if (builds.Count != buildIds.Count)
+        {
+            await SendAsync(
+                new ReorderBuildQueueResponse(false, "Some builds are no longer queued. Refresh and try again."),
+                cancellation: ct);
+            return;
+        }
+
+        var priorities = BuildQueue.PrioritiesFor(buildIds);
+        foreach (var build in builds)
+        {
+            build.QueuePriority = priorities[build.Id];
+        }
+        await _db.SaveChangesAsync(ct);
+
+        var adminId = int.Parse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "0");
+        _auditLogger.LogAdminAction(
+            "BuildQueueReordered",
+            $"Build queue reordered ({buildIds.Count} builds)",
+            adminId,
+            User.FindFirst(ClaimTypes.Email)?.Value,
+            metadata: new Dictionary<string, object>
+            {
+                ["buildIds"] = string.Join(",", buildIds)
+            });
+
+        await _hubContext.Clients
+            .Group(BuildLogHub.GetAdminQueueGroupName())
+            .SendAsync("BuildQueueChanged", new { }, ct);
+
+        await SendAsync(new ReorderBuildQueueResponse(true), cancellation: ct);
+    }
+}
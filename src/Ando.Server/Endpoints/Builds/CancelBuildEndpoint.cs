@@ -68,7 +68,10 @@ public class CancelBuildEndpoint : EndpointWithoutRequest<CancelBuildResponse>
             return;
         }
 
-        var success = await _buildService.CancelBuildAsync(buildId);
+        var cancelledBy = User.Identity?.Name;
+        var success = await _buildService.CancelBuildAsync(
+            buildId,
+            string.IsNullOrEmpty(cancelledBy) ? "Cancelled manually" : $"Cancelled by {cancelledBy}");
 
         if (success)
         {
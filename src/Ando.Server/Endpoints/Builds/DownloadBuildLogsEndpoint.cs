@@ -0,0 +1,93 @@
+// =============================================================================
+// DownloadBuildLogsEndpoint.cs
+//
+// Summary: FastEndpoint for downloading a build's full log.
+//
+// Exports all log entries as plain text, ANSI-preserving .log, JSON or a
+// self-contained HTML page, selected via the "format" query parameter.
+//
+// Design Decisions:
+// - Requires authentication (cookie or API token)
+// - Verifies project ownership
+// - Defaults to plain text when no format is given
+// - Returns 400 for unknown formats
+// =============================================================================
+
+using System.Security.Claims;
+using System.Text;
+using Ando.Server.Contracts.Builds;
+using Ando.Server.Data;
+using Ando.Server.Services;
+using FastEndpoints;
+using Microsoft.EntityFrameworkCore;
+
+namespace Ando.Server.Endpoints.Builds;
+
+/// <summary>
+/// GET /api/builds/{id}/logs/download - Download build logs.
+/// </summary>
+public class DownloadBuildLogsEndpoint : EndpointWithoutRequest
+{
+    private readonly AndoDbContext _db;
+
+    public DownloadBuildLogsEndpoint(AndoDbContext db)
+    {
+        _db = db;
+    }
+
+    public override void Configure()
+    {
+        Get("/builds/{id}/logs/download");
+    }
+
+    public override async Task HandleAsync(CancellationToken ct)
+    {
+        var buildId = Route<int>("id");
+        var formatValue = Query<string>("format", isRequired: false);
+        var userId = int.Parse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "0");
+
+        if (!BuildLogExporter.TryParseFormat(formatValue, out var format))
+        {
+            await SendAsync(new { error = $"Unsupported log format '{formatValue}'. Use text, ansi, json or html." }, 400, ct);
+            return;
+        }
+
+        var build = await _db.Builds
+            .Include(b => b.Project)
+            .FirstOrDefaultAsync(b => b.Id == buildId, ct);
+
+        if (build == null)
+        {
+            await SendNotFoundAsync(ct);
+            return;
+        }
+
+        // Verify ownership
+        if (build.Project.OwnerId != userId)
+        {
+            await SendNotFoundAsync(ct);
+            return;
+        }
+
+        var logs = await _db.BuildLogEntries
+            .Where(l => l.BuildId == buildId)
+            .OrderBy(l => l.Sequence)
+            .Select(l => new LogEntryDto(
+                l.Id,
+                l.Sequence,
+                l.Type.ToString(),
+                l.Message,
+                l.StepName,
+                l.Timestamp
+            ))
+            .ToListAsync(ct);
+
+        var content = BuildLogExporter.Export(logs, format, $"{build.Project.RepoFullName} · Build #{build.Id}");
+
+        await SendBytesAsync(
+            Encoding.UTF8.GetBytes(content),
+            BuildLogExporter.GetFileName(build.Project.RepoFullName, build.Id, format),
+            BuildLogExporter.GetContentType(format),
+            cancellation: ct);
+    }
+}
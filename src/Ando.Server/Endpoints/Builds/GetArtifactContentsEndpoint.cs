@@ -0,0 +1,116 @@
+// =============================================================================
+// GetArtifactContentsEndpoint.cs
+//
+// Summary: FastEndpoint for listing the contents of an artifact.
+//
+// Lists the files inside zip, nupkg and tar artifacts for the artifact browser
+// and returns the artifact's SHA-256 checksum.
+//
+// Design Decisions:
+// - Requires authentication
+// - Verifies project ownership via build
+// - Computes and stores the checksum for artifacts collected without one
+// - Non-archive artifacts return an empty list with a null format
+// =============================================================================
+
+using System.Security.Claims;
+using Ando.Server.Configuration;
+using Ando.Server.Contracts.Builds;
+using Ando.Server.Data;
+using Ando.Server.Services;
+using FastEndpoints;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Options;
+
+namespace Ando.Server.Endpoints.Builds;
+
+/// <summary>
+/// GET /api/builds/{buildId}/artifacts/{artifactId}/contents - List artifact contents.
+/// </summary>
+public class GetArtifactContentsEndpoint : EndpointWithoutRequest<ArtifactContentsResponse>
+{
+    private readonly AndoDbContext _db;
+    private readonly StorageSettings _storageSettings;
+    private readonly ILogger<GetArtifactContentsEndpoint> _logger;
+
+    public GetArtifactContentsEndpoint(
+        AndoDbContext db,
+        IOptions<StorageSettings> storageSettings,
+        ILogger<GetArtifactContentsEndpoint> logger)
+    {
+        _db = db;
+        _storageSettings = storageSettings.Value;
+        _logger = logger;
+    }
+
+    public override void Configure()
+    {
+        Get("/builds/{buildId}/artifacts/{artifactId}/contents");
+    }
+
+    public override async Task HandleAsync(CancellationToken ct)
+    {
+        var buildId = Route<int>("buildId");
+        var artifactId = Route<int>("artifactId");
+        var userId = int.Parse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "0");
+
+        var artifact = await _db.BuildArtifacts
+            .Include(a => a.Build)
+            .ThenInclude(b => b.Project)
+            .FirstOrDefaultAsync(a => a.Id == artifactId && a.BuildId == buildId, ct);
+
+        if (artifact == null || artifact.Build.Project.OwnerId != userId)
+        {
+            await SendNotFoundAsync(ct);
+            return;
+        }
+
+        var actualPath = ArtifactPathResolver.ResolveAbsolutePath(
+            _storageSettings.ArtifactsPath,
+            artifact.StoragePath);
+
+        if (string.IsNullOrWhiteSpace(actualPath) ||
+            !ArtifactPathResolver.IsWithinRoot(_storageSettings.ArtifactsPath, actualPath) ||
+            !File.Exists(actualPath))
+        {
+            await SendNotFoundAsync(ct);
+            return;
+        }
+
+        if (artifact.Sha256 == null)
+        {
+            artifact.Sha256 = await ArtifactChecksum.ComputeSha256Async(actualPath, ct);
+            await _db.SaveChangesAsync(ct);
+        }
+
+        var format = ArtifactArchive.GetFormat(artifact.Name);
+        if (format == null)
+        {
+            await SendAsync(new ArtifactContentsResponse(null, [], false, artifact.Sha256), cancellation: ct);
+            return;
+        }
+
+        try
+        {
+            await using var stream = File.OpenRead(actualPath);
+            var (entries, isTruncated) = ArtifactArchive.ListEntries(stream, format.Value);
+
+            await SendAsync(new ArtifactContentsResponse(
+                format.Value.ToDisplayName(),
+                entries
+                    .Select(e => new ArtifactEntryDto(
+                        e.Path,
+                        e.SizeBytes,
+                        e.IsDirectory,
+                        !e.IsDirectory && ArtifactPreview.GetContentType(e.Path) != null))
+                    .ToList(),
+                isTruncated,
+                artifact.Sha256), cancellation: ct);
+        }
+        catch (Exception ex) when (ex is InvalidDataException or FormatException)
+        {
+            _logger.LogWarning(ex, "Artifact {ArtifactId} is not a readable {Format} archive", artifactId, format);
+            await SendAsync(new { error = "The artifact could not be read as an archive." }, 400, ct);
+        }
+    }
+}
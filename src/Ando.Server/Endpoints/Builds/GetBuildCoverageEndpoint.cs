@@ -0,0 +1,137 @@
+// =============================================================================
+// GetBuildCoverageEndpoint.cs
+//
+// Summary: FastEndpoint for a build's code coverage.
+//
+// Parses the Cobertura and lcov reports among the build's artifacts and
+// compares them with the latest earlier successful build on the project's
+// default branch that recorded coverage.
+//
+// Design Decisions:
+// - Requires authentication
+// - Verifies project ownership via build
+// - Overall baseline rates come from the stored build columns, so the delta
+//   survives artifact expiry; per-file deltas need the baseline's artifacts
+// - Records the overall rates on builds collected before coverage was stored
+// - A build without reports returns empty results rather than 404
+// =============================================================================
+
+using System.Security.Claims;
+using Ando.Server.Configuration;
+using Ando.Server.Contracts.Builds;
+using Ando.Server.Data;
+using Ando.Server.Models;
+using Ando.Server.Services;
+using FastEndpoints;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Options;
+
+namespace Ando.Server.Endpoints.Builds;
+
+/// <summary>
+/// GET /api/builds/{id}/coverage - Get coverage parsed from report artifacts.
+/// </summary>
+public class GetBuildCoverageEndpoint : EndpointWithoutRequest<GetBuildCoverageResponse>
+{
+    private readonly AndoDbContext _db;
+    private readonly StorageSettings _storageSettings;
+
+    public GetBuildCoverageEndpoint(AndoDbContext db, IOptions<StorageSettings> storageSettings)
+    {
+        _db = db;
+        _storageSettings = storageSettings.Value;
+    }
+
+    public override void Configure()
+    {
+        Get("/builds/{id}/coverage");
+    }
+
+    public override async Task HandleAsync(CancellationToken ct)
+    {
+        var buildId = Route<int>("id");
+        var userId = int.Parse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "0");
+
+        var build = await _db.Builds
+            .Include(b => b.Project)
+            .Include(b => b.Artifacts)
+            .FirstOrDefaultAsync(b => b.Id == buildId, ct);
+
+        if (build == null || build.Project.OwnerId != userId)
+        {
+            await SendNotFoundAsync(ct);
+            return;
+        }
+
+        var current = await Coverage.CollectAsync(build.Artifacts, _storageSettings.ArtifactsPath, ct);
+        if (current.Reports.Count == 0)
+        {
+            await SendAsync(new GetBuildCoverageResponse(
+                [],
+                new CoverageSummaryDto(null, 0, 0, null, 0, 0),
+                [],
+                null), cancellation: ct);
+            return;
+        }
+
+        if (build.LineCoverage == null && build.Status == BuildStatus.Success)
+        {
+            build.LineCoverage = current.LineRate;
+            build.BranchCoverage = current.BranchRate;
+            await _db.SaveChangesAsync(ct);
+        }
+
+        var defaultBranch = build.Project.DefaultBranch;
+        var baselineBuild = await _db.Builds
+            .Include(b => b.Artifacts)
+            .Where(b => b.ProjectId == build.ProjectId &&
+                        b.Branch == defaultBranch &&
+                        b.Id < build.Id &&
+                        b.Status == BuildStatus.Success &&
+                        b.LineCoverage != null)
+            .OrderByDescending(b => b.Id)
+            .FirstOrDefaultAsync(ct);
+
+        var baselineFiles = new Dictionary<string, FileCoverage>(StringComparer.Ordinal);
+        CoverageBaselineDto? baseline = null;
+        if (baselineBuild != null)
+        {
+            var baselineCoverage = await Coverage.CollectAsync(baselineBuild.Artifacts, _storageSettings.ArtifactsPath, ct);
+            foreach (var file in baselineCoverage.Files)
+            {
+                baselineFiles[file.Path] = file;
+            }
+
+            baseline = new CoverageBaselineDto(
+                baselineBuild.Id,
+                defaultBranch,
+                baselineBuild.LineCoverage,
+                baselineBuild.BranchCoverage,
+                Coverage.Delta(current.LineRate, baselineBuild.LineCoverage),
+                Coverage.Delta(current.BranchRate, baselineBuild.BranchCoverage),
+                baselineCoverage.Reports.Count > 0);
+        }
+
+        var files = current.Files
+            .Select(f => new FileCoverageDto(
+                f.Path,
+                f.LineRate,
+                f.LinesCovered,
+                f.LinesValid,
+                f.BranchRate,
+                f.BranchesCovered,
+                f.BranchesValid,
+                baselineFiles.TryGetValue(f.Path, out var before) ? Coverage.Delta(f.LineRate, before.LineRate) : null))
+            .ToList();
+
+        var summary = new CoverageSummaryDto(
+            current.LineRate,
+            current.LinesCovered,
+            current.LinesValid,
+            current.BranchRate,
+            current.BranchesCovered,
+            current.BranchesValid);
+
+        await SendAsync(new GetBuildCoverageResponse(current.Reports, summary, files, baseline), cancellation: ct);
+    }
+}
@@ -16,6 +16,7 @@ using System.Security.Claims;
 using Ando.Server.Contracts.Builds;
 using Ando.Server.Data;
 using Ando.Server.Models;
+using Ando.Server.Services;
 using FastEndpoints;
 using Microsoft.EntityFrameworkCore;
 
@@ -76,7 +77,11 @@ public class GetBuildEndpoint : EndpointWithoutRequest<GetBuildResponse>
             a.Name,
             FormatFileSize(a.SizeBytes),
             a.SizeBytes,
-            a.CreatedAt
+            a.CreatedAt,
+            a.ExpiresAt,
+            a.Sha256,
+            ArtifactArchive.GetFormat(a.Name)?.ToDisplayName(),
+            ArtifactPreview.GetContentType(a.Name) != null
         )).ToList();
 
         await SendAsync(new GetBuildResponse(
@@ -102,6 +107,8 @@ public class GetBuildEndpoint : EndpointWithoutRequest<GetBuildResponse>
                 build.StepsCompleted,
                 build.StepsFailed,
                 build.ErrorMessage,
+                build.CancellationReason,
+                build.SupersededByBuildId,
                 build.Status == BuildStatus.Queued || build.Status == BuildStatus.Running,
                 build.Status == BuildStatus.Failed || build.Status == BuildStatus.Cancelled || build.Status == BuildStatus.TimedOut,
                 build.Status == BuildStatus.Queued || build.Status == BuildStatus.Running,
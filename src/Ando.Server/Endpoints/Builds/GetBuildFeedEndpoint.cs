@@ -0,0 +1,78 @@
+// =============================================================================
+// GetBuildFeedEndpoint.cs
+//
+// Summary: FastEndpoint for the cross-project builds feed.
+//
+// Returns one page of builds from every project the user owns, newest first,
+// with the same filters and cursor paging as the project build history.
+//
+// Design Decisions:
+// - Requires authentication
+// - Scoped to projects owned by the user
+// - Filter parsing and paging shared via BuildHistoryQuery
+// - Clients keep the feed live by refetching on build hub events
+// =============================================================================
+
+using System.Security.Claims;
+using Ando.Server.Contracts.Builds;
+using Ando.Server.Data;
+using Ando.Server.Services;
+using FastEndpoints;
+using Microsoft.EntityFrameworkCore;
+
+namespace Ando.Server.Endpoints.Builds;
+
+/// <summary>
+/// GET /api/builds - Get a page of builds across the user's projects.
+/// </summary>
+public class GetBuildFeedEndpoint : EndpointWithoutRequest<GetBuildFeedResponse>
+{
+    private readonly AndoDbContext _db;
+
+    public GetBuildFeedEndpoint(AndoDbContext db)
+    {
+        _db = db;
+    }
+
+    public override void Configure()
+    {
+        Get("/builds");
+    }
+
+    public override async Task HandleAsync(CancellationToken ct)
+    {
+        var userId = int.Parse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "0");
+
+        if (!BuildHistoryQuery.TryParse(name => Query<string>(name, isRequired: false), out var query, out var error))
+        {
+            await SendAsync(new { error }, 400, ct);
+            return;
+        }
+
+        var fetched = await query
+            .Apply(_db.Builds.Include(b => b.Project).Where(b => b.Project.OwnerId == userId))
+            .ToListAsync(ct);
+        var (builds, nextCursor) = query.ToPage(fetched);
+
+        var items = builds.Select(b => new BuildFeedItemDto(
+            b.Id,
+            b.ProjectId,
+            b.Project.RepoFullName,
+            b.CommitSha,
+            b.CommitSha.Length >= 8 ? b.CommitSha[..8] : b.CommitSha,
+            b.GitVersionTag,
+            b.Branch,
+            b.CommitMessage,
+            b.CommitAuthor,
+            b.Status.ToString(),
+            b.Trigger.ToString(),
+            b.QueuedAt,
+            b.StartedAt,
+            b.FinishedAt,
+            b.Duration,
+            b.PullRequestNumber
+        )).ToList();
+
+        await SendAsync(new GetBuildFeedResponse(items, nextCursor), cancellation: ct);
+    }
+}
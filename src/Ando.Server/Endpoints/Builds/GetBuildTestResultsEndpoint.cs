@@ -0,0 +1,128 @@
+// =============================================================================
+// GetBuildTestResultsEndpoint.cs
+//
+// Summary: FastEndpoint for a build's test results.
+//
+// Parses the TRX and JUnit reports among the build's artifacts and compares
+// them with the most recent earlier build on the same branch that published
+// test reports, flagging new failures and fixed tests.
+//
+// Design Decisions:
+// - Requires authentication
+// - Verifies project ownership via build
+// - Only finished (succeeded or failed) builds are used for comparison; a
+//   limited number of earlier builds is searched for reports
+// - A build without reports returns empty results rather than 404
+// =============================================================================
+
+using System.Security.Claims;
+using Ando.Server.Configuration;
+using Ando.Server.Contracts.Builds;
+using Ando.Server.Data;
+using Ando.Server.Models;
+using Ando.Server.Services;
+using FastEndpoints;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Options;
+
+namespace Ando.Server.Endpoints.Builds;
+
+/// <summary>
+/// GET /api/builds/{id}/tests - Get test results parsed from report artifacts.
+/// </summary>
+public class GetBuildTestResultsEndpoint : EndpointWithoutRequest<GetBuildTestResultsResponse>
+{
+    // How many earlier builds on the branch are searched for reports to compare with.
+    private const int MaxPreviousBuilds = 5;
+
+    private readonly AndoDbContext _db;
+    private readonly StorageSettings _storageSettings;
+
+    public GetBuildTestResultsEndpoint(AndoDbContext db, IOptions<StorageSettings> storageSettings)
+    {
+        _db = db;
+        _storageSettings = storageSettings.Value;
+    }
+
+    public override void Configure()
+    {
+        Get("/builds/{id}/tests");
+    }
+
+    public override async Task HandleAsync(CancellationToken ct)
+    {
+        var buildId = Route<int>("id");
+        var userId = int.Parse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "0");
+
+        var build = await _db.Builds
+            .Include(b => b.Project)
+            .Include(b => b.Artifacts)
+            .FirstOrDefaultAsync(b => b.Id == buildId, ct);
+
+        if (build == null || build.Project.OwnerId != userId)
+        {
+            await SendNotFoundAsync(ct);
+            return;
+        }
+
+        var current = await TestResults.CollectAsync(build.Artifacts, _storageSettings.ArtifactsPath, ct);
+        if (current.Reports.Count == 0)
+        {
+            await SendAsync(new GetBuildTestResultsResponse(
+                [],
+                new TestSummaryDto(0, 0, 0, 0, 0, 0, 0),
+                [],
+                null), cancellation: ct);
+            return;
+        }
+
+        var previousBuilds = await _db.Builds
+            .Include(b => b.Artifacts)
+            .Where(b => b.ProjectId == build.ProjectId &&
+                        b.Branch == build.Branch &&
+                        b.Id < build.Id &&
+                        (b.Status == BuildStatus.Success || b.Status == BuildStatus.Failed) &&
+                        b.Artifacts.Any())
+            .OrderByDescending(b => b.Id)
+            .Take(MaxPreviousBuilds)
+            .ToListAsync(ct);
+
+        int? previousBuildId = null;
+        var comparison = new TestResults.Comparison(new HashSet<string>(), new HashSet<string>());
+        foreach (var previousBuild in previousBuilds)
+        {
+            var previous = await TestResults.CollectAsync(previousBuild.Artifacts, _storageSettings.ArtifactsPath, ct);
+            if (previous.Reports.Count > 0)
+            {
+                previousBuildId = previousBuild.Id;
+                comparison = TestResults.Compare(current.Tests, previous.Tests);
+                break;
+            }
+        }
+
+        var tests = current.Tests
+            .OrderBy(t => t.Outcome == TestOutcome.Failed ? 0 : 1)
+            .ThenBy(t => t.Key, StringComparer.Ordinal)
+            .Select(t => new TestCaseDto(
+                t.Name,
+                t.ClassName,
+                t.Outcome.ToString(),
+                t.DurationMs,
+                t.Message,
+                t.StackTrace,
+                t.Outcome == TestOutcome.Failed && comparison.NewFailures.Contains(t.Key),
+                t.Outcome == TestOutcome.Passed && comparison.Fixed.Contains(t.Key)))
+            .ToList();
+
+        var summary = new TestSummaryDto(
+            tests.Count,
+            current.Tests.Count(t => t.Outcome == TestOutcome.Passed),
+            current.Tests.Count(t => t.Outcome == TestOutcome.Failed),
+            current.Tests.Count(t => t.Outcome == TestOutcome.Skipped),
+            current.Tests.Sum(t => t.DurationMs ?? 0),
+            comparison.NewFailures.Count,
+            comparison.Fixed.Count);
+
+        await SendAsync(new GetBuildTestResultsResponse(current.Reports, summary, tests, previousBuildId), cancellation: ct);
+    }
+}
@@ -0,0 +1,143 @@
+// =============================================================================
+// PreviewArtifactEndpoint.cs
+//
+// Summary: FastEndpoint for previewing an artifact in the browser.
+//
+// Serves a previewable artifact, or a single file inside an archive artifact
+// (?entry=path), inline with a content type the browser can render.
+//
+// Design Decisions:
+// - Requires authentication
+// - Verifies project ownership via build
+// - Only file types listed in ArtifactPreview are served; others return 415
+// - Files larger than ArtifactPreview.MaxPreviewBytes return 413
+// - Responses carry a sandbox CSP so HTML and SVG from a build cannot act
+//   with the user's session (scripts run in an opaque origin)
+// =============================================================================
+
+using System.Security.Claims;
+using Ando.Server.Configuration;
+using Ando.Server.Data;
+using Ando.Server.Services;
+using FastEndpoints;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Options;
+
+namespace Ando.Server.Endpoints.Builds;
+
+/// <summary>
+/// GET /api/builds/{buildId}/artifacts/{artifactId}/preview - Preview artifact or archive entry.
+/// </summary>
+public class PreviewArtifactEndpoint : EndpointWithoutRequest
+{
+    private readonly AndoDbContext _db;
+    private readonly StorageSettings _storageSettings;
+    private readonly ILogger<PreviewArtifactEndpoint> _logger;
+
+    public PreviewArtifactEndpoint(
+        AndoDbContext db,
+        IOptions<StorageSettings> storageSettings,
+        ILogger<PreviewArtifactEndpoint> logger)
+    {
+        _db = db;
+        _storageSettings = storageSettings.Value;
+        _logger = logger;
+    }
+
+    public override void Configure()
+    {
+        Get("/builds/{buildId}/artifacts/{artifactId}/preview");
+    }
+
+    public override async Task HandleAsync(CancellationToken ct)
+    {
+        var buildId = Route<int>("buildId");
+        var artifactId = Route<int>("artifactId");
+        var entryPath = Query<string>("entry", isRequired: false);
+        var userId = int.Parse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "0");
+
+        var artifact = await _db.BuildArtifacts
+            .Include(a => a.Build)
+            .ThenInclude(b => b.Project)
+            .FirstOrDefaultAsync(a => a.Id == artifactId && a.BuildId == buildId, ct);
+
+        if (artifact == null || artifact.Build.Project.OwnerId != userId)
+        {
+            await SendNotFoundAsync(ct);
+            return;
+        }
+
+        var actualPath = ArtifactPathResolver.ResolveAbsolutePath(
+            _storageSettings.ArtifactsPath,
+            artifact.StoragePath);
+
+        if (string.IsNullOrWhiteSpace(actualPath) ||
+            !ArtifactPathResolver.IsWithinRoot(_storageSettings.ArtifactsPath, actualPath) ||
+            !File.Exists(actualPath))
+        {
+            await SendNotFoundAsync(ct);
+            return;
+        }
+
+        var previewName = string.IsNullOrWhiteSpace(entryPath) ? artifact.Name : entryPath;
+        var contentType = ArtifactPreview.GetContentType(previewName);
+        if (contentType == null)
+        {
+            await SendAsync(new { error = "This file type cannot be previewed. Download it instead." }, 415, ct);
+            return;
+        }
+
+        byte[] content;
+        if (string.IsNullOrWhiteSpace(entryPath))
+        {
+            if (new FileInfo(actualPath).Length > ArtifactPreview.MaxPreviewBytes)
+            {
+                await SendAsync(new { error = "The file is too large to preview. Download it instead." }, 413, ct);
+                return;
+            }
+
+            content = await File.ReadAllBytesAsync(actualPath, ct);
+        }
+        else
+        {
+            var format = ArtifactArchive.GetFormat(artifact.Name);
+            if (format == null)
+            {
+                await SendNotFoundAsync(ct);
+                return;
+            }
+
+            ArtifactArchive.EntryContent? entry;
+            try
+            {
+                await using var stream = File.OpenRead(actualPath);
+                entry = ArtifactArchive.ReadEntry(stream, format.Value, entryPath, ArtifactPreview.MaxPreviewBytes);
+            }
+            catch (Exception ex) when (ex is InvalidDataException or FormatException)
+            {
+                _logger.LogWarning(ex, "Artifact {ArtifactId} is not a readable {Format} archive", artifactId, format);
+                await SendAsync(new { error = "The artifact could not be read as an archive." }, 400, ct);
+                return;
+            }
+
+            if (entry == null)
+            {
+                await SendNotFoundAsync(ct);
+                return;
+            }
+
+            if (entry.Content == null)
+            {
+                await SendAsync(new { error = "The file is too large to preview. Download it instead." }, 413, ct);
+                return;
+            }
+
+            content = entry.Content;
+        }
+
+        HttpContext.Response.Headers.ContentSecurityPolicy = "sandbox allow-scripts";
+        HttpContext.Response.Headers.XContentTypeOptions = "nosniff";
+
+        await SendBytesAsync(content, fileName: null, contentType: contentType, cancellation: ct);
+    }
+}
@@ -3,14 +3,17 @@
 //
 // Summary: FastEndpoint for bulk importing secrets from .env format.
 //
-// Parses KEY=value lines from the input, ignoring comments and empty lines.
-// Normalizes secret names to uppercase and validates format.
+// Accepts either name/value pairs parsed by the client (which also handles
+// multiline values and lets the user pick keys) or raw KEY=value lines,
+// ignoring comments and empty lines. Normalizes secret names to uppercase and
+// validates format.
 //
 // Design Decisions:
 // - Requires authentication
 // - Verifies project ownership
 // - Continues on individual errors (reports all at end)
 // - Handles quoted values
+// - Values that are already stored are counted as unchanged, not imported
 // =============================================================================
 
 using System.Security.Claims;
@@ -50,15 +53,69 @@ public class BulkImportSecretsEndpoint : Endpoint<BulkImportSecretsRequest, Bulk
             return;
         }
 
-        if (string.IsNullOrWhiteSpace(req.Content))
+        var errors = new List<string>();
+        List<(string Name, string Value)> secrets;
+
+        if (req.Secrets is { Count: > 0 })
+        {
+            secrets = req.Secrets.Select(s => (s.Name.Trim(), s.Value)).ToList();
+        }
+        else if (!string.IsNullOrWhiteSpace(req.Content))
+        {
+            secrets = ParseContent(req.Content, errors);
+        }
+        else
         {
             await SendAsync(new BulkImportSecretsResponse(false, 0, ["No content provided."]), cancellation: ct);
             return;
         }
 
-        var lines = req.Content.Split(['\n', '\r'], StringSplitOptions.RemoveEmptyEntries);
         var imported = 0;
-        var errors = new List<string>();
+        var unchanged = 0;
+
+        foreach (var (rawName, value) in secrets)
+        {
+            // Normalize name to uppercase
+            var name = rawName.ToUpperInvariant().Replace('-', '_');
+
+            // Validate secret name
+            if (!Regex.IsMatch(name, @"^[A-Z_][A-Z0-9_]*$"))
+            {
+                errors.Add($"Invalid name: {name}");
+                continue;
+            }
+
+            if (string.IsNullOrEmpty(value))
+            {
+                errors.Add($"Empty value for: {name}");
+                continue;
+            }
+
+            if (await _projectService.SetSecretAsync(projectId, name, value, userId))
+            {
+                imported++;
+            }
+            else
+            {
+                unchanged++;
+            }
+        }
+
+        await SendAsync(new BulkImportSecretsResponse(
+            errors.Count == 0,
+            imported,
+            errors.Count > 0 ? errors : null,
+            unchanged
+        ), cancellation: ct);
+    }
+
+    /// <summary>
+    /// Parses single-line KEY=value content, adding malformed lines to errors.
+    /// </summary>
+    private static List<(string Name, string Value)> ParseContent(string content, List<string> errors)
+    {
+        var lines = content.Split(['\n', '\r'], StringSplitOptions.RemoveEmptyEntries);
+        var secrets = new List<(string Name, string Value)>();
 
         foreach (var line in lines)
         {
@@ -87,30 +144,9 @@ public class BulkImportSecretsEndpoint : Endpoint<BulkImportSecretsRequest, Bulk
                 value = value[1..^1];
             }
 
-            // Normalize name to uppercase
-            name = name.ToUpperInvariant().Replace('-', '_');
-
-            // Validate secret name
-            if (!Regex.IsMatch(name, @"^[A-Z_][A-Z0-9_]*$"))
-            {
-                errors.Add($"Invalid name: {name}");
-                continue;
-            }
-
-            if (string.IsNullOrEmpty(value))
-            {
-                errors.Add($"Empty value for: {name}");
-                continue;
-            }
-
-            await _projectService.SetSecretAsync(projectId, name, value);
-            imported++;
+            secrets.Add((name, value));
         }
 
-        await SendAsync(new BulkImportSecretsResponse(
-            errors.Count == 0,
-            imported,
-            errors.Count > 0 ? errors : null
-        ), cancellation: ct);
+        return secrets;
     }
 }
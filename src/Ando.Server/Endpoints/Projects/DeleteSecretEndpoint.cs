@@ -9,6 +9,8 @@
 // - Requires authentication
 // - Verifies project ownership
 // - Idempotent (no error if secret doesn't exist)
+// - Deletes one scope's value (?scope=...); the unscoped value by default
+// - Deletion is recorded in the secret audit trail
 // =============================================================================
 
 using System.Security.Claims;
@@ -19,7 +21,7 @@ using FastEndpoints;
 namespace Ando.Server.Endpoints.Projects;
 
 /// <summary>
-/// DELETE /api/projects/{id}/secrets/{name} - Delete a secret.
+/// DELETE /api/projects/{id}/secrets/{name}?scope= - Delete a secret value.
 /// </summary>
 public class DeleteSecretEndpoint : EndpointWithoutRequest<SecretResponse>
 {
@@ -48,7 +50,14 @@ public class DeleteSecretEndpoint : EndpointWithoutRequest<SecretResponse>
             return;
         }
 
-        await _projectService.DeleteSecretAsync(projectId, secretName ?? "");
+        var scopeError = SecretScopes.Validate(Query<string>("scope", isRequired: false), out var scope);
+        if (scopeError != null)
+        {
+            await SendAsync(new SecretResponse(false, scopeError), cancellation: ct);
+            return;
+        }
+
+        await _projectService.DeleteSecretAsync(projectId, secretName ?? "", userId, scope);
 
         await SendAsync(new SecretResponse(true), cancellation: ct);
     }
@@ -0,0 +1,86 @@
+// =============================================================================
+// GetProjectAnalyticsEndpoint.cs
+//
+// Summary: FastEndpoint for project build analytics.
+//
+// Returns duration percentiles, weekly success rate, queue wait times and the
+// steps that fail or flip most often over the last N days (default 90).
+//
+// Design Decisions:
+// - Requires authentication
+// - Verifies project ownership
+// - Loads only the columns the calculations need
+// - Window is clamped to 7..365 days
+// =============================================================================
+
+using System.Security.Claims;
+using Ando.Server.Contracts.Projects;
+using Ando.Server.Data;
+using Ando.Server.Models;
+using Ando.Server.Services;
+using FastEndpoints;
+using Microsoft.EntityFrameworkCore;
+
+namespace Ando.Server.Endpoints.Projects;
+
+/// <summary>
+/// GET /api/projects/{id}/analytics - Get project build analytics.
+/// </summary>
+public class GetProjectAnalyticsEndpoint : EndpointWithoutRequest<GetProjectAnalyticsResponse>
+{
+    private const int DefaultDays = 90;
+    private const int MinDays = 7;
+    private const int MaxDays = 365;
+
+    private readonly AndoDbContext _db;
+    private readonly IProjectService _projectService;
+
+    public GetProjectAnalyticsEndpoint(AndoDbContext db, IProjectService projectService)
+    {
+        _db = db;
+        _projectService = projectService;
+    }
+
+    public override void Configure()
+    {
+        Get("/projects/{id}/analytics");
+    }
+
+    public override async Task HandleAsync(CancellationToken ct)
+    {
+        var projectId = Route<int>("id");
+        var userId = int.Parse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "0");
+
+        var project = await _projectService.GetProjectForUserAsync(projectId, userId);
+        if (project == null)
+        {
+            await SendNotFoundAsync(ct);
+            return;
+        }
+
+        var days = Math.Clamp(Query<int?>("days", isRequired: false) ?? DefaultDays, MinDays, MaxDays);
+        var now = DateTime.UtcNow;
+        var since = now.AddDays(-days);
+
+        var projectBuilds = _db.Builds.Where(b => b.ProjectId == projectId && b.QueuedAt >= since);
+
+        var builds = await projectBuilds
+            .Select(b => new BuildAnalyticsCalculator.BuildSample(b.Id, b.Status, b.QueuedAt, b.StartedAt, b.Duration))
+            .ToListAsync(ct);
+
+        var steps = await _db.BuildLogEntries
+            .Where(e => projectBuilds.Select(b => b.Id).Contains(e.BuildId)
+                && e.StepName != null
+                && (e.Type == LogEntryType.StepCompleted || e.Type == LogEntryType.StepFailed))
+            .Select(e => new BuildAnalyticsCalculator.StepSample(
+                e.BuildId,
+                e.Sequence,
+                e.StepName!,
+                e.Type == LogEntryType.StepFailed))
+            .ToListAsync(ct);
+
+        var analytics = BuildAnalyticsCalculator.Calculate(builds, steps, days, now);
+
+        await SendAsync(new GetProjectAnalyticsResponse(analytics), cancellation: ct);
+    }
+}
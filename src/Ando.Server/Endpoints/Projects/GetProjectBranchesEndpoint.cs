@@ -0,0 +1,128 @@
+// =============================================================================
+// GetProjectBranchesEndpoint.cs
+//
+// Summary: FastEndpoint for the project branch overview.
+//
+// Lists every branch that has been built with its latest build, latest
+// version tag and ahead/behind counts against the default branch. Branches
+// not built for N days (default 30) are flagged as abandoned.
+//
+// Design Decisions:
+// - Requires authentication
+// - Verifies project ownership
+// - Aggregates per branch in the database, then loads only the latest builds
+// - Ahead/behind comes live from GitHub for the most recently built active
+//   branches only, to bound the number of API calls per request
+// - Window is clamped to 1..365 days
+// =============================================================================
+
+using System.Security.Claims;
+using Ando.Server.Contracts.Projects;
+using Ando.Server.Data;
+using Ando.Server.GitHub;
+using Ando.Server.Services;
+using FastEndpoints;
+using Microsoft.EntityFrameworkCore;
+
+namespace Ando.Server.Endpoints.Projects;
+
+/// <summary>
+/// GET /api/projects/{id}/branches - Get the built branches of a project.
+/// </summary>
+public class GetProjectBranchesEndpoint : EndpointWithoutRequest<GetProjectBranchesResponse>
+{
+    private const int MinAbandonedDays = 1;
+    private const int MaxAbandonedDays = 365;
+    private const int MaxComparedBranches = 20;
+
+    private readonly AndoDbContext _db;
+    private readonly IProjectService _projectService;
+    private readonly IGitHubService _gitHubService;
+
+    public GetProjectBranchesEndpoint(
+        AndoDbContext db,
+        IProjectService projectService,
+        IGitHubService gitHubService)
+    {
+        _db = db;
+        _projectService = projectService;
+        _gitHubService = gitHubService;
+    }
+
+    public override void Configure()
+    {
+        Get("/projects/{id}/branches");
+    }
+
+    public override async Task HandleAsync(CancellationToken ct)
+    {
+        var projectId = Route<int>("id");
+        var userId = int.Parse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "0");
+
+        var project = await _projectService.GetProjectForUserAsync(projectId, userId);
+        if (project == null)
+        {
+            await SendNotFoundAsync(ct);
+            return;
+        }
+
+        var abandonedAfterDays = Math.Clamp(
+            Query<int?>("abandonedDays", isRequired: false) ?? BranchOverview.DefaultAbandonedAfterDays,
+            MinAbandonedDays,
+            MaxAbandonedDays);
+
+        var groups = await _db.Builds
+            .Where(b => b.ProjectId == projectId)
+            .GroupBy(b => b.Branch)
+            .Select(g => new
+            {
+                Branch = g.Key,
+                TotalBuilds = g.Count(),
+                LatestBuildId = g.Max(b => b.Id),
+                LatestTaggedBuildId = g.Where(b => b.GitVersionTag != null).Max(b => (int?)b.Id)
+            })
+            .ToListAsync(ct);
+
+        var buildIds = groups
+            .Select(g => g.LatestBuildId)
+            .Concat(groups.Where(g => g.LatestTaggedBuildId.HasValue).Select(g => g.LatestTaggedBuildId!.Value))
+            .Distinct()
+            .ToList();
+
+        var builds = await _db.Builds
+            .Where(b => buildIds.Contains(b.Id))
+            .ToDictionaryAsync(b => b.Id, ct);
+
+        var summaries = groups.Select(g => new BranchOverview.BranchSummary(
+            g.Branch,
+            g.TotalBuilds,
+            builds[g.LatestBuildId],
+            g.LatestTaggedBuildId.HasValue ? builds[g.LatestTaggedBuildId.Value].GitVersionTag : null));
+
+        var branches = BranchOverview.Arrange(summaries, project.DefaultBranch, abandonedAfterDays, DateTime.UtcNow);
+
+        if (project.InstallationId.HasValue)
+        {
+            var installationId = project.InstallationId.Value;
+            var compared = branches
+                .Where(b => !b.IsDefault && !b.IsAbandoned)
+                .Take(MaxComparedBranches)
+                .ToList();
+
+            var comparisons = await Task.WhenAll(compared.Select(b =>
+                _gitHubService.CompareAsync(installationId, project.RepoFullName, project.DefaultBranch, b.Name)));
+
+            var byName = compared
+                .Zip(comparisons, (branch, comparison) => (branch.Name, comparison))
+                .ToDictionary(x => x.Name, x => x.comparison);
+
+            branches = branches
+                .Select(b => byName.GetValueOrDefault(b.Name) is { } comparison
+                    ? b with { AheadBy = comparison.AheadBy, BehindBy = comparison.BehindBy }
+                    : b)
+                .ToList();
+        }
+
+        await SendAsync(new GetProjectBranchesResponse(branches, project.DefaultBranch, abandonedAfterDays), cancellation: ct);
+    }
+}
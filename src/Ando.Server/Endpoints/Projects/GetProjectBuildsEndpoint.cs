@@ -0,0 +1,72 @@
+// =============================================================================
+// GetProjectBuildsEndpoint.cs
+//
+// Summary: FastEndpoint for browsing a project's full build history.
+//
+// Returns one page of builds, newest first, optionally filtered by branch,
+// status, trigger, commit author and queued date range. Pages are linked by
+// an opaque keyset cursor so paging stays stable while new builds arrive.
+//
+// Design Decisions:
+// - Requires authentication
+// - Verifies project ownership
+// - Filter parsing and paging shared with the builds feed (BuildHistoryQuery)
+// - Returns 400 for unknown statuses/triggers, bad dates or a bad cursor
+// =============================================================================
+
+using System.Security.Claims;
+using Ando.Server.Contracts.Projects;
+using Ando.Server.Data;
+using Ando.Server.Services;
+using FastEndpoints;
+using Microsoft.EntityFrameworkCore;
+
+namespace Ando.Server.Endpoints.Projects;
+
+/// <summary>
+/// GET /api/projects/{id}/builds - Get a page of project build history.
+/// </summary>
+public class GetProjectBuildsEndpoint : EndpointWithoutRequest<GetProjectBuildsResponse>
+{
+    private readonly AndoDbContext _db;
+    private readonly IProjectService _projectService;
+
+    public GetProjectBuildsEndpoint(AndoDbContext db, IProjectService projectService)
+    {
+        _db = db;
+        _projectService = projectService;
+    }
+
+    public override void Configure()
+    {
+        Get("/projects/{id}/builds");
+    }
+
+    public override async Task HandleAsync(CancellationToken ct)
+    {
+        var projectId = Route<int>("id");
+        var userId = int.Parse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "0");
+
+        var project = await _projectService.GetProjectForUserAsync(projectId, userId);
+        if (project == null)
+        {
+            await SendNotFoundAsync(ct);
+            return;
+        }
+
+        if (!BuildHistoryQuery.TryParse(name => Query<string>(name, isRequired: false), out var query, out var error))
+        {
+            await SendAsync(new { error }, 400, ct);
+            return;
+        }
+
+        var fetched = await query
+            .Apply(_db.Builds.Where(b => b.ProjectId == projectId))
+            .ToListAsync(ct);
+        var (builds, nextCursor) = query.ToPage(fetched);
+
+        var items = builds.Select(b => b.ToListItemDto()).ToList();
+
+        await SendAsync(new GetProjectBuildsResponse(items, nextCursor), cancellation: ct);
+    }
+}
@@ -0,0 +1,81 @@
+// =============================================================================
+// GetProjectCoverageEndpoint.cs
+//
+// Summary: FastEndpoint for a project's coverage trend.
+//
+// Returns line and branch coverage of the most recent successful builds on
+// the project's default branch, for the coverage card on the project page.
+//
+// Design Decisions:
+// - Requires authentication
+// - Verifies project ownership
+// - Reads the rates stored on builds, so the trend outlives the artifacts
+// - Returns at most MaxPoints builds
+// =============================================================================
+
+using System.Security.Claims;
+using Ando.Server.Contracts.Projects;
+using Ando.Server.Data;
+using Ando.Server.Models;
+using Ando.Server.Services;
+using FastEndpoints;
+using Microsoft.EntityFrameworkCore;
+
+namespace Ando.Server.Endpoints.Projects;
+
+/// <summary>
+/// GET /api/projects/{id}/coverage - Get the default branch coverage trend.
+/// </summary>
+public class GetProjectCoverageEndpoint : EndpointWithoutRequest<GetProjectCoverageResponse>
+{
+    private const int MaxPoints = 30;
+
+    private readonly AndoDbContext _db;
+    private readonly IProjectService _projectService;
+
+    public GetProjectCoverageEndpoint(AndoDbContext db, IProjectService projectService)
+    {
+        _db = db;
+        _projectService = projectService;
+    }
+
+    public override void Configure()
+    {
+        Get("/projects/{id}/coverage");
+    }
+
+    public override async Task HandleAsync(CancellationToken ct)
+    {
+        var projectId = Route<int>("id");
+        var userId = int.Parse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "0");
+
+        var project = await _projectService.GetProjectForUserAsync(projectId, userId);
+        if (project == null)
+        {
+            await SendNotFoundAsync(ct);
+            return;
+        }
+
+        var builds = await _db.Builds
+            .Where(b => b.ProjectId == projectId &&
+                        b.Branch == project.DefaultBranch &&
+                        b.Status == BuildStatus.Success &&
+                        b.LineCoverage != null)
+            .OrderByDescending(b => b.Id)
+            .Take(MaxPoints)
+            .Select(b => new { b.Id, b.CommitSha, b.FinishedAt, b.LineCoverage, b.BranchCoverage })
+            .ToListAsync(ct);
+
+        var points = builds
+            .OrderBy(b => b.Id)
+            .Select(b => new CoverageTrendPointDto(
+                b.Id,
+                b.CommitSha.Length >= 8 ? b.CommitSha[..8] : b.CommitSha,
+                b.FinishedAt,
+                b.LineCoverage!.Value,
+                b.BranchCoverage))
+            .ToList();
+
+        await SendAsync(new GetProjectCoverageResponse(project.DefaultBranch, points), cancellation: ct);
+    }
+}
@@ -59,25 +59,10 @@ public class GetProjectEndpoint : EndpointWithoutRequest<GetProjectResponse>
 
         var recentBuilds = await _buildService.GetBuildsForProjectAsync(projectId, 0, 20);
         var totalBuilds = await _db.Builds.CountAsync(b => b.ProjectId == projectId, ct);
-        var secretNames = await _projectService.GetSecretNamesAsync(projectId);
+        var secretNames = await _projectService.GetSecretNamesAsync(projectId, project.Profile, project.DefaultBranch);
         var missingSecrets = project.GetMissingSecretsFrom(secretNames);
 
-        var buildItems = recentBuilds.Select(b => new BuildListItemDto(
-            b.Id,
-            b.CommitSha,
-            b.CommitSha.Length >= 8 ? b.CommitSha[..8] : b.CommitSha,
-            b.GitVersionTag,
-            b.Branch,
-            b.CommitMessage,
-            b.CommitAuthor,
-            b.Status.ToString(),
-            b.Trigger.ToString(),
-            b.QueuedAt,
-            b.StartedAt,
-            b.FinishedAt,
-            b.Duration,
-            b.PullRequestNumber
-        )).ToList();
+        var buildItems = recentBuilds.Select(b => b.ToListItemDto()).ToList();
 
         await SendAsync(new GetProjectResponse(
             new ProjectDetailsDto(
@@ -0,0 +1,93 @@
+// =============================================================================
+// GetProjectPullRequestsEndpoint.cs
+//
+// Summary: FastEndpoint for the project pull requests overview.
+//
+// Lists the repository's open pull requests with their metadata from GitHub
+// and the build history of each, marking builds superseded by newer commits.
+//
+// Design Decisions:
+// - Requires authentication
+// - Verifies project ownership
+// - Falls back to pull requests reconstructed from recent PR builds when the
+//   project has no installation or GitHub is unreachable (IsLive = false)
+// =============================================================================
+
+using System.Security.Claims;
+using Ando.Server.Contracts.Projects;
+using Ando.Server.Data;
+using Ando.Server.GitHub;
+using Ando.Server.Services;
+using FastEndpoints;
+using Microsoft.EntityFrameworkCore;
+
+namespace Ando.Server.Endpoints.Projects;
+
+/// <summary>
+/// GET /api/projects/{id}/pull-requests - Get open pull requests and their builds.
+/// </summary>
+public class GetProjectPullRequestsEndpoint : EndpointWithoutRequest<GetProjectPullRequestsResponse>
+{
+    // Recent PR builds used to reconstruct the list without GitHub.
+    private const int FallbackBuildLimit = 200;
+
+    private readonly AndoDbContext _db;
+    private readonly IProjectService _projectService;
+    private readonly IGitHubService _gitHubService;
+
+    public GetProjectPullRequestsEndpoint(
+        AndoDbContext db,
+        IProjectService projectService,
+        IGitHubService gitHubService)
+    {
+        _db = db;
+        _projectService = projectService;
+        _gitHubService = gitHubService;
+    }
+
+    public override void Configure()
+    {
+        Get("/projects/{id}/pull-requests");
+    }
+
+    public override async Task HandleAsync(CancellationToken ct)
+    {
+        var projectId = Route<int>("id");
+        var userId = int.Parse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "0");
+
+        var project = await _projectService.GetProjectForUserAsync(projectId, userId);
+        if (project == null)
+        {
+            await SendNotFoundAsync(ct);
+            return;
+        }
+
+        var prBuilds = _db.Builds.Where(b => b.ProjectId == projectId && b.PullRequestNumber != null);
+
+        var openPullRequests = project.InstallationId.HasValue
+            ? await _gitHubService.GetOpenPullRequestsAsync(project.InstallationId.Value, project.RepoFullName)
+            : null;
+
+        if (openPullRequests != null)
+        {
+            var numbers = openPullRequests.Select(pr => (int?)pr.Number).ToList();
+            var builds = await prBuilds
+                .Where(b => numbers.Contains(b.PullRequestNumber))
+                .ToListAsync(ct);
+
+            await SendAsync(new GetProjectPullRequestsResponse(
+                PullRequestOverview.FromGitHub(openPullRequests, builds),
+                IsLive: true), cancellation: ct);
+            return;
+        }
+
+        var recentBuilds = await prBuilds
+            .OrderByDescending(b => b.Id)
+            .Take(FallbackBuildLimit)
+            .ToListAsync(ct);
+
+        await SendAsync(new GetProjectPullRequestsResponse(
+            PullRequestOverview.FromBuilds(recentBuilds, project.RepoUrl),
+            IsLive: false), cancellation: ct);
+    }
+}
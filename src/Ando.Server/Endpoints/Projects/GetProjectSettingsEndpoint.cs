@@ -3,13 +3,16 @@
 //
 // Summary: FastEndpoint for getting project settings.
 //
-// Returns project configuration including build settings, secrets (names only),
-// and notification preferences.
+// Returns project configuration including build settings, secrets (names,
+// versions and rotation deadlines only), and notification preferences.
 //
 // Design Decisions:
 // - Requires authentication
 // - Verifies project ownership
 // - Never returns secret values, only names
+// - Required secrets are checked for the default build (selected profile,
+//   default branch) and for each scope on its own, falling back to the
+//   unscoped value and then to linked shared secrets
 // =============================================================================
 
 using System.Security.Claims;
@@ -25,10 +28,12 @@ namespace Ando.Server.Endpoints.Projects;
 public class GetProjectSettingsEndpoint : EndpointWithoutRequest<GetProjectSettingsResponse>
 {
     private readonly IProjectService _projectService;
+    private readonly ISharedSecretService _sharedSecretService;
 
-    public GetProjectSettingsEndpoint(IProjectService projectService)
+    public GetProjectSettingsEndpoint(IProjectService projectService, ISharedSecretService sharedSecretService)
     {
         _projectService = projectService;
+        _sharedSecretService = sharedSecretService;
     }
 
     public override void Configure()
@@ -48,8 +53,78 @@ public class GetProjectSettingsEndpoint : EndpointWithoutRequest<GetProjectSetti
             return;
         }
 
-        var secretNames = await _projectService.GetSecretNamesAsync(projectId);
-        var missingSecrets = project.GetMissingSecretsFrom(secretNames);
+        var secrets = await _projectService.GetSecretsAsync(projectId);
+        var sharedSecrets = await _sharedSecretService.GetLinkedSecretsAsync(projectId);
+        var sharedNames = sharedSecrets.Select(s => s.Name).ToHashSet(StringComparer.OrdinalIgnoreCase);
+
+        // The default build uses the selected profile on the default branch.
+        var defaultSecrets = SecretScopes.Resolve(secrets, project.Profile, project.DefaultBranch)
+            .ToDictionary(s => s.Name, StringComparer.OrdinalIgnoreCase);
+        var missingSecrets = project.GetMissingSecretsFrom(defaultSecrets.Keys.Concat(sharedNames));
+
+        // A secret deleted and re-created reuses version 1, so keep the latest event.
+        var valueEvents = (await _projectService.GetCurrentSecretValueEventsAsync(projectId))
+            .GroupBy(e => (e.SecretName, e.Scope))
+            .ToDictionary(g => g.Key, g => g.MaxBy(e => e.OccurredAt)!);
+
+        // Report every profile plus every scope a value exists for.
+        var scopes = project.GetAvailableProfileNames()
+            .Select(SecretScopes.ForProfile)
+            .Concat(secrets.Select(s => s.Scope))
+            .Where(scope => scope != SecretScopes.All)
+            .Distinct(StringComparer.OrdinalIgnoreCase)
+            .Order(StringComparer.OrdinalIgnoreCase)
+            .Prepend(SecretScopes.All)
+            .ToList();
+        var secretsByScope = scopes.ToDictionary(
+            scope => scope,
+            scope => SecretScopes.ResolveFor(secrets, scope).ToDictionary(s => s.Name, StringComparer.OrdinalIgnoreCase));
+
+        var requiredSecrets = project.GetRequiredSecretNames()
+            .Select(name =>
+            {
+                var inherited = !defaultSecrets.ContainsKey(name) && sharedNames.Contains(name);
+                return new SecretStatusDto(
+                    name,
+                    defaultSecrets.ContainsKey(name) || inherited,
+                    defaultSecrets.GetValueOrDefault(name)?.RotateBy,
+                    scopes
+                        .Select(scope =>
+                        {
+                            var resolved = secretsByScope[scope].GetValueOrDefault(name);
+                            var scopeInherited = resolved == null && sharedNames.Contains(name);
+                            return new SecretScopeStatusDto(
+                                scope, resolved != null || scopeInherited, resolved?.Scope, scopeInherited);
+                        })
+                        .ToList(),
+                    inherited);
+            })
+            .ToList();
+
+        var allSecrets = secrets
+            .Select(s =>
+            {
+                var valueEvent = valueEvents.GetValueOrDefault((s.Name, s.Scope));
+                return new SecretDto(
+                    s.Name,
+                    s.Scope,
+                    s.CreatedAt,
+                    s.UpdatedAt ?? s.CreatedAt,
+                    s.Version,
+                    valueEvent?.ActorName,
+                    valueEvent?.FirstUsedByBuildId,
+                    s.RotateBy);
+            })
+            .ToList();
+
+        var linkedSharedSecrets = sharedSecrets
+            .Select(s => new LinkedSharedSecretDto(
+                s.Id,
+                s.Name,
+                s.UpdatedAt ?? s.CreatedAt,
+                s.Version,
+                secrets.Where(p => p.Name == s.Name).Select(p => p.Scope).ToList()))
+            .ToList();
 
         await SendAsync(new GetProjectSettingsResponse(
             new ProjectSettingsDto(
@@ -57,16 +132,18 @@ public class GetProjectSettingsEndpoint : EndpointWithoutRequest<GetProjectSetti
                 project.RepoFullName,
                 project.BranchFilter,
                 project.EnablePrBuilds,
+                project.CancelSupersededBuilds,
                 project.TimeoutMinutes,
                 project.DockerImage,
                 project.Profile,
                 project.GetAvailableProfileNames(),
                 project.IsProfileValid(),
-                project.RequiredSecrets,
                 project.NotifyOnFailure,
                 project.NotificationEmail,
-                secretNames,
-                missingSecrets
+                requiredSecrets,
+                allSecrets,
+                missingSecrets,
+                linkedSharedSecrets
             )
         ), cancellation: ct);
     }
@@ -57,11 +57,9 @@ public class GetProjectsEndpoint : EndpointWithoutRequest<GetProjectsResponse>
                 .Where(b => b.ProjectId == project.Id)
                 .CountAsync(ct);
 
-            var secrets = await _db.ProjectSecrets
-                .Where(s => s.ProjectId == project.Id)
-                .Select(s => s.Name)
-                .ToListAsync(ct);
-            var missingSecrets = project.GetMissingSecretsFrom(secrets);
+            var secretNames = await _projectService.GetSecretNamesAsync(
+                project.Id, project.Profile, project.DefaultBranch);
+            var missingSecrets = project.GetMissingSecretsFrom(secretNames);
 
             projectItems.Add(new ProjectListItemDto(
                 project.Id,
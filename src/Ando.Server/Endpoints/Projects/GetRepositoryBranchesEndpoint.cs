@@ -0,0 +1,75 @@
+// =============================================================================
+// GetRepositoryBranchesEndpoint.cs
+//
+// Summary: FastEndpoint for listing a project's repository branches.
+//
+// Used by the trigger build dialog's branch picker. Branches come live from
+// GitHub via the project's App installation.
+//
+// Design Decisions:
+// - Requires authentication
+// - Verifies project ownership
+// - Returns only the default branch when the project has no installation
+//   or GitHub is unreachable, so the dialog still works
+// - Default branch first, then alphabetical
+// =============================================================================
+
+using System.Security.Claims;
+using Ando.Server.Contracts.Projects;
+using Ando.Server.GitHub;
+using Ando.Server.Services;
+using FastEndpoints;
+
+namespace Ando.Server.Endpoints.Projects;
+
+/// <summary>
+/// GET /api/projects/{id}/repository/branches - List repository branches.
+/// </summary>
+public class GetRepositoryBranchesEndpoint : EndpointWithoutRequest<GetRepositoryBranchesResponse>
+{
+    private readonly IProjectService _projectService;
+    private readonly IGitHubService _gitHubService;
+
+    public GetRepositoryBranchesEndpoint(IProjectService projectService, IGitHubService gitHubService)
+    {
+        _projectService = projectService;
+        _gitHubService = gitHubService;
+    }
+
+    public override void Configure()
+    {
+        Get("/projects/{id}/repository/branches");
+    }
+
+    public override async Task HandleAsync(CancellationToken ct)
+    {
+        var projectId = Route<int>("id");
+        var userId = int.Parse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "0");
+
+        var project = await _projectService.GetProjectForUserAsync(projectId, userId);
+        if (project == null)
+        {
+            await SendNotFoundAsync(ct);
+            return;
+        }
+
+        IReadOnlyList<GitHubBranch> branches = [];
+        if (project.InstallationId.HasValue)
+        {
+            branches = await _gitHubService.GetBranchesAsync(project.InstallationId.Value, project.RepoFullName);
+        }
+
+        var items = branches
+            .OrderByDescending(b => b.Name == project.DefaultBranch)
+            .ThenBy(b => b.Name, StringComparer.OrdinalIgnoreCase)
+            .Select(b => new RepositoryBranchDto(b.Name, b.HeadSha, b.IsProtected))
+            .ToList();
+
+        if (!items.Any(b => b.Name == project.DefaultBranch))
+        {
+            items.Insert(0, new RepositoryBranchDto(project.DefaultBranch, "", false));
+        }
+
+        await SendAsync(new GetRepositoryBranchesResponse(items, project.DefaultBranch), cancellation: ct);
+    }
+}
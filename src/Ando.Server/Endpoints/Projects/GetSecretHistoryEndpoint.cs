@@ -0,0 +1,70 @@
+// =============================================================================
+// GetSecretHistoryEndpoint.cs
+//
+// Summary: FastEndpoint for a project's secret audit trail.
+//
+// Lists who created, changed or deleted secrets and when, rotation deadline
+// changes, and the first build that ran with each new value.
+//
+// Design Decisions:
+// - Requires authentication
+// - Verifies project ownership
+// - Never returns secret values; events only record that a value changed
+// - Optional ?name= narrows the trail to one secret
+// =============================================================================
+
+using System.Security.Claims;
+using Ando.Server.Contracts.Projects;
+using Ando.Server.Services;
+using FastEndpoints;
+
+namespace Ando.Server.Endpoints.Projects;
+
+/// <summary>
+/// GET /api/projects/{id}/secrets/history - Get the secret audit trail.
+/// </summary>
+public class GetSecretHistoryEndpoint : EndpointWithoutRequest<GetSecretHistoryResponse>
+{
+    private const int MaxEvents = 200;
+
+    private readonly IProjectService _projectService;
+
+    public GetSecretHistoryEndpoint(IProjectService projectService)
+    {
+        _projectService = projectService;
+    }
+
+    public override void Configure()
+    {
+        Get("/projects/{id}/secrets/history");
+    }
+
+    public override async Task HandleAsync(CancellationToken ct)
+    {
+        var projectId = Route<int>("id");
+        var userId = int.Parse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "0");
+
+        var project = await _projectService.GetProjectForUserAsync(projectId, userId);
+        if (project == null)
+        {
+            await SendNotFoundAsync(ct);
+            return;
+        }
+
+        var secretName = Query<string>("name", isRequired: false);
+        var events = await _projectService.GetSecretEventsAsync(projectId, secretName, MaxEvents);
+
+        await SendAsync(new GetSecretHistoryResponse(
+            events.Select(e => new SecretEventDto(
+                e.Id,
+                e.SecretName,
+                e.Scope,
+                e.Type.ToString(),
+                e.Version,
+                e.ActorName,
+                e.OccurredAt,
+                e.RotateBy,
+                e.FirstUsedByBuildId))
+            .ToList()), cancellation: ct);
+    }
+}
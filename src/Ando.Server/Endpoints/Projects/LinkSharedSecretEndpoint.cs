@@ -0,0 +1,63 @@
+// =============================================================================
+// LinkSharedSecretEndpoint.cs
+//
+// Summary: FastEndpoint for linking a shared secret to a project.
+//
+// A linked project's builds inherit the shared value unless the project sets
+// its own value of the same name.
+//
+// Design Decisions:
+// - Requires authentication
+// - Verifies project ownership; only the owner's shared secrets can be linked
+// - Idempotent (no error if already linked)
+// =============================================================================
+
+using System.Security.Claims;
+using Ando.Server.Contracts.Projects;
+using Ando.Server.Services;
+using FastEndpoints;
+
+namespace Ando.Server.Endpoints.Projects;
+
+/// <summary>
+/// PUT /api/projects/{id}/shared-secrets/{sharedSecretId} - Link a shared secret.
+/// </summary>
+public class LinkSharedSecretEndpoint : EndpointWithoutRequest<SecretResponse>
+{
+    private readonly IProjectService _projectService;
+    private readonly ISharedSecretService _sharedSecretService;
+
+    public LinkSharedSecretEndpoint(IProjectService projectService, ISharedSecretService sharedSecretService)
+    {
+        _projectService = projectService;
+        _sharedSecretService = sharedSecretService;
+    }
+
+    public override void Configure()
+    {
+        Put("/projects/{id}/shared-secrets/{sharedSecretId}");
+    }
+
+    public override async Task HandleAsync(CancellationToken ct)
+    {
+        var projectId = Route<int>("id");
+        var sharedSecretId = Route<int>("sharedSecretId");
+        var userId = int.Parse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "0");
+
+        var project = await _projectService.GetProjectForUserAsync(projectId, userId);
+        if (project == null)
+        {
+            await SendNotFoundAsync(ct);
+            return;
+        }
+
+        var linked = await _sharedSecretService.LinkAsync(projectId, sharedSecretId);
+        if (!linked)
+        {
+            await SendAsync(new SecretResponse(false, "Shared secret not found."), cancellation: ct);
+            return;
+        }
+
+        await SendAsync(new SecretResponse(true), cancellation: ct);
+    }
+}
@@ -0,0 +1,64 @@
+// =============================================================================
+// PreviewBulkSecretsEndpoint.cs
+//
+// Summary: FastEndpoint for comparing a bulk import with the stored secrets.
+//
+// Secret values are write-only, so the client cannot tell whether an imported
+// value is the one already stored. This returns the names whose unscoped value
+// already matches, letting the import preview mark them as unchanged.
+//
+// Design Decisions:
+// - Requires authentication
+// - Verifies project ownership
+// - Stores nothing and writes no audit events
+// - Returns names only, never values
+// =============================================================================
+
+using System.Security.Claims;
+using Ando.Server.Contracts.Projects;
+using Ando.Server.Services;
+using FastEndpoints;
+
+namespace Ando.Server.Endpoints.Projects;
+
+/// <summary>
+/// POST /api/projects/{id}/secrets/bulk/preview - Find unchanged bulk import values.
+/// </summary>
+public class PreviewBulkSecretsEndpoint : Endpoint<PreviewBulkSecretsRequest, PreviewBulkSecretsResponse>
+{
+    private readonly IProjectService _projectService;
+
+    public PreviewBulkSecretsEndpoint(IProjectService projectService)
+    {
+        _projectService = projectService;
+    }
+
+    public override void Configure()
+    {
+        Post("/projects/{id}/secrets/bulk/preview");
+    }
+
+    public override async Task HandleAsync(PreviewBulkSecretsRequest req, CancellationToken ct)
+    {
+        var projectId = Route<int>("id");
+        var userId = int.Parse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "0");
+
+        var project = await _projectService.GetProjectForUserAsync(projectId, userId);
+        if (project == null)
+        {
+            await SendNotFoundAsync(ct);
+            return;
+        }
+
+        // Later duplicates win, matching the order the import applies them in.
+        var values = new Dictionary<string, string>();
+        foreach (var secret in req.Secrets)
+        {
+            values[secret.Name.Trim().ToUpperInvariant().Replace('-', '_')] = secret.Value;
+        }
+
+        var unchanged = await _projectService.GetUnchangedSecretNamesAsync(projectId, values);
+
+        await SendAsync(new PreviewBulkSecretsResponse(unchanged), cancellation: ct);
+    }
+}
@@ -10,7 +10,9 @@
 // - Requires authentication
 // - Verifies project ownership
 // - Validates secret name format (uppercase with underscores)
-// - Upserts (creates or updates) the secret
+// - Upserts (creates or updates) the secret value for the requested scope
+// - Each new value is a new version in the secret audit trail; submitting the
+//   current value is reported as unchanged
 // =============================================================================
 
 using System.Security.Claims;
@@ -55,8 +57,15 @@ public class SetSecretEndpoint : Endpoint<SetSecretRequest, SecretResponse>
             return;
         }
 
-        await _projectService.SetSecretAsync(projectId, req.Name.Trim(), req.Value);
+        var scopeError = SecretScopes.Validate(req.Scope, out var scope);
+        if (scopeError != null)
+        {
+            await SendAsync(new SecretResponse(false, scopeError), cancellation: ct);
+            return;
+        }
+
+        var changed = await _projectService.SetSecretAsync(projectId, req.Name.Trim(), req.Value, userId, scope);
 
-        await SendAsync(new SecretResponse(true), cancellation: ct);
+        await SendAsync(new SecretResponse(true, Unchanged: !changed), cancellation: ct);
     }
 }
@@ -0,0 +1,73 @@
+// =============================================================================
+// SetSecretRotationEndpoint.cs
+//
+// Summary: FastEndpoint for setting or clearing a secret's rotation deadline.
+//
+// A rotation deadline is a reminder: the settings page warns as it approaches
+// and once it has passed. Setting a new value clears it.
+//
+// Design Decisions:
+// - Requires authentication
+// - Verifies project ownership
+// - Only the date is kept; the deadline is the start of that day (UTC)
+// - Changes are recorded in the secret audit trail
+// =============================================================================
+
+using System.Security.Claims;
+using Ando.Server.Contracts.Projects;
+using Ando.Server.Services;
+using FastEndpoints;
+
+namespace Ando.Server.Endpoints.Projects;
+
+/// <summary>
+/// PUT /api/projects/{id}/secrets/{name}/rotation - Set or clear a rotation deadline.
+/// </summary>
+public class SetSecretRotationEndpoint : Endpoint<SetSecretRotationRequest, SecretResponse>
+{
+    private readonly IProjectService _projectService;
+
+    public SetSecretRotationEndpoint(IProjectService projectService)
+    {
+        _projectService = projectService;
+    }
+
+    public override void Configure()
+    {
+        Put("/projects/{id}/secrets/{name}/rotation");
+    }
+
+    public override async Task HandleAsync(SetSecretRotationRequest req, CancellationToken ct)
+    {
+        var projectId = Route<int>("id");
+        var secretName = Route<string>("name") ?? "";
+        var userId = int.Parse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "0");
+
+        var project = await _projectService.GetProjectForUserAsync(projectId, userId);
+        if (project == null)
+        {
+            await SendNotFoundAsync(ct);
+            return;
+        }
+
+        var scopeError = SecretScopes.Validate(req.Scope, out var scope);
+        if (scopeError != null)
+        {
+            await SendAsync(new SecretResponse(false, scopeError), cancellation: ct);
+            return;
+        }
+
+        var rotateBy = req.RotateBy.HasValue
+            ? DateTime.SpecifyKind(req.RotateBy.Value.Date, DateTimeKind.Utc)
+            : (DateTime?)null;
+
+        var updated = await _projectService.SetSecretRotationAsync(projectId, secretName, rotateBy, userId, scope);
+        if (!updated)
+        {
+            await SendAsync(new SecretResponse(false, $"Secret {secretName} is not set."), cancellation: ct);
+            return;
+        }
+
+        await SendAsync(new SecretResponse(true), cancellation: ct);
+    }
+}
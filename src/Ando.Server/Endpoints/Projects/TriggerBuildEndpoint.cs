@@ -5,15 +5,20 @@
 //
 // Queues a new build for the specified project. Automatically detects
 // required secrets and validates project configuration before building.
+// The caller may pick a branch, pin a commit, choose a profile and pass
+// one-off environment overrides.
 //
 // Design Decisions:
 // - Requires authentication
 // - Verifies project ownership
 // - Validates all required secrets are configured
-// - Gets latest commit from GitHub if available
+// - Gets latest commit from GitHub if no commit SHA is given
+// - Pinned commits must be full 40-character SHAs (used for commit statuses)
+// - Environment overrides are stored encrypted on the build
 // =============================================================================
 
 using System.Security.Claims;
+using System.Text.RegularExpressions;
 using Ando.Server.Contracts.Projects;
 using Ando.Server.Data;
 using Ando.Server.GitHub;
@@ -26,23 +31,29 @@ namespace Ando.Server.Endpoints.Projects;
 /// <summary>
 /// POST /api/projects/{id}/build - Trigger a manual build.
 /// </summary>
-public class TriggerBuildEndpoint : Endpoint<TriggerBuildRequest, TriggerBuildResponse>
+public partial class TriggerBuildEndpoint : Endpoint<TriggerBuildRequest, TriggerBuildResponse>
 {
     private readonly AndoDbContext _db;
     private readonly IProjectService _projectService;
     private readonly IBuildService _buildService;
     private readonly IGitHubService _gitHubService;
+    private readonly IEncryptionService _encryption;
+
+    [GeneratedRegex("^[0-9a-fA-F]{40}$")]
+    private static partial Regex FullShaPattern();
 
     public TriggerBuildEndpoint(
         AndoDbContext db,
         IProjectService projectService,
         IBuildService buildService,
-        IGitHubService gitHubService)
+        IGitHubService gitHubService,
+        IEncryptionService encryption)
     {
         _db = db;
         _projectService = projectService;
         _buildService = buildService;
         _gitHubService = gitHubService;
+        _encryption = encryption;
     }
 
     public override void Configure()
@@ -62,14 +73,43 @@ public class TriggerBuildEndpoint : Endpoint<TriggerBuildRequest, TriggerBuildRe
             return;
         }
 
+        var requestedSha = req.CommitSha?.Trim();
+        if (!string.IsNullOrEmpty(requestedSha) && !FullShaPattern().IsMatch(requestedSha))
+        {
+            await SendAsync(new TriggerBuildResponse(
+                false,
+                Error: "Commit SHA must be the full 40-character hash."
+            ), cancellation: ct);
+            return;
+        }
+
+        var profile = string.IsNullOrWhiteSpace(req.Profile) ? null : req.Profile.Trim();
+        if (profile != null && !project.GetAvailableProfileNames().Contains(profile, StringComparer.OrdinalIgnoreCase))
+        {
+            await SendAsync(new TriggerBuildResponse(
+                false,
+                Error: $"Profile '{profile}' is not defined in build.csando."
+            ), cancellation: ct);
+            return;
+        }
+
+        var overridesError = BuildEnvironmentOverrides.Validate(req.EnvironmentOverrides);
+        if (overridesError != null)
+        {
+            await SendAsync(new TriggerBuildResponse(false, Error: overridesError), cancellation: ct);
+            return;
+        }
+
         // Re-detect required secrets from the build script (catches new env vars)
         await _projectService.DetectAndUpdateRequiredSecretsAsync(projectId);
 
         // Reload to get updated RequiredSecrets
         await _db.Entry(project).ReloadAsync(ct);
 
-        // Check if project is properly configured
-        var secretNames = await _projectService.GetSecretNamesAsync(projectId);
+        var targetBranch = string.IsNullOrWhiteSpace(req.Branch) ? project.DefaultBranch : req.Branch.Trim();
+
+        // Check if project is properly configured (scoped secrets count for matching builds only)
+        var secretNames = await _projectService.GetSecretNamesAsync(projectId, profile ?? project.Profile, targetBranch);
         var missingSecrets = project.GetMissingSecretsFrom(secretNames);
 
         if (missingSecrets.Count > 0)
@@ -81,13 +121,16 @@ public class TriggerBuildEndpoint : Endpoint<TriggerBuildRequest, TriggerBuildRe
             return;
         }
 
-        var targetBranch = req.Branch ?? project.DefaultBranch;
-
-        // Get the latest commit SHA for the branch from GitHub
+        // Get the latest commit SHA for the branch from GitHub unless one was pinned
         string commitSha = "HEAD";
         string commitMessage = "Manual build trigger";
 
-        if (project.InstallationId.HasValue)
+        if (!string.IsNullOrEmpty(requestedSha))
+        {
+            commitSha = requestedSha.ToLowerInvariant();
+            commitMessage = $"Manual build of {targetBranch} at {commitSha[..8]}";
+        }
+        else if (project.InstallationId.HasValue)
         {
             var sha = await _gitHubService.GetBranchHeadShaAsync(
                 project.InstallationId.Value,
@@ -101,6 +144,10 @@ public class TriggerBuildEndpoint : Endpoint<TriggerBuildRequest, TriggerBuildRe
             }
         }
 
+        var encryptedOverrides = req.EnvironmentOverrides is { Count: > 0 } overrides
+            ? _encryption.Encrypt(BuildEnvironmentOverrides.Serialize(overrides))
+            : null;
+
         // Queue a manual build
         var buildId = await _buildService.QueueBuildAsync(
             projectId,
@@ -108,7 +155,9 @@ public class TriggerBuildEndpoint : Endpoint<TriggerBuildRequest, TriggerBuildRe
             targetBranch,
             BuildTrigger.Manual,
             commitMessage,
-            User.Identity?.Name);
+            User.Identity?.Name,
+            profile: profile,
+            encryptedEnvironmentOverrides: encryptedOverrides);
 
         await SendAsync(new TriggerBuildResponse(true, buildId), cancellation: ct);
     }
@@ -0,0 +1,56 @@
+// =============================================================================
+// UnlinkSharedSecretEndpoint.cs
+//
+// Summary: FastEndpoint for unlinking a shared secret from a project.
+//
+// Design Decisions:
+// - Requires authentication
+// - Verifies project ownership
+// - Idempotent (no error if not linked)
+// - The shared secret itself and the project's own values are kept
+// =============================================================================
+
+using System.Security.Claims;
+using Ando.Server.Contracts.Projects;
+using Ando.Server.Services;
+using FastEndpoints;
+
+namespace Ando.Server.Endpoints.Projects;
+
+/// <summary>
+/// DELETE /api/projects/{id}/shared-secrets/{sharedSecretId} - Unlink a shared secret.
+/// </summary>
+public class UnlinkSharedSecretEndpoint : EndpointWithoutRequest<SecretResponse>
+{
+    private readonly IProjectService _projectService;
+    private readonly ISharedSecretService _sharedSecretService;
+
+    public UnlinkSharedSecretEndpoint(IProjectService projectService, ISharedSecretService sharedSecretService)
+    {
+        _projectService = projectService;
+        _sharedSecretService = sharedSecretService;
+    }
+
+    public override void Configure()
+    {
+        Delete("/projects/{id}/shared-secrets/{sharedSecretId}");
+    }
+
+    public override async Task HandleAsync(CancellationToken ct)
+    {
+        var projectId = Route<int>("id");
+        var sharedSecretId = Route<int>("sharedSecretId");
+        var userId = int.Parse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "0");
+
+        var project = await _projectService.GetProjectForUserAsync(projectId, userId);
+        if (project == null)
+        {
+            await SendNotFoundAsync(ct);
+            return;
+        }
+
+        await _sharedSecretService.UnlinkAsync(projectId, sharedSecretId);
+
+        await SendAsync(new SecretResponse(true), cancellation: ct);
+    }
+}
@@ -60,7 +60,8 @@ public class UpdateProjectSettingsEndpoint : Endpoint<UpdateProjectSettingsReque
             req.DockerImage,
             req.Profile,
             req.NotifyOnFailure,
-            effectiveNotificationEmail);
+            effectiveNotificationEmail,
+            req.CancelSupersededBuilds);
 
         await SendAsync(new UpdateProjectSettingsResponse(true), cancellation: ct);
     }
@@ -0,0 +1,48 @@
+// =============================================================================
+// DeleteSharedSecretEndpoint.cs
+//
+// Summary: FastEndpoint for deleting a shared secret.
+//
+// Removes the shared secret and unlinks it from every project. Projects that
+// override it keep their own values.
+//
+// Design Decisions:
+// - Requires authentication
+// - Only deletes the user's own shared secrets
+// - Idempotent (no error if the shared secret doesn't exist)
+// =============================================================================
+
+using System.Security.Claims;
+using Ando.Server.Contracts.SharedSecrets;
+using Ando.Server.Services;
+using FastEndpoints;
+
+namespace Ando.Server.Endpoints.SharedSecrets;
+
+/// <summary>
+/// DELETE /api/shared-secrets/{id} - Delete a shared secret.
+/// </summary>
+public class DeleteSharedSecretEndpoint : EndpointWithoutRequest<SetSharedSecretResponse>
+{
+    private readonly ISharedSecretService _sharedSecretService;
+
+    public DeleteSharedSecretEndpoint(ISharedSecretService sharedSecretService)
+    {
+        _sharedSecretService = sharedSecretService;
+    }
+
+    public override void Configure()
+    {
+        Delete("/shared-secrets/{id}");
+    }
+
+    public override async Task HandleAsync(CancellationToken ct)
+    {
+        var sharedSecretId = Route<int>("id");
+        var userId = int.Parse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "0");
+
+        await _sharedSecretService.DeleteSharedSecretAsync(sharedSecretId, userId);
+
+        await SendAsync(new SetSharedSecretResponse(true), cancellation: ct);
+    }
+}
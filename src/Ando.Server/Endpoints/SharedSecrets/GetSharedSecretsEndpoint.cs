@@ -0,0 +1,50 @@
+// =============================================================================
+// GetSharedSecretsEndpoint.cs
+//
+// Summary: FastEndpoint for listing the user's shared secrets.
+//
+// Returns each shared secret with the projects linked to it and the scopes in
+// which each project overrides it with its own value.
+//
+// Design Decisions:
+// - Requires authentication
+// - Only returns the user's own shared secrets
+// - Never returns secret values, only names
+// =============================================================================
+
+using System.Security.Claims;
+using Ando.Server.Contracts.SharedSecrets;
+using Ando.Server.Services;
+using FastEndpoints;
+
+namespace Ando.Server.Endpoints.SharedSecrets;
+
+/// <summary>
+/// GET /api/shared-secrets - List the user's shared secrets.
+/// </summary>
+public class GetSharedSecretsEndpoint : EndpointWithoutRequest<GetSharedSecretsResponse>
+{
+    private readonly ISharedSecretService _sharedSecretService;
+
+    public GetSharedSecretsEndpoint(ISharedSecretService sharedSecretService)
+    {
+        _sharedSecretService = sharedSecretService;
+    }
+
+    public override void Configure()
+    {
+        Get("/shared-secrets");
+    }
+
+    public override async Task HandleAsync(CancellationToken ct)
+    {
+        var userId = int.Parse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "0");
+
+        var sharedSecrets = await _sharedSecretService.GetSharedSecretsAsync(userId);
+        var overrides = await _sharedSecretService.GetOverridesAsync(sharedSecrets.ToList());
+
+        await SendAsync(new GetSharedSecretsResponse(
+            sharedSecrets.Select(s => SharedSecretMapping.ToDto(s, overrides)).ToList()
+        ), cancellation: ct);
+    }
+}
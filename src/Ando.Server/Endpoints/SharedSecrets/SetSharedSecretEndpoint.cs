@@ -0,0 +1,64 @@
+// =============================================================================
+// SetSharedSecretEndpoint.cs
+//
+// Summary: FastEndpoint for adding or updating a shared secret.
+//
+// Shared secrets are set once and inherited by every linked project, so a
+// rotated value reaches all of them. The response lists those projects so the
+// user can see what the change affects.
+//
+// Design Decisions:
+// - Requires authentication
+// - Validates secret name format (uppercase with underscores)
+// - Upserts (creates or updates) the user's shared secret of that name
+// - Submitting the current value is reported as unchanged
+// =============================================================================
+
+using System.Security.Claims;
+using Ando.Server.Contracts.SharedSecrets;
+using Ando.Server.Services;
+using FastEndpoints;
+
+namespace Ando.Server.Endpoints.SharedSecrets;
+
+/// <summary>
+/// POST /api/shared-secrets - Add or update a shared secret.
+/// </summary>
+public class SetSharedSecretEndpoint : Endpoint<SetSharedSecretRequest, SetSharedSecretResponse>
+{
+    private readonly ISharedSecretService _sharedSecretService;
+
+    public SetSharedSecretEndpoint(ISharedSecretService sharedSecretService)
+    {
+        _sharedSecretService = sharedSecretService;
+    }
+
+    public override void Configure()
+    {
+        Post("/shared-secrets");
+    }
+
+    public override async Task HandleAsync(SetSharedSecretRequest req, CancellationToken ct)
+    {
+        var userId = int.Parse(User.FindFirst(ClaimTypes.NameIdentifier)?.Value ?? "0");
+
+        if (string.IsNullOrWhiteSpace(req.Name) || string.IsNullOrWhiteSpace(req.Value))
+        {
+            await SendAsync(new SetSharedSecretResponse(false, "Secret name and value are required."), cancellation: ct);
+            return;
+        }
+
+        var name = req.Name.Trim();
+        var changed = await _sharedSecretService.SetSharedSecretAsync(userId, name, req.Value);
+
+        var sharedSecret = (await _sharedSecretService.GetSharedSecretsAsync(userId))
+            .First(s => s.Name == name);
+        var overrides = await _sharedSecretService.GetOverridesAsync([sharedSecret]);
+
+        await SendAsync(new SetSharedSecretResponse(
+            true,
+            Unchanged: !changed,
+            Projects: SharedSecretMapping.ToProjectDtos(sharedSecret, overrides)
+        ), cancellation: ct);
+    }
+}
@@ -0,0 +1,46 @@
+// =============================================================================
+// SharedSecretMapping.cs
+//
+// Summary: Maps shared secrets and their linked projects to contracts.
+// =============================================================================
+
+using Ando.Server.Contracts.SharedSecrets;
+using Ando.Server.Models;
+
+namespace Ando.Server.Endpoints.SharedSecrets;
+
+internal static class SharedSecretMapping
+{
+    /// <summary>
+    /// Maps a shared secret (with links and projects loaded). Overrides are
+    /// project secrets of the linked projects, as returned by
+    /// ISharedSecretService.GetOverridesAsync.
+    /// </summary>
+    internal static SharedSecretDto ToDto(SharedSecret secret, IEnumerable<ProjectSecret> overrides)
+    {
+        return new SharedSecretDto(
+            secret.Id,
+            secret.Name,
+            secret.CreatedAt,
+            secret.UpdatedAt ?? secret.CreatedAt,
+            secret.Version,
+            ToProjectDtos(secret, overrides));
+    }
+
+    internal static IReadOnlyList<SharedSecretProjectDto> ToProjectDtos(
+        SharedSecret secret,
+        IEnumerable<ProjectSecret> overrides)
+    {
+        var overriddenScopes = overrides
+            .Where(s => s.Name == secret.Name)
+            .ToLookup(s => s.ProjectId, s => s.Scope);
+
+        return secret.ProjectLinks
+            .Select(l => new SharedSecretProjectDto(
+                l.ProjectId,
+                l.Project.RepoFullName,
+                overriddenScopes[l.ProjectId].ToList()))
+            .OrderBy(p => p.RepoFullName, StringComparer.OrdinalIgnoreCase)
+            .ToList();
+    }
+}
@@ -129,7 +129,7 @@ public class GitHubWebhookEndpoint : EndpointWithoutRequest<object>
             await _projectService.DetectAndUpdateRequiredSecretsAsync(project.Id);
             await _db.Entry(project).ReloadAsync(ct);
 
-            var secretNames = await _projectService.GetSecretNamesAsync(project.Id);
+            var secretNames = await _projectService.GetSecretNamesAsync(project.Id, project.Profile, payload.Branch);
             var missingSecrets = project.GetMissingSecretsFrom(secretNames);
             if (missingSecrets.Count > 0)
             {
@@ -209,7 +209,8 @@ public class GitHubWebhookEndpoint : EndpointWithoutRequest<object>
             await _projectService.DetectAndUpdateRequiredSecretsAsync(project.Id);
             await _db.Entry(project).ReloadAsync(ct);
 
-            var secretNames = await _projectService.GetSecretNamesAsync(project.Id);
+            var secretNames = await _projectService.GetSecretNamesAsync(
+                project.Id, project.Profile, payload.PullRequest.Head.Ref);
             var missingSecrets = project.GetMissingSecretsFrom(secretNames);
             if (missingSecrets.Count > 0)
             {
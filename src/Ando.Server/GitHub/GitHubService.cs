@@ -437,6 +437,154 @@ public class GitHubService : IGitHubService
         }
     }
 
+    /// <inheritdoc />
+    public async Task<IReadOnlyList<GitHubBranch>> GetBranchesAsync(long installationId, string repoFullName)
+    {
+        const int pageSize = 100;
+        const int maxPages = 3;
+
+        try
+        {
+            var token = await GetInstallationTokenAsync(installationId);
+            if (string.IsNullOrEmpty(token))
+            {
+                return [];
+            }
+
+            var branches = new List<GitHubBranch>();
+            for (var page = 1; page <= maxPages; page++)
+            {
+                var request = new HttpRequestMessage(
+                    HttpMethod.Get,
+                    $"repos/{repoFullName}/branches?per_page={pageSize}&page={page}");
+                request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", token);
+
+                var response = await _httpClient.SendAsync(request);
+
+                if (!response.IsSuccessStatusCode)
+                {
+                    _logger.LogWarning("Failed to list branches for {Repo}: {Status}", repoFullName, response.StatusCode);
+                    break;
+                }
+
+                var content = await response.Content.ReadAsStringAsync();
+                using var doc = JsonDocument.Parse(content);
+
+                var count = 0;
+                foreach (var branch in doc.RootElement.EnumerateArray())
+                {
+                    count++;
+                    branches.Add(new GitHubBranch(
+                        branch.GetProperty("name").GetString() ?? "",
+                        branch.GetProperty("commit").GetProperty("sha").GetString() ?? "",
+                        branch.TryGetProperty("protected", out var isProtected) && isProtected.GetBoolean()));
+                }
+
+                if (count < pageSize)
+                {
+                    break;
+                }
+            }
+
+            return branches;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error listing branches for {Repo}", repoFullName);
+            return [];
+        }
+    }
+
+    /// <inheritdoc />
+    public async Task<GitHubComparison?> CompareAsync(long installationId, string repoFullName, string baseRef, string headRef)
+    {
+        try
+        {
+            var token = await GetInstallationTokenAsync(installationId);
+            if (string.IsNullOrEmpty(token))
+            {
+                return null;
+            }
+
+            var request = new HttpRequestMessage(HttpMethod.Get, $"repos/{repoFullName}/compare/{Uri.EscapeDataString(baseRef)}...{Uri.EscapeDataString(headRef)}");
+            request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", token);
+
+            var response = await _httpClient.SendAsync(request);
+
+            if (!response.IsSuccessStatusCode)
+            {
+                _logger.LogWarning("Failed to compare {Base}...{Head} for {Repo}: {Status}", baseRef, headRef, repoFullName, response.StatusCode);
+                return null;
+            }
+
+            var content = await response.Content.ReadAsStringAsync();
+            using var doc = JsonDocument.Parse(content);
+
+            return new GitHubComparison(
+                doc.RootElement.GetProperty("ahead_by").GetInt32(),
+                doc.RootElement.GetProperty("behind_by").GetInt32());
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error comparing {Base}...{Head} for {Repo}", baseRef, headRef, repoFullName);
+            return null;
+        }
+    }
+
+    /// <inheritdoc />
+    public async Task<IReadOnlyList<GitHubPullRequest>?> GetOpenPullRequestsAsync(long installationId, string repoFullName)
+    {
+        try
+        {
+            var token = await GetInstallationTokenAsync(installationId);
+            if (string.IsNullOrEmpty(token))
+            {
+                return null;
+            }
+
+            var request = new HttpRequestMessage(
+                HttpMethod.Get,
+                $"repos/{repoFullName}/pulls?state=open&sort=updated&direction=desc&per_page=100");
+            request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", token);
+
+            var response = await _httpClient.SendAsync(request);
+
+            if (!response.IsSuccessStatusCode)
+            {
+                _logger.LogWarning("Failed to list pull requests for {Repo}: {Status}", repoFullName, response.StatusCode);
+                return null;
+            }
+
+            var content = await response.Content.ReadAsStringAsync();
+            using var doc = JsonDocument.Parse(content);
+
+            var pullRequests = new List<GitHubPullRequest>();
+            foreach (var pr in doc.RootElement.EnumerateArray())
+            {
+                var head = pr.GetProperty("head");
+                pullRequests.Add(new GitHubPullRequest(
+                    pr.GetProperty("number").GetInt32(),
+                    pr.GetProperty("title").GetString() ?? "",
+                    pr.TryGetProperty("user", out var user) && user.ValueKind == JsonValueKind.Object
+                        ? user.GetProperty("login").GetString()
+                        : null,
+                    head.GetProperty("sha").GetString() ?? "",
+                    head.GetProperty("ref").GetString() ?? "",
+                    pr.GetProperty("base").GetProperty("ref").GetString() ?? "",
+                    pr.GetProperty("html_url").GetString() ?? "",
+                    pr.TryGetProperty("draft", out var draft) && draft.ValueKind == JsonValueKind.True,
+                    pr.GetProperty("updated_at").GetDateTime()));
+            }
+
+            return pullRequests;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error listing pull requests for {Repo}", repoFullName);
+            return null;
+        }
+    }
+
     /// <summary>
     /// Gets repositories from a GitHub API endpoint.
     /// </summary>
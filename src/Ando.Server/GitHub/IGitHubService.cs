@@ -126,6 +126,32 @@ public interface IGitHubService
     /// <returns>Commit SHA, or null if not found.</returns>
     Task<string?> GetBranchHeadShaAsync(long installationId, string repoFullName, string branch);
 
+    /// <summary>
+    /// Lists the branches of a repository (up to the first 300).
+    /// </summary>
+    /// <param name="installationId">GitHub App installation ID.</param>
+    /// <param name="repoFullName">Repository full name (owner/repo).</param>
+    /// <returns>Branches with their head commit, or empty on failure.</returns>
+    Task<IReadOnlyList<GitHubBranch>> GetBranchesAsync(long installationId, string repoFullName);
+
+    /// <summary>
+    /// Compares two refs of a repository.
+    /// </summary>
+    /// <param name="installationId">GitHub App installation ID.</param>
+    /// <param name="repoFullName">Repository full name (owner/repo).</param>
+    /// <param name="baseRef">Ref to compare against (e.g. the default branch).</param>
+    /// <param name="headRef">Ref being compared.</param>
+    /// <returns>Ahead/behind counts, or null if either ref is missing or on failure.</returns>
+    Task<GitHubComparison?> CompareAsync(long installationId, string repoFullName, string baseRef, string headRef);
+
+    /// <summary>
+    /// Lists the open pull requests of a repository (up to the 100 most recently updated).
+    /// </summary>
+    /// <param name="installationId">GitHub App installation ID.</param>
+    /// <param name="repoFullName">Repository full name (owner/repo).</param>
+    /// <returns>Open pull requests, or null on failure.</returns>
+    Task<IReadOnlyList<GitHubPullRequest>?> GetOpenPullRequestsAsync(long installationId, string repoFullName);
+
     /// <summary>
     /// Gets the content of a file from a repository.
     /// </summary>
@@ -158,3 +184,49 @@ public record GitHubRepository(
     long OwnerId,
     string OwnerLogin
 );
+
+/// <summary>
+/// Branch information from GitHub API.
+/// </summary>
+/// <param name="Name">Branch name.</param>
+/// <param name="HeadSha">SHA of the branch's head commit.</param>
+/// <param name="IsProtected">Whether the branch is protected.</param>
+public record GitHubBranch(
+    string Name,
+    string HeadSha,
+    bool IsProtected
+);
+
+/// <summary>
+/// Result of comparing two refs via the GitHub API.
+/// </summary>
+/// <param name="AheadBy">Commits on the head ref that are not on the base ref.</param>
+/// <param name="BehindBy">Commits on the base ref that are not on the head ref.</param>
+public record GitHubComparison(
+    int AheadBy,
+    int BehindBy
+);
+
+/// <summary>
+/// Pull request information from GitHub API.
+/// </summary>
+/// <param name="Number">Pull request number.</param>
+/// <param name="Title">Pull request title.</param>
+/// <param name="AuthorLogin">GitHub login of the author.</param>
+/// <param name="HeadSha">SHA of the head commit.</param>
+/// <param name="HeadRef">Source branch.</param>
+/// <param name="BaseRef">Target branch.</param>
+/// <param name="HtmlUrl">URL to the pull request on GitHub.</param>
+/// <param name="IsDraft">Whether the pull request is a draft.</param>
+/// <param name="UpdatedAt">When the pull request was last updated.</param>
+public record GitHubPullRequest(
+    int Number,
+    string Title,
+    string? AuthorLogin,
+    string HeadSha,
+    string HeadRef,
+    string BaseRef,
+    string HtmlUrl,
+    bool IsDraft,
+    DateTime UpdatedAt
+);
@@ -107,6 +107,27 @@ public class BuildLogHub : Hub
         await Groups.RemoveFromGroupAsync(Context.ConnectionId, GetGroupName(buildId));
     }
 
+    /// <summary>
+    /// Join the admin build queue feed. Only admins are added.
+    /// </summary>
+    public async Task JoinAdminQueue()
+    {
+        if (Context.User?.IsInRole(UserRoles.Admin) != true)
+        {
+            throw new HubException("Only admins can watch the build queue.");
+        }
+
+        await Groups.AddToGroupAsync(Context.ConnectionId, GetAdminQueueGroupName());
+    }
+
+    /// <summary>
+    /// Leave the admin build queue feed.
+    /// </summary>
+    public async Task LeaveAdminQueue()
+    {
+        await Groups.RemoveFromGroupAsync(Context.ConnectionId, GetAdminQueueGroupName());
+    }
+
     /// <summary>
     /// Gets the SignalR group name for a build.
     /// </summary>
@@ -121,4 +142,9 @@ public class BuildLogHub : Hub
     /// Gets the SignalR group name for admin users.
     /// </summary>
     public static string GetAdminsGroupName() => "admins";
+
+    /// <summary>
+    /// Gets the SignalR group name for admins viewing the build queue.
+    /// </summary>
+    public static string GetAdminQueueGroupName() => "admin-queue";
 }
@@ -8,7 +8,8 @@
 //
 // Design Decisions:
 // - Marks builds as TimedOut if they've been running longer than max timeout
-// - Marks queued builds as Failed if they've been waiting too long
+// - Marks queued builds as Failed if they've been waiting too long, except
+//   while an admin has paused the build queue
 // - Does not delete build history (requirements specify full history retention)
 // =============================================================================
 
@@ -105,6 +106,16 @@ public class CleanupOldBuildsJob
     /// </summary>
     private async Task<int> CleanupOrphanedQueuedBuildsAsync()
     {
+        // Builds held back by a paused queue are waiting on purpose
+        var isQueuePaused = await _db.SystemSettings
+            .AsNoTracking()
+            .Select(s => s.IsBuildQueuePaused)
+            .FirstOrDefaultAsync();
+        if (isQueuePaused)
+        {
+            return 0;
+        }
+
         var cutoff = DateTime.UtcNow - MaxQueuedDuration;
 
         var orphanedBuilds = await _db.Builds
@@ -4,16 +4,24 @@
 // Summary: Hangfire job that executes builds.
 //
 // This is the entry point for build execution from Hangfire. It delegates
-// to the BuildOrchestrator for actual build execution.
+// to the BuildOrchestrator for actual build execution, after checking that
+// the build may start now.
 //
 // Design Decisions:
 // - No automatic retries (builds should not auto-retry)
 // - Runs in the "builds" queue
-// - Delegates all logic to BuildOrchestrator
+// - Delegates all build logic to BuildOrchestrator
+// - While the queue is paused, or a higher-priority build is waiting, the
+//   build is rescheduled instead of started (see BuildQueue)
+// - Builds that are no longer queued (e.g. cancelled meanwhile) are skipped
 // =============================================================================
 
 using Ando.Server.BuildExecution;
+using Ando.Server.Data;
+using Ando.Server.Models;
+using Ando.Server.Services;
 using Hangfire;
+using Microsoft.EntityFrameworkCore;
 
 namespace Ando.Server.Jobs;
 
@@ -22,11 +30,24 @@ namespace Ando.Server.Jobs;
 /// </summary>
 public class ExecuteBuildJob
 {
+    // How long a deferred build waits before checking the queue again.
+    private static readonly TimeSpan DeferDelay = TimeSpan.FromSeconds(15);
+
     private readonly IBuildOrchestrator _orchestrator;
+    private readonly AndoDbContext _db;
+    private readonly IBackgroundJobClient _jobClient;
+    private readonly ILogger<ExecuteBuildJob> _logger;
 
-    public ExecuteBuildJob(IBuildOrchestrator orchestrator)
+    public ExecuteBuildJob(
+        IBuildOrchestrator orchestrator,
+        AndoDbContext db,
+        IBackgroundJobClient jobClient,
+        ILogger<ExecuteBuildJob> logger)
     {
         _orchestrator = orchestrator;
+        _db = db;
+        _jobClient = jobClient;
+        _logger = logger;
     }
 
     /// <summary>
@@ -38,6 +59,50 @@ public class ExecuteBuildJob
     [AutomaticRetry(Attempts = 0)]
     public async Task ExecuteAsync(int buildId, CancellationToken cancellationToken)
     {
+        var build = await _db.Builds.FirstOrDefaultAsync(b => b.Id == buildId, cancellationToken);
+        if (build != null && build.Status != BuildStatus.Queued)
+        {
+            _logger.LogInformation(
+                "Skipping build {BuildId}: no longer queued (status: {Status})",
+                buildId, build.Status);
+            return;
+        }
+
+        if (build != null && await ShouldWaitAsync(build, cancellationToken))
+        {
+            build.HangfireJobId = _jobClient.Schedule<ExecuteBuildJob>(
+                job => job.ExecuteAsync(buildId, CancellationToken.None),
+                DeferDelay);
+            await _db.SaveChangesAsync(cancellationToken);
+            return;
+        }
+
         await _orchestrator.ExecuteBuildAsync(buildId, cancellationToken);
     }
+
+    private async Task<bool> ShouldWaitAsync(Build build, CancellationToken ct)
+    {
+        var isPaused = await _db.SystemSettings
+            .AsNoTracking()
+            .Select(s => s.IsBuildQueuePaused)
+            .FirstOrDefaultAsync(ct);
+
+        if (isPaused)
+        {
+            _logger.LogDebug("Build queue is paused, deferring build {BuildId}", build.Id);
+            return true;
+        }
+
+        var higherPriority = await _db.Builds
+            .Where(b => b.Status == BuildStatus.Queued && b.QueuePriority > build.QueuePriority)
+            .ToListAsync(ct);
+
+        if (BuildQueue.IsOutranked(build, higherPriority))
+        {
+            _logger.LogDebug("Higher-priority builds are waiting, deferring build {BuildId}", build.Id);
+            return true;
+        }
+
+        return false;
+    }
 }
@@ -0,0 +1,50 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ando.Server.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddCancelSupersededBuilds : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<bool>(
+                name: "CancelSupersededBuilds",
+                table: "Projects",
+                type: "bit",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<string>(
+                name: "CancellationReason",
+                table: "Builds",
+                type: "nvarchar(500)",
+                maxLength: 500,
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "SupersededByBuildId",
+                table: "Builds",
+                type: "int",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "CancelSupersededBuilds",
+                table: "Projects");
+
+            migrationBuilder.DropColumn(
+                name: "CancellationReason",
+                table: "Builds");
+
+            migrationBuilder.DropColumn(
+                name: "SupersededByBuildId",
+                table: "Builds");
+        }
+    }
+}
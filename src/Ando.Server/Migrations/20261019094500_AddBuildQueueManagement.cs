@@ -0,0 +1,51 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ando.Server.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddBuildQueueManagement : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "QueuePriority",
+                table: "Builds",
+                type: "int",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "BuildQueuePausedAt",
+                table: "SystemSettings",
+                type: "datetime2",
+                nullable: true);
+
+            migrationBuilder.AddColumn<bool>(
+                name: "IsBuildQueuePaused",
+                table: "SystemSettings",
+                type: "bit",
+                nullable: false,
+                defaultValue: false);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "QueuePriority",
+                table: "Builds");
+
+            migrationBuilder.DropColumn(
+                name: "BuildQueuePausedAt",
+                table: "SystemSettings");
+
+            migrationBuilder.DropColumn(
+                name: "IsBuildQueuePaused",
+                table: "SystemSettings");
+        }
+    }
+}
@@ -0,0 +1,38 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ando.Server.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddBuildCoverage : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<double>(
+                name: "BranchCoverage",
+                table: "Builds",
+                type: "float",
+                nullable: true);
+
+            migrationBuilder.AddColumn<double>(
+                name: "LineCoverage",
+                table: "Builds",
+                type: "float",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "BranchCoverage",
+                table: "Builds");
+
+            migrationBuilder.DropColumn(
+                name: "LineCoverage",
+                table: "Builds");
+        }
+    }
+}
@@ -0,0 +1,62 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace Ando.Server.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddSecretScopes : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropIndex(
+                name: "IX_ProjectSecrets_ProjectId_Name",
+                table: "ProjectSecrets");
+
+            migrationBuilder.AddColumn<string>(
+                name: "Scope",
+                table: "ProjectSecrets",
+                type: "nvarchar(200)",
+                maxLength: 200,
+                nullable: false,
+                defaultValue: "");
+
+            migrationBuilder.AddColumn<string>(
+                name: "Scope",
+                table: "ProjectSecretEvents",
+                type: "nvarchar(200)",
+                maxLength: 200,
+                nullable: false,
+                defaultValue: "");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_ProjectSecrets_ProjectId_Name_Scope",
+                table: "ProjectSecrets",
+                columns: new[] { "ProjectId", "Name", "Scope" },
+                unique: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropIndex(
+                name: "IX_ProjectSecrets_ProjectId_Name_Scope",
+                table: "ProjectSecrets");
+
+            migrationBuilder.DropColumn(
+                name: "Scope",
+                table: "ProjectSecrets");
+
+            migrationBuilder.DropColumn(
+                name: "Scope",
+                table: "ProjectSecretEvents");
+
+            migrationBuilder.CreateIndex(
+                name: "IX_ProjectSecrets_ProjectId_Name",
+                table: "ProjectSecrets",
+                columns: new[] { "ProjectId", "Name" },
+                unique: true);
+        }
+    }
+}
@@ -222,6 +222,13 @@ namespace Ando.Server.Migrations
                         .HasMaxLength(200)
                         .HasColumnType("nvarchar(200)");
 
+                    b.Property<double?>("BranchCoverage")
+                        .HasColumnType("float");
+
+                    b.Property<string>("CancellationReason")
+                        .HasMaxLength(500)
+                        .HasColumnType("nvarchar(500)");
+
                     b.Property<string>("CommitAuthor")
                         .HasMaxLength(200)
                         .HasColumnType("nvarchar(200)");
@@ -238,6 +245,9 @@ namespace Ando.Server.Migrations
                     b.Property<TimeSpan?>("Duration")
                         .HasColumnType("time");
 
+                    b.Property<string>("EncryptedEnvironmentOverrides")
+                        .HasColumnType("nvarchar(max)");
+
                     b.Property<string>("ErrorMessage")
                         .HasMaxLength(2000)
                         .HasColumnType("nvarchar(2000)");
@@ -253,6 +263,9 @@ namespace Ando.Server.Migrations
                         .HasMaxLength(100)
                         .HasColumnType("nvarchar(100)");
 
+                    b.Property<double?>("LineCoverage")
+                        .HasColumnType("float");
+
                     b.Property<string>("Profile")
                         .HasColumnType("nvarchar(max)");
 
@@ -262,6 +275,9 @@ namespace Ando.Server.Migrations
                     b.Property<int?>("PullRequestNumber")
                         .HasColumnType("int");
 
+                    b.Property<int>("QueuePriority")
+                        .HasColumnType("int");
+
                     b.Property<DateTime>("QueuedAt")
                         .HasColumnType("datetime2");
 
@@ -282,6 +298,9 @@ namespace Ando.Server.Migrations
                     b.Property<int>("StepsTotal")
                         .HasColumnType("int");
 
+                    b.Property<int?>("SupersededByBuildId")
+                        .HasColumnType("int");
+
                     b.Property<string>("Trigger")
                         .IsRequired()
                         .HasMaxLength(20)
@@ -319,6 +338,10 @@ namespace Ando.Server.Migrations
                         .HasMaxLength(255)
                         .HasColumnType("nvarchar(255)");
 
+                    b.Property<string>("Sha256")
+                        .HasMaxLength(64)
+                        .HasColumnType("nvarchar(64)");
+
                     b.Property<long>("SizeBytes")
                         .HasColumnType("bigint");
 
@@ -392,6 +415,9 @@ namespace Ando.Server.Migrations
                         .HasColumnType("nvarchar(500)")
                         .HasDefaultValue("main,master");
 
+                    b.Property<bool>("CancelSupersededBuilds")
+                        .HasColumnType("bit");
+
                     b.Property<DateTime>("CreatedAt")
                         .HasColumnType("datetime2");
 
@@ -483,17 +509,147 @@ namespace Ando.Server.Migrations
                     b.Property<int>("ProjectId")
                         .HasColumnType("int");
 
+                    b.Property<DateTime?>("RotateBy")
+                        .HasColumnType("datetime2");
+
+                    b.Property<string>("Scope")
+                        .IsRequired()
+                        .ValueGeneratedOnAdd()
+                        .HasMaxLength(200)
+                        .HasColumnType("nvarchar(200)")
+                        .HasDefaultValue("");
+
                     b.Property<DateTime?>("UpdatedAt")
                         .HasColumnType("datetime2");
 
+                    b.Property<int>("Version")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("int")
+                        .HasDefaultValue(1);
+
                     b.HasKey("Id");
 
-                    b.HasIndex("ProjectId", "Name")
+                    b.HasIndex("ProjectId", "Name", "Scope")
                         .IsUnique();
 
                     b.ToTable("ProjectSecrets");
                 });
 
+            modelBuilder.Entity("Ando.Server.Models.ProjectSecretEvent", b =>
+                {
+                    b.Property<long>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("bigint");
+
+                    SqlServerPropertyBuilderExtensions.UseIdentityColumn(b.Property<long>("Id"));
+
+                    b.Property<int?>("ActorId")
+                        .HasColumnType("int");
+
+                    b.Property<string>("ActorName")
+                        .HasMaxLength(256)
+                        .HasColumnType("nvarchar(256)");
+
+                    b.Property<int?>("FirstUsedByBuildId")
+                        .HasColumnType("int");
+
+                    b.Property<DateTime>("OccurredAt")
+                        .HasColumnType("datetime2");
+
+                    b.Property<int>("ProjectId")
+                        .HasColumnType("int");
+
+                    b.Property<DateTime?>("RotateBy")
+                        .HasColumnType("datetime2");
+
+                    b.Property<string>("Scope")
+                        .IsRequired()
+                        .ValueGeneratedOnAdd()
+                        .HasMaxLength(200)
+                        .HasColumnType("nvarchar(200)")
+                        .HasDefaultValue("");
+
+                    b.Property<string>("SecretName")
+                        .IsRequired()
+                        .HasMaxLength(100)
+                        .HasColumnType("nvarchar(100)");
+
+                    b.Property<string>("Type")
+                        .IsRequired()
+                        .HasMaxLength(30)
+                        .HasColumnType("nvarchar(30)");
+
+                    b.Property<int>("Version")
+                        .HasColumnType("int");
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("ProjectId", "OccurredAt")
+                        .IsDescending(false, true);
+
+                    b.HasIndex("ProjectId", "SecretName");
+
+                    b.ToTable("ProjectSecretEvents");
+                });
+
+            modelBuilder.Entity("Ando.Server.Models.ProjectSharedSecret", b =>
+                {
+                    b.Property<int>("ProjectId")
+                        .HasColumnType("int");
+
+                    b.Property<int>("SharedSecretId")
+                        .HasColumnType("int");
+
+                    b.Property<DateTime>("LinkedAt")
+                        .HasColumnType("datetime2");
+
+                    b.HasKey("ProjectId", "SharedSecretId");
+
+                    b.HasIndex("SharedSecretId");
+
+                    b.ToTable("ProjectSharedSecrets");
+                });
+
+            modelBuilder.Entity("Ando.Server.Models.SharedSecret", b =>
+                {
+                    b.Property<int>("Id")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("int");
+
+                    SqlServerPropertyBuilderExtensions.UseIdentityColumn(b.Property<int>("Id"));
+
+                    b.Property<DateTime>("CreatedAt")
+                        .HasColumnType("datetime2");
+
+                    b.Property<string>("EncryptedValue")
+                        .IsRequired()
+                        .HasMaxLength(2000)
+                        .HasColumnType("nvarchar(2000)");
+
+                    b.Property<string>("Name")
+                        .IsRequired()
+                        .HasMaxLength(100)
+                        .HasColumnType("nvarchar(100)");
+
+                    b.Property<int>("OwnerId")
+                        .HasColumnType("int");
+
+                    b.Property<DateTime?>("UpdatedAt")
+                        .HasColumnType("datetime2");
+
+                    b.Property<int>("Version")
+                        .ValueGeneratedOnAdd()
+                        .HasColumnType("int")
+                        .HasDefaultValue(1);
+
+                    b.HasKey("Id");
+
+                    b.HasIndex("OwnerId", "Name")
+                        .IsUnique();
+
+                    b.ToTable("SharedSecrets");
+                });
+
             modelBuilder.Entity("Ando.Server.Models.SystemSettings", b =>
                 {
                     b.Property<int>("Id")
@@ -504,6 +660,12 @@ namespace Ando.Server.Migrations
                         .HasColumnType("bit")
                         .HasDefaultValue(true);
 
+                    b.Property<DateTime?>("BuildQueuePausedAt")
+                        .HasColumnType("datetime2");
+
+                    b.Property<bool>("IsBuildQueuePaused")
+                        .HasColumnType("bit");
+
                     b.Property<DateTime>("UpdatedAt")
                         .HasColumnType("datetime2");
 
@@ -681,6 +843,47 @@ namespace Ando.Server.Migrations
                     b.Navigation("Project");
                 });
 
+            modelBuilder.Entity("Ando.Server.Models.ProjectSecretEvent", b =>
+                {
+                    b.HasOne("Ando.Server.Models.Project", "Project")
+                        .WithMany("SecretEvents")
+                        .HasForeignKey("ProjectId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("Project");
+                });
+
+            modelBuilder.Entity("Ando.Server.Models.ProjectSharedSecret", b =>
+                {
+                    b.HasOne("Ando.Server.Models.Project", "Project")
+                        .WithMany("SharedSecretLinks")
+                        .HasForeignKey("ProjectId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.HasOne("Ando.Server.Models.SharedSecret", "SharedSecret")
+                        .WithMany("ProjectLinks")
+                        .HasForeignKey("SharedSecretId")
+                        .OnDelete(DeleteBehavior.ClientCascade)
+                        .IsRequired();
+
+                    b.Navigation("Project");
+
+                    b.Navigation("SharedSecret");
+                });
+
+            modelBuilder.Entity("Ando.Server.Models.SharedSecret", b =>
+                {
+                    b.HasOne("Ando.Server.Models.ApplicationUser", "Owner")
+                        .WithMany("SharedSecrets")
+                        .HasForeignKey("OwnerId")
+                        .OnDelete(DeleteBehavior.Cascade)
+                        .IsRequired();
+
+                    b.Navigation("Owner");
+                });
+
             modelBuilder.Entity("Microsoft.AspNetCore.Identity.IdentityRoleClaim<int>", b =>
                 {
                     b.HasOne("Ando.Server.Models.ApplicationRole", null)
@@ -737,6 +940,8 @@ namespace Ando.Server.Migrations
                     b.Navigation("ApiTokens");
 
                     b.Navigation("Projects");
+
+                    b.Navigation("SharedSecrets");
                 });
 
             modelBuilder.Entity("Ando.Server.Models.Build", b =>
@@ -750,7 +955,16 @@ namespace Ando.Server.Migrations
                 {
                     b.Navigation("Builds");
 
+                    b.Navigation("SecretEvents");
+
                     b.Navigation("Secrets");
+
+                    b.Navigation("SharedSecretLinks");
+                });
+
+            modelBuilder.Entity("Ando.Server.Models.SharedSecret", b =>
+                {
+                    b.Navigation("ProjectLinks");
                 });
 #pragma warning restore 612, 618
         }
@@ -107,6 +107,11 @@ public class ApplicationUser : IdentityUser<int>
     /// </summary>
     public ICollection<ApiToken> ApiTokens { get; set; } = [];
 
+    /// <summary>
+    /// Secrets this user shares across their projects.
+    /// </summary>
+    public ICollection<SharedSecret> SharedSecrets { get; set; } = [];
+
     // -------------------------------------------------------------------------
     // Helper Properties
     // -------------------------------------------------------------------------
@@ -114,6 +114,12 @@ public class Build
     /// </summary>
     public string? Profile { get; set; }
 
+    /// <summary>
+    /// One-off environment variables for this build only, as encrypted JSON
+    /// (see BuildEnvironmentOverrides). They take precedence over project secrets.
+    /// </summary>
+    public string? EncryptedEnvironmentOverrides { get; set; }
+
     // -------------------------------------------------------------------------
     // Build State
     // -------------------------------------------------------------------------
@@ -133,6 +139,12 @@ public class Build
     /// </summary>
     public DateTime QueuedAt { get; set; }
 
+    /// <summary>
+    /// Queue priority set by an admin. Higher values start first; builds of
+    /// equal priority start in the order they were queued.
+    /// </summary>
+    public int QueuePriority { get; set; }
+
     /// <summary>
     /// When the build started executing.
     /// </summary>
@@ -172,6 +184,27 @@ public class Build
     /// </summary>
     public string? ErrorMessage { get; set; }
 
+    /// <summary>
+    /// Why the build was cancelled (e.g. "Superseded by build #12").
+    /// </summary>
+    public string? CancellationReason { get; set; }
+
+    /// <summary>
+    /// The newer build that cancelled this one, when the project cancels
+    /// superseded builds.
+    /// </summary>
+    public int? SupersededByBuildId { get; set; }
+
+    /// <summary>
+    /// Line coverage (0..1) from the build's coverage report artifacts, if any.
+    /// </summary>
+    public double? LineCoverage { get; set; }
+
+    /// <summary>
+    /// Branch coverage (0..1) from the build's coverage report artifacts, if any.
+    /// </summary>
+    public double? BranchCoverage { get; set; }
+
     // -------------------------------------------------------------------------
     // Job Tracking
     // -------------------------------------------------------------------------
@@ -51,6 +51,12 @@ public class BuildArtifact
     /// </summary>
     public long SizeBytes { get; set; }
 
+    /// <summary>
+    /// Lowercase hex SHA-256 checksum of the file. Null for artifacts collected
+    /// before checksums were recorded, until first opened in the browser.
+    /// </summary>
+    public string? Sha256 { get; set; }
+
     /// <summary>
     /// When the artifact was created.
     /// </summary>
@@ -81,6 +81,12 @@ public class Project
     /// </summary>
     public bool EnablePrBuilds { get; set; } = false;
 
+    /// <summary>
+    /// Whether a new build cancels queued or running builds of the same
+    /// branch or pull request.
+    /// </summary>
+    public bool CancelSupersededBuilds { get; set; } = false;
+
     /// <summary>
     /// Maximum build duration in minutes before timeout.
     /// Default is 15 minutes.
@@ -152,6 +158,16 @@ public class Project
     /// </summary>
     public ICollection<ProjectSecret> Secrets { get; set; } = [];
 
+    /// <summary>
+    /// Audit trail of secret changes for this project.
+    /// </summary>
+    public ICollection<ProjectSecretEvent> SecretEvents { get; set; } = [];
+
+    /// <summary>
+    /// Shared secrets this project inherits.
+    /// </summary>
+    public ICollection<ProjectSharedSecret> SharedSecretLinks { get; set; } = [];
+
     // -------------------------------------------------------------------------
     // Helper Methods
     // -------------------------------------------------------------------------
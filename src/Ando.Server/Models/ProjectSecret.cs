@@ -10,6 +10,9 @@
 // - Write-only: secrets can be set or updated but never read back via UI
 // - Name must be a valid environment variable name
 // - Values encrypted at rest with AES-256
+// - Version counts value changes; the history lives in ProjectSecretEvent
+// - A name can have one value per scope (see SecretScopes); builds get the
+//   most specific matching value
 // =============================================================================
 
 namespace Ando.Server.Models;
@@ -40,6 +43,12 @@ public class ProjectSecret
     /// </summary>
     public string Name { get; set; } = "";
 
+    /// <summary>
+    /// Builds this value applies to: empty for all builds, "profile:name" or
+    /// "branch:pattern". See SecretScopes.
+    /// </summary>
+    public string Scope { get; set; } = "";
+
     /// <summary>
     /// AES-256 encrypted value. Never expose this in the UI.
     /// </summary>
@@ -54,4 +63,15 @@ public class ProjectSecret
     /// When the secret value was last updated.
     /// </summary>
     public DateTime? UpdatedAt { get; set; }
+
+    /// <summary>
+    /// Incremented each time the value changes (1 for the first value).
+    /// </summary>
+    public int Version { get; set; } = 1;
+
+    /// <summary>
+    /// Optional date by which the value should be rotated. Cleared when the
+    /// value changes.
+    /// </summary>
+    public DateTime? RotateBy { get; set; }
 }
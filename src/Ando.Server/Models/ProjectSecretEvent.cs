@@ -0,0 +1,89 @@
+// =============================================================================
+// ProjectSecretEvent.cs
+//
+// Summary: One entry in a project's secret audit trail.
+//
+// Records who created, changed or deleted a secret and who set its rotation
+// deadline. Value changes also record the first build that ran with the new
+// value, so a broken build can be traced back to a secret change.
+//
+// Design Decisions:
+// - Never stores values, encrypted or otherwise; the trail only says that a
+//   value changed
+// - Actor name is copied rather than referenced so entries outlive the user
+// - FirstUsedByBuildId is a plain id; builds may be deleted independently
+// =============================================================================
+
+namespace Ando.Server.Models;
+
+/// <summary>
+/// What happened to a secret.
+/// </summary>
+public enum SecretEventType
+{
+    /// <summary>Secret was added with its first value.</summary>
+    Created,
+
+    /// <summary>Secret value was replaced.</summary>
+    Updated,
+
+    /// <summary>Secret was removed.</summary>
+    Deleted,
+
+    /// <summary>A rotation deadline was set or moved.</summary>
+    RotationDeadlineSet,
+
+    /// <summary>The rotation deadline was removed.</summary>
+    RotationDeadlineCleared
+}
+
+/// <summary>
+/// An audit trail entry for a project secret.
+/// </summary>
+public class ProjectSecretEvent
+{
+    public long Id { get; set; }
+
+    public int ProjectId { get; set; }
+    public Project Project { get; set; } = null!;
+
+    /// <summary>
+    /// Name of the secret at the time of the event.
+    /// </summary>
+    public string SecretName { get; set; } = "";
+
+    /// <summary>
+    /// Scope of the secret value (empty for the unscoped value).
+    /// </summary>
+    public string Scope { get; set; } = "";
+
+    public SecretEventType Type { get; set; }
+
+    /// <summary>
+    /// Value version after the event (1 for the first value). Deletions keep
+    /// the version of the value that was removed.
+    /// </summary>
+    public int Version { get; set; }
+
+    /// <summary>
+    /// User who made the change, or null for system changes.
+    /// </summary>
+    public int? ActorId { get; set; }
+
+    /// <summary>
+    /// Display name or email of the actor when the event happened.
+    /// </summary>
+    public string? ActorName { get; set; }
+
+    public DateTime OccurredAt { get; set; }
+
+    /// <summary>
+    /// New rotation deadline for RotationDeadlineSet events.
+    /// </summary>
+    public DateTime? RotateBy { get; set; }
+
+    /// <summary>
+    /// First build that ran with this value (Created/Updated events only).
+    /// </summary>
+    public int? FirstUsedByBuildId { get; set; }
+}
@@ -0,0 +1,42 @@
+// =============================================================================
+// ProjectSharedSecret.cs
+//
+// Summary: Links a project to a shared secret it inherits.
+//
+// Design Decisions:
+// - Composite key (ProjectId, SharedSecretId); a link has no other identity
+// - Removed with either the project or the shared secret
+// =============================================================================
+
+namespace Ando.Server.Models;
+
+/// <summary>
+/// A project's link to a shared secret.
+/// </summary>
+public class ProjectSharedSecret
+{
+    /// <summary>
+    /// ID of the inheriting project.
+    /// </summary>
+    public int ProjectId { get; set; }
+
+    /// <summary>
+    /// The inheriting project.
+    /// </summary>
+    public Project Project { get; set; } = null!;
+
+    /// <summary>
+    /// ID of the shared secret.
+    /// </summary>
+    public int SharedSecretId { get; set; }
+
+    /// <summary>
+    /// The shared secret.
+    /// </summary>
+    public SharedSecret SharedSecret { get; set; } = null!;
+
+    /// <summary>
+    /// When the project was linked.
+    /// </summary>
+    public DateTime LinkedAt { get; set; }
+}
@@ -0,0 +1,68 @@
+// =============================================================================
+// SharedSecret.cs
+//
+// Summary: An encrypted secret owned by a user and shared by their projects.
+//
+// Values such as NUGET_API_KEY are often the same across many projects. A
+// shared secret is stored once and linked to each project that needs it, so
+// rotating it updates every linked project at once.
+//
+// Design Decisions:
+// - Owned by a user; only that user's projects can link to it
+// - Write-only and encrypted at rest, like ProjectSecret
+// - A project's own value of the same name (in any matching scope) overrides
+//   the shared value
+// =============================================================================
+
+namespace Ando.Server.Models;
+
+/// <summary>
+/// An encrypted environment variable secret shared across a user's projects.
+/// </summary>
+public class SharedSecret
+{
+    /// <summary>
+    /// Unique identifier for this shared secret.
+    /// </summary>
+    public int Id { get; set; }
+
+    /// <summary>
+    /// ID of the user who owns this shared secret.
+    /// </summary>
+    public int OwnerId { get; set; }
+
+    /// <summary>
+    /// The user who owns this shared secret.
+    /// </summary>
+    public ApplicationUser Owner { get; set; } = null!;
+
+    /// <summary>
+    /// Environment variable name (e.g., "NUGET_API_KEY").
+    /// </summary>
+    public string Name { get; set; } = "";
+
+    /// <summary>
+    /// AES-256 encrypted value. Never expose this in the UI.
+    /// </summary>
+    public string EncryptedValue { get; set; } = "";
+
+    /// <summary>
+    /// When the shared secret was created.
+    /// </summary>
+    public DateTime CreatedAt { get; set; }
+
+    /// <summary>
+    /// When the value was last updated.
+    /// </summary>
+    public DateTime? UpdatedAt { get; set; }
+
+    /// <summary>
+    /// Incremented each time the value changes (1 for the first value).
+    /// </summary>
+    public int Version { get; set; } = 1;
+
+    /// <summary>
+    /// Projects that inherit this secret.
+    /// </summary>
+    public ICollection<ProjectSharedSecret> ProjectLinks { get; set; } = [];
+}
@@ -21,6 +21,17 @@ public class SystemSettings
     /// </summary>
     public bool AllowUserRegistration { get; set; } = true;
 
+    /// <summary>
+    /// Whether the build queue is paused. Queued builds wait until it is resumed;
+    /// running builds are not affected.
+    /// </summary>
+    public bool IsBuildQueuePaused { get; set; }
+
+    /// <summary>
+    /// When the build queue was paused.
+    /// </summary>
+    public DateTime? BuildQueuePausedAt { get; set; }
+
     /// <summary>
     /// Last time any setting was updated.
     /// </summary>
@@ -509,6 +509,7 @@ builder.Services.AddSingleton<IUrlService, UrlService>();
 
 // Project Management
 builder.Services.AddScoped<IProjectService, ProjectService>();
+builder.Services.AddScoped<ISharedSecretService, SharedSecretService>();
 
 // Cleanup Jobs
 builder.Services.AddScoped<CleanupArtifactsJob>();
@@ -0,0 +1,228 @@
+// =============================================================================
+// ArtifactArchive.cs
+//
+// Summary: Lists and reads the contents of archive artifacts.
+//
+// Supports zip-based packages (zip, nupkg, snupkg, jar) and tarballs (tar,
+// tar.gz, tgz) so the artifact browser can show what an archive contains and
+// preview single files from it without downloading the whole artifact.
+//
+// Design Decisions:
+// - Listing stops after a fixed number of entries; the caller is told the
+//   list was truncated
+// - Entry content is only read up to a size limit, so a large file inside an
+//   archive cannot exhaust memory
+// - Entry paths are normalized to forward slashes without a leading "./"
+// =============================================================================
+
+using System.Formats.Tar;
+using System.IO.Compression;
+
+namespace Ando.Server.Services;
+
+/// <summary>
+/// Archive formats the artifact browser can look into.
+/// </summary>
+public enum ArtifactArchiveFormat
+{
+    Zip,
+    Tar,
+    TarGz
+}
+
+public static class ArtifactArchive
+{
+    public const int MaxListedEntries = 1000;
+
+    public sealed record Entry(string Path, long SizeBytes, bool IsDirectory);
+
+    /// <summary>
+    /// Content of one archive entry. Content is null when the entry is larger
+    /// than the requested limit.
+    /// </summary>
+    public sealed record EntryContent(byte[]? Content, long SizeBytes);
+
+    public static ArtifactArchiveFormat? GetFormat(string fileName)
+    {
+        var name = fileName.ToLowerInvariant();
+
+        if (name.EndsWith(".zip") || name.EndsWith(".nupkg") || name.EndsWith(".snupkg") || name.EndsWith(".jar"))
+        {
+            return ArtifactArchiveFormat.Zip;
+        }
+
+        if (name.EndsWith(".tar.gz") || name.EndsWith(".tgz"))
+        {
+            return ArtifactArchiveFormat.TarGz;
+        }
+
+        return name.EndsWith(".tar") ? ArtifactArchiveFormat.Tar : null;
+    }
+
+    public static (IReadOnlyList<Entry> Entries, bool IsTruncated) ListEntries(
+        Stream archive,
+        ArtifactArchiveFormat format,
+        int maxEntries = MaxListedEntries)
+    {
+        var entries = new List<Entry>();
+
+        if (format == ArtifactArchiveFormat.Zip)
+        {
+            using var zip = new ZipArchive(archive, ZipArchiveMode.Read, leaveOpen: true);
+            foreach (var entry in zip.Entries)
+            {
+                if (entries.Count == maxEntries)
+                {
+                    return (entries, true);
+                }
+
+                var isDirectory = entry.FullName.EndsWith('/');
+                entries.Add(new Entry(NormalizePath(entry.FullName), isDirectory ? 0 : entry.Length, isDirectory));
+            }
+
+            return (entries, false);
+        }
+
+        using var tar = OpenTar(archive, format);
+        while (tar.GetNextEntry() is { } tarEntry)
+        {
+            if (entries.Count == maxEntries)
+            {
+                return (entries, true);
+            }
+
+            var isDirectory = tarEntry.EntryType == TarEntryType.Directory;
+            if (!isDirectory && !IsFile(tarEntry.EntryType))
+            {
+                continue;
+            }
+
+            entries.Add(new Entry(NormalizePath(tarEntry.Name), isDirectory ? 0 : tarEntry.Length, isDirectory));
+        }
+
+        return (entries, false);
+    }
+
+    /// <summary>
+    /// Reads one file from the archive. Returns null when there is no such file.
+    /// </summary>
+    public static EntryContent? ReadEntry(
+        Stream archive,
+        ArtifactArchiveFormat format,
+        string entryPath,
+        long maxBytes)
+    {
+        var path = NormalizePath(entryPath);
+
+        if (format == ArtifactArchiveFormat.Zip)
+        {
+            using var zip = new ZipArchive(archive, ZipArchiveMode.Read, leaveOpen: true);
+            var entry = zip.Entries.FirstOrDefault(e => !e.FullName.EndsWith('/') && NormalizePath(e.FullName) == path);
+            if (entry == null)
+            {
+                return null;
+            }
+
+            if (entry.Length > maxBytes)
+            {
+                return new EntryContent(null, entry.Length);
+            }
+
+            using var entryStream = entry.Open();
+            return new EntryContent(ReadAll(entryStream), entry.Length);
+        }
+
+        using var tar = OpenTar(archive, format);
+        while (tar.GetNextEntry() is { } tarEntry)
+        {
+            if (!IsFile(tarEntry.EntryType) || NormalizePath(tarEntry.Name) != path)
+            {
+                continue;
+            }
+
+            if (tarEntry.Length > maxBytes || tarEntry.DataStream == null)
+            {
+                return new EntryContent(null, tarEntry.Length);
+            }
+
+            return new EntryContent(ReadAll(tarEntry.DataStream), tarEntry.Length);
+        }
+
+        return null;
+    }
+
+    /// <summary>
+    /// Visits every file in the archive in a single pass. Read returns the
+    /// entry's content and is only valid until the next entry is visited, so
+    /// callers check the size first and read only what they need.
+    /// </summary>
+    public static IEnumerable<(Entry Entry, Func<byte[]> Read)> EnumerateFiles(
+        Stream archive,
+        ArtifactArchiveFormat format)
+    {
+        if (format == ArtifactArchiveFormat.Zip)
+        {
+            using var zip = new ZipArchive(archive, ZipArchiveMode.Read, leaveOpen: true);
+            foreach (var entry in zip.Entries.Where(e => !e.FullName.EndsWith('/')))
+            {
+                yield return (new Entry(NormalizePath(entry.FullName), entry.Length, false), () =>
+                {
+                    using var entryStream = entry.Open();
+                    return ReadAll(entryStream);
+                });
+            }
+
+            yield break;
+        }
+
+        using var tar = OpenTar(archive, format);
+        while (tar.GetNextEntry() is { } tarEntry)
+        {
+            if (!IsFile(tarEntry.EntryType) || tarEntry.DataStream is not { } dataStream)
+            {
+                continue;
+            }
+
+            yield return (new Entry(NormalizePath(tarEntry.Name), tarEntry.Length, false), () => ReadAll(dataStream));
+        }
+    }
+
+    /// <summary>
+    /// Name of the format as shown to users and sent to the client.
+    /// </summary>
+    public static string ToDisplayName(this ArtifactArchiveFormat format) => format switch
+    {
+        ArtifactArchiveFormat.Zip => "zip",
+        ArtifactArchiveFormat.Tar => "tar",
+        _ => "tar.gz"
+    };
+
+    private static TarReader OpenTar(Stream archive, ArtifactArchiveFormat format)
+    {
+        var stream = format == ArtifactArchiveFormat.TarGz
+            ? new GZipStream(archive, CompressionMode.Decompress, leaveOpen: true)
+            : archive;
+
+        return new TarReader(stream, leaveOpen: format != ArtifactArchiveFormat.TarGz);
+    }
+
+    private static bool IsFile(TarEntryType type) =>
+        type is TarEntryType.RegularFile or TarEntryType.V7RegularFile or TarEntryType.ContiguousFile;
+
+    private static string NormalizePath(string path)
+    {
+        var normalized = path.Replace('\\', '/');
+        while (normalized.StartsWith("./"))
+        {
+            normalized = normalized[2..];
+        }
+        return normalized.TrimStart('/');
+    }
+
+    private static byte[] ReadAll(Stream stream)
+    {
+        using var buffer = new MemoryStream();
+        stream.CopyTo(buffer);
+        return buffer.ToArray();
+    }
+}
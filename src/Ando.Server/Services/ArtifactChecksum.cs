@@ -0,0 +1,26 @@
+// =============================================================================
+// ArtifactChecksum.cs
+//
+// Summary: Computes SHA-256 checksums of artifact files.
+//
+// Checksums are stored with the artifact when it is collected so users can
+// verify downloads. Artifacts collected before checksums existed get theirs
+// computed the first time they are opened in the artifact browser.
+// =============================================================================
+
+using System.Security.Cryptography;
+
+namespace Ando.Server.Services;
+
+public static class ArtifactChecksum
+{
+    /// <summary>
+    /// Lowercase hex SHA-256 of the file.
+    /// </summary>
+    public static async Task<string> ComputeSha256Async(string path, CancellationToken ct = default)
+    {
+        await using var stream = File.OpenRead(path);
+        var hash = await SHA256.HashDataAsync(stream, ct);
+        return Convert.ToHexStringLower(hash);
+    }
+}
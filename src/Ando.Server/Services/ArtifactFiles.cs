@@ -0,0 +1,143 @@
+// =============================================================================
+// ArtifactFiles.cs
+//
+// Summary: Reads report files out of a build's artifacts.
+//
+// Test and coverage reports are uploaded either as plain artifacts or packed
+// in zip/tar artifacts. This finds the files whose names match, in both
+// places, and returns their contents for parsing.
+//
+// Design Decisions:
+// - Artifacts that are missing on disk or resolve outside the artifacts root
+//   are skipped
+// - Files larger than the caller's limit and unreadable archives are skipped
+// - Reading stops at a total byte and file budget, since this runs per request
+//   and during artifact collection
+// - Archive entries are named "artifact/entry" and matched with a separate,
+//   narrower predicate; each archive is read in a single pass
+// =============================================================================
+
+using Ando.Server.Models;
+
+namespace Ando.Server.Services;
+
+public static class ArtifactFiles
+{
+    public sealed record ArtifactFile(string Name, byte[] Content);
+
+    /// <summary>
+    /// How much may be read for one collection.
+    /// </summary>
+    /// <param name="MaxFileBytes">Larger files are skipped.</param>
+    /// <param name="MaxTotalBytes">Files that would exceed this total are skipped.</param>
+    /// <param name="MaxFiles">Reading stops once this many files were read.</param>
+    public sealed record Limits(long MaxFileBytes, long MaxTotalBytes, int MaxFiles);
+
+    public static async Task<IReadOnlyList<ArtifactFile>> ReadMatchingAsync(
+        IEnumerable<BuildArtifact> artifacts,
+        string artifactsRoot,
+        Func<string, bool> isMatch,
+        Func<string, bool> isArchiveEntryMatch,
+        Limits limits,
+        CancellationToken ct)
+    {
+        var budget = new Budget(limits);
+
+        foreach (var artifact in artifacts.OrderBy(a => a.Name, StringComparer.Ordinal))
+        {
+            if (budget.IsExhausted)
+            {
+                break;
+            }
+
+            var path = ArtifactPathResolver.ResolveAbsolutePath(artifactsRoot, artifact.StoragePath);
+            if (string.IsNullOrWhiteSpace(path) ||
+                !ArtifactPathResolver.IsWithinRoot(artifactsRoot, path) ||
+                !File.Exists(path))
+            {
+                continue;
+            }
+
+            if (isMatch(artifact.Name))
+            {
+                if (budget.TryTake(new FileInfo(path).Length))
+                {
+                    budget.Files.Add(new ArtifactFile(artifact.Name, await File.ReadAllBytesAsync(path, ct)));
+                }
+
+                continue;
+            }
+
+            var format = ArtifactArchive.GetFormat(artifact.Name);
+            if (format != null)
+            {
+                ReadFromArchive(artifact.Name, path, format.Value, isArchiveEntryMatch, budget, ct);
+            }
+        }
+
+        return budget.Files;
+    }
+
+    private static void ReadFromArchive(
+        string artifactName,
+        string path,
+        ArtifactArchiveFormat format,
+        Func<string, bool> isMatch,
+        Budget budget,
+        CancellationToken ct)
+    {
+        try
+        {
+            using var stream = File.OpenRead(path);
+            foreach (var (entry, read) in ArtifactArchive.EnumerateFiles(stream, format))
+            {
+                ct.ThrowIfCancellationRequested();
+
+                var name = $"{artifactName}/{entry.Path}";
+                if (!isMatch(name) || !budget.TryTake(entry.SizeBytes))
+                {
+                    continue;
+                }
+
+                budget.Files.Add(new ArtifactFile(name, read()));
+                if (budget.IsExhausted)
+                {
+                    return;
+                }
+            }
+        }
+        catch (Exception ex) when (ex is InvalidDataException or FormatException)
+        {
+            // Not a readable archive; it cannot contain reports we can use.
+        }
+    }
+
+    private sealed class Budget
+    {
+        private readonly Limits _limits;
+        private long _bytes;
+
+        public Budget(Limits limits)
+        {
+            _limits = limits;
+        }
+
+        public List<ArtifactFile> Files { get; } = [];
+
+        public bool IsExhausted => Files.Count >= _limits.MaxFiles || _bytes >= _limits.MaxTotalBytes;
+
+        /// <summary>
+        /// Reserves room for a file, or returns false when it does not fit.
+        /// </summary>
+        public bool TryTake(long sizeBytes)
+        {
+            if (sizeBytes > _limits.MaxFileBytes || _bytes + sizeBytes > _limits.MaxTotalBytes)
+            {
+                return false;
+            }
+
+            _bytes += sizeBytes;
+            return true;
+        }
+    }
+}
@@ -0,0 +1,66 @@
+// =============================================================================
+// ArtifactPreview.cs
+//
+// Summary: Decides which artifact files can be previewed in the browser.
+//
+// Maps file extensions to the content type the preview endpoint serves them
+// with. Anything not listed here is download-only.
+//
+// Design Decisions:
+// - Source-like files (js, css, scripts) are served as text/plain so the
+//   browser shows rather than runs them
+// - HTML and SVG are previewable but served in a sandbox (see
+//   PreviewArtifactEndpoint)
+// - Previews are capped at MaxPreviewBytes
+// =============================================================================
+
+namespace Ando.Server.Services;
+
+public static class ArtifactPreview
+{
+    public const long MaxPreviewBytes = 5 * 1024 * 1024;
+
+    private const string PlainText = "text/plain; charset=utf-8";
+
+    private static readonly Dictionary<string, string> ContentTypes = new(StringComparer.OrdinalIgnoreCase)
+    {
+        [".txt"] = PlainText,
+        [".log"] = PlainText,
+        [".md"] = PlainText,
+        [".csv"] = PlainText,
+        [".yml"] = PlainText,
+        [".yaml"] = PlainText,
+        [".xml"] = PlainText,
+        [".trx"] = PlainText,
+        [".nuspec"] = PlainText,
+        [".props"] = PlainText,
+        [".targets"] = PlainText,
+        [".csproj"] = PlainText,
+        [".cs"] = PlainText,
+        [".ts"] = PlainText,
+        [".js"] = PlainText,
+        [".css"] = PlainText,
+        [".sh"] = PlainText,
+        [".ps1"] = PlainText,
+        [".ini"] = PlainText,
+        [".json"] = "application/json; charset=utf-8",
+        [".html"] = "text/html; charset=utf-8",
+        [".htm"] = "text/html; charset=utf-8",
+        [".svg"] = "image/svg+xml",
+        [".png"] = "image/png",
+        [".jpg"] = "image/jpeg",
+        [".jpeg"] = "image/jpeg",
+        [".gif"] = "image/gif",
+        [".webp"] = "image/webp",
+        [".ico"] = "image/x-icon"
+    };
+
+    /// <summary>
+    /// Content type to preview the file with, or null when it is download-only.
+    /// </summary>
+    public static string? GetContentType(string fileName)
+    {
+        var extension = Path.GetExtension(fileName);
+        return ContentTypes.GetValueOrDefault(extension);
+    }
+}
@@ -0,0 +1,58 @@
+// =============================================================================
+// BranchOverview.cs
+//
+// Summary: Builds the per-branch health list for the project branches tab.
+//
+// Takes one summary per built branch (latest build, build count, latest
+// version tag) and orders them and flags abandoned branches, leaving the
+// database and GitHub calls to the endpoint.
+//
+// Design Decisions:
+// - The default branch is listed first and is never abandoned
+// - Other branches are ordered by their latest build, newest first
+// - A branch is abandoned when its latest build is older than the window
+// =============================================================================
+
+using Ando.Server.Contracts.Projects;
+using Ando.Server.Models;
+
+namespace Ando.Server.Services;
+
+public static class BranchOverview
+{
+    public const int DefaultAbandonedAfterDays = 30;
+
+    public sealed record BranchSummary(
+        string Name,
+        int TotalBuilds,
+        Build LatestBuild,
+        string? LatestVersionTag);
+
+    public static IReadOnlyList<ProjectBranchDto> Arrange(
+        IEnumerable<BranchSummary> branches,
+        string defaultBranch,
+        int abandonedAfterDays,
+        DateTime nowUtc)
+    {
+        var abandonedBefore = nowUtc.AddDays(-abandonedAfterDays);
+
+        return branches
+            .OrderByDescending(b => b.Name == defaultBranch)
+            .ThenByDescending(b => b.LatestBuild.QueuedAt)
+            .ThenBy(b => b.Name, StringComparer.Ordinal)
+            .Select(b =>
+            {
+                var isDefault = b.Name == defaultBranch;
+                return new ProjectBranchDto(
+                    b.Name,
+                    isDefault,
+                    b.TotalBuilds,
+                    b.LatestBuild.ToListItemDto(),
+                    b.LatestVersionTag,
+                    !isDefault && b.LatestBuild.QueuedAt < abandonedBefore,
+                    AheadBy: null,
+                    BehindBy: null);
+            })
+            .ToList();
+    }
+}
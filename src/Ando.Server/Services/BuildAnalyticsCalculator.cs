@@ -0,0 +1,170 @@
+// =============================================================================
+// BuildAnalyticsCalculator.cs
+//
+// Summary: Computes build duration, success and step reliability analytics.
+//
+// Works on small projections of builds and step results so the endpoint can
+// load only the columns it needs and the maths stays unit-testable.
+//
+// Design Decisions:
+// - Durations only count builds that ran to completion (Success/Failed);
+//   cancelled and timed out builds would skew them
+// - Success rate excludes cancelled builds; timeouts count as failures
+// - Percentiles interpolate linearly between the closest ranks
+// - A "flip" is a step whose outcome differs from its previous run
+// =============================================================================
+
+using Ando.Server.Contracts.Projects;
+using Ando.Server.Models;
+
+namespace Ando.Server.Services;
+
+public static class BuildAnalyticsCalculator
+{
+    public sealed record BuildSample(
+        int BuildId,
+        BuildStatus Status,
+        DateTime QueuedAt,
+        DateTime? StartedAt,
+        TimeSpan? Duration);
+
+    public sealed record StepSample(
+        int BuildId,
+        int Sequence,
+        string StepName,
+        bool Failed);
+
+    public static ProjectAnalyticsDto Calculate(
+        IReadOnlyList<BuildSample> builds,
+        IReadOnlyList<StepSample> steps,
+        int days,
+        DateTime nowUtc,
+        int maxSteps = 50)
+    {
+        var from = nowUtc.AddDays(-days);
+
+        return new ProjectAnalyticsDto(
+            days,
+            builds.Count,
+            GetSuccessRate(builds),
+            Percentile(GetDurations(builds), 0.5),
+            Percentile(GetDurations(builds), 0.95),
+            Percentile(GetQueueWaits(builds), 0.5),
+            Percentile(GetQueueWaits(builds), 0.95),
+            GetWeeks(builds, from, nowUtc),
+            RankSteps(builds, steps, maxSteps));
+    }
+
+    public static IReadOnlyList<AnalyticsWeekDto> GetWeeks(IReadOnlyList<BuildSample> builds, DateTime fromUtc, DateTime toUtc)
+    {
+        var byWeek = builds.ToLookup(b => GetWeekStart(b.QueuedAt));
+        var weeks = new List<AnalyticsWeekDto>();
+
+        for (var week = GetWeekStart(fromUtc); week <= GetWeekStart(toUtc); week = week.AddDays(7))
+        {
+            var inWeek = byWeek[week].ToList();
+            weeks.Add(new AnalyticsWeekDto(
+                week,
+                inWeek.Count,
+                inWeek.Count(b => b.Status == BuildStatus.Success),
+                inWeek.Count(b => IsFailure(b.Status)),
+                GetSuccessRate(inWeek),
+                Percentile(GetDurations(inWeek), 0.5),
+                Percentile(GetDurations(inWeek), 0.95),
+                Percentile(GetQueueWaits(inWeek), 0.5),
+                Percentile(GetQueueWaits(inWeek), 0.95)));
+        }
+
+        return weeks;
+    }
+
+    public static IReadOnlyList<StepReliabilityDto> RankSteps(
+        IReadOnlyList<BuildSample> builds,
+        IReadOnlyList<StepSample> steps,
+        int maxSteps)
+    {
+        var queuedAt = builds.ToDictionary(b => b.BuildId, b => b.QueuedAt);
+
+        return steps
+            .Where(s => queuedAt.ContainsKey(s.BuildId))
+            .GroupBy(s => s.StepName)
+            .Select(group =>
+            {
+                var runs = group
+                    .OrderBy(s => queuedAt[s.BuildId])
+                    .ThenBy(s => s.BuildId)
+                    .ThenBy(s => s.Sequence)
+                    .ToList();
+
+                var flips = 0;
+                for (var i = 1; i < runs.Count; i++)
+                {
+                    if (runs[i].Failed != runs[i - 1].Failed)
+                    {
+                        flips++;
+                    }
+                }
+
+                var failures = runs.Count(s => s.Failed);
+                var lastFailure = runs.LastOrDefault(s => s.Failed);
+
+                return new StepReliabilityDto(
+                    group.Key,
+                    runs.Count,
+                    failures,
+                    (double)failures / runs.Count,
+                    flips,
+                    lastFailure != null ? queuedAt[lastFailure.BuildId] : null);
+            })
+            .Where(s => s.Failures > 0)
+            .OrderByDescending(s => s.Failures)
+            .ThenByDescending(s => s.Flips)
+            .ThenBy(s => s.StepName, StringComparer.Ordinal)
+            .Take(maxSteps)
+            .ToList();
+    }
+
+    public static DateOnly GetWeekStart(DateTime value)
+    {
+        var date = DateOnly.FromDateTime(value);
+        var offset = ((int)date.DayOfWeek + 6) % 7;
+        return date.AddDays(-offset);
+    }
+
+    public static double? Percentile(IReadOnlyList<double> values, double percentile)
+    {
+        if (values.Count == 0)
+        {
+            return null;
+        }
+
+        var sorted = values.Order().ToList();
+        var rank = percentile * (sorted.Count - 1);
+        var lower = (int)Math.Floor(rank);
+        var upper = (int)Math.Ceiling(rank);
+
+        return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+    }
+
+    private static bool IsFailure(BuildStatus status) =>
+        status is BuildStatus.Failed or BuildStatus.TimedOut;
+
+    private static double? GetSuccessRate(IReadOnlyList<BuildSample> builds)
+    {
+        var succeeded = builds.Count(b => b.Status == BuildStatus.Success);
+        var finished = succeeded + builds.Count(b => IsFailure(b.Status));
+        return finished > 0 ? (double)succeeded / finished : null;
+    }
+
+    private static List<double> GetDurations(IReadOnlyList<BuildSample> builds) =>
+        builds
+            .Where(b => b.Duration.HasValue && b.Status is BuildStatus.Success or BuildStatus.Failed)
+            .Select(b => b.Duration!.Value.TotalSeconds)
+            .ToList();
+
+    private static List<double> GetQueueWaits(IReadOnlyList<BuildSample> builds) =>
+        builds
+            .Where(b => b.StartedAt.HasValue)
+            .Select(b => Math.Max(0, (b.StartedAt!.Value - b.QueuedAt).TotalSeconds))
+            .ToList();
+}
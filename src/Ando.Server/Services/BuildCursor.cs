@@ -0,0 +1,60 @@
+// =============================================================================
+// BuildCursor.cs
+//
+// Summary: Opaque keyset cursor for paging through build history.
+//
+// Build lists are ordered newest first by (QueuedAt, Id). A cursor records the
+// last build of a page so the next page starts strictly after it, which stays
+// stable while new builds are queued (unlike skip/take offsets).
+// =============================================================================
+
+using System.Globalization;
+using System.Text;
+
+namespace Ando.Server.Services;
+
+public readonly record struct BuildCursor(DateTime QueuedAt, int Id)
+{
+    public string Encode()
+    {
+        var raw = string.Create(CultureInfo.InvariantCulture, $"{QueuedAt.Ticks}:{Id}");
+        return Convert.ToBase64String(Encoding.UTF8.GetBytes(raw))
+            .TrimEnd('=')
+            .Replace('+', '-')
+            .Replace('/', '_');
+    }
+
+    public static bool TryParse(string? value, out BuildCursor cursor)
+    {
+        cursor = default;
+        if (string.IsNullOrWhiteSpace(value))
+        {
+            return false;
+        }
+
+        var base64 = value.Replace('-', '+').Replace('_', '/');
+        base64 = base64.PadRight(base64.Length + (4 - base64.Length % 4) % 4, '=');
+
+        string raw;
+        try
+        {
+            raw = Encoding.UTF8.GetString(Convert.FromBase64String(base64));
+        }
+        catch (FormatException)
+        {
+            return false;
+        }
+
+        var parts = raw.Split(':');
+        if (parts.Length != 2
+            || !long.TryParse(parts[0], NumberStyles.None, CultureInfo.InvariantCulture, out var ticks)
+            || !int.TryParse(parts[1], NumberStyles.None, CultureInfo.InvariantCulture, out var id)
+            || ticks > DateTime.MaxValue.Ticks)
+        {
+            return false;
+        }
+
+        cursor = new BuildCursor(new DateTime(ticks, DateTimeKind.Utc), id);
+        return true;
+    }
+}
@@ -0,0 +1,89 @@
+// =============================================================================
+// BuildEnvironmentOverrides.cs
+//
+// Summary: Validates and (de)serializes one-off build environment overrides.
+//
+// A manual trigger may pass extra environment variables for a single build.
+// They are stored on the build as encrypted JSON (values may be sensitive)
+// and injected into the build container after project secrets, so an
+// override wins over a secret of the same name.
+//
+// Design Decisions:
+// - Names follow the same rule as Env("...") in build scripts
+// - Server-controlled variables (ANDO_HOST_ROOT) cannot be overridden
+// - Limits keep the encrypted column and docker command line small
+// =============================================================================
+
+using System.Text.Json;
+using System.Text.RegularExpressions;
+
+namespace Ando.Server.Services;
+
+public static partial class BuildEnvironmentOverrides
+{
+    public const int MaxCount = 50;
+    public const int MaxValueLength = 4096;
+
+    private static readonly HashSet<string> ReservedNames = new(StringComparer.OrdinalIgnoreCase)
+    {
+        "ANDO_HOST_ROOT"
+    };
+
+    [GeneratedRegex(@"^[A-Za-z_][A-Za-z0-9_]*$")]
+    private static partial Regex NamePattern();
+
+    /// <summary>
+    /// Returns a user-facing error, or null when the overrides are valid.
+    /// </summary>
+    public static string? Validate(IReadOnlyDictionary<string, string>? overrides)
+    {
+        if (overrides == null || overrides.Count == 0)
+        {
+            return null;
+        }
+
+        if (overrides.Count > MaxCount)
+        {
+            return $"At most {MaxCount} environment overrides are allowed.";
+        }
+
+        foreach (var (name, value) in overrides)
+        {
+            if (!NamePattern().IsMatch(name))
+            {
+                return $"Invalid environment variable name '{name}'. Use letters, digits and underscores, not starting with a digit.";
+            }
+
+            if (ReservedNames.Contains(name))
+            {
+                return $"'{name}' is set by the server and cannot be overridden.";
+            }
+
+            // JSON null deserializes to a null value despite the type.
+            if (value is null)
+            {
+                return $"Value for '{name}' is required.";
+            }
+
+            if (value.Length > MaxValueLength)
+            {
+                return $"The value of '{name}' exceeds {MaxValueLength} characters.";
+            }
+        }
+
+        return null;
+    }
+
+    public static string Serialize(IReadOnlyDictionary<string, string> overrides) =>
+        JsonSerializer.Serialize(overrides);
+
+    public static IReadOnlyDictionary<string, string> Deserialize(string? json)
+    {
+        if (string.IsNullOrWhiteSpace(json))
+        {
+            return new Dictionary<string, string>();
+        }
+
+        return JsonSerializer.Deserialize<Dictionary<string, string>>(json) ?? new Dictionary<string, string>();
+    }
+}
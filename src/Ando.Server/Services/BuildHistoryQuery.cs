@@ -0,0 +1,200 @@
+// =============================================================================
+// BuildHistoryQuery.cs
+//
+// Summary: Parses and applies build history filters and keyset paging.
+//
+// Shared by the project build history and the cross-project builds feed so
+// both accept the same query parameters (branch, status, trigger, author,
+// from, to, cursor, limit) and page the same way: newest first by
+// (QueuedAt, Id), fetching one extra row to detect a following page.
+// =============================================================================
+
+using System.Globalization;
+using Ando.Server.Models;
+
+namespace Ando.Server.Services;
+
+public sealed record BuildHistoryQuery(
+    string? Branch,
+    string? Author,
+    BuildStatus? Status,
+    BuildTrigger? Trigger,
+    DateOnly? From,
+    DateOnly? To,
+    BuildCursor? Cursor,
+    int Limit)
+{
+    public const int DefaultPageSize = 25;
+    public const int MaxPageSize = 100;
+
+    /// <summary>
+    /// Reads the filters through <paramref name="getValue"/> (typically the
+    /// request query string). Returns false with a user-facing error when a
+    /// value is present but invalid.
+    /// </summary>
+    public static bool TryParse(Func<string, string?> getValue, out BuildHistoryQuery query, out string? error)
+    {
+        query = new BuildHistoryQuery(null, null, null, null, null, null, null, DefaultPageSize);
+        error = null;
+
+        var statusValue = getValue("status");
+        BuildStatus? status = null;
+        if (!string.IsNullOrWhiteSpace(statusValue))
+        {
+            if (!TryParseName<BuildStatus>(statusValue, out var parsed))
+            {
+                error = $"Unknown build status '{statusValue}'.";
+                return false;
+            }
+            status = parsed;
+        }
+
+        var triggerValue = getValue("trigger");
+        BuildTrigger? trigger = null;
+        if (!string.IsNullOrWhiteSpace(triggerValue))
+        {
+            if (!TryParseName<BuildTrigger>(triggerValue, out var parsed))
+            {
+                error = $"Unknown build trigger '{triggerValue}'.";
+                return false;
+            }
+            trigger = parsed;
+        }
+
+        if (!TryParseDate(getValue("from"), out var from) || !TryParseDate(getValue("to"), out var to))
+        {
+            error = "Dates must use the yyyy-MM-dd format.";
+            return false;
+        }
+
+        var cursorValue = getValue("cursor");
+        BuildCursor? cursor = null;
+        if (!string.IsNullOrWhiteSpace(cursorValue))
+        {
+            if (!BuildCursor.TryParse(cursorValue, out var parsed))
+            {
+                error = "Invalid cursor.";
+                return false;
+            }
+            cursor = parsed;
+        }
+
+        var limit = int.TryParse(getValue("limit"), NumberStyles.None, CultureInfo.InvariantCulture, out var requested)
+            ? Math.Clamp(requested, 1, MaxPageSize)
+            : DefaultPageSize;
+
+        query = new BuildHistoryQuery(
+            Trimmed(getValue("branch")),
+            Trimmed(getValue("author")),
+            status,
+            trigger,
+            from,
+            to,
+            cursor,
+            limit);
+        return true;
+    }
+
+    /// <summary>
+    /// Applies the filters, cursor and ordering. Takes Limit + 1 rows; pass
+    /// the results to <see cref="ToPage"/>.
+    /// </summary>
+    public IQueryable<Build> Apply(IQueryable<Build> builds)
+    {
+        if (Branch != null)
+        {
+            var branch = Branch;
+            builds = builds.Where(b => b.Branch == branch);
+        }
+
+        if (Author != null)
+        {
+            var author = Author;
+            builds = builds.Where(b => b.CommitAuthor != null && b.CommitAuthor.Contains(author));
+        }
+
+        if (Status.HasValue)
+        {
+            var status = Status.Value;
+            builds = builds.Where(b => b.Status == status);
+        }
+
+        if (Trigger.HasValue)
+        {
+            var trigger = Trigger.Value;
+            builds = builds.Where(b => b.Trigger == trigger);
+        }
+
+        if (From.HasValue)
+        {
+            var fromUtc = From.Value.ToDateTime(TimeOnly.MinValue, DateTimeKind.Utc);
+            builds = builds.Where(b => b.QueuedAt >= fromUtc);
+        }
+
+        if (To.HasValue)
+        {
+            // Inclusive end day.
+            var toExclusiveUtc = To.Value.AddDays(1).ToDateTime(TimeOnly.MinValue, DateTimeKind.Utc);
+            builds = builds.Where(b => b.QueuedAt < toExclusiveUtc);
+        }
+
+        if (Cursor.HasValue)
+        {
+            var after = Cursor.Value;
+            builds = builds.Where(b => b.QueuedAt < after.QueuedAt
+                || (b.QueuedAt == after.QueuedAt && b.Id < after.Id));
+        }
+
+        return builds
+            .OrderByDescending(b => b.QueuedAt)
+            .ThenByDescending(b => b.Id)
+            .Take(Limit + 1);
+    }
+
+    /// <summary>
+    /// Trims the extra look-ahead row and returns the cursor for the next page.
+    /// </summary>
+    public (IReadOnlyList<Build> Builds, string? NextCursor) ToPage(IReadOnlyList<Build> fetched)
+    {
+        if (fetched.Count <= Limit)
+        {
+            return (fetched, null);
+        }
+
+        var page = fetched.Take(Limit).ToList();
+        var last = page[^1];
+        return (page, new BuildCursor(last.QueuedAt, last.Id).Encode());
+    }
+
+    private static string? Trimmed(string? value) =>
+        string.IsNullOrWhiteSpace(value) ? null : value.Trim();
+
+    private static bool TryParseName<TEnum>(string value, out TEnum result) where TEnum : struct, Enum
+    {
+        // Enum.TryParse also accepts numbers; only names are part of the API.
+        result = default;
+        var name = value.Trim();
+        return name.Length > 0
+            && !char.IsDigit(name[0])
+            && name[0] != '-'
+            && Enum.TryParse(name, ignoreCase: true, out result)
+            && Enum.IsDefined(result);
+    }
+
+    private static bool TryParseDate(string? value, out DateOnly? date)
+    {
+        date = null;
+        if (string.IsNullOrWhiteSpace(value))
+        {
+            return true;
+        }
+
+        if (!DateOnly.TryParseExact(value.Trim(), "yyyy-MM-dd", CultureInfo.InvariantCulture, DateTimeStyles.None, out var parsed))
+        {
+            return false;
+        }
+
+        date = parsed;
+        return true;
+    }
+}
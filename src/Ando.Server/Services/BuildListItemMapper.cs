@@ -0,0 +1,33 @@
+// =============================================================================
+// BuildListItemMapper.cs
+//
+// Summary: Maps Build entities to the BuildListItemDto list shape.
+//
+// Shared by every endpoint and service that returns BuildListItemDto, so the
+// short SHA and enum formatting stay the same everywhere.
+// =============================================================================
+
+using Ando.Server.Contracts.Projects;
+using Ando.Server.Models;
+
+namespace Ando.Server.Services;
+
+public static class BuildListItemMapper
+{
+    public static BuildListItemDto ToListItemDto(this Build b) => new(
+        b.Id,
+        b.CommitSha,
+        b.CommitSha.Length >= 8 ? b.CommitSha[..8] : b.CommitSha,
+        b.GitVersionTag,
+        b.Branch,
+        b.CommitMessage,
+        b.CommitAuthor,
+        b.Status.ToString(),
+        b.Trigger.ToString(),
+        b.QueuedAt,
+        b.StartedAt,
+        b.FinishedAt,
+        b.Duration,
+        b.PullRequestNumber
+    );
+}
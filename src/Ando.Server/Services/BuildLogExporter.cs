@@ -0,0 +1,364 @@
+// =============================================================================
+// BuildLogExporter.cs
+//
+// Summary: Renders build log entries into downloadable file formats.
+//
+// Supports plain text (ANSI stripped), raw ANSI-preserving .log files, the
+// LogEntryDto JSON array returned by the logs API, and a self-contained HTML
+// page with terminal colors converted to inline styles.
+//
+// Design Decisions:
+// - Text and ANSI exports share the "[timestamp] message" line format used by
+//   the UI's "Copy logs" action
+// - HTML output has no external assets so it can be archived or attached
+// - Only SGR styling is rendered in HTML; other escape sequences are dropped
+// =============================================================================
+
+using System.Net;
+using System.Text;
+using System.Text.Json;
+using System.Text.RegularExpressions;
+using Ando.Server.Contracts.Builds;
+
+namespace Ando.Server.Services;
+
+/// <summary>
+/// Supported build log download formats.
+/// </summary>
+public enum BuildLogFormat
+{
+    /// <summary>Plain text with ANSI escape codes removed.</summary>
+    Text,
+
+    /// <summary>Raw output with ANSI escape codes preserved.</summary>
+    Ansi,
+
+    /// <summary>JSON array of LogEntryDto.</summary>
+    Json,
+
+    /// <summary>Self-contained HTML page.</summary>
+    Html
+}
+
+public static partial class BuildLogExporter
+{
+    private static readonly JsonSerializerOptions JsonOptions = new(JsonSerializerDefaults.Web)
+    {
+        WriteIndented = true
+    };
+
+    // Standard and bright ANSI colors (codes 30-37 / 90-97), matching the log viewer palette.
+    private static readonly string[] BasicColors =
+    [
+        "#1f2937", "#f87171", "#4ade80", "#facc15", "#60a5fa", "#e879f9", "#22d3ee", "#f3f4f6",
+        "#6b7280", "#fca5a5", "#86efac", "#fde047", "#93c5fd", "#f0abfc", "#67e8f9", "#ffffff"
+    ];
+
+    [GeneratedRegex(@"\x1B(?:\[[0-?]*[ -/]*[@-~]|\][^\x07\x1B]*(?:\x07|\x1B\\)|[()][A-Za-z0-9]|[@-Z\\-_])")]
+    private static partial Regex EscapeSequencePattern();
+
+    [GeneratedRegex(@"\x1B\[([0-9;:]*)m")]
+    private static partial Regex SgrPattern();
+
+    /// <summary>
+    /// Parses a format query value ("text", "ansi", "json", "html"). Defaults to text when empty.
+    /// </summary>
+    public static bool TryParseFormat(string? value, out BuildLogFormat format)
+    {
+        if (string.IsNullOrWhiteSpace(value))
+        {
+            format = BuildLogFormat.Text;
+            return true;
+        }
+
+        // Reject numeric values so only the documented names are accepted.
+        return !int.TryParse(value, out _) && Enum.TryParse(value, ignoreCase: true, out format);
+    }
+
+    /// <summary>
+    /// Gets the download file name for a build log export.
+    /// </summary>
+    public static string GetFileName(string projectName, int buildId, BuildLogFormat format)
+    {
+        var safeName = new string(projectName.Select(c => char.IsLetterOrDigit(c) || c is '-' or '_' or '.' ? c : '-').ToArray());
+        var extension = format switch
+        {
+            BuildLogFormat.Ansi => "log",
+            BuildLogFormat.Json => "json",
+            BuildLogFormat.Html => "html",
+            _ => "txt"
+        };
+
+        return $"{safeName}-build-{buildId}.{extension}";
+    }
+
+    /// <summary>
+    /// Gets the response content type for a build log export.
+    /// </summary>
+    public static string GetContentType(BuildLogFormat format) => format switch
+    {
+        BuildLogFormat.Json => "application/json; charset=utf-8",
+        BuildLogFormat.Html => "text/html; charset=utf-8",
+        _ => "text/plain; charset=utf-8"
+    };
+
+    /// <summary>
+    /// Renders log entries in the requested format.
+    /// </summary>
+    public static string Export(IReadOnlyList<LogEntryDto> logs, BuildLogFormat format, string title) => format switch
+    {
+        BuildLogFormat.Ansi => FormatLines(logs, stripAnsi: false),
+        BuildLogFormat.Json => JsonSerializer.Serialize(logs, JsonOptions),
+        BuildLogFormat.Html => FormatHtml(logs, title),
+        _ => FormatLines(logs, stripAnsi: true)
+    };
+
+    /// <summary>
+    /// Removes ANSI escape sequences from a log message.
+    /// </summary>
+    public static string StripAnsi(string message) => EscapeSequencePattern().Replace(message, string.Empty);
+
+    private static string FormatLines(IReadOnlyList<LogEntryDto> logs, bool stripAnsi)
+    {
+        var builder = new StringBuilder();
+
+        foreach (var log in logs)
+        {
+            var message = stripAnsi ? StripAnsi(log.Message) : log.Message;
+            builder.Append('[').Append(FormatTimestamp(log.Timestamp)).Append("] ").Append(message).Append('\n');
+        }
+
+        return builder.ToString();
+    }
+
+    private static string FormatHtml(IReadOnlyList<LogEntryDto> logs, string title)
+    {
+        var encodedTitle = WebUtility.HtmlEncode(title);
+        var builder = new StringBuilder();
+
+        builder.Append($$"""
+            <!DOCTYPE html>
+            <html lang="en">
+            <head>
+            <meta charset="utf-8">
+            <title>{{encodedTitle}}</title>
+            <style>
+            body { margin: 0; background: #111827; color: #f3f4f6; font: 13px/20px ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+            h1 { margin: 0; padding: 12px 16px; font-size: 14px; border-bottom: 1px solid #374151; }
+            .log { padding: 12px 0; }
+            .line { display: flex; white-space: pre-wrap; word-break: break-all; padding: 0 16px; }
+            .line:target { background: rgba(59, 130, 246, 0.2); }
+            .ln { flex: none; width: 6ch; text-align: right; margin-right: 12px; color: #6b7280; text-decoration: none; user-select: none; }
+            .ts { flex: none; margin-right: 12px; color: #6b7280; }
+            .Error, .StepFailed { color: #f87171; }
+            .Warning { color: #facc15; }
+            .StepStarted { color: #60a5fa; }
+            .StepCompleted { color: #4ade80; }
+            </style>
+            </head>
+            <body>
+            <h1>{{encodedTitle}}</h1>
+            <div class="log">
+
+            """);
+
+        foreach (var log in logs)
+        {
+            builder.Append($"<div class=\"line {log.Type}\" id=\"L{log.Sequence}\">")
+                .Append($"<a class=\"ln\" href=\"#L{log.Sequence}\">{log.Sequence}</a>")
+                .Append($"<span class=\"ts\">{ToUtc(log.Timestamp):HH:mm:ss}</span>")
+                .Append("<span>").Append(AnsiToHtml(log.Message)).Append("</span>")
+                .Append("</div>\n");
+        }
+
+        builder.Append("</div>\n</body>\n</html>\n");
+        return builder.ToString();
+    }
+
+    /// <summary>
+    /// Converts a log message to HTML, turning SGR styling into inline-styled spans.
+    /// Carriage-return progress output keeps only its final frame.
+    /// </summary>
+    public static string AnsiToHtml(string message)
+    {
+        var lines = message.Split('\n').Select(CollapseCarriageReturns);
+        var builder = new StringBuilder();
+        var style = new SgrStyle();
+
+        foreach (var line in lines.Select((text, index) => (text, index)))
+        {
+            if (line.index > 0)
+            {
+                builder.Append('\n');
+            }
+
+            var position = 0;
+            foreach (Match match in SgrPattern().Matches(line.text))
+            {
+                AppendStyled(builder, line.text[position..match.Index], style);
+                style = style.Apply(match.Groups[1].Value);
+                position = match.Index + match.Length;
+            }
+
+            AppendStyled(builder, line.text[position..], style);
+        }
+
+        return builder.ToString();
+    }
+
+    private static string CollapseCarriageReturns(string line)
+    {
+        var trimmed = line.TrimEnd('\r');
+        var index = trimmed.LastIndexOf('\r');
+        return index < 0 ? trimmed : trimmed[(index + 1)..];
+    }
+
+    private static void AppendStyled(StringBuilder builder, string segment, SgrStyle style)
+    {
+        // Drop any non-SGR escape sequences (cursor movement, OSC titles, etc.).
+        var text = StripAnsi(segment);
+        if (text.Length == 0)
+        {
+            return;
+        }
+
+        var css = style.ToCss();
+        if (css.Length == 0)
+        {
+            builder.Append(WebUtility.HtmlEncode(text));
+            return;
+        }
+
+        builder.Append("<span style=\"").Append(css).Append("\">")
+            .Append(WebUtility.HtmlEncode(text))
+            .Append("</span>");
+    }
+
+    private static string FormatTimestamp(DateTime timestamp) =>
+        ToUtc(timestamp).ToString("yyyy-MM-ddTHH:mm:ss.fffZ");
+
+    // Timestamps loaded from the database come back unspecified but are stored as UTC.
+    private static DateTime ToUtc(DateTime timestamp) =>
+        timestamp.Kind == DateTimeKind.Unspecified
+            ? DateTime.SpecifyKind(timestamp, DateTimeKind.Utc)
+            : timestamp.ToUniversalTime();
+
+    private static string? PaletteColor(int index)
+    {
+        if (index < 16)
+        {
+            return BasicColors[index];
+        }
+
+        if (index < 232)
+        {
+            var value = index - 16;
+            int Level(int component) => component == 0 ? 0 : 55 + component * 40;
+            return $"rgb({Level(value / 36)},{Level(value / 6 % 6)},{Level(value % 6)})";
+        }
+
+        if (index < 256)
+        {
+            var gray = 8 + (index - 232) * 10;
+            return $"rgb({gray},{gray},{gray})";
+        }
+
+        return null;
+    }
+
+    private sealed record SgrStyle(
+        bool Bold = false,
+        bool Dim = false,
+        bool Italic = false,
+        bool Underline = false,
+        bool Strikethrough = false,
+        bool Inverse = false,
+        string? Foreground = null,
+        string? Background = null)
+    {
+        public SgrStyle Apply(string parameters)
+        {
+            var codes = parameters.Split(';', ':')
+                .Select(p => int.TryParse(p, out var value) ? value : 0)
+                .ToArray();
+            if (codes.Length == 0)
+            {
+                return new SgrStyle();
+            }
+
+            var style = this;
+            for (var i = 0; i < codes.Length; i++)
+            {
+                var code = codes[i];
+                switch (code)
+                {
+                    case 0: style = new SgrStyle(); break;
+                    case 1: style = style with { Bold = true }; break;
+                    case 2: style = style with { Dim = true }; break;
+                    case 3: style = style with { Italic = true }; break;
+                    case 4: style = style with { Underline = true }; break;
+                    case 7: style = style with { Inverse = true }; break;
+                    case 9: style = style with { Strikethrough = true }; break;
+                    case 22: style = style with { Bold = false, Dim = false }; break;
+                    case 23: style = style with { Italic = false }; break;
+                    case 24: style = style with { Underline = false }; break;
+                    case 27: style = style with { Inverse = false }; break;
+                    case 29: style = style with { Strikethrough = false }; break;
+                    case 39: style = style with { Foreground = null }; break;
+                    case 49: style = style with { Background = null }; break;
+                    case >= 30 and <= 37: style = style with { Foreground = BasicColors[code - 30] }; break;
+                    case >= 90 and <= 97: style = style with { Foreground = BasicColors[code - 90 + 8] }; break;
+                    case >= 40 and <= 47: style = style with { Background = BasicColors[code - 40] }; break;
+                    case >= 100 and <= 107: style = style with { Background = BasicColors[code - 100 + 8] }; break;
+                    case 38 or 48:
+                        var color = ReadExtendedColor(codes, ref i);
+                        style = code == 38 ? style with { Foreground = color } : style with { Background = color };
+                        break;
+                }
+            }
+
+            return style;
+        }
+
+        public string ToCss()
+        {
+            var foreground = Inverse ? Background ?? "#111827" : Foreground;
+            var background = Inverse ? Foreground ?? "#f3f4f6" : Background;
+            var css = new StringBuilder();
+
+            if (foreground != null) css.Append("color:").Append(foreground).Append(';');
+            if (background != null) css.Append("background:").Append(background).Append(';');
+            if (Bold) css.Append("font-weight:bold;");
+            if (Dim) css.Append("opacity:0.6;");
+            if (Italic) css.Append("font-style:italic;");
+            if (Underline || Strikethrough)
+            {
+                css.Append("text-decoration:")
+                    .Append(string.Join(' ', new[] { Underline ? "underline" : null, Strikethrough ? "line-through" : null }.OfType<string>()))
+                    .Append(';');
+            }
+
+            return css.ToString();
+        }
+
+        private static string? ReadExtendedColor(int[] codes, ref int i)
+        {
+            if (i + 2 < codes.Length && codes[i + 1] == 5)
+            {
+                var index = codes[i + 2];
+                i += 2;
+                return PaletteColor(index);
+            }
+
+            if (i + 4 < codes.Length && codes[i + 1] == 2)
+            {
+                var (r, g, b) = (codes[i + 2], codes[i + 3], codes[i + 4]);
+                i += 4;
+                return $"rgb({Math.Clamp(r, 0, 255)},{Math.Clamp(g, 0, 255)},{Math.Clamp(b, 0, 255)})";
+            }
+
+            i = codes.Length;
+            return null;
+        }
+    }
+}
@@ -0,0 +1,61 @@
+// =============================================================================
+// BuildQueue.cs
+//
+// Summary: Ordering rules for the shared build queue.
+//
+// Builds are started by Hangfire workers in the order their jobs were
+// enqueued. Admins can raise a build's QueuePriority; a worker that picks up a
+// build while a higher-priority build is still waiting defers it, so the
+// higher-priority build gets the next free worker.
+//
+// Design Decisions:
+// - Higher priority starts first; equal priorities keep queue (FIFO) order
+// - Only builds with a Hangfire job can outrank others, so an orphaned build
+//   never blocks the queue
+// - Reordering assigns descending priorities to the listed builds, which puts
+//   them ahead of builds queued afterwards at the default priority
+// =============================================================================
+
+using Ando.Server.Models;
+
+namespace Ando.Server.Services;
+
+public static class BuildQueue
+{
+    /// <summary>
+    /// Orders queued builds the way they will start.
+    /// </summary>
+    public static IReadOnlyList<Build> Order(IEnumerable<Build> queuedBuilds)
+    {
+        return queuedBuilds
+            .OrderByDescending(b => b.QueuePriority)
+            .ThenBy(b => b.QueuedAt)
+            .ThenBy(b => b.Id)
+            .ToList();
+    }
+
+    /// <summary>
+    /// Whether a queued build has to wait for a higher-priority build to start first.
+    /// </summary>
+    public static bool IsOutranked(Build build, IEnumerable<Build> queuedBuilds)
+    {
+        return queuedBuilds.Any(b =>
+            b.Id != build.Id &&
+            b.Status == BuildStatus.Queued &&
+            !string.IsNullOrEmpty(b.HangfireJobId) &&
+            b.QueuePriority > build.QueuePriority);
+    }
+
+    /// <summary>
+    /// Priorities that make the listed builds start in the given order.
+    /// </summary>
+    public static IReadOnlyDictionary<int, int> PrioritiesFor(IReadOnlyList<int> orderedBuildIds)
+    {
+        var priorities = new Dictionary<int, int>();
+        for (var i = 0; i < orderedBuildIds.Count; i++)
+        {
+            priorities.TryAdd(orderedBuildIds[i], orderedBuildIds.Count - i);
+        }
+        return priorities;
+    }
+}
@@ -10,6 +10,10 @@
 // - Builds are queued immediately, executed by Hangfire workers
 // - Uses CancellationTokenRegistry for build cancellation
 // - Retry creates a new build with the same parameters
+// - Projects can opt in to cancelling superseded builds: a new build cancels
+//   queued or running builds of the same branch (or the same pull request)
+// - Lifecycle events go to the owner; admins watching the build queue get a
+//   BuildQueueChanged nudge instead
 // =============================================================================
 
 using Ando.Server.BuildExecution;
@@ -57,7 +61,8 @@ public class BuildService : IBuildService
         string? commitMessage = null,
         string? commitAuthor = null,
         int? pullRequestNumber = null,
-        string? profile = null)
+        string? profile = null,
+        string? encryptedEnvironmentOverrides = null)
     {
         // Snapshot the profile at queue time so builds are reproducible even if the project changes later.
         var project = await _db.Projects.FindAsync(projectId);
@@ -73,6 +78,7 @@ public class BuildService : IBuildService
             CommitAuthor = commitAuthor,
             PullRequestNumber = pullRequestNumber,
             Profile = profile ?? project?.Profile,
+            EncryptedEnvironmentOverrides = encryptedEnvironmentOverrides,
             Status = BuildStatus.Queued,
             QueuedAt = DateTime.UtcNow
         };
@@ -103,9 +109,47 @@ public class BuildService : IBuildService
         await PublishBuildQueuedAsync(build, project?.OwnerId);
         await PublishBuildStatusChangedAsync(build, project?.OwnerId);
 
+        if (project?.CancelSupersededBuilds == true)
+        {
+            await CancelSupersededBuildsAsync(build);
+        }
+
         return build.Id;
     }
 
+    /// <summary>
+    /// Cancels older queued or running builds in the same concurrency group as
+    /// the new build: the same pull request, or the same branch for non-PR builds.
+    /// </summary>
+    private async Task CancelSupersededBuildsAsync(Build newBuild)
+    {
+        var query = _db.Builds.Where(b =>
+            b.ProjectId == newBuild.ProjectId &&
+            b.Id < newBuild.Id &&
+            (b.Status == BuildStatus.Queued || b.Status == BuildStatus.Running));
+
+        query = newBuild.PullRequestNumber.HasValue
+            ? query.Where(b => b.PullRequestNumber == newBuild.PullRequestNumber)
+            : query.Where(b => b.PullRequestNumber == null && b.Branch == newBuild.Branch);
+
+        var supersededIds = await query.Select(b => b.Id).ToListAsync();
+
+        foreach (var buildId in supersededIds)
+        {
+            var cancelled = await CancelBuildCoreAsync(
+                buildId,
+                $"Superseded by build #{newBuild.Id}",
+                supersededByBuildId: newBuild.Id);
+
+            if (cancelled)
+            {
+                _logger.LogInformation(
+                    "Cancelled build {BuildId}: superseded by build {NewBuildId}",
+                    buildId, newBuild.Id);
+            }
+        }
+    }
+
     /// <inheritdoc />
     public async Task<Build?> GetBuildAsync(int buildId)
     {
@@ -137,7 +181,12 @@ public class BuildService : IBuildService
     }
 
     /// <inheritdoc />
-    public async Task<bool> CancelBuildAsync(int buildId)
+    public Task<bool> CancelBuildAsync(int buildId, string? reason = null)
+    {
+        return CancelBuildCoreAsync(buildId, reason, supersededByBuildId: null);
+    }
+
+    private async Task<bool> CancelBuildCoreAsync(int buildId, string? reason, int? supersededByBuildId)
     {
         var build = await _db.Builds.FindAsync(buildId);
         if (build == null || !build.CanCancel)
@@ -145,6 +194,11 @@ public class BuildService : IBuildService
             return false;
         }
 
+        // Record why before signalling a running build; its worker finalizes the status.
+        build.CancellationReason = reason?.Length > 500 ? reason[..500] : reason;
+        build.SupersededByBuildId = supersededByBuildId;
+        await _db.SaveChangesAsync();
+
         // Try to cancel via registry (for running builds with active workers)
         if (_cancellationRegistry.TryCancel(buildId))
         {
@@ -163,6 +217,7 @@ public class BuildService : IBuildService
         if (build.Status == BuildStatus.Queued || build.Status == BuildStatus.Running)
         {
             build.Status = BuildStatus.Cancelled;
+            build.ErrorMessage = build.CancellationReason ?? "Build was cancelled";
             build.FinishedAt = DateTime.UtcNow;
             if (build.StartedAt.HasValue)
             {
@@ -203,7 +258,8 @@ public class BuildService : IBuildService
             originalBuild.CommitMessage,
             originalBuild.CommitAuthor,
             originalBuild.PullRequestNumber,
-            originalBuild.Profile);
+            originalBuild.Profile,
+            originalBuild.EncryptedEnvironmentOverrides);
     }
 
     /// <inheritdoc />
@@ -284,6 +340,9 @@ public class BuildService : IBuildService
 
     private async Task PublishBuildStatusChangedAsync(Build build, int? ownerId)
     {
+        // Every status change moves a build into, within or out of the queue.
+        await PublishBuildQueueChangedAsync(build);
+
         try
         {
             var payload = new
@@ -314,4 +373,18 @@ public class BuildService : IBuildService
             _logger.LogDebug(ex, "Failed publishing BuildStatusChanged event for build {BuildId}", build.Id);
         }
     }
+
+    private async Task PublishBuildQueueChangedAsync(Build build)
+    {
+        try
+        {
+            await _hubContext.Clients
+                .Group(BuildLogHub.GetAdminQueueGroupName())
+                .SendAsync("BuildQueueChanged", new { });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogDebug(ex, "Failed publishing BuildQueueChanged event for build {BuildId}", build.Id);
+        }
+    }
 }
@@ -0,0 +1,106 @@
+// =============================================================================
+// Coverage.cs
+//
+// Summary: Collects code coverage from a build's artifacts and compares it
+// with a baseline build.
+//
+// Reads Cobertura and lcov reports uploaded directly as artifacts or packed
+// inside zip/tar artifacts. The overall rates are stored on the build when
+// artifacts are collected (for the project trend); per-file figures are read
+// from the artifacts on request.
+//
+// Design Decisions:
+// - A file reported by several reports (e.g. unit and integration test runs)
+//   uses the report that covers the most lines; line data is not merged
+//   across reports
+// - Rates are fractions in 0..1 and null when there is nothing to measure
+// - Reports larger than MaxReportBytes and unreadable files are skipped, and
+//   reading stops at MaxTotalBytes or MaxReports per build (see ArtifactFiles)
+// =============================================================================
+
+using System.Xml;
+using Ando.Server.Models;
+
+namespace Ando.Server.Services;
+
+public static class Coverage
+{
+    public const long MaxReportBytes = 50 * 1024 * 1024;
+    public const long MaxTotalBytes = 100 * 1024 * 1024;
+    public const int MaxReports = 20;
+
+    /// <summary>
+    /// Coverage read from one build.
+    /// </summary>
+    /// <param name="Reports">Names of the reports that were read (archive entries as "artifact/entry").</param>
+    /// <param name="Files">Per-file coverage, ordered by path.</param>
+    public sealed record Collection(IReadOnlyList<string> Reports, IReadOnlyList<FileCoverage> Files)
+    {
+        public int LinesCovered => Files.Sum(f => f.LinesCovered);
+        public int LinesValid => Files.Sum(f => f.LinesValid);
+        public int BranchesCovered => Files.Sum(f => f.BranchesCovered);
+        public int BranchesValid => Files.Sum(f => f.BranchesValid);
+
+        public double? LineRate => LinesValid == 0 ? null : (double)LinesCovered / LinesValid;
+        public double? BranchRate => BranchesValid == 0 ? null : (double)BranchesCovered / BranchesValid;
+    }
+
+    /// <summary>
+    /// Reads all coverage reports found in the given artifacts.
+    /// </summary>
+    public static async Task<Collection> CollectAsync(
+        IEnumerable<BuildArtifact> artifacts,
+        string artifactsRoot,
+        CancellationToken ct)
+    {
+        var reportFiles = await ArtifactFiles.ReadMatchingAsync(
+            artifacts,
+            artifactsRoot,
+            CoverageReportParser.IsCandidate,
+            CoverageReportParser.IsArchiveEntryCandidate,
+            new ArtifactFiles.Limits(MaxReportBytes, MaxTotalBytes, MaxReports),
+            ct);
+
+        var reports = new List<string>();
+        var files = new Dictionary<string, FileCoverage>(StringComparer.Ordinal);
+        foreach (var reportFile in reportFiles)
+        {
+            var parsed = TryParse(reportFile);
+            if (parsed == null)
+            {
+                continue;
+            }
+
+            reports.Add(reportFile.Name);
+            foreach (var file in parsed)
+            {
+                if (!files.TryGetValue(file.Path, out var existing) || file.LinesCovered > existing.LinesCovered)
+                {
+                    files[file.Path] = file;
+                }
+            }
+        }
+
+        return new Collection(
+            reports,
+            files.Values.OrderBy(f => f.Path, StringComparer.Ordinal).ToList());
+    }
+
+    /// <summary>
+    /// Change in rate from the baseline, or null when either side has nothing to measure.
+    /// </summary>
+    public static double? Delta(double? current, double? baseline) =>
+        current.HasValue && baseline.HasValue ? current.Value - baseline.Value : null;
+
+    private static IReadOnlyList<FileCoverage>? TryParse(ArtifactFiles.ArtifactFile file)
+    {
+        try
+        {
+            return CoverageReportParser.Parse(file.Content, file.Name);
+        }
+        catch (XmlException)
+        {
+            return null;
+        }
+    }
+}
@@ -0,0 +1,243 @@
+// =============================================================================
+// CoverageReportParser.cs
+//
+// Summary: Parses Cobertura XML and lcov coverage reports.
+//
+// Build scripts publish coverage as artifacts (coverlet/ReportGenerator
+// Cobertura, c8/istanbul lcov). This turns either format into per-file line
+// and branch counts for the build's coverage tab and the project trend.
+//
+// Design Decisions:
+// - Cobertura is detected from the root element, lcov from the file name or
+//   its leading record; other files return null
+// - Counts are recomputed from line records rather than trusting report
+//   totals, so classes split over several <class> elements (partial and nested
+//   classes) are counted once per line
+// - DTDs are rejected to avoid entity expansion in uploaded reports
+// - Inside archives an .xml entry is only tried when its name mentions
+//   coverage, so packages and published output are not parsed wholesale
+// =============================================================================
+
+using System.Globalization;
+using System.Text;
+using System.Text.RegularExpressions;
+using System.Xml;
+using System.Xml.Linq;
+
+namespace Ando.Server.Services;
+
+/// <summary>
+/// Line and branch counts for one source file.
+/// </summary>
+public sealed record FileCoverage(
+    string Path,
+    int LinesCovered,
+    int LinesValid,
+    int BranchesCovered,
+    int BranchesValid)
+{
+    public double? LineRate => LinesValid == 0 ? null : (double)LinesCovered / LinesValid;
+
+    public double? BranchRate => BranchesValid == 0 ? null : (double)BranchesCovered / BranchesValid;
+}
+
+public static partial class CoverageReportParser
+{
+    /// <summary>
+    /// Whether a file could be a coverage report worth parsing.
+    /// </summary>
+    public static bool IsCandidate(string fileName) =>
+        fileName.EndsWith(".xml", StringComparison.OrdinalIgnoreCase) ||
+        IsLcovName(fileName);
+
+    /// <summary>
+    /// Whether a file inside an archive artifact could be a coverage report,
+    /// given its name as "artifact/entry".
+    /// </summary>
+    public static bool IsArchiveEntryCandidate(string name) =>
+        IsLcovName(name) ||
+        (name.EndsWith(".xml", StringComparison.OrdinalIgnoreCase) &&
+         (name.Contains("coverage", StringComparison.OrdinalIgnoreCase) ||
+          name.Contains("cobertura", StringComparison.OrdinalIgnoreCase)));
+
+    /// <summary>
+    /// Parses a Cobertura or lcov report. Returns null when the file is neither.
+    /// </summary>
+    /// <exception cref="XmlException">An .xml file is not well-formed XML.</exception>
+    public static IReadOnlyList<FileCoverage>? Parse(byte[] content, string fileName)
+    {
+        if (IsLcovName(fileName) || LooksLikeLcov(content))
+        {
+            return ParseLcov(Encoding.UTF8.GetString(content));
+        }
+
+        using var stream = new MemoryStream(content);
+        using var reader = XmlReader.Create(stream, new XmlReaderSettings
+        {
+            DtdProcessing = DtdProcessing.Prohibit,
+            XmlResolver = null
+        });
+        var root = XDocument.Load(reader).Root;
+
+        return root?.Name.LocalName == "coverage" && root.Element("packages") != null
+            ? ParseCobertura(root)
+            : null;
+    }
+
+    private static List<FileCoverage> ParseCobertura(XElement root)
+    {
+        var files = new Dictionary<string, Dictionary<int, LineHits>>(StringComparer.Ordinal);
+
+        foreach (var cls in root.Descendants("class"))
+        {
+            var fileName = (string?)cls.Attribute("filename");
+            if (string.IsNullOrWhiteSpace(fileName))
+            {
+                continue;
+            }
+
+            var lines = GetOrAdd(files, NormalizePath(fileName));
+
+            // Method lines repeat the class lines, so only the class-level list is read.
+            foreach (var line in cls.Elements("lines").Elements("line"))
+            {
+                if (!int.TryParse((string?)line.Attribute("number"), out var number))
+                {
+                    continue;
+                }
+
+                var hits = long.TryParse((string?)line.Attribute("hits"), out var h) ? h : 0;
+                var (branchesCovered, branchesValid) = (string?)line.Attribute("branch") == "true"
+                    ? ParseConditionCoverage((string?)line.Attribute("condition-coverage"))
+                    : (0, 0);
+
+                Merge(lines, number, new LineHits(hits > 0, branchesCovered, branchesValid));
+            }
+        }
+
+        return ToFileCoverage(files);
+    }
+
+    private static List<FileCoverage> ParseLcov(string report)
+    {
+        var files = new Dictionary<string, Dictionary<int, LineHits>>(StringComparer.Ordinal);
+        Dictionary<int, LineHits>? lines = null;
+
+        foreach (var rawLine in report.Split('\n'))
+        {
+            var line = rawLine.TrimEnd('\r');
+
+            if (line.StartsWith("SF:", StringComparison.Ordinal))
+            {
+                lines = GetOrAdd(files, NormalizePath(line[3..]));
+            }
+            else if (line == "end_of_record")
+            {
+                lines = null;
+            }
+            else if (lines != null && line.StartsWith("DA:", StringComparison.Ordinal))
+            {
+                var parts = line[3..].Split(',');
+                if (parts.Length >= 2 && int.TryParse(parts[0], out var number))
+                {
+                    var hits = long.TryParse(parts[1], out var h) ? h : 0;
+                    Merge(lines, number, new LineHits(hits > 0, 0, 0));
+                }
+            }
+            else if (lines != null && line.StartsWith("BRDA:", StringComparison.Ordinal))
+            {
+                // BRDA:<line>,<block>,<branch>,<taken> where taken is "-" when never evaluated.
+                var parts = line[5..].Split(',');
+                if (parts.Length >= 4 && int.TryParse(parts[0], out var number))
+                {
+                    var taken = parts[3] != "-" && long.TryParse(parts[3], out var t) && t > 0;
+                    var existing = lines.GetValueOrDefault(number);
+                    lines[number] = existing with
+                    {
+                        BranchesCovered = existing.BranchesCovered + (taken ? 1 : 0),
+                        BranchesValid = existing.BranchesValid + 1
+                    };
+                }
+            }
+        }
+
+        return ToFileCoverage(files);
+    }
+
+    private static Dictionary<int, LineHits> GetOrAdd(
+        Dictionary<string, Dictionary<int, LineHits>> files,
+        string path)
+    {
+        if (!files.TryGetValue(path, out var lines))
+        {
+            lines = [];
+            files[path] = lines;
+        }
+        return lines;
+    }
+
+    // Combines records for the same line: covered if any record hit it, and the
+    // most detailed branch information.
+    private static void Merge(Dictionary<int, LineHits> lines, int number, LineHits hits)
+    {
+        if (!lines.TryGetValue(number, out var existing))
+        {
+            lines[number] = hits;
+            return;
+        }
+
+        var branches = hits.BranchesValid > existing.BranchesValid ||
+                       (hits.BranchesValid == existing.BranchesValid && hits.BranchesCovered > existing.BranchesCovered)
+            ? hits
+            : existing;
+
+        lines[number] = new LineHits(
+            existing.IsCovered || hits.IsCovered,
+            branches.BranchesCovered,
+            branches.BranchesValid);
+    }
+
+    private static List<FileCoverage> ToFileCoverage(Dictionary<string, Dictionary<int, LineHits>> files)
+    {
+        return files
+            .Select(f => new FileCoverage(
+                f.Key,
+                f.Value.Values.Count(l => l.IsCovered),
+                f.Value.Count,
+                f.Value.Values.Sum(l => l.BranchesCovered),
+                f.Value.Values.Sum(l => l.BranchesValid)))
+            .OrderBy(f => f.Path, StringComparer.Ordinal)
+            .ToList();
+    }
+
+    private static (int Covered, int Valid) ParseConditionCoverage(string? value)
+    {
+        // e.g. "50% (1/2)"
+        var match = value == null ? null : ConditionCoverageRegex().Match(value);
+        if (match is not { Success: true })
+        {
+            return (0, 0);
+        }
+
+        return (
+            int.Parse(match.Groups[1].Value, CultureInfo.InvariantCulture),
+            int.Parse(match.Groups[2].Value, CultureInfo.InvariantCulture));
+    }
+
+    private static bool IsLcovName(string fileName) =>
+        fileName.EndsWith(".info", StringComparison.OrdinalIgnoreCase) ||
+        fileName.EndsWith(".lcov", StringComparison.OrdinalIgnoreCase);
+
+    private static bool LooksLikeLcov(byte[] content)
+    {
+        var start = Encoding.UTF8.GetString(content, 0, Math.Min(content.Length, 16)).TrimStart('\uFEFF');
+        return start.StartsWith("TN:", StringComparison.Ordinal) || start.StartsWith("SF:", StringComparison.Ordinal);
+    }
+
+    private static string NormalizePath(string path) => path.Trim().Replace('\\', '/');
+
+    [GeneratedRegex(@"\((\d+)/(\d+)\)", RegexOptions.Compiled)]
+    private static partial Regex ConditionCoverageRegex();
+
+    private readonly record struct LineHits(bool IsCovered, int BranchesCovered, int BranchesValid);
+}
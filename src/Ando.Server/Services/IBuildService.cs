@@ -27,6 +27,8 @@ public interface IBuildService
     /// <param name="commitMessage">Optional commit message.</param>
     /// <param name="commitAuthor">Optional commit author.</param>
     /// <param name="pullRequestNumber">Optional PR number if this is a PR build.</param>
+    /// <param name="profile">Optional profile; defaults to the project's selected profile.</param>
+    /// <param name="encryptedEnvironmentOverrides">Optional encrypted one-off environment variables.</param>
     /// <returns>The new build ID.</returns>
     Task<int> QueueBuildAsync(
         int projectId,
@@ -36,7 +38,8 @@ public interface IBuildService
         string? commitMessage = null,
         string? commitAuthor = null,
         int? pullRequestNumber = null,
-        string? profile = null);
+        string? profile = null,
+        string? encryptedEnvironmentOverrides = null);
 
     /// <summary>
     /// Gets a build by ID with related project data.
@@ -56,8 +59,10 @@ public interface IBuildService
     /// <summary>
     /// Cancels a running build.
     /// </summary>
+    /// <param name="buildId">The build to cancel.</param>
+    /// <param name="reason">Why the build was cancelled, shown on the build.</param>
     /// <returns>True if the build was cancelled.</returns>
-    Task<bool> CancelBuildAsync(int buildId);
+    Task<bool> CancelBuildAsync(int buildId, string? reason = null);
 
     /// <summary>
     /// Retries a failed or cancelled build.
@@ -54,7 +54,8 @@ public interface IProjectService
         string? dockerImage,
         string? profile,
         bool notifyOnFailure,
-        string? notificationEmail);
+        string? notificationEmail,
+        bool cancelSupersededBuilds = false);
 
     /// <summary>
     /// Deletes a project and all associated data.
@@ -62,19 +63,72 @@ public interface IProjectService
     Task<bool> DeleteProjectAsync(int projectId);
 
     /// <summary>
-    /// Sets or updates a secret for a project.
+    /// Sets or updates a secret for a project and records the change in the
+    /// secret audit trail.
     /// </summary>
-    Task SetSecretAsync(int projectId, string name, string value);
+    /// <param name="actorId">User making the change, if any.</param>
+    /// <param name="scope">Normalized scope of the value (see SecretScopes).</param>
+    /// <returns>False when the secret already had this value (nothing changed).</returns>
+    Task<bool> SetSecretAsync(
+        int projectId,
+        string name,
+        string value,
+        int? actorId = null,
+        string scope = SecretScopes.All);
+
+    /// <summary>
+    /// Deletes the value of a secret for one scope.
+    /// </summary>
+    Task<bool> DeleteSecretAsync(int projectId, string name, int? actorId = null, string scope = SecretScopes.All);
+
+    /// <summary>
+    /// Sets or clears the date by which a secret value should be rotated.
+    /// </summary>
+    /// <returns>False when the secret does not exist.</returns>
+    Task<bool> SetSecretRotationAsync(
+        int projectId,
+        string name,
+        DateTime? rotateBy,
+        int? actorId = null,
+        string scope = SecretScopes.All);
+
+    /// <summary>
+    /// Gets the names of the secrets whose unscoped value already equals the
+    /// given value. Nothing is stored.
+    /// </summary>
+    /// <param name="values">Candidate values by secret name.</param>
+    Task<IReadOnlyList<string>> GetUnchangedSecretNamesAsync(int projectId, IReadOnlyDictionary<string, string> values);
+
+    /// <summary>
+    /// Gets the names (not values) of the secrets a build with the given
+    /// profile and branch receives.
+    /// </summary>
+    Task<IReadOnlyList<string>> GetSecretNamesAsync(int projectId, string? profile = null, string? branch = null);
+
+    /// <summary>
+    /// Gets a project's secrets (all scopes) ordered by name and scope.
+    /// Callers must not expose values.
+    /// </summary>
+    Task<IReadOnlyList<ProjectSecret>> GetSecretsAsync(int projectId);
+
+    /// <summary>
+    /// Gets the secret audit trail for a project, most recent first.
+    /// </summary>
+    /// <param name="secretName">Only events for this secret, when set.</param>
+    Task<IReadOnlyList<ProjectSecretEvent>> GetSecretEventsAsync(int projectId, string? secretName = null, int limit = 200);
 
     /// <summary>
-    /// Deletes a secret from a project.
+    /// Gets the event that set each secret's current value, for secrets that
+    /// have one (secrets created before the audit trail existed do not).
     /// </summary>
-    Task<bool> DeleteSecretAsync(int projectId, string name);
+    Task<IReadOnlyList<ProjectSecretEvent>> GetCurrentSecretValueEventsAsync(int projectId);
 
     /// <summary>
-    /// Gets secret names (not values) for a project.
+    /// Records a build as the first user of any secret value it is the first
+    /// to run with.
     /// </summary>
-    Task<IReadOnlyList<string>> GetSecretNamesAsync(int projectId);
+    /// <param name="secrets">Secret values passed to the build.</param>
+    Task RecordSecretUseAsync(int projectId, int buildId, IEnumerable<ProjectSecret> secrets);
 
     /// <summary>
     /// Updates the required secrets list for a project by detecting them from the build script.
@@ -0,0 +1,61 @@
+// =============================================================================
+// ISharedSecretService.cs
+//
+// Summary: Interface for secrets shared across a user's projects.
+//
+// Provides methods for managing a user's shared secrets and linking them to
+// projects, which then inherit the value unless they set their own.
+// =============================================================================
+
+using Ando.Server.Models;
+
+namespace Ando.Server.Services;
+
+/// <summary>
+/// Service for managing shared secrets.
+/// </summary>
+public interface ISharedSecretService
+{
+    /// <summary>
+    /// Gets a user's shared secrets with the projects linked to each.
+    /// </summary>
+    Task<IReadOnlyList<SharedSecret>> GetSharedSecretsAsync(int ownerId);
+
+    /// <summary>
+    /// Gets a shared secret with its linked projects, verifying ownership.
+    /// </summary>
+    Task<SharedSecret?> GetSharedSecretAsync(int sharedSecretId, int ownerId);
+
+    /// <summary>
+    /// Creates or updates a shared secret. Returns false when the secret
+    /// already has this value.
+    /// </summary>
+    Task<bool> SetSharedSecretAsync(int ownerId, string name, string value);
+
+    /// <summary>
+    /// Deletes a shared secret and unlinks it from every project.
+    /// </summary>
+    Task<bool> DeleteSharedSecretAsync(int sharedSecretId, int ownerId);
+
+    /// <summary>
+    /// Links a shared secret to a project. Only shared secrets of the
+    /// project's owner can be linked.
+    /// </summary>
+    Task<bool> LinkAsync(int projectId, int sharedSecretId);
+
+    /// <summary>
+    /// Unlinks a shared secret from a project.
+    /// </summary>
+    Task<bool> UnlinkAsync(int projectId, int sharedSecretId);
+
+    /// <summary>
+    /// Gets the shared secrets linked to a project, ordered by name.
+    /// </summary>
+    Task<IReadOnlyList<SharedSecret>> GetLinkedSecretsAsync(int projectId);
+
+    /// <summary>
+    /// Gets the project secrets that override the given shared secrets in
+    /// their linked projects. Shared secrets must include their links.
+    /// </summary>
+    Task<IReadOnlyList<ProjectSecret>> GetOverridesAsync(IReadOnlyCollection<SharedSecret> sharedSecrets);
+}
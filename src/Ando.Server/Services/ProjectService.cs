@@ -8,10 +8,13 @@
 //
 // Design Decisions:
 // - Secrets are encrypted using IEncryptionService
+// - Secret changes are recorded as ProjectSecretEvents; setting the value a
+//   secret already has is not a change
 // - Deletion cascades to builds and secrets via EF configuration
 // - Branch filter stored as comma-separated string
 // =============================================================================
 
+using System.Security.Cryptography;
 using Ando.Server.Data;
 using Ando.Server.Models;
 using Microsoft.EntityFrameworkCore;
@@ -125,7 +128,8 @@ public class ProjectService : IProjectService
         string? dockerImage,
         string? profile,
         bool notifyOnFailure,
-        string? notificationEmail)
+        string? notificationEmail,
+        bool cancelSupersededBuilds = false)
     {
         var project = await _db.Projects.FindAsync(projectId);
         if (project == null)
@@ -135,6 +139,7 @@ public class ProjectService : IProjectService
 
         project.BranchFilter = branchFilter;
         project.EnablePrBuilds = enablePrBuilds;
+        project.CancelSupersededBuilds = cancelSupersededBuilds;
         project.TimeoutMinutes = Math.Max(1, Math.Min(60, timeoutMinutes));
         project.DockerImage = string.IsNullOrWhiteSpace(dockerImage) ? null : dockerImage.Trim();
         project.Profile = string.IsNullOrWhiteSpace(profile) ? null : profile.Trim();
@@ -167,12 +172,18 @@ public class ProjectService : IProjectService
     }
 
     /// <inheritdoc />
-    public async Task SetSecretAsync(int projectId, string name, string value)
+    public async Task<bool> SetSecretAsync(
+        int projectId,
+        string name,
+        string value,
+        int? actorId = null,
+        string scope = SecretScopes.All)
     {
         var secret = await _db.ProjectSecrets
-            .FirstOrDefaultAsync(s => s.ProjectId == projectId && s.Name == name);
+            .FirstOrDefaultAsync(s => s.ProjectId == projectId && s.Name == name && s.Scope == scope);
 
-        var encryptedValue = _encryption.Encrypt(value);
+        var now = DateTime.UtcNow;
+        SecretEventType eventType;
 
         if (secret == null)
         {
@@ -180,27 +191,49 @@ public class ProjectService : IProjectService
             {
                 ProjectId = projectId,
                 Name = name,
-                EncryptedValue = encryptedValue,
-                CreatedAt = DateTime.UtcNow
+                Scope = scope,
+                EncryptedValue = _encryption.Encrypt(value),
+                CreatedAt = now
             };
             _db.ProjectSecrets.Add(secret);
+            eventType = SecretEventType.Created;
         }
         else
         {
-            secret.EncryptedValue = encryptedValue;
-            secret.UpdatedAt = DateTime.UtcNow;
+            if (HasValue(secret, value))
+            {
+                return false;
+            }
+
+            secret.EncryptedValue = _encryption.Encrypt(value);
+            secret.UpdatedAt = now;
+            secret.Version++;
+            // The new value satisfies any pending rotation.
+            secret.RotateBy = null;
+            eventType = SecretEventType.Updated;
         }
 
+        _db.ProjectSecretEvents.Add(await CreateSecretEventAsync(
+            projectId, name, scope, eventType, secret.Version, actorId, now));
+
         await _db.SaveChangesAsync();
 
-        _logger.LogInformation("Set secret {Name} for project {ProjectId}", name, projectId);
+        _logger.LogInformation(
+            "Set secret {Name} (scope '{Scope}', version {Version}) for project {ProjectId}",
+            name, scope, secret.Version, projectId);
+
+        return true;
     }
 
     /// <inheritdoc />
-    public async Task<bool> DeleteSecretAsync(int projectId, string name)
+    public async Task<bool> DeleteSecretAsync(
+        int projectId,
+        string name,
+        int? actorId = null,
+        string scope = SecretScopes.All)
     {
         var secret = await _db.ProjectSecrets
-            .FirstOrDefaultAsync(s => s.ProjectId == projectId && s.Name == name);
+            .FirstOrDefaultAsync(s => s.ProjectId == projectId && s.Name == name && s.Scope == scope);
 
         if (secret == null)
         {
@@ -208,21 +241,182 @@ public class ProjectService : IProjectService
         }
 
         _db.ProjectSecrets.Remove(secret);
+        _db.ProjectSecretEvents.Add(await CreateSecretEventAsync(
+            projectId, name, scope, SecretEventType.Deleted, secret.Version, actorId, DateTime.UtcNow));
         await _db.SaveChangesAsync();
 
-        _logger.LogInformation("Deleted secret {Name} from project {ProjectId}", name, projectId);
+        _logger.LogInformation(
+            "Deleted secret {Name} (scope '{Scope}') from project {ProjectId}", name, scope, projectId);
 
         return true;
     }
 
     /// <inheritdoc />
-    public async Task<IReadOnlyList<string>> GetSecretNamesAsync(int projectId)
+    public async Task<bool> SetSecretRotationAsync(
+        int projectId,
+        string name,
+        DateTime? rotateBy,
+        int? actorId = null,
+        string scope = SecretScopes.All)
     {
-        return await _db.ProjectSecrets
+        var secret = await _db.ProjectSecrets
+            .FirstOrDefaultAsync(s => s.ProjectId == projectId && s.Name == name && s.Scope == scope);
+
+        if (secret == null)
+        {
+            return false;
+        }
+
+        if (secret.RotateBy == rotateBy)
+        {
+            return true;
+        }
+
+        secret.RotateBy = rotateBy;
+
+        var secretEvent = await CreateSecretEventAsync(
+            projectId,
+            name,
+            scope,
+            rotateBy.HasValue ? SecretEventType.RotationDeadlineSet : SecretEventType.RotationDeadlineCleared,
+            secret.Version,
+            actorId,
+            DateTime.UtcNow);
+        secretEvent.RotateBy = rotateBy;
+        _db.ProjectSecretEvents.Add(secretEvent);
+
+        await _db.SaveChangesAsync();
+
+        _logger.LogInformation(
+            "Set rotation deadline of secret {Name} in project {ProjectId} to {RotateBy}",
+            name, projectId, rotateBy?.ToString("yyyy-MM-dd") ?? "(none)");
+
+        return true;
+    }
+
+    /// <inheritdoc />
+    public async Task<IReadOnlyList<string>> GetUnchangedSecretNamesAsync(
+        int projectId,
+        IReadOnlyDictionary<string, string> values)
+    {
+        // The database may match names case-insensitively, so look up the same way.
+        var lookup = new Dictionary<string, string>(StringComparer.OrdinalIgnoreCase);
+        foreach (var (name, value) in values)
+        {
+            lookup[name] = value;
+        }
+
+        var names = lookup.Keys.ToList();
+        var secrets = await _db.ProjectSecrets
+            .Where(s => s.ProjectId == projectId && s.Scope == SecretScopes.All && names.Contains(s.Name))
+            .ToListAsync();
+
+        return secrets
+            .Where(s => lookup.TryGetValue(s.Name, out var value) && HasValue(s, value))
+            .Select(s => s.Name)
+            .Order(StringComparer.Ordinal)
+            .ToList();
+    }
+
+    /// <inheritdoc />
+    public async Task<IReadOnlyList<string>> GetSecretNamesAsync(
+        int projectId,
+        string? profile = null,
+        string? branch = null)
+    {
+        var secrets = await _db.ProjectSecrets
             .Where(s => s.ProjectId == projectId)
+            .ToListAsync();
+
+        var sharedSecrets = await _db.ProjectSharedSecrets
+            .Where(l => l.ProjectId == projectId)
+            .Select(l => l.SharedSecret)
+            .ToListAsync();
+
+        var resolved = SecretScopes.Resolve(secrets, profile, branch);
+        return resolved
             .Select(s => s.Name)
-            .OrderBy(n => n)
+            .Concat(SecretScopes.Inherit(sharedSecrets, resolved).Select(s => s.Name))
+            .Order(StringComparer.Ordinal)
+            .ToList();
+    }
+
+    /// <inheritdoc />
+    public async Task<IReadOnlyList<ProjectSecret>> GetSecretsAsync(int projectId)
+    {
+        return await _db.ProjectSecrets
+            .Where(s => s.ProjectId == projectId)
+            .OrderBy(s => s.Name)
+            .ThenBy(s => s.Scope)
+            .ToListAsync();
+    }
+
+    /// <inheritdoc />
+    public async Task<IReadOnlyList<ProjectSecretEvent>> GetSecretEventsAsync(
+        int projectId,
+        string? secretName = null,
+        int limit = 200)
+    {
+        var query = _db.ProjectSecretEvents.Where(e => e.ProjectId == projectId);
+        if (!string.IsNullOrEmpty(secretName))
+        {
+            query = query.Where(e => e.SecretName == secretName);
+        }
+
+        return await query
+            .OrderByDescending(e => e.OccurredAt)
+            .ThenByDescending(e => e.Id)
+            .Take(limit)
+            .ToListAsync();
+    }
+
+    /// <inheritdoc />
+    public async Task<IReadOnlyList<ProjectSecretEvent>> GetCurrentSecretValueEventsAsync(int projectId)
+    {
+        return await _db.ProjectSecretEvents
+            .Where(e => e.ProjectId == projectId &&
+                        (e.Type == SecretEventType.Created || e.Type == SecretEventType.Updated) &&
+                        _db.ProjectSecrets.Any(s => s.ProjectId == projectId &&
+                                                    s.Name == e.SecretName &&
+                                                    s.Scope == e.Scope &&
+                                                    s.Version == e.Version))
+            .ToListAsync();
+    }
+
+    /// <inheritdoc />
+    public async Task RecordSecretUseAsync(int projectId, int buildId, IEnumerable<ProjectSecret> secrets)
+    {
+        var currentVersions = secrets.ToDictionary(s => (s.Name, s.Scope), s => s.Version);
+        if (currentVersions.Count == 0)
+        {
+            return;
+        }
+
+        var names = currentVersions.Keys.Select(k => k.Name).Distinct().ToList();
+        var valueEvents = await _db.ProjectSecretEvents
+            .Where(e => e.ProjectId == projectId &&
+                        names.Contains(e.SecretName) &&
+                        (e.Type == SecretEventType.Created || e.Type == SecretEventType.Updated))
             .ToListAsync();
+
+        // A secret deleted and re-created starts again at version 1, so the
+        // latest event for the current version is the one that set the value.
+        var unused = valueEvents
+            .Where(e => currentVersions.TryGetValue((e.SecretName, e.Scope), out var version) && e.Version == version)
+            .GroupBy(e => (e.SecretName, e.Scope))
+            .Select(g => g.MaxBy(e => e.OccurredAt)!)
+            .Where(e => e.FirstUsedByBuildId == null)
+            .ToList();
+
+        foreach (var secretEvent in unused)
+        {
+            secretEvent.FirstUsedByBuildId = buildId;
+        }
+
+        if (unused.Count > 0)
+        {
+            await _db.SaveChangesAsync();
+        }
     }
 
     /// <inheritdoc />
@@ -341,4 +535,42 @@ public class ProjectService : IProjectService
             return [];
         }
     }
+
+    // A value stored under an older encryption key cannot be compared and is
+    // treated as different.
+    private bool HasValue(ProjectSecret secret, string value)
+    {
+        try
+        {
+            return _encryption.Decrypt(secret.EncryptedValue) == value;
+        }
+        catch (Exception ex) when (ex is CryptographicException or FormatException)
+        {
+            return false;
+        }
+    }
+
+    private async Task<ProjectSecretEvent> CreateSecretEventAsync(
+        int projectId,
+        string name,
+        string scope,
+        SecretEventType type,
+        int version,
+        int? actorId,
+        DateTime occurredAt)
+    {
+        var actor = actorId.HasValue ? await _db.Users.FindAsync(actorId.Value) : null;
+
+        return new ProjectSecretEvent
+        {
+            ProjectId = projectId,
+            SecretName = name,
+            Scope = scope,
+            Type = type,
+            Version = version,
+            ActorId = actorId,
+            ActorName = actor?.DisplayName ?? actor?.Email,
+            OccurredAt = occurredAt
+        };
+    }
 }
@@ -0,0 +1,109 @@
+// =============================================================================
+// PullRequestOverview.cs
+//
+// Summary: Assembles pull requests and their build history for the project
+// pull requests tab.
+//
+// Open pull requests from GitHub are the source of truth when available.
+// Without GitHub, pull requests are reconstructed from PR builds and their
+// title is recovered from the "PR #n: title" commit message the webhook
+// stores.
+//
+// Design Decisions:
+// - A build is superseded when the pull request's head has moved to another
+//   commit; with no known head, when a newer build used a different commit
+// - Retries of the same commit are not superseded by each other
+// - Builds per pull request are capped; TotalBuilds keeps the full count
+// =============================================================================
+
+using Ando.Server.Contracts.Projects;
+using Ando.Server.GitHub;
+using Ando.Server.Models;
+
+namespace Ando.Server.Services;
+
+public static class PullRequestOverview
+{
+    public const int MaxBuildsPerPullRequest = 20;
+
+    /// <summary>
+    /// Builds the list for open pull requests reported by GitHub.
+    /// </summary>
+    public static IReadOnlyList<PullRequestDto> FromGitHub(
+        IReadOnlyList<GitHubPullRequest> pullRequests,
+        IReadOnlyList<Build> builds)
+    {
+        var buildsByNumber = builds.ToLookup(b => b.PullRequestNumber);
+
+        return pullRequests
+            .OrderByDescending(pr => pr.UpdatedAt)
+            .Select(pr => new PullRequestDto(
+                pr.Number,
+                pr.Title,
+                pr.AuthorLogin,
+                pr.HeadSha,
+                pr.HeadRef,
+                pr.BaseRef,
+                pr.HtmlUrl,
+                pr.IsDraft,
+                pr.UpdatedAt,
+                buildsByNumber[pr.Number].Count(),
+                MarkSuperseded(buildsByNumber[pr.Number], pr.HeadSha)))
+            .ToList();
+    }
+
+    /// <summary>
+    /// Builds the list from PR builds alone, for when GitHub is unavailable.
+    /// </summary>
+    public static IReadOnlyList<PullRequestDto> FromBuilds(IReadOnlyList<Build> builds, string repoUrl)
+    {
+        return builds
+            .Where(b => b.PullRequestNumber.HasValue)
+            .GroupBy(b => b.PullRequestNumber!.Value)
+            .Select(g =>
+            {
+                var latest = g.MaxBy(b => b.Id)!;
+                return new PullRequestDto(
+                    g.Key,
+                    ParseTitle(latest.CommitMessage, g.Key),
+                    latest.CommitAuthor,
+                    HeadSha: null,
+                    latest.Branch,
+                    BaseBranch: null,
+                    $"{repoUrl.TrimEnd('/')}/pull/{g.Key}",
+                    IsDraft: false,
+                    UpdatedAt: null,
+                    g.Count(),
+                    MarkSuperseded(g, headSha: null));
+            })
+            .OrderByDescending(pr => pr.Builds[0].Build.Id)
+            .ToList();
+    }
+
+    public static IReadOnlyList<PullRequestBuildDto> MarkSuperseded(IEnumerable<Build> builds, string? headSha)
+    {
+        var newestFirst = builds.OrderByDescending(b => b.Id).ToList();
+        var result = new List<PullRequestBuildDto>();
+        var newerShas = new HashSet<string>(StringComparer.OrdinalIgnoreCase);
+
+        foreach (var build in newestFirst.Take(MaxBuildsPerPullRequest))
+        {
+            var isSuperseded = headSha != null
+                ? !string.Equals(build.CommitSha, headSha, StringComparison.OrdinalIgnoreCase)
+                : newerShas.Any(sha => !newerShas.Comparer.Equals(sha, build.CommitSha));
+
+            newerShas.Add(build.CommitSha);
+            result.Add(new PullRequestBuildDto(build.ToListItemDto(), isSuperseded));
+        }
+
+        return result;
+    }
+
+    public static string? ParseTitle(string? commitMessage, int number)
+    {
+        var prefix = $"PR #{number}: ";
+        return commitMessage != null && commitMessage.StartsWith(prefix, StringComparison.Ordinal)
+            ? commitMessage[prefix.Length..]
+            : null;
+    }
+}
@@ -0,0 +1,177 @@
+// =============================================================================
+// SecretScopes.cs
+//
+// Summary: Limits project secrets to a build profile or a branch pattern.
+//
+// A project can hold several values for one secret name: an unscoped value
+// used by every build, plus values scoped to a profile ("profile:production")
+// or a branch pattern ("branch:release/*"). This works out which value a
+// build gets, so staging and production credentials can live side by side.
+//
+// Design Decisions:
+// - A scope is one string so (project, name, scope) can be unique; the
+//   unscoped value has the empty scope
+// - Resolution order is profile, then branch, then unscoped; among matching
+//   branch patterns an exact branch name wins, then the longest pattern
+// - Profiles and branches compare case-insensitively, like the branch filter
+// - "*" in a branch pattern matches any characters, including "/"
+// - Shared secrets linked to the project come last: any project value that
+//   applies to the build overrides the shared value
+// =============================================================================
+
+using System.Text.RegularExpressions;
+using Ando.Server.Models;
+
+namespace Ando.Server.Services;
+
+public static class SecretScopes
+{
+    /// <summary>
+    /// Scope of the value used when no scoped value matches.
+    /// </summary>
+    public const string All = "";
+
+    public const int MaxLength = 200;
+
+    private const string ProfilePrefix = "profile:";
+    private const string BranchPrefix = "branch:";
+
+    public static string ForProfile(string profile) => ProfilePrefix + profile.Trim();
+
+    public static string ForBranch(string pattern) => BranchPrefix + pattern.Trim();
+
+    /// <summary>
+    /// Normalizes a scope from a request. Returns a user-facing error, or null
+    /// when the scope is valid.
+    /// </summary>
+    public static string? Validate(string? scope, out string normalized)
+    {
+        normalized = All;
+        if (string.IsNullOrWhiteSpace(scope))
+        {
+            return null;
+        }
+
+        var trimmed = scope.Trim();
+        string? value = null;
+        if (trimmed.StartsWith(ProfilePrefix, StringComparison.OrdinalIgnoreCase))
+        {
+            value = trimmed[ProfilePrefix.Length..].Trim();
+            normalized = ForProfile(value);
+        }
+        else if (trimmed.StartsWith(BranchPrefix, StringComparison.OrdinalIgnoreCase))
+        {
+            value = trimmed[BranchPrefix.Length..].Trim();
+            normalized = ForBranch(value);
+        }
+
+        if (value == null)
+        {
+            return $"Invalid secret scope '{trimmed}'. Use profile:<name> or branch:<pattern>.";
+        }
+
+        if (value.Length == 0)
+        {
+            return "A secret scope needs a profile name or branch pattern.";
+        }
+
+        if (normalized.Length > MaxLength)
+        {
+            return $"A secret scope can be at most {MaxLength} characters.";
+        }
+
+        return null;
+    }
+
+    /// <summary>
+    /// Picks the value of each secret that a build with the given profile and
+    /// branch receives. Names without a matching or unscoped value are left out.
+    /// </summary>
+    public static IReadOnlyList<ProjectSecret> Resolve(
+        IEnumerable<ProjectSecret> secrets,
+        string? profile,
+        string? branch)
+    {
+        return secrets
+            .Select(s => (Secret: s, Rank: Rank(s.Scope, profile, branch)))
+            .Where(r => r.Rank >= 0)
+            .GroupBy(r => r.Secret.Name, StringComparer.OrdinalIgnoreCase)
+            .Select(g => g.MaxBy(r => r.Rank).Secret)
+            .OrderBy(s => s.Name, StringComparer.Ordinal)
+            .ToList();
+    }
+
+    /// <summary>
+    /// Picks the value of each secret used for one scope on its own: the value
+    /// for that scope, or the unscoped value.
+    /// </summary>
+    public static IReadOnlyList<ProjectSecret> ResolveFor(IEnumerable<ProjectSecret> secrets, string scope)
+    {
+        return secrets
+            .Where(s => s.Scope == All || string.Equals(s.Scope, scope, StringComparison.OrdinalIgnoreCase))
+            .GroupBy(s => s.Name, StringComparer.OrdinalIgnoreCase)
+            .Select(g => g.MaxBy(s => s.Scope.Length)!)
+            .OrderBy(s => s.Name, StringComparer.Ordinal)
+            .ToList();
+    }
+
+    /// <summary>
+    /// Picks the linked shared secrets a build inherits: those whose name has
+    /// no value among the project secrets resolved for the build.
+    /// </summary>
+    public static IReadOnlyList<SharedSecret> Inherit(
+        IEnumerable<SharedSecret> sharedSecrets,
+        IEnumerable<ProjectSecret> resolvedSecrets)
+    {
+        var overridden = resolvedSecrets.Select(s => s.Name).ToHashSet(StringComparer.OrdinalIgnoreCase);
+        return sharedSecrets
+            .Where(s => !overridden.Contains(s.Name))
+            .OrderBy(s => s.Name, StringComparer.Ordinal)
+            .ToList();
+    }
+
+    /// <summary>
+    /// Whether a branch pattern ("main", "release/*") matches a branch.
+    /// </summary>
+    public static bool MatchesBranch(string pattern, string branch)
+    {
+        if (!pattern.Contains('*'))
+        {
+            return string.Equals(pattern, branch, StringComparison.OrdinalIgnoreCase);
+        }
+
+        var regex = "^" + string.Join(".*", pattern.Split('*').Select(Regex.Escape)) + "$";
+        return Regex.IsMatch(branch, regex, RegexOptions.IgnoreCase | RegexOptions.CultureInvariant);
+    }
+
+    // Higher ranks win; -1 means the scope does not apply to the build.
+    private static int Rank(string scope, string? profile, string? branch)
+    {
+        if (scope == All)
+        {
+            return 0;
+        }
+
+        if (scope.StartsWith(ProfilePrefix, StringComparison.OrdinalIgnoreCase))
+        {
+            return !string.IsNullOrWhiteSpace(profile) &&
+                   string.Equals(scope[ProfilePrefix.Length..], profile, StringComparison.OrdinalIgnoreCase)
+                ? int.MaxValue
+                : -1;
+        }
+
+        if (scope.StartsWith(BranchPrefix, StringComparison.OrdinalIgnoreCase) && !string.IsNullOrEmpty(branch))
+        {
+            var pattern = scope[BranchPrefix.Length..];
+            if (!MatchesBranch(pattern, branch))
+            {
+                return -1;
+            }
+
+            // Exact names beat patterns; longer patterns are more specific.
+            return pattern.Contains('*') ? 1 + pattern.Length : 1 + MaxLength + pattern.Length;
+        }
+
+        return -1;
+    }
+}
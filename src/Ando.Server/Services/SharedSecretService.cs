@@ -0,0 +1,218 @@
+// =============================================================================
+// SharedSecretService.cs
+//
+// Summary: Implementation of shared secret operations.
+//
+// Stores secrets once per user and links them to projects. Builds of a linked
+// project receive the shared value unless the project sets its own value of
+// the same name (see SecretScopes.Inherit).
+//
+// Design Decisions:
+// - Values are encrypted using IEncryptionService, like project secrets
+// - Setting the value a shared secret already has is not a change
+// - Links are removed explicitly on delete; the database does not cascade
+//   them (see AndoDbContext)
+// =============================================================================
+
+using System.Security.Cryptography;
+using Ando.Server.Data;
+using Ando.Server.Models;
+using Microsoft.EntityFrameworkCore;
+
+namespace Ando.Server.Services;
+
+/// <summary>
+/// Implementation of shared secret operations.
+/// </summary>
+public class SharedSecretService : ISharedSecretService
+{
+    private readonly AndoDbContext _db;
+    private readonly IEncryptionService _encryption;
+    private readonly ILogger<SharedSecretService> _logger;
+
+    public SharedSecretService(
+        AndoDbContext db,
+        IEncryptionService encryption,
+        ILogger<SharedSecretService> logger)
+    {
+        _db = db;
+        _encryption = encryption;
+        _logger = logger;
+    }
+
+    /// <inheritdoc />
+    public async Task<IReadOnlyList<SharedSecret>> GetSharedSecretsAsync(int ownerId)
+    {
+        return await _db.SharedSecrets
+            .Include(s => s.ProjectLinks)
+            .ThenInclude(l => l.Project)
+            .Where(s => s.OwnerId == ownerId)
+            .OrderBy(s => s.Name)
+            .ToListAsync();
+    }
+
+    /// <inheritdoc />
+    public async Task<SharedSecret?> GetSharedSecretAsync(int sharedSecretId, int ownerId)
+    {
+        return await _db.SharedSecrets
+            .Include(s => s.ProjectLinks)
+            .ThenInclude(l => l.Project)
+            .FirstOrDefaultAsync(s => s.Id == sharedSecretId && s.OwnerId == ownerId);
+    }
+
+    /// <inheritdoc />
+    public async Task<bool> SetSharedSecretAsync(int ownerId, string name, string value)
+    {
+        var secret = await _db.SharedSecrets
+            .FirstOrDefaultAsync(s => s.OwnerId == ownerId && s.Name == name);
+
+        var now = DateTime.UtcNow;
+
+        if (secret == null)
+        {
+            secret = new SharedSecret
+            {
+                OwnerId = ownerId,
+                Name = name,
+                EncryptedValue = _encryption.Encrypt(value),
+                CreatedAt = now
+            };
+            _db.SharedSecrets.Add(secret);
+        }
+        else
+        {
+            if (HasValue(secret, value))
+            {
+                return false;
+            }
+
+            secret.EncryptedValue = _encryption.Encrypt(value);
+            secret.UpdatedAt = now;
+            secret.Version++;
+        }
+
+        await _db.SaveChangesAsync();
+
+        _logger.LogInformation(
+            "Set shared secret {Name} (version {Version}) for user {OwnerId}", name, secret.Version, ownerId);
+
+        return true;
+    }
+
+    /// <inheritdoc />
+    public async Task<bool> DeleteSharedSecretAsync(int sharedSecretId, int ownerId)
+    {
+        var secret = await _db.SharedSecrets
+            .Include(s => s.ProjectLinks)
+            .FirstOrDefaultAsync(s => s.Id == sharedSecretId && s.OwnerId == ownerId);
+
+        if (secret == null)
+        {
+            return false;
+        }
+
+        _db.ProjectSharedSecrets.RemoveRange(secret.ProjectLinks);
+        _db.SharedSecrets.Remove(secret);
+        await _db.SaveChangesAsync();
+
+        _logger.LogInformation(
+            "Deleted shared secret {Name} of user {OwnerId} ({Count} projects unlinked)",
+            secret.Name, ownerId, secret.ProjectLinks.Count);
+
+        return true;
+    }
+
+    /// <inheritdoc />
+    public async Task<bool> LinkAsync(int projectId, int sharedSecretId)
+    {
+        var project = await _db.Projects.FindAsync(projectId);
+        var secret = await _db.SharedSecrets.FindAsync(sharedSecretId);
+
+        if (project == null || secret == null || secret.OwnerId != project.OwnerId)
+        {
+            return false;
+        }
+
+        var linked = await _db.ProjectSharedSecrets
+            .AnyAsync(l => l.ProjectId == projectId && l.SharedSecretId == sharedSecretId);
+        if (linked)
+        {
+            return true;
+        }
+
+        _db.ProjectSharedSecrets.Add(new ProjectSharedSecret
+        {
+            ProjectId = projectId,
+            SharedSecretId = sharedSecretId,
+            LinkedAt = DateTime.UtcNow
+        });
+        await _db.SaveChangesAsync();
+
+        _logger.LogInformation(
+            "Linked shared secret {Name} to project {ProjectId}", secret.Name, projectId);
+
+        return true;
+    }
+
+    /// <inheritdoc />
+    public async Task<bool> UnlinkAsync(int projectId, int sharedSecretId)
+    {
+        var link = await _db.ProjectSharedSecrets
+            .FirstOrDefaultAsync(l => l.ProjectId == projectId && l.SharedSecretId == sharedSecretId);
+
+        if (link == null)
+        {
+            return false;
+        }
+
+        _db.ProjectSharedSecrets.Remove(link);
+        await _db.SaveChangesAsync();
+
+        _logger.LogInformation(
+            "Unlinked shared secret {SharedSecretId} from project {ProjectId}", sharedSecretId, projectId);
+
+        return true;
+    }
+
+    /// <inheritdoc />
+    public async Task<IReadOnlyList<SharedSecret>> GetLinkedSecretsAsync(int projectId)
+    {
+        return await _db.ProjectSharedSecrets
+            .Where(l => l.ProjectId == projectId)
+            .Select(l => l.SharedSecret)
+            .OrderBy(s => s.Name)
+            .ToListAsync();
+    }
+
+    /// <inheritdoc />
+    public async Task<IReadOnlyList<ProjectSecret>> GetOverridesAsync(IReadOnlyCollection<SharedSecret> sharedSecrets)
+    {
+        var projectIds = sharedSecrets.SelectMany(s => s.ProjectLinks).Select(l => l.ProjectId).Distinct().ToList();
+        var names = sharedSecrets.Select(s => s.Name).ToList();
+
+        if (projectIds.Count == 0)
+        {
+            return [];
+        }
+
+        return await _db.ProjectSecrets
+            .Where(s => projectIds.Contains(s.ProjectId) && names.Contains(s.Name))
+            .OrderBy(s => s.ProjectId)
+            .ThenBy(s => s.Scope)
+            .ToListAsync();
+    }
+
+    // A value stored under an older encryption key cannot be compared and is
+    // treated as different.
+    private bool HasValue(SharedSecret secret, string value)
+    {
+        try
+        {
+            return _encryption.Decrypt(secret.EncryptedValue) == value;
+        }
+        catch (Exception ex) when (ex is CryptographicException or FormatException)
+        {
+            return false;
+        }
+    }
+}
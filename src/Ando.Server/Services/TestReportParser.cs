@@ -0,0 +1,193 @@
+// =============================================================================
+// TestReportParser.cs
+//
+// Summary: Parses TRX and JUnit XML test reports.
+//
+// Build scripts publish test reports as artifacts (dotnet test --logger trx,
+// Playwright/Jest/pytest JUnit reporters). This turns either format into a
+// flat list of test results for the build's tests tab.
+//
+// Design Decisions:
+// - The format is detected from the root element, not the file name, so any
+//   .xml artifact can be tried; documents that are not test reports return null
+// - Inside archives an .xml entry is only tried when its name mentions tests,
+//   so packages and published output are not parsed wholesale
+// - DTDs are rejected to avoid entity expansion in uploaded reports
+// - TRX outcomes other than Passed/Failed (NotExecuted, Inconclusive, ...) count
+//   as skipped; JUnit <error> counts as a failure
+// =============================================================================
+
+using System.Globalization;
+using System.Xml;
+using System.Xml.Linq;
+
+namespace Ando.Server.Services;
+
+public enum TestOutcome
+{
+    Passed,
+    Failed,
+    Skipped
+}
+
+/// <summary>
+/// One test case from a test report.
+/// </summary>
+public sealed record TestCaseResult(
+    string Name,
+    string? ClassName,
+    TestOutcome Outcome,
+    double? DurationMs,
+    string? Message,
+    string? StackTrace)
+{
+    /// <summary>
+    /// Identifies the test across builds.
+    /// </summary>
+    public string Key => ClassName == null ? Name : $"{ClassName}.{Name}";
+}
+
+public static class TestReportParser
+{
+    private static readonly XNamespace TrxNamespace = "http://microsoft.com/schemas/VisualStudio/TeamTest/2010";
+
+    /// <summary>
+    /// Whether a file could be a test report worth parsing.
+    /// </summary>
+    public static bool IsCandidate(string fileName) =>
+        fileName.EndsWith(".trx", StringComparison.OrdinalIgnoreCase) ||
+        fileName.EndsWith(".xml", StringComparison.OrdinalIgnoreCase);
+
+    /// <summary>
+    /// Whether a file inside an archive artifact could be a test report. Packages
+    /// and published output carry many unrelated .xml files, so an .xml entry is
+    /// only tried when its name ("artifact/entry") mentions tests or JUnit.
+    /// </summary>
+    public static bool IsArchiveEntryCandidate(string name) =>
+        name.EndsWith(".trx", StringComparison.OrdinalIgnoreCase) ||
+        (IsCandidate(name) &&
+         (name.Contains("test", StringComparison.OrdinalIgnoreCase) ||
+          name.Contains("junit", StringComparison.OrdinalIgnoreCase)));
+
+    /// <summary>
+    /// Parses a TRX or JUnit report. Returns null when the document is neither.
+    /// </summary>
+    /// <exception cref="XmlException">The document is not well-formed XML.</exception>
+    public static IReadOnlyList<TestCaseResult>? Parse(Stream report)
+    {
+        using var reader = XmlReader.Create(report, new XmlReaderSettings
+        {
+            DtdProcessing = DtdProcessing.Prohibit,
+            XmlResolver = null
+        });
+        var document = XDocument.Load(reader);
+        var root = document.Root;
+
+        if (root == null)
+        {
+            return null;
+        }
+
+        if (root.Name == TrxNamespace + "TestRun")
+        {
+            return ParseTrx(root);
+        }
+
+        return root.Name.LocalName is "testsuites" or "testsuite" ? ParseJUnit(root) : null;
+    }
+
+    private static List<TestCaseResult> ParseTrx(XElement root)
+    {
+        // Class names live on the test definitions, keyed by test id.
+        var classNames = root
+            .Descendants(TrxNamespace + "UnitTest")
+            .Where(t => t.Attribute("id") != null)
+            .GroupBy(t => (string)t.Attribute("id")!)
+            .ToDictionary(
+                g => g.Key,
+                g => (string?)g.First().Element(TrxNamespace + "TestMethod")?.Attribute("className"));
+
+        var results = new List<TestCaseResult>();
+        foreach (var result in root.Descendants(TrxNamespace + "UnitTestResult"))
+        {
+            var testName = (string?)result.Attribute("testName") ?? "(unnamed test)";
+            var testId = (string?)result.Attribute("testId");
+            var className = testId != null ? classNames.GetValueOrDefault(testId) : null;
+            className = StripAssemblyName(className);
+
+            // xUnit reports the fully qualified name as the test name.
+            if (className != null && testName.StartsWith(className + ".", StringComparison.Ordinal))
+            {
+                testName = testName[(className.Length + 1)..];
+            }
+
+            var outcome = (string?)result.Attribute("outcome") switch
+            {
+                "Passed" => TestOutcome.Passed,
+                "Failed" or "Error" or "Timeout" or "Aborted" => TestOutcome.Failed,
+                _ => TestOutcome.Skipped
+            };
+
+            var errorInfo = result.Element(TrxNamespace + "Output")?.Element(TrxNamespace + "ErrorInfo");
+
+            results.Add(new TestCaseResult(
+                testName,
+                className,
+                outcome,
+                ParseTimeSpanMs((string?)result.Attribute("duration")),
+                TrimToNull((string?)errorInfo?.Element(TrxNamespace + "Message")),
+                TrimToNull((string?)errorInfo?.Element(TrxNamespace + "StackTrace"))));
+        }
+
+        return results;
+    }
+
+    private static List<TestCaseResult> ParseJUnit(XElement root)
+    {
+        var results = new List<TestCaseResult>();
+        foreach (var testCase in root.DescendantsAndSelf().Where(e => e.Name.LocalName == "testcase"))
+        {
+            var failure = testCase.Elements().FirstOrDefault(e => e.Name.LocalName is "failure" or "error");
+            var isSkipped = testCase.Elements().Any(e => e.Name.LocalName == "skipped");
+
+            var outcome = failure != null
+                ? TestOutcome.Failed
+                : isSkipped ? TestOutcome.Skipped : TestOutcome.Passed;
+
+            results.Add(new TestCaseResult(
+                (string?)testCase.Attribute("name") ?? "(unnamed test)",
+                TrimToNull((string?)testCase.Attribute("classname")),
+                outcome,
+                ParseSecondsMs((string?)testCase.Attribute("time")),
+                TrimToNull((string?)failure?.Attribute("message")),
+                TrimToNull(failure?.Value)));
+        }
+
+        return results;
+    }
+
+    // TRX class names may be assembly-qualified ("Namespace.Class, Assembly").
+    private static string? StripAssemblyName(string? className)
+    {
+        if (className == null)
+        {
+            return null;
+        }
+
+        var comma = className.IndexOf(',');
+        return comma < 0 ? className : className[..comma].Trim();
+    }
+
+    private static double? ParseTimeSpanMs(string? value) =>
+        TimeSpan.TryParse(value, CultureInfo.InvariantCulture, out var duration)
+            ? duration.TotalMilliseconds
+            : null;
+
+    private static double? ParseSecondsMs(string? value) =>
+        double.TryParse(value, NumberStyles.Float, CultureInfo.InvariantCulture, out var seconds)
+            ? seconds * 1000
+            : null;
+
+    private static string? TrimToNull(string? value) =>
+        string.IsNullOrWhiteSpace(value) ? null : value.Trim();
+}
@@ -0,0 +1,117 @@
+// =============================================================================
+// TestResults.cs
+//
+// Summary: Collects test results from a build's artifacts and compares them
+// with an earlier build.
+//
+// Reads TRX and JUnit reports uploaded directly as artifacts or packed inside
+// zip/tar artifacts (e.g. a TestResults.zip), and works out which failures are
+// new and which tests were fixed since the previous build on the branch.
+//
+// Design Decisions:
+// - Reports are parsed on request rather than stored; artifacts are the source
+//   of truth and expire with them
+// - Reports larger than MaxReportBytes and unreadable files are skipped, and
+//   reading stops at MaxTotalBytes or MaxReports per build (see ArtifactFiles)
+// - A test is a new failure when it fails now but did not fail in the previous
+//   build (including tests that did not exist then); it is fixed when it
+//   failed before and passes now
+// =============================================================================
+
+using System.Xml;
+using Ando.Server.Models;
+
+namespace Ando.Server.Services;
+
+public static class TestResults
+{
+    public const long MaxReportBytes = 20 * 1024 * 1024;
+    public const long MaxTotalBytes = 50 * 1024 * 1024;
+    public const int MaxReports = 50;
+
+    /// <summary>
+    /// Test results read from one build.
+    /// </summary>
+    /// <param name="Reports">Names of the reports that were read (archive entries as "artifact/entry").</param>
+    /// <param name="Tests">All test cases across the reports.</param>
+    public sealed record Collection(IReadOnlyList<string> Reports, IReadOnlyList<TestCaseResult> Tests);
+
+    public sealed record Comparison(IReadOnlySet<string> NewFailures, IReadOnlySet<string> Fixed);
+
+    /// <summary>
+    /// Reads all test reports found in the given artifacts.
+    /// </summary>
+    public static async Task<Collection> CollectAsync(
+        IEnumerable<BuildArtifact> artifacts,
+        string artifactsRoot,
+        CancellationToken ct)
+    {
+        var files = await ArtifactFiles.ReadMatchingAsync(
+            artifacts,
+            artifactsRoot,
+            TestReportParser.IsCandidate,
+            TestReportParser.IsArchiveEntryCandidate,
+            new ArtifactFiles.Limits(MaxReportBytes, MaxTotalBytes, MaxReports),
+            ct);
+
+        var reports = new List<string>();
+        var tests = new List<TestCaseResult>();
+        foreach (var file in files)
+        {
+            if (TryParse(file.Content) is { } parsed)
+            {
+                reports.Add(file.Name);
+                tests.AddRange(parsed);
+            }
+        }
+
+        return new Collection(reports, tests);
+    }
+
+    public static Comparison Compare(IReadOnlyList<TestCaseResult> current, IReadOnlyList<TestCaseResult> previous)
+    {
+        var previousOutcomes = new Dictionary<string, TestOutcome>();
+        foreach (var test in previous)
+        {
+            // A test that ran several times (e.g. per target framework) failed if any run failed.
+            if (!previousOutcomes.TryGetValue(test.Key, out var outcome) || outcome != TestOutcome.Failed)
+            {
+                previousOutcomes[test.Key] = test.Outcome;
+            }
+        }
+
+        var newFailures = new HashSet<string>();
+        var fixedTests = new HashSet<string>();
+        foreach (var test in current)
+        {
+            var hadOutcome = previousOutcomes.TryGetValue(test.Key, out var before);
+
+            if (test.Outcome == TestOutcome.Failed && (!hadOutcome || before != TestOutcome.Failed))
+            {
+                newFailures.Add(test.Key);
+            }
+            else if (test.Outcome == TestOutcome.Passed && hadOutcome && before == TestOutcome.Failed)
+            {
+                fixedTests.Add(test.Key);
+            }
+        }
+
+        // Any failing run of a test keeps it from counting as fixed.
+        fixedTests.ExceptWith(current.Where(t => t.Outcome == TestOutcome.Failed).Select(t => t.Key));
+
+        return new Comparison(newFailures, fixedTests);
+    }
+
+    private static IReadOnlyList<TestCaseResult>? TryParse(byte[] content)
+    {
+        try
+        {
+            using var stream = new MemoryStream(content);
+            return TestReportParser.Parse(stream);
+        }
+        catch (XmlException)
+        {
+            return null;
+        }
+    }
+}
@@ -33,7 +33,7 @@ export class BuildDetailsPage {
     this.artifactItems = this.artifactsSection.getByRole('link', { name: /download/i });
 
     this.logContainer = page.locator('div.bg-gray-900.font-mono').first();
-    this.logEntries = this.logContainer.locator(':scope > div').filter({ hasNotText: /waiting for logs|no logs available/i });
+    this.logEntries = this.logContainer.locator('[data-log-sequence]');
     this.autoScrollToggle = page.locator('label:has-text("Auto-scroll") input[type="checkbox"]');
 
     this.successAlert = page.locator('.bg-success-50, .dark\\:bg-success-500\\/10');
@@ -120,11 +120,10 @@ export class BuildDetailsPage {
   }
 
   async getLogCount(): Promise<number> {
-    const lines = await this.logContainer.locator(':scope > div').allTextContents();
+    const lines = await this.logEntries.allTextContents();
     return lines
       .map((line) => line.trim())
-      .filter((line) => line.length > 0)
-      .filter((line) => !/^(waiting for logs|no logs available)$/i.test(line)).length;
+      .filter((line) => line.length > 0).length;
   }
 
   async expectLogEntry(message: string | RegExp) {
@@ -135,6 +134,18 @@ export class BuildDetailsPage {
     await expect(this.logContainer).toContainText(message, { timeout });
   }
 
+  stepSection(stepName: string): Locator {
+    return this.logContainer.locator(`[data-log-section="${stepName}"]`);
+  }
+
+  async toggleStep(stepName: string) {
+    await this.stepSection(stepName).click();
+  }
+
+  async expectStepExpanded(stepName: string, expanded: boolean) {
+    await expect(this.stepSection(stepName)).toHaveAttribute('aria-expanded', String(expanded));
+  }
+
   async toggleAutoScroll() {
     await this.autoScrollToggle.click();
   }
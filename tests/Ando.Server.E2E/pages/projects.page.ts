@@ -101,7 +101,13 @@ export class ProjectDetailsPage {
   }
 
   async clickTriggerBuild() {
+    await this.openTriggerBuildDialog();
+    await this.page.getByRole('button', { name: /start build/i }).click();
+  }
+
+  async openTriggerBuildDialog() {
     await this.triggerBuildButton.click();
+    await expect(this.page.getByRole('dialog', { name: /trigger build/i })).toBeVisible();
   }
 
   async clickSettings() {
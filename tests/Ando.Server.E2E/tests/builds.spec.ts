@@ -158,12 +158,57 @@ test.describe('Build Logs', () => {
     const buildDetails = new BuildDetailsPage(authedPage);
     await buildDetails.goto(build.buildId);
 
-    await expect.poll(async () => buildDetails.getLogCount()).toBe(4);
-
+    // Successful steps start collapsed behind their section header.
+    await buildDetails.expectStepExpanded('build', false);
+    await expect.poll(async () => buildDetails.getLogCount()).toBe(1);
     await buildDetails.expectLogEntry('Starting build...');
+
+    await buildDetails.toggleStep('build');
+    await buildDetails.expectStepExpanded('build', true);
+    await expect.poll(async () => buildDetails.getLogCount()).toBe(3);
     await buildDetails.expectLogEntry('Compiling source files...');
   });
 
+  test('expands the failed step and collapses successful ones', async ({ authedPage, testApi, testProject }) => {
+    const build = await testApi.createBuild({ projectId: testProject.id, status: 'Failed' });
+
+    await testApi.addLogEntries(build.buildId, [
+      { type: 'StepStarted', message: 'restore', stepName: 'restore' },
+      { type: 'Output', message: 'Restored packages' },
+      { type: 'StepCompleted', message: 'restore completed in 1.0s', stepName: 'restore' },
+      { type: 'StepStarted', message: 'test', stepName: 'test' },
+      { type: 'Output', message: 'Assertion failed in OrderTests' },
+      { type: 'StepFailed', message: 'test failed after 2.0s', stepName: 'test' },
+    ]);
+
+    const buildDetails = new BuildDetailsPage(authedPage);
+    await buildDetails.goto(build.buildId);
+
+    await buildDetails.expectStepExpanded('restore', false);
+    await buildDetails.expectStepExpanded('test', true);
+    await buildDetails.expectLogEntry('Assertion failed in OrderTests');
+    await expect(buildDetails.logContainer).not.toContainText('Restored packages');
+  });
+
+  test('highlights lines linked from the URL hash and updates it on click', async ({ authedPage, testApi, testProject }) => {
+    const build = await testApi.createBuild({ projectId: testProject.id, status: 'Success' });
+
+    await testApi.addLogEntries(build.buildId, [
+      { type: 'Info', message: 'first line' },
+      { type: 'Info', message: 'second line' },
+      { type: 'Info', message: 'third line' },
+    ]);
+
+    await authedPage.goto(`/builds/${build.buildId}#L2`);
+
+    const buildDetails = new BuildDetailsPage(authedPage);
+    await expect(buildDetails.logContainer.locator('#L2')).toHaveClass(/bg-primary-500/);
+    await expect(buildDetails.logContainer.locator('#L1')).not.toHaveClass(/bg-primary-500/);
+
+    await buildDetails.logContainer.getByRole('link', { name: 'Line 3' }).click({ modifiers: ['Shift'] });
+    await expect(authedPage).toHaveURL(/#L2-L3$/);
+  });
+
   test('shows no logs placeholder when build has no logs', async ({ authedPage, testApi, testProject }) => {
     const build = await testApi.createBuild({ projectId: testProject.id, status: 'Success' });
 
@@ -140,6 +140,27 @@ public class MockGitHubService : IGitHubService
         return Task.FromResult(MockBranchHeadSha);
     }
 
+    public List<GitHubBranch> MockBranches { get; set; } = [];
+
+    public Task<IReadOnlyList<GitHubBranch>> GetBranchesAsync(long installationId, string repoFullName)
+    {
+        return Task.FromResult<IReadOnlyList<GitHubBranch>>(MockBranches);
+    }
+
+    public Dictionary<string, GitHubComparison> MockComparisons { get; set; } = [];
+
+    public Task<GitHubComparison?> CompareAsync(long installationId, string repoFullName, string baseRef, string headRef)
+    {
+        return Task.FromResult(MockComparisons.GetValueOrDefault(headRef));
+    }
+
+    public List<GitHubPullRequest>? MockPullRequests { get; set; } = [];
+
+    public Task<IReadOnlyList<GitHubPullRequest>?> GetOpenPullRequestsAsync(long installationId, string repoFullName)
+    {
+        return Task.FromResult<IReadOnlyList<GitHubPullRequest>?>(MockPullRequests);
+    }
+
     public Task<string?> GetFileContentAsync(long installationId, string repoFullName, string filePath, string? branch = null)
     {
         if (MockFileContents.TryGetValue(filePath, out var content))
@@ -198,7 +219,8 @@ public class MockBuildService : IBuildService
         string? commitMessage = null,
         string? commitAuthor = null,
         int? pullRequestNumber = null,
-        string? profile = null)
+        string? profile = null,
+        string? encryptedEnvironmentOverrides = null)
     {
         if (ThrowOnQueueBuild != null)
         {
@@ -215,6 +237,7 @@ public class MockBuildService : IBuildService
             commitAuthor,
             pullRequestNumber,
             profile,
+            encryptedEnvironmentOverrides,
             buildId));
 
         return Task.FromResult(buildId);
@@ -235,7 +258,7 @@ public class MockBuildService : IBuildService
         return Task.FromResult<IReadOnlyList<Build>>(MockBuilds);
     }
 
-    public Task<bool> CancelBuildAsync(int buildId)
+    public Task<bool> CancelBuildAsync(int buildId, string? reason = null)
     {
         CancelBuildCalls.Add(buildId);
         return Task.FromResult(true);
@@ -269,6 +292,7 @@ public record QueueBuildCall(
     string? CommitAuthor,
     int? PullRequestNumber,
     string? Profile,
+    string? EncryptedEnvironmentOverrides,
     int ResultBuildId);
 
 /// <summary>
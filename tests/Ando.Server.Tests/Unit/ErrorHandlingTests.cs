@@ -423,6 +423,7 @@ public class ErrorHandlingTests : IDisposable
 
         var hubClients = new Mock<IHubClients>();
         hubClients.Setup(x => x.Group(It.IsAny<string>())).Returns(clientProxy.Object);
+        hubClients.Setup(x => x.Groups(It.IsAny<IReadOnlyList<string>>())).Returns(clientProxy.Object);
         hubClients.Setup(x => x.All).Returns(clientProxy.Object);
 
         var hubContext = new Mock<IHubContext<BuildLogHub>>();
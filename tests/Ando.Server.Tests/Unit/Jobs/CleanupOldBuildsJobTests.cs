@@ -155,6 +155,24 @@ public class CleanupOldBuildsJobTests : IDisposable
         updated.ErrorMessage.ShouldContain("exceeded maximum queue time");
     }
 
+    [Fact]
+    public async Task ExecuteAsync_WithPausedQueue_DoesNotFailQueuedBuilds()
+    {
+        // Arrange - builds wait on purpose while the queue is paused
+        _db.SystemSettings.Add(new SystemSettings { IsBuildQueuePaused = true });
+        await _db.SaveChangesAsync();
+        var build = await CreateBuildAsync(
+            status: BuildStatus.Queued,
+            queuedAt: DateTime.UtcNow - MaxQueuedDuration - TimeSpan.FromHours(1));
+
+        // Act
+        await _job.ExecuteAsync();
+
+        // Assert
+        var updated = await _db.Builds.FindAsync(build.Id);
+        updated!.Status.ShouldBe(BuildStatus.Queued);
+    }
+
     [Fact]
     public async Task ExecuteAsync_WithRecentQueuedBuild_DoesNotModify()
     {
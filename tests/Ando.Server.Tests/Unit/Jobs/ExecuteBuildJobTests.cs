@@ -0,0 +1,152 @@
+// =============================================================================
+// ExecuteBuildJobTests.cs
+//
+// Summary: Unit tests for the ExecuteBuildJob.
+//
+// Tests that builds start only when the queue allows it: paused queues and
+// higher-priority builds defer the build, and builds that are no longer
+// queued are skipped.
+// =============================================================================
+
+using Ando.Server.BuildExecution;
+using Ando.Server.Jobs;
+using Ando.Server.Models;
+using Ando.Server.Tests.TestFixtures;
+using Hangfire;
+using Hangfire.States;
+using Microsoft.Extensions.Logging.Abstractions;
+using Moq;
+
+namespace Ando.Server.Tests.Unit.Jobs;
+
+public class ExecuteBuildJobTests : IDisposable
+{
+    private readonly Data.AndoDbContext _db;
+    private readonly Mock<IBuildOrchestrator> _orchestrator;
+    private readonly Mock<IBackgroundJobClient> _jobClient;
+    private readonly ExecuteBuildJob _job;
+    private readonly Project _testProject;
+
+    public ExecuteBuildJobTests()
+    {
+        _db = TestDbContextFactory.Create();
+        _orchestrator = new Mock<IBuildOrchestrator>();
+        _jobClient = new Mock<IBackgroundJobClient>();
+        _jobClient
+            .Setup(c => c.Create(It.IsAny<Hangfire.Common.Job>(), It.IsAny<IState>()))
+            .Returns("deferred-job");
+        _job = new ExecuteBuildJob(
+            _orchestrator.Object,
+            _db,
+            _jobClient.Object,
+            NullLogger<ExecuteBuildJob>.Instance);
+
+        var user = new ApplicationUser
+        {
+            GitHubId = 12345,
+            GitHubLogin = "testuser",
+            CreatedAt = DateTime.UtcNow
+        };
+        _db.Users.Add(user);
+
+        _testProject = new Project
+        {
+            Owner = user,
+            GitHubRepoId = 99999,
+            RepoFullName = "testuser/test-repo",
+            RepoUrl = "https://github.com/testuser/test-repo",
+            DefaultBranch = "main",
+            CreatedAt = DateTime.UtcNow
+        };
+        _db.Projects.Add(_testProject);
+        _db.SaveChanges();
+    }
+
+    public void Dispose()
+    {
+        _db.Dispose();
+    }
+
+    [Fact]
+    public async Task ExecuteAsync_WithQueuedBuild_RunsBuild()
+    {
+        // Arrange
+        var build = await CreateBuildAsync();
+
+        // Act
+        await _job.ExecuteAsync(build.Id, CancellationToken.None);
+
+        // Assert
+        _orchestrator.Verify(o => o.ExecuteBuildAsync(build.Id, It.IsAny<CancellationToken>()), Times.Once);
+    }
+
+    [Fact]
+    public async Task ExecuteAsync_WithPausedQueue_DefersBuild()
+    {
+        // Arrange
+        _db.SystemSettings.Add(new SystemSettings { IsBuildQueuePaused = true });
+        await _db.SaveChangesAsync();
+        var build = await CreateBuildAsync();
+
+        // Act
+        await _job.ExecuteAsync(build.Id, CancellationToken.None);
+
+        // Assert
+        _orchestrator.Verify(o => o.ExecuteBuildAsync(It.IsAny<int>(), It.IsAny<CancellationToken>()), Times.Never);
+        _jobClient.Verify(
+            c => c.Create(It.IsAny<Hangfire.Common.Job>(), It.IsAny<ScheduledState>()),
+            Times.Once);
+        var updated = await _db.Builds.FindAsync(build.Id);
+        updated!.HangfireJobId.ShouldBe("deferred-job");
+    }
+
+    [Fact]
+    public async Task ExecuteAsync_WithHigherPriorityBuildWaiting_DefersBuild()
+    {
+        // Arrange
+        var build = await CreateBuildAsync();
+        await CreateBuildAsync(priority: 1);
+
+        // Act
+        await _job.ExecuteAsync(build.Id, CancellationToken.None);
+
+        // Assert
+        _orchestrator.Verify(o => o.ExecuteBuildAsync(It.IsAny<int>(), It.IsAny<CancellationToken>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task ExecuteAsync_WithCancelledBuild_Skips()
+    {
+        // Arrange
+        var build = await CreateBuildAsync(BuildStatus.Cancelled);
+
+        // Act
+        await _job.ExecuteAsync(build.Id, CancellationToken.None);
+
+        // Assert
+        _orchestrator.Verify(o => o.ExecuteBuildAsync(It.IsAny<int>(), It.IsAny<CancellationToken>()), Times.Never);
+        _jobClient.Verify(
+            c => c.Create(It.IsAny<Hangfire.Common.Job>(), It.IsAny<IState>()),
+            Times.Never);
+    }
+
+    private async Task<Build> CreateBuildAsync(BuildStatus status = BuildStatus.Queued, int priority = 0)
+    {
+        var build = new Build
+        {
+            Project = _testProject,
+            ProjectId = _testProject.Id,
+            CommitSha = Guid.NewGuid().ToString("N")[..8],
+            Branch = "main",
+            Status = status,
+            Trigger = BuildTrigger.Push,
+            QueuedAt = DateTime.UtcNow,
+            QueuePriority = priority,
+            HangfireJobId = "job"
+        };
+
+        _db.Builds.Add(build);
+        await _db.SaveChangesAsync();
+        return build;
+    }
+}
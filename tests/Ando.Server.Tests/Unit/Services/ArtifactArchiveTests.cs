@@ -0,0 +1,212 @@
+// =============================================================================
+// ArtifactArchiveTests.cs
+//
+// Summary: Unit tests for ArtifactArchive.
+//
+// Verifies format detection, entry listing and single-entry reads for zip,
+// tar and tar.gz artifacts built in memory.
+// =============================================================================
+
+using System.Formats.Tar;
+using System.IO.Compression;
+using System.Text;
+using Ando.Server.Services;
+
+namespace Ando.Server.Tests.Unit.Services;
+
+public class ArtifactArchiveTests
+{
+    [Theory]
+    [InlineData("app.zip", ArtifactArchiveFormat.Zip)]
+    [InlineData("Ando.1.2.3.nupkg", ArtifactArchiveFormat.Zip)]
+    [InlineData("Ando.1.2.3.snupkg", ArtifactArchiveFormat.Zip)]
+    [InlineData("site.TAR", ArtifactArchiveFormat.Tar)]
+    [InlineData("site.tar.gz", ArtifactArchiveFormat.TarGz)]
+    [InlineData("site.tgz", ArtifactArchiveFormat.TarGz)]
+    public void GetFormat_WithArchiveName_ReturnsFormat(string fileName, ArtifactArchiveFormat expected)
+    {
+        ArtifactArchive.GetFormat(fileName).ShouldBe(expected);
+    }
+
+    [Theory]
+    [InlineData("app.exe")]
+    [InlineData("report.json")]
+    [InlineData("notes.gz")]
+    public void GetFormat_WithOtherFile_ReturnsNull(string fileName)
+    {
+        ArtifactArchive.GetFormat(fileName).ShouldBeNull();
+    }
+
+    [Fact]
+    public void ListEntries_WithZip_ReturnsFilesAndDirectories()
+    {
+        // Arrange
+        using var archive = CreateZip(("lib/", null), ("lib/app.dll", "binary"), ("readme.txt", "hello"));
+
+        // Act
+        var (entries, isTruncated) = ArtifactArchive.ListEntries(archive, ArtifactArchiveFormat.Zip);
+
+        // Assert
+        isTruncated.ShouldBeFalse();
+        entries.Select(e => e.Path).ShouldBe(["lib/", "lib/app.dll", "readme.txt"]);
+        entries[0].IsDirectory.ShouldBeTrue();
+        entries[2].SizeBytes.ShouldBe(5);
+    }
+
+    [Theory]
+    [InlineData(ArtifactArchiveFormat.Tar)]
+    [InlineData(ArtifactArchiveFormat.TarGz)]
+    public void ListEntries_WithTarball_NormalizesPaths(ArtifactArchiveFormat format)
+    {
+        // Arrange
+        using var archive = CreateTar(format, ("./dist/index.html", "<html></html>"), ("./dist/app.js", "run()"));
+
+        // Act
+        var (entries, isTruncated) = ArtifactArchive.ListEntries(archive, format);
+
+        // Assert
+        isTruncated.ShouldBeFalse();
+        entries.Select(e => e.Path).ShouldBe(["dist/index.html", "dist/app.js"]);
+        entries[0].SizeBytes.ShouldBe(13);
+    }
+
+    [Fact]
+    public void ListEntries_WithMoreEntriesThanLimit_Truncates()
+    {
+        // Arrange
+        using var archive = CreateZip(("a.txt", "a"), ("b.txt", "b"), ("c.txt", "c"));
+
+        // Act
+        var (entries, isTruncated) = ArtifactArchive.ListEntries(archive, ArtifactArchiveFormat.Zip, maxEntries: 2);
+
+        // Assert
+        isTruncated.ShouldBeTrue();
+        entries.Count.ShouldBe(2);
+    }
+
+    [Fact]
+    public void EnumerateFiles_WithTarGz_ReadsChosenEntriesInOnePass()
+    {
+        // Arrange
+        using var archive = CreateTar(
+            ArtifactArchiveFormat.TarGz,
+            ("./bin/app.xml", "<doc />"),
+            ("./TestResults/junit.xml", "<testsuites />"));
+
+        // Act
+        var read = new List<(string Path, string Content)>();
+        foreach (var (entry, readContent) in ArtifactArchive.EnumerateFiles(archive, ArtifactArchiveFormat.TarGz))
+        {
+            if (entry.Path.StartsWith("TestResults/"))
+            {
+                read.Add((entry.Path, Encoding.UTF8.GetString(readContent())));
+            }
+        }
+
+        // Assert
+        read.ShouldBe([("TestResults/junit.xml", "<testsuites />")]);
+    }
+
+    [Fact]
+    public void ReadEntry_WithExistingZipEntry_ReturnsContent()
+    {
+        // Arrange
+        using var archive = CreateZip(("docs/readme.txt", "hello"));
+
+        // Act
+        var entry = ArtifactArchive.ReadEntry(archive, ArtifactArchiveFormat.Zip, "docs/readme.txt", maxBytes: 1024);
+
+        // Assert
+        entry.ShouldNotBeNull();
+        Encoding.UTF8.GetString(entry.Content!).ShouldBe("hello");
+    }
+
+    [Fact]
+    public void ReadEntry_WithExistingTarGzEntry_ReturnsContent()
+    {
+        // Arrange
+        using var archive = CreateTar(ArtifactArchiveFormat.TarGz, ("./report.json", "{\"ok\":true}"));
+
+        // Act
+        var entry = ArtifactArchive.ReadEntry(archive, ArtifactArchiveFormat.TarGz, "report.json", maxBytes: 1024);
+
+        // Assert
+        entry.ShouldNotBeNull();
+        Encoding.UTF8.GetString(entry.Content!).ShouldBe("{\"ok\":true}");
+    }
+
+    [Fact]
+    public void ReadEntry_WithMissingEntry_ReturnsNull()
+    {
+        // Arrange
+        using var archive = CreateZip(("readme.txt", "hello"));
+
+        // Act
+        var entry = ArtifactArchive.ReadEntry(archive, ArtifactArchiveFormat.Zip, "missing.txt", maxBytes: 1024);
+
+        // Assert
+        entry.ShouldBeNull();
+    }
+
+    [Fact]
+    public void ReadEntry_WithEntryLargerThanLimit_ReturnsSizeWithoutContent()
+    {
+        // Arrange
+        using var archive = CreateTar(ArtifactArchiveFormat.Tar, ("big.log", new string('x', 100)));
+
+        // Act
+        var entry = ArtifactArchive.ReadEntry(archive, ArtifactArchiveFormat.Tar, "big.log", maxBytes: 10);
+
+        // Assert
+        entry.ShouldNotBeNull();
+        entry.Content.ShouldBeNull();
+        entry.SizeBytes.ShouldBe(100);
+    }
+
+    private static MemoryStream CreateZip(params (string Path, string? Content)[] files)
+    {
+        var stream = new MemoryStream();
+        using (var zip = new ZipArchive(stream, ZipArchiveMode.Create, leaveOpen: true))
+        {
+            foreach (var (path, content) in files)
+            {
+                var entry = zip.CreateEntry(path);
+                if (content != null)
+                {
+                    using var writer = new StreamWriter(entry.Open());
+                    writer.Write(content);
+                }
+            }
+        }
+
+        stream.Position = 0;
+        return stream;
+    }
+
+    private static MemoryStream CreateTar(ArtifactArchiveFormat format, params (string Path, string Content)[] files)
+    {
+        var stream = new MemoryStream();
+        var target = format == ArtifactArchiveFormat.TarGz
+            ? new GZipStream(stream, CompressionLevel.Fastest, leaveOpen: true)
+            : (Stream)stream;
+
+        using (var tar = new TarWriter(target, leaveOpen: true))
+        {
+            foreach (var (path, content) in files)
+            {
+                tar.WriteEntry(new PaxTarEntry(TarEntryType.RegularFile, path)
+                {
+                    DataStream = new MemoryStream(Encoding.UTF8.GetBytes(content))
+                });
+            }
+        }
+
+        if (target != stream)
+        {
+            target.Dispose();
+        }
+
+        stream.Position = 0;
+        return stream;
+    }
+}
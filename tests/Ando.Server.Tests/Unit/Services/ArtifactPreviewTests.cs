@@ -0,0 +1,36 @@
+// =============================================================================
+// ArtifactPreviewTests.cs
+//
+// Summary: Unit tests for ArtifactPreview.
+//
+// Verifies which artifact files are previewable and the content types they
+// are served with.
+// =============================================================================
+
+using Ando.Server.Services;
+
+namespace Ando.Server.Tests.Unit.Services;
+
+public class ArtifactPreviewTests
+{
+    [Theory]
+    [InlineData("build.log", "text/plain; charset=utf-8")]
+    [InlineData("bundle.js", "text/plain; charset=utf-8")]
+    [InlineData("coverage/summary.JSON", "application/json; charset=utf-8")]
+    [InlineData("report/index.html", "text/html; charset=utf-8")]
+    [InlineData("logo.svg", "image/svg+xml")]
+    [InlineData("screenshot.png", "image/png")]
+    public void GetContentType_WithPreviewableFile_ReturnsContentType(string fileName, string expected)
+    {
+        ArtifactPreview.GetContentType(fileName).ShouldBe(expected);
+    }
+
+    [Theory]
+    [InlineData("app.zip")]
+    [InlineData("Ando.dll")]
+    [InlineData("Makefile")]
+    public void GetContentType_WithOtherFile_ReturnsNull(string fileName)
+    {
+        ArtifactPreview.GetContentType(fileName).ShouldBeNull();
+    }
+}
@@ -0,0 +1,80 @@
+// =============================================================================
+// BranchOverviewTests.cs
+//
+// Summary: Unit tests for BranchOverview.
+//
+// Verifies branch ordering, the abandoned marker and mapping of the latest
+// build.
+// =============================================================================
+
+using Ando.Server.Models;
+using Ando.Server.Services;
+using static Ando.Server.Services.BranchOverview;
+
+namespace Ando.Server.Tests.Unit.Services;
+
+public class BranchOverviewTests
+{
+    private static readonly DateTime Now = new(2026, 3, 10, 9, 0, 0, DateTimeKind.Utc);
+
+    private static BranchSummary Branch(string name, int daysAgo, string? tag = null) =>
+        new(name, 3, new Build
+        {
+            Id = 10 + daysAgo,
+            Branch = name,
+            CommitSha = "abc123def456789012345678901234567890abcd",
+            CommitAuthor = "Jane Doe",
+            Status = BuildStatus.Success,
+            Trigger = BuildTrigger.Push,
+            QueuedAt = Now.AddDays(-daysAgo)
+        }, tag);
+
+    [Fact]
+    public void Arrange_ListsDefaultBranchFirstThenMostRecent()
+    {
+        // Arrange
+        var branches = new[] { Branch("feature/old", 20), Branch("main", 40), Branch("feature/new", 1) };
+
+        // Act
+        var result = Arrange(branches, "main", 30, Now);
+
+        // Assert
+        result.Select(b => b.Name).ShouldBe(["main", "feature/new", "feature/old"]);
+        result[0].IsDefault.ShouldBeTrue();
+        result[1].IsDefault.ShouldBeFalse();
+    }
+
+    [Fact]
+    public void Arrange_FlagsBranchesNotBuiltWithinWindow()
+    {
+        // Arrange
+        var branches = new[] { Branch("main", 90), Branch("stale", 31), Branch("active", 29) };
+
+        // Act
+        var result = Arrange(branches, "main", 30, Now).ToDictionary(b => b.Name);
+
+        // Assert
+        result["main"].IsAbandoned.ShouldBeFalse();
+        result["stale"].IsAbandoned.ShouldBeTrue();
+        result["active"].IsAbandoned.ShouldBeFalse();
+    }
+
+    [Fact]
+    public void Arrange_MapsLatestBuildAndTag()
+    {
+        // Arrange
+        var branches = new[] { Branch("main", 0, tag: "v1.4.0") };
+
+        // Act
+        var branch = Arrange(branches, "main", 30, Now).Single();
+
+        // Assert
+        branch.TotalBuilds.ShouldBe(3);
+        branch.LatestVersionTag.ShouldBe("v1.4.0");
+        branch.LatestBuild.ShortCommitSha.ShouldBe("abc123de");
+        branch.LatestBuild.CommitAuthor.ShouldBe("Jane Doe");
+        branch.LatestBuild.Status.ShouldBe("Success");
+        branch.AheadBy.ShouldBeNull();
+        branch.BehindBy.ShouldBeNull();
+    }
+}
@@ -0,0 +1,128 @@
+// =============================================================================
+// BuildAnalyticsCalculatorTests.cs
+//
+// Summary: Unit tests for BuildAnalyticsCalculator.
+//
+// Verifies percentiles, weekly bucketing, success rates and the ranking of
+// failing and flaky steps.
+// =============================================================================
+
+using Ando.Server.Models;
+using Ando.Server.Services;
+using static Ando.Server.Services.BuildAnalyticsCalculator;
+
+namespace Ando.Server.Tests.Unit.Services;
+
+public class BuildAnalyticsCalculatorTests
+{
+    // A Wednesday.
+    private static readonly DateTime Now = new(2026, 3, 11, 12, 0, 0, DateTimeKind.Utc);
+
+    private static BuildSample Build(int id, BuildStatus status, DateTime queuedAt, int waitSeconds = 10, int? durationSeconds = 60) =>
+        new(id, status, queuedAt, queuedAt.AddSeconds(waitSeconds), durationSeconds.HasValue ? TimeSpan.FromSeconds(durationSeconds.Value) : null);
+
+    [Fact]
+    public void Percentile_InterpolatesBetweenRanks()
+    {
+        // Arrange
+        var values = new List<double> { 40, 10, 30, 20 };
+
+        // Act & Assert
+        Percentile(values, 0.5).ShouldBe(25);
+        Percentile(values, 0.95)!.Value.ShouldBe(38.5, 0.0001);
+        Percentile([], 0.5).ShouldBeNull();
+    }
+
+    [Theory]
+    [InlineData("2026-03-09", "2026-03-09")]
+    [InlineData("2026-03-11", "2026-03-09")]
+    [InlineData("2026-03-15", "2026-03-09")]
+    public void GetWeekStart_ReturnsMonday(string date, string expected)
+    {
+        // Act
+        var weekStart = GetWeekStart(DateTime.Parse(date));
+
+        // Assert
+        weekStart.ShouldBe(DateOnly.Parse(expected));
+    }
+
+    [Fact]
+    public void GetWeeks_FillsEmptyWeeksAndExcludesCancelledFromSuccessRate()
+    {
+        // Arrange
+        var builds = new List<BuildSample>
+        {
+            Build(1, BuildStatus.Success, Now.AddDays(-15)),
+            Build(2, BuildStatus.Success, Now, durationSeconds: 100),
+            Build(3, BuildStatus.TimedOut, Now, durationSeconds: 3600),
+            Build(4, BuildStatus.Cancelled, Now, durationSeconds: 5)
+        };
+
+        // Act
+        var weeks = GetWeeks(builds, Now.AddDays(-15), Now);
+
+        // Assert
+        weeks.Select(w => w.Builds).ShouldBe([1, 0, 3]);
+        weeks[1].SuccessRate.ShouldBeNull();
+        weeks[2].SuccessRate.ShouldBe(0.5);
+        weeks[2].Failed.ShouldBe(1);
+        weeks[2].DurationP50Seconds.ShouldBe(100);
+    }
+
+    [Fact]
+    public void RankSteps_CountsFailuresAndFlipsInQueueOrder()
+    {
+        // Arrange
+        var builds = new List<BuildSample>
+        {
+            Build(1, BuildStatus.Success, Now.AddHours(-3)),
+            Build(2, BuildStatus.Failed, Now.AddHours(-2)),
+            Build(3, BuildStatus.Success, Now.AddHours(-1)),
+            Build(4, BuildStatus.Failed, Now)
+        };
+        var steps = new List<StepSample>
+        {
+            new(3, 1, "Test", false),
+            new(1, 1, "Test", false),
+            new(2, 1, "Test", true),
+            new(4, 1, "Test", true),
+            new(1, 2, "Publish", false),
+            new(2, 2, "Publish", true),
+            new(4, 2, "Publish", true),
+            new(1, 3, "Restore", false)
+        };
+
+        // Act
+        var ranked = RankSteps(builds, steps, maxSteps: 10);
+
+        // Assert
+        ranked.Select(s => s.StepName).ShouldBe(["Test", "Publish"]);
+        ranked[0].Runs.ShouldBe(4);
+        ranked[0].Failures.ShouldBe(2);
+        ranked[0].Flips.ShouldBe(3);
+        ranked[0].LastFailedAt.ShouldBe(Now);
+        ranked[1].Flips.ShouldBe(1);
+        ranked[1].FailureRate.ShouldBe(2.0 / 3);
+    }
+
+    [Fact]
+    public void Calculate_SummarizesQueueWaits()
+    {
+        // Arrange
+        var builds = new List<BuildSample>
+        {
+            Build(1, BuildStatus.Success, Now.AddDays(-1), waitSeconds: 5),
+            Build(2, BuildStatus.Success, Now, waitSeconds: 15),
+            new(3, BuildStatus.Queued, Now, null, null)
+        };
+
+        // Act
+        var analytics = Calculate(builds, [], days: 30, Now);
+
+        // Assert
+        analytics.TotalBuilds.ShouldBe(3);
+        analytics.QueueWaitP50Seconds.ShouldBe(10);
+        analytics.SuccessRate.ShouldBe(1);
+        analytics.Steps.ShouldBeEmpty();
+    }
+}
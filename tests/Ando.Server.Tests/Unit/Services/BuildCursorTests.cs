@@ -0,0 +1,60 @@
+// =============================================================================
+// BuildCursorTests.cs
+//
+// Summary: Unit tests for BuildCursor.
+//
+// Verifies cursors round-trip and that malformed values are rejected rather
+// than silently restarting the build history from the first page.
+// =============================================================================
+
+using Ando.Server.Services;
+
+namespace Ando.Server.Tests.Unit.Services;
+
+public class BuildCursorTests
+{
+    [Fact]
+    public void Encode_ThenTryParse_RoundTrips()
+    {
+        // Arrange
+        var cursor = new BuildCursor(new DateTime(2026, 3, 1, 12, 30, 15, 250, DateTimeKind.Utc), 4217);
+
+        // Act
+        var parsed = BuildCursor.TryParse(cursor.Encode(), out var result);
+
+        // Assert
+        parsed.ShouldBeTrue();
+        result.ShouldBe(cursor);
+    }
+
+    [Fact]
+    public void Encode_ProducesUrlSafeValue()
+    {
+        // Arrange
+        var cursor = new BuildCursor(DateTime.MaxValue, int.MaxValue);
+
+        // Act
+        var value = cursor.Encode();
+
+        // Assert
+        value.ShouldNotContain("+");
+        value.ShouldNotContain("/");
+        value.ShouldNotContain("=");
+    }
+
+    [Theory]
+    [InlineData(null)]
+    [InlineData("")]
+    [InlineData("not base64!")]
+    [InlineData("MTIz")]
+    [InlineData("YWJjOjEy")]
+    [InlineData("LTE6NQ")]
+    public void TryParse_WithMalformedValue_ReturnsFalse(string? value)
+    {
+        // Act
+        var parsed = BuildCursor.TryParse(value, out _);
+
+        // Assert
+        parsed.ShouldBeFalse();
+    }
+}
@@ -0,0 +1,105 @@
+// =============================================================================
+// BuildEnvironmentOverridesTests.cs
+//
+// Summary: Unit tests for BuildEnvironmentOverrides.
+//
+// Verifies validation of names, reserved variables and limits, and that
+// overrides survive a serialize/deserialize round trip.
+// =============================================================================
+
+using Ando.Server.Services;
+
+namespace Ando.Server.Tests.Unit.Services;
+
+public class BuildEnvironmentOverridesTests
+{
+    [Fact]
+    public void Validate_WithNullOrEmpty_ReturnsNull()
+    {
+        // Act & Assert
+        BuildEnvironmentOverrides.Validate(null).ShouldBeNull();
+        BuildEnvironmentOverrides.Validate(new Dictionary<string, string>()).ShouldBeNull();
+    }
+
+    [Fact]
+    public void Validate_WithValidOverrides_ReturnsNull()
+    {
+        // Arrange
+        var overrides = new Dictionary<string, string>
+        {
+            ["DEPLOY_TARGET"] = "staging",
+            ["_debug"] = "1",
+            ["EMPTY"] = ""
+        };
+
+        // Act
+        var error = BuildEnvironmentOverrides.Validate(overrides);
+
+        // Assert
+        error.ShouldBeNull();
+    }
+
+    [Theory]
+    [InlineData("1ST")]
+    [InlineData("HAS SPACE")]
+    [InlineData("HAS-DASH")]
+    [InlineData("")]
+    public void Validate_WithInvalidName_ReturnsError(string name)
+    {
+        // Act
+        var error = BuildEnvironmentOverrides.Validate(new Dictionary<string, string> { [name] = "x" });
+
+        // Assert
+        error.ShouldNotBeNull();
+        error.ShouldContain("Invalid environment variable name");
+    }
+
+    [Fact]
+    public void Validate_WithReservedName_ReturnsError()
+    {
+        // Act
+        var error = BuildEnvironmentOverrides.Validate(new Dictionary<string, string> { ["ando_host_root"] = "/" });
+
+        // Assert
+        error.ShouldNotBeNull();
+        error.ShouldContain("cannot be overridden");
+    }
+
+    [Fact]
+    public void Validate_WithNullValue_ReturnsError()
+    {
+        // Act
+        var error = BuildEnvironmentOverrides.Validate(new Dictionary<string, string> { ["DEPLOY_TARGET"] = null! });
+
+        // Assert
+        error.ShouldBe("Value for 'DEPLOY_TARGET' is required.");
+    }
+
+    [Fact]
+    public void Validate_WithTooManyOverrides_ReturnsError()
+    {
+        // Arrange
+        var overrides = Enumerable.Range(0, BuildEnvironmentOverrides.MaxCount + 1)
+            .ToDictionary(i => $"VAR_{i}", _ => "x");
+
+        // Act
+        var error = BuildEnvironmentOverrides.Validate(overrides);
+
+        // Assert
+        error.ShouldNotBeNull();
+    }
+
+    [Fact]
+    public void Serialize_ThenDeserialize_RoundTrips()
+    {
+        // Arrange
+        var overrides = new Dictionary<string, string> { ["A"] = "one \"quoted\" value", ["B"] = "" };
+
+        // Act
+        var result = BuildEnvironmentOverrides.Deserialize(BuildEnvironmentOverrides.Serialize(overrides));
+
+        // Assert
+        result.ShouldBe(overrides);
+        BuildEnvironmentOverrides.Deserialize(null).ShouldBeEmpty();
+    }
+}
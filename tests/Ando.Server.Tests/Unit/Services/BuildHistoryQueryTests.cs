@@ -0,0 +1,140 @@
+// =============================================================================
+// BuildHistoryQueryTests.cs
+//
+// Summary: Unit tests for BuildHistoryQuery.
+//
+// Verifies query string parsing and that filters, ordering and cursor paging
+// select the expected builds.
+// =============================================================================
+
+using Ando.Server.Models;
+using Ando.Server.Services;
+
+namespace Ando.Server.Tests.Unit.Services;
+
+public class BuildHistoryQueryTests
+{
+    private static readonly DateTime Day = new(2026, 3, 10, 9, 0, 0, DateTimeKind.Utc);
+
+    private static Func<string, string?> Values(Dictionary<string, string> values) =>
+        name => values.TryGetValue(name, out var value) ? value : null;
+
+    private static List<Build> CreateBuilds() =>
+    [
+        new() { Id = 1, Branch = "main", CommitAuthor = "Jane Doe", Status = BuildStatus.Success, Trigger = BuildTrigger.Push, QueuedAt = Day.AddDays(-2) },
+        new() { Id = 2, Branch = "feature/x", CommitAuthor = "Sam", Status = BuildStatus.Failed, Trigger = BuildTrigger.PullRequest, QueuedAt = Day.AddDays(-1) },
+        new() { Id = 3, Branch = "main", CommitAuthor = "Jane Doe", Status = BuildStatus.Failed, Trigger = BuildTrigger.Manual, QueuedAt = Day },
+        new() { Id = 4, Branch = "main", CommitAuthor = null, Status = BuildStatus.Running, Trigger = BuildTrigger.Push, QueuedAt = Day }
+    ];
+
+    [Fact]
+    public void TryParse_WithNoValues_UsesDefaults()
+    {
+        // Act
+        var parsed = BuildHistoryQuery.TryParse(_ => null, out var query, out var error);
+
+        // Assert
+        parsed.ShouldBeTrue();
+        error.ShouldBeNull();
+        query.Limit.ShouldBe(BuildHistoryQuery.DefaultPageSize);
+        query.Status.ShouldBeNull();
+        query.Cursor.ShouldBeNull();
+    }
+
+    [Fact]
+    public void TryParse_WithValues_ParsesFilters()
+    {
+        // Arrange
+        var values = new Dictionary<string, string>
+        {
+            ["branch"] = " main ",
+            ["status"] = "failed",
+            ["trigger"] = "PullRequest",
+            ["from"] = "2026-03-01",
+            ["to"] = "2026-03-31",
+            ["limit"] = "500"
+        };
+
+        // Act
+        var parsed = BuildHistoryQuery.TryParse(Values(values), out var query, out _);
+
+        // Assert
+        parsed.ShouldBeTrue();
+        query.Branch.ShouldBe("main");
+        query.Status.ShouldBe(BuildStatus.Failed);
+        query.Trigger.ShouldBe(BuildTrigger.PullRequest);
+        query.From.ShouldBe(new DateOnly(2026, 3, 1));
+        query.To.ShouldBe(new DateOnly(2026, 3, 31));
+        query.Limit.ShouldBe(BuildHistoryQuery.MaxPageSize);
+    }
+
+    [Theory]
+    [InlineData("status", "Exploded")]
+    [InlineData("status", "3")]
+    [InlineData("trigger", "Cron")]
+    [InlineData("from", "03/01/2026")]
+    [InlineData("cursor", "not-a-cursor")]
+    public void TryParse_WithInvalidValue_ReturnsError(string name, string value)
+    {
+        // Act
+        var parsed = BuildHistoryQuery.TryParse(
+            Values(new Dictionary<string, string> { [name] = value }), out _, out var error);
+
+        // Assert
+        parsed.ShouldBeFalse();
+        error.ShouldNotBeNullOrEmpty();
+    }
+
+    [Fact]
+    public void Apply_OrdersNewestFirstWithIdTieBreak()
+    {
+        // Arrange
+        BuildHistoryQuery.TryParse(_ => null, out var query, out _);
+
+        // Act
+        var ids = query.Apply(CreateBuilds().AsQueryable()).Select(b => b.Id).ToList();
+
+        // Assert
+        ids.ShouldBe([4, 3, 2, 1]);
+    }
+
+    [Fact]
+    public void Apply_WithFilters_MatchesAllFilters()
+    {
+        // Arrange
+        var values = new Dictionary<string, string>
+        {
+            ["branch"] = "main",
+            ["author"] = "Jane",
+            ["status"] = "Failed",
+            ["to"] = "2026-03-10"
+        };
+        BuildHistoryQuery.TryParse(Values(values), out var query, out _);
+
+        // Act
+        var ids = query.Apply(CreateBuilds().AsQueryable()).Select(b => b.Id).ToList();
+
+        // Assert
+        ids.ShouldBe([3]);
+    }
+
+    [Fact]
+    public void ToPage_FollowsCursorThroughAllBuilds()
+    {
+        // Arrange
+        var builds = CreateBuilds();
+        var values = new Dictionary<string, string> { ["limit"] = "3" };
+        BuildHistoryQuery.TryParse(Values(values), out var firstQuery, out _);
+
+        // Act
+        var (firstPage, cursor) = firstQuery.ToPage(firstQuery.Apply(builds.AsQueryable()).ToList());
+        values["cursor"] = cursor!;
+        BuildHistoryQuery.TryParse(Values(values), out var secondQuery, out _);
+        var (secondPage, lastCursor) = secondQuery.ToPage(secondQuery.Apply(builds.AsQueryable()).ToList());
+
+        // Assert
+        firstPage.Select(b => b.Id).ShouldBe([4, 3, 2]);
+        secondPage.Select(b => b.Id).ShouldBe([1]);
+        lastCursor.ShouldBeNull();
+    }
+}
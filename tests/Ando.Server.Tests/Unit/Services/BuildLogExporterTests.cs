@@ -0,0 +1,129 @@
+// =============================================================================
+// BuildLogExporterTests.cs
+//
+// Summary: Unit tests for BuildLogExporter.
+//
+// Verifies format parsing, file naming and the text/ANSI/JSON/HTML renderings
+// used by the build log download endpoint.
+// =============================================================================
+
+using System.Text.Json;
+using Ando.Server.Contracts.Builds;
+using Ando.Server.Services;
+
+namespace Ando.Server.Tests.Unit.Services;
+
+public class BuildLogExporterTests
+{
+    private static readonly DateTime Timestamp = new(2026, 3, 1, 12, 30, 15, 250, DateTimeKind.Utc);
+
+    private static List<LogEntryDto> CreateLogs() =>
+    [
+        new(1, 1, "StepStarted", "Build", "Build", Timestamp),
+        new(2, 2, "Output", "\u001b[1;32mPassed!\u001b[0m 12 tests", "Build", Timestamp),
+        new(3, 3, "Error", "<script>alert(1)</script>", "Build", Timestamp)
+    ];
+
+    [Theory]
+    [InlineData(null, BuildLogFormat.Text)]
+    [InlineData("", BuildLogFormat.Text)]
+    [InlineData("ansi", BuildLogFormat.Ansi)]
+    [InlineData("JSON", BuildLogFormat.Json)]
+    [InlineData("html", BuildLogFormat.Html)]
+    public void TryParseFormat_WithKnownValue_ReturnsFormat(string? value, BuildLogFormat expected)
+    {
+        // Act
+        var parsed = BuildLogExporter.TryParseFormat(value, out var format);
+
+        // Assert
+        parsed.ShouldBeTrue();
+        format.ShouldBe(expected);
+    }
+
+    [Theory]
+    [InlineData("pdf")]
+    [InlineData("7")]
+    public void TryParseFormat_WithUnknownValue_ReturnsFalse(string value)
+    {
+        // Act & Assert
+        BuildLogExporter.TryParseFormat(value, out _).ShouldBeFalse();
+    }
+
+    [Fact]
+    public void GetFileName_SanitizesRepoName()
+    {
+        // Act
+        var fileName = BuildLogExporter.GetFileName("octo/app", 42, BuildLogFormat.Ansi);
+
+        // Assert
+        fileName.ShouldBe("octo-app-build-42.log");
+    }
+
+    [Fact]
+    public void Export_Text_StripsAnsiCodes()
+    {
+        // Act
+        var text = BuildLogExporter.Export(CreateLogs(), BuildLogFormat.Text, "title");
+
+        // Assert
+        text.ShouldContain("[2026-03-01T12:30:15.250Z] Passed! 12 tests\n");
+        text.ShouldNotContain("\u001b");
+    }
+
+    [Fact]
+    public void Export_Ansi_PreservesEscapeCodes()
+    {
+        // Act
+        var text = BuildLogExporter.Export(CreateLogs(), BuildLogFormat.Ansi, "title");
+
+        // Assert
+        text.ShouldContain("] \u001b[1;32mPassed!\u001b[0m 12 tests\n");
+    }
+
+    [Fact]
+    public void Export_Json_ReturnsLogEntryArray()
+    {
+        // Act
+        var json = BuildLogExporter.Export(CreateLogs(), BuildLogFormat.Json, "title");
+        using var document = JsonDocument.Parse(json);
+
+        // Assert
+        document.RootElement.GetArrayLength().ShouldBe(3);
+        document.RootElement[1].GetProperty("sequence").GetInt32().ShouldBe(2);
+        document.RootElement[1].GetProperty("type").GetString().ShouldBe("Output");
+    }
+
+    [Fact]
+    public void Export_Html_EncodesMessagesAndAddsLineAnchors()
+    {
+        // Act
+        var html = BuildLogExporter.Export(CreateLogs(), BuildLogFormat.Html, "octo/app · Build #42");
+
+        // Assert
+        html.ShouldStartWith("<!DOCTYPE html>");
+        html.ShouldContain("<title>octo/app · Build #42</title>");
+        html.ShouldContain("id=\"L3\"");
+        html.ShouldContain("&lt;script&gt;alert(1)&lt;/script&gt;");
+        html.ShouldNotContain("<script>");
+    }
+
+    [Fact]
+    public void AnsiToHtml_ConvertsSgrToInlineStyles()
+    {
+        // Act
+        var html = BuildLogExporter.AnsiToHtml("\u001b[1;31mFAIL\u001b[0m \u001b[38;2;0;128;255mdone");
+
+        // Assert
+        html.ShouldBe("<span style=\"color:#f87171;font-weight:bold;\">FAIL</span> <span style=\"color:rgb(0,128,255);\">done</span>");
+    }
+
+    [Fact]
+    public void AnsiToHtml_KeepsLastCarriageReturnFrame()
+    {
+        // Act
+        var html = BuildLogExporter.AnsiToHtml("10%\r55%\r100%\r");
+
+        // Assert
+        html.ShouldBe("100%");
+    }
+}
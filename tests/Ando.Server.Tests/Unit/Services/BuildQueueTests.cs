@@ -0,0 +1,89 @@
+// =============================================================================
+// BuildQueueTests.cs
+//
+// Summary: Unit tests for BuildQueue.
+//
+// Verifies queue ordering, when a build is outranked by a higher-priority
+// build and the priorities assigned when reordering.
+// =============================================================================
+
+using Ando.Server.Models;
+using Ando.Server.Services;
+
+namespace Ando.Server.Tests.Unit.Services;
+
+public class BuildQueueTests
+{
+    private static readonly DateTime Start = new(2026, 3, 10, 9, 0, 0, DateTimeKind.Utc);
+
+    private static Build Queued(int id, int priority = 0, string? jobId = "job") => new()
+    {
+        Id = id,
+        CommitSha = "abc123def456789012345678901234567890abcd",
+        Branch = "main",
+        Status = BuildStatus.Queued,
+        Trigger = BuildTrigger.Push,
+        QueuedAt = Start.AddMinutes(id),
+        QueuePriority = priority,
+        HangfireJobId = jobId
+    };
+
+    [Fact]
+    public void Order_StartsHigherPriorityFirstThenOldest()
+    {
+        // Arrange
+        var builds = new[] { Queued(3), Queued(1), Queued(4, priority: 1), Queued(2) };
+
+        // Act
+        var result = BuildQueue.Order(builds);
+
+        // Assert
+        result.Select(b => b.Id).ShouldBe([4, 1, 2, 3]);
+    }
+
+    [Fact]
+    public void IsOutranked_WithHigherPriorityBuildWaiting_ReturnsTrue()
+    {
+        // Arrange
+        var build = Queued(1);
+        var queued = new[] { build, Queued(2, priority: 1) };
+
+        // Act & Assert
+        BuildQueue.IsOutranked(build, queued).ShouldBeTrue();
+    }
+
+    [Fact]
+    public void IsOutranked_WithEqualPriorities_ReturnsFalse()
+    {
+        // Arrange - equal priorities keep Hangfire's FIFO order
+        var build = Queued(2);
+        var queued = new[] { Queued(1), build };
+
+        // Act & Assert
+        BuildQueue.IsOutranked(build, queued).ShouldBeFalse();
+    }
+
+    [Fact]
+    public void IsOutranked_IgnoresBuildsWithoutJob()
+    {
+        // Arrange - an orphaned build must not block the queue
+        var build = Queued(1);
+        var queued = new[] { build, Queued(2, priority: 5, jobId: null) };
+
+        // Act & Assert
+        BuildQueue.IsOutranked(build, queued).ShouldBeFalse();
+    }
+
+    [Fact]
+    public void PrioritiesFor_AssignsDescendingPriorities()
+    {
+        // Act
+        var result = BuildQueue.PrioritiesFor([7, 3, 9, 3]);
+
+        // Assert
+        result[7].ShouldBe(4);
+        result[3].ShouldBe(3);
+        result[9].ShouldBe(2);
+        result.Count.ShouldBe(3);
+    }
+}
@@ -59,6 +59,7 @@ public class BuildServiceTests : IDisposable
 
         var hubClients = new Mock<IHubClients>();
         hubClients.Setup(x => x.Group(It.IsAny<string>())).Returns(clientProxy.Object);
+        hubClients.Setup(x => x.Groups(It.IsAny<IReadOnlyList<string>>())).Returns(clientProxy.Object);
         hubClients.Setup(x => x.All).Returns(clientProxy.Object);
 
         var hubContext = new Mock<IHubContext<BuildLogHub>>();
@@ -177,6 +178,79 @@ public class BuildServiceTests : IDisposable
             Times.Once);
     }
 
+    [Fact]
+    public async Task QueueBuildAsync_WithCancelSupersededBuilds_CancelsOlderBuildsOfSameBranch()
+    {
+        // Arrange
+        var project = await CreateTestProjectAsync();
+        project.CancelSupersededBuilds = true;
+        await _db.SaveChangesAsync();
+        var queued = await CreateTestBuildAsync(project, BuildStatus.Queued);
+        var running = await CreateTestBuildAsync(project, BuildStatus.Running);
+        var finished = await CreateTestBuildAsync(project, BuildStatus.Success);
+
+        // Act
+        var buildId = await _service.QueueBuildAsync(
+            project.Id,
+            "abc123def456789012345678901234567890abcd",
+            "main",
+            BuildTrigger.Push);
+
+        // Assert
+        foreach (var superseded in new[] { queued, running })
+        {
+            var updated = await _db.Builds.FindAsync(superseded.Id);
+            updated!.Status.ShouldBe(BuildStatus.Cancelled);
+            updated.SupersededByBuildId.ShouldBe(buildId);
+            updated.CancellationReason.ShouldBe($"Superseded by build #{buildId}");
+        }
+        (await _db.Builds.FindAsync(finished.Id))!.Status.ShouldBe(BuildStatus.Success);
+        (await _db.Builds.FindAsync(buildId))!.Status.ShouldBe(BuildStatus.Queued);
+    }
+
+    [Fact]
+    public async Task QueueBuildAsync_WithCancelSupersededBuilds_KeepsOtherBranchesAndPullRequests()
+    {
+        // Arrange
+        var project = await CreateTestProjectAsync();
+        project.CancelSupersededBuilds = true;
+        await _db.SaveChangesAsync();
+        var otherBranch = await CreateTestBuildAsync(project, BuildStatus.Queued);
+        otherBranch.Branch = "develop";
+        var pullRequest = await CreateTestBuildAsync(project, BuildStatus.Queued);
+        pullRequest.PullRequestNumber = 7;
+        await _db.SaveChangesAsync();
+
+        // Act
+        await _service.QueueBuildAsync(
+            project.Id,
+            "abc123def456789012345678901234567890abcd",
+            "main",
+            BuildTrigger.Push);
+
+        // Assert
+        (await _db.Builds.FindAsync(otherBranch.Id))!.Status.ShouldBe(BuildStatus.Queued);
+        (await _db.Builds.FindAsync(pullRequest.Id))!.Status.ShouldBe(BuildStatus.Queued);
+    }
+
+    [Fact]
+    public async Task QueueBuildAsync_WithoutCancelSupersededBuilds_KeepsOlderBuilds()
+    {
+        // Arrange
+        var project = await CreateTestProjectAsync();
+        var queued = await CreateTestBuildAsync(project, BuildStatus.Queued);
+
+        // Act
+        await _service.QueueBuildAsync(
+            project.Id,
+            "abc123def456789012345678901234567890abcd",
+            "main",
+            BuildTrigger.Push);
+
+        // Assert
+        (await _db.Builds.FindAsync(queued.Id))!.Status.ShouldBe(BuildStatus.Queued);
+    }
+
     // -------------------------------------------------------------------------
     // CancelBuildAsync Tests
     // -------------------------------------------------------------------------
@@ -237,6 +311,23 @@ public class BuildServiceTests : IDisposable
         updatedBuild.FinishedAt.ShouldNotBeNull();
     }
 
+    [Fact]
+    public async Task CancelBuildAsync_WithReason_StoresReason()
+    {
+        // Arrange
+        var project = await CreateTestProjectAsync();
+        var build = await CreateTestBuildAsync(project, BuildStatus.Queued);
+
+        // Act
+        await _service.CancelBuildAsync(build.Id, "Cancelled by testuser");
+
+        // Assert
+        var updatedBuild = await _db.Builds.FindAsync(build.Id);
+        updatedBuild!.CancellationReason.ShouldBe("Cancelled by testuser");
+        updatedBuild.ErrorMessage.ShouldBe("Cancelled by testuser");
+        updatedBuild.SupersededByBuildId.ShouldBeNull();
+    }
+
     [Fact]
     public async Task CancelBuildAsync_WithQueuedBuildNoJobId_StillCancels()
     {
@@ -0,0 +1,143 @@
+// =============================================================================
+// CoverageReportParserTests.cs
+//
+// Summary: Unit tests for CoverageReportParser.
+//
+// Verifies per-file line and branch counts from Cobertura and lcov reports,
+// and that other files are not treated as coverage reports.
+// =============================================================================
+
+using System.Text;
+using Ando.Server.Services;
+
+namespace Ando.Server.Tests.Unit.Services;
+
+public class CoverageReportParserTests
+{
+    private const string Cobertura = """
+        <?xml version="1.0" encoding="utf-8"?>
+        <coverage line-rate="0.5" branch-rate="0.5" version="1.9">
+          <packages>
+            <package name="Ando">
+              <classes>
+                <class name="Ando.Calculator" filename="src\Ando\Calculator.cs">
+                  <methods>
+                    <method name="Add">
+                      <lines><line number="10" hits="1" branch="false" /></lines>
+                    </method>
+                  </methods>
+                  <lines>
+                    <line number="10" hits="1" branch="false" />
+                    <line number="11" hits="0" branch="false" />
+                    <line number="12" hits="3" branch="true" condition-coverage="50% (1/2)" />
+                  </lines>
+                </class>
+                <class name="Ando.Calculator/Nested" filename="src\Ando\Calculator.cs">
+                  <lines>
+                    <line number="11" hits="2" branch="false" />
+                    <line number="20" hits="0" branch="false" />
+                  </lines>
+                </class>
+                <class name="Ando.Program" filename="src/Ando/Program.cs">
+                  <lines><line number="1" hits="1" branch="false" /></lines>
+                </class>
+              </classes>
+            </package>
+          </packages>
+        </coverage>
+        """;
+
+    private const string Lcov = """
+        TN:
+        SF:src/app.ts
+        DA:1,1
+        DA:2,0
+        DA:3,4
+        BRDA:3,0,0,2
+        BRDA:3,0,1,-
+        LF:3
+        LH:2
+        end_of_record
+        SF:src/util.ts
+        DA:1,0
+        end_of_record
+        """;
+
+    [Theory]
+    [InlineData("coverage.cobertura.xml", true)]
+    [InlineData("coverage/lcov.info", true)]
+    [InlineData("app.lcov", true)]
+    [InlineData("coverage.json", false)]
+    public void IsCandidate_ChecksExtension(string fileName, bool expected)
+    {
+        CoverageReportParser.IsCandidate(fileName).ShouldBe(expected);
+    }
+
+    [Theory]
+    [InlineData("coverage.zip/unit/coverage.cobertura.xml", true)]
+    [InlineData("reports.tar.gz/Cobertura.xml", true)]
+    [InlineData("reports.tar.gz/web/lcov.info", true)]
+    [InlineData("MyLib.1.0.0.nupkg/lib/net9.0/MyLib.xml", false)]
+    public void IsArchiveEntryCandidate_RequiresCoverageNamesForXml(string name, bool expected)
+    {
+        CoverageReportParser.IsArchiveEntryCandidate(name).ShouldBe(expected);
+    }
+
+    [Fact]
+    public void Parse_WithCobertura_CountsEachLineOncePerFile()
+    {
+        // Act
+        var files = CoverageReportParser.Parse(Encoding.UTF8.GetBytes(Cobertura), "coverage.cobertura.xml");
+
+        // Assert
+        files.ShouldNotBeNull();
+        files.Count.ShouldBe(2);
+
+        var calculator = files[0];
+        calculator.Path.ShouldBe("src/Ando/Calculator.cs");
+        calculator.LinesValid.ShouldBe(4);
+        calculator.LinesCovered.ShouldBe(3);
+        calculator.BranchesCovered.ShouldBe(1);
+        calculator.BranchesValid.ShouldBe(2);
+        calculator.LineRate.ShouldBe(0.75);
+        calculator.BranchRate.ShouldBe(0.5);
+
+        files[1].Path.ShouldBe("src/Ando/Program.cs");
+        files[1].BranchRate.ShouldBeNull();
+    }
+
+    [Fact]
+    public void Parse_WithLcov_CountsLinesAndBranches()
+    {
+        // Act
+        var files = CoverageReportParser.Parse(Encoding.UTF8.GetBytes(Lcov), "lcov.info");
+
+        // Assert
+        files.ShouldNotBeNull();
+        files.ShouldBe([
+            new FileCoverage("src/app.ts", 2, 3, 1, 2),
+            new FileCoverage("src/util.ts", 0, 1, 0, 0)
+        ]);
+    }
+
+    [Fact]
+    public void Parse_WithLcovContentUnderOtherName_DetectsLcov()
+    {
+        // Act
+        var files = CoverageReportParser.Parse(Encoding.UTF8.GetBytes(Lcov), "coverage.xml");
+
+        // Assert
+        files.ShouldNotBeNull();
+        files.Count.ShouldBe(2);
+    }
+
+    [Fact]
+    public void Parse_WithOtherXml_ReturnsNull()
+    {
+        // Arrange
+        var junit = Encoding.UTF8.GetBytes("<testsuites><testsuite name=\"unit\" /></testsuites>");
+
+        // Act & Assert
+        CoverageReportParser.Parse(junit, "junit.xml").ShouldBeNull();
+    }
+}
@@ -0,0 +1,106 @@
+// =============================================================================
+// CoverageTests.cs
+//
+// Summary: Unit tests for Coverage.
+//
+// Verifies collecting coverage from report artifacts on disk, how files that
+// appear in several reports are combined, and baseline deltas.
+// =============================================================================
+
+using Ando.Server.Models;
+using Ando.Server.Services;
+
+namespace Ando.Server.Tests.Unit.Services;
+
+public class CoverageTests : IDisposable
+{
+    private readonly string _tempDir;
+
+    public CoverageTests()
+    {
+        _tempDir = Path.Combine(Path.GetTempPath(), $"ando-test-{Guid.NewGuid():N}");
+        Directory.CreateDirectory(_tempDir);
+    }
+
+    public void Dispose()
+    {
+        if (Directory.Exists(_tempDir))
+        {
+            Directory.Delete(_tempDir, recursive: true);
+        }
+    }
+
+    [Fact]
+    public async Task CollectAsync_WithSeveralReports_UsesBestCoverageForSharedFiles()
+    {
+        // Arrange
+        await File.WriteAllTextAsync(Path.Combine(_tempDir, "unit.info"), """
+            SF:src/shared.ts
+            DA:1,1
+            DA:2,0
+            end_of_record
+            SF:src/unit-only.ts
+            DA:1,1
+            end_of_record
+            """);
+        await File.WriteAllTextAsync(Path.Combine(_tempDir, "e2e.info"), """
+            SF:src/shared.ts
+            DA:1,1
+            DA:2,1
+            end_of_record
+            """);
+        await File.WriteAllTextAsync(Path.Combine(_tempDir, "junit.xml"), "<testsuites />");
+
+        // Act
+        var coverage = await Coverage.CollectAsync(
+            [Artifact("unit.info"), Artifact("e2e.info"), Artifact("junit.xml")],
+            _tempDir,
+            CancellationToken.None);
+
+        // Assert
+        coverage.Reports.ShouldBe(["e2e.info", "unit.info"]);
+        coverage.Files.Select(f => f.Path).ShouldBe(["src/shared.ts", "src/unit-only.ts"]);
+        coverage.Files[0].LinesCovered.ShouldBe(2);
+        coverage.LinesCovered.ShouldBe(3);
+        coverage.LinesValid.ShouldBe(3);
+        coverage.LineRate.ShouldBe(1.0);
+        coverage.BranchRate.ShouldBeNull();
+    }
+
+    [Fact]
+    public async Task CollectAsync_WithoutReports_ReturnsEmpty()
+    {
+        // Arrange
+        await File.WriteAllTextAsync(Path.Combine(_tempDir, "app.xml"), "<configuration />");
+
+        // Act
+        var coverage = await Coverage.CollectAsync([Artifact("app.xml")], _tempDir, CancellationToken.None);
+
+        // Assert
+        coverage.Reports.ShouldBeEmpty();
+        coverage.LineRate.ShouldBeNull();
+    }
+
+    [Theory]
+    [InlineData(0.8, 0.75, 0.05)]
+    [InlineData(0.5, 0.6, -0.1)]
+    public void Delta_WithBothRates_ReturnsDifference(double current, double baseline, double expected)
+    {
+        Coverage.Delta(current, baseline)!.Value.ShouldBe(expected, tolerance: 1e-9);
+    }
+
+    [Fact]
+    public void Delta_WithMissingRate_ReturnsNull()
+    {
+        Coverage.Delta(0.5, null).ShouldBeNull();
+        Coverage.Delta(null, 0.5).ShouldBeNull();
+    }
+
+    private static BuildArtifact Artifact(string name) => new()
+    {
+        Name = name,
+        StoragePath = name,
+        CreatedAt = DateTime.UtcNow,
+        ExpiresAt = DateTime.UtcNow.AddDays(30)
+    };
+}
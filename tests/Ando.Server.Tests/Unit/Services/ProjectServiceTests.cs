@@ -316,7 +316,8 @@ public class ProjectServiceTests : IDisposable
             dockerImage: "node:18",
             profile: "deploy",
             notifyOnFailure: true,
-            notificationEmail: "dev@example.com");
+            notificationEmail: "dev@example.com",
+            cancelSupersededBuilds: true);
 
         // Assert
         result.ShouldBeTrue();
@@ -328,6 +329,7 @@ public class ProjectServiceTests : IDisposable
         updated.Profile.ShouldBe("deploy");
         updated.NotifyOnFailure.ShouldBeTrue();
         updated.NotificationEmail.ShouldBe("dev@example.com");
+        updated.CancelSupersededBuilds.ShouldBeTrue();
     }
 
     [Fact]
@@ -723,6 +725,260 @@ public class ProjectServiceTests : IDisposable
         names.ShouldNotContain("super-secret-value");
     }
 
+    // -------------------------------------------------------------------------
+    // Secret History Tests
+    // -------------------------------------------------------------------------
+
+    [Fact]
+    public async Task SetSecretAsync_RecordsCreatedEventWithActor()
+    {
+        // Arrange
+        var user = await CreateTestUserAsync();
+        user.DisplayName = "Test User";
+        await _db.SaveChangesAsync();
+        var project = await CreateTestProjectAsync(user);
+
+        // Act
+        await _service.SetSecretAsync(project.Id, "API_KEY", "value", user.Id);
+
+        // Assert
+        var events = await _service.GetSecretEventsAsync(project.Id);
+        events.Count.ShouldBe(1);
+        events[0].Type.ShouldBe(SecretEventType.Created);
+        events[0].Version.ShouldBe(1);
+        events[0].ActorId.ShouldBe(user.Id);
+        events[0].ActorName.ShouldBe("Test User");
+    }
+
+    [Fact]
+    public async Task SetSecretAsync_WithNewValue_IncrementsVersionAndClearsRotation()
+    {
+        // Arrange
+        var user = await CreateTestUserAsync();
+        var project = await CreateTestProjectAsync(user);
+        await _service.SetSecretAsync(project.Id, "API_KEY", "old-value");
+        await _service.SetSecretRotationAsync(project.Id, "API_KEY", DateTime.UtcNow.Date.AddDays(7));
+
+        // Act
+        var changed = await _service.SetSecretAsync(project.Id, "API_KEY", "new-value");
+
+        // Assert
+        changed.ShouldBeTrue();
+        var secret = await _db.ProjectSecrets.FirstAsync(s => s.ProjectId == project.Id && s.Name == "API_KEY");
+        secret.Version.ShouldBe(2);
+        secret.RotateBy.ShouldBeNull();
+
+        var events = await _service.GetSecretEventsAsync(project.Id, "API_KEY");
+        events[0].Type.ShouldBe(SecretEventType.Updated);
+        events[0].Version.ShouldBe(2);
+    }
+
+    [Fact]
+    public async Task SetSecretAsync_WithSameValue_ChangesNothing()
+    {
+        // Arrange
+        var user = await CreateTestUserAsync();
+        var project = await CreateTestProjectAsync(user);
+        await _service.SetSecretAsync(project.Id, "API_KEY", "value");
+
+        // Act
+        var changed = await _service.SetSecretAsync(project.Id, "API_KEY", "value");
+
+        // Assert
+        changed.ShouldBeFalse();
+        var secret = await _db.ProjectSecrets.FirstAsync(s => s.ProjectId == project.Id && s.Name == "API_KEY");
+        secret.Version.ShouldBe(1);
+        secret.UpdatedAt.ShouldBeNull();
+        (await _service.GetSecretEventsAsync(project.Id)).Count.ShouldBe(1);
+    }
+
+    [Fact]
+    public async Task DeleteSecretAsync_RecordsDeletedEvent()
+    {
+        // Arrange
+        var user = await CreateTestUserAsync();
+        var project = await CreateTestProjectAsync(user);
+        await _service.SetSecretAsync(project.Id, "API_KEY", "value");
+
+        // Act
+        await _service.DeleteSecretAsync(project.Id, "API_KEY", user.Id);
+
+        // Assert
+        var events = await _service.GetSecretEventsAsync(project.Id);
+        events[0].Type.ShouldBe(SecretEventType.Deleted);
+        events[0].SecretName.ShouldBe("API_KEY");
+    }
+
+    [Fact]
+    public async Task SetSecretRotationAsync_SetsAndClearsDeadline()
+    {
+        // Arrange
+        var user = await CreateTestUserAsync();
+        var project = await CreateTestProjectAsync(user);
+        await _service.SetSecretAsync(project.Id, "API_KEY", "value");
+        var deadline = new DateTime(2027, 1, 31, 0, 0, 0, DateTimeKind.Utc);
+
+        // Act
+        await _service.SetSecretRotationAsync(project.Id, "API_KEY", deadline);
+        await _service.SetSecretRotationAsync(project.Id, "API_KEY", null);
+
+        // Assert
+        var secret = await _db.ProjectSecrets.FirstAsync(s => s.ProjectId == project.Id && s.Name == "API_KEY");
+        secret.RotateBy.ShouldBeNull();
+
+        var events = await _service.GetSecretEventsAsync(project.Id);
+        events.Select(e => e.Type).ShouldBe(
+        [
+            SecretEventType.RotationDeadlineCleared,
+            SecretEventType.RotationDeadlineSet,
+            SecretEventType.Created
+        ]);
+        events[1].RotateBy.ShouldBe(deadline);
+    }
+
+    [Fact]
+    public async Task SetSecretRotationAsync_WithNonExistentSecret_ReturnsFalse()
+    {
+        // Arrange
+        var user = await CreateTestUserAsync();
+        var project = await CreateTestProjectAsync(user);
+
+        // Act
+        var result = await _service.SetSecretRotationAsync(project.Id, "NONEXISTENT", DateTime.UtcNow);
+
+        // Assert
+        result.ShouldBeFalse();
+    }
+
+    [Fact]
+    public async Task RecordSecretUseAsync_MarksFirstBuildForCurrentValueOnly()
+    {
+        // Arrange
+        var user = await CreateTestUserAsync();
+        var project = await CreateTestProjectAsync(user);
+        await _service.SetSecretAsync(project.Id, "API_KEY", "v1");
+        await _service.RecordSecretUseAsync(project.Id, 10, await _service.GetSecretsAsync(project.Id));
+        await _service.SetSecretAsync(project.Id, "API_KEY", "v2");
+
+        // Act
+        await _service.RecordSecretUseAsync(project.Id, 11, await _service.GetSecretsAsync(project.Id));
+        await _service.RecordSecretUseAsync(project.Id, 12, await _service.GetSecretsAsync(project.Id));
+
+        // Assert
+        var events = await _service.GetSecretEventsAsync(project.Id, "API_KEY");
+        events.Single(e => e.Version == 2).FirstUsedByBuildId.ShouldBe(11);
+        events.Single(e => e.Version == 1).FirstUsedByBuildId.ShouldBe(10);
+
+        var current = await _service.GetCurrentSecretValueEventsAsync(project.Id);
+        current.Single().Version.ShouldBe(2);
+    }
+
+    // -------------------------------------------------------------------------
+    // Secret Scope Tests
+    // -------------------------------------------------------------------------
+
+    [Fact]
+    public async Task SetSecretAsync_WithScope_KeepsUnscopedValue()
+    {
+        // Arrange
+        var user = await CreateTestUserAsync();
+        var project = await CreateTestProjectAsync(user);
+        await _service.SetSecretAsync(project.Id, "API_KEY", "default");
+
+        // Act
+        await _service.SetSecretAsync(project.Id, "API_KEY", "prod", user.Id, SecretScopes.ForProfile("production"));
+
+        // Assert
+        var secrets = await _service.GetSecretsAsync(project.Id);
+        secrets.Count.ShouldBe(2);
+        secrets.Select(s => s.Scope).ShouldBe(["", "profile:production"]);
+        secrets.ShouldAllBe(s => s.Version == 1);
+
+        var events = await _service.GetSecretEventsAsync(project.Id, "API_KEY");
+        events.First().Scope.ShouldBe("profile:production");
+    }
+
+    [Fact]
+    public async Task DeleteSecretAsync_WithScope_DeletesOnlyThatValue()
+    {
+        // Arrange
+        var user = await CreateTestUserAsync();
+        var project = await CreateTestProjectAsync(user);
+        await _service.SetSecretAsync(project.Id, "API_KEY", "default");
+        await _service.SetSecretAsync(project.Id, "API_KEY", "release", scope: SecretScopes.ForBranch("release/*"));
+
+        // Act
+        var result = await _service.DeleteSecretAsync(project.Id, "API_KEY", scope: SecretScopes.ForBranch("release/*"));
+
+        // Assert
+        result.ShouldBeTrue();
+        var remaining = await _service.GetSecretsAsync(project.Id);
+        remaining.Single().Scope.ShouldBe(SecretScopes.All);
+    }
+
+    [Fact]
+    public async Task GetSecretNamesAsync_OnlyCountsScopesMatchingTheBuild()
+    {
+        // Arrange
+        var user = await CreateTestUserAsync();
+        var project = await CreateTestProjectAsync(user);
+        await _service.SetSecretAsync(project.Id, "API_KEY", "default");
+        await _service.SetSecretAsync(project.Id, "DEPLOY_KEY", "prod", scope: SecretScopes.ForProfile("production"));
+
+        // Act
+        var production = await _service.GetSecretNamesAsync(project.Id, "production", "main");
+        var staging = await _service.GetSecretNamesAsync(project.Id, "staging", "main");
+
+        // Assert
+        production.ShouldBe(["API_KEY", "DEPLOY_KEY"]);
+        staging.ShouldBe(["API_KEY"]);
+    }
+
+    [Fact]
+    public async Task GetSecretNamesAsync_IncludesLinkedSharedSecrets()
+    {
+        // Arrange
+        var user = await CreateTestUserAsync();
+        var project = await CreateTestProjectAsync(user);
+        var shared = new SharedSecret { OwnerId = user.Id, Name = "NUGET_API_KEY", EncryptedValue = "x" };
+        _db.SharedSecrets.Add(shared);
+        await _db.SaveChangesAsync();
+        _db.ProjectSharedSecrets.Add(new ProjectSharedSecret { ProjectId = project.Id, SharedSecretId = shared.Id });
+        await _db.SaveChangesAsync();
+        await _service.SetSecretAsync(project.Id, "API_KEY", "default");
+
+        // Act
+        var names = await _service.GetSecretNamesAsync(project.Id);
+
+        // Assert
+        names.ShouldBe(["API_KEY", "NUGET_API_KEY"]);
+    }
+
+    [Fact]
+    public async Task GetUnchangedSecretNamesAsync_ReturnsUnscopedSecretsWithSameValue()
+    {
+        // Arrange
+        var user = await CreateTestUserAsync();
+        var project = await CreateTestProjectAsync(user);
+        await _service.SetSecretAsync(project.Id, "API_KEY", "same");
+        await _service.SetSecretAsync(project.Id, "DB_PASSWORD", "old");
+        await _service.SetSecretAsync(project.Id, "DEPLOY_KEY", "same", scope: SecretScopes.ForProfile("production"));
+
+        // Act
+        var unchanged = await _service.GetUnchangedSecretNamesAsync(project.Id, new Dictionary<string, string>
+        {
+            ["API_KEY"] = "same",
+            ["DB_PASSWORD"] = "new",
+            ["DEPLOY_KEY"] = "same",
+            ["NEW_KEY"] = "value",
+        });
+
+        // Assert
+        unchanged.ShouldBe(["API_KEY"]);
+        var events = await _db.ProjectSecretEvents.CountAsync();
+        events.ShouldBe(3);
+    }
+
     // -------------------------------------------------------------------------
     // DetectAndUpdateProfilesAsync Tests
     // -------------------------------------------------------------------------
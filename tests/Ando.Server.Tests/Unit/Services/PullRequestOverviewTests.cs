@@ -0,0 +1,133 @@
+// =============================================================================
+// PullRequestOverviewTests.cs
+//
+// Summary: Unit tests for PullRequestOverview.
+//
+// Verifies superseded build marking, merging GitHub pull requests with their
+// builds and the fallback built from PR builds alone.
+// =============================================================================
+
+using Ando.Server.GitHub;
+using Ando.Server.Models;
+using Ando.Server.Services;
+
+namespace Ando.Server.Tests.Unit.Services;
+
+public class PullRequestOverviewTests
+{
+    private const string ShaA = "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+    private const string ShaB = "bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+
+    private static readonly DateTime Day = new(2026, 3, 10, 9, 0, 0, DateTimeKind.Utc);
+
+    private static Build PrBuild(int id, int number, string sha) => new()
+    {
+        Id = id,
+        PullRequestNumber = number,
+        CommitSha = sha,
+        Branch = $"feature/{number}",
+        CommitMessage = $"PR #{number}: Add feature {number}",
+        CommitAuthor = "octocat",
+        Status = BuildStatus.Success,
+        Trigger = BuildTrigger.PullRequest,
+        QueuedAt = Day.AddMinutes(id)
+    };
+
+    private static GitHubPullRequest PullRequest(int number, string headSha, int updatedDaysAgo = 0) => new(
+        number,
+        $"Add feature {number}",
+        "octocat",
+        headSha,
+        $"feature/{number}",
+        "main",
+        $"https://github.com/owner/repo/pull/{number}",
+        IsDraft: false,
+        Day.AddDays(-updatedDaysAgo));
+
+    [Fact]
+    public void MarkSuperseded_WithHeadSha_MarksBuildsOfOtherCommits()
+    {
+        // Arrange
+        var builds = new[] { PrBuild(1, 7, ShaA), PrBuild(2, 7, ShaB), PrBuild(3, 7, ShaB) };
+
+        // Act
+        var result = PullRequestOverview.MarkSuperseded(builds, ShaB);
+
+        // Assert
+        result.Select(b => b.Build.Id).ShouldBe([3, 2, 1]);
+        result.Select(b => b.IsSuperseded).ShouldBe([false, false, true]);
+    }
+
+    [Fact]
+    public void MarkSuperseded_WithoutHeadSha_UsesNewerBuilds()
+    {
+        // Arrange
+        var builds = new[] { PrBuild(1, 7, ShaA), PrBuild(2, 7, ShaA), PrBuild(3, 7, ShaB) };
+
+        // Act
+        var result = PullRequestOverview.MarkSuperseded(builds, headSha: null);
+
+        // Assert
+        result.Select(b => b.IsSuperseded).ShouldBe([false, true, true]);
+    }
+
+    [Fact]
+    public void MarkSuperseded_WhenHeadHasNoBuild_MarksAllBuilds()
+    {
+        // Arrange
+        var builds = new[] { PrBuild(1, 7, ShaA) };
+
+        // Act
+        var result = PullRequestOverview.MarkSuperseded(builds, ShaB);
+
+        // Assert
+        result.Single().IsSuperseded.ShouldBeTrue();
+    }
+
+    [Fact]
+    public void FromGitHub_IncludesOpenPullRequestsWithoutBuilds()
+    {
+        // Arrange
+        var pullRequests = new[] { PullRequest(7, ShaB, updatedDaysAgo: 2), PullRequest(8, ShaA) };
+        var builds = new[] { PrBuild(1, 7, ShaA), PrBuild(2, 7, ShaB) };
+
+        // Act
+        var result = PullRequestOverview.FromGitHub(pullRequests, builds);
+
+        // Assert
+        result.Select(pr => pr.Number).ShouldBe([8, 7]);
+        result[0].TotalBuilds.ShouldBe(0);
+        result[0].Builds.ShouldBeEmpty();
+        result[1].TotalBuilds.ShouldBe(2);
+        result[1].HeadSha.ShouldBe(ShaB);
+        result[1].Builds[0].IsSuperseded.ShouldBeFalse();
+    }
+
+    [Fact]
+    public void FromBuilds_GroupsByPullRequestAndRecoversTitle()
+    {
+        // Arrange
+        var builds = new[] { PrBuild(1, 7, ShaA), PrBuild(2, 9, ShaA), PrBuild(3, 7, ShaB) };
+
+        // Act
+        var result = PullRequestOverview.FromBuilds(builds, "https://github.com/owner/repo/");
+
+        // Assert
+        result.Select(pr => pr.Number).ShouldBe([7, 9]);
+        result[0].Title.ShouldBe("Add feature 7");
+        result[0].HtmlUrl.ShouldBe("https://github.com/owner/repo/pull/7");
+        result[0].HeadSha.ShouldBeNull();
+        result[0].Builds.Select(b => b.IsSuperseded).ShouldBe([false, true]);
+    }
+
+    [Theory]
+    [InlineData("PR #7: Fix login", 7, "Fix login")]
+    [InlineData("PR #8: Fix login", 7, null)]
+    [InlineData("Manual build", 7, null)]
+    [InlineData(null, 7, null)]
+    public void ParseTitle_StripsWebhookPrefix(string? message, int number, string? expected)
+    {
+        // Act & Assert
+        PullRequestOverview.ParseTitle(message, number).ShouldBe(expected);
+    }
+}
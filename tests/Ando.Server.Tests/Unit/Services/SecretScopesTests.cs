@@ -0,0 +1,154 @@
+// =============================================================================
+// SecretScopesTests.cs
+//
+// Summary: Unit tests for SecretScopes.
+//
+// Verifies scope validation, branch pattern matching and which value a build
+// receives when profile, branch and unscoped values exist for one name, and
+// which linked shared secrets it inherits.
+// =============================================================================
+
+using Ando.Server.Models;
+using Ando.Server.Services;
+
+namespace Ando.Server.Tests.Unit.Services;
+
+public class SecretScopesTests
+{
+    [Theory]
+    [InlineData(null, "")]
+    [InlineData("  ", "")]
+    [InlineData("profile:production", "profile:production")]
+    [InlineData("Profile: staging ", "profile:staging")]
+    [InlineData("branch:release/*", "branch:release/*")]
+    public void Validate_WithValidScope_Normalizes(string? scope, string expected)
+    {
+        // Act
+        var error = SecretScopes.Validate(scope, out var normalized);
+
+        // Assert
+        error.ShouldBeNull();
+        normalized.ShouldBe(expected);
+    }
+
+    [Theory]
+    [InlineData("production")]
+    [InlineData("profile:")]
+    [InlineData("branch: ")]
+    public void Validate_WithInvalidScope_ReturnsError(string scope)
+    {
+        // Act
+        var error = SecretScopes.Validate(scope, out _);
+
+        // Assert
+        error.ShouldNotBeNull();
+    }
+
+    [Theory]
+    [InlineData("main", "main", true)]
+    [InlineData("main", "Main", true)]
+    [InlineData("main", "main-2", false)]
+    [InlineData("release/*", "release/1.2", true)]
+    [InlineData("release/*", "release/1.2/hotfix", true)]
+    [InlineData("release/*", "releases/1.2", false)]
+    [InlineData("*-hotfix", "fix-login-hotfix", true)]
+    [InlineData("feature.x", "featureAx", false)]
+    public void MatchesBranch_MatchesPatterns(string pattern, string branch, bool expected)
+    {
+        // Act & Assert
+        SecretScopes.MatchesBranch(pattern, branch).ShouldBe(expected);
+    }
+
+    [Fact]
+    public void Resolve_PrefersProfileThenBranchThenUnscoped()
+    {
+        // Arrange
+        var secrets = new[]
+        {
+            Secret("API_KEY", ""),
+            Secret("API_KEY", "branch:release/*"),
+            Secret("API_KEY", "profile:production"),
+            Secret("DB_PASSWORD", ""),
+            Secret("DB_PASSWORD", "branch:release/*")
+        };
+
+        // Act
+        var production = SecretScopes.Resolve(secrets, "production", "release/1.0");
+        var release = SecretScopes.Resolve(secrets, null, "release/1.0");
+        var main = SecretScopes.Resolve(secrets, "staging", "main");
+
+        // Assert
+        production.Select(s => s.Scope).ShouldBe(["profile:production", "branch:release/*"]);
+        release.Select(s => s.Scope).ShouldBe(["branch:release/*", "branch:release/*"]);
+        main.Select(s => s.Scope).ShouldBe(["", ""]);
+    }
+
+    [Fact]
+    public void Resolve_PrefersExactBranchOverLongerPattern()
+    {
+        // Arrange
+        var secrets = new[]
+        {
+            Secret("API_KEY", "branch:release/*"),
+            Secret("API_KEY", "branch:release/1.0-*"),
+            Secret("API_KEY", "branch:release/1.0-rc")
+        };
+
+        // Act & Assert
+        SecretScopes.Resolve(secrets, null, "release/1.0-rc").Single().Scope.ShouldBe("branch:release/1.0-rc");
+        SecretScopes.Resolve(secrets, null, "release/1.0-beta").Single().Scope.ShouldBe("branch:release/1.0-*");
+        SecretScopes.Resolve(secrets, null, "release/2.0").Single().Scope.ShouldBe("branch:release/*");
+    }
+
+    [Fact]
+    public void Resolve_WithoutMatchingOrUnscopedValue_LeavesSecretOut()
+    {
+        // Arrange
+        var secrets = new[] { Secret("DEPLOY_KEY", "profile:production") };
+
+        // Act & Assert
+        SecretScopes.Resolve(secrets, "staging", "main").ShouldBeEmpty();
+    }
+
+    [Fact]
+    public void ResolveFor_FallsBackToUnscopedValue()
+    {
+        // Arrange
+        var secrets = new[]
+        {
+            Secret("API_KEY", ""),
+            Secret("DEPLOY_KEY", "profile:production"),
+            Secret("DEPLOY_KEY", "profile:staging")
+        };
+
+        // Act
+        var production = SecretScopes.ResolveFor(secrets, "profile:production");
+        var unscoped = SecretScopes.ResolveFor(secrets, SecretScopes.All);
+
+        // Assert
+        production.Select(s => s.Scope).ShouldBe(["", "profile:production"]);
+        unscoped.Select(s => s.Name).ShouldBe(["API_KEY"]);
+    }
+
+    [Fact]
+    public void Inherit_SkipsSharedSecretsWithAProjectValue()
+    {
+        // Arrange
+        var shared = new[]
+        {
+            new SharedSecret { Name = "NUGET_API_KEY" },
+            new SharedSecret { Name = "API_KEY" }
+        };
+        var secrets = new[] { Secret("API_KEY", "profile:production") };
+
+        // Act
+        var production = SecretScopes.Inherit(shared, SecretScopes.Resolve(secrets, "production", "main"));
+        var staging = SecretScopes.Inherit(shared, SecretScopes.Resolve(secrets, "staging", "main"));
+
+        // Assert
+        production.Select(s => s.Name).ShouldBe(["NUGET_API_KEY"]);
+        staging.Select(s => s.Name).ShouldBe(["API_KEY", "NUGET_API_KEY"]);
+    }
+
+    private static ProjectSecret Secret(string name, string scope) => new() { Name = name, Scope = scope };
+}
@@ -0,0 +1,274 @@
+// =============================================================================
+// SharedSecretServiceTests.cs
+//
+// Summary: Unit tests for the SharedSecretService.
+//
+// Tests shared secret storage, linking to projects and which projects
+// override a shared value. Uses in-memory database for isolation.
+// =============================================================================
+
+using Ando.Server.Data;
+using Ando.Server.Models;
+using Ando.Server.Services;
+using Ando.Server.Tests.TestFixtures;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging.Abstractions;
+
+namespace Ando.Server.Tests.Unit.Services;
+
+public class SharedSecretServiceTests : IDisposable
+{
+    private readonly AndoDbContext _db;
+    private readonly MockEncryptionService _encryptionService;
+    private readonly SharedSecretService _service;
+
+    public SharedSecretServiceTests()
+    {
+        _db = TestDbContextFactory.Create();
+        _encryptionService = new MockEncryptionService();
+
+        _service = new SharedSecretService(
+            _db,
+            _encryptionService,
+            NullLogger<SharedSecretService>.Instance);
+    }
+
+    public void Dispose()
+    {
+        _db.Dispose();
+    }
+
+    // -------------------------------------------------------------------------
+    // SetSharedSecretAsync Tests
+    // -------------------------------------------------------------------------
+
+    [Fact]
+    public async Task SetSharedSecretAsync_CreatesEncryptedSecret()
+    {
+        // Arrange
+        var user = await CreateTestUserAsync();
+
+        // Act
+        var changed = await _service.SetSharedSecretAsync(user.Id, "NUGET_API_KEY", "key-1");
+
+        // Assert
+        changed.ShouldBeTrue();
+        var secret = await _db.SharedSecrets.SingleAsync();
+        secret.OwnerId.ShouldBe(user.Id);
+        secret.Version.ShouldBe(1);
+        secret.EncryptedValue.ShouldNotBe("key-1");
+        _encryptionService.Decrypt(secret.EncryptedValue).ShouldBe("key-1");
+    }
+
+    [Fact]
+    public async Task SetSharedSecretAsync_WithNewValue_IncrementsVersion()
+    {
+        // Arrange
+        var user = await CreateTestUserAsync();
+        await _service.SetSharedSecretAsync(user.Id, "NUGET_API_KEY", "key-1");
+
+        // Act
+        var changed = await _service.SetSharedSecretAsync(user.Id, "NUGET_API_KEY", "key-2");
+
+        // Assert
+        changed.ShouldBeTrue();
+        var secret = await _db.SharedSecrets.SingleAsync();
+        secret.Version.ShouldBe(2);
+        secret.UpdatedAt.ShouldNotBeNull();
+    }
+
+    [Fact]
+    public async Task SetSharedSecretAsync_WithSameValue_ReturnsFalse()
+    {
+        // Arrange
+        var user = await CreateTestUserAsync();
+        await _service.SetSharedSecretAsync(user.Id, "NUGET_API_KEY", "key-1");
+
+        // Act
+        var changed = await _service.SetSharedSecretAsync(user.Id, "NUGET_API_KEY", "key-1");
+
+        // Assert
+        changed.ShouldBeFalse();
+        (await _db.SharedSecrets.SingleAsync()).Version.ShouldBe(1);
+    }
+
+    [Fact]
+    public async Task SetSharedSecretAsync_KeepsUsersApart()
+    {
+        // Arrange
+        var user1 = await CreateTestUserAsync("user1");
+        var user2 = await CreateTestUserAsync("user2");
+
+        // Act
+        await _service.SetSharedSecretAsync(user1.Id, "NUGET_API_KEY", "key-1");
+        await _service.SetSharedSecretAsync(user2.Id, "NUGET_API_KEY", "key-2");
+
+        // Assert
+        (await _service.GetSharedSecretsAsync(user1.Id)).Count.ShouldBe(1);
+        (await _service.GetSharedSecretsAsync(user2.Id)).Single().Version.ShouldBe(1);
+    }
+
+    // -------------------------------------------------------------------------
+    // Link Tests
+    // -------------------------------------------------------------------------
+
+    [Fact]
+    public async Task LinkAsync_LinksOwnSharedSecret()
+    {
+        // Arrange
+        var user = await CreateTestUserAsync();
+        var project = await CreateTestProjectAsync(user);
+        var secret = await CreateSharedSecretAsync(user, "NUGET_API_KEY");
+
+        // Act
+        var linked = await _service.LinkAsync(project.Id, secret.Id);
+        var linkedAgain = await _service.LinkAsync(project.Id, secret.Id);
+
+        // Assert
+        linked.ShouldBeTrue();
+        linkedAgain.ShouldBeTrue();
+        (await _service.GetLinkedSecretsAsync(project.Id)).Select(s => s.Name).ShouldBe(["NUGET_API_KEY"]);
+    }
+
+    [Fact]
+    public async Task LinkAsync_WithOtherUsersSharedSecret_ReturnsFalse()
+    {
+        // Arrange
+        var user1 = await CreateTestUserAsync("user1");
+        var user2 = await CreateTestUserAsync("user2");
+        var project = await CreateTestProjectAsync(user1);
+        var secret = await CreateSharedSecretAsync(user2, "NUGET_API_KEY");
+
+        // Act
+        var linked = await _service.LinkAsync(project.Id, secret.Id);
+
+        // Assert
+        linked.ShouldBeFalse();
+        (await _db.ProjectSharedSecrets.CountAsync()).ShouldBe(0);
+    }
+
+    [Fact]
+    public async Task UnlinkAsync_RemovesLinkOnly()
+    {
+        // Arrange
+        var user = await CreateTestUserAsync();
+        var project = await CreateTestProjectAsync(user);
+        var secret = await CreateSharedSecretAsync(user, "NUGET_API_KEY");
+        await _service.LinkAsync(project.Id, secret.Id);
+
+        // Act
+        var unlinked = await _service.UnlinkAsync(project.Id, secret.Id);
+
+        // Assert
+        unlinked.ShouldBeTrue();
+        (await _service.GetLinkedSecretsAsync(project.Id)).ShouldBeEmpty();
+        (await _db.SharedSecrets.CountAsync()).ShouldBe(1);
+    }
+
+    [Fact]
+    public async Task DeleteSharedSecretAsync_UnlinksEveryProject()
+    {
+        // Arrange
+        var user = await CreateTestUserAsync();
+        var project1 = await CreateTestProjectAsync(user, "repo1");
+        var project2 = await CreateTestProjectAsync(user, "repo2");
+        var secret = await CreateSharedSecretAsync(user, "NUGET_API_KEY");
+        await _service.LinkAsync(project1.Id, secret.Id);
+        await _service.LinkAsync(project2.Id, secret.Id);
+
+        // Act
+        var deleted = await _service.DeleteSharedSecretAsync(secret.Id, user.Id);
+
+        // Assert
+        deleted.ShouldBeTrue();
+        (await _db.SharedSecrets.CountAsync()).ShouldBe(0);
+        (await _db.ProjectSharedSecrets.CountAsync()).ShouldBe(0);
+    }
+
+    [Fact]
+    public async Task DeleteSharedSecretAsync_WithOtherOwner_ReturnsFalse()
+    {
+        // Arrange
+        var user1 = await CreateTestUserAsync("user1");
+        var user2 = await CreateTestUserAsync("user2");
+        var secret = await CreateSharedSecretAsync(user1, "NUGET_API_KEY");
+
+        // Act
+        var deleted = await _service.DeleteSharedSecretAsync(secret.Id, user2.Id);
+
+        // Assert
+        deleted.ShouldBeFalse();
+        (await _db.SharedSecrets.CountAsync()).ShouldBe(1);
+    }
+
+    // -------------------------------------------------------------------------
+    // GetOverridesAsync Tests
+    // -------------------------------------------------------------------------
+
+    [Fact]
+    public async Task GetOverridesAsync_ReturnsProjectValuesOfLinkedProjects()
+    {
+        // Arrange
+        var user = await CreateTestUserAsync();
+        var linkedProject = await CreateTestProjectAsync(user, "linked");
+        var otherProject = await CreateTestProjectAsync(user, "other");
+        var secret = await CreateSharedSecretAsync(user, "NUGET_API_KEY");
+        await _service.LinkAsync(linkedProject.Id, secret.Id);
+        _db.ProjectSecrets.AddRange(
+            new ProjectSecret { ProjectId = linkedProject.Id, Name = "NUGET_API_KEY", Scope = "profile:release", EncryptedValue = "x" },
+            new ProjectSecret { ProjectId = linkedProject.Id, Name = "OTHER_KEY", EncryptedValue = "x" },
+            new ProjectSecret { ProjectId = otherProject.Id, Name = "NUGET_API_KEY", EncryptedValue = "x" });
+        await _db.SaveChangesAsync();
+
+        // Act
+        var sharedSecrets = await _service.GetSharedSecretsAsync(user.Id);
+        var overrides = await _service.GetOverridesAsync(sharedSecrets.ToList());
+
+        // Assert
+        overrides.ShouldHaveSingleItem();
+        overrides[0].ProjectId.ShouldBe(linkedProject.Id);
+        overrides[0].Scope.ShouldBe("profile:release");
+    }
+
+    // -------------------------------------------------------------------------
+    // Helpers
+    // -------------------------------------------------------------------------
+
+    private async Task<SharedSecret> CreateSharedSecretAsync(ApplicationUser owner, string name)
+    {
+        await _service.SetSharedSecretAsync(owner.Id, name, "value");
+        return await _db.SharedSecrets.SingleAsync(s => s.OwnerId == owner.Id && s.Name == name);
+    }
+
+    private async Task<ApplicationUser> CreateTestUserAsync(string login = "testuser")
+    {
+        var user = new ApplicationUser
+        {
+            GitHubId = Random.Shared.Next(1, 100000),
+            GitHubLogin = login,
+            CreatedAt = DateTime.UtcNow
+        };
+        _db.Users.Add(user);
+        await _db.SaveChangesAsync();
+        return user;
+    }
+
+    private async Task<Project> CreateTestProjectAsync(ApplicationUser owner, string repoName = "test-repo")
+    {
+        var project = new Project
+        {
+            Owner = owner,
+            OwnerId = owner.Id,
+            GitHubRepoId = Random.Shared.Next(1, 100000),
+            RepoFullName = $"{owner.GitHubLogin}/{repoName}",
+            RepoUrl = $"https://github.com/{owner.GitHubLogin}/{repoName}",
+            DefaultBranch = "main",
+            BranchFilter = "main",
+            InstallationId = 111,
+            CreatedAt = DateTime.UtcNow
+        };
+        _db.Projects.Add(project);
+        await _db.SaveChangesAsync();
+        return project;
+    }
+}
@@ -0,0 +1,147 @@
+// =============================================================================
+// TestReportParserTests.cs
+//
+// Summary: Unit tests for TestReportParser.
+//
+// Verifies parsing of TRX and JUnit reports into test case results and that
+// other XML documents are not treated as test reports.
+// =============================================================================
+
+using System.Text;
+using System.Xml;
+using Ando.Server.Services;
+
+namespace Ando.Server.Tests.Unit.Services;
+
+public class TestReportParserTests
+{
+    private const string Trx = """
+        <?xml version="1.0" encoding="utf-8"?>
+        <TestRun xmlns="http://microsoft.com/schemas/VisualStudio/TeamTest/2010">
+          <Results>
+            <UnitTestResult testId="t1" testName="Ando.Tests.MathTests.Adds" duration="00:00:00.0250000" outcome="Passed" />
+            <UnitTestResult testId="t2" testName="Ando.Tests.MathTests.Divides" duration="00:00:01.5000000" outcome="Failed">
+              <Output>
+                <ErrorInfo>
+                  <Message>Expected 2 but was 3</Message>
+                  <StackTrace>at Ando.Tests.MathTests.Divides() in MathTests.cs:line 12</StackTrace>
+                </ErrorInfo>
+              </Output>
+            </UnitTestResult>
+            <UnitTestResult testId="t3" testName="Ando.Tests.MathTests.Skips" outcome="NotExecuted" />
+          </Results>
+          <TestDefinitions>
+            <UnitTest id="t1"><TestMethod className="Ando.Tests.MathTests, Ando.Tests" name="Adds" /></UnitTest>
+            <UnitTest id="t2"><TestMethod className="Ando.Tests.MathTests, Ando.Tests" name="Divides" /></UnitTest>
+            <UnitTest id="t3"><TestMethod className="Ando.Tests.MathTests, Ando.Tests" name="Skips" /></UnitTest>
+          </TestDefinitions>
+        </TestRun>
+        """;
+
+    private const string JUnit = """
+        <?xml version="1.0" encoding="UTF-8"?>
+        <testsuites>
+          <testsuite name="login.spec.ts">
+            <testcase name="logs in" classname="login.spec.ts" time="1.25" />
+            <testcase name="rejects bad password" classname="login.spec.ts" time="0.5">
+              <failure message="expected error banner">Error: expected error banner
+            at login.spec.ts:20:5</failure>
+            </testcase>
+            <testcase name="remembers me" classname="login.spec.ts" time="0"><skipped /></testcase>
+            <testcase name="crashes" classname="login.spec.ts"><error message="boom" /></testcase>
+          </testsuite>
+        </testsuites>
+        """;
+
+    [Theory]
+    [InlineData("TestResults/results.trx", true)]
+    [InlineData("junit.XML", true)]
+    [InlineData("app.zip", false)]
+    public void IsCandidate_ChecksExtension(string fileName, bool expected)
+    {
+        TestReportParser.IsCandidate(fileName).ShouldBe(expected);
+    }
+
+    [Theory]
+    [InlineData("TestResults.zip/e2e/results.xml", true)]
+    [InlineData("reports.tar.gz/junit.xml", true)]
+    [InlineData("reports.zip/run.trx", true)]
+    [InlineData("MyLib.1.0.0.nupkg/lib/net9.0/MyLib.xml", false)]
+    [InlineData("site.tar.gz/web.config.xml", false)]
+    public void IsArchiveEntryCandidate_RequiresTestNamesForXml(string name, bool expected)
+    {
+        TestReportParser.IsArchiveEntryCandidate(name).ShouldBe(expected);
+    }
+
+    [Fact]
+    public void Parse_WithTrx_ReturnsTestsWithClassNames()
+    {
+        // Act
+        var tests = TestReportParser.Parse(ToStream(Trx));
+
+        // Assert
+        tests.ShouldNotBeNull();
+        tests.Count.ShouldBe(3);
+
+        tests[0].ShouldBe(new TestCaseResult("Adds", "Ando.Tests.MathTests", TestOutcome.Passed, 25, null, null));
+        tests[0].Key.ShouldBe("Ando.Tests.MathTests.Adds");
+
+        tests[1].Outcome.ShouldBe(TestOutcome.Failed);
+        tests[1].DurationMs.ShouldBe(1500);
+        tests[1].Message.ShouldBe("Expected 2 but was 3");
+        tests[1].StackTrace!.ShouldStartWith("at Ando.Tests.MathTests.Divides()");
+
+        tests[2].Outcome.ShouldBe(TestOutcome.Skipped);
+        tests[2].DurationMs.ShouldBeNull();
+    }
+
+    [Fact]
+    public void Parse_WithJUnit_MapsFailuresErrorsAndSkips()
+    {
+        // Act
+        var tests = TestReportParser.Parse(ToStream(JUnit));
+
+        // Assert
+        tests.ShouldNotBeNull();
+        tests.Select(t => t.Outcome).ShouldBe(
+            [TestOutcome.Passed, TestOutcome.Failed, TestOutcome.Skipped, TestOutcome.Failed]);
+        tests[0].DurationMs.ShouldBe(1250);
+        tests[0].Key.ShouldBe("login.spec.ts.logs in");
+        tests[1].Message.ShouldBe("expected error banner");
+        tests[1].StackTrace!.ShouldContain("login.spec.ts:20:5");
+        tests[3].Message.ShouldBe("boom");
+        tests[3].StackTrace.ShouldBeNull();
+    }
+
+    [Fact]
+    public void Parse_WithSingleJUnitTestSuiteRoot_ReturnsTests()
+    {
+        // Arrange
+        const string report = """<testsuite name="unit"><testcase name="works" classname="Unit" time="0.1" /></testsuite>""";
+
+        // Act
+        var tests = TestReportParser.Parse(ToStream(report));
+
+        // Assert
+        tests.ShouldNotBeNull();
+        tests.ShouldHaveSingleItem().Name.ShouldBe("works");
+    }
+
+    [Fact]
+    public void Parse_WithOtherXml_ReturnsNull()
+    {
+        TestReportParser.Parse(ToStream("<Project Sdk=\"Microsoft.NET.Sdk\" />")).ShouldBeNull();
+    }
+
+    [Fact]
+    public void Parse_WithDtd_Throws()
+    {
+        // Arrange
+        const string report = """<!DOCTYPE testsuites [<!ENTITY x "y">]><testsuites>&x;</testsuites>""";
+
+        // Act & Assert
+        Should.Throw<XmlException>(() => TestReportParser.Parse(ToStream(report)));
+    }
+
+    private static MemoryStream ToStream(string content) => new(Encoding.UTF8.GetBytes(content));
+}
@@ -0,0 +1,185 @@
+// =============================================================================
+// TestResultsTests.cs
+//
+// Summary: Unit tests for TestResults.
+//
+// Verifies collecting reports from plain and zipped artifacts on disk, and
+// the new failure / fixed comparison between builds.
+// =============================================================================
+
+using System.IO.Compression;
+using Ando.Server.Models;
+using Ando.Server.Services;
+
+namespace Ando.Server.Tests.Unit.Services;
+
+public class TestResultsTests : IDisposable
+{
+    private const string JUnit = """
+        <testsuites>
+          <testsuite name="api">
+            <testcase name="creates" classname="Api" time="0.1" />
+            <testcase name="deletes" classname="Api" time="0.2"><failure message="404" /></testcase>
+          </testsuite>
+        </testsuites>
+        """;
+
+    private readonly string _tempDir;
+
+    public TestResultsTests()
+    {
+        _tempDir = Path.Combine(Path.GetTempPath(), $"ando-test-{Guid.NewGuid():N}");
+        Directory.CreateDirectory(_tempDir);
+    }
+
+    public void Dispose()
+    {
+        if (Directory.Exists(_tempDir))
+        {
+            Directory.Delete(_tempDir, recursive: true);
+        }
+    }
+
+    // -------------------------------------------------------------------------
+    // CollectAsync
+    // -------------------------------------------------------------------------
+
+    [Fact]
+    public async Task CollectAsync_ReadsPlainAndZippedReports()
+    {
+        // Arrange
+        await File.WriteAllTextAsync(Path.Combine(_tempDir, "junit.xml"), JUnit);
+        await File.WriteAllTextAsync(Path.Combine(_tempDir, "app.csproj.xml"), "<Project />");
+        using (var zip = ZipFile.Open(Path.Combine(_tempDir, "TestResults.zip"), ZipArchiveMode.Create))
+        {
+            using var writer = new StreamWriter(zip.CreateEntry("e2e/results.xml").Open());
+            await writer.WriteAsync(JUnit);
+        }
+
+        var artifacts = new[]
+        {
+            Artifact("junit.xml"),
+            Artifact("app.csproj.xml"),
+            Artifact("TestResults.zip"),
+            Artifact("missing.trx")
+        };
+
+        // Act
+        var collection = await TestResults.CollectAsync(artifacts, _tempDir, CancellationToken.None);
+
+        // Assert
+        collection.Reports.ShouldBe(["junit.xml", "TestResults.zip/e2e/results.xml"]);
+        collection.Tests.Count.ShouldBe(4);
+    }
+
+    [Fact]
+    public async Task CollectAsync_SkipsUnrelatedXmlInsideArchives()
+    {
+        // Arrange: a package whose XML doc file happens to look like a report
+        using (var zip = ZipFile.Open(Path.Combine(_tempDir, "MyLib.1.0.0.nupkg"), ZipArchiveMode.Create))
+        {
+            using var writer = new StreamWriter(zip.CreateEntry("lib/net9.0/MyLib.xml").Open());
+            await writer.WriteAsync(JUnit);
+        }
+
+        // Act
+        var collection = await TestResults.CollectAsync(
+            [Artifact("MyLib.1.0.0.nupkg")], _tempDir, CancellationToken.None);
+
+        // Assert
+        collection.Reports.ShouldBeEmpty();
+    }
+
+    [Fact]
+    public async Task CollectAsync_StopsAtReportLimit()
+    {
+        // Arrange
+        var artifacts = new List<BuildArtifact>();
+        for (var i = 0; i <= TestResults.MaxReports; i++)
+        {
+            var name = $"junit-{i:D3}.xml";
+            await File.WriteAllTextAsync(Path.Combine(_tempDir, name), JUnit);
+            artifacts.Add(Artifact(name));
+        }
+
+        // Act
+        var collection = await TestResults.CollectAsync(artifacts, _tempDir, CancellationToken.None);
+
+        // Assert
+        collection.Reports.Count.ShouldBe(TestResults.MaxReports);
+    }
+
+    [Fact]
+    public async Task CollectAsync_SkipsMalformedReports()
+    {
+        // Arrange
+        await File.WriteAllTextAsync(Path.Combine(_tempDir, "broken.trx"), "<TestRun");
+
+        // Act
+        var collection = await TestResults.CollectAsync([Artifact("broken.trx")], _tempDir, CancellationToken.None);
+
+        // Assert
+        collection.Reports.ShouldBeEmpty();
+        collection.Tests.ShouldBeEmpty();
+    }
+
+    // -------------------------------------------------------------------------
+    // Compare
+    // -------------------------------------------------------------------------
+
+    [Fact]
+    public void Compare_FlagsNewFailuresAndFixedTests()
+    {
+        // Arrange
+        var previous = new[]
+        {
+            Test("StillFailing", TestOutcome.Failed),
+            Test("NowFixed", TestOutcome.Failed),
+            Test("NewlyBroken", TestOutcome.Passed),
+            Test("WasSkipped", TestOutcome.Skipped)
+        };
+        var current = new[]
+        {
+            Test("StillFailing", TestOutcome.Failed),
+            Test("NowFixed", TestOutcome.Passed),
+            Test("NewlyBroken", TestOutcome.Failed),
+            Test("WasSkipped", TestOutcome.Failed),
+            Test("BrandNew", TestOutcome.Failed)
+        };
+
+        // Act
+        var comparison = TestResults.Compare(current, previous);
+
+        // Assert
+        comparison.NewFailures.ShouldBe(
+            ["Suite.NewlyBroken", "Suite.WasSkipped", "Suite.BrandNew"],
+            ignoreOrder: true);
+        comparison.Fixed.ShouldBe(["Suite.NowFixed"]);
+    }
+
+    [Fact]
+    public void Compare_WithRepeatedRuns_TreatsAnyFailureAsFailed()
+    {
+        // Arrange: the test ran once per target framework
+        var previous = new[] { Test("Flaky", TestOutcome.Failed), Test("Flaky", TestOutcome.Passed) };
+        var current = new[] { Test("Flaky", TestOutcome.Passed), Test("Flaky", TestOutcome.Failed) };
+
+        // Act
+        var comparison = TestResults.Compare(current, previous);
+
+        // Assert
+        comparison.NewFailures.ShouldBeEmpty();
+        comparison.Fixed.ShouldBeEmpty();
+    }
+
+    private static BuildArtifact Artifact(string name) => new()
+    {
+        Name = name,
+        StoragePath = name,
+        CreatedAt = DateTime.UtcNow,
+        ExpiresAt = DateTime.UtcNow.AddDays(30)
+    };
+
+    private static TestCaseResult Test(string name, TestOutcome outcome) =>
+        new(name, "Suite", outcome, null, null, null);
+}